@@ -13,6 +13,11 @@ const nextConfig: NextConfig = {
         hostname: "img.youtube.com",
         pathname: "/vi/**",
       },
+      {
+        // 채널 프로필 이미지
+        protocol: "https",
+        hostname: "yt3.ggpht.com",
+      },
     ],
   },
 };
@@ -0,0 +1,483 @@
+"use client";
+
+/**
+ * page.tsx
+ * 채널 상세 페이지 - 업로드 영상별 성과도/기여도, Shorts·롱폼 요약, 월별 아웃라이어 추이
+ * 책임: 채널 분석 API 호출 및 리포트 렌더링
+ */
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import Image from "next/image";
+import { motion } from "framer-motion";
+import ScoreBadge from "@/components/ScoreBadge";
+import UserMenu from "@/components/UserMenu";
+import { formatKoreanNumber, formatDate } from "@/lib/youtube/analysis";
+import type { ChannelReport, ChannelTimelineBucket, ChannelVideo } from "@/lib/youtube/channelAnalysis";
+import type { VideoType } from "@/lib/youtube/videoType";
+import type { QuotaUsage } from "@/lib/youtube/quota";
+import { loadStoredApiKeys } from "@/lib/client/apiKeyStorage";
+import { PLAN_LIMIT_CODE } from "@/lib/billing/plans";
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+const TYPE_LABELS: Record<VideoType, string> = {
+  shorts: "Shorts",
+  longform: "롱폼",
+};
+
+type LoadState =
+  | { status: "loading" }
+  | { status: "error"; error: string; upgradeUrl?: string }
+  | { status: "success"; report: ChannelReport; quota: QuotaUsage };
+
+// ─── 메인 컴포넌트 ─────────────────────────────────────────────────────────────
+
+export default function ChannelPage() {
+  const { id } = useParams<{ id: string }>();
+  const [state, setState] = useState<LoadState>({ status: "loading" });
+  const [typeTab, setTypeTab] = useState<VideoType>("longform");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const res = await fetch(`/api/youtube/channel/${encodeURIComponent(id)}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ apiKeys: loadStoredApiKeys() }),
+        });
+        const data = await res.json();
+        if (cancelled) return;
+
+        if (!res.ok) {
+          setState({
+            status: "error",
+            error: data.error ?? "알 수 없는 오류가 발생했습니다.",
+            // 요금제 일일 한도 초과 시 요금제 페이지 안내
+            upgradeUrl: data.code === PLAN_LIMIT_CODE ? data.upgradeUrl : undefined,
+          });
+          return;
+        }
+        setState({ status: "success", report: data.report, quota: data.quota });
+        // 영상이 더 많은 유형을 기본 탭으로
+        const { shorts, longform } = (data.report as ChannelReport).summary;
+        setTypeTab(shorts.count > longform.count ? "shorts" : "longform");
+      } catch {
+        if (!cancelled) {
+          setState({ status: "error", error: "네트워크 오류가 발생했습니다. 인터넷 연결을 확인해 주세요." });
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  return (
+    <div className="min-h-screen" style={{ backgroundColor: "var(--background)" }}>
+      {/* ── 헤더 ── */}
+      <header
+        className="sticky top-0 z-20 px-4 sm:px-6 py-3 sm:py-4 flex items-center gap-3"
+        style={{
+          backgroundColor: "rgba(15,17,23,0.85)",
+          backdropFilter: "blur(12px)",
+          borderBottom: "1px solid var(--border)",
+        }}
+      >
+        <Link href="/analyzer" className="flex items-center gap-2">
+          <svg width="28" height="28" viewBox="0 0 28 28" fill="none" aria-hidden="true">
+            <rect width="28" height="28" rx="8" fill="#6366f1" />
+            <path d="M11 9.5L20 14L11 18.5V9.5Z" fill="white" />
+          </svg>
+          <span className="font-bold text-lg gradient-text">찌동튜브</span>
+        </Link>
+        <Link
+          href="/analyzer"
+          className="ml-auto text-xs px-3 py-1.5 rounded-full font-medium"
+          style={{
+            backgroundColor: "var(--surface-2)",
+            color: "var(--text-secondary)",
+            border: "1px solid var(--border)",
+          }}
+        >
+          ← 검색으로
+        </Link>
+        <UserMenu />
+      </header>
+
+      <main className="max-w-7xl mx-auto px-3 sm:px-6 py-6 sm:py-10 flex flex-col gap-5 sm:gap-8">
+        {state.status === "loading" && (
+          <p className="text-center py-20 text-sm" style={{ color: "var(--text-secondary)" }}>
+            채널 업로드를 분석하는 중...
+          </p>
+        )}
+
+        {state.status === "error" && (
+          <div
+            className="rounded-2xl p-6 text-sm"
+            style={{
+              backgroundColor: "rgba(239,68,68,0.08)",
+              border: "1px solid rgba(239,68,68,0.3)",
+              color: "#fca5a5",
+            }}
+          >
+            {state.error}
+            {state.upgradeUrl && (
+              <Link href={state.upgradeUrl} className="ml-2 underline" style={{ color: "var(--accent-light)" }}>
+                요금제 보기
+              </Link>
+            )}
+          </div>
+        )}
+
+        {state.status === "success" && (
+          <ChannelReportView
+            report={state.report}
+            quota={state.quota}
+            typeTab={typeTab}
+            onTypeTabChange={setTypeTab}
+          />
+        )}
+      </main>
+    </div>
+  );
+}
+
+// ─── 리포트 뷰 ────────────────────────────────────────────────────────────────
+
+function ChannelReportView({
+  report,
+  quota,
+  typeTab,
+  onTypeTabChange,
+}: {
+  report: ChannelReport;
+  quota: QuotaUsage;
+  typeTab: VideoType;
+  onTypeTabChange: (type: VideoType) => void;
+}) {
+  const { channel, summary, outliers, timeline } = report;
+  const videos = report.videos.filter((v) => v.videoType === typeTab);
+
+  return (
+    <>
+      {/* ── 채널 정보 ── */}
+      <motion.section
+        initial={{ opacity: 0, y: -16 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4 }}
+        className="rounded-2xl p-4 sm:p-6 flex flex-col sm:flex-row gap-4 sm:items-center"
+        style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+      >
+        {channel.thumbnail && (
+          <Image
+            src={channel.thumbnail}
+            alt={channel.title}
+            width={72}
+            height={72}
+            className="rounded-full"
+          />
+        )}
+        <div className="flex-1">
+          <h1 className="text-xl sm:text-2xl font-bold" style={{ color: "var(--text-primary)" }}>
+            {channel.title}
+          </h1>
+          <p className="mt-1 text-sm" style={{ color: "var(--text-secondary)" }}>
+            구독자 {formatKoreanNumber(channel.subscriberCount)} · 영상{" "}
+            {channel.videoCount.toLocaleString()}개 · 총 조회수 {formatKoreanNumber(channel.viewCount)}
+          </p>
+          <p className="mt-1 text-xs" style={{ color: "var(--text-secondary)" }}>
+            최근 업로드 {report.videos.length}개 분석 · 점수 기준 {report.scoringProfile.name} · 할당량{" "}
+            {quota.used.toLocaleString()} units
+            {quota.skipped.includes("olderUploads") && (
+              <span style={{ color: "#fbbf24" }}> · 예산 부족으로 이전 업로드 생략</span>
+            )}
+          </p>
+        </div>
+        <div className="flex gap-2 self-start sm:self-center">
+          <FollowButton channelId={report.channel.id} />
+          <a
+            href={`https://www.youtube.com/channel/${channel.id}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs px-3 py-1.5 rounded-lg"
+            style={{ color: "var(--accent-light)", border: "1px solid var(--border)" }}
+          >
+            YouTube에서 보기 ↗
+          </a>
+        </div>
+      </motion.section>
+
+      {/* ── Shorts / 롱폼 요약 ── */}
+      <section className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {(Object.keys(TYPE_LABELS) as VideoType[]).map((type) => (
+          <div
+            key={type}
+            className="rounded-2xl p-4 grid grid-cols-3 gap-2"
+            style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+          >
+            <p className="col-span-3 text-sm font-semibold" style={{ color: "var(--text-primary)" }}>
+              {TYPE_LABELS[type]}
+            </p>
+            <SummaryStat label="영상 수" value={`${summary[type].count}개`} />
+            <SummaryStat label="평균 조회수" value={formatKoreanNumber(summary[type].avgViews)} />
+            <SummaryStat label="아웃라이어" value={`${summary[type].outlierCount}개`} highlight />
+          </div>
+        ))}
+      </section>
+
+      {/* ── 월별 추이 ── */}
+      {timeline.length > 0 && (
+        <section
+          className="rounded-2xl p-4 sm:p-6"
+          style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+        >
+          <h2 className="text-sm font-semibold mb-3" style={{ color: "var(--text-primary)" }}>
+            월별 업로드 · 아웃라이어 추이
+          </h2>
+          <TimelineChart buckets={timeline} />
+        </section>
+      )}
+
+      {/* ── 아웃라이어 히트 ── */}
+      <section
+        className="rounded-2xl p-4 sm:p-6"
+        style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+      >
+        <h2 className="text-sm font-semibold mb-3" style={{ color: "var(--text-primary)" }}>
+          아웃라이어 히트 ({outliers.length})
+          <span className="ml-1.5 text-xs font-normal" style={{ color: "var(--text-secondary)" }}>
+            같은 유형 채널 평균 대비 기여도 Great 이상
+          </span>
+        </h2>
+        {outliers.length === 0 ? (
+          <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+            분석 기간 내 아웃라이어가 없습니다.
+          </p>
+        ) : (
+          <ol className="flex flex-col gap-2">
+            {outliers.map((v) => (
+              <li key={v.id} className="flex items-center gap-3 text-sm">
+                <span className="text-xs w-20 flex-shrink-0" style={{ color: "var(--text-secondary)" }}>
+                  {formatDate(v.publishedAt)}
+                </span>
+                <a
+                  href={`https://www.youtube.com/watch?v=${v.id}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex-1 truncate hover:underline"
+                  style={{ color: "var(--text-primary)" }}
+                >
+                  {v.title}
+                </a>
+                <span className="text-xs" style={{ color: "var(--text-secondary)" }}>
+                  {TYPE_LABELS[v.videoType]} · {formatKoreanNumber(v.viewCount)}
+                </span>
+                {v.contributionScore && <ScoreBadge info={v.contributionScore} />}
+              </li>
+            ))}
+          </ol>
+        )}
+      </section>
+
+      {/* ── 영상 목록 ── */}
+      <section className="flex flex-col gap-3">
+        <div className="flex gap-2">
+          {(Object.keys(TYPE_LABELS) as VideoType[]).map((type) => (
+            <button
+              key={type}
+              onClick={() => onTypeTabChange(type)}
+              className="px-4 py-1.5 rounded-lg text-sm font-medium transition-all"
+              style={{
+                backgroundColor: typeTab === type ? "var(--accent)" : "var(--surface-2)",
+                color: typeTab === type ? "#fff" : "var(--text-secondary)",
+                border: "1px solid var(--border)",
+              }}
+            >
+              {TYPE_LABELS[type]} {summary[type].count}
+            </button>
+          ))}
+        </div>
+        <ChannelVideoTable videos={videos} />
+      </section>
+    </>
+  );
+}
+
+// ─── 서브 컴포넌트 ────────────────────────────────────────────────────────────
+
+function SummaryStat({ label, value, highlight = false }: { label: string; value: string; highlight?: boolean }) {
+  return (
+    <div className="rounded-lg px-3 py-2" style={{ backgroundColor: "var(--surface-2)" }}>
+      <p className="text-xs mb-0.5" style={{ color: "var(--text-secondary)" }}>
+        {label}
+      </p>
+      <p
+        className="text-sm font-semibold"
+        style={{ color: highlight ? "var(--accent-light)" : "var(--text-primary)" }}
+      >
+        {value}
+      </p>
+    </div>
+  );
+}
+
+/** 경쟁 채널 팔로우 토글 — 팔로우하면 주기 작업이 구독자·새 업로드를 기록 */
+function FollowButton({ channelId }: { channelId: string }) {
+  const [followed, setFollowed] = useState<boolean | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/competitors/${encodeURIComponent(channelId)}`)
+      .then((res) => {
+        if (!cancelled) setFollowed(res.ok);
+      })
+      .catch(() => {
+        if (!cancelled) setFollowed(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [channelId]);
+
+  const handleToggle = async () => {
+    setError(null);
+    try {
+      const res = followed
+        ? await fetch(`/api/competitors/${encodeURIComponent(channelId)}`, { method: "DELETE" })
+        : await fetch("/api/competitors", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ channelId, apiKeys: loadStoredApiKeys() }),
+          });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setFollowed(!followed);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "팔로우 상태를 바꾸지 못했습니다.");
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleToggle}
+      disabled={followed === null}
+      title={error ?? (followed ? "경쟁 채널 팔로우 해제" : "경쟁 채널로 팔로우")}
+      className="text-xs px-3 py-1.5 rounded-lg disabled:opacity-50"
+      style={{
+        color: error ? "#ef4444" : followed ? "#fff" : "var(--text-secondary)",
+        backgroundColor: followed ? "var(--accent)" : undefined,
+        border: "1px solid var(--border)",
+      }}
+    >
+      {followed ? "★ 팔로우 중" : "☆ 경쟁 채널 팔로우"}
+    </button>
+  );
+}
+
+/** 월별 업로드 수 막대 + 아웃라이어 수(강조) SVG 차트 */
+function TimelineChart({ buckets }: { buckets: ChannelTimelineBucket[] }) {
+  const height = 120;
+  const barWidth = 18;
+  const gap = 6;
+  const maxUploads = Math.max(...buckets.map((b) => b.uploads), 1);
+  const width = buckets.length * (barWidth + gap);
+
+  return (
+    <div className="overflow-x-auto">
+      <svg width={width} height={height + 20} role="img" aria-label="월별 업로드 추이">
+        {buckets.map((b, i) => {
+          const x = i * (barWidth + gap);
+          const uploadH = (b.uploads / maxUploads) * height;
+          const outlierH = (b.outliers / maxUploads) * height;
+          return (
+            <g key={b.month}>
+              <title>
+                {`${b.month}: 업로드 ${b.uploads}개, 아웃라이어 ${b.outliers}개, 평균 조회수 ${b.avgViews.toLocaleString()}`}
+              </title>
+              <rect x={x} y={height - uploadH} width={barWidth} height={uploadH} rx={3} fill="var(--surface-2)" />
+              <rect x={x} y={height - outlierH} width={barWidth} height={outlierH} rx={3} fill="#6366f1" />
+              {(i === 0 || b.month.endsWith("-01")) && (
+                <text x={x} y={height + 14} fontSize={10} fill="var(--text-secondary)">
+                  {b.month.replace("-", ".")}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
+
+function ChannelVideoTable({ videos }: { videos: ChannelVideo[] }) {
+  if (videos.length === 0) {
+    return (
+      <p className="text-sm py-8 text-center" style={{ color: "var(--text-secondary)" }}>
+        해당 유형의 영상이 없습니다.
+      </p>
+    );
+  }
+
+  return (
+    <div
+      className="overflow-x-auto rounded-2xl"
+      style={{ border: "1px solid var(--border)", backgroundColor: "var(--surface)" }}
+    >
+      <table className="w-full text-sm">
+        <thead>
+          <tr style={{ borderBottom: "1px solid var(--border)", color: "var(--text-secondary)" }}>
+            <th className="px-4 py-3 text-left font-medium">영상</th>
+            <th className="px-4 py-3 text-left font-medium">조회수</th>
+            <th className="px-4 py-3 text-left font-medium">기여도</th>
+            <th className="px-4 py-3 text-left font-medium">성과도</th>
+            <th className="px-4 py-3 text-left font-medium">업로드</th>
+          </tr>
+        </thead>
+        <tbody>
+          {videos.map((v) => (
+            <tr key={v.id} style={{ borderBottom: "1px solid var(--border)" }}>
+              <td className="px-4 py-3 max-w-md">
+                <a
+                  href={`https://www.youtube.com/watch?v=${v.id}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium line-clamp-2 hover:underline"
+                  style={{ color: "var(--text-primary)" }}
+                >
+                  {v.title}
+                </a>
+              </td>
+              <td className="px-4 py-3 whitespace-nowrap">
+                <div className="font-semibold" style={{ color: "var(--text-primary)" }}>
+                  {formatKoreanNumber(v.viewCount)}
+                </div>
+                <div className="text-xs mt-0.5" style={{ color: "var(--accent-light)" }}>
+                  x{v.viewToSubscriberRatio.toFixed(1)}
+                </div>
+              </td>
+              <td className="px-4 py-3">
+                {v.contributionScore ? (
+                  <ScoreBadge info={v.contributionScore} />
+                ) : (
+                  <span style={{ color: "var(--text-secondary)" }}>-</span>
+                )}
+              </td>
+              <td className="px-4 py-3">
+                <ScoreBadge info={v.performanceScore} />
+              </td>
+              <td className="px-4 py-3 whitespace-nowrap" style={{ color: "var(--text-secondary)" }}>
+                {formatDate(v.publishedAt)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+"use client";
+
+/**
+ * page.tsx
+ * 경쟁 채널 대시보드 - 팔로우한 채널의 구독자 증가량, 업로드 주기, 최근 업로드 평균 조회수
+ * 책임: 경쟁 채널 API 호출 및 목록/구독자 추이 렌더링 (수집은 /api/cron/competitors)
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import UserMenu from "@/components/UserMenu";
+import GrowthChart from "@/components/GrowthChart";
+import { formatDate, formatKoreanNumber } from "@/lib/youtube/analysis";
+import type {
+  ChannelStatSnapshot,
+  CompetitorSummary,
+  TrackedUpload,
+} from "@/lib/competitors/competitors";
+
+interface Opened {
+  summary: CompetitorSummary;
+  snapshots: ChannelStatSnapshot[];
+  uploads: TrackedUpload[];
+}
+
+/** 구독자 증가량 표시 (+1.2만 / 기록 부족 시 —) */
+function formatGrowth(growth: number | null): string {
+  if (growth === null) return "—";
+  return `${growth >= 0 ? "+" : ""}${formatKoreanNumber(growth)}`;
+}
+
+// ─── 메인 컴포넌트 ─────────────────────────────────────────────────────────────
+
+export default function CompetitorsPage() {
+  const [channels, setChannels] = useState<CompetitorSummary[] | null>(null);
+  const [opened, setOpened] = useState<Opened | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadList = useCallback(async () => {
+    try {
+      const res = await fetch("/api/competitors");
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setChannels(data.channels);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "경쟁 채널을 불러오지 못했습니다.");
+      setChannels([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/competitors")
+      .then((res) => res.json())
+      .then((data) => {
+        if (!cancelled) setChannels(data.channels ?? []);
+      })
+      .catch(() => {
+        if (!cancelled) setChannels([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleOpen = async (channelId: string) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/competitors/${encodeURIComponent(channelId)}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setOpened(data);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "채널 기록을 불러오지 못했습니다.");
+    }
+  };
+
+  const handleUnfollow = async (channelId: string) => {
+    setError(null);
+    await fetch(`/api/competitors/${encodeURIComponent(channelId)}`, { method: "DELETE" }).catch(() => {});
+    if (opened?.summary.channelId === channelId) setOpened(null);
+    await loadList();
+  };
+
+  return (
+    <div className="min-h-screen" style={{ backgroundColor: "var(--background)" }}>
+      {/* ── 헤더 ── */}
+      <header
+        className="sticky top-0 z-20 px-4 sm:px-6 py-3 sm:py-4 flex items-center gap-3"
+        style={{
+          backgroundColor: "rgba(15,17,23,0.85)",
+          backdropFilter: "blur(12px)",
+          borderBottom: "1px solid var(--border)",
+        }}
+      >
+        <Link href="/analyzer" className="flex items-center gap-2">
+          <svg width="28" height="28" viewBox="0 0 28 28" fill="none" aria-hidden="true">
+            <rect width="28" height="28" rx="8" fill="#6366f1" />
+            <path d="M11 9.5L20 14L11 18.5V9.5Z" fill="white" />
+          </svg>
+          <span className="font-bold text-lg gradient-text">찌동튜브</span>
+        </Link>
+        <Link
+          href="/analyzer"
+          className="ml-auto text-xs px-3 py-1.5 rounded-full font-medium"
+          style={{
+            backgroundColor: "var(--surface-2)",
+            color: "var(--text-secondary)",
+            border: "1px solid var(--border)",
+          }}
+        >
+          ← 검색으로
+        </Link>
+        <UserMenu />
+      </header>
+
+      <main className="max-w-7xl mx-auto px-3 sm:px-6 py-6 sm:py-10 flex flex-col gap-5 sm:gap-8">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold" style={{ color: "var(--text-primary)" }}>
+            경쟁 채널
+          </h1>
+          <p className="mt-1 text-sm" style={{ color: "var(--text-secondary)" }}>
+            채널 상세에서 팔로우한 채널의 구독자 수와 새 업로드를 주기적으로 기록합니다. 증가량은 기록이 해당 기간만큼 쌓인 뒤부터 표시됩니다.
+          </p>
+        </div>
+
+        {error && (
+          <div
+            className="rounded-xl px-4 py-3 text-sm"
+            style={{
+              backgroundColor: "rgba(239,68,68,0.08)",
+              border: "1px solid rgba(239,68,68,0.3)",
+              color: "#fca5a5",
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        {channels === null ? (
+          <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+            불러오는 중...
+          </p>
+        ) : channels.length === 0 ? (
+          <p className="text-sm py-10 text-center" style={{ color: "var(--text-secondary)" }}>
+            아직 팔로우한 채널이 없습니다.
+          </p>
+        ) : (
+          <ul
+            className="rounded-2xl overflow-hidden"
+            style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+          >
+            {channels.map((channel) => (
+              <CompetitorRow
+                key={channel.channelId}
+                channel={channel}
+                active={opened?.summary.channelId === channel.channelId}
+                onOpen={() => handleOpen(channel.channelId)}
+                onUnfollow={() => handleUnfollow(channel.channelId)}
+              />
+            ))}
+          </ul>
+        )}
+
+        {opened && (
+          <section
+            className="rounded-2xl p-4 sm:p-6 flex flex-col gap-4"
+            style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+          >
+            <div>
+              <h2 className="text-lg font-semibold" style={{ color: "var(--text-primary)" }}>
+                {opened.summary.title}
+              </h2>
+              <p className="mt-1 text-xs" style={{ color: "var(--text-secondary)" }}>
+                스냅샷 {opened.snapshots.length}개 · 7일 {formatGrowth(opened.summary.subscriberGrowth["7d"])} · 30일{" "}
+                {formatGrowth(opened.summary.subscriberGrowth["30d"])}
+              </p>
+            </div>
+            {opened.snapshots.length >= 2 ? (
+              <GrowthChart
+                points={opened.snapshots.map((s) => ({ at: s.at, value: s.subscriberCount }))}
+                label="구독자"
+              />
+            ) : (
+              <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+                다음 수집 이후 구독자 추이가 표시됩니다.
+              </p>
+            )}
+            <UploadList uploads={opened.uploads} />
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// ─── 서브 컴포넌트 ────────────────────────────────────────────────────────────
+
+function CompetitorRow({
+  channel,
+  active,
+  onOpen,
+  onUnfollow,
+}: {
+  channel: CompetitorSummary;
+  active: boolean;
+  onOpen: () => void;
+  onUnfollow: () => void;
+}) {
+  const buttonStyle = { border: "1px solid var(--border)", color: "var(--text-secondary)" };
+
+  return (
+    <li
+      className="px-4 py-3 flex flex-col sm:flex-row sm:items-center gap-3"
+      style={{
+        borderBottom: "1px solid var(--border)",
+        backgroundColor: active ? "var(--surface-2)" : undefined,
+      }}
+    >
+      <Link href={`/analyzer/channel/${channel.channelId}`} className="flex items-center gap-3 flex-1 min-w-0">
+        {channel.thumbnail && (
+          <Image
+            src={channel.thumbnail}
+            alt={channel.title}
+            width={40}
+            height={40}
+            className="rounded-full flex-shrink-0"
+          />
+        )}
+        <div className="min-w-0">
+          <p className="font-medium truncate" style={{ color: "var(--text-primary)" }}>
+            {channel.title}
+            {channel.newUploads7d > 0 && (
+              <span
+                className="ml-2 text-[10px] px-1.5 py-0.5 rounded-full align-middle"
+                style={{ backgroundColor: "var(--accent)", color: "#fff" }}
+              >
+                새 업로드 {channel.newUploads7d}
+              </span>
+            )}
+          </p>
+          <p className="text-xs mt-0.5" style={{ color: "var(--text-secondary)" }}>
+            구독자 {channel.latest ? formatKoreanNumber(channel.latest.subscriberCount) : "—"}
+            {channel.latest && <> · 영상 {channel.latest.videoCount.toLocaleString()}개</>}
+          </p>
+        </div>
+      </Link>
+      <div className="grid grid-cols-3 sm:flex gap-4 text-xs whitespace-nowrap">
+        <Stat label="구독자 7일" value={formatGrowth(channel.subscriberGrowth["7d"])} positive={channel.subscriberGrowth["7d"] !== null} />
+        <Stat label="구독자 30일" value={formatGrowth(channel.subscriberGrowth["30d"])} positive={channel.subscriberGrowth["30d"] !== null} />
+        <Stat label="30일 업로드" value={`${channel.uploadsLast30d}개`} />
+        <Stat
+          label="업로드 간격"
+          value={channel.avgUploadGapDays !== null ? `${channel.avgUploadGapDays}일` : "—"}
+        />
+        <Stat
+          label="최근 평균 조회수"
+          value={channel.avgRecentViews !== null ? formatKoreanNumber(channel.avgRecentViews) : "—"}
+        />
+      </div>
+      <div className="flex gap-2 text-xs">
+        <button type="button" onClick={onOpen} className="px-2.5 py-1 rounded-lg" style={{ ...buttonStyle, color: "var(--accent-light)" }}>
+          구독자 추이
+        </button>
+        <button type="button" onClick={onUnfollow} className="px-2.5 py-1 rounded-lg" style={buttonStyle}>
+          해제
+        </button>
+      </div>
+    </li>
+  );
+}
+
+function Stat({ label, value, positive = false }: { label: string; value: string; positive?: boolean }) {
+  return (
+    <div>
+      <p style={{ color: "var(--text-secondary)" }}>{label}</p>
+      <p className="font-semibold" style={{ color: positive ? "#4ade80" : "var(--text-primary)" }}>
+        {value}
+      </p>
+    </div>
+  );
+}
+
+/** 최근 업로드 (주기 작업이 새로 감지한 영상은 감지 시각 표시) */
+function UploadList({ uploads }: { uploads: TrackedUpload[] }) {
+  if (uploads.length === 0) return null;
+  return (
+    <div className="flex flex-col gap-1.5">
+      <h3 className="text-sm font-semibold" style={{ color: "var(--text-primary)" }}>
+        최근 업로드
+      </h3>
+      <ul className="flex flex-col text-xs">
+        {uploads.map((u) => (
+          <li
+            key={u.videoId}
+            className="flex items-center gap-3 py-1.5"
+            style={{ borderBottom: "1px solid var(--border)" }}
+          >
+            <a
+              href={`https://www.youtube.com/watch?v=${u.videoId}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex-1 truncate"
+              style={{ color: "var(--text-primary)" }}
+            >
+              {u.title || u.videoId}
+            </a>
+            {u.detectedAt && (
+              <span style={{ color: "var(--accent-light)" }}>{formatDate(u.detectedAt)} 감지</span>
+            )}
+            <span style={{ color: "var(--text-secondary)" }}>{u.publishedAt ? formatDate(u.publishedAt) : "—"}</span>
+            <span className="w-16 text-right" style={{ color: "var(--text-secondary)" }}>
+              {formatKoreanNumber(u.viewCount)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
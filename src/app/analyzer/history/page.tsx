@@ -0,0 +1,325 @@
+"use client";
+
+/**
+ * page.tsx
+ * 사용내역 페이지 - 지난 검색 목록, 결과 스냅샷 다시 열기, 같은 조건으로 다시 실행
+ * 책임: 검색 기록 API 호출 및 목록/스냅샷 렌더링
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import VideoCards from "@/components/VideoCards";
+import UserMenu from "@/components/UserMenu";
+import type { VideoResult } from "@/lib/youtube/analysis";
+import type { SearchLogEntry, SearchLogSummary, UploadPeriod } from "@/lib/history/searchLog";
+import { loadStoredApiKeys } from "@/lib/client/apiKeyStorage";
+import {
+  DEFAULT_SCORING_PROFILE_ID,
+  SCORING_PRESETS,
+  isScoringPresetId,
+} from "@/lib/scoring/profiles";
+import { DEFAULT_TYPE_CONFIDENCE } from "@/lib/youtube/videoType";
+import {
+  DEFAULT_REGION_CODE,
+  DEFAULT_RELEVANCE_LANGUAGE,
+  languageLabel,
+  regionLabel,
+} from "@/lib/youtube/markets";
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+const PERIOD_LABELS: Record<UploadPeriod, string> = {
+  all: "전체 기간",
+  "1month": "1달",
+  "3months": "3달",
+  "6months": "6개월",
+  "1year": "1년",
+};
+
+type HistoryItem = SearchLogSummary & { fresh: boolean };
+
+interface Opened {
+  entry: SearchLogSummary & { fresh: boolean };
+  videos: VideoResult[];
+  /** 다시 실행 결과 안내 문구 */
+  notice: string | null;
+}
+
+function describeFilters(f: SearchLogSummary["filters"]): string {
+  return [
+    f.videoType === "shorts" ? "Shorts" : "롱폼",
+    f.minTypeConfidence != null &&
+      f.minTypeConfidence !== DEFAULT_TYPE_CONFIDENCE &&
+      `유형 확신도 ${Math.round(f.minTypeConfidence * 100)}%+`,
+    PERIOD_LABELS[f.uploadPeriod],
+    f.regionCode &&
+      f.regionCode !== DEFAULT_REGION_CODE &&
+      `${regionLabel(f.regionCode)} · ${languageLabel(f.relevanceLanguage ?? DEFAULT_RELEVANCE_LANGUAGE)}`,
+    f.minViewCount !== null && `조회수 ${f.minViewCount.toLocaleString()}+`,
+    f.maxSubscriberCount !== null && `구독자 ${f.maxSubscriberCount.toLocaleString()} 이하`,
+    f.scoringProfile &&
+      f.scoringProfile !== DEFAULT_SCORING_PROFILE_ID &&
+      `점수 기준 ${isScoringPresetId(f.scoringProfile) ? SCORING_PRESETS[f.scoringProfile].name : "사용자 기준"}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+// ─── 메인 컴포넌트 ─────────────────────────────────────────────────────────────
+
+export default function HistoryPage() {
+  const [items, setItems] = useState<HistoryItem[] | null>(null);
+  const [opened, setOpened] = useState<Opened | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadList = useCallback(async () => {
+    try {
+      const res = await fetch("/api/history");
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setItems(data.entries);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "사용내역을 불러오지 못했습니다.");
+      setItems([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/history")
+      .then((res) => res.json())
+      .then((data) => {
+        if (!cancelled) setItems(data.entries ?? []);
+      })
+      .catch(() => {
+        if (!cancelled) setItems([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  /** 저장된 스냅샷 열기 (할당량 사용 없음) */
+  const handleOpen = async (id: string) => {
+    setError(null);
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/history/${id}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      const entry = data.entry as SearchLogEntry & { fresh: boolean };
+      setOpened({ entry, videos: entry.videos, notice: null });
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "검색 기록을 열지 못했습니다.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  /** 같은 조건으로 다시 검색 — 스냅샷이 최신이면 서버가 할당량 없이 재사용 */
+  const handleRerun = async (entry: HistoryItem, forceRefresh: boolean) => {
+    setError(null);
+    setBusy(true);
+    try {
+      const res = await fetch("/api/youtube/search", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          apiKeys: loadStoredApiKeys(),
+          ...entry.filters,
+          forceRefresh,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+
+      const notice = data.snapshot
+        ? "최신 스냅샷을 재사용했습니다 · 할당량 0 units"
+        : `새로 검색했습니다 · 할당량 ${data.quota.used.toLocaleString()} units`;
+      setOpened({ entry, videos: data.videos, notice });
+      await loadList();
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "다시 실행하지 못했습니다.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setError(null);
+    await fetch(`/api/history/${id}`, { method: "DELETE" }).catch(() => {});
+    if (opened?.entry.id === id) setOpened(null);
+    await loadList();
+  };
+
+  return (
+    <div className="min-h-screen" style={{ backgroundColor: "var(--background)" }}>
+      {/* ── 헤더 ── */}
+      <header
+        className="sticky top-0 z-20 px-4 sm:px-6 py-3 sm:py-4 flex items-center gap-3"
+        style={{
+          backgroundColor: "rgba(15,17,23,0.85)",
+          backdropFilter: "blur(12px)",
+          borderBottom: "1px solid var(--border)",
+        }}
+      >
+        <Link href="/analyzer" className="flex items-center gap-2">
+          <svg width="28" height="28" viewBox="0 0 28 28" fill="none" aria-hidden="true">
+            <rect width="28" height="28" rx="8" fill="#6366f1" />
+            <path d="M11 9.5L20 14L11 18.5V9.5Z" fill="white" />
+          </svg>
+          <span className="font-bold text-lg gradient-text">찌동튜브</span>
+        </Link>
+        <Link
+          href="/analyzer"
+          className="ml-auto text-xs px-3 py-1.5 rounded-full font-medium"
+          style={{
+            backgroundColor: "var(--surface-2)",
+            color: "var(--text-secondary)",
+            border: "1px solid var(--border)",
+          }}
+        >
+          ← 검색으로
+        </Link>
+        <UserMenu />
+      </header>
+
+      <main className="max-w-7xl mx-auto px-3 sm:px-6 py-6 sm:py-10 flex flex-col gap-5 sm:gap-8">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold" style={{ color: "var(--text-primary)" }}>
+            사용내역
+          </h1>
+          <p className="mt-1 text-sm" style={{ color: "var(--text-secondary)" }}>
+            지난 검색 결과를 다시 열거나 같은 조건으로 다시 실행합니다. 1시간 이내 결과는 할당량 없이 재사용됩니다.
+          </p>
+        </div>
+
+        {error && (
+          <div
+            className="rounded-xl px-4 py-3 text-sm"
+            style={{
+              backgroundColor: "rgba(239,68,68,0.08)",
+              border: "1px solid rgba(239,68,68,0.3)",
+              color: "#fca5a5",
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        {items === null ? (
+          <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+            불러오는 중...
+          </p>
+        ) : items.length === 0 ? (
+          <p className="text-sm py-10 text-center" style={{ color: "var(--text-secondary)" }}>
+            아직 검색 기록이 없습니다.
+          </p>
+        ) : (
+          <ul
+            className="rounded-2xl overflow-hidden"
+            style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+          >
+            {items.map((item) => (
+              <HistoryRow
+                key={item.id}
+                item={item}
+                active={opened?.entry.id === item.id}
+                busy={busy}
+                onOpen={() => handleOpen(item.id)}
+                onRerun={(force) => handleRerun(item, force)}
+                onDelete={() => handleDelete(item.id)}
+              />
+            ))}
+          </ul>
+        )}
+
+        {opened && (
+          <section className="flex flex-col gap-4">
+            <div>
+              <h2 className="text-lg font-semibold" style={{ color: "var(--text-primary)" }}>
+                &ldquo;{opened.entry.filters.keyword}&rdquo; 결과 {opened.videos.length}개
+              </h2>
+              <p className="mt-1 text-xs" style={{ color: "var(--text-secondary)" }}>
+                {opened.notice ??
+                  `${new Date(opened.entry.createdAt).toLocaleString()} 스냅샷 · ${describeFilters(opened.entry.filters)}`}
+              </p>
+            </div>
+            {opened.videos.length > 0 && <VideoCards videos={opened.videos} />}
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// ─── 서브 컴포넌트 ────────────────────────────────────────────────────────────
+
+function HistoryRow({
+  item,
+  active,
+  busy,
+  onOpen,
+  onRerun,
+  onDelete,
+}: {
+  item: HistoryItem;
+  active: boolean;
+  busy: boolean;
+  onOpen: () => void;
+  onRerun: (forceRefresh: boolean) => void;
+  onDelete: () => void;
+}) {
+  const buttonStyle = { border: "1px solid var(--border)", color: "var(--text-secondary)" };
+
+  return (
+    <li
+      className="px-4 py-3 flex flex-col sm:flex-row sm:items-center gap-2"
+      style={{
+        borderBottom: "1px solid var(--border)",
+        backgroundColor: active ? "var(--surface-2)" : undefined,
+      }}
+    >
+      <div className="flex-1 min-w-0">
+        <p className="font-medium truncate" style={{ color: "var(--text-primary)" }}>
+          {item.filters.keyword}
+          {item.fresh && (
+            <span
+              className="ml-2 text-xs px-1.5 py-0.5 rounded"
+              style={{ color: "var(--accent-light)", border: "1px solid var(--border)" }}
+            >
+              최신
+            </span>
+          )}
+        </p>
+        <p className="text-xs mt-0.5" style={{ color: "var(--text-secondary)" }}>
+          {new Date(item.createdAt).toLocaleString()} · {describeFilters(item.filters)} · 결과{" "}
+          {item.total}개 · {item.quotaUsed.toLocaleString()} units
+        </p>
+      </div>
+      <div className="flex gap-2 text-xs">
+        <button type="button" disabled={busy} onClick={onOpen} className="px-2.5 py-1 rounded-lg" style={buttonStyle}>
+          열기
+        </button>
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() => onRerun(false)}
+          className="px-2.5 py-1 rounded-lg"
+          style={{ ...buttonStyle, color: "var(--accent-light)" }}
+        >
+          다시 실행
+        </button>
+        {item.fresh && (
+          <button type="button" disabled={busy} onClick={() => onRerun(true)} className="px-2.5 py-1 rounded-lg" style={buttonStyle}>
+            새로 검색
+          </button>
+        )}
+        <button type="button" disabled={busy} onClick={onDelete} className="px-2.5 py-1 rounded-lg" style={buttonStyle}>
+          삭제
+        </button>
+      </div>
+    </li>
+  );
+}
@@ -0,0 +1,371 @@
+"use client";
+
+/**
+ * page.tsx
+ * 알림함 - 저장된 검색의 주기 실행에서 새로 필터를 통과했거나 성과도가 오른 영상, 저장된 검색 관리
+ * 책임: 알림·저장된 검색 API 호출 및 목록 렌더링 (실행은 /api/cron/saved-searches)
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import UserMenu from "@/components/UserMenu";
+import ScoreBadge from "@/components/ScoreBadge";
+import { formatCount } from "@/lib/youtube/analysis";
+import type { InboxItem } from "@/lib/savedSearches/inbox";
+import type { SavedSearchSchedule, SavedSearchSummary } from "@/lib/savedSearches/savedSearches";
+import type { UploadPeriod } from "@/lib/history/searchLog";
+import { useDisplayLocale } from "@/lib/client/displayLocale";
+import { DEFAULT_TYPE_CONFIDENCE } from "@/lib/youtube/videoType";
+import {
+  DEFAULT_REGION_CODE,
+  DEFAULT_RELEVANCE_LANGUAGE,
+  languageLabel,
+  regionLabel,
+} from "@/lib/youtube/markets";
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+const SCHEDULE_LABELS: Record<SavedSearchSchedule, string> = {
+  "12h": "12시간마다",
+  daily: "매일",
+  weekly: "매주",
+  paused: "일시 중지",
+};
+
+const PERIOD_LABELS: Record<UploadPeriod, string> = {
+  all: "전체 기간",
+  "1month": "1달",
+  "3months": "3달",
+  "6months": "6개월",
+  "1year": "1년",
+};
+
+function describeSaved(f: SavedSearchSummary["filters"]): string {
+  return [
+    f.videoType === "shorts" ? "Shorts" : "롱폼",
+    f.minTypeConfidence != null &&
+      f.minTypeConfidence !== DEFAULT_TYPE_CONFIDENCE &&
+      `유형 확신도 ${Math.round(f.minTypeConfidence * 100)}%+`,
+    PERIOD_LABELS[f.uploadPeriod],
+    f.regionCode &&
+      f.regionCode !== DEFAULT_REGION_CODE &&
+      `${regionLabel(f.regionCode)} · ${languageLabel(f.relevanceLanguage ?? DEFAULT_RELEVANCE_LANGUAGE)}`,
+    f.minViewCount !== null && `조회수 ${f.minViewCount.toLocaleString()}+`,
+    f.maxSubscriberCount !== null && `구독자 ${f.maxSubscriberCount.toLocaleString()} 이하`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+// ─── 메인 컴포넌트 ─────────────────────────────────────────────────────────────
+
+export default function InboxPage() {
+  const locale = useDisplayLocale();
+  const [items, setItems] = useState<InboxItem[] | null>(null);
+  const [unread, setUnread] = useState(0);
+  const [searches, setSearches] = useState<SavedSearchSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [inboxRes, searchesRes] = await Promise.all([fetch("/api/inbox"), fetch("/api/saved-searches")]);
+      const [inbox, saved] = await Promise.all([inboxRes.json(), searchesRes.json()]);
+      if (!inboxRes.ok) throw new Error(inbox.error);
+      if (!searchesRes.ok) throw new Error(saved.error);
+      setItems(inbox.items);
+      setUnread(inbox.unread);
+      setSearches(saved.searches);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "알림함을 불러오지 못했습니다.");
+      setItems([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      fetch("/api/inbox").then((res) => res.json()),
+      fetch("/api/saved-searches").then((res) => res.json()),
+    ])
+      .then(([inbox, saved]) => {
+        if (cancelled) return;
+        setItems(inbox.items ?? []);
+        setUnread(inbox.unread ?? 0);
+        setSearches(saved.searches ?? []);
+      })
+      .catch(() => {
+        if (!cancelled) setItems([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const markRead = async (ids?: string[]) => {
+    setError(null);
+    await fetch("/api/inbox", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ids }),
+    }).catch(() => {});
+    await load();
+  };
+
+  const handleSchedule = async (id: string, schedule: SavedSearchSchedule) => {
+    setError(null);
+    const res = await fetch(`/api/saved-searches/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ schedule }),
+    }).catch(() => null);
+    if (!res?.ok) setError("실행 주기를 바꾸지 못했습니다.");
+    await load();
+  };
+
+  const handleDelete = async (id: string) => {
+    setError(null);
+    await fetch(`/api/saved-searches/${encodeURIComponent(id)}`, { method: "DELETE" }).catch(() => {});
+    await load();
+  };
+
+  return (
+    <div className="min-h-screen" style={{ backgroundColor: "var(--background)" }}>
+      {/* ── 헤더 ── */}
+      <header
+        className="sticky top-0 z-20 px-4 sm:px-6 py-3 sm:py-4 flex items-center gap-3"
+        style={{
+          backgroundColor: "rgba(15,17,23,0.85)",
+          backdropFilter: "blur(12px)",
+          borderBottom: "1px solid var(--border)",
+        }}
+      >
+        <Link href="/analyzer" className="flex items-center gap-2">
+          <svg width="28" height="28" viewBox="0 0 28 28" fill="none" aria-hidden="true">
+            <rect width="28" height="28" rx="8" fill="#6366f1" />
+            <path d="M11 9.5L20 14L11 18.5V9.5Z" fill="white" />
+          </svg>
+          <span className="font-bold text-lg gradient-text">찌동튜브</span>
+        </Link>
+        <Link
+          href="/analyzer"
+          className="ml-auto text-xs px-3 py-1.5 rounded-full font-medium"
+          style={{
+            backgroundColor: "var(--surface-2)",
+            color: "var(--text-secondary)",
+            border: "1px solid var(--border)",
+          }}
+        >
+          ← 검색으로
+        </Link>
+        <UserMenu />
+      </header>
+
+      <main className="max-w-7xl mx-auto px-3 sm:px-6 py-6 sm:py-10 flex flex-col gap-5 sm:gap-8">
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold" style={{ color: "var(--text-primary)" }}>
+              알림함
+            </h1>
+            <p className="mt-1 text-sm" style={{ color: "var(--text-secondary)" }}>
+              저장된 검색을 주기적으로 다시 실행해, 새로 조건을 통과했거나 성과도가 오른 영상을 알려드립니다. 첫 실행은 비교 기준만 기록합니다.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Link
+              href="/analyzer/notifications"
+              className="text-xs px-3 py-1.5 rounded-lg"
+              style={{ color: "var(--text-secondary)", border: "1px solid var(--border)" }}
+            >
+              ⚙ 외부 알림 설정
+            </Link>
+            {unread > 0 && (
+              <button
+                type="button"
+                onClick={() => markRead()}
+                className="text-xs px-3 py-1.5 rounded-lg"
+                style={{ color: "var(--accent-light)", border: "1px solid var(--border)" }}
+              >
+                모두 읽음 ({unread})
+              </button>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <div
+            className="rounded-xl px-4 py-3 text-sm"
+            style={{
+              backgroundColor: "rgba(239,68,68,0.08)",
+              border: "1px solid rgba(239,68,68,0.3)",
+              color: "#fca5a5",
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        {/* ── 알림 ── */}
+        {items === null ? (
+          <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+            불러오는 중...
+          </p>
+        ) : items.length === 0 ? (
+          <p className="text-sm py-10 text-center" style={{ color: "var(--text-secondary)" }}>
+            아직 알림이 없습니다.
+          </p>
+        ) : (
+          <ul
+            className="rounded-2xl overflow-hidden"
+            style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+          >
+            {items.map((item) => (
+              <InboxRow key={item.id} item={item} locale={locale} onRead={() => markRead([item.id])} />
+            ))}
+          </ul>
+        )}
+
+        {/* ── 저장된 검색 ── */}
+        <section className="flex flex-col gap-3">
+          <h2 className="text-lg font-semibold" style={{ color: "var(--text-primary)" }}>
+            저장된 검색 {searches.length}개
+          </h2>
+          {searches.length === 0 ? (
+            <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+              검색 화면에서 &lsquo;☆ 조건 저장&rsquo;으로 자주 보는 키워드를 저장하세요.
+            </p>
+          ) : (
+            <ul
+              className="rounded-2xl overflow-hidden"
+              style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+            >
+              {searches.map((search) => (
+                <SavedSearchRow
+                  key={search.id}
+                  search={search}
+                  onSchedule={(schedule) => handleSchedule(search.id, schedule)}
+                  onDelete={() => handleDelete(search.id)}
+                />
+              ))}
+            </ul>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
+
+// ─── 서브 컴포넌트 ────────────────────────────────────────────────────────────
+
+function InboxRow({ item, locale, onRead }: { item: InboxItem; locale: string; onRead: () => void }) {
+  const { video } = item;
+  return (
+    <li
+      className="px-4 py-3 flex gap-3 items-center"
+      style={{
+        borderBottom: "1px solid var(--border)",
+        backgroundColor: item.read ? undefined : "var(--surface-2)",
+      }}
+    >
+      <a
+        href={`https://www.youtube.com/watch?v=${video.id}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        onClick={() => !item.read && onRead()}
+        className="relative w-28 aspect-video flex-shrink-0 rounded-lg overflow-hidden"
+      >
+        <Image src={video.thumbnail} alt={video.title} fill sizes="112px" className="object-cover" />
+      </a>
+      <div className="flex-1 min-w-0 flex flex-col gap-1 text-xs">
+        <p className="flex flex-wrap items-center gap-2">
+          <span
+            className="px-1.5 py-0.5 rounded font-semibold"
+            style={{ color: "var(--accent-light)", border: "1px solid var(--border)" }}
+          >
+            {item.kind === "new" ? "새 아웃라이어" : `성과도 ${item.previousScore}점 → ${item.score.score}점`}
+          </span>
+          <span style={{ color: "var(--text-secondary)" }}>
+            &lsquo;{item.keyword}&rsquo; · {new Date(item.createdAt).toLocaleString()}
+          </span>
+        </p>
+        <p className="text-sm font-medium truncate" style={{ color: "var(--text-primary)" }}>
+          {video.title}
+        </p>
+        <p style={{ color: "var(--text-secondary)" }}>
+          {video.channelTitle} · 조회 {formatCount(video.viewCount, locale)} · 구독자{" "}
+          {formatCount(video.subscriberCount, locale)}
+        </p>
+      </div>
+      <div className="flex flex-col items-end gap-2">
+        <ScoreBadge info={item.score} />
+        {!item.read && (
+          <button type="button" onClick={onRead} className="text-xs underline" style={{ color: "var(--text-secondary)" }}>
+            읽음
+          </button>
+        )}
+      </div>
+    </li>
+  );
+}
+
+function SavedSearchRow({
+  search,
+  onSchedule,
+  onDelete,
+}: {
+  search: SavedSearchSummary;
+  onSchedule: (schedule: SavedSearchSchedule) => void;
+  onDelete: () => void;
+}) {
+  const { lastRun } = search;
+  return (
+    <li
+      className="px-4 py-3 flex flex-col sm:flex-row sm:items-center gap-2"
+      style={{ borderBottom: "1px solid var(--border)" }}
+    >
+      <div className="flex-1 min-w-0">
+        <p className="font-medium truncate" style={{ color: "var(--text-primary)" }}>
+          {search.filters.keyword}
+        </p>
+        <p className="text-xs mt-0.5" style={{ color: "var(--text-secondary)" }}>
+          {describeSaved(search.filters)} ·{" "}
+          {lastRun
+            ? lastRun.error
+              ? `${new Date(lastRun.at).toLocaleString()} 실패: ${lastRun.error}`
+              : `${new Date(lastRun.at).toLocaleString()} 실행 · 결과 ${lastRun.total}개 · 알림 ${lastRun.alerts}개 · ${lastRun.quotaUsed.toLocaleString()} units`
+            : "아직 실행 전"}
+          {search.nextRunAt && search.lastSuccessAt && (
+            <> · 다음 실행 {new Date(search.nextRunAt).toLocaleString()} 이후</>
+          )}
+        </p>
+      </div>
+      <div className="flex gap-2 text-xs">
+        <select
+          value={search.schedule}
+          onChange={(e) => onSchedule(e.target.value as SavedSearchSchedule)}
+          aria-label="실행 주기"
+          className="px-2 py-1 rounded-lg outline-none"
+          style={{
+            backgroundColor: "var(--surface-2)",
+            border: "1px solid var(--border)",
+            color: "var(--text-primary)",
+          }}
+        >
+          {(Object.keys(SCHEDULE_LABELS) as SavedSearchSchedule[]).map((schedule) => (
+            <option key={schedule} value={schedule}>
+              {SCHEDULE_LABELS[schedule]}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={onDelete}
+          className="px-2.5 py-1 rounded-lg"
+          style={{ border: "1px solid var(--border)", color: "var(--text-secondary)" }}
+        >
+          삭제
+        </button>
+      </div>
+    </li>
+  );
+}
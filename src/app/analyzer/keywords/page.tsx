@@ -0,0 +1,359 @@
+"use client";
+
+/**
+ * page.tsx
+ * 키워드 확장 - 시드 키워드에서 관련 키워드 후보를 만들고 표본 검색한 기회 점수 순으로 표시
+ * 책임: /api/youtube/keywords 호출, 후보 목록 렌더링 및 표본 검색하지 않은 후보 추가 확인
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import UserMenu from "@/components/UserMenu";
+import type {
+  CandidateSource,
+  ChannelSizeBucket,
+  KeywordCandidateResult,
+  KeywordOpportunity,
+} from "@/lib/youtube/keywordResearch";
+import { getVideoTypeSearchParams, type VideoType } from "@/lib/youtube/videoType";
+import { QUOTA_COSTS, searchPageCost, type QuotaUsage } from "@/lib/youtube/quota";
+import { loadStoredApiKeys } from "@/lib/client/apiKeyStorage";
+
+const SAMPLE_COUNT_OPTIONS = [3, 5, 10];
+
+const SOURCE_LABELS: Record<CandidateSource, string> = {
+  tag: "태그",
+  title: "제목",
+  pattern: "패턴",
+};
+
+const CHANNEL_MIX_LABELS: Record<ChannelSizeBucket, string> = {
+  under10k: "~1만",
+  under100k: "~10만",
+  under1m: "~100만",
+  over1m: "100만+",
+};
+
+interface ResearchResult {
+  seed: KeywordOpportunity | null;
+  candidates: KeywordCandidateResult[];
+  quota: QuotaUsage;
+}
+
+// ─── 메인 컴포넌트 ─────────────────────────────────────────────────────────────
+
+export default function KeywordsPage() {
+  const [keyword, setKeyword] = useState("");
+  const [videoType, setVideoType] = useState<VideoType>("longform");
+  const [sampleCount, setSampleCount] = useState(5);
+  const [loading, setLoading] = useState(false);
+  const [sampling, setSampling] = useState<string | null>(null);
+  const [result, setResult] = useState<ResearchResult | null>(null);
+  /** 후보 추가 표본 검색까지 합친 사용량 */
+  const [quotaUsed, setQuotaUsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const durations = getVideoTypeSearchParams(videoType).videoDurations.length;
+  /** 키워드 1개 표본: 검색 1페이지 + 영상·채널 상세 */
+  const sampleCost = searchPageCost(durations) + QUOTA_COSTS.videos + QUOTA_COSTS.channels;
+
+  const requestKeywords = async (extra: Record<string, unknown>): Promise<ResearchResult> => {
+    const res = await fetch("/api/youtube/keywords", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        apiKeys: loadStoredApiKeys(),
+        keyword: keyword.trim(),
+        videoType,
+        ...extra,
+      }),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    return data;
+  };
+
+  const handleResearch = async () => {
+    if (!keyword.trim()) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await requestKeywords({ sampleCount });
+      setResult(data);
+      setQuotaUsed(data.quota.used);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "키워드 확장에 실패했습니다.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /** 표본 검색하지 않은 후보 1개를 추가로 확인 */
+  const handleSample = async (candidate: string) => {
+    if (!result) return;
+    setSampling(candidate);
+    setError(null);
+    try {
+      const data = await requestKeywords({ candidates: [candidate] });
+      const opportunity = data.candidates[0]?.opportunity ?? null;
+      setResult({
+        ...result,
+        candidates: result.candidates.map((c) => (c.keyword === candidate ? { ...c, opportunity } : c)),
+      });
+      setQuotaUsed((prev) => prev + data.quota.used);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "표본 검색에 실패했습니다.");
+    } finally {
+      setSampling(null);
+    }
+  };
+
+  const skippedKeywords = (result?.quota.skipped ?? [])
+    .filter((s) => s.startsWith("keyword:"))
+    .map((s) => s.slice("keyword:".length));
+
+  return (
+    <div className="min-h-screen" style={{ backgroundColor: "var(--background)" }}>
+      {/* ── 헤더 ── */}
+      <header
+        className="sticky top-0 z-20 px-4 sm:px-6 py-3 sm:py-4 flex items-center gap-3"
+        style={{
+          backgroundColor: "rgba(15,17,23,0.85)",
+          backdropFilter: "blur(12px)",
+          borderBottom: "1px solid var(--border)",
+        }}
+      >
+        <Link href="/analyzer" className="flex items-center gap-2">
+          <svg width="28" height="28" viewBox="0 0 28 28" fill="none" aria-hidden="true">
+            <rect width="28" height="28" rx="8" fill="#6366f1" />
+            <path d="M11 9.5L20 14L11 18.5V9.5Z" fill="white" />
+          </svg>
+          <span className="font-bold text-lg gradient-text">찌동튜브</span>
+        </Link>
+        <Link
+          href="/analyzer"
+          className="ml-auto text-xs px-3 py-1.5 rounded-full font-medium"
+          style={{
+            backgroundColor: "var(--surface-2)",
+            color: "var(--text-secondary)",
+            border: "1px solid var(--border)",
+          }}
+        >
+          ← 검색으로
+        </Link>
+        <UserMenu />
+      </header>
+
+      <main className="max-w-7xl mx-auto px-3 sm:px-6 py-6 sm:py-10 flex flex-col gap-5 sm:gap-8">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold" style={{ color: "var(--text-primary)" }}>
+            키워드 확장
+          </h1>
+          <p className="mt-1 text-sm" style={{ color: "var(--text-secondary)" }}>
+            시드 키워드 상위 결과의 태그·제목과 접두·접미 패턴으로 관련 키워드를 만들고, 상위 후보만 1페이지씩 표본 검색해 기회 점수 순으로 보여줍니다.
+            기회 점수는 필터 통과 비율(50%), 평균 성과도(30%), 구독자 10만 미만 채널 비율(20%)을 합친 값입니다.
+          </p>
+        </div>
+
+        {/* ── 검색 조건 ── */}
+        <section
+          className="rounded-2xl p-4 sm:p-6 flex flex-col gap-4"
+          style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+        >
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="text"
+              value={keyword}
+              onChange={(e) => setKeyword(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleResearch()}
+              placeholder="시드 키워드"
+              className="flex-1 px-4 py-2.5 rounded-xl text-sm outline-none"
+              style={{
+                backgroundColor: "var(--surface-2)",
+                border: "1px solid var(--border)",
+                color: "var(--text-primary)",
+              }}
+            />
+            <div className="flex gap-1.5">
+              {(
+                [
+                  { value: "longform", label: "롱폼" },
+                  { value: "shorts", label: "숏폼" },
+                ] as const
+              ).map(({ value, label }) => (
+                <ToggleButton key={value} active={videoType === value} onClick={() => setVideoType(value)}>
+                  {label}
+                </ToggleButton>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-1.5">
+            <span className="text-xs mr-1" style={{ color: "var(--text-secondary)" }}>
+              표본 검색할 후보
+            </span>
+            {SAMPLE_COUNT_OPTIONS.map((count) => (
+              <ToggleButton key={count} active={sampleCount === count} onClick={() => setSampleCount(count)}>
+                {count}개
+              </ToggleButton>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={handleResearch}
+              disabled={loading || !keyword.trim()}
+              className="px-5 py-2.5 rounded-xl text-sm font-semibold disabled:opacity-50"
+              style={{ backgroundColor: "var(--accent)", color: "#fff" }}
+            >
+              {loading ? "확장 중..." : "키워드 확장"}
+            </button>
+            <span className="text-xs" style={{ color: "var(--text-secondary)" }}>
+              예상 비용 최대 {((sampleCount + 1) * sampleCost).toLocaleString()} units (후보 1개당 {sampleCost} units)
+            </span>
+          </div>
+        </section>
+
+        {error && (
+          <div
+            className="rounded-xl px-4 py-3 text-sm"
+            style={{
+              backgroundColor: "rgba(239,68,68,0.08)",
+              border: "1px solid rgba(239,68,68,0.3)",
+              color: "#fca5a5",
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        {result && (
+          <section className="flex flex-col gap-3">
+            <p className="text-xs" style={{ color: "var(--text-secondary)" }}>
+              사용 {quotaUsed.toLocaleString()} units
+              {skippedKeywords.length > 0 && ` · 예산 부족으로 생략: ${skippedKeywords.join(", ")}`}
+            </p>
+            <div
+              className="rounded-2xl overflow-x-auto"
+              style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+            >
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs" style={{ color: "var(--text-secondary)" }}>
+                    <th className="px-4 py-3 font-medium">키워드</th>
+                    <th className="px-4 py-3 font-medium">출처</th>
+                    <th className="px-4 py-3 font-medium text-right">기회 점수</th>
+                    <th className="px-4 py-3 font-medium text-right">필터 통과</th>
+                    <th className="px-4 py-3 font-medium text-right">평균 성과도</th>
+                    <th className="px-4 py-3 font-medium">채널 규모</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.seed && (
+                    <tr style={{ borderTop: "1px solid var(--border)", backgroundColor: "var(--surface-2)" }}>
+                      <td className="px-4 py-3 font-semibold" style={{ color: "var(--text-primary)" }}>
+                        {result.seed.keyword}
+                      </td>
+                      <td className="px-4 py-3 text-xs" style={{ color: "var(--accent-light)" }}>
+                        시드
+                      </td>
+                      <OpportunityCells opportunity={result.seed} />
+                    </tr>
+                  )}
+                  {result.candidates.map((candidate) => (
+                    <tr key={candidate.keyword} style={{ borderTop: "1px solid var(--border)" }}>
+                      <td className="px-4 py-3" style={{ color: "var(--text-primary)" }}>
+                        {candidate.keyword}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex flex-wrap gap-1">
+                          {candidate.sources.map((source) => (
+                            <span
+                              key={source}
+                              className="text-xs px-1.5 py-0.5 rounded"
+                              style={{ backgroundColor: "var(--surface-2)", color: "var(--text-secondary)" }}
+                              title={source !== "pattern" ? `상위 결과 ${candidate.evidence}개에 등장` : undefined}
+                            >
+                              {SOURCE_LABELS[source]}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                      {candidate.opportunity ? (
+                        <OpportunityCells opportunity={candidate.opportunity} />
+                      ) : (
+                        <td colSpan={4} className="px-4 py-3 text-right">
+                          <button
+                            type="button"
+                            onClick={() => handleSample(candidate.keyword)}
+                            disabled={sampling !== null}
+                            className="text-xs px-3 py-1 rounded-lg disabled:opacity-50"
+                            style={{ color: "var(--accent-light)", border: "1px solid var(--border)" }}
+                          >
+                            {sampling === candidate.keyword ? "검색 중..." : `표본 검색 (${sampleCost} units)`}
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// ─── 서브 컴포넌트 ────────────────────────────────────────────────────────────
+
+function OpportunityCells({ opportunity }: { opportunity: KeywordOpportunity }) {
+  const mix = (Object.keys(CHANNEL_MIX_LABELS) as ChannelSizeBucket[])
+    .filter((bucket) => opportunity.channelMix[bucket] > 0)
+    .map((bucket) => `${CHANNEL_MIX_LABELS[bucket]} ${opportunity.channelMix[bucket]}`)
+    .join(" · ");
+  return (
+    <>
+      <td className="px-4 py-3 text-right font-semibold" style={{ color: "var(--accent-light)" }}>
+        {opportunity.score ?? "—"}
+      </td>
+      <td className="px-4 py-3 text-right" style={{ color: "var(--text-secondary)" }}>
+        {opportunity.passing}/{opportunity.sampled} ({Math.round(opportunity.passShare * 100)}%)
+      </td>
+      <td className="px-4 py-3 text-right" style={{ color: "var(--text-secondary)" }}>
+        {opportunity.avgPerformance !== null ? opportunity.avgPerformance.toFixed(1) : "—"}
+      </td>
+      <td className="px-4 py-3 text-xs" style={{ color: "var(--text-secondary)" }}>
+        {mix || "—"}
+      </td>
+    </>
+  );
+}
+
+function ToggleButton({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      className="px-3 py-1.5 rounded-lg text-sm font-medium"
+      style={{
+        backgroundColor: active ? "var(--accent)" : "var(--surface-2)",
+        color: active ? "#fff" : "var(--text-secondary)",
+        border: `1px solid ${active ? "var(--accent)" : "var(--border)"}`,
+      }}
+    >
+      {children}
+    </button>
+  );
+}
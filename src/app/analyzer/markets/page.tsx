@@ -0,0 +1,301 @@
+"use client";
+
+/**
+ * page.tsx
+ * 시장 비교 - 같은 키워드를 여러 지역·언어에서 검색해 아웃라이어가 많은 시장 순으로 표시
+ * 책임: /api/youtube/markets 호출 및 시장별 요약·상위 영상 렌더링
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import UserMenu from "@/components/UserMenu";
+import ScoreBadge from "@/components/ScoreBadge";
+import { formatCount } from "@/lib/youtube/analysis";
+import type { MarketSummary } from "@/lib/youtube/marketCompare";
+import {
+  MAX_COMPARE_MARKETS,
+  SEARCH_REGIONS,
+  languageLabel,
+  regionLabel,
+} from "@/lib/youtube/markets";
+import { getVideoTypeSearchParams, type VideoType } from "@/lib/youtube/videoType";
+import { chunkCallCount, searchPageCost, type QuotaUsage } from "@/lib/youtube/quota";
+import { loadStoredApiKeys } from "@/lib/client/apiKeyStorage";
+import { useDisplayLocale } from "@/lib/client/displayLocale";
+
+const DEFAULT_MARKETS = ["KR", "JP", "US"];
+
+interface CompareResult {
+  markets: MarketSummary[];
+  quota: QuotaUsage;
+}
+
+// ─── 메인 컴포넌트 ─────────────────────────────────────────────────────────────
+
+export default function MarketsPage() {
+  const locale = useDisplayLocale();
+  const [keyword, setKeyword] = useState("");
+  const [videoType, setVideoType] = useState<VideoType>("longform");
+  const [regions, setRegions] = useState<string[]>(DEFAULT_MARKETS);
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<CompareResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const durations = getVideoTypeSearchParams(videoType).videoDurations.length;
+  /** 시장당 최대 비용: 검색 1페이지 + 영상·채널 상세 */
+  const estimatedCost = regions.length * (searchPageCost(durations) + chunkCallCount(durations * 50) * 2);
+
+  const toggleRegion = (code: string) => {
+    setRegions((prev) =>
+      prev.includes(code)
+        ? prev.filter((r) => r !== code)
+        : prev.length < MAX_COMPARE_MARKETS
+        ? [...prev, code]
+        : prev
+    );
+  };
+
+  const handleCompare = async () => {
+    if (!keyword.trim() || regions.length < 2) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/youtube/markets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          apiKeys: loadStoredApiKeys(),
+          keyword: keyword.trim(),
+          videoType,
+          markets: regions.map((regionCode) => ({ regionCode })),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setResult(data);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "시장 비교에 실패했습니다.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const skippedMarkets = (result?.quota.skipped ?? [])
+    .filter((s) => s.startsWith("market:"))
+    .map((s) => regionLabel(s.slice("market:".length)));
+
+  return (
+    <div className="min-h-screen" style={{ backgroundColor: "var(--background)" }}>
+      {/* ── 헤더 ── */}
+      <header
+        className="sticky top-0 z-20 px-4 sm:px-6 py-3 sm:py-4 flex items-center gap-3"
+        style={{
+          backgroundColor: "rgba(15,17,23,0.85)",
+          backdropFilter: "blur(12px)",
+          borderBottom: "1px solid var(--border)",
+        }}
+      >
+        <Link href="/analyzer" className="flex items-center gap-2">
+          <svg width="28" height="28" viewBox="0 0 28 28" fill="none" aria-hidden="true">
+            <rect width="28" height="28" rx="8" fill="#6366f1" />
+            <path d="M11 9.5L20 14L11 18.5V9.5Z" fill="white" />
+          </svg>
+          <span className="font-bold text-lg gradient-text">찌동튜브</span>
+        </Link>
+        <Link
+          href="/analyzer"
+          className="ml-auto text-xs px-3 py-1.5 rounded-full font-medium"
+          style={{
+            backgroundColor: "var(--surface-2)",
+            color: "var(--text-secondary)",
+            border: "1px solid var(--border)",
+          }}
+        >
+          ← 검색으로
+        </Link>
+        <UserMenu />
+      </header>
+
+      <main className="max-w-7xl mx-auto px-3 sm:px-6 py-6 sm:py-10 flex flex-col gap-5 sm:gap-8">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold" style={{ color: "var(--text-primary)" }}>
+            시장 비교
+          </h1>
+          <p className="mt-1 text-sm" style={{ color: "var(--text-secondary)" }}>
+            같은 키워드를 지역별로 1페이지씩 검색해 성과도 Great 이상 영상(아웃라이어)이 많은 시장 순으로 보여줍니다. 채널 평균(기여도) 조회는 생략합니다.
+          </p>
+        </div>
+
+        {/* ── 검색 조건 ── */}
+        <section
+          className="rounded-2xl p-4 sm:p-6 flex flex-col gap-4"
+          style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+        >
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="text"
+              value={keyword}
+              onChange={(e) => setKeyword(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleCompare()}
+              placeholder="비교할 키워드"
+              className="flex-1 px-4 py-2.5 rounded-xl text-sm outline-none"
+              style={{
+                backgroundColor: "var(--surface-2)",
+                border: "1px solid var(--border)",
+                color: "var(--text-primary)",
+              }}
+            />
+            <div className="flex gap-1.5">
+              {(
+                [
+                  { value: "longform", label: "롱폼" },
+                  { value: "shorts", label: "숏폼" },
+                ] as const
+              ).map(({ value, label }) => (
+                <ToggleButton key={value} active={videoType === value} onClick={() => setVideoType(value)}>
+                  {label}
+                </ToggleButton>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-1.5">
+            {SEARCH_REGIONS.map((region) => (
+              <ToggleButton
+                key={region.code}
+                active={regions.includes(region.code)}
+                onClick={() => toggleRegion(region.code)}
+              >
+                {region.label}
+              </ToggleButton>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={handleCompare}
+              disabled={loading || !keyword.trim() || regions.length < 2}
+              className="px-5 py-2.5 rounded-xl text-sm font-semibold disabled:opacity-50"
+              style={{ backgroundColor: "var(--accent)", color: "#fff" }}
+            >
+              {loading ? "비교 중..." : `${regions.length}개 시장 비교`}
+            </button>
+            <span className="text-xs" style={{ color: "var(--text-secondary)" }}>
+              {regions.length < 2
+                ? `시장을 2~${MAX_COMPARE_MARKETS}개 선택해 주세요.`
+                : `예상 비용 최대 ${estimatedCost.toLocaleString()} units`}
+            </span>
+          </div>
+        </section>
+
+        {error && (
+          <div
+            className="rounded-xl px-4 py-3 text-sm"
+            style={{
+              backgroundColor: "rgba(239,68,68,0.08)",
+              border: "1px solid rgba(239,68,68,0.3)",
+              color: "#fca5a5",
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        {result && (
+          <section className="flex flex-col gap-3">
+            <p className="text-xs" style={{ color: "var(--text-secondary)" }}>
+              사용 {result.quota.used.toLocaleString()} units
+              {skippedMarkets.length > 0 && ` · 예산 부족으로 생략: ${skippedMarkets.join(", ")}`}
+            </p>
+            {result.markets.map((market, i) => (
+              <MarketCard key={market.regionCode} rank={i + 1} market={market} locale={locale} />
+            ))}
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// ─── 서브 컴포넌트 ────────────────────────────────────────────────────────────
+
+function MarketCard({ rank, market, locale }: { rank: number; market: MarketSummary; locale: string }) {
+  return (
+    <article
+      className="rounded-2xl p-4 flex flex-col gap-3"
+      style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+    >
+      <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1">
+        <h2 className="text-lg font-semibold" style={{ color: "var(--text-primary)" }}>
+          {rank}. {regionLabel(market.regionCode)}
+          <span className="ml-2 text-xs font-normal" style={{ color: "var(--text-secondary)" }}>
+            {languageLabel(market.relevanceLanguage)}
+          </span>
+        </h2>
+        <span className="text-sm font-semibold" style={{ color: "var(--accent-light)" }}>
+          아웃라이어 {market.outliers}개
+        </span>
+        <span className="text-xs" style={{ color: "var(--text-secondary)" }}>
+          필터 통과 {market.total}개 · 배율 중앙값 {market.medianRatio !== null ? `x${market.medianRatio}` : "—"}
+        </span>
+      </div>
+      {market.topVideos.length > 0 ? (
+        <ul className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {market.topVideos.map((video) => (
+            <li key={video.id} className="flex gap-2 min-w-0">
+              <a
+                href={`https://www.youtube.com/watch?v=${video.id}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="relative w-28 aspect-video flex-shrink-0 rounded-lg overflow-hidden"
+              >
+                <Image src={video.thumbnail} alt={video.title} fill sizes="112px" className="object-cover" />
+              </a>
+              <div className="min-w-0 text-xs flex flex-col gap-1">
+                <p className="line-clamp-2 font-medium" style={{ color: "var(--text-primary)" }}>
+                  {video.title}
+                </p>
+                <p style={{ color: "var(--text-secondary)" }}>
+                  조회 {formatCount(video.viewCount, locale)} · 구독자 {formatCount(video.subscriberCount, locale)}
+                </p>
+                <ScoreBadge info={video.performanceScore} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+          조건을 통과한 영상이 없습니다.
+        </p>
+      )}
+    </article>
+  );
+}
+
+function ToggleButton({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      className="px-3 py-1.5 rounded-lg text-sm font-medium"
+      style={{
+        backgroundColor: active ? "var(--accent)" : "var(--surface-2)",
+        color: active ? "#fff" : "var(--text-secondary)",
+        border: `1px solid ${active ? "var(--accent)" : "var(--border)"}`,
+      }}
+    >
+      {children}
+    </button>
+  );
+}
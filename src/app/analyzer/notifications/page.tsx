@@ -0,0 +1,538 @@
+"use client";
+
+/**
+ * page.tsx
+ * 알림 설정 - 외부 채널(웹훅·Slack·Discord·이메일)과 알림 규칙 관리, 최근 전송 기록
+ * 책임: /api/notifications 호출 및 설정·기록 렌더링 (전송은 저장된 검색·워치리스트 주기 작업)
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import UserMenu from "@/components/UserMenu";
+import {
+  CHANNEL_KINDS,
+  validateChannelTarget,
+  type NotificationChannelKind,
+} from "@/lib/notifications/channels";
+import {
+  formatRuleConditions,
+  parseRuleExpression,
+  type NotificationRule,
+} from "@/lib/notifications/rules";
+import type { DeliveryLogEntry, NotificationChannelSummary } from "@/lib/notifications/notifications";
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+const KIND_LABELS: Record<NotificationChannelKind, string> = {
+  webhook: "JSON 웹훅",
+  slack: "Slack",
+  discord: "Discord",
+  email: "이메일",
+};
+
+const TARGET_PLACEHOLDERS: Record<NotificationChannelKind, string> = {
+  webhook: "https://example.com/hooks/youtube",
+  slack: "https://hooks.slack.com/services/…",
+  discord: "https://discord.com/api/webhooks/…",
+  email: "me@example.com",
+};
+
+const SOURCE_LABELS: Record<NotificationRule["source"], string> = {
+  any: "저장된 검색 + 워치리스트",
+  savedSearch: "저장된 검색",
+  watchlist: "워치리스트",
+};
+
+const EXAMPLE_EXPRESSION = "performanceScore >= 4 and views/day > 10k";
+
+interface Settings {
+  channels: NotificationChannelSummary[];
+  rules: NotificationRule[];
+  log: DeliveryLogEntry[];
+  emailEnabled: boolean;
+}
+
+const inputStyle = {
+  backgroundColor: "var(--surface-2)",
+  border: "1px solid var(--border)",
+  color: "var(--text-primary)",
+};
+
+const buttonStyle = { border: "1px solid var(--border)", color: "var(--text-secondary)" };
+
+// ─── 메인 컴포넌트 ─────────────────────────────────────────────────────────────
+
+export default function NotificationsPage() {
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/notifications");
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setSettings(data);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "알림 설정을 불러오지 못했습니다.");
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/notifications")
+      .then((res) => res.json())
+      .then((data) => {
+        if (!cancelled && data.channels) setSettings(data);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  /** 요청 후 목록 다시 불러오기, 실패하면 서버 오류 메시지 표시 */
+  const mutate = async (url: string, method: string, body?: unknown): Promise<boolean> => {
+    setError(null);
+    setBusy(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "요청을 처리하지 못했습니다.");
+      return false;
+    } finally {
+      await load();
+      setBusy(false);
+    }
+  };
+
+  const channelName = (id: string) => settings?.channels.find((c) => c.id === id)?.name ?? "삭제된 채널";
+
+  return (
+    <div className="min-h-screen" style={{ backgroundColor: "var(--background)" }}>
+      {/* ── 헤더 ── */}
+      <header
+        className="sticky top-0 z-20 px-4 sm:px-6 py-3 sm:py-4 flex items-center gap-3"
+        style={{
+          backgroundColor: "rgba(15,17,23,0.85)",
+          backdropFilter: "blur(12px)",
+          borderBottom: "1px solid var(--border)",
+        }}
+      >
+        <Link href="/analyzer" className="flex items-center gap-2">
+          <svg width="28" height="28" viewBox="0 0 28 28" fill="none" aria-hidden="true">
+            <rect width="28" height="28" rx="8" fill="#6366f1" />
+            <path d="M11 9.5L20 14L11 18.5V9.5Z" fill="white" />
+          </svg>
+          <span className="font-bold text-lg gradient-text">찌동튜브</span>
+        </Link>
+        <Link
+          href="/analyzer/inbox"
+          className="ml-auto text-xs px-3 py-1.5 rounded-full font-medium"
+          style={{
+            backgroundColor: "var(--surface-2)",
+            color: "var(--text-secondary)",
+            border: "1px solid var(--border)",
+          }}
+        >
+          ← 알림함
+        </Link>
+        <UserMenu />
+      </header>
+
+      <main className="max-w-7xl mx-auto px-3 sm:px-6 py-6 sm:py-10 flex flex-col gap-5 sm:gap-8">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold" style={{ color: "var(--text-primary)" }}>
+            알림 설정
+          </h1>
+          <p className="mt-1 text-sm" style={{ color: "var(--text-secondary)" }}>
+            저장된 검색과 워치리스트의 주기 작업이 규칙에 맞는 영상을 찾으면 웹훅·Slack·Discord·이메일로 보냅니다. 실패하면 최대 3번까지 간격을 늘려 다시 시도하고, 같은 영상은 7일 동안 다시 보내지 않습니다.
+          </p>
+        </div>
+
+        {error && (
+          <div
+            className="rounded-xl px-4 py-3 text-sm"
+            style={{
+              backgroundColor: "rgba(239,68,68,0.08)",
+              border: "1px solid rgba(239,68,68,0.3)",
+              color: "#fca5a5",
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        {settings === null ? (
+          <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+            불러오는 중...
+          </p>
+        ) : (
+          <>
+            {/* ── 채널 ── */}
+            <section className="flex flex-col gap-3">
+              <h2 className="text-lg font-semibold" style={{ color: "var(--text-primary)" }}>
+                채널 {settings.channels.length}개
+              </h2>
+              <ChannelForm
+                emailEnabled={settings.emailEnabled}
+                busy={busy}
+                onSubmit={(input) => mutate("/api/notifications/channels", "POST", input)}
+              />
+              {settings.channels.length > 0 && (
+                <ul
+                  className="rounded-2xl overflow-hidden"
+                  style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+                >
+                  {settings.channels.map((channel) => (
+                    <li
+                      key={channel.id}
+                      className="px-4 py-3 flex flex-col sm:flex-row sm:items-center gap-2"
+                      style={{ borderBottom: "1px solid var(--border)" }}
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate" style={{ color: "var(--text-primary)" }}>
+                          {channel.name}
+                          <span className="ml-2 text-xs font-normal" style={{ color: "var(--text-secondary)" }}>
+                            {KIND_LABELS[channel.kind]}
+                          </span>
+                        </p>
+                        <p className="text-xs mt-0.5 truncate" style={{ color: "var(--text-secondary)" }}>
+                          {channel.target}
+                        </p>
+                      </div>
+                      <div className="flex gap-2 text-xs">
+                        <button
+                          type="button"
+                          disabled={busy}
+                          onClick={() => mutate(`/api/notifications/channels/${channel.id}/test`, "POST")}
+                          className="px-2.5 py-1 rounded-lg"
+                          style={{ ...buttonStyle, color: "var(--accent-light)" }}
+                        >
+                          테스트 전송
+                        </button>
+                        <button
+                          type="button"
+                          disabled={busy}
+                          onClick={() => mutate(`/api/notifications/channels/${channel.id}`, "DELETE")}
+                          className="px-2.5 py-1 rounded-lg"
+                          style={buttonStyle}
+                        >
+                          삭제
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {/* ── 규칙 ── */}
+            <section className="flex flex-col gap-3">
+              <h2 className="text-lg font-semibold" style={{ color: "var(--text-primary)" }}>
+                규칙 {settings.rules.length}개
+              </h2>
+              {settings.channels.length === 0 ? (
+                <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+                  채널을 먼저 추가하세요.
+                </p>
+              ) : (
+                <RuleForm
+                  channels={settings.channels}
+                  busy={busy}
+                  onSubmit={(input) => mutate("/api/notifications/rules", "POST", input)}
+                />
+              )}
+              {settings.rules.length > 0 && (
+                <ul
+                  className="rounded-2xl overflow-hidden"
+                  style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+                >
+                  {settings.rules.map((rule) => (
+                    <li
+                      key={rule.id}
+                      className="px-4 py-3 flex flex-col sm:flex-row sm:items-center gap-2"
+                      style={{ borderBottom: "1px solid var(--border)", opacity: rule.enabled ? 1 : 0.6 }}
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate" style={{ color: "var(--text-primary)" }}>
+                          {rule.name}
+                        </p>
+                        <p className="text-xs mt-0.5 font-mono" style={{ color: "var(--accent-light)" }}>
+                          {formatRuleConditions(rule.conditions)}
+                        </p>
+                        <p className="text-xs mt-0.5" style={{ color: "var(--text-secondary)" }}>
+                          {SOURCE_LABELS[rule.source]} →{" "}
+                          {rule.channelIds.length > 0 ? rule.channelIds.map(channelName).join(", ") : "보낼 채널 없음"}
+                        </p>
+                      </div>
+                      <div className="flex gap-2 text-xs">
+                        <button
+                          type="button"
+                          disabled={busy}
+                          onClick={() =>
+                            mutate(`/api/notifications/rules/${rule.id}`, "PATCH", { enabled: !rule.enabled })
+                          }
+                          className="px-2.5 py-1 rounded-lg"
+                          style={buttonStyle}
+                        >
+                          {rule.enabled ? "일시 중지" : "다시 사용"}
+                        </button>
+                        <button
+                          type="button"
+                          disabled={busy}
+                          onClick={() => mutate(`/api/notifications/rules/${rule.id}`, "DELETE")}
+                          className="px-2.5 py-1 rounded-lg"
+                          style={buttonStyle}
+                        >
+                          삭제
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {/* ── 전송 기록 ── */}
+            <section className="flex flex-col gap-3">
+              <h2 className="text-lg font-semibold" style={{ color: "var(--text-primary)" }}>
+                최근 전송 기록
+              </h2>
+              {settings.log.length === 0 ? (
+                <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+                  아직 보낸 알림이 없습니다.
+                </p>
+              ) : (
+                <ul
+                  className="rounded-2xl overflow-hidden text-xs"
+                  style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+                >
+                  {settings.log.map((entry) => (
+                    <li
+                      key={entry.id}
+                      className="px-4 py-2 flex flex-wrap items-center gap-x-3 gap-y-1"
+                      style={{ borderBottom: "1px solid var(--border)", color: "var(--text-secondary)" }}
+                    >
+                      <span
+                        className="px-1.5 py-0.5 rounded font-semibold"
+                        style={{
+                          color: entry.status === "sent" ? "#86efac" : "#fca5a5",
+                          border: "1px solid var(--border)",
+                        }}
+                      >
+                        {entry.status === "sent" ? "성공" : "실패"}
+                      </span>
+                      <span>{new Date(entry.at).toLocaleString()}</span>
+                      <span style={{ color: "var(--text-primary)" }}>
+                        {entry.channelName} ({KIND_LABELS[entry.channelKind]})
+                      </span>
+                      <span>
+                        {entry.test ? "테스트" : `알림 ${entry.alerts}건`} · 시도 {entry.attempts}회
+                      </span>
+                      {entry.error && <span style={{ color: "#fca5a5" }}>{entry.error}</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// ─── 서브 컴포넌트 ────────────────────────────────────────────────────────────
+
+function ChannelForm({
+  emailEnabled,
+  busy,
+  onSubmit,
+}: {
+  emailEnabled: boolean;
+  busy: boolean;
+  onSubmit: (input: { kind: NotificationChannelKind; name: string; target: string }) => Promise<boolean>;
+}) {
+  const [kind, setKind] = useState<NotificationChannelKind>("webhook");
+  const [name, setName] = useState("");
+  const [target, setTarget] = useState("");
+
+  const invalid = target.trim() ? validateChannelTarget(kind, target.trim()) : null;
+
+  const handleSubmit = async () => {
+    if (!target.trim() || invalid) return;
+    if (await onSubmit({ kind, name: name.trim(), target: target.trim() })) {
+      setName("");
+      setTarget("");
+    }
+  };
+
+  return (
+    <div
+      className="rounded-2xl p-4 flex flex-col gap-2"
+      style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+    >
+      <div className="flex flex-col sm:flex-row gap-2">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as NotificationChannelKind)}
+          className="px-3 py-2 rounded-xl text-sm outline-none"
+          style={inputStyle}
+        >
+          {CHANNEL_KINDS.map((k) => (
+            <option key={k} value={k} disabled={k === "email" && !emailEnabled}>
+              {KIND_LABELS[k]}
+              {k === "email" && !emailEnabled ? " (SMTP 미설정)" : ""}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="이름 (선택)"
+          className="sm:w-40 px-3 py-2 rounded-xl text-sm outline-none"
+          style={inputStyle}
+        />
+        <input
+          type={kind === "email" ? "email" : "url"}
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSubmit()}
+          placeholder={TARGET_PLACEHOLDERS[kind]}
+          className="flex-1 px-3 py-2 rounded-xl text-sm outline-none"
+          style={inputStyle}
+        />
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={busy || !target.trim() || invalid !== null}
+          className="px-4 py-2 rounded-xl text-sm font-semibold disabled:opacity-50"
+          style={{ backgroundColor: "var(--accent)", color: "#fff" }}
+        >
+          채널 추가
+        </button>
+      </div>
+      {invalid && (
+        <p className="text-xs" style={{ color: "#fca5a5" }}>
+          {invalid}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function RuleForm({
+  channels,
+  busy,
+  onSubmit,
+}: {
+  channels: NotificationChannelSummary[];
+  busy: boolean;
+  onSubmit: (input: {
+    name: string;
+    expression: string;
+    source: NotificationRule["source"];
+    channelIds: string[];
+  }) => Promise<boolean>;
+}) {
+  const [expression, setExpression] = useState(EXAMPLE_EXPRESSION);
+  const [name, setName] = useState("");
+  const [source, setSource] = useState<NotificationRule["source"]>("any");
+  const [channelIds, setChannelIds] = useState<string[]>([]);
+
+  const parsed = parseRuleExpression(expression);
+  const selected = channelIds.filter((id) => channels.some((c) => c.id === id));
+
+  const toggleChannel = (id: string) =>
+    setChannelIds((prev) => (prev.includes(id) ? prev.filter((c) => c !== id) : [...prev, id]));
+
+  const handleSubmit = async () => {
+    if ("error" in parsed || selected.length === 0) return;
+    if (await onSubmit({ name: name.trim(), expression, source, channelIds: selected })) {
+      setName("");
+    }
+  };
+
+  return (
+    <div
+      className="rounded-2xl p-4 flex flex-col gap-3"
+      style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+    >
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={expression}
+          onChange={(e) => setExpression(e.target.value)}
+          placeholder={EXAMPLE_EXPRESSION}
+          className="flex-1 px-3 py-2 rounded-xl text-sm font-mono outline-none"
+          style={inputStyle}
+        />
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="이름 (선택)"
+          className="sm:w-40 px-3 py-2 rounded-xl text-sm outline-none"
+          style={inputStyle}
+        />
+        <select
+          value={source}
+          onChange={(e) => setSource(e.target.value as NotificationRule["source"])}
+          className="px-3 py-2 rounded-xl text-sm outline-none"
+          style={inputStyle}
+        >
+          {(Object.keys(SOURCE_LABELS) as NotificationRule["source"][]).map((s) => (
+            <option key={s} value={s}>
+              {SOURCE_LABELS[s]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <p className="text-xs" style={{ color: "error" in parsed ? "#fca5a5" : "var(--text-secondary)" }}>
+        {"error" in parsed
+          ? parsed.error
+          : `${formatRuleConditions(parsed.conditions)} · 지표: performanceScore, views, views/day, subscribers, ratio (k·m·만 단위 사용 가능)`}
+      </p>
+      <div className="flex flex-wrap items-center gap-1.5 text-xs">
+        <span style={{ color: "var(--text-secondary)" }}>보낼 채널</span>
+        {channels.map((channel) => {
+          const active = selected.includes(channel.id);
+          return (
+            <button
+              key={channel.id}
+              type="button"
+              aria-pressed={active}
+              onClick={() => toggleChannel(channel.id)}
+              className="px-2.5 py-1 rounded-lg"
+              style={{
+                backgroundColor: active ? "var(--accent)" : "var(--surface-2)",
+                color: active ? "#fff" : "var(--text-secondary)",
+                border: `1px solid ${active ? "var(--accent)" : "var(--border)"}`,
+              }}
+            >
+              {channel.name}
+            </button>
+          );
+        })}
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={busy || "error" in parsed || selected.length === 0}
+          className="ml-auto px-4 py-2 rounded-xl text-sm font-semibold disabled:opacity-50"
+          style={{ backgroundColor: "var(--accent)", color: "#fff" }}
+        >
+          규칙 추가
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -6,19 +6,76 @@
  * 책임: UI 조합 및 API 요청 트리거
  */
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import Link from "next/link";
 import VideoTable from "@/components/VideoTable";
 import VideoCards from "@/components/VideoCards";
+import UserMenu from "@/components/UserMenu";
+import ScoringProfileEditor from "@/components/ScoringProfileEditor";
+import CommentDrawer from "@/components/CommentDrawer";
+import ExportMenu from "@/components/ExportMenu";
+import ResultFilterBar from "@/components/ResultFilterBar";
+import InsightsView from "@/components/InsightsView";
 import type { VideoResult } from "@/lib/youtube/analysis";
-import type { VideoType } from "@/lib/youtube/videoType";
+import type { WatchlistItem } from "@/lib/watchlist/watchlist";
+import {
+  DEFAULT_TYPE_CONFIDENCE,
+  MAX_TYPE_CONFIDENCE,
+  getVideoTypeSearchParams,
+  type VideoType,
+} from "@/lib/youtube/videoType";
+import {
+  DEFAULT_REGION_CODE,
+  DEFAULT_RELEVANCE_LANGUAGE,
+  SEARCH_LANGUAGES,
+  SEARCH_REGIONS,
+} from "@/lib/youtube/markets";
+import {
+  DAILY_QUOTA_LIMIT,
+  DEFAULT_PAGE_DEPTH,
+  MAX_PAGE_DEPTH,
+  searchPageCost,
+  type QuotaUsage,
+} from "@/lib/youtube/quota";
+import type { KeyUsageReport } from "@/lib/youtube/keyPool";
+import type { VaultKeyInfo } from "@/lib/youtube/keyVault";
+import { API_KEY_STORAGE_KEY, parseApiKeys } from "@/lib/client/apiKeyStorage";
+import { readNdjson } from "@/lib/client/ndjson";
+import { parseSessionJson } from "@/lib/export/resultsExport";
+import {
+  DEFAULT_VIDEO_SORT,
+  sortVideos,
+  toggleSort,
+  type VideoSort,
+  type VideoSortKey,
+} from "@/lib/youtube/resultSort";
+import {
+  EMPTY_RESULT_FILTER,
+  buildFacets,
+  countActiveFilters,
+  filterVideos,
+  type ResultFilter,
+} from "@/lib/youtube/resultFilter";
+import type {
+  ContributionUpdate,
+  SearchPipelineEvent,
+  SearchStreamEvent,
+} from "@/lib/youtube/searchPipeline";
+import { PLAN_LIMIT_CODE, PLANS, type PlanId } from "@/lib/billing/plans";
+import {
+  DEFAULT_SCORING_PROFILE_ID,
+  type ScoringProfile,
+  type ScoringProfileRef,
+} from "@/lib/scoring/profiles";
 
 // ─── 상수 ─────────────────────────────────────────────────────────────────────
 
 const GOOGLE_API_CONSOLE_URL = "https://console.cloud.google.com/apis/credentials";
-const LOCAL_STORAGE_KEY = "yt_analyzer_api_key";
+/** 오늘(태평양 시간 기준) 누적 사용 unit — YouTube 할당량은 PT 자정에 초기화 */
+const QUOTA_USAGE_STORAGE_KEY = "yt_analyzer_quota_usage";
 
-type ViewMode = "table" | "card";
+type ViewMode = "table" | "card" | "insights";
 type UploadPeriod = "all" | "1month" | "3months" | "6months" | "1year";
 
 const PERIOD_OPTIONS: { label: string; value: UploadPeriod }[] = [
@@ -29,6 +86,13 @@ const PERIOD_OPTIONS: { label: string; value: UploadPeriod }[] = [
   { label: "1년", value: "1year" },
 ];
 
+/** 유형 판별 기준: 요청한 유형일 확신도 하한 (길이만 맞는 영상은 0.6) */
+const TYPE_CONFIDENCE_OPTIONS: { label: string; sub: string; value: number }[] = [
+  { label: "보통", sub: "길이 기준", value: DEFAULT_TYPE_CONFIDENCE },
+  { label: "엄격", sub: "세로·#shorts 확인", value: 0.8 },
+  { label: "매우 엄격", sub: "URL 확인", value: MAX_TYPE_CONFIDENCE },
+];
+
 const SUBSCRIBER_OPTIONS: { label: string; value: number | null }[] = [
   { label: "전체", value: null },
   { label: "1만", value: 10_000 },
@@ -48,6 +112,116 @@ interface SearchState {
   total: number;
   keyword: string;
   videoType: VideoType;
+  /** 이번 검색의 할당량 사용 내역 */
+  quota: QuotaUsage | null;
+  /** 키 풀 사용 내역 (키 값 미포함) */
+  keys: KeyUsageReport[] | null;
+  /** 최신 검색 기록 스냅샷을 재사용한 경우 (할당량 0) */
+  snapshot: { id: string; createdAt: string } | null;
+  /** 로그인 사용자의 요금제 적용 내역 */
+  plan: SearchPlanInfo | null;
+  /** 요금제 일일 한도 초과 (429 PLAN_LIMIT) */
+  planLimit: PlanLimitInfo | null;
+  /** 검색 페이지 이어가기 정보 */
+  paging: SearchPaging | null;
+  /** 점수를 계산한 점수 기준 */
+  scoringProfile: ScoringProfileRef | null;
+  /** 내보낸 세션 파일에서 불러온 결과 (할당량 0) */
+  imported: { exportedAt: string } | null;
+}
+
+interface SearchPaging {
+  pageDepth: number;
+  pagesFetched: number;
+  continuation: string | null;
+  nextPageCost: number;
+}
+
+interface SearchPlanInfo {
+  id: PlanId;
+  maxResults: number;
+  restricted: string[];
+}
+
+interface PlanLimitInfo {
+  plan: PlanId;
+  limit: number;
+  resetAt: string;
+  upgradeUrl: string;
+}
+
+/** 점수 기준 목록 (/api/scoring-profiles 응답) */
+interface ScoringSettingsResponse {
+  presets: Array<ScoringProfile & { description: string }>;
+  custom: ScoringProfile[];
+  selected: string;
+}
+
+/** 서버 보관 키 상태 (/api/keys 응답) */
+interface VaultStatus {
+  enabled: boolean;
+  registered: boolean;
+  keys: VaultKeyInfo[];
+}
+
+const KEY_STATUS_LABELS: Record<KeyUsageReport["status"], string> = {
+  active: "사용 가능",
+  exhausted: "할당량 소진",
+  invalid: "유효하지 않음",
+};
+
+const ENDPOINT_LABELS: Record<keyof QuotaUsage["byEndpoint"], string> = {
+  search: "검색",
+  videos: "영상",
+  channels: "채널",
+  playlistItems: "재생목록",
+  commentThreads: "댓글",
+};
+
+const SKIPPED_STEP_LABELS: Record<string, string> = {
+  channelAvg: "채널 평균(기여도)",
+};
+
+type SearchProgressEvent = Extract<SearchPipelineEvent, { type: "progress" }>;
+
+const PROGRESS_STAGE_LABELS: Record<SearchProgressEvent["stage"], string> = {
+  search: "검색 페이지",
+  details: "영상·채널 정보",
+  channelAvg: "채널 평균(기여도)",
+};
+
+/** 스트리밍으로 도착한 채널별 기여도를 결과에 반영 */
+function applyContributions(videos: VideoResult[], updates: ContributionUpdate[]): VideoResult[] {
+  const byId = new Map(updates.map((u) => [u.id, u]));
+  return videos.map((v) => {
+    const update = byId.get(v.id);
+    return update ? { ...v, ...update } : v;
+  });
+}
+
+/** 생략 단계 표시 이름 (searchPage<N> → 검색 N페이지) */
+function skippedStepLabel(step: string): string {
+  const page = step.match(/^searchPage(\d+)$/);
+  return page ? `검색 ${page[1]}페이지` : (SKIPPED_STEP_LABELS[step] ?? step);
+}
+
+/** 태평양 시간 기준 오늘 날짜 (YYYY-MM-DD) */
+function pacificDateKey(): string {
+  return new Date().toLocaleDateString("en-CA", { timeZone: "America/Los_Angeles" });
+}
+
+/** 오늘 누적 사용량에 이번 사용량을 더해 저장하고 합계 반환 */
+function accumulateDailyUsage(used: number): number {
+  const today = pacificDateKey();
+  let total = used;
+  try {
+    const stored = JSON.parse(localStorage.getItem(QUOTA_USAGE_STORAGE_KEY) ?? "null");
+    if (stored?.date === today && typeof stored.used === "number") total += stored.used;
+  } catch {
+    // 손상된 값은 무시하고 새로 기록
+  }
+  localStorage.setItem(QUOTA_USAGE_STORAGE_KEY, JSON.stringify({ date: today, used: total }));
+  return total;
 }
 
 // ─── 메인 컴포넌트 ─────────────────────────────────────────────────────────────
@@ -58,6 +232,11 @@ export default function Page() {
   const [keyword, setKeyword] = useState("");
   const [showApiKey, setShowApiKey] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>("card");
+  /** 카드·테이블·내보내기가 공유하는 정렬 기준 */
+  const [sort, setSort] = useState<VideoSort>(DEFAULT_VIDEO_SORT);
+  /** 결과 후처리 필터 (검색 재실행 없이 받은 결과만 좁힘) */
+  const [resultFilter, setResultFilter] = useState<ResultFilter>(EMPTY_RESULT_FILTER);
+  const [showResultFilter, setShowResultFilter] = useState(false);
 
   // ── 필터 상태 ────────────────────────────────────────────────────────────────
   const [showFilters, setShowFilters] = useState(false);
@@ -65,6 +244,13 @@ export default function Page() {
   const [uploadPeriod, setUploadPeriod] = useState<UploadPeriod>("all");
   const [minViewCountInput, setMinViewCountInput] = useState("");
   const [maxSubscriberCount, setMaxSubscriberCount] = useState<number | null>(null);
+  const [minTypeConfidence, setMinTypeConfidence] = useState(DEFAULT_TYPE_CONFIDENCE);
+  const [regionCode, setRegionCode] = useState(DEFAULT_REGION_CODE);
+  const [relevanceLanguage, setRelevanceLanguage] = useState(DEFAULT_RELEVANCE_LANGUAGE);
+  const [quotaBudgetInput, setQuotaBudgetInput] = useState("");
+  const [pageDepth, setPageDepth] = useState(DEFAULT_PAGE_DEPTH);
+  const [scoringProfileId, setScoringProfileId] = useState<string>(DEFAULT_SCORING_PROFILE_ID);
+  const [dailyQuotaUsed, setDailyQuotaUsed] = useState<number | null>(null);
 
   const [search, setSearch] = useState<SearchState>({
     status: "idle",
@@ -73,38 +259,245 @@ export default function Page() {
     total: 0,
     keyword: "",
     videoType: "longform",
+    quota: null,
+    keys: null,
+    snapshot: null,
+    plan: null,
+    planLimit: null,
+    paging: null,
+    scoringProfile: null,
+    imported: null,
   });
+  /** 스트리밍 진행 중이면 마지막 진행률 이벤트 */
+  const [progress, setProgress] = useState<SearchProgressEvent | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [moreError, setMoreError] = useState<string | null>(null);
 
   // 비기본값 필터 개수 (배지용)
   const activeFilterCount = [
     videoType !== "longform",
+    minTypeConfidence !== DEFAULT_TYPE_CONFIDENCE,
+    regionCode !== DEFAULT_REGION_CODE || relevanceLanguage !== DEFAULT_RELEVANCE_LANGUAGE,
     uploadPeriod !== "all",
     minViewCountInput.trim() !== "",
     maxSubscriberCount !== null,
+    quotaBudgetInput.trim() !== "",
+    pageDepth !== DEFAULT_PAGE_DEPTH,
+    scoringProfileId !== DEFAULT_SCORING_PROFILE_ID,
   ].filter(Boolean).length;
 
+  /** 검색 1페이지 단계 비용 (longform은 medium + long 2회) */
+  const pageRoundCost = searchPageCost(getVideoTypeSearchParams(videoType).videoDurations.length);
+
   // API Key 복원
   useEffect(() => {
-    const stored = localStorage.getItem(LOCAL_STORAGE_KEY);
+    const stored = localStorage.getItem(API_KEY_STORAGE_KEY);
     if (stored) setApiKey(stored);
   }, []);
 
   const handleApiKeyChange = (val: string) => {
     setApiKey(val);
-    if (val.trim()) localStorage.setItem(LOCAL_STORAGE_KEY, val.trim());
-    else localStorage.removeItem(LOCAL_STORAGE_KEY);
+    if (val.trim()) localStorage.setItem(API_KEY_STORAGE_KEY, val.trim());
+    else localStorage.removeItem(API_KEY_STORAGE_KEY);
   };
 
-  // ── 검색 실행 ──────────────────────────────────────────────────────────────
-  const handleSearch = useCallback(async () => {
-    if (!apiKey.trim()) {
-      setSearch((s) => ({
-        ...s,
-        status: "error",
-        error: "YouTube API Key를 입력해 주세요.",
-      }));
+  // ── 서버 보관 키 ───────────────────────────────────────────────────────────
+  const [vault, setVault] = useState<VaultStatus | null>(null);
+  const [vaultError, setVaultError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/keys")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: VaultStatus | null) => setVault(data))
+      .catch(() => setVault(null));
+  }, []);
+
+  /** 입력한 키를 서버에 암호화 저장하고 브라우저에서는 삭제 */
+  const handleRegisterVault = async () => {
+    setVaultError(null);
+    try {
+      const res = await fetch("/api/keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ apiKeys: parseApiKeys(apiKey) }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setVaultError(data.error ?? "키 등록에 실패했습니다.");
+        return;
+      }
+      setVault(data);
+      handleApiKeyChange("");
+    } catch {
+      setVaultError("네트워크 오류가 발생했습니다.");
+    }
+  };
+
+  const handleDeleteVault = async () => {
+    setVaultError(null);
+    try {
+      const res = await fetch("/api/keys", { method: "DELETE" });
+      setVault(await res.json());
+    } catch {
+      setVaultError("네트워크 오류가 발생했습니다.");
+    }
+  };
+
+  // ── 점수 기준 ─────────────────────────────────────────────────────────────
+  const [scoring, setScoring] = useState<ScoringSettingsResponse | null>(null);
+  /** 편집 중인 사용자 정의 기준 ("new"면 새로 만들기) */
+  const [editingProfile, setEditingProfile] = useState<ScoringProfile | "new" | null>(null);
+
+  const loadScoringProfiles = useCallback(async () => {
+    try {
+      const res = await fetch("/api/scoring-profiles");
+      if (!res.ok) return;
+      const data: ScoringSettingsResponse = await res.json();
+      setScoring(data);
+      setScoringProfileId(data.selected);
+    } catch {
+      // 목록을 못 불러오면 기본 기준으로 검색
+    }
+  }, []);
+
+  useEffect(() => {
+    loadScoringProfiles();
+  }, [loadScoringProfiles]);
+
+  /** 기준 선택 — 다음 방문에도 유지되도록 서버에 저장 */
+  const handleSelectProfile = (id: string) => {
+    setScoringProfileId(id);
+    fetch("/api/scoring-profiles", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ selected: id }),
+    }).catch(() => {});
+  };
+
+  const handleSaveProfile = async (input: Omit<ScoringProfile, "id">): Promise<string | null> => {
+    const id = editingProfile !== "new" ? editingProfile?.id : undefined;
+    try {
+      const res = await fetch("/api/scoring-profiles", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...input, id }),
+      });
+      const data = await res.json();
+      if (!res.ok) return data.error ?? "점수 기준을 저장하지 못했습니다.";
+      setEditingProfile(null);
+      await loadScoringProfiles();
+      handleSelectProfile(data.profile.id);
+      return null;
+    } catch {
+      return "네트워크 오류가 발생했습니다.";
+    }
+  };
+
+  const handleDeleteProfile = async (id: string) => {
+    await fetch(`/api/scoring-profiles/${encodeURIComponent(id)}`, { method: "DELETE" }).catch(() => {});
+    setEditingProfile(null);
+    await loadScoringProfiles();
+  };
+
+  // ── 워치리스트 ─────────────────────────────────────────────────────────────
+  const [watchedIds, setWatchedIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    fetch("/api/watchlist")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { items: WatchlistItem[] } | null) => {
+        if (data) setWatchedIds(new Set(data.items.map((item) => item.videoId)));
+      })
+      .catch(() => {});
+  }, []);
+
+  /** 고정/해제 — 실패하면 이전 상태로 되돌림 */
+  const handleToggleWatch = async (video: VideoResult) => {
+    const watched = watchedIds.has(video.id);
+    const apply = (on: boolean) =>
+      setWatchedIds((ids) => {
+        const next = new Set(ids);
+        if (on) next.add(video.id);
+        else next.delete(video.id);
+        return next;
+      });
+    apply(!watched);
+    try {
+      const res = watched
+        ? await fetch(`/api/watchlist/${encodeURIComponent(video.id)}`, { method: "DELETE" })
+        : await fetch("/api/watchlist", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ videoId: video.id, apiKeys: parseApiKeys(apiKey) }),
+          });
+      if (!res.ok) apply(watched);
+    } catch {
+      apply(watched);
+    }
+  };
+
+  // ── 저장된 검색 · 알림함 ────────────────────────────────────────────────────
+  const [inboxUnread, setInboxUnread] = useState(0);
+  const [saveNotice, setSaveNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/inbox")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { unread: number } | null) => {
+        if (data) setInboxUnread(data.unread);
+      })
+      .catch(() => {});
+  }, []);
+
+  /** 현재 입력한 키워드·필터를 저장 (주기 작업이 다시 실행해 새 아웃라이어를 알림함에 추가) */
+  const handleSaveSearch = async () => {
+    if (!keyword.trim()) {
+      setSaveNotice("저장할 키워드를 입력해 주세요.");
       return;
     }
+    const parsedMinViews = parseInt(minViewCountInput.replace(/,/g, ""), 10);
+    try {
+      const res = await fetch("/api/saved-searches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          keyword: keyword.trim(),
+          videoType,
+          uploadPeriod,
+          minViewCount: parsedMinViews > 0 ? parsedMinViews : null,
+          maxSubscriberCount,
+          minTypeConfidence,
+          regionCode,
+          relevanceLanguage,
+          scoringProfile: scoringProfileId,
+        }),
+      });
+      const data = await res.json();
+      setSaveNotice(res.ok ? `'${data.search.filters.keyword}' 검색을 저장했습니다 · 매일 다시 실행` : data.error);
+    } catch {
+      setSaveNotice("검색을 저장하지 못했습니다.");
+    }
+  };
+
+  // ── 댓글 분석 드로어 ───────────────────────────────────────────────────────
+  const [commentVideo, setCommentVideo] = useState<VideoResult | null>(null);
+
+  // ── 스트리밍 응답 읽기 ─────────────────────────────────────────────────────
+  /** 진행률·영상·기여도 이벤트를 상태에 반영하고 마지막 done/error 이벤트 반환 */
+  const readSearchStream = useCallback(async (res: Response) => {
+    return readNdjson<SearchStreamEvent>(res, (event) => {
+      if (event.type === "progress") setProgress(event);
+      else if (event.type === "videos") {
+        setSearch((s) => ({ ...s, status: "success", videos: event.videos, total: event.videos.length }));
+      } else if (event.type === "contribution") {
+        setSearch((s) => ({ ...s, videos: applyContributions(s.videos, event.videos) }));
+      }
+    });
+  }, []);
+
+  // ── 검색 실행 ──────────────────────────────────────────────────────────────
+  const handleSearch = useCallback(async (forceRefresh = false) => {
+    // API Key 미입력 시 서버 보관 키(쿠키) 또는 서버 환경 변수 키를 사용하므로 서버에서 검증
     if (!keyword.trim()) {
       setSearch((s) => ({
         ...s,
@@ -121,33 +514,63 @@ export default function Page() {
       total: 0,
       keyword: keyword.trim(),
       videoType,
+      quota: null,
+      keys: null,
+      snapshot: null,
+      plan: null,
+      planLimit: null,
+      paging: null,
+      scoringProfile: null,
+      imported: null,
     });
+    setResultFilter(EMPTY_RESULT_FILTER);
+    setMoreError(null);
+    setProgress({ type: "progress", stage: "search", done: 0, total: pageDepth });
 
     const parsedMinViews = minViewCountInput.trim()
       ? parseInt(minViewCountInput.replace(/,/g, ""), 10)
       : undefined;
+    const parsedBudget = quotaBudgetInput.trim()
+      ? parseInt(quotaBudgetInput, 10)
+      : undefined;
 
     try {
       const res = await fetch("/api/youtube/search", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Accept: "application/x-ndjson" },
         body: JSON.stringify({
-          apiKey: apiKey.trim(),
+          apiKeys: parseApiKeys(apiKey),
           keyword: keyword.trim(),
           videoType,
           uploadPeriod,
           minViewCount:
             parsedMinViews && !isNaN(parsedMinViews) ? parsedMinViews : undefined,
           maxSubscriberCount,
+          minTypeConfidence,
+          regionCode,
+          relevanceLanguage,
+          quotaBudget:
+            parsedBudget && !isNaN(parsedBudget) ? parsedBudget : undefined,
+          forceRefresh,
+          pageDepth,
+          scoringProfile: scoringProfileId,
         }),
       });
 
-      const data = await res.json();
-      if (!res.ok) {
+      // 스트리밍 응답: 영상·기여도를 도착하는 대로 반영하고 마지막 done/error 이벤트를 최종 본문으로 사용
+      // (입력 오류·스냅샷 재사용 등은 일반 JSON 응답)
+      const streamed = res.headers.get("content-type")?.includes("application/x-ndjson");
+      const data = streamed ? await readSearchStream(res) : await res.json();
+      if (!data) throw new Error("stream closed");
+      if (data.quota?.used) setDailyQuotaUsed(accumulateDailyUsage(data.quota.used));
+      if (streamed ? data.type !== "done" : !res.ok) {
         setSearch((s) => ({
           ...s,
           status: "error",
           error: data.error ?? "알 수 없는 오류가 발생했습니다.",
+          quota: data.quota ?? null,
+          keys: data.keys ?? null,
+          planLimit: data.code === PLAN_LIMIT_CODE ? data : null,
         }));
         return;
       }
@@ -159,6 +582,14 @@ export default function Page() {
         total: data.total ?? 0,
         keyword: keyword.trim(),
         videoType,
+        quota: data.quota ?? null,
+        keys: data.keys ?? null,
+        snapshot: data.snapshot ?? null,
+        plan: data.plan ?? null,
+        planLimit: null,
+        paging: data.paging ?? null,
+        scoringProfile: data.scoringProfile ?? null,
+        imported: null,
       });
     } catch {
       setSearch((s) => ({
@@ -166,8 +597,112 @@ export default function Page() {
         status: "error",
         error: "네트워크 오류가 발생했습니다. 인터넷 연결을 확인해 주세요.",
       }));
+    } finally {
+      setProgress(null);
     }
-  }, [apiKey, keyword, videoType, uploadPeriod, minViewCountInput, maxSubscriberCount]);
+  }, [
+    apiKey,
+    keyword,
+    videoType,
+    uploadPeriod,
+    minViewCountInput,
+    maxSubscriberCount,
+    minTypeConfidence,
+    regionCode,
+    relevanceLanguage,
+    quotaBudgetInput,
+    pageDepth,
+    scoringProfileId,
+    readSearchStream,
+  ]);
+
+  // ── 결과 더 가져오기 (서버에 저장된 다음 페이지 토큰부터 1페이지씩) ─────────
+  const handleLoadMore = async () => {
+    const continuation = search.paging?.continuation;
+    if (!continuation) return;
+
+    setLoadingMore(true);
+    setMoreError(null);
+    try {
+      const res = await fetch("/api/youtube/search", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ apiKeys: parseApiKeys(apiKey), continuation, pageDepth: 1 }),
+      });
+      const data = await res.json();
+      if (data.quota?.used) setDailyQuotaUsed(accumulateDailyUsage(data.quota.used));
+      if (!res.ok) {
+        setMoreError(data.error ?? "결과를 더 가져오지 못했습니다.");
+        return;
+      }
+
+      setSearch((s) => {
+        const known = new Set(s.videos.map((v) => v.id));
+        const videos = [...s.videos, ...(data.videos as VideoResult[]).filter((v) => !known.has(v.id))];
+        return {
+          ...s,
+          videos,
+          total: videos.length,
+          quota: data.quota ?? s.quota,
+          keys: data.keys ?? s.keys,
+          paging: data.paging ?? null,
+        };
+      });
+    } catch {
+      setMoreError("네트워크 오류가 발생했습니다. 인터넷 연결을 확인해 주세요.");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // ── 내보낸 세션 JSON 불러오기 (API 호출 없음) ─────────────────────────────
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // 같은 파일을 다시 고를 수 있도록 초기화
+    e.target.value = "";
+    if (!file) return;
+
+    const session = parseSessionJson(await file.text().catch(() => ""));
+    if (!session) {
+      setSearch((s) => ({
+        ...s,
+        status: "error",
+        error: "내보낸 분석 결과(JSON) 파일이 아니거나 손상되었습니다.",
+      }));
+      return;
+    }
+
+    setKeyword(session.keyword);
+    setSort(session.sort);
+    setResultFilter(EMPTY_RESULT_FILTER);
+    setMoreError(null);
+    setSearch({
+      status: "success",
+      videos: session.videos,
+      error: null,
+      total: session.videos.length,
+      keyword: session.keyword,
+      videoType: session.videoType,
+      quota: null,
+      keys: null,
+      snapshot: null,
+      plan: null,
+      planLimit: null,
+      paging: null,
+      scoringProfile: session.scoringProfile,
+      imported: { exportedAt: session.exportedAt },
+    });
+  };
+
+  const handleSortChange = (key: VideoSortKey) => setSort((current) => toggleSort(current, key));
+
+  /** 화면 표시·내보내기 대상 (결과 필터 → 정렬) */
+  const displayedVideos = useMemo(
+    () => sortVideos(filterVideos(search.videos, resultFilter), sort),
+    [search.videos, resultFilter, sort]
+  );
+  const resultFacets = useMemo(() => buildFacets(search.videos, resultFilter), [search.videos, resultFilter]);
+  const resultFilterCount = countActiveFilters(resultFilter);
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter") handleSearch();
@@ -202,6 +737,52 @@ export default function Page() {
         >
           KR 한정 분석
         </span>
+        <Link
+          href="/analyzer/watchlist"
+          className="text-xs px-2 py-1 rounded-full"
+          style={{ color: "var(--text-secondary)", border: "1px solid var(--border)" }}
+        >
+          워치리스트
+        </Link>
+        <Link
+          href="/analyzer/competitors"
+          className="text-xs px-2 py-1 rounded-full"
+          style={{ color: "var(--text-secondary)", border: "1px solid var(--border)" }}
+        >
+          경쟁 채널
+        </Link>
+        <Link
+          href="/analyzer/markets"
+          className="text-xs px-2 py-1 rounded-full"
+          style={{ color: "var(--text-secondary)", border: "1px solid var(--border)" }}
+        >
+          시장 비교
+        </Link>
+        <Link
+          href="/analyzer/keywords"
+          className="text-xs px-2 py-1 rounded-full"
+          style={{ color: "var(--text-secondary)", border: "1px solid var(--border)" }}
+        >
+          키워드 확장
+        </Link>
+        <Link
+          href="/analyzer/history"
+          className="text-xs px-2 py-1 rounded-full"
+          style={{ color: "var(--text-secondary)", border: "1px solid var(--border)" }}
+        >
+          사용내역
+        </Link>
+        <Link
+          href="/analyzer/inbox"
+          className="text-xs px-2 py-1 rounded-full"
+          style={{
+            color: inboxUnread > 0 ? "var(--accent-light)" : "var(--text-secondary)",
+            border: "1px solid var(--border)",
+          }}
+        >
+          알림함{inboxUnread > 0 && ` ${inboxUnread}`}
+        </Link>
+        <UserMenu />
       </header>
 
       <main className="max-w-7xl mx-auto px-3 sm:px-6 py-6 sm:py-10 flex flex-col gap-5 sm:gap-8">
@@ -231,6 +812,9 @@ export default function Page() {
             <div className="flex flex-col gap-1.5">
               <label className="text-sm font-medium" style={{ color: "var(--text-secondary)" }}>
                 YouTube API Key
+                <span className="ml-1.5 text-xs font-normal" style={{ opacity: 0.7 }}>
+                  여러 개는 쉼표로 구분 · 소진 시 다음 키로 전환
+                </span>
               </label>
               <div className="flex gap-2">
                 <div className="relative flex-1">
@@ -239,7 +823,9 @@ export default function Page() {
                     value={apiKey}
                     onChange={(e) => handleApiKeyChange(e.target.value)}
                     onKeyDown={handleKeyDown}
-                    placeholder="AIza..."
+                    placeholder={
+                    vault?.registered ? "서버 보관 키 사용 중 (추가 키 입력 가능)" : "AIza..., AIza..."
+                  }
                     className="w-full px-4 py-2.5 pr-16 rounded-xl text-sm outline-none transition-all"
                     style={{
                       backgroundColor: "var(--surface-2)",
@@ -281,6 +867,15 @@ export default function Page() {
                   <span>발급받기</span>
                 </a>
               </div>
+              {vault?.enabled && (
+                <KeyVaultControls
+                  vault={vault}
+                  canRegister={parseApiKeys(apiKey).length > 0}
+                  error={vaultError}
+                  onRegister={handleRegisterVault}
+                  onDelete={handleDeleteVault}
+                />
+              )}
             </div>
 
             {/* 키워드 + 필터 버튼 */}
@@ -404,7 +999,55 @@ export default function Page() {
                     ))}
                   </FilterRow>
 
-                  {/* 2. 업로드일자 */}
+                  {/* 2. 유형 판별 기준 */}
+                  <FilterRow label="유형 판별">
+                    {TYPE_CONFIDENCE_OPTIONS.map(({ value, label, sub }) => (
+                      <OptionButton
+                        key={value}
+                        active={minTypeConfidence === value}
+                        onClick={() => setMinTypeConfidence(value)}
+                      >
+                        {label} <span style={{ opacity: 0.6, fontSize: "11px" }}>{sub}</span>
+                      </OptionButton>
+                    ))}
+                  </FilterRow>
+
+                  {/* 3. 검색 지역·언어 (지역을 바꾸면 그 지역의 기본 언어로) */}
+                  <FilterRow label="검색 지역">
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      {SEARCH_REGIONS.map((region) => (
+                        <OptionButton
+                          key={region.code}
+                          active={regionCode === region.code}
+                          onClick={() => {
+                            setRegionCode(region.code);
+                            setRelevanceLanguage(region.language);
+                          }}
+                        >
+                          {region.label}
+                        </OptionButton>
+                      ))}
+                      <select
+                        value={relevanceLanguage}
+                        onChange={(e) => setRelevanceLanguage(e.target.value)}
+                        aria-label="결과 언어"
+                        className="px-2 py-1.5 rounded-lg text-xs outline-none"
+                        style={{
+                          backgroundColor: "var(--surface)",
+                          border: "1px solid var(--border)",
+                          color: "var(--text-primary)",
+                        }}
+                      >
+                        {SEARCH_LANGUAGES.map((language) => (
+                          <option key={language.code} value={language.code}>
+                            {language.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </FilterRow>
+
+                  {/* 4. 업로드일자 */}
                   <FilterRow label="업로드일자">
                     {PERIOD_OPTIONS.map((opt) => (
                       <OptionButton
@@ -417,7 +1060,7 @@ export default function Page() {
                     ))}
                   </FilterRow>
 
-                  {/* 3. 최소 조회수 */}
+                  {/* 5. 최소 조회수 */}
                   <FilterRow label="최소 조회수">
                     <div className="flex items-center gap-2">
                       <input
@@ -449,7 +1092,7 @@ export default function Page() {
                     </div>
                   </FilterRow>
 
-                  {/* 4. 채널 구독자 상한 */}
+                  {/* 6. 채널 구독자 상한 */}
                   <FilterRow label="구독자 상한">
                     <div className="flex flex-wrap gap-1.5">
                       {SUBSCRIBER_OPTIONS.map((opt) => (
@@ -463,6 +1106,97 @@ export default function Page() {
                       ))}
                     </div>
                   </FilterRow>
+
+                  {/* 7. 검색 깊이 */}
+                  <FilterRow label="검색 깊이">
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      {Array.from({ length: MAX_PAGE_DEPTH }, (_, i) => i + 1).map((depth) => (
+                        <OptionButton
+                          key={depth}
+                          active={pageDepth === depth}
+                          onClick={() => setPageDepth(depth)}
+                        >
+                          {depth}페이지
+                        </OptionButton>
+                      ))}
+                      <span className="text-xs ml-1" style={{ color: "var(--text-secondary)" }}>
+                        검색 최대 {(pageRoundCost * pageDepth).toLocaleString()} units (페이지당{" "}
+                        {pageRoundCost} units)
+                      </span>
+                    </div>
+                  </FilterRow>
+
+                  {/* 8. 점수 기준 */}
+                  {scoring && (
+                    <FilterRow label="점수 기준">
+                      {scoring.presets.map((preset) => (
+                        <span key={preset.id} title={preset.description}>
+                          <OptionButton
+                            active={scoringProfileId === preset.id}
+                            onClick={() => handleSelectProfile(preset.id)}
+                          >
+                            {preset.name}
+                          </OptionButton>
+                        </span>
+                      ))}
+                      {scoring.custom.map((profile) => (
+                        <OptionButton
+                          key={profile.id}
+                          active={scoringProfileId === profile.id}
+                          onClick={() =>
+                            scoringProfileId === profile.id
+                              ? setEditingProfile(profile)
+                              : handleSelectProfile(profile.id)
+                          }
+                        >
+                          {profile.name}
+                          {scoringProfileId === profile.id && " ✎"}
+                        </OptionButton>
+                      ))}
+                      <OptionButton active={editingProfile === "new"} onClick={() => setEditingProfile("new")}>
+                        + 직접 설정
+                      </OptionButton>
+                      {editingProfile && (
+                        <ScoringProfileEditor
+                          key={editingProfile === "new" ? "new" : editingProfile.id}
+                          profile={editingProfile === "new" ? undefined : editingProfile}
+                          onSave={handleSaveProfile}
+                          onDelete={
+                            editingProfile === "new"
+                              ? undefined
+                              : () => handleDeleteProfile(editingProfile.id)
+                          }
+                          onCancel={() => setEditingProfile(null)}
+                        />
+                      )}
+                    </FilterRow>
+                  )}
+
+                  {/* 9. 할당량 예산 */}
+                  <FilterRow label="할당량 예산">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        value={quotaBudgetInput}
+                        onChange={(e) =>
+                          setQuotaBudgetInput(e.target.value.replace(/[^0-9]/g, ""))
+                        }
+                        placeholder="제한 없음 (예: 300)"
+                        className="px-3 py-1.5 rounded-lg text-sm outline-none transition-all w-full sm:w-[200px]"
+                        style={{
+                          backgroundColor: "var(--surface)",
+                          border: "1px solid var(--border)",
+                          color: "var(--text-primary)",
+                        }}
+                        onFocus={(e) => (e.target.style.borderColor = "var(--accent)")}
+                        onBlur={(e) => (e.target.style.borderColor = "var(--border)")}
+                      />
+                      <span className="text-xs whitespace-nowrap" style={{ color: "var(--text-secondary)" }}>
+                        units / 검색
+                      </span>
+                    </div>
+                  </FilterRow>
                 </div>
               </motion.div>
             )}
@@ -478,37 +1212,57 @@ export default function Page() {
               ) : (
                 "⚙ 버튼으로 영상유형·날짜·조회수·구독자를 설정하세요"
               )}
+              {saveNotice && <span className="ml-2">· {saveNotice}</span>}
             </p>
-            <motion.button
-              onClick={handleSearch}
-              disabled={search.status === "loading"}
-              whileTap={{ scale: 0.97 }}
-              className="flex items-center gap-2 px-6 py-2.5 rounded-xl text-sm font-semibold transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
-              style={{ backgroundColor: "var(--accent)", color: "#fff" }}
-            >
-              {search.status === "loading" ? (
-                <>
-                  <svg className="spinner w-4 h-4" viewBox="0 0 24 24" fill="none" aria-hidden="true">
-                    <circle cx="12" cy="12" r="10" stroke="rgba(255,255,255,0.3)" strokeWidth="3" />
-                    <path
-                      d="M12 2a10 10 0 0 1 10 10"
-                      stroke="white"
-                      strokeWidth="3"
-                      strokeLinecap="round"
-                    />
-                  </svg>
-                  검색 중...
-                </>
-              ) : (
-                <>
-                  <svg width="16" height="16" viewBox="0 0 16 16" fill="none" aria-hidden="true">
-                    <circle cx="7" cy="7" r="5" stroke="currentColor" strokeWidth="1.5" />
-                    <path d="M11 11L14 14" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" />
-                  </svg>
-                  검색하기
-                </>
-              )}
-            </motion.button>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={handleSaveSearch}
+                title="현재 키워드·필터를 저장해 매일 다시 실행 (로그인 필요)"
+                className="px-3 py-2.5 rounded-xl text-xs font-medium"
+                style={{ color: "var(--text-secondary)", border: "1px solid var(--border)" }}
+              >
+                ☆ 조건 저장
+              </button>
+              <label
+                className="px-3 py-2.5 rounded-xl text-xs font-medium cursor-pointer"
+                title="내보낸 JSON 파일로 결과 복원 (할당량 사용 없음)"
+                style={{ color: "var(--text-secondary)", border: "1px solid var(--border)" }}
+              >
+                결과 불러오기
+                <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+              </label>
+              <motion.button
+                onClick={() => handleSearch()}
+                disabled={search.status === "loading" || progress !== null}
+                whileTap={{ scale: 0.97 }}
+                className="flex items-center gap-2 px-6 py-2.5 rounded-xl text-sm font-semibold transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                style={{ backgroundColor: "var(--accent)", color: "#fff" }}
+              >
+                {search.status === "loading" ? (
+                  <>
+                    <svg className="spinner w-4 h-4" viewBox="0 0 24 24" fill="none" aria-hidden="true">
+                      <circle cx="12" cy="12" r="10" stroke="rgba(255,255,255,0.3)" strokeWidth="3" />
+                      <path
+                        d="M12 2a10 10 0 0 1 10 10"
+                        stroke="white"
+                        strokeWidth="3"
+                        strokeLinecap="round"
+                      />
+                    </svg>
+                    검색 중...
+                  </>
+                ) : (
+                  <>
+                    <svg width="16" height="16" viewBox="0 0 16 16" fill="none" aria-hidden="true">
+                      <circle cx="7" cy="7" r="5" stroke="currentColor" strokeWidth="1.5" />
+                      <path d="M11 11L14 14" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" />
+                    </svg>
+                    검색하기
+                  </>
+                )}
+              </motion.button>
+            </div>
           </div>
         </motion.section>
 
@@ -535,11 +1289,17 @@ export default function Page() {
               <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
                 YouTube 데이터를 불러오는 중입니다…
               </p>
+              {progress && <SearchProgressBar progress={progress} />}
             </motion.div>
           )}
 
+          {/* 요금제 한도 초과 → 업그레이드 안내 */}
+          {search.status === "error" && search.planLimit && (
+            <PlanLimitPrompt key="plan-limit" message={search.error} limit={search.planLimit} />
+          )}
+
           {/* 에러 */}
-          {search.status === "error" && (
+          {search.status === "error" && !search.planLimit && (
             <motion.div
               key="error"
               initial={{ opacity: 0, y: 8 }}
@@ -569,6 +1329,10 @@ export default function Page() {
                 <p className="mt-1 text-sm" style={{ color: "var(--text-secondary)" }}>
                   {search.error}
                 </p>
+                {search.quota && (
+                  <QuotaSummary quota={search.quota} dailyUsed={dailyQuotaUsed} />
+                )}
+                {search.keys && <KeyUsageSummary keys={search.keys} />}
               </div>
             </motion.div>
           )}
@@ -600,6 +1364,14 @@ export default function Page() {
                 <br />
                 키워드나 필터 조건을 변경해 보세요.
               </p>
+              {search.paging?.continuation && (
+                <LoadMoreButton
+                  cost={search.paging.nextPageCost}
+                  loading={loadingMore}
+                  error={moreError}
+                  onClick={handleLoadMore}
+                />
+              )}
             </motion.div>
           )}
 
@@ -622,49 +1394,154 @@ export default function Page() {
                     &apos;{search.keyword}&apos; ·{" "}
                     {search.videoType === "shorts" ? "숏츠" : "롱폼"} ·{" "}
                     <span style={{ color: "var(--accent-light)" }}>{search.total}개</span> 발견
-                    (최대 30개)
+                    {search.paging && search.paging.pagesFetched > 0 && (
+                      <> · 검색 {search.paging.pagesFetched}페이지까지</>
+                    )}
+                    {search.scoringProfile && <> · 점수 기준: {search.scoringProfile.name}</>}
                   </p>
+                  {progress && (
+                    <div className="mt-2">
+                      <SearchProgressBar progress={progress} />
+                    </div>
+                  )}
+                  {search.plan?.restricted.includes("channelAvg") && (
+                    <p className="mt-1.5 text-xs" style={{ color: "var(--text-secondary)" }}>
+                      {PLANS[search.plan.id].name} 요금제는 채널 평균 대비 기여도를 제공하지 않습니다 ·{" "}
+                      <Link href="/pricing" className="underline" style={{ color: "var(--accent-light)" }}>
+                        요금제 보기
+                      </Link>
+                    </p>
+                  )}
+                  {search.imported ? (
+                    <p className="mt-1.5 text-xs" style={{ color: "var(--text-secondary)" }}>
+                      {search.imported.exportedAt
+                        ? `${new Date(search.imported.exportedAt).toLocaleString()}에 내보낸 결과`
+                        : "내보낸 결과"}{" "}
+                      불러옴 · 할당량 0 units
+                    </p>
+                  ) : search.snapshot ? (
+                    <p className="mt-1.5 text-xs" style={{ color: "var(--text-secondary)" }}>
+                      {new Date(search.snapshot.createdAt).toLocaleTimeString()} 검색 결과 재사용 · 할당량 0 units ·{" "}
+                      <button
+                        type="button"
+                        onClick={() => handleSearch(true)}
+                        className="underline"
+                        style={{ color: "var(--accent-light)" }}
+                      >
+                        새로 검색
+                      </button>
+                    </p>
+                  ) : (
+                    search.quota && <QuotaSummary quota={search.quota} dailyUsed={dailyQuotaUsed} />
+                  )}
+                  {search.keys && search.keys.length > 1 && (
+                    <KeyUsageSummary keys={search.keys} />
+                  )}
                 </div>
 
-                {/* 테이블/카드 뷰 전환 */}
-                <div
-                  className="flex rounded-xl p-1 gap-1"
-                  style={{
-                    backgroundColor: "var(--surface)",
-                    border: "1px solid var(--border)",
-                  }}
-                >
-                  <ViewToggleButton
-                    active={viewMode === "card"}
-                    onClick={() => setViewMode("card")}
-                    label="카드"
-                    icon={
-                      <svg width="14" height="14" viewBox="0 0 14 14" fill="none" aria-hidden="true">
-                        <rect x="1" y="1" width="5" height="5" rx="1" stroke="currentColor" strokeWidth="1.5" />
-                        <rect x="8" y="1" width="5" height="5" rx="1" stroke="currentColor" strokeWidth="1.5" />
-                        <rect x="1" y="8" width="5" height="5" rx="1" stroke="currentColor" strokeWidth="1.5" />
-                        <rect x="8" y="8" width="5" height="5" rx="1" stroke="currentColor" strokeWidth="1.5" />
-                      </svg>
-                    }
-                  />
-                  <ViewToggleButton
-                    active={viewMode === "table"}
-                    onClick={() => setViewMode("table")}
-                    label="테이블"
-                    icon={
-                      <svg width="14" height="14" viewBox="0 0 14 14" fill="none" aria-hidden="true">
-                        <rect x="1" y="1" width="12" height="3" rx="1" stroke="currentColor" strokeWidth="1.5" />
-                        <rect x="1" y="6" width="12" height="3" rx="1" stroke="currentColor" strokeWidth="1.5" />
-                        <rect x="1" y="11" width="12" height="2" rx="1" stroke="currentColor" strokeWidth="1.5" />
-                      </svg>
-                    }
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setShowResultFilter((v) => !v)}
+                    aria-expanded={showResultFilter}
+                    className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-medium"
+                    style={{
+                      backgroundColor: showResultFilter ? "var(--surface-2)" : "var(--surface)",
+                      color: resultFilterCount > 0 ? "var(--accent-light)" : "var(--text-secondary)",
+                      border: "1px solid var(--border)",
+                    }}
+                  >
+                    결과 필터{resultFilterCount > 0 && ` ${resultFilterCount}`}
+                  </button>
+                  <ExportMenu
+                    videos={displayedVideos}
+                    keyword={search.keyword}
+                    videoType={search.videoType}
+                    scoringProfile={search.scoringProfile}
+                    sort={sort}
                   />
+
+                  {/* 카드/테이블/인사이트 뷰 전환 */}
+                  <div
+                    className="flex rounded-xl p-1 gap-1"
+                    style={{
+                      backgroundColor: "var(--surface)",
+                      border: "1px solid var(--border)",
+                    }}
+                  >
+                    <ViewToggleButton
+                      active={viewMode === "card"}
+                      onClick={() => setViewMode("card")}
+                      label="카드"
+                      icon={
+                        <svg width="14" height="14" viewBox="0 0 14 14" fill="none" aria-hidden="true">
+                          <rect x="1" y="1" width="5" height="5" rx="1" stroke="currentColor" strokeWidth="1.5" />
+                          <rect x="8" y="1" width="5" height="5" rx="1" stroke="currentColor" strokeWidth="1.5" />
+                          <rect x="1" y="8" width="5" height="5" rx="1" stroke="currentColor" strokeWidth="1.5" />
+                          <rect x="8" y="8" width="5" height="5" rx="1" stroke="currentColor" strokeWidth="1.5" />
+                        </svg>
+                      }
+                    />
+                    <ViewToggleButton
+                      active={viewMode === "table"}
+                      onClick={() => setViewMode("table")}
+                      label="테이블"
+                      icon={
+                        <svg width="14" height="14" viewBox="0 0 14 14" fill="none" aria-hidden="true">
+                          <rect x="1" y="1" width="12" height="3" rx="1" stroke="currentColor" strokeWidth="1.5" />
+                          <rect x="1" y="6" width="12" height="3" rx="1" stroke="currentColor" strokeWidth="1.5" />
+                          <rect x="1" y="11" width="12" height="2" rx="1" stroke="currentColor" strokeWidth="1.5" />
+                        </svg>
+                      }
+                    />
+                    <ViewToggleButton
+                      active={viewMode === "insights"}
+                      onClick={() => setViewMode("insights")}
+                      label="인사이트"
+                      icon={
+                        <svg width="14" height="14" viewBox="0 0 14 14" fill="none" aria-hidden="true">
+                          <rect x="1.5" y="7" width="2.5" height="6" rx="0.5" stroke="currentColor" strokeWidth="1.5" />
+                          <rect x="5.75" y="4" width="2.5" height="9" rx="0.5" stroke="currentColor" strokeWidth="1.5" />
+                          <rect x="10" y="1" width="2.5" height="12" rx="0.5" stroke="currentColor" strokeWidth="1.5" />
+                        </svg>
+                      }
+                    />
+                  </div>
                 </div>
               </div>
 
+              {showResultFilter && (
+                <ResultFilterBar
+                  filter={resultFilter}
+                  onChange={setResultFilter}
+                  facets={resultFacets}
+                  shown={displayedVideos.length}
+                  total={search.videos.length}
+                />
+              )}
+
               {/* 뷰 전환 애니메이션 */}
               <AnimatePresence mode="wait">
-                {viewMode === "card" ? (
+                {displayedVideos.length === 0 ? (
+                  <motion.div
+                    key="filtered-empty"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="flex flex-col items-center gap-2 py-12 text-sm"
+                    style={{ color: "var(--text-secondary)" }}
+                  >
+                    결과 필터 조건에 맞는 영상이 없습니다.
+                    <button
+                      type="button"
+                      onClick={() => setResultFilter(EMPTY_RESULT_FILTER)}
+                      className="underline"
+                      style={{ color: "var(--accent-light)" }}
+                    >
+                      필터 초기화
+                    </button>
+                  </motion.div>
+                ) : viewMode === "card" ? (
                   <motion.div
                     key="card-view"
                     initial={{ opacity: 0, x: -16 }}
@@ -672,7 +1549,22 @@ export default function Page() {
                     exit={{ opacity: 0, x: 16 }}
                     transition={{ duration: 0.25 }}
                   >
-                    <VideoCards videos={search.videos} />
+                    <VideoCards
+                      videos={displayedVideos}
+                      watchedIds={watchedIds}
+                      onToggleWatch={handleToggleWatch}
+                      onOpenComments={setCommentVideo}
+                    />
+                  </motion.div>
+                ) : viewMode === "insights" ? (
+                  <motion.div
+                    key="insights-view"
+                    initial={{ opacity: 0, y: 8 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: 8 }}
+                    transition={{ duration: 0.25 }}
+                  >
+                    <InsightsView videos={displayedVideos} />
                   </motion.div>
                 ) : (
                   <motion.div
@@ -682,15 +1574,43 @@ export default function Page() {
                     exit={{ opacity: 0, x: -16 }}
                     transition={{ duration: 0.25 }}
                   >
-                    <VideoTable videos={search.videos} />
+                    <VideoTable
+                      videos={displayedVideos}
+                      sort={sort}
+                      onSortChange={handleSortChange}
+                      watchedIds={watchedIds}
+                      onToggleWatch={handleToggleWatch}
+                      onOpenComments={setCommentVideo}
+                    />
                   </motion.div>
                 )}
               </AnimatePresence>
+
+              {search.paging?.continuation && (
+                <LoadMoreButton
+                  cost={search.paging.nextPageCost}
+                  loading={loadingMore}
+                  error={moreError}
+                  onClick={handleLoadMore}
+                />
+              )}
             </motion.section>
           )}
         </AnimatePresence>
       </main>
 
+      {/* ── 댓글 분석 드로어 ── */}
+      <AnimatePresence>
+        {commentVideo && (
+          <CommentDrawer
+            key={commentVideo.id}
+            video={commentVideo}
+            apiKey={apiKey}
+            onClose={() => setCommentVideo(null)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* ── 푸터 ── */}
       <footer
         className="mt-16 py-6 text-center text-xs"
@@ -750,6 +1670,220 @@ function OptionButton({
   );
 }
 
+/** 요금제 일일 한도 초과 — 초기화 시각과 요금제 페이지 안내 */
+function PlanLimitPrompt({ message, limit }: { message: string | null; limit: PlanLimitInfo }) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0 }}
+      className="rounded-2xl p-6 flex flex-col sm:flex-row sm:items-center gap-4"
+      style={{
+        backgroundColor: "rgba(99,102,241,0.08)",
+        border: "1px solid rgba(99,102,241,0.35)",
+      }}
+    >
+      <div className="flex-1">
+        <p className="font-semibold text-sm" style={{ color: "var(--accent-light)" }}>
+          오늘의 분석 한도를 모두 사용했습니다
+        </p>
+        <p className="mt-1 text-sm" style={{ color: "var(--text-secondary)" }}>
+          {message}
+        </p>
+        <p className="mt-1 text-xs" style={{ color: "var(--text-secondary)" }}>
+          {new Date(limit.resetAt).toLocaleString()}에 초기화 · 현재 {PLANS[limit.plan].name} 요금제 (하루{" "}
+          {limit.limit.toLocaleString()}회)
+        </p>
+      </div>
+      <Link
+        href={limit.upgradeUrl}
+        className="px-4 py-2 rounded-xl text-sm font-semibold text-center"
+        style={{ backgroundColor: "var(--accent)", color: "white" }}
+      >
+        요금제 업그레이드
+      </Link>
+    </motion.div>
+  );
+}
+
+/** 검색 1회의 할당량 사용 내역 + 오늘 누적 */
+function QuotaSummary({
+  quota,
+  dailyUsed,
+}: {
+  quota: QuotaUsage;
+  dailyUsed: number | null;
+}) {
+  const breakdown = (Object.keys(quota.byEndpoint) as Array<keyof QuotaUsage["byEndpoint"]>)
+    .filter((ep) => quota.byEndpoint[ep].calls > 0)
+    .map((ep) => `${ENDPOINT_LABELS[ep]} ${quota.byEndpoint[ep].units}`)
+    .join(" · ");
+
+  return (
+    <div className="mt-1.5 flex flex-col gap-0.5 text-xs" style={{ color: "var(--text-secondary)" }}>
+      <p>
+        할당량{" "}
+        <span style={{ color: "var(--accent-light)" }}>
+          {quota.used.toLocaleString()} units
+        </span>
+        {quota.budget !== null && ` / 예산 ${quota.budget.toLocaleString()}`}
+        {breakdown && ` (${breakdown})`}
+        {quota.cacheHits.total > 0 && ` · 캐시 적중 ${quota.cacheHits.total}건`}
+        {dailyUsed !== null &&
+          ` · 오늘 누적 ${dailyUsed.toLocaleString()} / ${DAILY_QUOTA_LIMIT.toLocaleString()}`}
+      </p>
+      {quota.skipped.length > 0 && (
+        <p style={{ color: "#fbbf24" }}>
+          예산 부족으로 생략:{" "}
+          {quota.skipped.map(skippedStepLabel).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/** 서버 보관 키 등록 상태 + 등록/삭제 버튼 */
+function KeyVaultControls({
+  vault,
+  canRegister,
+  error,
+  onRegister,
+  onDelete,
+}: {
+  vault: VaultStatus;
+  canRegister: boolean;
+  error: string | null;
+  onRegister: () => void;
+  onDelete: () => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs" style={{ color: "var(--text-secondary)" }}>
+      {vault.registered ? (
+        <span>
+          서버 보관 중:{" "}
+          <span style={{ color: "var(--accent-light)" }}>
+            {vault.keys.map((k) => `${k.label} (${k.fingerprint})`).join(", ")}
+          </span>
+        </span>
+      ) : (
+        <span>키를 서버에 암호화 저장하면 브라우저에는 키가 남지 않습니다.</span>
+      )}
+      {canRegister && (
+        <button
+          type="button"
+          onClick={onRegister}
+          className="px-2 py-0.5 rounded-md"
+          style={{ border: "1px solid var(--border)", color: "var(--accent-light)" }}
+        >
+          {vault.registered ? "입력한 키로 교체" : "서버에 저장"}
+        </button>
+      )}
+      {vault.registered && (
+        <button
+          type="button"
+          onClick={onDelete}
+          className="px-2 py-0.5 rounded-md"
+          style={{ border: "1px solid var(--border)" }}
+        >
+          삭제
+        </button>
+      )}
+      {error && <span style={{ color: "#fca5a5" }}>{error}</span>}
+    </div>
+  );
+}
+
+/** 키 풀 사용 내역 — 라벨과 지문만 표시 */
+function KeyUsageSummary({ keys }: { keys: KeyUsageReport[] }) {
+  return (
+    <p className="mt-0.5 text-xs" style={{ color: "var(--text-secondary)" }}>
+      API Key:{" "}
+      {keys.map((k, i) => (
+        <span key={k.label}>
+          {i > 0 && " · "}
+          <span
+            title={
+              k.exhaustedUntil
+                ? `리셋: ${new Date(k.exhaustedUntil).toLocaleString()}`
+                : `지문 ${k.fingerprint}`
+            }
+            style={{ color: k.status === "active" ? "var(--accent-light)" : "#fbbf24" }}
+          >
+            {k.label} {KEY_STATUS_LABELS[k.status]}
+            {k.calls > 0 && ` (${k.calls}회)`}
+          </span>
+        </span>
+      ))}
+    </p>
+  );
+}
+
+/** 스트리밍 진행률 — 현재 단계와 완료 비율 */
+function SearchProgressBar({ progress }: { progress: SearchProgressEvent }) {
+  const ratio = progress.total > 0 ? Math.min(progress.done / progress.total, 1) : 1;
+  return (
+    <div className="flex items-center gap-2 text-xs" style={{ color: "var(--text-secondary)" }}>
+      <div
+        className="w-32 h-1.5 rounded-full overflow-hidden"
+        style={{ backgroundColor: "var(--surface-2)" }}
+        role="progressbar"
+        aria-valuenow={progress.done}
+        aria-valuemax={progress.total}
+      >
+        <motion.div
+          className="h-full rounded-full"
+          style={{ backgroundColor: "var(--accent)" }}
+          animate={{ width: `${ratio * 100}%` }}
+          transition={{ duration: 0.3 }}
+        />
+      </div>
+      <span>
+        {PROGRESS_STAGE_LABELS[progress.stage]}
+        {progress.total > 1 && ` ${progress.done}/${progress.total}`}
+      </span>
+    </div>
+  );
+}
+
+/** 다음 검색 페이지 조회 버튼 — 실행 전에 추가 비용 표시 */
+function LoadMoreButton({
+  cost,
+  loading,
+  error,
+  onClick,
+}: {
+  cost: number;
+  loading: boolean;
+  error: string | null;
+  onClick: () => void;
+}) {
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <button
+        type="button"
+        onClick={onClick}
+        disabled={loading}
+        className="px-5 py-2 rounded-xl text-sm font-medium transition-colors disabled:opacity-60"
+        style={{
+          backgroundColor: "var(--surface)",
+          border: "1px solid var(--border)",
+          color: "var(--text-primary)",
+        }}
+      >
+        {loading ? "불러오는 중..." : "결과 더 가져오기"}
+        <span className="ml-2 text-xs" style={{ color: "var(--accent-light)" }}>
+          +{cost.toLocaleString()} units
+        </span>
+      </button>
+      {error && (
+        <p className="text-xs" style={{ color: "#fca5a5" }}>
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
 /** 카드/테이블 뷰 전환 버튼 */
 function ViewToggleButton({
   active,
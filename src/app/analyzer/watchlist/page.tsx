@@ -0,0 +1,258 @@
+"use client";
+
+/**
+ * page.tsx
+ * 워치리스트 페이지 - 고정한 영상의 최신 통계·24시간/7일 증가량, 영상별 조회수 성장 곡선
+ * 책임: 워치리스트 API 호출 및 목록/차트 렌더링 (스냅샷 수집은 /api/cron/watchlist)
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import UserMenu from "@/components/UserMenu";
+import GrowthChart from "@/components/GrowthChart";
+import { formatKoreanNumber } from "@/lib/youtube/analysis";
+import type { StatDeltas, VideoStatSnapshot, WatchlistItem } from "@/lib/watchlist/watchlist";
+
+interface Opened {
+  item: WatchlistItem;
+  snapshots: VideoStatSnapshot[];
+}
+
+/** 증가량 표시 (+1.2만 / 기록 부족 시 —) */
+function formatDelta(delta: StatDeltas["24h"]): string {
+  if (!delta) return "—";
+  return `${delta.views >= 0 ? "+" : ""}${formatKoreanNumber(delta.views)}`;
+}
+
+// ─── 메인 컴포넌트 ─────────────────────────────────────────────────────────────
+
+export default function WatchlistPage() {
+  const [items, setItems] = useState<WatchlistItem[] | null>(null);
+  const [opened, setOpened] = useState<Opened | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadList = useCallback(async () => {
+    try {
+      const res = await fetch("/api/watchlist");
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setItems(data.items);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "워치리스트를 불러오지 못했습니다.");
+      setItems([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/watchlist")
+      .then((res) => res.json())
+      .then((data) => {
+        if (!cancelled) setItems(data.items ?? []);
+      })
+      .catch(() => {
+        if (!cancelled) setItems([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleOpen = async (videoId: string) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/watchlist/${encodeURIComponent(videoId)}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setOpened(data);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "스냅샷을 불러오지 못했습니다.");
+    }
+  };
+
+  const handleRemove = async (videoId: string) => {
+    setError(null);
+    await fetch(`/api/watchlist/${encodeURIComponent(videoId)}`, { method: "DELETE" }).catch(() => {});
+    if (opened?.item.videoId === videoId) setOpened(null);
+    await loadList();
+  };
+
+  return (
+    <div className="min-h-screen" style={{ backgroundColor: "var(--background)" }}>
+      {/* ── 헤더 ── */}
+      <header
+        className="sticky top-0 z-20 px-4 sm:px-6 py-3 sm:py-4 flex items-center gap-3"
+        style={{
+          backgroundColor: "rgba(15,17,23,0.85)",
+          backdropFilter: "blur(12px)",
+          borderBottom: "1px solid var(--border)",
+        }}
+      >
+        <Link href="/analyzer" className="flex items-center gap-2">
+          <svg width="28" height="28" viewBox="0 0 28 28" fill="none" aria-hidden="true">
+            <rect width="28" height="28" rx="8" fill="#6366f1" />
+            <path d="M11 9.5L20 14L11 18.5V9.5Z" fill="white" />
+          </svg>
+          <span className="font-bold text-lg gradient-text">찌동튜브</span>
+        </Link>
+        <Link
+          href="/analyzer"
+          className="ml-auto text-xs px-3 py-1.5 rounded-full font-medium"
+          style={{
+            backgroundColor: "var(--surface-2)",
+            color: "var(--text-secondary)",
+            border: "1px solid var(--border)",
+          }}
+        >
+          ← 검색으로
+        </Link>
+        <UserMenu />
+      </header>
+
+      <main className="max-w-7xl mx-auto px-3 sm:px-6 py-6 sm:py-10 flex flex-col gap-5 sm:gap-8">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold" style={{ color: "var(--text-primary)" }}>
+            워치리스트
+          </h1>
+          <p className="mt-1 text-sm" style={{ color: "var(--text-secondary)" }}>
+            검색 결과에서 ☆ 추적을 누른 영상의 조회수를 주기적으로 기록합니다. 증가량은 기록이 해당 기간만큼 쌓인 뒤부터 표시됩니다.
+          </p>
+        </div>
+
+        {error && (
+          <div
+            className="rounded-xl px-4 py-3 text-sm"
+            style={{
+              backgroundColor: "rgba(239,68,68,0.08)",
+              border: "1px solid rgba(239,68,68,0.3)",
+              color: "#fca5a5",
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        {items === null ? (
+          <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+            불러오는 중...
+          </p>
+        ) : items.length === 0 ? (
+          <p className="text-sm py-10 text-center" style={{ color: "var(--text-secondary)" }}>
+            아직 고정한 영상이 없습니다.
+          </p>
+        ) : (
+          <ul
+            className="rounded-2xl overflow-hidden"
+            style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+          >
+            {items.map((item) => (
+              <WatchRow
+                key={item.videoId}
+                item={item}
+                active={opened?.item.videoId === item.videoId}
+                onOpen={() => handleOpen(item.videoId)}
+                onRemove={() => handleRemove(item.videoId)}
+              />
+            ))}
+          </ul>
+        )}
+
+        {opened && (
+          <section
+            className="rounded-2xl p-4 sm:p-6 flex flex-col gap-4"
+            style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+          >
+            <div>
+              <h2 className="text-lg font-semibold" style={{ color: "var(--text-primary)" }}>
+                {opened.item.title}
+              </h2>
+              <p className="mt-1 text-xs" style={{ color: "var(--text-secondary)" }}>
+                스냅샷 {opened.snapshots.length}개 · 24시간 {formatDelta(opened.item.deltas["24h"])} · 7일{" "}
+                {formatDelta(opened.item.deltas["7d"])}
+              </p>
+            </div>
+            {opened.snapshots.length >= 2 ? (
+              <GrowthChart
+                points={opened.snapshots.map((s) => ({ at: s.at, value: s.viewCount }))}
+                label="조회수"
+              />
+            ) : (
+              <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+                다음 수집 이후 성장 곡선이 표시됩니다.
+              </p>
+            )}
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// ─── 서브 컴포넌트 ────────────────────────────────────────────────────────────
+
+function WatchRow({
+  item,
+  active,
+  onOpen,
+  onRemove,
+}: {
+  item: WatchlistItem;
+  active: boolean;
+  onOpen: () => void;
+  onRemove: () => void;
+}) {
+  const buttonStyle = { border: "1px solid var(--border)", color: "var(--text-secondary)" };
+
+  return (
+    <li
+      className="px-4 py-3 flex flex-col sm:flex-row sm:items-center gap-3"
+      style={{
+        borderBottom: "1px solid var(--border)",
+        backgroundColor: active ? "var(--surface-2)" : undefined,
+      }}
+    >
+      <a
+        href={`https://www.youtube.com/watch?v=${item.videoId}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="relative w-24 h-14 rounded-md overflow-hidden flex-shrink-0"
+      >
+        <Image src={item.thumbnail} alt={item.title} fill sizes="96px" className="object-cover" />
+      </a>
+      <div className="flex-1 min-w-0">
+        <p className="font-medium truncate" style={{ color: "var(--text-primary)" }}>
+          {item.title}
+        </p>
+        <p className="text-xs mt-0.5" style={{ color: "var(--text-secondary)" }}>
+          {item.channelTitle} · 조회수 {item.latest ? formatKoreanNumber(item.latest.viewCount) : "—"}
+          {item.latest?.likeCount != null && <> · 좋아요 {formatKoreanNumber(item.latest.likeCount)}</>}
+          {item.latest?.commentCount != null && <> · 댓글 {formatKoreanNumber(item.latest.commentCount)}</>}
+        </p>
+      </div>
+      <div className="flex gap-4 text-xs whitespace-nowrap">
+        <DeltaStat label="24시간" delta={item.deltas["24h"]} />
+        <DeltaStat label="7일" delta={item.deltas["7d"]} />
+      </div>
+      <div className="flex gap-2 text-xs">
+        <button type="button" onClick={onOpen} className="px-2.5 py-1 rounded-lg" style={{ ...buttonStyle, color: "var(--accent-light)" }}>
+          성장 곡선
+        </button>
+        <button type="button" onClick={onRemove} className="px-2.5 py-1 rounded-lg" style={buttonStyle}>
+          해제
+        </button>
+      </div>
+    </li>
+  );
+}
+
+function DeltaStat({ label, delta }: { label: string; delta: StatDeltas["24h"] }) {
+  return (
+    <div>
+      <p style={{ color: "var(--text-secondary)" }}>{label}</p>
+      <p className="font-semibold" style={{ color: delta ? "#4ade80" : "var(--text-secondary)" }}>
+        {formatDelta(delta)}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest, type NextResponse } from "next/server";
+import { GET as callback } from "./route";
+import { GET as login } from "../login/route";
+import { GET as me } from "../../me/route";
+import { GET as mockGET, POST as mockPOST } from "../../mock/[provider]/[step]/route";
+import { SESSION_COOKIE } from "@/lib/auth/session";
+import { OAUTH_STATE_COOKIE } from "@/lib/auth/oauthState";
+
+const ORIGIN = "http://localhost:3000";
+let dataDir: string;
+
+/** 콜백 라우트의 서버 간 호출(token, userinfo)을 모의 제공자 라우트로 연결 */
+async function fakeFetch(input: string | URL, init?: RequestInit): Promise<Response> {
+  const url = new URL(input.toString());
+  const [, , , , provider, step] = url.pathname.split("/");
+  const req = new NextRequest(url, init as ConstructorParameters<typeof NextRequest>[1]);
+  const params = { params: Promise.resolve({ provider, step }) };
+  return (init?.method === "POST" ? mockPOST(req, params) : mockGET(req, params));
+}
+
+function cookieHeader(res: NextResponse, name: string): string {
+  return `${name}=${res.cookies.get(name)?.value ?? ""}`;
+}
+
+/** 로그인 → 모의 제공자 authorize → 콜백까지 진행하고 콜백 응답 반환 */
+async function signIn(provider: "google" | "kakao", loginHint: string, next = "/analyzer") {
+  const loginRes = await login(
+    new NextRequest(`${ORIGIN}/api/auth/${provider}/login?next=${encodeURIComponent(next)}`),
+    { params: Promise.resolve({ provider }) }
+  );
+  const authorizeUrl = new URL(loginRes.headers.get("location")!);
+  authorizeUrl.searchParams.set("login_hint", loginHint);
+
+  const authorizeRes = await fakeFetch(authorizeUrl);
+  const callbackUrl = authorizeRes.headers.get("location")!;
+
+  return callback(
+    new NextRequest(callbackUrl, { headers: { cookie: cookieHeader(loginRes, OAUTH_STATE_COOKIE) } }),
+    { params: Promise.resolve({ provider }) }
+  );
+}
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "yt-auth-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+  vi.stubEnv("AUTH_MOCK_OAUTH", "1");
+  vi.stubEnv("AUTH_URL", ORIGIN);
+  vi.stubGlobal("fetch", vi.fn(fakeFetch));
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("OAuth 로그인 흐름 (모의 제공자)", () => {
+  it.each([
+    ["google", "alice"],
+    ["kakao", "bob"],
+  ] as const)("%s 로그인 → 세션 쿠키 발급 → /api/auth/me", async (provider, hint) => {
+    const res = await signIn(provider, hint, "/analyzer/channel/UC1");
+
+    expect(res.headers.get("location")).toBe(`${ORIGIN}/analyzer/channel/UC1`);
+    expect(res.cookies.get(SESSION_COOKIE)?.httpOnly).toBe(true);
+
+    const meRes = await me(
+      new NextRequest(`${ORIGIN}/api/auth/me`, { headers: { cookie: cookieHeader(res, SESSION_COOKIE) } })
+    );
+    const { user } = await meRes.json();
+    expect(user).toMatchObject({
+      id: `${provider}:mock-${hint}`,
+      provider,
+      name: hint,
+      email: `${hint}@example.com`,
+    });
+  });
+
+  it("같은 계정으로 다시 로그인하면 같은 사용자", async () => {
+    await signIn("google", "alice");
+    await signIn("google", "alice");
+    const users = JSON.parse(await fs.readFile(path.join(dataDir, "users.json"), "utf8"));
+    expect(Object.keys(users)).toEqual(["google:mock-alice"]);
+  });
+
+  it("state 쿠키가 없거나 일치하지 않으면 로그인 거부", async () => {
+    const res = await callback(
+      new NextRequest(`${ORIGIN}/api/auth/google/callback?code=x&state=forged`),
+      { params: Promise.resolve({ provider: "google" }) }
+    );
+    expect(res.headers.get("location")).toBe(`${ORIGIN}/login?error=INVALID_STATE`);
+    expect(res.cookies.get(SESSION_COOKIE)).toBeUndefined();
+  });
+
+  it.each(["constructor", "toString", "__proto__"])("프로토타입 키(%s)는 제공자로 인정하지 않음", async (provider) => {
+    const res = await login(new NextRequest(`${ORIGIN}/api/auth/${provider}/login`), {
+      params: Promise.resolve({ provider }),
+    });
+    expect(res.status).toBe(404);
+    expect((await res.json()).code).toBe("UNKNOWN_PROVIDER");
+  });
+
+  it("실제 제공자 설정이 없으면 로그인 페이지로 안내", async () => {
+    vi.stubEnv("AUTH_MOCK_OAUTH", "");
+    vi.stubEnv("GOOGLE_CLIENT_ID", "");
+    const res = await login(new NextRequest(`${ORIGIN}/api/auth/google/login`), {
+      params: Promise.resolve({ provider: "google" }),
+    });
+    expect(res.headers.get("location")).toBe(`${ORIGIN}/login?error=PROVIDER_NOT_CONFIGURED`);
+  });
+
+  it("모의 제공자는 AUTH_MOCK_OAUTH 미설정 시 404", async () => {
+    vi.stubEnv("AUTH_MOCK_OAUTH", "");
+    const res = await fakeFetch(`${ORIGIN}/api/auth/mock/google/userinfo`);
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * app/api/auth/[provider]/callback/route.ts
+ * 소셜 로그인 콜백: state 검증 → 인가 코드 교환 → 사용자 저장 → 세션 쿠키 발급
+ *
+ * 실패 시 /login?error=<코드>로 리다이렉트 (사용자가 다시 시도할 수 있도록)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError } from "@/lib/auth/errors";
+import { fetchOAuthProfile, isAuthProvider } from "@/lib/auth/providers";
+import { clearOAuthState, consumeOAuthState } from "@/lib/auth/oauthState";
+import { safeRedirectUrl, setSessionCookie } from "@/lib/auth/session";
+import { upsertUser } from "@/lib/auth/users";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params;
+  const origin = process.env.AUTH_URL ?? req.nextUrl.origin;
+
+  const fail = (code: string) => {
+    const res = NextResponse.redirect(new URL(`/login?error=${code}`, origin));
+    clearOAuthState(res);
+    return res;
+  };
+
+  if (!isAuthProvider(provider)) return fail("UNKNOWN_PROVIDER");
+
+  const next = consumeOAuthState(req, provider);
+  if (!next) return fail("INVALID_STATE");
+
+  const code = req.nextUrl.searchParams.get("code");
+  if (!code) return fail("OAUTH_FAILED");
+
+  try {
+    const profile = await fetchOAuthProfile(provider, {
+      origin,
+      redirectUri: `${origin}/api/auth/${provider}/callback`,
+      code,
+    });
+    const user = await upsertUser(profile);
+    console.log(`[Auth] 로그인 provider=${provider} user=${user.id}`);
+
+    const res = NextResponse.redirect(safeRedirectUrl(next, origin));
+    clearOAuthState(res);
+    setSessionCookie(res, user.id);
+    return res;
+  } catch (err) {
+    if (err instanceof AuthError) return fail(err.code);
+    console.error("[Auth] Unexpected error:", err);
+    return fail("OAUTH_FAILED");
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * app/api/auth/[provider]/login/route.ts
+ * 소셜 로그인 시작: state 쿠키 발급 후 제공자 로그인 화면으로 리다이렉트
+ *
+ * 쿼리: next (로그인 후 돌아갈 경로, 기본 /analyzer)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError } from "@/lib/auth/errors";
+import { buildAuthorizeUrl, isAuthProvider } from "@/lib/auth/providers";
+import { createOAuthState, setOAuthStateCookie } from "@/lib/auth/oauthState";
+import { safeNextPath } from "@/lib/auth/session";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params;
+  if (!isAuthProvider(provider)) {
+    return NextResponse.json(
+      { error: "지원하지 않는 로그인 방식입니다.", code: "UNKNOWN_PROVIDER" },
+      { status: 404 }
+    );
+  }
+
+  const origin = process.env.AUTH_URL ?? req.nextUrl.origin;
+  const next = safeNextPath(req.nextUrl.searchParams.get("next"));
+
+  try {
+    const { state, cookie } = createOAuthState(provider, next);
+    const res = NextResponse.redirect(
+      buildAuthorizeUrl(provider, {
+        origin,
+        redirectUri: `${origin}/api/auth/${provider}/callback`,
+        state,
+      })
+    );
+    setOAuthStateCookie(res, cookie);
+    return res;
+  } catch (err) {
+    if (err instanceof AuthError) {
+      return NextResponse.redirect(new URL(`/login?error=${err.code}`, origin));
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * app/api/auth/logout/route.ts
+ * 로그아웃: 세션 쿠키 삭제
+ */
+
+import { NextResponse } from "next/server";
+import { clearSessionCookie } from "@/lib/auth/session";
+
+export async function POST() {
+  const res = NextResponse.json({ ok: true });
+  clearSessionCookie(res);
+  return res;
+}
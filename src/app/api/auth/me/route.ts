@@ -0,0 +1,18 @@
+/**
+ * app/api/auth/me/route.ts
+ * 현재 로그인 사용자 조회
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser, toPublicUser } from "@/lib/auth/users";
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) {
+    return NextResponse.json(
+      { error: "로그인이 필요합니다.", code: "UNAUTHORIZED" },
+      { status: 401 }
+    );
+  }
+  return NextResponse.json({ user: toPublicUser(user) });
+}
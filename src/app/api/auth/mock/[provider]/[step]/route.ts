@@ -0,0 +1,44 @@
+/**
+ * app/api/auth/mock/[provider]/[step]/route.ts
+ * 로컬 모의 OAuth 제공자 (AUTH_MOCK_OAUTH=1일 때만 응답, 그 외 404)
+ *
+ * - GET  authorize : 즉시 redirect_uri로 인가 코드 전달
+ * - POST token     : 인가 코드 → 액세스 토큰
+ * - GET  userinfo  : 제공자 형식 사용자 정보
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthProvider, isMockOAuthEnabled } from "@/lib/auth/providers";
+import { mockAuthorizeRedirect, mockExchangeCode, mockUserInfo } from "@/lib/auth/mockProvider";
+
+type Params = { params: Promise<{ provider: string; step: string }> };
+
+const notFound = () => NextResponse.json({ error: "not_found" }, { status: 404 });
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const { provider, step } = await params;
+  if (!isMockOAuthEnabled() || !isAuthProvider(provider)) return notFound();
+
+  if (step === "authorize") {
+    const location = mockAuthorizeRedirect(provider, req.nextUrl.searchParams);
+    return location
+      ? NextResponse.redirect(location)
+      : NextResponse.json({ error: "invalid_request" }, { status: 400 });
+  }
+  if (step === "userinfo") {
+    const info = mockUserInfo(provider, req.headers.get("authorization"));
+    return info ? NextResponse.json(info) : NextResponse.json({ error: "invalid_token" }, { status: 401 });
+  }
+  return notFound();
+}
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const { provider, step } = await params;
+  if (!isMockOAuthEnabled() || !isAuthProvider(provider) || step !== "token") return notFound();
+
+  const form = new URLSearchParams(await req.text());
+  const token = mockExchangeCode(provider, form.get("code"));
+  return token
+    ? NextResponse.json({ access_token: token, token_type: "bearer" })
+    : NextResponse.json({ error: "invalid_grant" }, { status: 400 });
+}
@@ -0,0 +1,32 @@
+/**
+ * app/api/competitors/[channelId]/route.ts
+ * 팔로우한 채널의 스냅샷·최근 업로드 전체 조회 (구독자 추이용) / 팔로우 해제
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/users";
+import { getCompetitor, unfollowChannel } from "@/lib/competitors/competitors";
+
+type Params = { params: Promise<{ channelId: string }> };
+
+const unauthorized = () =>
+  NextResponse.json({ error: "로그인이 필요합니다.", code: "UNAUTHORIZED" }, { status: 401 });
+
+const notFound = () =>
+  NextResponse.json({ error: "팔로우하지 않은 채널입니다.", code: "NOT_FOUND" }, { status: 404 });
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  const competitor = await getCompetitor(user.id, (await params).channelId);
+  return competitor ? NextResponse.json(competitor) : notFound();
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  const removed = await unfollowChannel(user.id, (await params).channelId);
+  return removed ? NextResponse.json({ ok: true }) : notFound();
+}
@@ -0,0 +1,111 @@
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { GET, POST } from "./route";
+import { upsertUser } from "@/lib/auth/users";
+import { SESSION_COOKIE, signToken } from "@/lib/auth/session";
+import { getCompetitor } from "@/lib/competitors/competitors";
+import { resetExhaustedKeys } from "@/lib/youtube/keyPool";
+
+let dataDir: string;
+let cookie: string;
+let userId: string;
+
+function request(method: "GET" | "POST", body?: unknown) {
+  return new NextRequest("http://localhost/api/competitors", {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    headers: { cookie },
+  });
+}
+
+/** channels(snippet 포함) / playlistItems / videos 가짜 응답 (UCmissing은 없는 채널) */
+const fetchMock = vi.fn(async (input: string | URL) => {
+  const url = new URL(input.toString());
+  const endpoint = url.pathname.split("/").at(-1);
+  const ids = (url.searchParams.get("id")?.split(",") ?? []).filter((id) => id !== "UCmissing");
+  if (endpoint === "channels") {
+    return Response.json({
+      items: ids.map((id) => ({
+        id,
+        snippet: { title: `서버 채널 ${id}`, thumbnails: { medium: { url: `https://yt3.ggpht.com/${id}` } } },
+        contentDetails: { relatedPlaylists: { uploads: `UU${id.slice(2)}` } },
+        statistics: { subscriberCount: "1500", videoCount: "12", viewCount: "90000" },
+      })),
+    });
+  }
+  if (endpoint === "playlistItems") {
+    return Response.json({
+      items: ["v2", "v1"].map((videoId) => ({
+        snippet: { resourceId: { videoId }, title: `영상 ${videoId}`, publishedAt: "2026-03-10T00:00:00Z" },
+      })),
+    });
+  }
+  return Response.json({
+    items: ids.map((id) => ({ id, contentDetails: { duration: "PT10M" }, statistics: { viewCount: "3000" } })),
+  });
+});
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "yt-competitors-route-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+  fetchMock.mockClear();
+  vi.stubGlobal("fetch", fetchMock);
+  const user = await upsertUser({
+    provider: "google",
+    providerUserId: "1",
+    name: "테스터",
+    email: null,
+    avatarUrl: null,
+  });
+  userId = user.id;
+  cookie = `${SESSION_COOKIE}=${signToken({ uid: user.id, exp: Date.now() + 60_000 })}`;
+});
+
+afterEach(async () => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  resetExhaustedKeys();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("POST /api/competitors", () => {
+  it("클라이언트가 보낸 리포트는 무시하고 서버 조회 값으로 추적 시작", async () => {
+    const res = await POST(
+      request("POST", {
+        channelId: "UCaaa",
+        apiKeys: ["K"],
+        report: { channel: { id: "UCaaa", title: "조작", subscriberCount: 99_999_999 }, videos: [] },
+      })
+    );
+    expect(res.status).toBe(201);
+    // channels 1 + playlistItems 1 + videos 1
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    const { channels } = await (await GET(request("GET"))).json();
+    expect(channels[0]).toMatchObject({ title: "서버 채널 UCaaa", latest: { subscriberCount: 1_500 } });
+    const detail = await getCompetitor(userId, "UCaaa");
+    expect(detail?.uploads.map((u) => [u.videoId, u.viewCount])).toEqual([
+      ["v2", 3_000],
+      ["v1", 3_000],
+    ]);
+  });
+
+  it("이미 팔로우한 채널은 다시 조회하지 않음", async () => {
+    await POST(request("POST", { channelId: "UCaaa", apiKeys: ["K"] }));
+    fetchMock.mockClear();
+    expect((await POST(request("POST", { channelId: "UCaaa" }))).status).toBe(201);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["채널 ID 형식 오류", { channelId: "abc", apiKeys: ["K"] }, 400],
+    ["API Key 누락", { channelId: "UCaaa" }, 400],
+    ["존재하지 않는 채널", { channelId: "UCmissing", apiKeys: ["K"] }, 404],
+  ])("%s → %i", async (_label, body, status) => {
+    expect((await POST(request("POST", body))).status).toBe(status);
+    expect((await (await GET(request("GET"))).json()).channels).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * app/api/competitors/route.ts
+ * 경쟁 채널 대시보드 조회 / 채널 팔로우
+ *
+ * - GET : 팔로우한 채널 + 구독자 증가량·업로드 주기·최근 업로드 평균 조회수
+ * - POST: { channelId, apiKey(s) } 팔로우 — 서버에서 채널 통계·최근 업로드(3 units)를 조회해 첫 스냅샷·업로드 목록으로 기록
+ *         (추적 데이터는 사용자 간 공유되므로 클라이언트가 보낸 값은 받지 않음)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/users";
+import { YouTubeAPIError, YOUTUBE_ERROR_STATUS } from "@/lib/youtube/client";
+import { QuotaTracker } from "@/lib/youtube/quota";
+import { buildKeyPool, collectRequestKeys } from "@/lib/youtube/keyPool";
+import { resolveRequestVaultKeys } from "@/lib/youtube/keyVault";
+import {
+  MAX_FOLLOWED_CHANNELS,
+  fetchChannelTrackSeed,
+  followChannel,
+  followStatus,
+  listCompetitors,
+} from "@/lib/competitors/competitors";
+
+interface FollowRequestBody {
+  channelId?: unknown;
+  apiKey?: string;
+  apiKeys?: string[];
+}
+
+const unauthorized = () =>
+  NextResponse.json({ error: "로그인이 필요합니다.", code: "UNAUTHORIZED" }, { status: 401 });
+
+const limitExceeded = () =>
+  NextResponse.json(
+    {
+      error: `경쟁 채널은 최대 ${MAX_FOLLOWED_CHANNELS}개까지 팔로우할 수 있습니다.`,
+      code: "COMPETITOR_LIMIT",
+    },
+    { status: 409 }
+  );
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+  return NextResponse.json({ channels: await listCompetitors(user.id) });
+}
+
+export async function POST(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  let body: FollowRequestBody;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "요청 형식이 올바르지 않습니다." }, { status: 400 });
+  }
+  const { channelId } = body;
+  if (typeof channelId !== "string" || !/^UC[\w-]+$/.test(channelId)) {
+    return NextResponse.json({ error: "올바른 채널 ID가 아닙니다." }, { status: 400 });
+  }
+
+  // 이미 팔로우했거나 개수 초과면 조회 비용을 쓰지 않음
+  const status = await followStatus(user.id, channelId);
+  if (status.followed) return NextResponse.json({ channel: status.followed }, { status: 201 });
+  if (status.count >= MAX_FOLLOWED_CHANNELS) return limitExceeded();
+
+  const keyPool = buildKeyPool([
+    ...collectRequestKeys(body),
+    ...(await resolveRequestVaultKeys(req)),
+  ]);
+  if (keyPool.size === 0) {
+    return NextResponse.json({ error: "API Key를 입력해 주세요." }, { status: 400 });
+  }
+
+  try {
+    const seed = await fetchChannelTrackSeed(channelId, { keyPool, quota: new QuotaTracker(null) });
+    if (!seed) {
+      return NextResponse.json({ error: "채널을 찾을 수 없습니다.", code: "NOT_FOUND" }, { status: 404 });
+    }
+
+    const channel = await followChannel(user.id, seed);
+    if (!channel) return limitExceeded();
+    return NextResponse.json({ channel }, { status: 201 });
+  } catch (err) {
+    if (err instanceof YouTubeAPIError) {
+      return NextResponse.json(
+        { error: err.message, code: err.code, keys: keyPool.report() },
+        { status: YOUTUBE_ERROR_STATUS[err.code] ?? 500 }
+      );
+    }
+    console.error("[Competitors] Unexpected error:", err);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다. 잠시 후 다시 시도해 주세요." },
+      { status: 500 }
+    );
+  }
+}
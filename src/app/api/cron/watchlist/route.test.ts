@@ -0,0 +1,84 @@
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { GET } from "./route";
+import { addToWatchlist, getWatchedVideo } from "@/lib/watchlist/watchlist";
+import { resetExhaustedKeys } from "@/lib/youtube/keyPool";
+import type { YouTubeVideoItem } from "@/lib/youtube/client";
+
+const SECRET = "cron-secret-for-tests";
+
+function callCron(authorization?: string) {
+  return GET(
+    new NextRequest("http://localhost/api/cron/watchlist", {
+      headers: authorization ? { authorization } : undefined,
+    })
+  );
+}
+
+const fetchMock = vi.fn(async (input: string | URL) => {
+  const ids = new URL(input.toString()).searchParams.get("id")!.split(",");
+  return new Response(
+    JSON.stringify({
+      items: ids.map((id) => ({ id, contentDetails: { duration: "PT10M" }, statistics: { viewCount: "42" } })),
+    }),
+    { status: 200 }
+  );
+});
+
+let dataDir: string;
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "yt-cron-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+  vi.stubEnv("CRON_SECRET", SECRET);
+  vi.stubEnv("YOUTUBE_API_KEYS", "SERVER-KEY");
+  fetchMock.mockClear();
+  vi.stubGlobal("fetch", fetchMock);
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  resetExhaustedKeys();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("GET /api/cron/watchlist", () => {
+  it("CRON_SECRET 미설정 시 503", async () => {
+    vi.stubEnv("CRON_SECRET", "");
+    const res = await callCron(`Bearer ${SECRET}`);
+    expect(res.status).toBe(503);
+    expect((await res.json()).code).toBe("CRON_DISABLED");
+  });
+
+  it("비밀값이 다르면 401, 호출 없음", async () => {
+    expect((await callCron()).status).toBe(401);
+    expect((await callCron("Bearer wrong")).status).toBe(401);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("서버 키로 고정된 영상의 스냅샷을 기록, 응답에 키 값 없음", async () => {
+    await addToWatchlist("u1", {
+      id: "vid-cron01",
+      contentDetails: { duration: "PT10M" },
+      statistics: { viewCount: "1" },
+    } satisfies YouTubeVideoItem);
+    vi.useFakeTimers({ now: Date.now() + 2 * 60 * 60 * 1000, toFake: ["Date"] });
+    try {
+      const res = await callCron(`Bearer ${SECRET}`);
+      const text = await res.text();
+
+      expect(res.status).toBe(200);
+      expect(JSON.parse(text)).toMatchObject({ watched: 1, recorded: 1 });
+      expect(text).not.toContain("SERVER-KEY");
+      expect((await getWatchedVideo("u1", "vid-cron01"))?.item.latest?.viewCount).toBe(42);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
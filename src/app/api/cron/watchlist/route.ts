@@ -0,0 +1,60 @@
+/**
+ * app/api/cron/watchlist/route.ts
+ * 워치리스트 스냅샷 수집 주기 작업 (로컬 cron 등에서 호출)
+ *
+ * - Authorization: Bearer <CRON_SECRET> 필수 (미설정 시 비활성)
+ * - 서버 환경 변수 키(YOUTUBE_API_KEYS)만 사용
+ * - 수집 후 사용자 알림 규칙(워치리스트 대상)에 맞는 영상을 외부 채널로 전송
+ * - 예: 0 * * * * curl -fsS -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/cron/watchlist
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isCronAuthorized } from "@/lib/auth/cron";
+import { YouTubeAPIError, YOUTUBE_ERROR_STATUS } from "@/lib/youtube/client";
+import { buildKeyPool } from "@/lib/youtube/keyPool";
+import { QuotaTracker } from "@/lib/youtube/quota";
+import { refreshWatchlistSnapshots } from "@/lib/watchlist/watchlist";
+import { notifyWatchlist } from "@/lib/notifications/notifications";
+
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json(
+      { error: "주기 작업이 설정되지 않았습니다. (CRON_SECRET)", code: "CRON_DISABLED" },
+      { status: 503 }
+    );
+  }
+  if (!isCronAuthorized(req, secret)) {
+    return NextResponse.json({ error: "인증에 실패했습니다.", code: "UNAUTHORIZED" }, { status: 401 });
+  }
+
+  const keyPool = buildKeyPool([]);
+  if (keyPool.size === 0) {
+    return NextResponse.json(
+      { error: "서버 API Key가 설정되지 않았습니다. (YOUTUBE_API_KEYS)", code: "NO_SERVER_KEY" },
+      { status: 503 }
+    );
+  }
+
+  const quota = new QuotaTracker(null);
+  try {
+    const result = await refreshWatchlistSnapshots({ keyPool, quota });
+    const notified = await notifyWatchlist();
+    console.log(
+      `[Watchlist Cron] watched=${result.watched} recorded=${result.recorded} notified=${notified.sent} quotaUsed=${quota.used}`
+    );
+    return NextResponse.json({ ...result, notified, quota: quota.toJSON(), keys: keyPool.report() });
+  } catch (err) {
+    if (err instanceof YouTubeAPIError) {
+      return NextResponse.json(
+        { error: err.message, code: err.code, quota: quota.toJSON(), keys: keyPool.report() },
+        { status: YOUTUBE_ERROR_STATUS[err.code] ?? 500 }
+      );
+    }
+    console.error("[Watchlist Cron] Unexpected error:", err);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다. 잠시 후 다시 시도해 주세요." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * app/api/history/[id]/route.ts
+ * 검색 기록 단건 조회 (결과 스냅샷 포함) / 삭제
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/users";
+import {
+  deleteSearchLogEntry,
+  getSearchLogEntry,
+  isSnapshotFresh,
+} from "@/lib/history/searchLog";
+
+type Params = { params: Promise<{ id: string }> };
+
+const unauthorized = () =>
+  NextResponse.json({ error: "로그인이 필요합니다.", code: "UNAUTHORIZED" }, { status: 401 });
+
+const notFound = () =>
+  NextResponse.json({ error: "검색 기록을 찾을 수 없습니다.", code: "NOT_FOUND" }, { status: 404 });
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  const entry = await getSearchLogEntry(user.id, (await params).id);
+  if (!entry) return notFound();
+  return NextResponse.json({ entry: { ...entry, fresh: isSnapshotFresh(entry) } });
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  const deleted = await deleteSearchLogEntry(user.id, (await params).id);
+  return deleted ? NextResponse.json({ ok: true }) : notFound();
+}
@@ -0,0 +1,23 @@
+/**
+ * app/api/history/route.ts
+ * 로그인 사용자의 검색 기록 목록 (스냅샷 제외, 최신순)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/users";
+import { isSnapshotFresh, listSearchLog } from "@/lib/history/searchLog";
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) {
+    return NextResponse.json(
+      { error: "로그인이 필요합니다.", code: "UNAUTHORIZED" },
+      { status: 401 }
+    );
+  }
+
+  const entries = await listSearchLog(user.id);
+  return NextResponse.json({
+    entries: entries.map((e) => ({ ...e, fresh: isSnapshotFresh(e) })),
+  });
+}
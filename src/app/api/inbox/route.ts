@@ -0,0 +1,39 @@
+/**
+ * app/api/inbox/route.ts
+ * 알림함 조회 / 읽음 처리
+ *
+ * - GET  : 알림 목록(최신순) + 읽지 않은 개수
+ * - PATCH: { ids?: string[] } 읽음 처리 (ids 미지정 시 전체)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/users";
+import { listInbox, markInboxRead } from "@/lib/savedSearches/inbox";
+
+const unauthorized = () =>
+  NextResponse.json({ error: "로그인이 필요합니다.", code: "UNAUTHORIZED" }, { status: 401 });
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+  return NextResponse.json(await listInbox(user.id));
+}
+
+export async function PATCH(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  let body: { ids?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "요청 형식이 올바르지 않습니다." }, { status: 400 });
+  }
+  const { ids } = body;
+  if (ids !== undefined && !(Array.isArray(ids) && ids.every((id) => typeof id === "string"))) {
+    return NextResponse.json({ error: "ids는 문자열 배열이어야 합니다." }, { status: 400 });
+  }
+
+  const updated = await markInboxRead(user.id, ids);
+  return NextResponse.json({ updated, unread: (await listInbox(user.id)).unread });
+}
@@ -0,0 +1,49 @@
+/**
+ * app/api/insights/thumbnails/route.ts
+ * 썸네일 대표색·밝기 분석 (인사이트 탭)
+ *
+ * - POST: { videoIds } → { thumbnails, failed }
+ * - YouTube Data API 할당량·요금제 일일 한도를 쓰지 않음 (이미지 요청만, 결과 캐시)
+ * - 실제 API 데이터 소스가 아니면 503 THUMBNAILS_UNAVAILABLE
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/users";
+import { MAX_THUMBNAILS_PER_REQUEST, analyzeThumbnails } from "@/lib/youtube/thumbnailColors";
+
+const VIDEO_ID_PATTERN = /^[\w-]{6,20}$/;
+
+export async function POST(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "로그인이 필요합니다.", code: "UNAUTHORIZED" }, { status: 401 });
+  }
+
+  let body: { videoIds?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "요청 형식이 올바르지 않습니다." }, { status: 400 });
+  }
+  const { videoIds } = body;
+  if (
+    !Array.isArray(videoIds) ||
+    videoIds.length === 0 ||
+    videoIds.length > MAX_THUMBNAILS_PER_REQUEST ||
+    !videoIds.every((id) => typeof id === "string" && VIDEO_ID_PATTERN.test(id))
+  ) {
+    return NextResponse.json(
+      { error: `영상 ID를 1~${MAX_THUMBNAILS_PER_REQUEST}개 지정해 주세요.` },
+      { status: 400 }
+    );
+  }
+
+  const result = await analyzeThumbnails(videoIds);
+  if (!result) {
+    return NextResponse.json(
+      { error: "현재 데이터 소스에서는 썸네일을 분석할 수 없습니다.", code: "THUMBNAILS_UNAVAILABLE" },
+      { status: 503 }
+    );
+  }
+  return NextResponse.json(result);
+}
@@ -0,0 +1,113 @@
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { DELETE, GET, POST } from "./route";
+import { POST as searchPOST } from "../youtube/search/route";
+import { setDataSource } from "@/lib/youtube/client";
+import { FixtureDataSource } from "@/lib/youtube/fixtureSource";
+import { KEY_REF_COOKIE } from "@/lib/youtube/keyVault";
+import { upsertUser } from "@/lib/auth/users";
+import { SESSION_COOKIE, signToken } from "@/lib/auth/session";
+
+let dataDir: string;
+let session: string;
+
+function request(
+  url: string,
+  init: { method?: string; body?: unknown; ref?: string; anonymous?: boolean } = {}
+) {
+  const cookies = [init.anonymous ? null : session, init.ref ? `${KEY_REF_COOKIE}=${init.ref}` : null];
+  return new NextRequest(url, {
+    method: init.method ?? "GET",
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    headers: { cookie: cookies.filter(Boolean).join("; ") },
+  });
+}
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "yt-keys-route-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+  vi.stubEnv("KEY_VAULT_SECRET", "test-secret-0123456789abcdefghijklmnop");
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  const user = await upsertUser({
+    provider: "google",
+    providerUserId: "1",
+    name: "테스터",
+    email: null,
+    avatarUrl: null,
+  });
+  session = `${SESSION_COOKIE}=${signToken({ uid: user.id, exp: Date.now() + 60_000 })}`;
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  setDataSource(null);
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("/api/keys", () => {
+  it("로그인하지 않으면 조회·등록·삭제 모두 401", async () => {
+    const responses = await Promise.all([
+      GET(request("http://localhost/api/keys", { anonymous: true })),
+      POST(request("http://localhost/api/keys", { method: "POST", body: { apiKey: "K" }, anonymous: true })),
+      DELETE(request("http://localhost/api/keys", { method: "DELETE", anonymous: true })),
+    ]);
+    expect(responses.map((res) => res.status)).toEqual([401, 401, 401]);
+    expect(responses[1].cookies.get(KEY_REF_COOKIE)).toBeUndefined();
+  });
+
+  it("비밀값 미설정 시 등록 불가 (503)", async () => {
+    vi.stubEnv("KEY_VAULT_SECRET", "");
+    const res = await POST(request("http://localhost/api/keys", { method: "POST", body: { apiKey: "K" } }));
+    expect(res.status).toBe(503);
+    expect((await res.json()).code).toBe("KEY_VAULT_DISABLED");
+  });
+
+  it("등록 → httpOnly 쿠키 발급, 응답에 키 값 없음 → 조회 → 삭제", async () => {
+    const res = await POST(
+      request("http://localhost/api/keys", { method: "POST", body: { apiKeys: ["AIza-SECRET"] } })
+    );
+    const text = await res.text();
+    expect(res.status).toBe(200);
+    expect(text).not.toContain("AIza-SECRET");
+
+    const cookie = res.cookies.get(KEY_REF_COOKIE)!;
+    expect(cookie.httpOnly).toBe(true);
+
+    const status = await (await GET(request("http://localhost/api/keys", { ref: cookie.value }))).json();
+    expect(status).toMatchObject({ enabled: true, registered: true });
+    expect(status.keys).toHaveLength(1);
+
+    const deleted = await DELETE(request("http://localhost/api/keys", { method: "DELETE", ref: cookie.value }));
+    expect(deleted.cookies.get(KEY_REF_COOKIE)?.value).toBe("");
+    const after = await (await GET(request("http://localhost/api/keys", { ref: cookie.value }))).json();
+    expect(after.registered).toBe(false);
+  });
+
+  it("검색 라우트는 본문에 키가 없어도 쿠키 참조로 서버 보관 키 사용", async () => {
+    setDataSource(new FixtureDataSource(path.join(process.cwd(), "fixtures", "youtube")));
+    const reg = await POST(
+      request("http://localhost/api/keys", { method: "POST", body: { apiKey: "AIza-SECRET" } })
+    );
+    const ref = reg.cookies.get(KEY_REF_COOKIE)!.value;
+
+    const withoutRef = await searchPOST(
+      request("http://localhost/api/youtube/search", { method: "POST", body: { keyword: "캠핑", videoType: "shorts" } })
+    );
+    expect(withoutRef.status).toBe(400);
+
+    const withRef = await searchPOST(
+      request("http://localhost/api/youtube/search", {
+        method: "POST",
+        body: { keyword: "캠핑", videoType: "shorts" },
+        ref,
+      })
+    );
+    const data = await withRef.json();
+    expect(withRef.status).toBe(200);
+    expect(data.keys).toHaveLength(1);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * app/api/keys/route.ts
+ * 서버 보관 API Key 등록 / 조회 / 삭제 (로그인 필요)
+ *
+ * - POST  : 키 목록을 암호화 저장하고 참조값을 httpOnly 쿠키로 발급
+ * - GET   : 등록 여부와 키 라벨·지문 조회 (키 값은 절대 반환하지 않음)
+ * - DELETE: 등록 키 삭제 및 쿠키 제거
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  KEY_REF_COOKIE,
+  KEY_REF_TTL_MS,
+  deleteVaultKeys,
+  getVaultKeyInfo,
+  isKeyVaultEnabled,
+  registerKeys,
+} from "@/lib/youtube/keyVault";
+import { collectRequestKeys } from "@/lib/youtube/keyPool";
+import { getSessionUser } from "@/lib/auth/users";
+
+const COOKIE_OPTIONS = {
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+};
+
+const unauthorized = () =>
+  NextResponse.json({ error: "로그인이 필요합니다.", code: "UNAUTHORIZED" }, { status: 401 });
+
+function vaultDisabled() {
+  return NextResponse.json(
+    { error: "서버 키 보관 기능이 설정되지 않았습니다. (KEY_VAULT_SECRET)", code: "KEY_VAULT_DISABLED" },
+    { status: 503 }
+  );
+}
+
+// ─── GET ──────────────────────────────────────────────────────────────────────
+
+export async function GET(req: NextRequest) {
+  if (!(await getSessionUser(req))) return unauthorized();
+  const enabled = isKeyVaultEnabled();
+  const ref = req.cookies.get(KEY_REF_COOKIE)?.value;
+  const keys = enabled && ref ? await getVaultKeyInfo(ref) : null;
+  return NextResponse.json({ enabled, registered: keys !== null, keys: keys ?? [] });
+}
+
+// ─── POST ─────────────────────────────────────────────────────────────────────
+
+export async function POST(req: NextRequest) {
+  if (!(await getSessionUser(req))) return unauthorized();
+  if (!isKeyVaultEnabled()) return vaultDisabled();
+
+  let body: { apiKey?: unknown; apiKeys?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: "요청 형식이 올바르지 않습니다." },
+      { status: 400 }
+    );
+  }
+
+  const keys = collectRequestKeys(body);
+  if (keys.length === 0) {
+    return NextResponse.json(
+      { error: "등록할 API Key를 입력해 주세요." },
+      { status: 400 }
+    );
+  }
+
+  const { ref, keys: info } = await registerKeys(keys, req.cookies.get(KEY_REF_COOKIE)?.value);
+  console.log(`[KeyVault] 등록 keys=${info.length}`);
+
+  const res = NextResponse.json({ enabled: true, registered: true, keys: info });
+  res.cookies.set(KEY_REF_COOKIE, ref, { ...COOKIE_OPTIONS, maxAge: KEY_REF_TTL_MS / 1000 });
+  return res;
+}
+
+// ─── DELETE ───────────────────────────────────────────────────────────────────
+
+export async function DELETE(req: NextRequest) {
+  if (!(await getSessionUser(req))) return unauthorized();
+  const ref = req.cookies.get(KEY_REF_COOKIE)?.value;
+  if (ref) await deleteVaultKeys(ref);
+
+  const res = NextResponse.json({ enabled: isKeyVaultEnabled(), registered: false, keys: [] });
+  res.cookies.set(KEY_REF_COOKIE, "", { ...COOKIE_OPTIONS, maxAge: 0 });
+  return res;
+}
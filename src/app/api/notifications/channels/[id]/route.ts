@@ -0,0 +1,21 @@
+/**
+ * app/api/notifications/channels/[id]/route.ts
+ * 알림 채널 삭제 (규칙의 전송 대상에서도 제거)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/users";
+import { deleteChannel } from "@/lib/notifications/notifications";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const user = await getSessionUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "로그인이 필요합니다.", code: "UNAUTHORIZED" }, { status: 401 });
+  }
+  if (!(await deleteChannel(user.id, (await params).id))) {
+    return NextResponse.json({ error: "채널을 찾을 수 없습니다.", code: "NOT_FOUND" }, { status: 404 });
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,22 @@
+/**
+ * app/api/notifications/channels/[id]/test/route.ts
+ * 채널 설정 확인용 예시 알림 전송 — 결과는 전송 기록에도 남음 (실패해도 200, entry.status로 구분)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/users";
+import { sendTestNotification } from "@/lib/notifications/notifications";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const user = await getSessionUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "로그인이 필요합니다.", code: "UNAUTHORIZED" }, { status: 401 });
+  }
+  const entry = await sendTestNotification(user.id, (await params).id);
+  if (!entry) {
+    return NextResponse.json({ error: "채널을 찾을 수 없습니다.", code: "NOT_FOUND" }, { status: 404 });
+  }
+  return NextResponse.json({ entry });
+}
@@ -0,0 +1,53 @@
+/**
+ * app/api/notifications/channels/route.ts
+ * 알림 채널 추가
+ *
+ * - POST: { kind: "webhook" | "slack" | "discord" | "email", name?, target }
+ *         target은 웹훅 URL 또는 받는 사람 이메일 주소, 이메일은 서버 SMTP 설정이 있어야 함
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/users";
+import { isChannelKind, validateChannelTarget } from "@/lib/notifications/channels";
+import { MAX_CHANNELS, createChannel } from "@/lib/notifications/notifications";
+import { smtpConfigFromEnv } from "@/lib/notifications/smtp";
+
+const CHANNEL_NAMES = { webhook: "웹훅", slack: "Slack", discord: "Discord", email: "이메일" };
+
+export async function POST(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "로그인이 필요합니다.", code: "UNAUTHORIZED" }, { status: 401 });
+  }
+
+  let body: { kind?: unknown; name?: unknown; target?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "요청 형식이 올바르지 않습니다." }, { status: 400 });
+  }
+
+  const { kind } = body;
+  if (!isChannelKind(kind)) {
+    return NextResponse.json({ error: "알 수 없는 채널 종류입니다." }, { status: 400 });
+  }
+  const target = typeof body.target === "string" ? body.target.trim() : "";
+  const invalid = validateChannelTarget(kind, target);
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+  if (kind === "email" && !smtpConfigFromEnv()) {
+    return NextResponse.json(
+      { error: "서버에 SMTP가 설정되지 않았습니다. (SMTP_HOST, SMTP_FROM)", code: "SMTP_DISABLED" },
+      { status: 400 }
+    );
+  }
+
+  const name = typeof body.name === "string" && body.name.trim() ? body.name.trim().slice(0, 50) : CHANNEL_NAMES[kind];
+  const channel = await createChannel(user.id, { kind, name, target });
+  if (!channel) {
+    return NextResponse.json(
+      { error: `채널은 최대 ${MAX_CHANNELS}개까지 추가할 수 있습니다.`, code: "CHANNEL_LIMIT" },
+      { status: 409 }
+    );
+  }
+  return NextResponse.json({ channel }, { status: 201 });
+}
@@ -0,0 +1,20 @@
+/**
+ * app/api/notifications/route.ts
+ * 알림 설정 조회 — 채널(웹훅 URL은 가림), 규칙, 최근 전송 기록, 이메일 채널 사용 가능 여부
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/users";
+import { getNotificationSettings } from "@/lib/notifications/notifications";
+import { smtpConfigFromEnv } from "@/lib/notifications/smtp";
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "로그인이 필요합니다.", code: "UNAUTHORIZED" }, { status: 401 });
+  }
+  return NextResponse.json({
+    ...(await getNotificationSettings(user.id)),
+    emailEnabled: smtpConfigFromEnv() !== null,
+  });
+}
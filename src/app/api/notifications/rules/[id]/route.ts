@@ -0,0 +1,40 @@
+/**
+ * app/api/notifications/rules/[id]/route.ts
+ * 알림 규칙 수정(보낸 필드만) / 삭제
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/users";
+import { deleteRule, parseRuleInput, updateRule } from "@/lib/notifications/notifications";
+
+type Params = { params: Promise<{ id: string }> };
+
+const unauthorized = () =>
+  NextResponse.json({ error: "로그인이 필요합니다.", code: "UNAUTHORIZED" }, { status: 401 });
+
+const notFound = () =>
+  NextResponse.json({ error: "규칙을 찾을 수 없습니다.", code: "NOT_FOUND" }, { status: 404 });
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  let body: Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "요청 형식이 올바르지 않습니다." }, { status: 400 });
+  }
+
+  const parsed = await parseRuleInput(user.id, body, true);
+  if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+  const rule = await updateRule(user.id, (await params).id, parsed.input);
+  return rule ? NextResponse.json({ rule }) : notFound();
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+  return (await deleteRule(user.id, (await params).id)) ? NextResponse.json({ ok: true }) : notFound();
+}
@@ -0,0 +1,42 @@
+/**
+ * app/api/notifications/rules/route.ts
+ * 알림 규칙 추가
+ *
+ * - POST: { expression: "performanceScore >= 4 and views/day > 10k", name?, source?, channelIds }
+ *         source: "any"(기본) | "savedSearch" | "watchlist"
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/users";
+import {
+  MAX_RULES,
+  createRule,
+  parseRuleInput,
+  type NewNotificationRule,
+} from "@/lib/notifications/notifications";
+
+export async function POST(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "로그인이 필요합니다.", code: "UNAUTHORIZED" }, { status: 401 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "요청 형식이 올바르지 않습니다." }, { status: 400 });
+  }
+
+  const parsed = await parseRuleInput(user.id, body, false);
+  if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+  const rule = await createRule(user.id, parsed.input as NewNotificationRule);
+  if (!rule) {
+    return NextResponse.json(
+      { error: `규칙은 최대 ${MAX_RULES}개까지 추가할 수 있습니다.`, code: "RULE_LIMIT" },
+      { status: 409 }
+    );
+  }
+  return NextResponse.json({ rule }, { status: 201 });
+}
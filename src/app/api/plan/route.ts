@@ -0,0 +1,22 @@
+/**
+ * app/api/plan/route.ts
+ * 요금제 목록 + 로그인 사용자의 현재 요금제·오늘 사용량
+ * - 비로그인도 호출 가능 (/pricing 페이지) → current: null
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/users";
+import { getPlan, PLANS } from "@/lib/billing/plans";
+import { getDailyUsage } from "@/lib/billing/usage";
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  const plans = Object.values(PLANS);
+  if (!user) return NextResponse.json({ plans, current: null });
+
+  const plan = getPlan(user.plan);
+  return NextResponse.json({
+    plans,
+    current: { plan: plan.id, usage: await getDailyUsage(user.id, plan.dailySearches) },
+  });
+}
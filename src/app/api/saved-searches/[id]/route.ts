@@ -0,0 +1,49 @@
+/**
+ * app/api/saved-searches/[id]/route.ts
+ * 저장된 검색 실행 주기 변경 / 삭제 (삭제 시 해당 검색의 알림도 정리)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/users";
+import {
+  deleteSavedSearch,
+  isSavedSearchSchedule,
+  updateSavedSearchSchedule,
+} from "@/lib/savedSearches/savedSearches";
+import { removeInboxItemsFor } from "@/lib/savedSearches/inbox";
+
+type Params = { params: Promise<{ id: string }> };
+
+const unauthorized = () =>
+  NextResponse.json({ error: "로그인이 필요합니다.", code: "UNAUTHORIZED" }, { status: 401 });
+
+const notFound = () =>
+  NextResponse.json({ error: "저장된 검색을 찾을 수 없습니다.", code: "NOT_FOUND" }, { status: 404 });
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  let body: { schedule?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "요청 형식이 올바르지 않습니다." }, { status: 400 });
+  }
+  if (!isSavedSearchSchedule(body.schedule)) {
+    return NextResponse.json({ error: "알 수 없는 실행 주기입니다." }, { status: 400 });
+  }
+
+  const search = await updateSavedSearchSchedule(user.id, (await params).id, body.schedule);
+  return search ? NextResponse.json({ search }) : notFound();
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  const { id } = await params;
+  if (!(await deleteSavedSearch(user.id, id))) return notFound();
+  await removeInboxItemsFor(user.id, id);
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,142 @@
+/**
+ * app/api/saved-searches/route.ts
+ * 저장된 검색 목록 조회 / 검색 저장
+ *
+ * - GET : 저장된 검색 + 마지막 실행 결과·다음 실행 예정 시각
+ * - POST: { keyword, videoType, uploadPeriod?, minViewCount?, maxSubscriberCount?, minTypeConfidence?,
+ *           regionCode?, relevanceLanguage?, scoringProfile?, schedule? }
+ *         같은 조건이 이미 저장되어 있으면 기존 항목 반환, 실행은 주기 작업(/api/cron/saved-searches)이 담당
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/users";
+import type { UploadPeriod } from "@/lib/history/searchLog";
+import { defaultLanguageFor, DEFAULT_REGION_CODE, isRegionCode, isRelevanceLanguage } from "@/lib/youtube/markets";
+import { DEFAULT_TYPE_CONFIDENCE, MAX_TYPE_CONFIDENCE, MIN_TYPE_CONFIDENCE } from "@/lib/youtube/videoType";
+import { resolveScoringProfile } from "@/lib/scoring/profileStore";
+import {
+  MAX_SAVED_SEARCHES,
+  createSavedSearch,
+  isSavedSearchSchedule,
+  listSavedSearches,
+} from "@/lib/savedSearches/savedSearches";
+
+const UPLOAD_PERIODS: UploadPeriod[] = ["all", "1month", "3months", "6months", "1year"];
+
+const unauthorized = () =>
+  NextResponse.json({ error: "로그인이 필요합니다.", code: "UNAUTHORIZED" }, { status: 401 });
+
+/** 0 이하·미지정은 제한 없음(null), 그 외 양의 정수만 허용 */
+function parseLimit(value: unknown): number | null | undefined {
+  if (value == null || value === 0) return null;
+  return typeof value === "number" && Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+  return NextResponse.json({ searches: await listSavedSearches(user.id) });
+}
+
+export async function POST(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  let body: Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "요청 형식이 올바르지 않습니다." }, { status: 400 });
+  }
+
+  const {
+    keyword,
+    videoType,
+    uploadPeriod = "all",
+    schedule = "daily",
+    scoringProfile,
+    minTypeConfidence = DEFAULT_TYPE_CONFIDENCE,
+    regionCode = DEFAULT_REGION_CODE,
+  } = body;
+  const relevanceLanguage =
+    body.relevanceLanguage ?? (typeof regionCode === "string" ? defaultLanguageFor(regionCode) : undefined);
+  const minViewCount = parseLimit(body.minViewCount);
+  const maxSubscriberCount = parseLimit(body.maxSubscriberCount);
+
+  if (typeof keyword !== "string" || keyword.trim() === "") {
+    return NextResponse.json({ error: "검색 키워드를 입력해 주세요." }, { status: 400 });
+  }
+  if (videoType !== "shorts" && videoType !== "longform") {
+    return NextResponse.json(
+      { error: "videoType은 'shorts' 또는 'longform'이어야 합니다." },
+      { status: 400 }
+    );
+  }
+  if (!UPLOAD_PERIODS.includes(uploadPeriod as UploadPeriod)) {
+    return NextResponse.json({ error: "알 수 없는 업로드 기간입니다." }, { status: 400 });
+  }
+  if (minViewCount === undefined || maxSubscriberCount === undefined) {
+    return NextResponse.json(
+      { error: "minViewCount·maxSubscriberCount는 양의 정수여야 합니다." },
+      { status: 400 }
+    );
+  }
+  if (!isRegionCode(regionCode) || !isRelevanceLanguage(relevanceLanguage)) {
+    return NextResponse.json(
+      { error: "지원하지 않는 검색 지역 또는 언어입니다.", code: "UNSUPPORTED_MARKET" },
+      { status: 400 }
+    );
+  }
+  if (
+    typeof minTypeConfidence !== "number" ||
+    minTypeConfidence < MIN_TYPE_CONFIDENCE ||
+    minTypeConfidence > MAX_TYPE_CONFIDENCE
+  ) {
+    return NextResponse.json(
+      {
+        error: `minTypeConfidence는 ${MIN_TYPE_CONFIDENCE}~${MAX_TYPE_CONFIDENCE} 사이의 숫자여야 합니다.`,
+      },
+      { status: 400 }
+    );
+  }
+  if (!isSavedSearchSchedule(schedule)) {
+    return NextResponse.json({ error: "알 수 없는 실행 주기입니다." }, { status: 400 });
+  }
+
+  const profile = await resolveScoringProfile(
+    user.id,
+    typeof scoringProfile === "string" ? scoringProfile : undefined
+  );
+  if (!profile) {
+    return NextResponse.json(
+      { error: "알 수 없는 점수 기준입니다.", code: "UNKNOWN_SCORING_PROFILE" },
+      { status: 400 }
+    );
+  }
+
+  const search = await createSavedSearch(
+    user.id,
+    {
+      keyword: keyword.trim(),
+      videoType,
+      uploadPeriod: uploadPeriod as UploadPeriod,
+      minViewCount,
+      maxSubscriberCount,
+      minTypeConfidence,
+      regionCode,
+      relevanceLanguage,
+      scoringProfile: profile.id,
+    },
+    schedule
+  );
+  if (!search) {
+    return NextResponse.json(
+      {
+        error: `검색은 최대 ${MAX_SAVED_SEARCHES}개까지 저장할 수 있습니다.`,
+        code: "SAVED_SEARCH_LIMIT",
+      },
+      { status: 409 }
+    );
+  }
+  return NextResponse.json({ search }, { status: 201 });
+}
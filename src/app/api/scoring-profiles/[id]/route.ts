@@ -0,0 +1,22 @@
+/**
+ * app/api/scoring-profiles/[id]/route.ts
+ * 사용자 정의 점수 기준 삭제 (선택 중이었으면 기본 기준으로 돌아감)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/users";
+import { deleteCustomProfile } from "@/lib/scoring/profileStore";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const user = await getSessionUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "로그인이 필요합니다.", code: "UNAUTHORIZED" }, { status: 401 });
+  }
+
+  const deleted = await deleteCustomProfile(user.id, (await params).id);
+  return deleted
+    ? NextResponse.json({ ok: true })
+    : NextResponse.json({ error: "점수 기준을 찾을 수 없습니다.", code: "NOT_FOUND" }, { status: 404 });
+}
@@ -0,0 +1,100 @@
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { GET, POST, PUT } from "./route";
+import { DELETE } from "./[id]/route";
+import { upsertUser } from "@/lib/auth/users";
+import { SESSION_COOKIE, signToken } from "@/lib/auth/session";
+import { MAX_CUSTOM_PROFILES, resolveScoringProfile } from "@/lib/scoring/profileStore";
+
+let dataDir: string;
+let cookie: string;
+let userId: string;
+
+function request(init: { method?: string; body?: unknown; id?: string; anonymous?: boolean } = {}) {
+  const url = `http://localhost/api/scoring-profiles${init.id ? `/${init.id}` : ""}`;
+  return new NextRequest(url, {
+    method: init.method ?? "GET",
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    headers: init.anonymous ? undefined : { cookie },
+  });
+}
+
+const profileInput = {
+  name: "게임",
+  performance: [3, 2, 1, 0.5],
+  contribution: [10, 5, 1, 0.5],
+  minViewToSubscriberRatio: null,
+};
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "yt-scoring-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+  const user = await upsertUser({
+    provider: "google",
+    providerUserId: "1",
+    name: "테스터",
+    email: null,
+    avatarUrl: null,
+  });
+  userId = user.id;
+  cookie = `${SESSION_COOKIE}=${signToken({ uid: user.id, exp: Date.now() + 60_000 })}`;
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("/api/scoring-profiles", () => {
+  it("비로그인 → 401", async () => {
+    const res = await GET(request({ anonymous: true }));
+    expect(res.status).toBe(401);
+  });
+
+  it("기본 상태는 프리셋 목록 + 기본 기준 선택", async () => {
+    const data = await (await GET(request())).json();
+    expect(data.presets.map((p: { id: string }) => p.id)).toContain("discovery");
+    expect(data.custom).toEqual([]);
+    expect(data.selected).toBe("default");
+  });
+
+  it("사용자 기준 생성 → 선택 → 수정 → 삭제 시 선택이 기본으로 돌아감", async () => {
+    const created = await POST(request({ method: "POST", body: profileInput }));
+    expect(created.status).toBe(201);
+    const { profile } = await created.json();
+    expect(profile.id).toMatch(/^custom-/);
+
+    expect((await PUT(request({ method: "PUT", body: { selected: profile.id } }))).status).toBe(200);
+    expect((await resolveScoringProfile(userId))?.name).toBe("게임");
+
+    const updated = await POST(request({ method: "POST", body: { ...profileInput, id: profile.id, name: "게임2" } }));
+    expect(updated.status).toBe(200);
+    expect((await resolveScoringProfile(userId))?.name).toBe("게임2");
+
+    const res = await DELETE(request({ method: "DELETE", id: profile.id }), {
+      params: Promise.resolve({ id: profile.id }),
+    });
+    expect(res.status).toBe(200);
+    const data = await (await GET(request())).json();
+    expect(data.custom).toEqual([]);
+    expect(data.selected).toBe("default");
+  });
+
+  it("잘못된 경계값·알 수 없는 선택·개수 초과는 거부", async () => {
+    const invalid = await POST(request({ method: "POST", body: { ...profileInput, performance: [1, 2, 3, 4] } }));
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).code).toBe("INVALID_SCORING_PROFILE");
+
+    const unknown = await PUT(request({ method: "PUT", body: { selected: "custom-missing" } }));
+    expect(unknown.status).toBe(400);
+
+    for (let i = 0; i < MAX_CUSTOM_PROFILES; i++) {
+      await POST(request({ method: "POST", body: { ...profileInput, name: `기준 ${i}` } }));
+    }
+    const over = await POST(request({ method: "POST", body: profileInput }));
+    expect(over.status).toBe(409);
+  });
+});
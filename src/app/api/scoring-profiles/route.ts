@@ -0,0 +1,98 @@
+/**
+ * app/api/scoring-profiles/route.ts
+ * 점수 기준 조회 / 사용자 정의 기준 저장 / 선택 저장
+ *
+ * - GET : 프리셋 + 사용자 정의 목록 + 현재 선택
+ * - POST: 사용자 정의 기준 생성 (id 지정 시 수정)
+ * - PUT : 기본으로 사용할 기준 선택 { selected }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/users";
+import { SCORING_PRESETS, parseCustomProfile } from "@/lib/scoring/profiles";
+import {
+  MAX_CUSTOM_PROFILES,
+  getScoringSettings,
+  saveCustomProfile,
+  selectScoringProfile,
+} from "@/lib/scoring/profileStore";
+
+const unauthorized = () =>
+  NextResponse.json({ error: "로그인이 필요합니다.", code: "UNAUTHORIZED" }, { status: 401 });
+
+const badRequest = () =>
+  NextResponse.json({ error: "요청 형식이 올바르지 않습니다." }, { status: 400 });
+
+// ─── GET ──────────────────────────────────────────────────────────────────────
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  const settings = await getScoringSettings(user.id);
+  return NextResponse.json({
+    presets: Object.values(SCORING_PRESETS),
+    custom: settings.custom,
+    selected: settings.selected,
+  });
+}
+
+// ─── POST ─────────────────────────────────────────────────────────────────────
+
+export async function POST(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  let body: Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch {
+    return badRequest();
+  }
+
+  const parsed = parseCustomProfile(body);
+  if (typeof parsed === "string") {
+    return NextResponse.json({ error: parsed, code: "INVALID_SCORING_PROFILE" }, { status: 400 });
+  }
+
+  const id = typeof body.id === "string" ? body.id : undefined;
+  const profile = await saveCustomProfile(user.id, parsed, id);
+  if (!profile) {
+    return id
+      ? NextResponse.json(
+          { error: "점수 기준을 찾을 수 없습니다.", code: "NOT_FOUND" },
+          { status: 404 }
+        )
+      : NextResponse.json(
+          {
+            error: `사용자 정의 기준은 최대 ${MAX_CUSTOM_PROFILES}개까지 저장할 수 있습니다.`,
+            code: "SCORING_PROFILE_LIMIT",
+          },
+          { status: 409 }
+        );
+  }
+  return NextResponse.json({ profile }, { status: id ? 200 : 201 });
+}
+
+// ─── PUT ──────────────────────────────────────────────────────────────────────
+
+export async function PUT(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  let body: { selected?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return badRequest();
+  }
+
+  const selected = typeof body.selected === "string" ? body.selected : "";
+  if (!(await selectScoringProfile(user.id, selected))) {
+    return NextResponse.json(
+      { error: "알 수 없는 점수 기준입니다.", code: "UNKNOWN_SCORING_PROFILE" },
+      { status: 400 }
+    );
+  }
+  return NextResponse.json({ selected });
+}
@@ -0,0 +1,32 @@
+/**
+ * app/api/watchlist/[videoId]/route.ts
+ * 고정한 영상의 스냅샷 전체 조회 (성장 곡선용) / 고정 해제
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/users";
+import { getWatchedVideo, removeFromWatchlist } from "@/lib/watchlist/watchlist";
+
+type Params = { params: Promise<{ videoId: string }> };
+
+const unauthorized = () =>
+  NextResponse.json({ error: "로그인이 필요합니다.", code: "UNAUTHORIZED" }, { status: 401 });
+
+const notFound = () =>
+  NextResponse.json({ error: "워치리스트에 없는 영상입니다.", code: "NOT_FOUND" }, { status: 404 });
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  const watched = await getWatchedVideo(user.id, (await params).videoId);
+  return watched ? NextResponse.json(watched) : notFound();
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  const removed = await removeFromWatchlist(user.id, (await params).videoId);
+  return removed ? NextResponse.json({ ok: true }) : notFound();
+}
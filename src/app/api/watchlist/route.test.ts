@@ -0,0 +1,102 @@
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { GET, POST } from "./route";
+import { upsertUser } from "@/lib/auth/users";
+import { SESSION_COOKIE, signToken } from "@/lib/auth/session";
+import { resetExhaustedKeys } from "@/lib/youtube/keyPool";
+
+let dataDir: string;
+let cookie: string;
+
+function request(method: "GET" | "POST", body?: unknown) {
+  return new NextRequest("http://localhost/api/watchlist", {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    headers: { cookie },
+  });
+}
+
+/** videos.list 가짜 응답 (part=snippet 포함, 없는 ID는 빈 목록) */
+const fetchMock = vi.fn(async (input: string | URL) => {
+  const url = new URL(input.toString());
+  const ids = url.searchParams.get("id")!.split(",").filter((id) => id !== "vid-missing");
+  return new Response(
+    JSON.stringify({
+      items: ids.map((id) => ({
+        id,
+        contentDetails: { duration: "PT10M" },
+        statistics: { viewCount: "5000", likeCount: "50", commentCount: "7" },
+        snippet: {
+          title: `서버 제목 ${id}`,
+          channelId: "UCserver",
+          channelTitle: "서버 채널",
+          publishedAt: "2026-01-01T00:00:00Z",
+          thumbnails: { high: { url: `https://i.ytimg.com/vi/${id}/hqdefault.jpg` } },
+        },
+      })),
+    }),
+    { status: 200 }
+  );
+});
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "yt-watch-route-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+  fetchMock.mockClear();
+  vi.stubGlobal("fetch", fetchMock);
+  const user = await upsertUser({
+    provider: "google",
+    providerUserId: "1",
+    name: "테스터",
+    email: null,
+    avatarUrl: null,
+  });
+  cookie = `${SESSION_COOKIE}=${signToken({ uid: user.id, exp: Date.now() + 60_000 })}`;
+});
+
+afterEach(async () => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  resetExhaustedKeys();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("POST /api/watchlist", () => {
+  it("클라이언트가 보낸 통계·제목은 무시하고 서버 조회 값으로 첫 스냅샷 기록", async () => {
+    const res = await POST(
+      request("POST", {
+        videoId: "vid-aaaaaa",
+        apiKeys: ["K"],
+        video: { id: "vid-aaaaaa", title: "조작된 제목", viewCount: 99_999_999 },
+      })
+    );
+    expect(res.status).toBe(201);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(new URL(fetchMock.mock.calls[0][0].toString()).searchParams.get("part")).toContain("snippet");
+
+    const { items } = await (await GET(request("GET"))).json();
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ title: "서버 제목 vid-aaaaaa", channelId: "UCserver" });
+    expect(items[0].latest).toMatchObject({ viewCount: 5_000, likeCount: 50, commentCount: 7 });
+  });
+
+  it("이미 고정한 영상은 다시 조회하지 않음", async () => {
+    await POST(request("POST", { videoId: "vid-aaaaaa", apiKeys: ["K"] }));
+    const res = await POST(request("POST", { videoId: "vid-aaaaaa" }));
+    expect(res.status).toBe(201);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    ["영상 ID 형식 오류", { videoId: "a/b", apiKeys: ["K"] }, 400],
+    ["API Key 누락", { videoId: "vid-aaaaaa" }, 400],
+    ["존재하지 않는 영상", { videoId: "vid-missing", apiKeys: ["K"] }, 404],
+  ])("%s → %i", async (_label, body, status) => {
+    const res = await POST(request("POST", body));
+    expect(res.status).toBe(status);
+    expect((await (await GET(request("GET"))).json()).items).toEqual([]);
+  });
+});
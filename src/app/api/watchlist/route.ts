@@ -0,0 +1,102 @@
+/**
+ * app/api/watchlist/route.ts
+ * 워치리스트 조회 / 영상 고정
+ *
+ * - GET : 고정한 영상 + 최신 스냅샷 + 24시간·7일 증가량
+ * - POST: { videoId, apiKey(s) } 고정 — 서버에서 videos.list(1 unit)로 메타데이터·통계를 조회해 첫 스냅샷으로 기록
+ *         (스냅샷은 사용자 간 공유되므로 클라이언트가 보낸 값은 받지 않음)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/users";
+import { getVideoDetails, YouTubeAPIError, YOUTUBE_ERROR_STATUS } from "@/lib/youtube/client";
+import { QuotaTracker } from "@/lib/youtube/quota";
+import { buildKeyPool, collectRequestKeys } from "@/lib/youtube/keyPool";
+import { resolveRequestVaultKeys } from "@/lib/youtube/keyVault";
+import {
+  MAX_WATCHED_VIDEOS,
+  addToWatchlist,
+  listWatchlist,
+  watchlistStatus,
+} from "@/lib/watchlist/watchlist";
+
+interface WatchRequestBody {
+  videoId?: unknown;
+  apiKey?: string;
+  apiKeys?: string[];
+}
+
+const unauthorized = () =>
+  NextResponse.json({ error: "로그인이 필요합니다.", code: "UNAUTHORIZED" }, { status: 401 });
+
+const limitExceeded = () =>
+  NextResponse.json(
+    {
+      error: `워치리스트에는 최대 ${MAX_WATCHED_VIDEOS}개까지 고정할 수 있습니다.`,
+      code: "WATCHLIST_LIMIT",
+    },
+    { status: 409 }
+  );
+
+export async function GET(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+  return NextResponse.json({ items: await listWatchlist(user.id) });
+}
+
+export async function POST(req: NextRequest) {
+  const user = await getSessionUser(req);
+  if (!user) return unauthorized();
+
+  let body: WatchRequestBody;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "요청 형식이 올바르지 않습니다." }, { status: 400 });
+  }
+  const { videoId } = body;
+  if (typeof videoId !== "string" || !/^[\w-]{6,20}$/.test(videoId)) {
+    return NextResponse.json({ error: "올바른 영상 ID가 아닙니다." }, { status: 400 });
+  }
+
+  // 이미 고정했거나 개수 초과면 조회 비용을 쓰지 않음
+  const status = await watchlistStatus(user.id, videoId);
+  if (status.watched) return NextResponse.json({ video: status.watched }, { status: 201 });
+  if (status.count >= MAX_WATCHED_VIDEOS) return limitExceeded();
+
+  const keyPool = buildKeyPool([
+    ...collectRequestKeys(body),
+    ...(await resolveRequestVaultKeys(req)),
+  ]);
+  if (keyPool.size === 0) {
+    return NextResponse.json({ error: "API Key를 입력해 주세요." }, { status: 400 });
+  }
+
+  try {
+    const [item] = await getVideoDetails({
+      apiKey: keyPool,
+      quota: new QuotaTracker(null),
+      videoIds: [videoId],
+      snippet: true,
+    });
+    if (!item) {
+      return NextResponse.json({ error: "영상을 찾을 수 없습니다.", code: "NOT_FOUND" }, { status: 404 });
+    }
+
+    const video = await addToWatchlist(user.id, item);
+    if (!video) return limitExceeded();
+    return NextResponse.json({ video }, { status: 201 });
+  } catch (err) {
+    if (err instanceof YouTubeAPIError) {
+      return NextResponse.json(
+        { error: err.message, code: err.code, keys: keyPool.report() },
+        { status: YOUTUBE_ERROR_STATUS[err.code] ?? 500 }
+      );
+    }
+    console.error("[Watchlist] Unexpected error:", err);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다. 잠시 후 다시 시도해 주세요." },
+      { status: 500 }
+    );
+  }
+}
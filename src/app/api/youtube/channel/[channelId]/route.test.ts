@@ -0,0 +1,80 @@
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "./route";
+import { setDataSource } from "@/lib/youtube/client";
+import { FixtureDataSource } from "@/lib/youtube/fixtureSource";
+import { resetExhaustedKeys } from "@/lib/youtube/keyPool";
+
+function callChannel(channelId: string, body: unknown) {
+  return POST(
+    new NextRequest(`http://localhost/api/youtube/channel/${channelId}`, {
+      method: "POST",
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ channelId }) }
+  );
+}
+
+const fetchMock = vi.fn();
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  setDataSource(new FixtureDataSource(path.join(process.cwd(), "fixtures", "youtube")));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  setDataSource(null);
+  resetExhaustedKeys();
+});
+
+describe("POST /api/youtube/channel/[channelId]", () => {
+  it.each([
+    ["API Key 누락", "UCfixtureCamping01", {}],
+    ["채널 ID 형식 오류", "not-a-channel", { apiKey: "TEST-KEY" }],
+    ["예산이 정수가 아님", "UCfixtureCamping01", { apiKey: "TEST-KEY", quotaBudget: 0 }],
+  ])("%s → 400", async (_, channelId, body) => {
+    const res = await callChannel(channelId, body);
+    expect(res.status).toBe(400);
+  });
+
+  it("fixture 채널의 업로드를 분석해 리포트 반환", async () => {
+    const res = await callChannel("UCfixtureCamping01", { apiKey: "TEST-KEY" });
+    const text = await res.text();
+    const data = JSON.parse(text);
+
+    expect(res.status).toBe(200);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(data.report.channel.title).toBe("캠핑하는 찌동");
+    expect(data.report.videos.length).toBeGreaterThan(0);
+    const { shorts, longform } = data.report.summary;
+    expect(shorts.count + longform.count).toBe(data.report.videos.length);
+    expect(data.quota.byEndpoint.channels.calls).toBe(1);
+    expect(text).not.toContain("TEST-KEY");
+  });
+
+  it("없는 채널 → 404", async () => {
+    const res = await callChannel("UCfixtureMissing99", { apiKey: "TEST-KEY" });
+    expect(res.status).toBe(404);
+    expect((await res.json()).code).toBe("NOT_FOUND");
+  });
+
+  it("예산이 한 페이지 비용보다 작으면 429, 일부만 가능하면 이전 업로드 생략", async () => {
+    const refused = await callChannel("UCfixtureCamping01", { apiKey: "TEST-KEY", quotaBudget: 2 });
+    expect(refused.status).toBe(429);
+
+    const res = await callChannel("UCfixtureCamping01", {
+      apiKey: "TEST-KEY",
+      maxVideos: 200,
+      quotaBudget: 3,
+    });
+    const data = await res.json();
+    expect(res.status).toBe(200);
+    expect(data.quota.skipped).toEqual(["olderUploads"]);
+    expect(data.quota.used).toBeLessThanOrEqual(3);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * app/api/youtube/channel/[channelId]/route.ts
+ * 채널 상세 분석 Route Handler
+ *
+ * - 업로드 플레이리스트를 여러 페이지 순회하여 최대 maxVideos개 수집
+ * - 영상별 성과도/기여도 (scoringProfile 점수 기준), Shorts·롱폼 분리, 아웃라이어 추이 반환
+ * - API Key는 서버 로그에 절대 노출하지 않음
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getChannelDetails,
+  getAllPlaylistItems,
+  getVideoDetails,
+  fetchInChunks,
+  YouTubeAPIError,
+  YOUTUBE_ERROR_STATUS,
+} from "@/lib/youtube/client";
+import { buildChannelReport } from "@/lib/youtube/channelAnalysis";
+import { QuotaTracker, QUOTA_COSTS, chunkCallCount } from "@/lib/youtube/quota";
+import { buildKeyPool, collectRequestKeys } from "@/lib/youtube/keyPool";
+import { resolveRequestVaultKeys } from "@/lib/youtube/keyVault";
+import { getSessionUser } from "@/lib/auth/users";
+import { chargeDailySearch, resolveRequestPlan } from "@/lib/billing/planLimit";
+import { resolveScoringProfile } from "@/lib/scoring/profileStore";
+
+// ─── 요청 타입 ────────────────────────────────────────────────────────────────
+
+interface ChannelRequestBody {
+  apiKey?: string;
+  apiKeys?: string[];
+  /** 분석할 최신 업로드 수 (기본 200, 최대 500 — 요금제별 상한 적용) */
+  maxVideos?: number;
+  /** 이번 요청에서 허용할 최대 할당량 unit (미설정 시 무제한) */
+  quotaBudget?: number | null;
+  /** 점수 기준 ID (미설정 시 저장된 선택) */
+  scoringProfile?: string;
+}
+
+const DEFAULT_MAX_VIDEOS = 200;
+const MAX_VIDEOS_LIMIT = 500;
+
+/** 채널 1개 + 업로드 N개 분석 비용: channels 1 + (playlistItems + videos) 페이지당 */
+function estimateChannelCost(maxVideos: number): number {
+  return (
+    QUOTA_COSTS.channels +
+    chunkCallCount(maxVideos) * (QUOTA_COSTS.playlistItems + QUOTA_COSTS.videos)
+  );
+}
+
+// ─── POST 핸들러 ──────────────────────────────────────────────────────────────
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ channelId: string }> }
+) {
+  const { channelId } = await params;
+
+  let body: Partial<ChannelRequestBody>;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: "요청 형식이 올바르지 않습니다." },
+      { status: 400 }
+    );
+  }
+
+  // ── 입력 유효성 검사 ─────────────────────────────────────────────────────
+  // 키 풀 우선순위: 요청 본문 키 → 서버 보관 키(쿠키 참조) → 서버 환경 변수 키
+  const keyPool = buildKeyPool([
+    ...collectRequestKeys(body),
+    ...(await resolveRequestVaultKeys(req)),
+  ]);
+  if (keyPool.size === 0) {
+    return NextResponse.json(
+      { error: "API Key를 입력해 주세요." },
+      { status: 400 }
+    );
+  }
+  if (!/^UC[\w-]+$/.test(channelId)) {
+    return NextResponse.json(
+      { error: "올바른 채널 ID가 아닙니다." },
+      { status: 400 }
+    );
+  }
+  const { quotaBudget } = body;
+  if (
+    quotaBudget != null &&
+    (typeof quotaBudget !== "number" || !Number.isInteger(quotaBudget) || quotaBudget <= 0)
+  ) {
+    return NextResponse.json(
+      { error: "quotaBudget은 1 이상의 정수여야 합니다." },
+      { status: 400 }
+    );
+  }
+
+  // 요금제별 최대 업로드 수 — 세션 없는 직접 호출(내부 작업·테스트)은 제한 없음
+  const user = await getSessionUser(req);
+  const profile = await resolveScoringProfile(
+    user?.id ?? null,
+    typeof body.scoringProfile === "string" ? body.scoringProfile : undefined
+  );
+  if (!profile) {
+    return NextResponse.json(
+      { error: "알 수 없는 점수 기준입니다.", code: "UNKNOWN_SCORING_PROFILE" },
+      { status: 400 }
+    );
+  }
+  const videoLimit = resolveRequestPlan(req, user)?.channelMaxVideos ?? MAX_VIDEOS_LIMIT;
+  let maxVideos = Math.min(
+    Math.max(Math.floor(Number(body.maxVideos) || DEFAULT_MAX_VIDEOS), 1),
+    videoLimit
+  );
+  const quota = new QuotaTracker(quotaBudget ?? null);
+
+  // 예산 안에서 수집 가능한 페이지 수로 축소 (한 페이지도 안 되면 거부)
+  if (!quota.canAfford(estimateChannelCost(maxVideos))) {
+    const perPage = QUOTA_COSTS.playlistItems + QUOTA_COSTS.videos;
+    const affordablePages = Math.floor((quota.remaining - QUOTA_COSTS.channels) / perPage);
+    if (affordablePages < 1) {
+      return NextResponse.json(
+        {
+          error: `예산이 부족합니다. 채널 분석에는 최소 ${estimateChannelCost(1)} units가 필요합니다.`,
+          code: "BUDGET_EXCEEDED",
+          quota: quota.toJSON(),
+        },
+        { status: 429 }
+      );
+    }
+    maxVideos = affordablePages * 50;
+    quota.markSkipped("olderUploads");
+  }
+
+  // 새 유료 분석을 시작할 때만 요금제 일일 한도 차감
+  const limited = await chargeDailySearch(req, user);
+  if (limited) return limited;
+
+  console.log(`[YouTube Channel] channel=${channelId} maxVideos=${maxVideos} keys=${keyPool.size}`);
+
+  try {
+    // ── 1단계: 채널 정보 ──────────────────────────────────────────────────
+    const [channel] = await getChannelDetails({
+      apiKey: keyPool,
+      quota,
+      channelIds: [channelId],
+    });
+    const uploadsId = channel?.contentDetails?.relatedPlaylists?.uploads;
+    if (!channel || !uploadsId) {
+      throw new YouTubeAPIError("채널을 찾을 수 없습니다.", "NOT_FOUND", 404);
+    }
+
+    // ── 2단계: 업로드 플레이리스트 (페이지네이션) ─────────────────────────
+    const playlistItems = await getAllPlaylistItems({
+      apiKey: keyPool,
+      quota,
+      playlistId: uploadsId,
+      maxItems: maxVideos,
+    });
+
+    // ── 3단계: 영상 상세 (50개씩) ─────────────────────────────────────────
+    const videoIds = playlistItems.map((p) => p.snippet.resourceId.videoId);
+    const videoItems = await fetchInChunks(videoIds, 50, (chunk) =>
+      getVideoDetails({ apiKey: keyPool, quota, videoIds: chunk, shortsSignals: true })
+    );
+
+    const report = buildChannelReport(channel, playlistItems, videoItems, profile);
+
+    console.log(
+      `[YouTube Channel] videos=${report.videos.length} outliers=${report.outliers.length} quotaUsed=${quota.used}`
+    );
+
+    return NextResponse.json({
+      report,
+      quota: quota.toJSON(),
+      keys: keyPool.report(),
+    });
+  } catch (err) {
+    if (err instanceof YouTubeAPIError) {
+      return NextResponse.json(
+        {
+          error: err.message,
+          code: err.code,
+          quota: quota.toJSON(),
+          keys: keyPool.report(),
+        },
+        { status: YOUTUBE_ERROR_STATUS[err.code] ?? 500 }
+      );
+    }
+
+    console.error("[YouTube Channel] Unexpected error:", err);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다. 잠시 후 다시 시도해 주세요." },
+      { status: 500 }
+    );
+  }
+}
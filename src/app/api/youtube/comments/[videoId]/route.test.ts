@@ -0,0 +1,68 @@
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "./route";
+import { setDataSource } from "@/lib/youtube/client";
+import { FixtureDataSource } from "@/lib/youtube/fixtureSource";
+import { resetExhaustedKeys } from "@/lib/youtube/keyPool";
+
+function callComments(videoId: string, body: unknown) {
+  return POST(
+    new NextRequest(`http://localhost/api/youtube/comments/${videoId}`, {
+      method: "POST",
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ videoId }) }
+  );
+}
+
+const fetchMock = vi.fn();
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  setDataSource(new FixtureDataSource(path.join(process.cwd(), "fixtures", "youtube")));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  setDataSource(null);
+  resetExhaustedKeys();
+});
+
+describe("POST /api/youtube/comments/[videoId]", () => {
+  it.each([
+    ["API Key 누락", "fxVid00001", {}],
+    ["영상 ID 형식 오류", "bad id!", { apiKey: "TEST-KEY" }],
+    ["예산이 정수가 아님", "fxVid00001", { apiKey: "TEST-KEY", quotaBudget: 1.5 }],
+  ])("%s → 400", async (_, videoId, body) => {
+    expect((await callComments(videoId, body)).status).toBe(400);
+  });
+
+  it("fixture 영상의 댓글을 분석해 반환", async () => {
+    const res = await callComments("fxVid00001", { apiKey: "TEST-KEY" });
+    const text = await res.text();
+    const { analysis, quota } = JSON.parse(text);
+
+    expect(res.status).toBe(200);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(analysis.commentCount).toBe(155);
+    expect(analysis.sampled).toBe(8);
+    expect(analysis.topLiked[0].likeCount).toBe(320);
+    expect(analysis.timestamps.slice(0, 2).map((t: { label: string }) => t.label)).toEqual(["3:15", "12:40"]);
+    expect(analysis.keywords.map((k: { term: string }) => k.term)).toContain("캠핑장");
+    expect(quota.byEndpoint.commentThreads.calls).toBe(1);
+    expect(text).not.toContain("TEST-KEY");
+  });
+
+  it("없는 영상 → 404, 예산이 한 페이지 비용보다 작으면 429", async () => {
+    const missing = await callComments("fxMissing01", { apiKey: "TEST-KEY" });
+    expect(missing.status).toBe(404);
+
+    const refused = await callComments("fxVid00001", { apiKey: "TEST-KEY", quotaBudget: 1 });
+    expect(refused.status).toBe(429);
+    expect((await refused.json()).code).toBe("BUDGET_EXCEEDED");
+  });
+});
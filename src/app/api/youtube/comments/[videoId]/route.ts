@@ -0,0 +1,169 @@
+/**
+ * app/api/youtube/comments/[videoId]/route.ts
+ * 벤치마크 영상 댓글 분석 Route Handler
+ *
+ * - 영상 통계(videos.list) + 최상위 댓글(commentThreads.list, 100개당 1 unit) 수집
+ * - 댓글 비율, 좋아요 많은 댓글, 자주 나온 키워드·2-gram, 타임스탬프 언급 구간 반환
+ * - API Key는 서버 로그에 절대 노출하지 않음
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getCommentThreads,
+  getVideoDetails,
+  YouTubeAPIError,
+  YOUTUBE_ERROR_STATUS,
+} from "@/lib/youtube/client";
+import { analyzeComments } from "@/lib/youtube/commentAnalysis";
+import { parseDurationToSeconds } from "@/lib/youtube/videoType";
+import { QuotaTracker, QUOTA_COSTS } from "@/lib/youtube/quota";
+import { buildKeyPool, collectRequestKeys } from "@/lib/youtube/keyPool";
+import { resolveRequestVaultKeys } from "@/lib/youtube/keyVault";
+
+// ─── 요청 타입 ────────────────────────────────────────────────────────────────
+
+interface CommentsRequestBody {
+  apiKey?: string;
+  apiKeys?: string[];
+  /** 수집할 최상위 댓글 수 (기본 100, 최대 500) */
+  maxComments?: number;
+  /** relevance(인기순, 기본) | time(최신순) */
+  order?: "relevance" | "time";
+  /** 이번 요청에서 허용할 최대 할당량 unit (미설정 시 무제한) */
+  quotaBudget?: number | null;
+}
+
+const DEFAULT_MAX_COMMENTS = 100;
+const MAX_COMMENTS_LIMIT = 500;
+const COMMENTS_PER_PAGE = 100;
+
+/** 영상 통계 1 + 댓글 페이지 수 */
+function estimateCommentsCost(maxComments: number): number {
+  return QUOTA_COSTS.videos + Math.ceil(maxComments / COMMENTS_PER_PAGE) * QUOTA_COSTS.commentThreads;
+}
+
+// ─── POST 핸들러 ──────────────────────────────────────────────────────────────
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  const { videoId } = await params;
+
+  let body: Partial<CommentsRequestBody>;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: "요청 형식이 올바르지 않습니다." },
+      { status: 400 }
+    );
+  }
+
+  // ── 입력 유효성 검사 ─────────────────────────────────────────────────────
+  const keyPool = buildKeyPool([
+    ...collectRequestKeys(body),
+    ...(await resolveRequestVaultKeys(req)),
+  ]);
+  if (keyPool.size === 0) {
+    return NextResponse.json(
+      { error: "API Key를 입력해 주세요." },
+      { status: 400 }
+    );
+  }
+  if (!/^[\w-]{6,20}$/.test(videoId)) {
+    return NextResponse.json(
+      { error: "올바른 영상 ID가 아닙니다." },
+      { status: 400 }
+    );
+  }
+  const { quotaBudget } = body;
+  if (
+    quotaBudget != null &&
+    (typeof quotaBudget !== "number" || !Number.isInteger(quotaBudget) || quotaBudget <= 0)
+  ) {
+    return NextResponse.json(
+      { error: "quotaBudget은 1 이상의 정수여야 합니다." },
+      { status: 400 }
+    );
+  }
+  const order = body.order === "time" ? "time" : "relevance";
+  let maxComments = Math.min(
+    Math.max(Math.floor(Number(body.maxComments) || DEFAULT_MAX_COMMENTS), 1),
+    MAX_COMMENTS_LIMIT
+  );
+  const quota = new QuotaTracker(quotaBudget ?? null);
+
+  // 예산 안에서 수집 가능한 페이지 수로 축소 (한 페이지도 안 되면 거부)
+  if (!quota.canAfford(estimateCommentsCost(maxComments))) {
+    const affordablePages = Math.floor(
+      (quota.remaining - QUOTA_COSTS.videos) / QUOTA_COSTS.commentThreads
+    );
+    if (affordablePages < 1) {
+      return NextResponse.json(
+        {
+          error: `예산이 부족합니다. 댓글 분석에는 최소 ${estimateCommentsCost(1)} units가 필요합니다.`,
+          code: "BUDGET_EXCEEDED",
+          quota: quota.toJSON(),
+        },
+        { status: 429 }
+      );
+    }
+    maxComments = affordablePages * COMMENTS_PER_PAGE;
+    quota.markSkipped("moreComments");
+  }
+
+  console.log(`[YouTube Comments] video=${videoId} maxComments=${maxComments} keys=${keyPool.size}`);
+
+  try {
+    // ── 1단계: 영상 통계 (댓글 수·조회수·길이) ────────────────────────────
+    const [video] = await getVideoDetails({ apiKey: keyPool, quota, videoIds: [videoId] });
+    if (!video) {
+      throw new YouTubeAPIError("영상을 찾을 수 없습니다.", "NOT_FOUND", 404);
+    }
+
+    // ── 2단계: 최상위 댓글 (페이지네이션) ─────────────────────────────────
+    const threads = await getCommentThreads({
+      apiKey: keyPool,
+      quota,
+      videoId,
+      maxComments,
+      order,
+    });
+
+    const analysis = analyzeComments(
+      videoId,
+      threads,
+      video,
+      parseDurationToSeconds(video.contentDetails.duration)
+    );
+
+    console.log(
+      `[YouTube Comments] sampled=${analysis.sampled} timestamps=${analysis.timestamps.length} quotaUsed=${quota.used}`
+    );
+
+    return NextResponse.json({
+      analysis,
+      quota: quota.toJSON(),
+      keys: keyPool.report(),
+    });
+  } catch (err) {
+    if (err instanceof YouTubeAPIError) {
+      return NextResponse.json(
+        {
+          error: err.message,
+          code: err.code,
+          quota: quota.toJSON(),
+          keys: keyPool.report(),
+        },
+        { status: YOUTUBE_ERROR_STATUS[err.code] ?? 500 }
+      );
+    }
+
+    console.error("[YouTube Comments] Unexpected error:", err);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다. 잠시 후 다시 시도해 주세요." },
+      { status: 500 }
+    );
+  }
+}
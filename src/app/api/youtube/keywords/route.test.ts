@@ -0,0 +1,78 @@
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "./route";
+import { setDataSource } from "@/lib/youtube/client";
+import { FixtureDataSource } from "@/lib/youtube/fixtureSource";
+import { resetExhaustedKeys } from "@/lib/youtube/keyPool";
+import { sampleCost } from "@/lib/youtube/keywordResearch";
+
+function callKeywords(body: unknown) {
+  return POST(
+    new NextRequest("http://localhost/api/youtube/keywords", {
+      method: "POST",
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+const validBody = { apiKey: "TEST-KEY", keyword: "캠핑", videoType: "longform", sampleCount: 2 };
+
+const fetchMock = vi.fn();
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  setDataSource(new FixtureDataSource(path.join(process.cwd(), "fixtures", "youtube")));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  setDataSource(null);
+  resetExhaustedKeys();
+});
+
+describe("POST /api/youtube/keywords", () => {
+  it.each([
+    ["API Key 누락", { ...validBody, apiKey: "" }],
+    ["표본 수 초과", { ...validBody, sampleCount: 11 }],
+    ["빈 후보 목록", { ...validBody, candidates: [" "] }],
+  ])("%s → 400", async (_, body) => {
+    expect((await callKeywords(body)).status).toBe(400);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("시드 표본 → 후보 확장 → 상위 후보 표본 검색", async () => {
+    const res = await callKeywords(validBody);
+    const { seed, candidates, quota } = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(seed.keyword).toBe("캠핑");
+    expect(seed.sampled).toBeGreaterThan(0);
+    expect(seed.score).toEqual(expect.any(Number));
+
+    const sampled = candidates.filter((c: { opportunity: unknown }) => c.opportunity !== null);
+    expect(sampled).toHaveLength(2);
+    expect(candidates.length).toBeGreaterThan(2);
+    expect(quota.used).toBe(sampleCost("longform") * 3);
+  });
+
+  it("지정한 후보만 표본 검색, 예산이 모자라면 뒤쪽 후보 생략", async () => {
+    const res = await callKeywords({
+      ...validBody,
+      candidates: ["캠핑 장비", "겨울  캠핑"],
+      quotaBudget: sampleCost("longform"),
+    });
+    const { seed, candidates, quota } = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(seed).toBeNull();
+    expect(candidates.map((c: { keyword: string }) => c.keyword)).toEqual(["캠핑 장비", "겨울 캠핑"]);
+    expect(candidates[0].opportunity).not.toBeNull();
+    expect(candidates[1].opportunity).toBeNull();
+    expect(quota.skipped).toEqual(["keyword:겨울 캠핑"]);
+  });
+});
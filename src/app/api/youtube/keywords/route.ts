@@ -0,0 +1,199 @@
+/**
+ * app/api/youtube/keywords/route.ts
+ * 키워드 확장 Route Handler — 시드 키워드에서 관련 키워드 후보를 만들고 표본 검색으로 기회 점수 비교
+ *
+ * - candidates 없음: 시드 표본 검색 → 후보 확장 → 상위 sampleCount개 표본 검색
+ * - candidates 있음: 확장 없이 지정한 후보만 표본 검색 (확장 결과에서 골라 추가로 확인할 때)
+ * - 후보마다 검색 1페이지 + 영상·채널 상세 (확장 로직: lib/youtube/keywordResearch.ts)
+ * - 예산이 모자라면 뒤쪽 후보부터 생략하고 quota.skipped에 "keyword:<후보>" 기록
+ * - API Key는 서버 로그에 절대 노출하지 않음
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { YouTubeAPIError, YOUTUBE_ERROR_STATUS } from "@/lib/youtube/client";
+import type { VideoType } from "@/lib/youtube/videoType";
+import {
+  DEFAULT_SAMPLE_COUNT,
+  MAX_SAMPLED_CANDIDATES,
+  normalizeKeyword,
+  researchKeyword,
+  sampleCandidates,
+} from "@/lib/youtube/keywordResearch";
+import { QuotaTracker } from "@/lib/youtube/quota";
+import { buildKeyPool, collectRequestKeys } from "@/lib/youtube/keyPool";
+import { resolveRequestVaultKeys } from "@/lib/youtube/keyVault";
+import { getSessionUser } from "@/lib/auth/users";
+import { chargeDailySearch } from "@/lib/billing/planLimit";
+import { calcPublishedAfter, type UploadPeriod } from "@/lib/history/searchLog";
+import { resolveScoringProfile } from "@/lib/scoring/profileStore";
+import { toProfileRef } from "@/lib/scoring/profiles";
+
+// ─── 요청 타입 ────────────────────────────────────────────────────────────────
+
+interface KeywordsRequestBody {
+  apiKey?: string;
+  apiKeys?: string[];
+  keyword: string;
+  videoType: VideoType;
+  uploadPeriod?: UploadPeriod;
+  /** 확장 후 표본 검색할 상위 후보 수 (0~MAX_SAMPLED_CANDIDATES, 기본 DEFAULT_SAMPLE_COUNT) */
+  sampleCount?: number;
+  /** 지정하면 확장 없이 이 후보만 표본 검색 (1~MAX_SAMPLED_CANDIDATES개) */
+  candidates?: string[];
+  /** 이번 요청에서 허용할 최대 할당량 unit (미설정 시 무제한) */
+  quotaBudget?: number | null;
+  scoringProfile?: string;
+}
+
+/** 후보 목록 검증 (정규화 후 중복 제거, 비었거나 너무 많으면 null) */
+function parseCandidates(value: unknown): string[] | null {
+  if (!Array.isArray(value)) return null;
+  const keywords = [
+    ...new Set(
+      value
+        .filter((v): v is string => typeof v === "string")
+        .map((v) => normalizeKeyword(v).slice(0, 100))
+        .filter(Boolean)
+    ),
+  ];
+  return keywords.length > 0 && keywords.length <= MAX_SAMPLED_CANDIDATES ? keywords : null;
+}
+
+// ─── POST 핸들러 ──────────────────────────────────────────────────────────────
+
+export async function POST(req: NextRequest) {
+  let body: Partial<KeywordsRequestBody>;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: "요청 형식이 올바르지 않습니다." },
+      { status: 400 }
+    );
+  }
+
+  // ── 입력 유효성 검사 ─────────────────────────────────────────────────────
+  const { keyword, videoType, uploadPeriod, quotaBudget, scoringProfile } = body;
+  const sampleCount = body.sampleCount ?? DEFAULT_SAMPLE_COUNT;
+  if (!keyword || typeof keyword !== "string" || keyword.trim() === "") {
+    return NextResponse.json(
+      { error: "검색 키워드를 입력해 주세요." },
+      { status: 400 }
+    );
+  }
+  if (videoType !== "shorts" && videoType !== "longform") {
+    return NextResponse.json(
+      { error: "videoType은 'shorts' 또는 'longform'이어야 합니다." },
+      { status: 400 }
+    );
+  }
+  const candidates = body.candidates === undefined ? undefined : parseCandidates(body.candidates);
+  if (candidates === null) {
+    return NextResponse.json(
+      { error: `표본 검색할 후보를 1~${MAX_SAMPLED_CANDIDATES}개 지정해 주세요.` },
+      { status: 400 }
+    );
+  }
+  if (
+    typeof sampleCount !== "number" ||
+    !Number.isInteger(sampleCount) ||
+    sampleCount < 0 ||
+    sampleCount > MAX_SAMPLED_CANDIDATES
+  ) {
+    return NextResponse.json(
+      { error: `sampleCount는 0~${MAX_SAMPLED_CANDIDATES} 사이의 정수여야 합니다.` },
+      { status: 400 }
+    );
+  }
+  if (
+    quotaBudget != null &&
+    (typeof quotaBudget !== "number" || !Number.isInteger(quotaBudget) || quotaBudget <= 0)
+  ) {
+    return NextResponse.json(
+      { error: "quotaBudget은 1 이상의 정수여야 합니다." },
+      { status: 400 }
+    );
+  }
+
+  const user = await getSessionUser(req);
+  const profile = await resolveScoringProfile(
+    user?.id ?? null,
+    typeof scoringProfile === "string" ? scoringProfile : undefined
+  );
+  if (!profile) {
+    return NextResponse.json(
+      { error: "알 수 없는 점수 기준입니다.", code: "UNKNOWN_SCORING_PROFILE" },
+      { status: 400 }
+    );
+  }
+
+  const keyPool = buildKeyPool([
+    ...collectRequestKeys(body),
+    ...(await resolveRequestVaultKeys(req)),
+  ]);
+  if (keyPool.size === 0) {
+    return NextResponse.json(
+      { error: "API Key를 입력해 주세요." },
+      { status: 400 }
+    );
+  }
+
+  const quota = new QuotaTracker(quotaBudget ?? null);
+  const params = {
+    keyPool,
+    quota,
+    keyword: keyword.trim(),
+    videoType,
+    publishedAfter: calcPublishedAfter(uploadPeriod),
+    profile,
+  };
+
+  // 새 유료 분석을 시작할 때만 요금제 일일 한도 차감
+  const limited = await chargeDailySearch(req, user);
+  if (limited) return limited;
+
+  console.log(
+    `[YouTube Keywords] keyword="${keyword}" type=${videoType} ${candidates ? `candidates=${candidates.length}` : `sample=${sampleCount}`} keys=${keyPool.size}`
+  );
+
+  try {
+    const result = candidates
+      ? {
+          seed: null,
+          candidates: await sampleCandidates(
+            params,
+            candidates.map((c) => ({ keyword: c, sources: [], evidence: 0 }))
+          ),
+        }
+      : await researchKeyword({ ...params, sampleCount });
+
+    console.log(
+      `[YouTube Keywords] candidates=${result.candidates.length} skipped=${quota.toJSON().skipped.length} quotaUsed=${quota.used}`
+    );
+
+    return NextResponse.json({
+      ...result,
+      scoringProfile: toProfileRef(profile),
+      quota: quota.toJSON(),
+      keys: keyPool.report(),
+    });
+  } catch (err) {
+    if (err instanceof YouTubeAPIError) {
+      return NextResponse.json(
+        {
+          error: err.message,
+          code: err.code,
+          quota: quota.toJSON(),
+          keys: keyPool.report(),
+        },
+        { status: YOUTUBE_ERROR_STATUS[err.code] ?? 500 }
+      );
+    }
+
+    console.error("[YouTube Keywords] Unexpected error:", err);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다. 잠시 후 다시 시도해 주세요." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "./route";
+import { setDataSource } from "@/lib/youtube/client";
+import { FixtureDataSource } from "@/lib/youtube/fixtureSource";
+import { resetExhaustedKeys } from "@/lib/youtube/keyPool";
+
+function callMarkets(body: unknown) {
+  return POST(
+    new NextRequest("http://localhost/api/youtube/markets", {
+      method: "POST",
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+const validBody = {
+  apiKey: "TEST-KEY",
+  keyword: "캠핑",
+  videoType: "longform",
+  markets: [{ regionCode: "KR" }, { regionCode: "JP" }],
+};
+
+const fetchMock = vi.fn();
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  setDataSource(new FixtureDataSource(path.join(process.cwd(), "fixtures", "youtube")));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  setDataSource(null);
+  resetExhaustedKeys();
+});
+
+describe("POST /api/youtube/markets", () => {
+  it.each([
+    ["API Key 누락", { ...validBody, apiKey: "" }],
+    ["시장 1개", { ...validBody, markets: [{ regionCode: "KR" }] }],
+    ["지역 중복", { ...validBody, markets: [{ regionCode: "KR" }, { regionCode: "KR" }] }],
+    ["지원하지 않는 지역", { ...validBody, markets: [{ regionCode: "KR" }, { regionCode: "ZZ" }] }],
+    ["지원하지 않는 언어", { ...validBody, markets: [{ regionCode: "KR" }, { regionCode: "JP", relevanceLanguage: "xx" }] }],
+  ])("%s → 400", async (_, body) => {
+    expect((await callMarkets(body)).status).toBe(400);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("시장마다 검색해 아웃라이어 수와 상위 영상을 반환 (언어 미지정 시 지역 기본 언어)", async () => {
+    const res = await callMarkets(validBody);
+    const text = await res.text();
+    const { markets, quota } = JSON.parse(text);
+
+    expect(res.status).toBe(200);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(markets.map((m: { regionCode: string; relevanceLanguage: string }) => [m.regionCode, m.relevanceLanguage]).sort()).toEqual([
+      ["JP", "ja"],
+      ["KR", "ko"],
+    ]);
+    expect(markets[0].total).toBeGreaterThan(0);
+    expect(markets[0].topVideos.length).toBeLessThanOrEqual(3);
+    expect(quota.byEndpoint.search.calls).toBe(4);
+    expect(quota.byEndpoint.playlistItems.calls).toBe(0);
+    expect(text).not.toContain("TEST-KEY");
+  });
+
+  it("다음 시장 비용이 예산에 남지 않으면 생략", async () => {
+    const { markets, quota } = await (await callMarkets({ ...validBody, quotaBudget: 250 })).json();
+    expect(markets.map((m: { regionCode: string }) => m.regionCode)).toEqual(["KR"]);
+    expect(quota.skipped).toEqual(["market:JP"]);
+  });
+});
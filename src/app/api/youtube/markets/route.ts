@@ -0,0 +1,184 @@
+/**
+ * app/api/youtube/markets/route.ts
+ * 시장 비교 Route Handler — 같은 키워드를 여러 지역·언어에서 검색해 아웃라이어 수로 비교
+ *
+ * - 시장마다 검색 1페이지 + 영상·채널 상세 (기여도 단계 생략, 비교 로직: lib/youtube/marketCompare.ts)
+ * - 예산이 모자라면 뒤쪽 시장부터 생략하고 quota.skipped에 "market:<지역>" 기록
+ * - API Key는 서버 로그에 절대 노출하지 않음
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { YouTubeAPIError, YOUTUBE_ERROR_STATUS } from "@/lib/youtube/client";
+import type { VideoType } from "@/lib/youtube/videoType";
+import {
+  defaultLanguageFor,
+  isRegionCode,
+  isRelevanceLanguage,
+  MAX_COMPARE_MARKETS,
+} from "@/lib/youtube/markets";
+import { compareMarkets, type MarketTarget } from "@/lib/youtube/marketCompare";
+import { QuotaTracker } from "@/lib/youtube/quota";
+import { buildKeyPool, collectRequestKeys } from "@/lib/youtube/keyPool";
+import { resolveRequestVaultKeys } from "@/lib/youtube/keyVault";
+import { getSessionUser } from "@/lib/auth/users";
+import { calcPublishedAfter, type UploadPeriod } from "@/lib/history/searchLog";
+import { chargeDailySearch, resolveRequestPlan } from "@/lib/billing/planLimit";
+import { resolveScoringProfile } from "@/lib/scoring/profileStore";
+import { toProfileRef } from "@/lib/scoring/profiles";
+
+// ─── 요청 타입 ────────────────────────────────────────────────────────────────
+
+interface MarketsRequestBody {
+  apiKey?: string;
+  apiKeys?: string[];
+  keyword: string;
+  videoType: VideoType;
+  uploadPeriod?: UploadPeriod;
+  /** 비교할 시장 (2~MAX_COMPARE_MARKETS개, 언어 미지정 시 지역의 기본 언어) */
+  markets: Array<{ regionCode: string; relevanceLanguage?: string }>;
+  /** 이번 요청에서 허용할 최대 할당량 unit (미설정 시 무제한) */
+  quotaBudget?: number | null;
+  scoringProfile?: string;
+}
+
+/** 본문의 시장 목록 검증 (지역 중복·미지원 값이면 null) */
+function parseMarkets(value: unknown): MarketTarget[] | null {
+  if (!Array.isArray(value) || value.length < 2 || value.length > MAX_COMPARE_MARKETS) return null;
+  const markets: MarketTarget[] = [];
+  for (const item of value) {
+    const regionCode = (item as { regionCode?: unknown })?.regionCode;
+    const relevanceLanguage =
+      (item as { relevanceLanguage?: unknown })?.relevanceLanguage ??
+      (isRegionCode(regionCode) ? defaultLanguageFor(regionCode) : undefined);
+    if (!isRegionCode(regionCode) || !isRelevanceLanguage(relevanceLanguage)) return null;
+    if (markets.some((m) => m.regionCode === regionCode)) return null;
+    markets.push({ regionCode, relevanceLanguage });
+  }
+  return markets;
+}
+
+// ─── POST 핸들러 ──────────────────────────────────────────────────────────────
+
+export async function POST(req: NextRequest) {
+  let body: Partial<MarketsRequestBody>;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: "요청 형식이 올바르지 않습니다." },
+      { status: 400 }
+    );
+  }
+
+  // ── 입력 유효성 검사 ─────────────────────────────────────────────────────
+  const { keyword, videoType, uploadPeriod, quotaBudget, scoringProfile } = body;
+  if (!keyword || typeof keyword !== "string" || keyword.trim() === "") {
+    return NextResponse.json(
+      { error: "검색 키워드를 입력해 주세요." },
+      { status: 400 }
+    );
+  }
+  if (videoType !== "shorts" && videoType !== "longform") {
+    return NextResponse.json(
+      { error: "videoType은 'shorts' 또는 'longform'이어야 합니다." },
+      { status: 400 }
+    );
+  }
+  const markets = parseMarkets(body.markets);
+  if (!markets) {
+    return NextResponse.json(
+      {
+        error: `비교할 시장을 서로 다른 지역으로 2~${MAX_COMPARE_MARKETS}개 선택해 주세요.`,
+        code: "UNSUPPORTED_MARKET",
+      },
+      { status: 400 }
+    );
+  }
+  if (
+    quotaBudget != null &&
+    (typeof quotaBudget !== "number" || !Number.isInteger(quotaBudget) || quotaBudget <= 0)
+  ) {
+    return NextResponse.json(
+      { error: "quotaBudget은 1 이상의 정수여야 합니다." },
+      { status: 400 }
+    );
+  }
+
+  const user = await getSessionUser(req);
+  const profile = await resolveScoringProfile(
+    user?.id ?? null,
+    typeof scoringProfile === "string" ? scoringProfile : undefined
+  );
+  if (!profile) {
+    return NextResponse.json(
+      { error: "알 수 없는 점수 기준입니다.", code: "UNKNOWN_SCORING_PROFILE" },
+      { status: 400 }
+    );
+  }
+
+  const keyPool = buildKeyPool([
+    ...collectRequestKeys(body),
+    ...(await resolveRequestVaultKeys(req)),
+  ]);
+  if (keyPool.size === 0) {
+    return NextResponse.json(
+      { error: "API Key를 입력해 주세요." },
+      { status: 400 }
+    );
+  }
+
+  // 요금제의 결과 수 제한은 시장별로 적용
+  const plan = resolveRequestPlan(req, user);
+  const quota = new QuotaTracker(quotaBudget ?? null);
+
+  // 새 유료 분석을 시작할 때만 요금제 일일 한도 차감
+  const limited = await chargeDailySearch(req, user);
+  if (limited) return limited;
+
+  console.log(
+    `[YouTube Markets] keyword="${keyword}" type=${videoType} markets=${markets.map((m) => m.regionCode).join(",")} keys=${keyPool.size}`
+  );
+
+  try {
+    const results = await compareMarkets({
+      keyPool,
+      quota,
+      keyword: keyword.trim(),
+      videoType,
+      publishedAfter: calcPublishedAfter(uploadPeriod),
+      markets,
+      filters: {},
+      maxResults: plan?.maxResults ?? 100,
+      profile,
+    });
+
+    console.log(
+      `[YouTube Markets] compared=${results.length} skipped=${quota.toJSON().skipped.length} quotaUsed=${quota.used}`
+    );
+
+    return NextResponse.json({
+      markets: results,
+      scoringProfile: toProfileRef(profile),
+      quota: quota.toJSON(),
+      keys: keyPool.report(),
+    });
+  } catch (err) {
+    if (err instanceof YouTubeAPIError) {
+      return NextResponse.json(
+        {
+          error: err.message,
+          code: err.code,
+          quota: quota.toJSON(),
+          keys: keyPool.report(),
+        },
+        { status: YOUTUBE_ERROR_STATUS[err.code] ?? 500 }
+      );
+    }
+
+    console.error("[YouTube Markets] Unexpected error:", err);
+    return NextResponse.json(
+      { error: "서버 오류가 발생했습니다. 잠시 후 다시 시도해 주세요." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,723 @@
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "./route";
+import { setDataSource } from "@/lib/youtube/client";
+import { FixtureDataSource } from "@/lib/youtube/fixtureSource";
+import { resetExhaustedKeys } from "@/lib/youtube/keyPool";
+import { setUserPlan, upsertUser } from "@/lib/auth/users";
+import { PLANS } from "@/lib/billing/plans";
+import { getDailyUsage } from "@/lib/billing/usage";
+import { readSession, SESSION_COOKIE, signToken } from "@/lib/auth/session";
+import { SCORING_PRESETS, type ScoreThresholds } from "@/lib/scoring/profiles";
+import { saveCustomProfile, selectScoringProfile } from "@/lib/scoring/profileStore";
+
+// ─── 가짜 YouTube API ─────────────────────────────────────────────────────────
+// medium: 1페이지(m1, m2) + 2페이지(m2 중복, m3) + 3페이지(m4) / long: l1 + m1(duration 간 중복)
+
+const searchPages: Record<string, Array<{ ids: string[]; next?: string }>> = {
+  medium: [{ ids: ["m1", "m2"], next: "TOKEN-2" }, { ids: ["m2", "m3"], next: "TOKEN-3" }, { ids: ["m4"] }],
+  long: [{ ids: ["l1", "m1"] }],
+};
+
+const videos: Record<string, { duration: string; views: number }> = {
+  m1: { duration: "PT10M", views: 5_000 },
+  m2: { duration: "PT12M", views: 500 },
+  m3: { duration: "PT8M", views: 2_000 },
+  m4: { duration: "PT15M", views: 4_000 },
+  l1: { duration: "PT25M", views: 30_000 },
+  s1: { duration: "PT9M", views: 1_000 },
+  s2: { duration: "PT11M", views: 3_000 },
+};
+
+const channelOf: Record<string, string> = { m1: "chA", m2: "chA", m3: "chB", m4: "chB", l1: "chB" };
+const subscribers: Record<string, number> = { chA: 1_000, chB: 1_000 };
+const uploads: Record<string, string[]> = { UUchA: ["s1", "s2"], UUchB: ["s1"] };
+
+function searchItem(id: string) {
+  return {
+    id: { videoId: id },
+    snippet: {
+      publishedAt: "2026-01-01T00:00:00Z",
+      channelId: channelOf[id],
+      title: `영상 ${id}`,
+      thumbnails: { high: { url: `https://i.ytimg.com/vi/${id}/hqdefault.jpg`, width: 480, height: 360 } },
+      channelTitle: channelOf[id],
+    },
+  };
+}
+
+function fakeYouTube(url: URL): unknown {
+  const p = url.searchParams;
+  const endpoint = url.pathname.split("/").pop();
+  switch (endpoint) {
+    case "search": {
+      const pages = searchPages[p.get("videoDuration")!];
+      const token = p.get("pageToken");
+      const page = pages[token ? Number(token.replace("TOKEN-", "")) - 1 : 0];
+      return { items: page.ids.map(searchItem), nextPageToken: page.next };
+    }
+    case "videos":
+      return {
+        items: p.get("id")!.split(",").map((id) => ({
+          id,
+          contentDetails: { duration: videos[id].duration },
+          statistics: { viewCount: String(videos[id].views) },
+        })),
+      };
+    case "channels":
+      return {
+        items: p.get("id")!.split(",").map((id) => ({
+          id,
+          contentDetails: { relatedPlaylists: { uploads: `UU${id}` } },
+          statistics: { subscriberCount: String(subscribers[id]), videoCount: "10" },
+        })),
+      };
+    case "playlistItems":
+      return {
+        items: uploads[p.get("playlistId")!].map((id) => ({
+          snippet: { resourceId: { videoId: id } },
+        })),
+      };
+  }
+  throw new Error(`unexpected endpoint ${endpoint}`);
+}
+
+async function fakeFetch(input: string | URL): Promise<Response> {
+  const url = new URL(input.toString());
+  return new Response(JSON.stringify(fakeYouTube(url)), { status: 200 });
+}
+
+const fetchMock = vi.fn(fakeFetch);
+
+function callSearch(body: unknown, cookie?: string) {
+  return POST(
+    new NextRequest("http://localhost/api/youtube/search", {
+      method: "POST",
+      body: typeof body === "string" ? body : JSON.stringify(body),
+      headers: cookie ? { cookie } : undefined,
+    })
+  );
+}
+
+const validBody = { apiKey: "TEST-KEY", keyword: "캠핑", videoType: "longform" };
+
+// 검색 기록·이어가기 상태는 테스트마다 임시 디렉터리에 저장
+let dataDir: string;
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "yt-search-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  setDataSource(null);
+  resetExhaustedKeys();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+// ─── 입력 검증 ────────────────────────────────────────────────────────────────
+
+describe("POST /api/youtube/search 입력 검증", () => {
+  it.each([
+    ["JSON 아님", "not json"],
+    ["API Key 누락", { ...validBody, apiKey: "" }],
+    ["키워드 누락", { ...validBody, keyword: "  " }],
+    ["videoType 오류", { ...validBody, videoType: "live" }],
+    ["예산이 정수가 아님", { ...validBody, quotaBudget: 1.5 }],
+    ["유형 확신도 범위 밖", { ...validBody, minTypeConfidence: 0.3 }],
+    ["지원하지 않는 지역", { ...validBody, regionCode: "ZZ" }],
+    ["지원하지 않는 언어", { ...validBody, regionCode: "JP", relevanceLanguage: "xx" }],
+  ])("%s → 400", async (_, body) => {
+    const res = await callSearch(body);
+    expect(res.status).toBe(400);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+// ─── 정상 흐름 ────────────────────────────────────────────────────────────────
+
+describe("POST /api/youtube/search", () => {
+  it("페이지·duration 간 중복을 병합하고 조회수 >= 구독자 영상만 반환", async () => {
+    const res = await callSearch(validBody);
+    const data = await res.json();
+
+    expect(res.status).toBe(200);
+    // m2(500 < 1000)는 필터링, 성과도 → 비율 순 정렬
+    expect(data.videos.map((v: { id: string }) => v.id)).toEqual(["l1", "m1", "m3"]);
+    expect(data.total).toBe(3);
+
+    // chA 평균 = (1000 + 3000) / 2, m1 = 5000 → 기여도 Good
+    const m1 = data.videos.find((v: { id: string }) => v.id === "m1");
+    expect(m1.channelAvgViews).toBe(2_000);
+    expect(m1.contributionScore.label).toBe("Good");
+
+    // search 3회(medium 2페이지 + long 1페이지) + 채널 2개 평균
+    expect(data.quota.byEndpoint.search).toEqual({ calls: 3, units: 300 });
+    expect(data.quota.byEndpoint.playlistItems.calls).toBe(2);
+    expect(data.quota.used).toBe(300 + 1 + 1 + 2 + 2);
+  });
+
+  it("API Key는 응답에 포함되지 않음", async () => {
+    const res = await callSearch(validBody);
+    expect(await res.text()).not.toContain("TEST-KEY");
+  });
+
+  it.each([199, 200, 201])("예산(%i)이 1페이지 검색 + 상세 조회 비용보다 작으면 호출 없이 429", async (quotaBudget) => {
+    const res = await callSearch({ ...validBody, quotaBudget });
+    const data = await res.json();
+    expect(res.status).toBe(429);
+    expect(data.code).toBe("BUDGET_EXCEEDED");
+    expect(data.quota.used).toBe(0);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("예산이 부족하면 2페이지와 채널 평균 단계를 생략", async () => {
+    const res = await callSearch({ ...validBody, quotaBudget: 204 });
+    const data = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(data.quota.skipped).toEqual(["searchPage2", "channelAvg"]);
+    expect(data.quota.used).toBe(202);
+    expect(data.videos.every((v: { contributionScore: unknown }) => v.contributionScore === null)).toBe(true);
+  });
+});
+
+// ─── 에러 매핑 ────────────────────────────────────────────────────────────────
+
+describe("POST /api/youtube/search 에러 매핑", () => {
+  it.each([
+    [403, "quotaExceeded", 429, "QUOTA_EXCEEDED"],
+    [400, "keyInvalid", 401, "INVALID_API_KEY"],
+    [400, "badRequest", 400, "BAD_REQUEST"],
+    [403, "forbidden", 403, "FORBIDDEN"],
+    [500, "backendError", 500, "UNKNOWN"],
+  ])("YouTube %s %s → %s", async (upstream, reason, status, code) => {
+    fetchMock.mockImplementation(async () =>
+      new Response(JSON.stringify({ error: { message: "x", errors: [{ reason }] } }), {
+        status: upstream,
+      })
+    );
+    const res = await callSearch(validBody);
+    expect(res.status).toBe(status);
+    expect((await res.json()).code).toBe(code);
+  });
+
+  it("네트워크 오류 → 503", async () => {
+    fetchMock.mockImplementation(async () => {
+      throw new TypeError("fetch failed");
+    });
+    const res = await callSearch(validBody);
+    expect(res.status).toBe(503);
+  });
+});
+
+// ─── 키 풀 ───────────────────────────────────────────────────────────────────
+
+describe("POST /api/youtube/search 키 풀", () => {
+  it("첫 키가 quotaExceeded면 다음 키로 전환하고 키 값 없이 사용 내역을 보고", async () => {
+    fetchMock.mockImplementation(async (input) => {
+      const url = new URL(input.toString());
+      if (url.searchParams.get("key") === "KEY-A") {
+        return new Response(
+          JSON.stringify({ error: { message: "x", errors: [{ reason: "quotaExceeded" }] } }),
+          { status: 403 }
+        );
+      }
+      return fakeFetch(input);
+    });
+
+    const res = await callSearch({ ...validBody, apiKey: undefined, apiKeys: ["KEY-A", "KEY-B"] });
+    const text = await res.text();
+    const data = JSON.parse(text);
+
+    expect(res.status).toBe(200);
+    expect(data.total).toBe(3);
+    expect(data.keys.map((k: { label: string; status: string }) => [k.label, k.status])).toEqual([
+      ["key#1", "exhausted"],
+      ["key#2", "active"],
+    ]);
+    expect(data.keys[0].exhaustedUntil).toBeDefined();
+    expect(text).not.toContain("KEY-A");
+    expect(text).not.toContain("KEY-B");
+
+    // 소진된 키는 다음 요청에서 시도조차 하지 않음
+    fetchMock.mockClear();
+    await callSearch({ ...validBody, apiKey: undefined, apiKeys: ["KEY-A", "KEY-B"] });
+    const usedKeys = fetchMock.mock.calls.map(([input]) => new URL(input.toString()).searchParams.get("key"));
+    expect(new Set(usedKeys)).toEqual(new Set(["KEY-B"]));
+  });
+
+  it("모든 키가 소진되면 429 QUOTA_EXCEEDED", async () => {
+    fetchMock.mockImplementation(async () =>
+      new Response(JSON.stringify({ error: { message: "x", errors: [{ reason: "quotaExceeded" }] } }), {
+        status: 403,
+      })
+    );
+    const res = await callSearch({ ...validBody, apiKeys: ["KEY-B"] });
+    const data = await res.json();
+    expect(res.status).toBe(429);
+    expect(data.code).toBe("QUOTA_EXCEEDED");
+    expect(data.keys.every((k: { status: string }) => k.status === "exhausted")).toBe(true);
+  });
+});
+
+// ─── 페이지 깊이와 이어가기 ───────────────────────────────────────────────────
+
+describe("POST /api/youtube/search 페이지 깊이와 이어가기", () => {
+  beforeEach(() => {
+    fetchMock.mockImplementation(fakeFetch);
+  });
+
+  /** 호출된 search.list의 pageToken 목록 (첫 페이지는 null) */
+  function searchPageTokens() {
+    return fetchMock.mock.calls
+      .map(([input]) => new URL(input.toString()))
+      .filter((url) => url.pathname.endsWith("/search"))
+      .map((url) => url.searchParams.get("pageToken"));
+  }
+
+  it("pageDepth만큼 다음 페이지를 조회하고 마지막 페이지면 이어가기 없음", async () => {
+    const data = await (await callSearch({ ...validBody, pageDepth: 3 })).json();
+
+    expect(searchPageTokens()).toEqual([null, null, "TOKEN-2", "TOKEN-3"]);
+    expect(data.videos.map((v: { id: string }) => v.id).sort()).toEqual(["l1", "m1", "m3", "m4"]);
+    expect(data.paging).toEqual({ pageDepth: 3, pagesFetched: 3, continuation: null, nextPageCost: 0 });
+  });
+
+  it("이어가기는 저장된 토큰부터 재개하고 이미 받은 영상은 제외", async () => {
+    const first = await (await callSearch({ ...validBody, pageDepth: 1 })).json();
+    expect(first.paging).toMatchObject({ pagesFetched: 1, nextPageCost: 100 });
+    expect(first.paging.continuation).toEqual(expect.any(String));
+
+    fetchMock.mockClear();
+    const second = await (
+      await callSearch({ apiKey: "TEST-KEY", continuation: first.paging.continuation, pageDepth: 1 })
+    ).json();
+    expect(searchPageTokens()).toEqual(["TOKEN-2"]);
+    // m2는 1페이지에서 이미 받았으므로 제외
+    expect(second.videos.map((v: { id: string }) => v.id)).toEqual(["m3"]);
+    expect(second.quota.byEndpoint.search.units).toBe(100);
+    expect(second.paging).toMatchObject({ pagesFetched: 2, nextPageCost: 100 });
+
+    const third = await (
+      await callSearch({ apiKey: "TEST-KEY", continuation: second.paging.continuation })
+    ).json();
+    expect(third.videos.map((v: { id: string }) => v.id)).toEqual(["m4"]);
+    expect(third.paging).toMatchObject({ pagesFetched: 3, continuation: null });
+
+    // 한 번 사용한 이어가기 ID는 폐기
+    const reused = await callSearch({ apiKey: "TEST-KEY", continuation: first.paging.continuation });
+    expect(reused.status).toBe(410);
+    expect((await reused.json()).code).toBe("CONTINUATION_EXPIRED");
+  });
+
+  it("같은 이어가기 ID로 동시에 요청하면 한 요청만 진행", async () => {
+    const first = await (await callSearch({ ...validBody, pageDepth: 1 })).json();
+    fetchMock.mockClear();
+
+    const body = { apiKey: "TEST-KEY", continuation: first.paging.continuation, pageDepth: 1 };
+    const statuses = (await Promise.all([callSearch(body), callSearch(body)])).map((res) => res.status);
+    expect(statuses.sort()).toEqual([200, 410]);
+    expect(searchPageTokens()).toEqual(["TOKEN-2"]);
+  });
+
+  it("이어가기 실행이 실패하면 같은 ID로 다시 시도 가능", async () => {
+    const first = await (await callSearch({ ...validBody, pageDepth: 1 })).json();
+    const body = { apiKey: "TEST-KEY", continuation: first.paging.continuation, pageDepth: 1 };
+
+    fetchMock.mockImplementation(async () =>
+      new Response(JSON.stringify({ error: { message: "x", errors: [{ reason: "badRequest" }] } }), {
+        status: 400,
+      })
+    );
+    expect((await callSearch(body)).status).not.toBe(200);
+
+    fetchMock.mockImplementation(fakeFetch);
+    const retried = await callSearch(body);
+    expect(retried.status).toBe(200);
+    expect((await retried.json()).paging.pagesFetched).toBe(2);
+  });
+
+  it("다른 사용자의 이어가기 ID는 사용할 수 없음", async () => {
+    const first = await (await callSearch({ ...validBody, pageDepth: 1 })).json();
+    const user = await upsertUser({
+      provider: "google",
+      providerUserId: "other",
+      name: "다른 사용자",
+      email: null,
+      avatarUrl: null,
+    });
+    const cookie = `${SESSION_COOKIE}=${signToken({ uid: user.id, exp: Date.now() + 60_000 })}`;
+
+    const res = await callSearch({ apiKey: "TEST-KEY", continuation: first.paging.continuation }, cookie);
+    expect(res.status).toBe(410);
+  });
+
+  it.each([0, 6, 1.5])("pageDepth=%s → 400", async (pageDepth) => {
+    const res = await callSearch({ ...validBody, pageDepth });
+    expect(res.status).toBe(400);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+// ─── NDJSON 스트리밍 ──────────────────────────────────────────────────────────
+
+describe("POST /api/youtube/search 스트리밍", () => {
+  /** Accept: application/x-ndjson 요청 후 이벤트 목록으로 파싱 */
+  async function streamSearch(body: unknown) {
+    const res = await POST(
+      new NextRequest("http://localhost/api/youtube/search", {
+        method: "POST",
+        body: JSON.stringify(body),
+        headers: { accept: "application/x-ndjson" },
+      })
+    );
+    const text = await res.text();
+    return {
+      res,
+      events: text
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line)),
+    };
+  }
+
+  it("진행률 → 성과도 영상 → 채널별 기여도 → done 순서로 전송", async () => {
+    fetchMock.mockImplementation(fakeFetch);
+    const { res, events } = await streamSearch(validBody);
+
+    expect(res.headers.get("content-type")).toBe("application/x-ndjson");
+    const types = events.map((e) => e.type);
+    expect(types[0]).toBe("progress");
+    expect(types.indexOf("videos")).toBeLessThan(types.indexOf("contribution"));
+    expect(types.at(-1)).toBe("done");
+
+    // 영상은 기여도 없이 먼저 도착
+    const videosEvent = events.find((e) => e.type === "videos");
+    expect(videosEvent.videos.every((v: { contributionScore: unknown }) => v.contributionScore === null)).toBe(true);
+
+    // 기여도 이벤트를 반영하면 최종 결과와 같음
+    const contributions = new Map<string, unknown>();
+    for (const e of events.filter((e) => e.type === "contribution")) {
+      for (const v of e.videos) contributions.set(v.id, v.contributionScore);
+    }
+    const done = events.at(-1);
+    for (const v of done.videos) expect(contributions.get(v.id) ?? null).toEqual(v.contributionScore);
+
+    const avgProgress = events.filter((e) => e.type === "progress" && e.stage === "channelAvg");
+    expect(avgProgress.at(-1)).toMatchObject({ done: 2, total: 2 });
+    expect(done.quota.used).toBe(306);
+  });
+
+  it("처리 중 YouTube 오류는 error 이벤트로 전달", async () => {
+    fetchMock.mockImplementation(async () =>
+      new Response(JSON.stringify({ error: { message: "x", errors: [{ reason: "quotaExceeded" }] } }), {
+        status: 403,
+      })
+    );
+    const { res, events } = await streamSearch(validBody);
+
+    expect(res.status).toBe(200);
+    expect(events.at(-1)).toMatchObject({ type: "error", status: 429, code: "QUOTA_EXCEEDED" });
+  });
+
+  it("클라이언트가 연결을 끊으면 다음 유료 호출 전에 중단", async () => {
+    // 2페이지 검색 호출은 연결 종료 뒤에 응답
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    fetchMock.mockImplementation(async (input) => {
+      if (new URL(input.toString()).searchParams.get("pageToken")) await gate;
+      return fakeFetch(input);
+    });
+    const res = await POST(
+      new NextRequest("http://localhost/api/youtube/search", {
+        method: "POST",
+        body: JSON.stringify(validBody),
+        headers: { accept: "application/x-ndjson" },
+      })
+    );
+    const reader = res.body!.getReader();
+    const first = JSON.parse(new TextDecoder().decode((await reader.read()).value).split("\n")[0]);
+    expect(first).toMatchObject({ type: "progress", stage: "search", done: 1 });
+
+    await reader.cancel();
+    release();
+    await vi.waitFor(() =>
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining("클라이언트 연결 종료로 중단"))
+    );
+
+    const endpoints = fetchMock.mock.calls.map(([input]) => new URL(input.toString()).pathname.split("/").pop());
+    expect(endpoints.every((e) => e === "search")).toBe(true);
+  });
+
+  it("입력 오류는 스트리밍 전에 JSON으로 응답", async () => {
+    const { res } = await streamSearch({ ...validBody, keyword: "" });
+    expect(res.status).toBe(400);
+  });
+});
+
+// ─── fixture 데이터 소스 ──────────────────────────────────────────────────────
+
+describe("POST /api/youtube/search (fixture 데이터 소스)", () => {
+  it("녹화된 fixture로 네트워크 없이 전체 흐름 실행", async () => {
+    setDataSource(new FixtureDataSource(path.join(process.cwd(), "fixtures", "youtube")));
+
+    const res = await callSearch({ ...validBody, videoType: "shorts" });
+    const data = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(data.total).toBeGreaterThan(0);
+    for (const video of data.videos) {
+      expect(video.viewCount).toBeGreaterThanOrEqual(video.subscriberCount);
+      expect(video.contributionScore).not.toBeNull();
+    }
+  });
+});
+
+// ─── 검색 기록 / 스냅샷 재사용 ────────────────────────────────────────────────
+
+describe("POST /api/youtube/search 검색 기록", () => {
+  let cookie: string;
+
+  beforeEach(async () => {
+    fetchMock.mockImplementation(fakeFetch);
+    const user = await upsertUser({
+      provider: "google",
+      providerUserId: "1",
+      name: "테스터",
+      email: null,
+      avatarUrl: null,
+    });
+    cookie = `${SESSION_COOKIE}=${signToken({ uid: user.id, exp: Date.now() + 60_000 })}`;
+  });
+
+  it("로그인 사용자의 검색은 기록되고, 같은 조건 재검색은 할당량 없이 스냅샷 재사용", async () => {
+    const first = await (await callSearch(validBody, cookie)).json();
+    expect(first.historyId).toBeDefined();
+    expect(first.quota.used).toBeGreaterThan(0);
+
+    fetchMock.mockClear();
+    const res = await callSearch({ ...validBody, apiKey: undefined }, cookie);
+    const second = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(second.snapshot.id).toBe(first.historyId);
+    expect(second.quota.used).toBe(0);
+    expect(second.videos).toEqual(first.videos);
+  });
+
+  it("예산 부족으로 단계를 생략한 검색은 스냅샷으로 재사용하지 않음", async () => {
+    const partial = await (await callSearch({ ...validBody, quotaBudget: 204 }, cookie)).json();
+    expect(partial.quota.skipped).not.toEqual([]);
+    expect(partial.historyId).toBeDefined();
+
+    fetchMock.mockClear();
+    const data = await (await callSearch(validBody, cookie)).json();
+    expect(fetchMock).toHaveBeenCalled();
+    expect(data.snapshot).toBeUndefined();
+  });
+
+  it("forceRefresh면 스냅샷을 무시하고 새로 검색", async () => {
+    await callSearch(validBody, cookie);
+    fetchMock.mockClear();
+
+    const data = await (await callSearch({ ...validBody, forceRefresh: true }, cookie)).json();
+    expect(fetchMock).toHaveBeenCalled();
+    expect(data.snapshot).toBeUndefined();
+  });
+
+  it("더 얕게 조회한 스냅샷은 더 깊은 검색에 재사용하지 않음", async () => {
+    await callSearch({ ...validBody, pageDepth: 1 }, cookie);
+    fetchMock.mockClear();
+
+    const deeper = await (await callSearch({ ...validBody, pageDepth: 2 }, cookie)).json();
+    expect(fetchMock).toHaveBeenCalled();
+    expect(deeper.snapshot).toBeUndefined();
+
+    fetchMock.mockClear();
+    const shallower = await (await callSearch({ ...validBody, pageDepth: 1 }, cookie)).json();
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(shallower.snapshot.id).toBe(deeper.historyId);
+  });
+
+  it("조건이 다르거나 비로그인이면 재사용하지 않음", async () => {
+    await callSearch(validBody, cookie);
+    fetchMock.mockClear();
+
+    await callSearch({ ...validBody, uploadPeriod: "1month" }, cookie);
+    expect(fetchMock).toHaveBeenCalled();
+
+    fetchMock.mockClear();
+    const anonymous = await (await callSearch(validBody)).json();
+    expect(fetchMock).toHaveBeenCalled();
+    expect(anonymous.historyId).toBeUndefined();
+  });
+});
+
+// ─── 요금제 ───────────────────────────────────────────────────────────────────
+
+describe("POST /api/youtube/search 요금제", () => {
+  beforeEach(() => {
+    fetchMock.mockImplementation(fakeFetch);
+  });
+
+  async function sessionCookie(plan?: "pro") {
+    const user = await upsertUser({
+      provider: "kakao",
+      providerUserId: plan ?? "free",
+      name: "테스터",
+      email: null,
+      avatarUrl: null,
+    });
+    if (plan) await setUserPlan(user.id, plan);
+    return `${SESSION_COOKIE}=${signToken({ uid: user.id, exp: Date.now() + 60_000 })}`;
+  }
+
+  it("무료 요금제는 채널 평균 단계를 건너뛰고 기여도 없이 응답", async () => {
+    const data = await (await callSearch(validBody, await sessionCookie())).json();
+
+    expect(data.plan).toEqual({ id: "free", maxResults: PLANS.free.maxResults, restricted: ["channelAvg"] });
+    const endpoints = fetchMock.mock.calls.map(([input]) => new URL(input.toString()).pathname.split("/").pop());
+    expect(endpoints).not.toContain("playlistItems");
+    expect(data.videos.length).toBeGreaterThan(0);
+    expect(data.videos.every((v: { contributionScore: unknown }) => v.contributionScore === null)).toBe(true);
+  });
+
+  it("유료 요금제는 채널 평균 포함", async () => {
+    const data = await (await callSearch(validBody, await sessionCookie("pro"))).json();
+
+    expect(data.plan).toEqual({ id: "pro", maxResults: PLANS.pro.maxResults, restricted: [] });
+    expect(data.videos.some((v: { contributionScore: unknown }) => v.contributionScore !== null)).toBe(true);
+  });
+
+  it("일일 한도는 새 검색에서만 차감하고 스냅샷 재사용·이어가기는 차감하지 않음", async () => {
+    const cookie = await sessionCookie();
+    const uid = readSession(new NextRequest("http://localhost", { headers: { cookie } }))!.uid;
+
+    const first = await (await callSearch({ ...validBody, pageDepth: 1 }, cookie)).json();
+    expect(first.paging.continuation).toEqual(expect.any(String));
+    await callSearch({ apiKey: "TEST-KEY", continuation: first.paging.continuation }, cookie);
+    const replay = await (await callSearch({ ...validBody, pageDepth: 1 }, cookie)).json();
+    expect(replay.snapshot).toBeDefined();
+    expect((await getDailyUsage(uid, PLANS.free.dailySearches)).used).toBe(1);
+
+    for (let i = 1; i < PLANS.free.dailySearches; i++) {
+      expect((await callSearch({ ...validBody, keyword: `캠핑 ${i}` }, cookie)).status).toBe(200);
+    }
+    fetchMock.mockClear();
+    const limited = await callSearch({ ...validBody, keyword: "새 키워드" }, cookie);
+    expect(limited.status).toBe(429);
+    expect((await limited.json()).code).toBe("PLAN_LIMIT");
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    // 한도를 다 써도 무료인 스냅샷 재사용은 가능
+    expect((await callSearch({ ...validBody, pageDepth: 1 }, cookie)).status).toBe(200);
+  });
+
+  it("삭제된 사용자의 유효한 세션은 무료 요금제로 제한·차감", async () => {
+    const cookie = `${SESSION_COOKIE}=${signToken({ uid: "google:deleted", exp: Date.now() + 60_000 })}`;
+
+    const data = await (await callSearch(validBody, cookie)).json();
+    expect(data.plan).toEqual({ id: "free", maxResults: PLANS.free.maxResults, restricted: ["channelAvg"] });
+    expect((await getDailyUsage("google:deleted", PLANS.free.dailySearches)).used).toBe(1);
+  });
+
+  it("이어가기 1회 페이지 수는 요금제 한도까지만", async () => {
+    const cookie = await sessionCookie();
+    const first = await (await callSearch({ ...validBody, pageDepth: 1 }, cookie)).json();
+    fetchMock.mockClear();
+
+    const data = await (
+      await callSearch({ apiKey: "TEST-KEY", continuation: first.paging.continuation, pageDepth: 5 }, cookie)
+    ).json();
+    expect(data.paging).toMatchObject({ pageDepth: PLANS.free.continuationPageDepth, pagesFetched: 2 });
+    const searchCalls = fetchMock.mock.calls.filter(([input]) => new URL(input.toString()).pathname.endsWith("/search"));
+    expect(searchCalls).toHaveLength(PLANS.free.continuationPageDepth);
+  });
+});
+
+// ─── 점수 기준 ────────────────────────────────────────────────────────────────
+
+describe("POST /api/youtube/search 점수 기준", () => {
+  beforeEach(() => {
+    fetchMock.mockImplementation(fakeFetch);
+  });
+
+  it("핵심 필터가 없는 기준은 구독자보다 적게 조회된 영상도 포함하고 기준을 기록", async () => {
+    const data = await (await callSearch({ ...validBody, scoringProfile: "discovery" })).json();
+
+    expect(data.videos.map((v: { id: string }) => v.id)).toContain("m2");
+    expect(data.scoringProfile).toEqual({ id: "discovery", name: SCORING_PRESETS.discovery.name });
+    expect(
+      data.videos.every((v: { scoringProfile: { id: string } }) => v.scoringProfile.id === "discovery")
+    ).toBe(true);
+  });
+
+  it("알 수 없는 기준 → 400, 호출 없음", async () => {
+    const res = await callSearch({ ...validBody, scoringProfile: "nope" });
+    expect(res.status).toBe(400);
+    expect((await res.json()).code).toBe("UNKNOWN_SCORING_PROFILE");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("지정하지 않으면 저장된 선택을 사용하고, 기준이 다르면 스냅샷을 재사용하지 않음", async () => {
+    const user = await upsertUser({
+      provider: "google",
+      providerUserId: "scoring",
+      name: "테스터",
+      email: null,
+      avatarUrl: null,
+    });
+    const cookie = `${SESSION_COOKIE}=${signToken({ uid: user.id, exp: Date.now() + 60_000 })}`;
+    await callSearch(validBody, cookie);
+
+    await selectScoringProfile(user.id, "largeChannel");
+    fetchMock.mockClear();
+    const data = await (await callSearch(validBody, cookie)).json();
+
+    expect(fetchMock).toHaveBeenCalled();
+    expect(data.snapshot).toBeUndefined();
+    expect(data.scoringProfile.id).toBe("largeChannel");
+  });
+
+  it("사용자 정의 기준을 수정하면 이전 스냅샷을 재사용하지 않음", async () => {
+    const user = await upsertUser({
+      provider: "google",
+      providerUserId: "custom",
+      name: "테스터",
+      email: null,
+      avatarUrl: null,
+    });
+    const cookie = `${SESSION_COOKIE}=${signToken({ uid: user.id, exp: Date.now() + 60_000 })}`;
+    const customProfile = (minViewToSubscriberRatio: number | null) => ({
+      name: "내 기준",
+      performance: [5, 3, 1, 0.5] as ScoreThresholds,
+      contribution: [10, 5, 1, 0.5] as ScoreThresholds,
+      minViewToSubscriberRatio,
+    });
+    const custom = (await saveCustomProfile(user.id, customProfile(1)))!;
+    const body = { ...validBody, scoringProfile: custom.id };
+    await callSearch(body, cookie);
+    expect((await (await callSearch(body, cookie)).json()).snapshot).toBeDefined();
+
+    await new Promise((resolve) => setTimeout(resolve, 2));
+    await saveCustomProfile(user.id, customProfile(null), custom.id);
+    fetchMock.mockClear();
+    const data = await (await callSearch(body, cookie)).json();
+    expect(fetchMock).toHaveBeenCalled();
+    expect(data.snapshot).toBeUndefined();
+    expect(data.videos.map((v: { id: string }) => v.id)).toContain("m2");
+  });
+});
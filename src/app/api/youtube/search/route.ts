@@ -3,52 +3,118 @@
  * YouTube 영상 검색 Route Handler
  *
  * - 모든 YouTube API 호출은 여기서만 수행 (브라우저 직접 호출 금지)
- * - API Key는 서버 로그에 절대 노출하지 않음
- * - 요청마다 즉시 사용 후 메모리에서 소멸 (영구 저장 없음)
+ * - API Key는 서버 로그에 절대 노출하지 않음 (키 풀 보고는 라벨·지문만 사용)
+ * - 로그인 사용자: 검색 기록(사용내역) 저장, 같은 조건의 최신 스냅샷은 할당량 없이 재사용
+ * - 요금제 일일 한도는 새 검색에서만 차감 (스냅샷 재사용·이어가기는 차감하지 않음)
+ * - scoringProfile로 점수 경계값·핵심 필터 기준 선택 (lib/scoring)
+ * - regionCode·relevanceLanguage로 검색 대상 시장 지정 (기본 KR·ko, 여러 시장 비교는 /api/youtube/markets)
+ * - pageDepth로 검색 페이지 수 지정, continuation으로 이전 검색의 다음 페이지부터 이어서 조회
+ *   (이어가기 ID는 실행 직전에 선점, 1회 페이지 수는 요금제 continuationPageDepth까지)
+ * - Accept: application/x-ndjson이면 진행률·영상·기여도를 한 줄씩 스트리밍 (파이프라인: lib/youtube/searchPipeline.ts)
+ * - 본문으로 받은 키는 요청마다 즉시 사용 후 소멸 (영구 저장은 /api/keys 등록 시 암호화 보관만)
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { YouTubeAPIError, YOUTUBE_ERROR_STATUS } from "@/lib/youtube/client";
 import {
-  searchVideos,
-  getVideoDetails,
-  getChannelDetails,
-  getPlaylistItems,
-  YouTubeAPIError,
-} from "@/lib/youtube/client";
-import { getVideoTypeSearchParams, type VideoType } from "@/lib/youtube/videoType";
+  DEFAULT_TYPE_CONFIDENCE,
+  MAX_TYPE_CONFIDENCE,
+  MIN_TYPE_CONFIDENCE,
+  getVideoTypeSearchParams,
+  type VideoType,
+} from "@/lib/youtube/videoType";
 import {
-  buildAndFilterResults,
-  calcChannelAvgViews,
-  type BuildFilterOptions,
-} from "@/lib/youtube/analysis";
+  DEFAULT_REGION_CODE,
+  defaultLanguageFor,
+  isRegionCode,
+  isRelevanceLanguage,
+} from "@/lib/youtube/markets";
+import {
+  QuotaTracker,
+  DEFAULT_PAGE_DEPTH,
+  MAX_PAGE_DEPTH,
+  searchDetailReserve,
+  searchPageCost,
+} from "@/lib/youtube/quota";
+import { buildKeyPool, collectRequestKeys } from "@/lib/youtube/keyPool";
+import { resolveRequestVaultKeys } from "@/lib/youtube/keyVault";
+import { getSessionUser } from "@/lib/auth/users";
+import {
+  appendSearchLog,
+  calcPublishedAfter,
+  findFreshSnapshot,
+  type SearchFilters,
+  type UploadPeriod,
+} from "@/lib/history/searchLog";
+import { chargeDailySearch, resolveRequestPlan } from "@/lib/billing/planLimit";
+import {
+  claimContinuation,
+  loadContinuation,
+  releaseContinuation,
+  saveContinuation,
+  type SearchContinuation,
+} from "@/lib/youtube/searchContinuation";
+import {
+  NDJSON_CONTENT_TYPE,
+  runKeywordSearch,
+  type KeywordSearchOutcome,
+  type SearchPipelineEvent,
+  type SearchStreamEvent,
+} from "@/lib/youtube/searchPipeline";
+import { resolveScoringProfile } from "@/lib/scoring/profileStore";
+import { toProfileRef } from "@/lib/scoring/profiles";
 
 // ─── 요청/응답 타입 ────────────────────────────────────────────────────────────
 
-type UploadPeriod = "all" | "1month" | "3months" | "6months" | "1year";
-
 interface SearchRequestBody {
-  apiKey: string;
+  apiKey?: string;
+  /** 우선순위 순서의 API Key 목록 (할당량 소진 시 다음 키로 전환) */
+  apiKeys?: string[];
   keyword: string;
   videoType: VideoType;
   uploadPeriod?: UploadPeriod;
   minViewCount?: number;
   maxSubscriberCount?: number | null;
+  /** 검색 대상 지역 (ISO 3166-1 alpha-2, 기본 KR) */
+  regionCode?: string;
+  /** 결과 언어 우선순위 (기본: 지역의 기본 언어) */
+  relevanceLanguage?: string;
+  /** 요청한 유형(Shorts/롱폼)일 최소 확신도 (MIN~MAX_TYPE_CONFIDENCE, 기본 0.5) */
+  minTypeConfidence?: number;
+  /** 이번 요청에서 허용할 최대 할당량 unit (미설정 시 무제한) */
+  quotaBudget?: number | null;
+  /** true면 최신 스냅샷이 있어도 재사용하지 않고 새로 검색 */
+  forceRefresh?: boolean;
+  /** videoDuration별로 조회할 검색 페이지 수 (1~MAX_PAGE_DEPTH, 기본 2) */
+  pageDepth?: number;
+  /** 이전 응답의 paging.continuation — 지정 시 저장된 조건으로 다음 페이지부터 이어서 조회 */
+  continuation?: string;
+  /** 점수 기준 ID (프리셋 또는 사용자 기준, 미설정 시 저장된 선택) */
+  scoringProfile?: string;
 }
 
-/** 업로드 기간 키를 ISO 8601 날짜 문자열로 변환 */
-function calcPublishedAfter(period?: UploadPeriod): string | undefined {
-  if (!period || period === "all") return undefined;
-  const now = new Date();
-  if (period === "1month") now.setMonth(now.getMonth() - 1);
-  else if (period === "3months") now.setMonth(now.getMonth() - 3);
-  else if (period === "6months") now.setMonth(now.getMonth() - 6);
-  else if (period === "1year") now.setFullYear(now.getFullYear() - 1);
-  else return undefined;
-  return now.toISOString();
+/** 이어가기 정보 (응답의 paging 필드) */
+interface SearchPaging {
+  pageDepth: number;
+  /** 지금까지 조회한 페이지 단계 수 (이어가기 누적) */
+  pagesFetched: number;
+  /** 다음 페이지가 남아 있으면 이어가기 ID, 없으면 null */
+  continuation: string | null;
+  /** 다음 페이지 1단계 조회 비용 (search.list만, 상세 조회 제외) */
+  nextPageCost: number;
 }
 
 // ─── POST 핸들러 ──────────────────────────────────────────────────────────────
 
+const continuationExpired = () =>
+  NextResponse.json(
+    {
+      error: "이어서 검색할 수 있는 시간이 지났습니다. 다시 검색해 주세요.",
+      code: "CONTINUATION_EXPIRED",
+    },
+    { status: 410 }
+  );
+
 export async function POST(req: NextRequest) {
   let body: Partial<SearchRequestBody>;
 
@@ -61,15 +127,39 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  const { apiKey, keyword, videoType, uploadPeriod, minViewCount, maxSubscriberCount } = body;
+  const user = await getSessionUser(req);
 
-  // ── 입력 유효성 검사 ─────────────────────────────────────────────────────
-  if (!apiKey || typeof apiKey !== "string" || apiKey.trim() === "") {
-    return NextResponse.json(
-      { error: "API Key를 입력해 주세요." },
-      { status: 400 }
-    );
+  // ── 이어가기: 저장된 검색 조건으로 본문 조건을 대체 ──────────────────────
+  let resumed: SearchContinuation | null = null;
+  if (body.continuation != null) {
+    resumed =
+      typeof body.continuation === "string"
+        ? await loadContinuation(body.continuation, user?.id ?? null)
+        : null;
+    if (!resumed) return continuationExpired();
+    body = {
+      ...body,
+      ...resumed.filters,
+      minViewCount: resumed.filters.minViewCount ?? undefined,
+    };
   }
+
+  const {
+    keyword,
+    videoType,
+    uploadPeriod,
+    minViewCount,
+    maxSubscriberCount,
+    minTypeConfidence = DEFAULT_TYPE_CONFIDENCE,
+    regionCode = DEFAULT_REGION_CODE,
+    relevanceLanguage = defaultLanguageFor(regionCode),
+    quotaBudget,
+    forceRefresh,
+    pageDepth: requestedPageDepth = DEFAULT_PAGE_DEPTH,
+    scoringProfile,
+  } = body;
+
+  // ── 입력 유효성 검사 ─────────────────────────────────────────────────────
   if (!keyword || typeof keyword !== "string" || keyword.trim() === "") {
     return NextResponse.json(
       { error: "검색 키워드를 입력해 주세요." },
@@ -82,158 +172,284 @@ export async function POST(req: NextRequest) {
       { status: 400 }
     );
   }
+  if (
+    quotaBudget != null &&
+    (typeof quotaBudget !== "number" || !Number.isInteger(quotaBudget) || quotaBudget <= 0)
+  ) {
+    return NextResponse.json(
+      { error: "quotaBudget은 1 이상의 정수여야 합니다." },
+      { status: 400 }
+    );
+  }
+  if (!isRegionCode(regionCode) || !isRelevanceLanguage(relevanceLanguage)) {
+    return NextResponse.json(
+      { error: "지원하지 않는 검색 지역 또는 언어입니다.", code: "UNSUPPORTED_MARKET" },
+      { status: 400 }
+    );
+  }
+  if (
+    typeof minTypeConfidence !== "number" ||
+    minTypeConfidence < MIN_TYPE_CONFIDENCE ||
+    minTypeConfidence > MAX_TYPE_CONFIDENCE
+  ) {
+    return NextResponse.json(
+      {
+        error: `minTypeConfidence는 ${MIN_TYPE_CONFIDENCE}~${MAX_TYPE_CONFIDENCE} 사이의 숫자여야 합니다.`,
+      },
+      { status: 400 }
+    );
+  }
+  if (
+    !Number.isInteger(requestedPageDepth) ||
+    requestedPageDepth < 1 ||
+    requestedPageDepth > MAX_PAGE_DEPTH
+  ) {
+    return NextResponse.json(
+      { error: `pageDepth는 1~${MAX_PAGE_DEPTH} 사이의 정수여야 합니다.` },
+      { status: 400 }
+    );
+  }
 
-  // 보안: API Key 값을 절대 로그에 출력하지 않음
-  console.log(
-    `[YouTube Search] keyword="${keyword}" type=${videoType} period=${uploadPeriod ?? "all"}`
+  const profile = await resolveScoringProfile(
+    user?.id ?? null,
+    typeof scoringProfile === "string" ? scoringProfile : undefined
   );
-
-  try {
-    const { videoDurations } = getVideoTypeSearchParams(videoType);
-    const publishedAfter = calcPublishedAfter(uploadPeriod);
-
-    // ── 1단계: 영상 검색 (videoDuration별 병렬 호출, 최대 2페이지) ──────
-    const searchResultArrays = await Promise.all(
-      videoDurations.map(async (dur) => {
-        const baseParams = {
-          apiKey,
-          keyword: keyword.trim(),
-          videoDuration: dur,
-          maxResults: 50,
-          publishedAfter,
-        };
-        // 1페이지
-        const page1 = await searchVideos(baseParams);
-        const collected = [...page1.items];
-        // 2페이지 (nextPageToken 있을 때만)
-        if (page1.nextPageToken) {
-          const page2 = await searchVideos({
-            ...baseParams,
-            pageToken: page1.nextPageToken,
-          });
-          collected.push(...page2.items);
-        }
-        return collected;
-      })
+  if (!profile) {
+    return NextResponse.json(
+      { error: "알 수 없는 점수 기준입니다.", code: "UNKNOWN_SCORING_PROFILE" },
+      { status: 400 }
     );
+  }
 
-    // 중복 제거를 위해 videoId 기준으로 병합
-    const searchItemMap = new Map(
-      searchResultArrays.flat().map((item) => [item.id.videoId, item])
-    );
-    const allSearchItems = [...searchItemMap.values()];
+  // ── 최신 스냅샷 재사용 (로그인 사용자, 같은 조건) ────────────────────────
+  const searchFilters: SearchFilters = {
+    keyword: keyword.trim(),
+    videoType,
+    uploadPeriod: uploadPeriod ?? "all",
+    minViewCount: minViewCount && minViewCount > 0 ? minViewCount : null,
+    maxSubscriberCount: maxSubscriberCount ?? null,
+    scoringProfile: profile.id,
+    scoringProfileUpdatedAt: profile.updatedAt,
+    minTypeConfidence,
+    regionCode,
+    relevanceLanguage,
+  };
+  // 요금제 제한 — 세션 없는 직접 호출(내부 작업·테스트)은 proxy를 거치지 않으므로 제한 없음
+  const plan = resolveRequestPlan(req, user);
+  const maxResults = plan?.maxResults ?? 100;
+  const channelAverages = plan?.channelAverages ?? true;
+  const restricted = channelAverages ? [] : ["channelAvg"];
+  const planInfo = plan ? { plan: { id: plan.id, maxResults, restricted } } : {};
+  // 이어가기는 일일 한도를 차감하지 않으므로 1회에 조회하는 페이지 수를 요금제 한도로 제한
+  const pageDepth = resumed
+    ? Math.min(requestedPageDepth, plan?.continuationPageDepth ?? MAX_PAGE_DEPTH)
+    : requestedPageDepth;
 
-    if (allSearchItems.length === 0) {
-      return NextResponse.json({ videos: [], total: 0 });
+  if (user && !forceRefresh && !resumed) {
+    const snapshot = await findFreshSnapshot(user.id, searchFilters, pageDepth);
+    if (snapshot) {
+      console.log(`[YouTube Search] keyword="${keyword}" type=${videoType} snapshot=${snapshot.id}`);
+      const videos = snapshot.videos.slice(0, maxResults);
+      return NextResponse.json({
+        videos,
+        total: videos.length,
+        ...planInfo,
+        scoringProfile: toProfileRef(profile),
+        quota: new QuotaTracker(null).toJSON(),
+        paging: { pageDepth, pagesFetched: 0, continuation: null, nextPageCost: 0 },
+        snapshot: { id: snapshot.id, createdAt: snapshot.createdAt },
+      });
     }
+  }
 
-    const videoIds = allSearchItems.map((item) => item.id.videoId);
-    const channelIds = [...new Set(allSearchItems.map((item) => item.snippet.channelId))];
-
-    // ── 2단계: 영상 상세 + 채널 정보 병렬 조회 ──────────────────────────
-    // YouTube API는 한 번에 최대 50개 → 50개 초과 시 청크 분할
-    const [videoItems, channelItems] = await Promise.all([
-      fetchInChunks(videoIds, 50, (chunk) =>
-        getVideoDetails({ apiKey, videoIds: chunk })
-      ),
-      fetchInChunks(channelIds, 50, (chunk) =>
-        getChannelDetails({ apiKey, channelIds: chunk })
-      ),
-    ]);
-
-    // ── 3단계: 채널 평균 조회수 계산 (기여도 점수용) ─────────────────────
-    // 각 채널의 업로드 플레이리스트에서 샘플 영상을 수집하여 평균 산정
-    // playlistItems.list(1 unit) + videos.list(1 unit) per channel
-    const channelAvgMap = new Map<string, number>();
-    await Promise.all(
-      channelItems
-        .filter((c) => c.contentDetails?.relatedPlaylists?.uploads)
-        .map(async (channel) => {
-          try {
-            // 최신 50개 영상 ID 수집
-            const playlistItems = await getPlaylistItems({
-              apiKey,
-              playlistId: channel.contentDetails!.relatedPlaylists.uploads,
-              maxResults: 50,
-            });
-
-            const sampleIds = playlistItems
-              .map((p) => p.snippet?.resourceId?.videoId)
-              .filter((id): id is string => Boolean(id));
-
-            if (sampleIds.length === 0) return;
-
-            // 샘플 영상의 길이 + 조회수 조회
-            const sampleVideos = await getVideoDetails({
-              apiKey,
-              videoIds: sampleIds,
-            });
-
-            // videoType에 맞는 영상만 필터링하여 평균 계산
-            const avg = calcChannelAvgViews(sampleVideos, videoType);
-            if (avg > 0) channelAvgMap.set(channel.id, avg);
-          } catch {
-            // 채널 평균 조회 실패 시 해당 채널의 기여도는 null 처리
-          }
-        })
+  // 키 풀 우선순위: 요청 본문 키 → 서버 보관 키(쿠키 참조) → 서버 환경 변수 키
+  const keyPool = buildKeyPool([
+    ...collectRequestKeys(body),
+    ...(await resolveRequestVaultKeys(req)),
+  ]);
+  if (keyPool.size === 0) {
+    return NextResponse.json(
+      { error: "API Key를 입력해 주세요." },
+      { status: 400 }
     );
+  }
 
-    // ── 4단계: 필터링 및 결과 구성 ──────────────────────────────────────
-    const filters: BuildFilterOptions = {
-      minViewCount: minViewCount && minViewCount > 0 ? minViewCount : undefined,
-      maxSubscriberCount: maxSubscriberCount ?? undefined,
-    };
+  // 보안: API Key 값을 절대 로그에 출력하지 않음
+  console.log(
+    `[YouTube Search] keyword="${keyword}" type=${videoType} market=${regionCode}/${relevanceLanguage} period=${uploadPeriod ?? "all"} depth=${pageDepth}${resumed ? ` resume=${resumed.pagesFetched + 1}` : ""} keys=${keyPool.size}`
+  );
 
-    const results = buildAndFilterResults(
-      allSearchItems,
-      videoItems,
-      channelItems,
-      videoType,
-      channelAvgMap,
-      filters,
-      100
-    );
+  const quota = new QuotaTracker(quotaBudget ?? null);
 
-    console.log(
-      `[YouTube Search] found=${allSearchItems.length} filtered=${results.length} channelsWithAvg=${channelAvgMap.size}`
+  const { videoDurations } = getVideoTypeSearchParams(videoType);
+  const publishedAfter = resumed ? resumed.publishedAfter : calcPublishedAfter(uploadPeriod);
+  const seenVideoIds = new Set(resumed?.seenVideoIds);
+  const cursors = resumed?.cursors ?? videoDurations.map((duration) => ({ duration }));
+
+  // 예산이 1페이지 검색 + 결과 상세 조회 비용을 감당하지 못하면 호출 없이 거부
+  const minimumCost = searchPageCost(cursors.length) + searchDetailReserve(cursors.length * 50);
+  if (!quota.canAfford(minimumCost)) {
+    return NextResponse.json(
+      {
+        error: `예산이 부족합니다. 이 검색에는 최소 ${minimumCost} units가 필요합니다.`,
+        code: "BUDGET_EXCEEDED",
+        quota: quota.toJSON(),
+        keys: keyPool.report(),
+      },
+      { status: 429 }
     );
+  }
 
-    return NextResponse.json({ videos: results, total: results.length });
-  } catch (err) {
+  // 이어가기(더 보기)는 이미 차감한 검색의 연장이므로 새 검색에서만 요금제 일일 한도 차감
+  if (!resumed) {
+    const limited = await chargeDailySearch(req, user);
+    if (limited) return limited;
+  }
+
+  // 이어가기 ID 선점 — 같은 ID로 동시에 들어온 요청은 하나만 진행 (나머지는 410)
+  const continuationId = resumed ? (body.continuation as string) : null;
+  if (continuationId) {
+    resumed = await claimContinuation(continuationId, user?.id ?? null);
+    if (!resumed) return continuationExpired();
+  }
+  /** 실행이 실패·중단되면 선점한 이어가기를 되돌려 다시 시도할 수 있게 함 */
+  const release = async () => {
+    if (continuationId && resumed) await releaseContinuation(continuationId, resumed);
+  };
+
+  const run = (signal: AbortSignal, onEvent?: (event: SearchPipelineEvent) => void) =>
+    runKeywordSearch({
+      keyPool,
+      quota,
+      keyword: keyword.trim(),
+      videoType,
+      publishedAfter,
+      regionCode,
+      relevanceLanguage,
+      pageDepth,
+      cursors,
+      pagesBefore: resumed?.pagesFetched ?? 0,
+      seenVideoIds,
+      filters: {
+        minViewCount: searchFilters.minViewCount ?? undefined,
+        maxSubscriberCount: searchFilters.maxSubscriberCount ?? undefined,
+        minTypeConfidence,
+      },
+      maxResults,
+      profile,
+      channelAverages,
+      onEvent,
+      signal,
+    });
+
+  /**
+   * 성공 응답 본문 + 이어가기 상태·로그인 사용자의 검색 기록 저장
+   * 이어가기 결과는 최초 검색 기록의 연장이므로 새 기록을 남기지 않음
+   */
+  const finish = async ({ videos, cursors: nextCursors, pagesFetched }: KeywordSearchOutcome) => {
+    const continuation =
+      nextCursors.length > 0
+        ? await saveContinuation({
+            ownerId: user?.id ?? null,
+            filters: searchFilters,
+            publishedAfter,
+            cursors: nextCursors,
+            seenVideoIds: [...seenVideoIds],
+            pagesFetched,
+          })
+        : null;
+    const paging: SearchPaging = {
+      pageDepth,
+      pagesFetched,
+      continuation,
+      nextPageCost: searchPageCost(nextCursors.length),
+    };
+
+    const usage = quota.toJSON();
+    const entry = user && !resumed
+      ? await appendSearchLog(user.id, {
+          filters: searchFilters,
+          pageDepth,
+          total: videos.length,
+          quotaUsed: usage.used,
+          skipped: usage.skipped,
+          videos,
+        }).catch((err) => {
+          console.error("[YouTube Search] 검색 기록 저장 실패:", err);
+          return null;
+        })
+      : null;
+    return {
+      videos,
+      total: videos.length,
+      quota: usage,
+      keys: keyPool.report(),
+      paging,
+      scoringProfile: toProfileRef(profile),
+      ...planInfo,
+      ...(entry ? { historyId: entry.id } : {}),
+    };
+  };
+
+  /** 파이프라인 예외 → 에러 응답 본문과 상태 코드 */
+  const failure = (err: unknown) => {
     if (err instanceof YouTubeAPIError) {
-      const statusMap: Record<string, number> = {
-        INVALID_API_KEY: 401,
-        QUOTA_EXCEEDED: 429,
-        FORBIDDEN: 403,
-        NOT_FOUND: 404,
-        NETWORK_ERROR: 503,
-        UNKNOWN: 500,
+      return {
+        status: YOUTUBE_ERROR_STATUS[err.code] ?? 500,
+        body: {
+          error: err.message,
+          code: err.code,
+          quota: quota.toJSON(),
+          keys: keyPool.report(),
+        },
       };
-      return NextResponse.json(
-        { error: err.message, code: err.code },
-        { status: statusMap[err.code] ?? 500 }
-      );
     }
-
     console.error("[YouTube Search] Unexpected error:", err);
-    return NextResponse.json(
-      { error: "서버 오류가 발생했습니다. 잠시 후 다시 시도해 주세요." },
-      { status: 500 }
-    );
-  }
-}
+    return {
+      status: 500,
+      body: { error: "서버 오류가 발생했습니다. 잠시 후 다시 시도해 주세요." },
+    };
+  };
 
-// ─── 청크 분할 유틸리티 ───────────────────────────────────────────────────────
+  // ── NDJSON 스트리밍 (Accept: application/x-ndjson) ─────────────────────
+  // 진행률·영상·기여도 이벤트를 한 줄씩 보내고 마지막에 done(JSON 응답과 같은 본문) 또는 error
+  // 클라이언트가 연결을 끊으면(cancel) 파이프라인을 중단해 남은 페이지·상세 조회 비용을 쓰지 않음
+  if (req.headers.get("accept")?.includes(NDJSON_CONTENT_TYPE)) {
+    const encoder = new TextEncoder();
+    const abort = new AbortController();
+    req.signal.addEventListener("abort", () => abort.abort(), { once: true });
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: SearchStreamEvent) => {
+          if (!abort.signal.aborted) controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        };
+        try {
+          send({ type: "done", ...(await finish(await run(abort.signal, send))) });
+        } catch (err) {
+          await release();
+          if (abort.signal.aborted) {
+            console.log(`[YouTube Search] keyword="${keyword}" 클라이언트 연결 종료로 중단 quotaUsed=${quota.used}`);
+            return;
+          }
+          const { status, body: errorBody } = failure(err);
+          send({ type: "error", status, ...errorBody });
+        }
+        if (!abort.signal.aborted) controller.close();
+      },
+      cancel() {
+        abort.abort();
+      },
+    });
+    return new Response(stream, {
+      headers: { "Content-Type": NDJSON_CONTENT_TYPE, "Cache-Control": "no-store" },
+    });
+  }
 
-async function fetchInChunks<T>(
-  ids: string[],
-  chunkSize: number,
-  fetcher: (chunk: string[]) => Promise<T[]>
-): Promise<T[]> {
-  const chunks: string[][] = [];
-  for (let i = 0; i < ids.length; i += chunkSize) {
-    chunks.push(ids.slice(i, i + chunkSize));
+  try {
+    return NextResponse.json(await finish(await run(req.signal)));
+  } catch (err) {
+    await release();
+    const { status, body: errorBody } = failure(err);
+    return NextResponse.json(errorBody, { status });
   }
-  const results = await Promise.all(chunks.map(fetcher));
-  return results.flat();
 }
@@ -0,0 +1,18 @@
+"use client";
+
+/**
+ * LoginView.tsx
+ * 로그인 페이지 본문 — 항상 열린 LoginModal, 닫으면 랜딩 페이지로 이동
+ */
+
+import { useRouter } from "next/navigation";
+import LoginModal from "@/components/LoginModal";
+
+export default function LoginView({ next, error }: { next: string; error: string | null }) {
+  const router = useRouter();
+  return (
+    <div className="min-h-screen" style={{ backgroundColor: "#f5f5f7" }}>
+      <LoginModal open onClose={() => router.push("/")} next={next} error={error} />
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+/**
+ * page.tsx
+ * 로그인 페이지 - 보호된 경로 접근 시 proxy.ts가 리다이렉트하는 곳
+ * 쿼리: next (로그인 후 경로), error (로그인 실패 코드)
+ */
+
+import LoginView from "./LoginView";
+import { safeNextPath } from "@/lib/auth/session";
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string; error?: string }>;
+}) {
+  const { next, error } = await searchParams;
+  return <LoginView next={safeNextPath(next)} error={error ?? null} />;
+}
@@ -47,10 +47,13 @@ export default function LandingPage() {
 
           {/* 가운데 내비게이션 */}
           <nav className="flex-1 hidden sm:flex items-center justify-center gap-8">
-            {["요금제", "사용내역"].map((item) => (
+            {[
+              ["요금제", "/pricing"],
+              ["사용내역", "/analyzer/history"],
+            ].map(([item, href]) => (
               <a
                 key={item}
-                href="#"
+                href={href}
                 className="text-sm font-medium transition-colors hover:opacity-60"
                 style={{ color: "#374151" }}
               >
@@ -0,0 +1,138 @@
+"use client";
+
+/**
+ * page.tsx
+ * 요금제 페이지 - 요금제별 한도 비교, 로그인 사용자는 현재 요금제·오늘 사용량 표시
+ */
+
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import Link from "next/link";
+import type { Plan, PlanId } from "@/lib/billing/plans";
+import type { DailyUsage } from "@/lib/billing/usage";
+
+interface PlanResponse {
+  plans: Plan[];
+  current: { plan: PlanId; usage: DailyUsage } | null;
+}
+
+function planFeatures(plan: Plan): string[] {
+  return [
+    `하루 검색·채널 분석 ${plan.dailySearches.toLocaleString()}회`,
+    `검색 결과 최대 ${plan.maxResults}개`,
+    `더 보기 1회 최대 ${plan.continuationPageDepth}페이지`,
+    plan.channelAverages ? "채널 평균 대비 기여도 점수" : "기여도 점수 미제공",
+    `채널 상세 분석 최근 영상 ${plan.channelMaxVideos}개`,
+  ];
+}
+
+// ─── 메인 컴포넌트 ─────────────────────────────────────────────────────────────
+
+export default function PricingPage() {
+  const [data, setData] = useState<PlanResponse | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/plan")
+      .then((res) => res.json())
+      .then((json: PlanResponse) => {
+        if (!cancelled) setData(json);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const current = data?.current ?? null;
+
+  return (
+    <div className="min-h-screen flex flex-col" style={{ backgroundColor: "#f5f5f7", color: "#111827" }}>
+      {/* ── 헤더 ── */}
+      <header className="sticky top-0 z-20" style={{ backgroundColor: "white", borderBottom: "1px solid #e5e7eb" }}>
+        <div className="max-w-6xl mx-auto px-6 py-4 flex items-center gap-6">
+          <Link href="/" className="flex items-center gap-2 flex-shrink-0">
+            <svg width="28" height="28" viewBox="0 0 28 28" fill="none" aria-hidden="true">
+              <rect width="28" height="28" rx="8" fill="#6366f1" />
+              <path d="M11 9.5L20 14L11 18.5V9.5Z" fill="white" />
+            </svg>
+            <span className="font-bold text-lg" style={{ color: "#111827" }}>
+              찌동튜브
+            </span>
+          </Link>
+          <Link
+            href="/analyzer"
+            className="ml-auto px-5 py-2 rounded-xl text-sm font-semibold"
+            style={{ backgroundColor: "#6366f1", color: "white", boxShadow: "0 2px 12px rgba(99,102,241,0.35)" }}
+          >
+            시작하기
+          </Link>
+        </div>
+      </header>
+
+      <main className="flex-1 max-w-6xl w-full mx-auto px-6 py-12 sm:py-16">
+        <h1 className="text-3xl sm:text-4xl font-bold text-center">요금제</h1>
+        <p className="mt-3 text-center text-sm sm:text-base" style={{ color: "#6b7280" }}>
+          한도는 매일 자정(한국 시간)에 초기화됩니다.
+        </p>
+
+        {current && (
+          <p className="mt-6 text-center text-sm" style={{ color: "#374151" }}>
+            오늘 {current.usage.used.toLocaleString()} / {current.usage.limit.toLocaleString()}회 사용
+          </p>
+        )}
+
+        <div className="mt-10 grid grid-cols-1 md:grid-cols-3 gap-5">
+          {(data?.plans ?? []).map((plan, i) => {
+            const isCurrent = current?.plan === plan.id;
+            return (
+              <motion.div
+                key={plan.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.45, delay: i * 0.08 }}
+                className="rounded-2xl p-6 flex flex-col gap-5"
+                style={{
+                  backgroundColor: "white",
+                  border: isCurrent ? "2px solid #6366f1" : "1px solid #e5e7eb",
+                  boxShadow: "0 4px 24px rgba(17,24,39,0.06)",
+                }}
+              >
+                <div className="flex items-center gap-2">
+                  <h2 className="text-lg font-bold">{plan.name}</h2>
+                  {isCurrent && (
+                    <span
+                      className="text-xs px-2 py-0.5 rounded-full font-medium"
+                      style={{ backgroundColor: "#eef2ff", color: "#4f46e5" }}
+                    >
+                      현재 요금제
+                    </span>
+                  )}
+                </div>
+                <p className="text-3xl font-bold">
+                  {plan.monthlyPriceKrw === 0 ? "무료" : `₩${plan.monthlyPriceKrw.toLocaleString()}`}
+                  {plan.monthlyPriceKrw > 0 && (
+                    <span className="text-sm font-medium" style={{ color: "#6b7280" }}>
+                      {" "}
+                      / 월
+                    </span>
+                  )}
+                </p>
+                <ul className="flex flex-col gap-2 text-sm" style={{ color: "#374151" }}>
+                  {planFeatures(plan).map((feature) => (
+                    <li key={feature}>✓ {feature}</li>
+                  ))}
+                </ul>
+                {plan.monthlyPriceKrw > 0 && !isCurrent && (
+                  <p className="mt-auto text-xs" style={{ color: "#9ca3af" }}>
+                    온라인 결제는 준비 중입니다. 업그레이드는 관리자에게 문의해 주세요.
+                  </p>
+                )}
+              </motion.div>
+            );
+          })}
+        </div>
+      </main>
+    </div>
+  );
+}
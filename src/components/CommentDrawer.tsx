@@ -0,0 +1,255 @@
+"use client";
+
+/**
+ * CommentDrawer.tsx
+ * 영상 상세 드로어 - 댓글 분석 (댓글 비율, 타임스탬프 언급 구간, 자주 나온 키워드, 좋아요 많은 댓글)
+ * 열릴 때와 정렬 기준을 바꿀 때 /api/youtube/comments 호출 (100개당 1 unit)
+ */
+
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { formatKoreanNumber, formatDate, type VideoResult } from "@/lib/youtube/analysis";
+import type { CommentAnalysis } from "@/lib/youtube/commentAnalysis";
+import type { QuotaUsage } from "@/lib/youtube/quota";
+import { parseApiKeys } from "@/lib/client/apiKeyStorage";
+
+interface Props {
+  video: VideoResult;
+  /** API Key 입력값 (비어 있으면 서버 보관·환경 변수 키 사용) */
+  apiKey: string;
+  onClose: () => void;
+}
+
+type Order = "relevance" | "time";
+
+type LoadState =
+  | { status: "loading" }
+  | { status: "error"; error: string }
+  | { status: "success"; analysis: CommentAnalysis; quota: QuotaUsage };
+
+const ORDER_LABELS: Record<Order, string> = { relevance: "인기순", time: "최신순" };
+
+export default function CommentDrawer({ video, apiKey, onClose }: Props) {
+  const [order, setOrder] = useState<Order>("relevance");
+  // 영상이 바뀌면 key로 새로 마운트되므로 로딩 표시는 정렬 변경 시에만 직접 설정
+  const [state, setState] = useState<LoadState>({ status: "loading" });
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/youtube/comments/${encodeURIComponent(video.id)}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ apiKeys: parseApiKeys(apiKey), order }),
+    })
+      .then(async (res) => {
+        const data = await res.json();
+        if (cancelled) return;
+        setState(
+          res.ok
+            ? { status: "success", analysis: data.analysis, quota: data.quota }
+            : { status: "error", error: data.error ?? "댓글을 분석하지 못했습니다." }
+        );
+      })
+      .catch(() => {
+        if (!cancelled) setState({ status: "error", error: "네트워크 오류가 발생했습니다." });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [video.id, apiKey, order]);
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="absolute inset-0"
+        style={{ backgroundColor: "rgba(0,0,0,0.5)" }}
+        onClick={onClose}
+      />
+      <motion.aside
+        initial={{ x: "100%" }}
+        animate={{ x: 0 }}
+        exit={{ x: "100%" }}
+        transition={{ type: "tween", duration: 0.25 }}
+        role="dialog"
+        aria-label="댓글 분석"
+        className="relative w-full sm:w-[480px] h-full overflow-y-auto p-4 sm:p-6 flex flex-col gap-5"
+        style={{ backgroundColor: "var(--surface)", borderLeft: "1px solid var(--border)" }}
+      >
+        <div className="flex items-start gap-3">
+          <div className="flex-1 min-w-0">
+            <p className="text-xs" style={{ color: "var(--text-secondary)" }}>
+              댓글 분석
+            </p>
+            <h2 className="font-semibold leading-snug line-clamp-2" style={{ color: "var(--text-primary)" }}>
+              {video.title}
+            </h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="닫기"
+            className="px-2 py-1 rounded-lg text-sm"
+            style={{ color: "var(--text-secondary)", border: "1px solid var(--border)" }}
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex gap-1.5">
+          {(Object.keys(ORDER_LABELS) as Order[]).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => {
+                if (value === order) return;
+                setOrder(value);
+                setState({ status: "loading" });
+              }}
+              className="px-3 py-1 rounded-full text-xs"
+              style={{
+                backgroundColor: order === value ? "var(--accent)" : "var(--surface-2)",
+                color: order === value ? "#fff" : "var(--text-secondary)",
+                border: "1px solid var(--border)",
+              }}
+            >
+              {ORDER_LABELS[value]}
+            </button>
+          ))}
+        </div>
+
+        {state.status === "loading" && (
+          <p className="text-sm py-10 text-center" style={{ color: "var(--text-secondary)" }}>
+            댓글을 분석하는 중...
+          </p>
+        )}
+        {state.status === "error" && (
+          <p className="text-sm" style={{ color: "#fca5a5" }}>
+            {state.error}
+          </p>
+        )}
+        {state.status === "success" && (
+          <AnalysisView videoId={video.id} analysis={state.analysis} quota={state.quota} />
+        )}
+      </motion.aside>
+    </div>
+  );
+}
+
+// ─── 분석 결과 ────────────────────────────────────────────────────────────────
+
+function AnalysisView({
+  videoId,
+  analysis,
+  quota,
+}: {
+  videoId: string;
+  analysis: CommentAnalysis;
+  quota: QuotaUsage;
+}) {
+  return (
+    <>
+      <div className="grid grid-cols-3 gap-2">
+        <Stat label="전체 댓글" value={analysis.commentCount !== null ? formatKoreanNumber(analysis.commentCount) : "—"} />
+        <Stat
+          label="조회수 대비"
+          value={analysis.commentToViewPercent !== null ? `${analysis.commentToViewPercent}%` : "—"}
+        />
+        <Stat label="분석한 댓글" value={`${analysis.sampled}개`} />
+      </div>
+      <p className="text-xs -mt-3" style={{ color: "var(--text-secondary)" }}>
+        할당량 {quota.used.toLocaleString()} units
+        {quota.skipped.includes("moreComments") && (
+          <span style={{ color: "#fbbf24" }}> · 예산 부족으로 일부 댓글만 분석</span>
+        )}
+      </p>
+
+      {analysis.timestamps.length > 0 && (
+        <Section title="많이 언급된 구간">
+          <ul className="flex flex-col gap-2">
+            {analysis.timestamps.map((t) => (
+              <li key={t.seconds} className="flex gap-3 text-xs">
+                <a
+                  href={`https://www.youtube.com/watch?v=${videoId}&t=${t.seconds}s`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-semibold whitespace-nowrap hover:underline"
+                  style={{ color: "var(--accent-light)" }}
+                >
+                  {t.label} · {t.count}회
+                </a>
+                <span className="line-clamp-2" style={{ color: "var(--text-secondary)" }}>
+                  {t.sample}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </Section>
+      )}
+
+      {(analysis.keywords.length > 0 || analysis.bigrams.length > 0) && (
+        <Section title="자주 나온 표현">
+          <div className="flex flex-wrap gap-1.5">
+            {[...analysis.bigrams, ...analysis.keywords].map((k) => (
+              <span
+                key={k.term}
+                className="px-2 py-0.5 rounded-full text-xs"
+                style={{ backgroundColor: "var(--surface-2)", color: "var(--text-primary)" }}
+              >
+                {k.term} <span style={{ color: "var(--text-secondary)" }}>{k.count}</span>
+              </span>
+            ))}
+          </div>
+        </Section>
+      )}
+
+      <Section title="좋아요 많은 댓글">
+        {analysis.topLiked.length === 0 ? (
+          <p className="text-xs" style={{ color: "var(--text-secondary)" }}>
+            댓글이 없습니다.
+          </p>
+        ) : (
+          <ul className="flex flex-col gap-3">
+            {analysis.topLiked.map((c) => (
+              <li key={c.id} className="text-xs flex flex-col gap-1">
+                <p style={{ color: "var(--text-secondary)" }}>
+                  {c.author} · {formatDate(c.publishedAt)} · 좋아요 {formatKoreanNumber(c.likeCount)}
+                  {c.replyCount > 0 && <> · 답글 {c.replyCount}</>}
+                </p>
+                <p className="whitespace-pre-line" style={{ color: "var(--text-primary)" }}>
+                  {c.text}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Section>
+    </>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="flex flex-col gap-2">
+      <h3 className="text-sm font-semibold" style={{ color: "var(--text-primary)" }}>
+        {title}
+      </h3>
+      {children}
+    </section>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg px-3 py-2" style={{ backgroundColor: "var(--surface-2)" }}>
+      <p className="text-xs mb-0.5" style={{ color: "var(--text-secondary)" }}>
+        {label}
+      </p>
+      <p className="text-sm font-semibold" style={{ color: "var(--text-primary)" }}>
+        {value}
+      </p>
+    </div>
+  );
+}
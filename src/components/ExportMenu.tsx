@@ -0,0 +1,81 @@
+"use client";
+
+/**
+ * ExportMenu.tsx
+ * 분석 결과 내보내기 버튼 (CSV · XLSX · 세션 JSON)
+ * 책임: 화면에 표시된 순서 그대로 파일 생성 후 다운로드
+ */
+
+import type { VideoResult } from "@/lib/youtube/analysis";
+import type { VideoType } from "@/lib/youtube/videoType";
+import type { ScoringProfileRef } from "@/lib/scoring/profiles";
+import type { VideoSort } from "@/lib/youtube/resultSort";
+import {
+  buildCsv,
+  buildSessionJson,
+  buildXlsxExport,
+  exportFileName,
+} from "@/lib/export/resultsExport";
+import { XLSX_MIME_TYPE } from "@/lib/export/xlsx";
+import { downloadBlob } from "@/lib/client/download";
+
+interface ExportMenuProps {
+  /** 정렬·필터가 적용된 현재 결과 */
+  videos: VideoResult[];
+  keyword: string;
+  videoType: VideoType;
+  scoringProfile: ScoringProfileRef | null;
+  sort: VideoSort;
+}
+
+type ExportFormat = "csv" | "xlsx" | "json";
+
+const FORMATS: { format: ExportFormat; label: string; title: string }[] = [
+  { format: "csv", label: "CSV", title: "CSV (UTF-8) 내려받기" },
+  { format: "xlsx", label: "XLSX", title: "Excel 통합 문서 내려받기" },
+  { format: "json", label: "JSON", title: "다시 불러올 수 있는 세션 파일 내려받기" },
+];
+
+export default function ExportMenu({ videos, keyword, videoType, scoringProfile, sort }: ExportMenuProps) {
+  const handleExport = (format: ExportFormat) => {
+    const fileName = exportFileName(keyword, format);
+    switch (format) {
+      case "csv":
+        downloadBlob(buildCsv(videos), fileName, "text/csv;charset=utf-8");
+        break;
+      case "xlsx":
+        downloadBlob(buildXlsxExport(videos, keyword), fileName, XLSX_MIME_TYPE);
+        break;
+      case "json":
+        downloadBlob(
+          buildSessionJson({ keyword, videoType, scoringProfile, sort, videos }),
+          fileName,
+          "application/json"
+        );
+        break;
+    }
+  };
+
+  return (
+    <div
+      className="flex items-center rounded-xl p-1 gap-1"
+      style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+    >
+      <span className="px-2 text-xs" style={{ color: "var(--text-secondary)" }}>
+        내보내기
+      </span>
+      {FORMATS.map(({ format, label, title }) => (
+        <button
+          key={format}
+          type="button"
+          title={title}
+          onClick={() => handleExport(format)}
+          className="px-2.5 py-1.5 rounded-lg text-xs font-medium transition-colors hover:bg-[var(--surface-2)]"
+          style={{ color: "var(--text-secondary)" }}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
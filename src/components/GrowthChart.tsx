@@ -0,0 +1,54 @@
+/**
+ * GrowthChart.tsx
+ * 시간축 누적 지표 성장 곡선 SVG (스냅샷 간격이 고르지 않아도 실제 시각 비율로 배치)
+ * 워치리스트 조회수, 경쟁 채널 구독자 추이에서 사용
+ */
+
+import { formatKoreanNumber } from "@/lib/youtube/analysis";
+
+export interface GrowthPoint {
+  /** ISO 시각 (오래된 순) */
+  at: string;
+  value: number;
+}
+
+interface Props {
+  points: GrowthPoint[];
+  /** 지표 이름 (예: "조회수") */
+  label: string;
+}
+
+export default function GrowthChart({ points, label }: Props) {
+  const width = 640;
+  const height = 180;
+  const pad = 8;
+  const times = points.map((p) => new Date(p.at).getTime());
+  const values = points.map((p) => p.value);
+  const [minT, maxT] = [times[0], times[times.length - 1]];
+  const [minV, maxV] = [Math.min(...values), Math.max(...values)];
+  const x = (t: number) => pad + ((t - minT) / Math.max(maxT - minT, 1)) * (width - pad * 2);
+  const y = (v: number) => height - pad - ((v - minV) / Math.max(maxV - minV, 1)) * (height - pad * 2);
+  const line = points.map((p, i) => `${x(times[i]).toFixed(1)},${y(p.value).toFixed(1)}`).join(" ");
+
+  return (
+    <div className="overflow-x-auto">
+      <svg width={width} height={height + 20} role="img" aria-label={`${label} 성장 곡선`}>
+        <polyline points={line} fill="none" stroke="#6366f1" strokeWidth={2} strokeLinejoin="round" />
+        {points.map((p, i) => (
+          <circle key={p.at} cx={x(times[i])} cy={y(p.value)} r={2.5} fill="#818cf8">
+            <title>{`${new Date(p.at).toLocaleString()}: ${label} ${p.value.toLocaleString()}`}</title>
+          </circle>
+        ))}
+        <text x={pad} y={height + 14} fontSize={10} fill="var(--text-secondary)">
+          {new Date(minT).toLocaleDateString()}
+        </text>
+        <text x={width - pad} y={height + 14} fontSize={10} fill="var(--text-secondary)" textAnchor="end">
+          {new Date(maxT).toLocaleDateString()}
+        </text>
+        <text x={pad} y={pad + 10} fontSize={10} fill="var(--text-secondary)">
+          {formatKoreanNumber(maxV)}
+        </text>
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+"use client";
+
+/**
+ * InsightsView.tsx
+ * 인사이트 탭 - 현재 결과(결과 필터 적용 후)의 제목 패턴·썸네일 색상과 조회수/구독자 배율 비교
+ * 제목 분석은 브라우저에서 바로 계산, 썸네일은 버튼을 누르면 서버(/api/insights/thumbnails)에서 추출
+ */
+
+import { useMemo, useState } from "react";
+import type { VideoResult } from "@/lib/youtube/analysis";
+import {
+  analyzeTitles,
+  brightnessInsights,
+  type BucketInsight,
+  type RatioGroup,
+} from "@/lib/youtube/insights";
+import type { ThumbnailColors } from "@/lib/youtube/thumbnailColors";
+
+/** 서버 1회 요청 상한 (thumbnailColors.ts MAX_THUMBNAILS_PER_REQUEST) */
+const THUMBNAIL_BATCH = 50;
+
+interface Props {
+  videos: VideoResult[];
+}
+
+const formatRatio = (group: RatioGroup) => (group.medianRatio !== null ? `x${group.medianRatio}` : "—");
+
+function liftColor(lift: number | null): string {
+  if (lift === null) return "var(--text-secondary)";
+  if (lift >= 1.2) return "#4ade80";
+  if (lift <= 0.8) return "#f87171";
+  return "var(--text-primary)";
+}
+
+// ─── 메인 컴포넌트 ─────────────────────────────────────────────────────────────
+
+export default function InsightsView({ videos }: Props) {
+  const titles = useMemo(() => analyzeTitles(videos), [videos]);
+  const [colors, setColors] = useState<Map<string, ThumbnailColors>>(new Map());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [failed, setFailed] = useState(0);
+
+  const analyzed = videos.filter((v) => colors.has(v.id));
+  const brightness = useMemo(
+    () => brightnessInsights(videos, new Map([...colors].map(([id, c]) => [id, c.brightness]))),
+    [videos, colors]
+  );
+  const pendingIds = videos.filter((v) => !colors.has(v.id)).map((v) => v.id).slice(0, THUMBNAIL_BATCH);
+
+  const handleAnalyzeThumbnails = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/insights/thumbnails", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ videoIds: pendingIds }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setColors((prev) => {
+        const next = new Map(prev);
+        for (const thumbnail of data.thumbnails as ThumbnailColors[]) next.set(thumbnail.videoId, thumbnail);
+        return next;
+      });
+      setFailed(data.failed.length);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "썸네일 분석에 실패했습니다.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="text-xs" style={{ color: "var(--text-secondary)" }}>
+        영상 {titles.overall.count}개 · 배율(조회수/구독자) 중앙값 {formatRatio(titles.overall)} · 평균 제목 길이{" "}
+        {titles.averageLength}자. 표본이 적으면 차이가 우연일 수 있습니다.
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* ── 제목 패턴 ── */}
+        <Panel title="제목 표기 패턴" hint="패턴을 쓴 영상과 안 쓴 영상의 배율 중앙값 비교">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs" style={{ color: "var(--text-secondary)" }}>
+                <th className="py-2 font-medium">패턴</th>
+                <th className="py-2 font-medium text-right">사용 비율</th>
+                <th className="py-2 font-medium text-right">사용</th>
+                <th className="py-2 font-medium text-right">미사용</th>
+                <th className="py-2 font-medium text-right">차이</th>
+              </tr>
+            </thead>
+            <tbody>
+              {titles.patterns.map((p) => (
+                <tr key={p.id} style={{ borderTop: "1px solid var(--border)" }}>
+                  <td className="py-2" style={{ color: "var(--text-primary)" }}>
+                    {p.label}
+                  </td>
+                  <td className="py-2 text-right" style={{ color: "var(--text-secondary)" }}>
+                    {Math.round(p.share * 100)}%
+                  </td>
+                  <td className="py-2 text-right" style={{ color: "var(--text-secondary)" }}>
+                    {formatRatio(p.with)}
+                  </td>
+                  <td className="py-2 text-right" style={{ color: "var(--text-secondary)" }}>
+                    {formatRatio(p.without)}
+                  </td>
+                  <td className="py-2 text-right font-semibold" style={{ color: liftColor(p.lift) }}>
+                    {p.lift !== null ? `${p.lift}배` : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Panel>
+
+        {/* ── 제목 길이 ── */}
+        <Panel title="제목 길이" hint="길이 구간별 영상 수와 배율 중앙값">
+          <BucketBars buckets={titles.lengths} total={titles.overall.count} />
+        </Panel>
+
+        {/* ── 자주 쓰인 토큰 ── */}
+        <Panel title="자주 쓰인 단어" hint="2개 이상 영상 제목에 나온 단어, 전체 중앙값 대비 배율">
+          {titles.terms.length > 0 ? (
+            <ul className="flex flex-wrap gap-1.5">
+              {titles.terms.map((t) => (
+                <li
+                  key={t.term}
+                  className="text-xs px-2 py-1 rounded-lg"
+                  style={{ backgroundColor: "var(--surface-2)", border: "1px solid var(--border)" }}
+                  title={`배율 중앙값 ${formatRatio(t)}`}
+                >
+                  <span style={{ color: "var(--text-primary)" }}>{t.term}</span>
+                  <span className="ml-1" style={{ color: "var(--text-secondary)" }}>
+                    {t.count}
+                  </span>
+                  {t.lift !== null && (
+                    <span className="ml-1 font-semibold" style={{ color: liftColor(t.lift) }}>
+                      {t.lift}배
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+              여러 제목에 반복된 단어가 없습니다.
+            </p>
+          )}
+        </Panel>
+
+        {/* ── 썸네일 ── */}
+        <Panel title="썸네일 색상·밝기" hint="서버에서 썸네일을 받아 대표색과 평균 밝기를 추출 (할당량 사용 없음)">
+          <div className="flex flex-col gap-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                type="button"
+                onClick={handleAnalyzeThumbnails}
+                disabled={loading || pendingIds.length === 0}
+                className="px-3 py-1.5 rounded-lg text-xs font-semibold disabled:opacity-50"
+                style={{ backgroundColor: "var(--accent)", color: "#fff" }}
+              >
+                {loading
+                  ? "분석 중..."
+                  : pendingIds.length === 0
+                  ? "분석 완료"
+                  : `썸네일 ${pendingIds.length}개 분석`}
+              </button>
+              <span className="text-xs" style={{ color: "var(--text-secondary)" }}>
+                {analyzed.length}/{videos.length}개 분석됨{failed > 0 && ` · 실패 ${failed}개`}
+              </span>
+            </div>
+            {error && (
+              <p className="text-xs" style={{ color: "#fca5a5" }}>
+                {error}
+              </p>
+            )}
+            {analyzed.length > 0 && (
+              <>
+                <BucketBars buckets={brightness} total={analyzed.length} />
+                <ul className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                  {[...analyzed]
+                    .sort((a, b) => b.viewToSubscriberRatio - a.viewToSubscriberRatio)
+                    .map((video) => {
+                      const c = colors.get(video.id)!;
+                      return (
+                        <li key={video.id} className="flex flex-col gap-1 min-w-0">
+                          <div className="flex h-5 rounded overflow-hidden" title={video.title}>
+                            {c.palette.map((p) => (
+                              <span key={p.hex} style={{ backgroundColor: p.hex, flexGrow: p.share }} />
+                            ))}
+                          </div>
+                          <span className="text-xs truncate" style={{ color: "var(--text-secondary)" }}>
+                            x{video.viewToSubscriberRatio} · 밝기 {c.brightness}
+                          </span>
+                        </li>
+                      );
+                    })}
+                </ul>
+              </>
+            )}
+          </div>
+        </Panel>
+      </div>
+    </div>
+  );
+}
+
+// ─── 서브 컴포넌트 ────────────────────────────────────────────────────────────
+
+function Panel({ title, hint, children }: { title: string; hint: string; children: React.ReactNode }) {
+  return (
+    <section
+      className="rounded-2xl p-4 flex flex-col gap-3"
+      style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+    >
+      <div>
+        <h3 className="text-sm font-semibold" style={{ color: "var(--text-primary)" }}>
+          {title}
+        </h3>
+        <p className="text-xs" style={{ color: "var(--text-secondary)" }}>
+          {hint}
+        </p>
+      </div>
+      {children}
+    </section>
+  );
+}
+
+function BucketBars({ buckets, total }: { buckets: BucketInsight[]; total: number }) {
+  return (
+    <ul className="flex flex-col gap-1.5">
+      {buckets.map((bucket) => (
+        <li key={bucket.id} className="flex items-center gap-2 text-xs">
+          <span className="w-16 flex-shrink-0" style={{ color: "var(--text-secondary)" }}>
+            {bucket.label}
+          </span>
+          <div className="flex-1 h-2 rounded-full overflow-hidden" style={{ backgroundColor: "var(--surface-2)" }}>
+            <div
+              className="h-full rounded-full"
+              style={{
+                width: `${total > 0 ? (bucket.count / total) * 100 : 0}%`,
+                backgroundColor: "var(--accent)",
+              }}
+            />
+          </div>
+          <span className="w-24 text-right flex-shrink-0" style={{ color: "var(--text-primary)" }}>
+            {bucket.count}개 · {formatRatio(bucket)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -3,6 +3,7 @@
 /**
  * LoginModal.tsx
  * 화면 중앙 로그인 팝업 — 배경 클릭 또는 X 버튼으로 닫기
+ * 소셜 로그인 버튼은 /api/auth/<제공자>/login으로 이동 (로그인 후 next 경로로 복귀)
  */
 
 import { motion, AnimatePresence } from "framer-motion";
@@ -10,9 +11,24 @@ import { motion, AnimatePresence } from "framer-motion";
 interface LoginModalProps {
   open: boolean;
   onClose: () => void;
+  /** 로그인 후 돌아갈 경로 (기본 /analyzer) */
+  next?: string;
+  /** 로그인 실패 코드 (/login?error=...) */
+  error?: string | null;
 }
 
-export default function LoginModal({ open, onClose }: LoginModalProps) {
+const LOGIN_ERROR_MESSAGES: Record<string, string> = {
+  PROVIDER_NOT_CONFIGURED: "해당 로그인 방식이 아직 설정되지 않았습니다.",
+  INVALID_STATE: "로그인 요청이 만료되었습니다. 다시 시도해 주세요.",
+  OAUTH_FAILED: "로그인에 실패했습니다. 잠시 후 다시 시도해 주세요.",
+  UNKNOWN_PROVIDER: "지원하지 않는 로그인 방식입니다.",
+};
+
+function loginHref(provider: "google" | "kakao", next: string): string {
+  return `/api/auth/${provider}/login?next=${encodeURIComponent(next)}`;
+}
+
+export default function LoginModal({ open, onClose, next = "/analyzer", error = null }: LoginModalProps) {
   return (
     <AnimatePresence>
       {open && (
@@ -71,14 +87,24 @@ export default function LoginModal({ open, onClose }: LoginModalProps) {
                 </p>
               </div>
 
+              {error && (
+                <p
+                  className="text-sm text-center rounded-xl px-3 py-2"
+                  style={{ backgroundColor: "#fef2f2", color: "#b91c1c" }}
+                >
+                  {LOGIN_ERROR_MESSAGES[error] ?? LOGIN_ERROR_MESSAGES.OAUTH_FAILED}
+                </p>
+              )}
+
               {/* 구분선 */}
               <div style={{ height: "1px", backgroundColor: "#f3f4f6" }} />
 
               {/* ── 소셜 로그인 버튼들 ── */}
               <div className="flex flex-col gap-3">
                 {/* 구글로 계속하기 */}
-                <button
-                  className="relative w-full py-3.5 rounded-2xl text-sm font-semibold transition-all hover:shadow-md active:scale-[0.98]"
+                <a
+                  href={loginHref("google", next)}
+                  className="relative block text-center w-full py-3.5 rounded-2xl text-sm font-semibold transition-all hover:shadow-md active:scale-[0.98]"
                   style={{
                     backgroundColor: "white",
                     border: "1.5px solid #e5e7eb",
@@ -91,11 +117,12 @@ export default function LoginModal({ open, onClose }: LoginModalProps) {
                   </span>
                   {/* 텍스트 — 버튼 전체 너비 기준 가운데 정렬 */}
                   구글로 계속하기
-                </button>
+                </a>
 
                 {/* 카카오로 계속하기 */}
-                <button
-                  className="relative w-full py-3.5 rounded-2xl text-sm font-semibold transition-all hover:brightness-95 active:scale-[0.98]"
+                <a
+                  href={loginHref("kakao", next)}
+                  className="relative block text-center w-full py-3.5 rounded-2xl text-sm font-semibold transition-all hover:brightness-95 active:scale-[0.98]"
                   style={{
                     backgroundColor: "#FEE500",
                     border: "1.5px solid #FEE500",
@@ -108,7 +135,7 @@ export default function LoginModal({ open, onClose }: LoginModalProps) {
                   </span>
                   {/* 텍스트 — 버튼 전체 너비 기준 가운데 정렬 */}
                   카카오로 계속하기
-                </button>
+                </a>
               </div>
             </motion.div>
           </div>
@@ -0,0 +1,350 @@
+"use client";
+
+/**
+ * ResultFilterBar.tsx
+ * 검색 결과 필터 패널 (카드·테이블 뷰 공용)
+ * 책임: 이미 받은 결과를 범위·점수·게시일·채널·제목으로 좁히는 입력 UI와 패싯 개수 표시
+ * (필터 적용·패싯 계산은 lib/youtube/resultFilter.ts — 네트워크 호출 없음)
+ */
+
+import { useState } from "react";
+import { formatCount } from "@/lib/youtube/analysis";
+import {
+  EMPTY_RESULT_FILTER,
+  SLIDER_STEPS,
+  countActiveFilters,
+  sliderToValue,
+  valueToSlider,
+  type NumberRange,
+  type RangeField,
+  type ResultFacets,
+  type ResultFilter,
+} from "@/lib/youtube/resultFilter";
+import { useDisplayLocale } from "@/lib/client/displayLocale";
+
+interface ResultFilterBarProps {
+  filter: ResultFilter;
+  onChange: (filter: ResultFilter) => void;
+  facets: ResultFacets;
+  /** 필터 통과 개수 / 전체 개수 */
+  shown: number;
+  total: number;
+}
+
+const SCORE_LABELS: { score: 1 | 2 | 3 | 4 | 5; label: string }[] = [
+  { score: 5, label: "Excellent" },
+  { score: 4, label: "Great" },
+  { score: 3, label: "Good" },
+  { score: 2, label: "Normal" },
+  { score: 1, label: "Bad" },
+];
+
+/** 채널 목록 기본 표시 개수 */
+const CHANNEL_PREVIEW = 8;
+
+function formatDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+// ─── 메인 컴포넌트 ─────────────────────────────────────────────────────────────
+
+export default function ResultFilterBar({ filter, onChange, facets, shown, total }: ResultFilterBarProps) {
+  const locale = useDisplayLocale();
+  const [showAllChannels, setShowAllChannels] = useState(false);
+  const activeCount = countActiveFilters(filter);
+
+  const rangeRows: { field: RangeField; label: string; format: (n: number) => string; digits: number }[] = [
+    { field: "views", label: "조회수", format: (n) => formatCount(n, locale), digits: 0 },
+    { field: "subscribers", label: "구독자", format: (n) => formatCount(n, locale), digits: 0 },
+    { field: "ratio", label: "조회/구독 배율", format: (n) => `x${n}`, digits: 2 },
+    { field: "durationSeconds", label: "길이", format: formatDuration, digits: 0 },
+  ];
+
+  const setRange = (field: RangeField, range: NumberRange) =>
+    onChange({ ...filter, ranges: { ...filter.ranges, [field]: range } });
+
+  const toggleScore = (score: number) =>
+    onChange({
+      ...filter,
+      scores: filter.scores.includes(score) ? filter.scores.filter((s) => s !== score) : [...filter.scores, score],
+    });
+
+  const toggleChannel = (id: string) =>
+    onChange({
+      ...filter,
+      channelIds: filter.channelIds.includes(id)
+        ? filter.channelIds.filter((c) => c !== id)
+        : [...filter.channelIds, id],
+    });
+
+  const channels = showAllChannels ? facets.channels : facets.channels.slice(0, CHANNEL_PREVIEW);
+
+  return (
+    <section
+      className="rounded-2xl p-4 flex flex-col gap-4"
+      style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={filter.text}
+          onChange={(e) => onChange({ ...filter, text: e.target.value })}
+          placeholder="제목·채널명 검색"
+          className="flex-1 min-w-[180px] px-3 py-1.5 rounded-lg text-sm outline-none"
+          style={{
+            backgroundColor: "var(--surface-2)",
+            border: "1px solid var(--border)",
+            color: "var(--text-primary)",
+          }}
+        />
+        <span className="text-xs" style={{ color: "var(--text-secondary)" }}>
+          <span style={{ color: "var(--accent-light)" }}>{shown}</span> / {total}개 표시
+        </span>
+        {activeCount > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange(EMPTY_RESULT_FILTER)}
+            className="text-xs px-2.5 py-1 rounded-lg"
+            style={{ color: "var(--text-secondary)", border: "1px solid var(--border)" }}
+          >
+            ✕ 필터 {activeCount}개 초기화
+          </button>
+        )}
+      </div>
+
+      {/* ── 범위 슬라이더 ── */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+        {rangeRows.map(({ field, label, format, digits }) => (
+          <RangeSlider
+            key={field}
+            label={label}
+            bounds={facets.bounds[field]}
+            range={filter.ranges[field]}
+            digits={digits}
+            format={format}
+            onChange={(range) => setRange(field, range)}
+          />
+        ))}
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-4">
+        {/* ── 성과도 점수 ── */}
+        <FilterGroup label="성과도">
+          {SCORE_LABELS.map(({ score, label }) => (
+            <CheckChip
+              key={score}
+              checked={filter.scores.includes(score)}
+              count={facets.scoreCounts[score]}
+              onToggle={() => toggleScore(score)}
+            >
+              {score}점 {label}
+            </CheckChip>
+          ))}
+        </FilterGroup>
+
+        {/* ── 게시일 ── */}
+        <FilterGroup label="게시일">
+          <DateInput
+            value={filter.publishedFrom}
+            max={filter.publishedTo ?? undefined}
+            onChange={(publishedFrom) => onChange({ ...filter, publishedFrom })}
+          />
+          <span className="text-xs" style={{ color: "var(--text-secondary)" }}>
+            ~
+          </span>
+          <DateInput
+            value={filter.publishedTo}
+            min={filter.publishedFrom ?? undefined}
+            onChange={(publishedTo) => onChange({ ...filter, publishedTo })}
+          />
+        </FilterGroup>
+      </div>
+
+      {/* ── 채널 ── */}
+      <FilterGroup label="채널">
+        <div className="flex rounded-lg overflow-hidden text-xs" style={{ border: "1px solid var(--border)" }}>
+          {(
+            [
+              { mode: "include", label: "선택만" },
+              { mode: "exclude", label: "선택 제외" },
+            ] as const
+          ).map(({ mode, label }) => (
+            <button
+              key={mode}
+              type="button"
+              aria-pressed={filter.channelMode === mode}
+              onClick={() => onChange({ ...filter, channelMode: mode })}
+              className="px-2.5 py-1"
+              style={{
+                backgroundColor: filter.channelMode === mode ? "var(--accent)" : "transparent",
+                color: filter.channelMode === mode ? "#fff" : "var(--text-secondary)",
+              }}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {channels.map((channel) => (
+          <CheckChip
+            key={channel.id}
+            checked={filter.channelIds.includes(channel.id)}
+            count={channel.count}
+            onToggle={() => toggleChannel(channel.id)}
+          >
+            <span className="max-w-[160px] truncate">{channel.title}</span>
+          </CheckChip>
+        ))}
+        {facets.channels.length > CHANNEL_PREVIEW && (
+          <button
+            type="button"
+            onClick={() => setShowAllChannels((v) => !v)}
+            className="text-xs underline"
+            style={{ color: "var(--accent-light)" }}
+          >
+            {showAllChannels ? "접기" : `채널 ${facets.channels.length - CHANNEL_PREVIEW}개 더 보기`}
+          </button>
+        )}
+      </FilterGroup>
+    </section>
+  );
+}
+
+// ─── 서브 컴포넌트 ────────────────────────────────────────────────────────────
+
+function FilterGroup({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-start gap-2 min-w-0">
+      <span className="text-xs font-semibold flex-shrink-0 sm:w-16 sm:pt-1" style={{ color: "var(--text-secondary)" }}>
+        {label}
+      </span>
+      <div className="flex flex-wrap items-center gap-1.5 min-w-0">{children}</div>
+    </div>
+  );
+}
+
+/** 체크 칩 + 패싯 개수 (0개는 흐리게) */
+function CheckChip({
+  checked,
+  count,
+  onToggle,
+  children,
+}: {
+  checked: boolean;
+  count: number;
+  onToggle: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <label
+      className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs cursor-pointer"
+      style={{
+        backgroundColor: checked ? "var(--surface-2)" : "transparent",
+        border: `1px solid ${checked ? "var(--accent)" : "var(--border)"}`,
+        color: "var(--text-primary)",
+        opacity: count === 0 && !checked ? 0.45 : 1,
+      }}
+    >
+      <input type="checkbox" checked={checked} onChange={onToggle} className="accent-[var(--accent)]" />
+      {children}
+      <span style={{ color: "var(--text-secondary)" }}>{count}</span>
+    </label>
+  );
+}
+
+function DateInput({
+  value,
+  min,
+  max,
+  onChange,
+}: {
+  value: string | null;
+  min?: string;
+  max?: string;
+  onChange: (value: string | null) => void;
+}) {
+  return (
+    <input
+      type="date"
+      value={value ?? ""}
+      min={min}
+      max={max}
+      onChange={(e) => onChange(e.target.value || null)}
+      className="px-2 py-1 rounded-lg text-xs outline-none"
+      style={{
+        backgroundColor: "var(--surface-2)",
+        border: "1px solid var(--border)",
+        color: "var(--text-primary)",
+        colorScheme: "dark",
+      }}
+    />
+  );
+}
+
+/** 최솟값·최댓값 두 손잡이 슬라이더 (로그 눈금, 양 끝은 제한 없음) */
+function RangeSlider({
+  label,
+  bounds,
+  range,
+  digits,
+  format,
+  onChange,
+}: {
+  label: string;
+  bounds: { min: number; max: number };
+  range: NumberRange;
+  digits: number;
+  format: (n: number) => string;
+  onChange: (range: NumberRange) => void;
+}) {
+  const disabled = bounds.max <= bounds.min;
+  const low = range.min === null ? 0 : valueToSlider(range.min, bounds);
+  const high = range.max === null ? SLIDER_STEPS : valueToSlider(range.max, bounds);
+
+  const update = (nextLow: number, nextHigh: number) =>
+    onChange({
+      min: nextLow <= 0 ? null : sliderToValue(nextLow, bounds, digits),
+      max: nextHigh >= SLIDER_STEPS ? null : sliderToValue(nextHigh, bounds, digits),
+    });
+
+  const sliderStyle = { accentColor: "var(--accent)" };
+
+  return (
+    <div className="flex flex-col gap-1" style={{ opacity: disabled ? 0.5 : 1 }}>
+      <div className="flex items-baseline justify-between text-xs">
+        <span className="font-semibold" style={{ color: "var(--text-secondary)" }}>
+          {label}
+        </span>
+        <span style={{ color: range.min !== null || range.max !== null ? "var(--accent-light)" : "var(--text-secondary)" }}>
+          {format(range.min ?? bounds.min)} ~ {format(range.max ?? bounds.max)}
+        </span>
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          type="range"
+          aria-label={`${label} 최솟값`}
+          min={0}
+          max={SLIDER_STEPS}
+          value={low}
+          disabled={disabled}
+          onChange={(e) => update(Math.min(Number(e.target.value), high), high)}
+          className="flex-1"
+          style={sliderStyle}
+        />
+        <input
+          type="range"
+          aria-label={`${label} 최댓값`}
+          min={0}
+          max={SLIDER_STEPS}
+          value={high}
+          disabled={disabled}
+          onChange={(e) => update(low, Math.max(Number(e.target.value), low))}
+          className="flex-1"
+          style={sliderStyle}
+        />
+      </div>
+    </div>
+  );
+}
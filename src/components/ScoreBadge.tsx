@@ -0,0 +1,25 @@
+/**
+ * ScoreBadge.tsx
+ * 성과도 / 기여도 점수 배지 (테이블 뷰 · 채널 상세 페이지 공용)
+ */
+
+import type { ScoreInfo } from "@/lib/youtube/analysis";
+
+export default function ScoreBadge({ info }: { info: ScoreInfo }) {
+  return (
+    <span
+      className="inline-flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-semibold whitespace-nowrap"
+      style={{
+        color: info.color,
+        backgroundColor: `${info.color}18`,
+        border: `1px solid ${info.color}40`,
+      }}
+    >
+      <span
+        className="inline-block w-1.5 h-1.5 rounded-full flex-shrink-0"
+        style={{ backgroundColor: info.color }}
+      />
+      {info.score}점 · {info.label}
+    </span>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+/**
+ * ScoringProfileEditor.tsx
+ * 사용자 정의 점수 기준 편집 폼 (이름, 성과도·기여도 경계값 4개씩, 핵심 필터 배수)
+ * 입력 검증은 서버와 같은 parseCustomProfile 사용
+ */
+
+import { useState } from "react";
+import {
+  DEFAULT_SCORING_PROFILE,
+  parseCustomProfile,
+  type ScoringProfile,
+} from "@/lib/scoring/profiles";
+
+type ProfileInput = Omit<ScoringProfile, "id">;
+
+interface Props {
+  /** 수정할 프로필 (없으면 기본 기준 값으로 새로 만들기) */
+  profile?: ScoringProfile;
+  /** 저장 요청 — 실패 시 오류 메시지 반환 */
+  onSave: (input: ProfileInput) => Promise<string | null>;
+  onDelete?: () => void;
+  onCancel: () => void;
+}
+
+const SCORE_LEVELS = [5, 4, 3, 2] as const;
+
+const toInputs = (values: readonly number[]) => values.map(String);
+
+export default function ScoringProfileEditor({ profile, onSave, onDelete, onCancel }: Props) {
+  const base = profile ?? DEFAULT_SCORING_PROFILE;
+  const [name, setName] = useState(profile?.name ?? "");
+  const [performance, setPerformance] = useState(toInputs(base.performance));
+  const [contribution, setContribution] = useState(toInputs(base.contribution));
+  const [filterEnabled, setFilterEnabled] = useState(base.minViewToSubscriberRatio !== null);
+  const [ratio, setRatio] = useState(String(base.minViewToSubscriberRatio ?? 1));
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    const parsed = parseCustomProfile({
+      name,
+      performance: performance.map(Number),
+      contribution: contribution.map(Number),
+      minViewToSubscriberRatio: filterEnabled ? Number(ratio) : null,
+    });
+    if (typeof parsed === "string") {
+      setError(parsed);
+      return;
+    }
+    setSaving(true);
+    setError(await onSave(parsed));
+    setSaving(false);
+  };
+
+  return (
+    <div
+      className="rounded-lg p-3 flex flex-col gap-3 w-full"
+      style={{ backgroundColor: "var(--surface)", border: "1px solid var(--border)" }}
+    >
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="기준 이름 (예: 게임 채널용)"
+        maxLength={30}
+        className="px-3 py-1.5 rounded-lg text-sm outline-none w-full sm:w-[240px]"
+        style={inputStyle}
+      />
+
+      <ThresholdRow label="성과도 (조회수 ÷ 구독자)" values={performance} onChange={setPerformance} />
+      <ThresholdRow label="기여도 (조회수 ÷ 채널 평균)" values={contribution} onChange={setContribution} />
+
+      <label className="flex flex-wrap items-center gap-2 text-xs" style={{ color: "var(--text-secondary)" }}>
+        <input
+          type="checkbox"
+          checked={filterEnabled}
+          onChange={(e) => setFilterEnabled(e.target.checked)}
+        />
+        핵심 필터: 조회수 ≥ 구독자 수 ×
+        <input
+          type="text"
+          inputMode="decimal"
+          value={ratio}
+          disabled={!filterEnabled}
+          onChange={(e) => setRatio(e.target.value.replace(/[^0-9.]/g, ""))}
+          className="px-2 py-1 rounded-md text-xs outline-none w-16"
+          style={{ ...inputStyle, opacity: filterEnabled ? 1 : 0.5 }}
+        />
+      </label>
+
+      {error && (
+        <p className="text-xs" style={{ color: "#ef4444" }}>
+          {error}
+        </p>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="px-3 py-1 rounded-lg text-xs font-semibold disabled:opacity-50"
+          style={{ backgroundColor: "var(--accent)", color: "#fff" }}
+        >
+          {saving ? "저장 중…" : "저장"}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1 rounded-lg text-xs"
+          style={{ border: "1px solid var(--border)", color: "var(--text-secondary)" }}
+        >
+          취소
+        </button>
+        {onDelete && (
+          <button
+            type="button"
+            onClick={onDelete}
+            className="ml-auto text-xs underline"
+            style={{ color: "#ef4444" }}
+          >
+            삭제
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const inputStyle = {
+  backgroundColor: "var(--surface-2)",
+  border: "1px solid var(--border)",
+  color: "var(--text-primary)",
+};
+
+/** 점수 5·4·3·2점 최소 비율 입력 (배수) */
+function ThresholdRow({
+  label,
+  values,
+  onChange,
+}: {
+  label: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-1.5">
+      <span className="text-xs" style={{ color: "var(--text-secondary)" }}>
+        {label}
+      </span>
+      <div className="flex flex-wrap gap-2">
+        {SCORE_LEVELS.map((level, i) => (
+          <label key={level} className="flex items-center gap-1 text-xs" style={{ color: "var(--text-secondary)" }}>
+            {level}점 ≥
+            <input
+              type="text"
+              inputMode="decimal"
+              value={values[i]}
+              onChange={(e) =>
+                onChange(values.map((v, j) => (j === i ? e.target.value.replace(/[^0-9.]/g, "") : v)))
+              }
+              className="px-2 py-1 rounded-md text-xs outline-none w-16"
+              style={inputStyle}
+            />
+            배
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+/**
+ * UserMenu.tsx
+ * 헤더 우측 로그인 사용자 표시 + 로그아웃 버튼
+ */
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import type { PublicUser } from "@/lib/auth/users";
+
+export default function UserMenu() {
+  const router = useRouter();
+  const [user, setUser] = useState<PublicUser | null>(null);
+
+  useEffect(() => {
+    fetch("/api/auth/me")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setUser(data?.user ?? null))
+      .catch(() => setUser(null));
+  }, []);
+
+  const handleLogout = async () => {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => {});
+    router.push("/");
+  };
+
+  if (!user) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-xs" style={{ color: "var(--text-secondary)" }}>
+      <span className="hidden sm:inline" title={user.email ?? undefined}>
+        {user.name}
+      </span>
+      <button
+        type="button"
+        onClick={handleLogout}
+        className="px-2 py-1 rounded-full"
+        style={{ border: "1px solid var(--border)" }}
+      >
+        로그아웃
+      </button>
+    </div>
+  );
+}
@@ -7,16 +7,24 @@
  */
 
 import Image from "next/image";
+import Link from "next/link";
 import { motion } from "framer-motion";
 import type { VideoResult } from "@/lib/youtube/analysis";
 import {
-  formatKoreanNumber,
+  formatCount,
   formatDate,
   formatRatio,
 } from "@/lib/youtube/analysis";
+import { formatTypeConfidence } from "@/lib/youtube/videoType";
+import { useDisplayLocale } from "@/lib/client/displayLocale";
 
 interface VideoCardsProps {
   videos: VideoResult[];
+  /** 워치리스트에 고정한 영상 ID (지정 시 고정 버튼 표시) */
+  watchedIds?: Set<string>;
+  onToggleWatch?: (video: VideoResult) => void;
+  /** 지정 시 댓글 분석 버튼 표시 */
+  onOpenComments?: (video: VideoResult) => void;
 }
 
 const gridVariants = {
@@ -37,7 +45,8 @@ const cardVariants = {
   },
 };
 
-export default function VideoCards({ videos }: VideoCardsProps) {
+export default function VideoCards({ videos, watchedIds, onToggleWatch, onOpenComments }: VideoCardsProps) {
+  const locale = useDisplayLocale();
   return (
     <motion.div
       className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-5"
@@ -47,18 +56,24 @@ export default function VideoCards({ videos }: VideoCardsProps) {
     >
       {videos.map((video) => (
         <motion.div key={video.id} variants={cardVariants}>
-          <a
-            href={`https://www.youtube.com/watch?v=${video.id}`}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="video-card block rounded-2xl overflow-hidden"
+          <div
+            className="video-card relative rounded-2xl overflow-hidden"
             style={{
               backgroundColor: "var(--surface)",
               border: "1px solid var(--border)",
             }}
           >
+            {/* 카드 전체를 덮는 YouTube 링크 (채널 링크는 그 위에 배치) */}
+            <a
+              href={`https://www.youtube.com/watch?v=${video.id}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              aria-label={video.title}
+              className="absolute inset-0 z-0"
+            />
+
             {/* ── 썸네일 ── */}
-            <div className="relative w-full aspect-video overflow-hidden">
+            <div className="relative w-full aspect-video overflow-hidden pointer-events-none">
               <Image
                 src={video.thumbnail}
                 alt={video.title}
@@ -77,10 +92,36 @@ export default function VideoCards({ videos }: VideoCardsProps) {
               >
                 조회 x{video.viewToSubscriberRatio.toFixed(1)}
               </div>
+              {/* 3분 이하 영상의 유형 판별 확신도 */}
+              {formatTypeConfidence(video.shortsConfidence) && (
+                <div
+                  className="absolute bottom-2 right-2 px-2 py-1 rounded-lg text-xs font-bold"
+                  style={{ backgroundColor: "rgba(15,17,23,0.75)", color: "#fff", backdropFilter: "blur(4px)" }}
+                >
+                  {formatTypeConfidence(video.shortsConfidence)}
+                </div>
+              )}
+              {onToggleWatch && (
+                <WatchButton
+                  watched={watchedIds?.has(video.id) ?? false}
+                  onClick={() => onToggleWatch(video)}
+                />
+              )}
+              {onOpenComments && (
+                <button
+                  type="button"
+                  onClick={() => onOpenComments(video)}
+                  title="댓글 분석"
+                  className="absolute bottom-2 left-2 z-10 px-2 py-1 rounded-lg text-xs font-bold pointer-events-auto"
+                  style={{ backgroundColor: "rgba(15,17,23,0.75)", color: "#fff", backdropFilter: "blur(4px)" }}
+                >
+                  댓글 분석
+                </button>
+              )}
             </div>
 
             {/* ── 콘텐츠 영역 ── */}
-            <div className="p-4 flex flex-col gap-3">
+            <div className="relative p-4 flex flex-col gap-3 pointer-events-none">
               {/* 제목 */}
               <h3
                 className="font-semibold text-sm leading-snug line-clamp-2"
@@ -90,9 +131,13 @@ export default function VideoCards({ videos }: VideoCardsProps) {
               </h3>
 
               {/* 채널명 */}
-              <p className="text-xs" style={{ color: "var(--text-secondary)" }}>
+              <Link
+                href={`/analyzer/channel/${video.channelId}`}
+                className="self-start text-xs hover:underline pointer-events-auto"
+                style={{ color: "var(--text-secondary)" }}
+              >
                 {video.channelTitle}
-              </p>
+              </Link>
 
               {/* ── 스탯 그리드 ── */}
               <div
@@ -119,32 +164,98 @@ export default function VideoCards({ videos }: VideoCardsProps) {
                 {/* 채널 구독자 수 */}
                 <StatItem
                   label="채널 구독자"
-                  value={formatKoreanNumber(video.subscriberCount)}
+                  value={formatCount(video.subscriberCount, locale)}
                 />
 
                 {/* 업로드 날짜 */}
                 <StatItem
                   label="업로드"
-                  value={formatDate(video.publishedAt)}
+                  value={
+                    video.ageDays != null
+                      ? `${formatDate(video.publishedAt)} · ${video.ageDays.toLocaleString()}일 전`
+                      : formatDate(video.publishedAt)
+                  }
+                />
+
+                {/* 일평균 조회수 / 좋아요 */}
+                <StatItem
+                  label="하루 조회 / 좋아요"
+                  value={
+                    video.viewsPerDay != null
+                      ? `${formatCount(video.viewsPerDay, locale)} / ${
+                          video.likesPerDay != null
+                            ? formatCount(Math.round(video.likesPerDay), locale)
+                            : "비공개"
+                        }`
+                      : "—"
+                  }
+                />
+
+                {/* 기간 보정 성과도 (30일 환산) */}
+                <StatItem
+                  label="기간 보정 성과도"
+                  value={
+                    video.ageAdjustedScore
+                      ? `${video.ageAdjustedScore.score}점 · ${video.ageAdjustedScore.label}`
+                      : "—"
+                  }
+                  color={video.ageAdjustedScore?.color}
+                />
+
+                {/* 댓글 수 (조회수 대비 %) */}
+                <StatItem
+                  label="댓글"
+                  value={
+                    video.commentCount != null
+                      ? `${formatCount(video.commentCount, locale)} · ${
+                          video.viewCount > 0
+                            ? ((video.commentCount / video.viewCount) * 100).toFixed(2)
+                            : "0.00"
+                        }%`
+                      : "—"
+                  }
                 />
               </div>
             </div>
-          </a>
+          </div>
         </motion.div>
       ))}
     </motion.div>
   );
 }
 
+// ── 워치리스트 고정 버튼 ──────────────────────────────────────────────────────
+
+function WatchButton({ watched, onClick }: { watched: boolean; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={watched}
+      title={watched ? "워치리스트에서 빼기" : "워치리스트에 고정"}
+      className="absolute top-2 left-2 z-10 px-2 py-1 rounded-lg text-xs font-bold pointer-events-auto"
+      style={{
+        backgroundColor: watched ? "rgba(251,191,36,0.9)" : "rgba(15,17,23,0.75)",
+        color: watched ? "#111827" : "#fff",
+        backdropFilter: "blur(4px)",
+      }}
+    >
+      {watched ? "★ 추적 중" : "☆ 추적"}
+    </button>
+  );
+}
+
 // ── 스탯 아이템 서브컴포넌트 ──────────────────────────────────────────────────
 
 interface StatItemProps {
   label: string;
   value: string;
   highlight?: boolean;
+  /** 값 텍스트 색상 (highlight보다 우선) */
+  color?: string;
 }
 
-function StatItem({ label, value, highlight = false }: StatItemProps) {
+function StatItem({ label, value, highlight = false, color }: StatItemProps) {
   return (
     <div
       className="rounded-lg px-3 py-2"
@@ -155,7 +266,7 @@ function StatItem({ label, value, highlight = false }: StatItemProps) {
       </p>
       <p
         className="text-sm font-semibold"
-        style={{ color: highlight ? "var(--accent-light)" : "var(--text-primary)" }}
+        style={{ color: color ?? (highlight ? "var(--accent-light)" : "var(--text-primary)") }}
       >
         {value}
       </p>
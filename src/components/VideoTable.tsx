@@ -3,39 +3,30 @@
 /**
  * VideoTable.tsx
  * 테이블 뷰 렌더링 전담 컴포넌트
- * 책임: 영상 목록을 테이블 형태로 표시, 컬럼 클릭으로 정렬
+ * 책임: 영상 목록을 테이블 형태로 표시, 컬럼 클릭으로 정렬 기준 변경
+ * (정렬 상태는 카드 뷰·내보내기와 공유하도록 상위에서 관리 — lib/youtube/resultSort.ts)
  */
 
-import { useState, useMemo } from "react";
 import Image from "next/image";
+import Link from "next/link";
 import { motion } from "framer-motion";
-import type { VideoResult, ScoreInfo } from "@/lib/youtube/analysis";
-import { formatKoreanNumber, formatDate } from "@/lib/youtube/analysis";
+import type { VideoResult } from "@/lib/youtube/analysis";
+import { formatCount, formatDate } from "@/lib/youtube/analysis";
+import { formatTypeConfidence } from "@/lib/youtube/videoType";
+import { useDisplayLocale } from "@/lib/client/displayLocale";
+import type { SortDir, VideoSort, VideoSortKey } from "@/lib/youtube/resultSort";
+import ScoreBadge from "@/components/ScoreBadge";
 
 interface VideoTableProps {
+  /** 정렬이 끝난 영상 목록 */
   videos: VideoResult[];
-}
-
-type SortKey =
-  | "viewCount"
-  | "subscriberCount"
-  | "totalVideoCount"
-  | "contributionScore"
-  | "performanceScore"
-  | "publishedAt";
-type SortDir = "asc" | "desc";
-
-// ─── 정렬 유틸 ────────────────────────────────────────────────────────────────
-
-function getSortValue(video: VideoResult, key: SortKey): number {
-  switch (key) {
-    case "viewCount":        return video.viewCount;
-    case "subscriberCount":  return video.subscriberCount;
-    case "totalVideoCount":  return video.totalVideoCount;
-    case "contributionScore":return video.contributionScore?.score ?? -1;
-    case "performanceScore": return video.performanceScore.score;
-    case "publishedAt":      return new Date(video.publishedAt).getTime();
-  }
+  sort: VideoSort;
+  onSortChange: (key: VideoSortKey) => void;
+  /** 워치리스트에 고정한 영상 ID (지정 시 고정 버튼 표시) */
+  watchedIds?: Set<string>;
+  onToggleWatch?: (video: VideoResult) => void;
+  /** 지정 시 댓글 분석 버튼 표시 */
+  onOpenComments?: (video: VideoResult) => void;
 }
 
 // ─── 애니메이션 ───────────────────────────────────────────────────────────────
@@ -56,36 +47,25 @@ const rowVariants = {
 
 // ─── 메인 컴포넌트 ────────────────────────────────────────────────────────────
 
-export default function VideoTable({ videos }: VideoTableProps) {
-  // 기본 정렬: 성과도 내림차순 (서버 정렬과 동일)
-  const [sortKey, setSortKey] = useState<SortKey>("performanceScore");
-  const [sortDir, setSortDir] = useState<SortDir>("desc");
-
-  const handleSort = (key: SortKey) => {
-    if (sortKey === key) {
-      setSortDir((d) => (d === "desc" ? "asc" : "desc"));
-    } else {
-      setSortKey(key);
-      setSortDir("desc");
-    }
-  };
+export default function VideoTable({
+  videos,
+  sort,
+  onSortChange,
+  watchedIds,
+  onToggleWatch,
+  onOpenComments,
+}: VideoTableProps) {
+  const locale = useDisplayLocale();
 
-  const sorted = useMemo(
-    () =>
-      [...videos].sort((a, b) => {
-        const av = getSortValue(a, sortKey);
-        const bv = getSortValue(b, sortKey);
-        return sortDir === "desc" ? bv - av : av - bv;
-      }),
-    [videos, sortKey, sortDir]
-  );
-
-  const SORTABLE_COLS: { label: string; key: SortKey }[] = [
+  const SORTABLE_COLS: { label: string; key: VideoSortKey }[] = [
     { label: "조회수",    key: "viewCount" },
     { label: "구독자 수", key: "subscriberCount" },
     { label: "총 영상 수",key: "totalVideoCount" },
     { label: "기여도",    key: "contributionScore" },
     { label: "성과도",    key: "performanceScore" },
+    { label: "일 조회수", key: "viewsPerDay" },
+    { label: "일 좋아요", key: "likesPerDay" },
+    { label: "기간 보정", key: "ageAdjustedScore" },
     { label: "게시일",    key: "publishedAt" },
   ];
 
@@ -122,9 +102,9 @@ export default function VideoTable({ videos }: VideoTableProps) {
                 key={key}
                 label={label}
                 sortKey={key}
-                activeSortKey={sortKey}
-                sortDir={sortDir}
-                onSort={handleSort}
+                activeSortKey={sort.key}
+                sortDir={sort.dir}
+                onSort={onSortChange}
               />
             ))}
           </tr>
@@ -132,7 +112,7 @@ export default function VideoTable({ videos }: VideoTableProps) {
 
         {/* ── 바디 ── */}
         <tbody>
-          {sorted.map((video, idx) => (
+          {videos.map((video, idx) => (
             <motion.tr
               key={video.id}
               variants={rowVariants}
@@ -175,18 +155,45 @@ export default function VideoTable({ videos }: VideoTableProps) {
                 >
                   {video.title}
                 </a>
-                <p
-                  className="mt-1 text-xs truncate"
+                <Link
+                  href={`/analyzer/channel/${video.channelId}`}
+                  className="mt-1 block text-xs truncate hover:underline"
                   style={{ color: "var(--text-secondary)" }}
                 >
                   {video.channelTitle}
-                </p>
+                </Link>
+                {formatTypeConfidence(video.shortsConfidence) && (
+                  <span className="mt-1 block text-xs" style={{ color: "var(--text-secondary)" }}>
+                    {formatTypeConfidence(video.shortsConfidence)}
+                  </span>
+                )}
+                {onToggleWatch && (
+                  <button
+                    type="button"
+                    onClick={() => onToggleWatch(video)}
+                    aria-pressed={watchedIds?.has(video.id) ?? false}
+                    className="mt-1 text-xs"
+                    style={{ color: watchedIds?.has(video.id) ? "#fbbf24" : "var(--text-secondary)" }}
+                  >
+                    {watchedIds?.has(video.id) ? "★ 추적 중" : "☆ 추적"}
+                  </button>
+                )}
+                {onOpenComments && (
+                  <button
+                    type="button"
+                    onClick={() => onOpenComments(video)}
+                    className={`mt-1 text-xs ${onToggleWatch ? "ml-3" : ""}`}
+                    style={{ color: "var(--text-secondary)" }}
+                  >
+                    댓글 분석
+                  </button>
+                )}
               </td>
 
               {/* 조회수 */}
               <td className="px-4 py-3 whitespace-nowrap">
                 <div className="font-semibold" style={{ color: "var(--text-primary)" }}>
-                  {formatKoreanNumber(video.viewCount)}
+                  {formatCount(video.viewCount, locale)}
                 </div>
                 <div className="text-xs mt-0.5" style={{ color: "var(--accent-light)" }}>
                   x{video.viewToSubscriberRatio.toFixed(1)}
@@ -196,14 +203,14 @@ export default function VideoTable({ videos }: VideoTableProps) {
               {/* 구독자 수 */}
               <td className="px-4 py-3 whitespace-nowrap">
                 <span style={{ color: "var(--text-primary)" }}>
-                  {formatKoreanNumber(video.subscriberCount)}
+                  {formatCount(video.subscriberCount, locale)}
                 </span>
               </td>
 
               {/* 총 영상 수 */}
               <td className="px-4 py-3 whitespace-nowrap">
                 <span style={{ color: "var(--text-secondary)" }}>
-                  {formatKoreanNumber(video.totalVideoCount)}
+                  {formatCount(video.totalVideoCount, locale)}
                 </span>
               </td>
 
@@ -229,6 +236,37 @@ export default function VideoTable({ videos }: VideoTableProps) {
                 <ScoreBadge info={video.performanceScore} />
               </td>
 
+              {/* 일평균 조회수 */}
+              <td className="px-4 py-3 whitespace-nowrap">
+                <span style={{ color: "var(--text-primary)" }}>
+                  {video.viewsPerDay != null ? formatCount(video.viewsPerDay, locale) : "—"}
+                </span>
+              </td>
+
+              {/* 일평균 좋아요 */}
+              <td className="px-4 py-3 whitespace-nowrap">
+                <span style={{ color: "var(--text-secondary)" }}>
+                  {video.likesPerDay != null ? formatCount(Math.round(video.likesPerDay), locale) : "—"}
+                </span>
+              </td>
+
+              {/* 기간 보정 성과도 */}
+              <td className="px-4 py-3 whitespace-nowrap">
+                {video.ageAdjustedScore ? (
+                  <ScoreBadge info={video.ageAdjustedScore} />
+                ) : (
+                  <span
+                    className="inline-block px-2 py-0.5 rounded text-xs"
+                    style={{
+                      backgroundColor: "var(--surface-2)",
+                      color: "var(--text-secondary)",
+                    }}
+                  >
+                    —
+                  </span>
+                )}
+              </td>
+
               {/* 게시일 */}
               <td className="px-4 py-3 whitespace-nowrap">
                 <span className="text-xs" style={{ color: "var(--text-secondary)" }}>
@@ -254,10 +292,10 @@ function SortableHeader({
   onSort,
 }: {
   label: string;
-  sortKey: SortKey;
-  activeSortKey: SortKey;
+  sortKey: VideoSortKey;
+  activeSortKey: VideoSortKey;
   sortDir: SortDir;
-  onSort: (key: SortKey) => void;
+  onSort: (key: VideoSortKey) => void;
 }) {
   const isActive = sortKey === activeSortKey;
 
@@ -306,23 +344,3 @@ function SortIcon({ active, dir }: { active: boolean; dir: SortDir }) {
     </span>
   );
 }
-
-/** 성과도 / 기여도 점수 배지 */
-function ScoreBadge({ info }: { info: ScoreInfo }) {
-  return (
-    <span
-      className="inline-flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-semibold whitespace-nowrap"
-      style={{
-        color: info.color,
-        backgroundColor: `${info.color}18`,
-        border: `1px solid ${info.color}40`,
-      }}
-    >
-      <span
-        className="inline-block w-1.5 h-1.5 rounded-full flex-shrink-0"
-        style={{ backgroundColor: info.color }}
-      />
-      {info.score}점 · {info.label}
-    </span>
-  );
-}
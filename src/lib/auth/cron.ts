@@ -0,0 +1,13 @@
+/**
+ * cron.ts
+ * 주기 작업 요청 인증 — Authorization: Bearer <CRON_SECRET> (상수 시간 비교)
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import type { NextRequest } from "next/server";
+
+export function isCronAuthorized(req: NextRequest, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(req.headers.get("authorization") ?? "");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
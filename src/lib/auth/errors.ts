@@ -0,0 +1,30 @@
+/**
+ * errors.ts
+ * 인증 에러 타입 (youtube/errors.ts와 같은 형태: 메시지 + 코드 → HTTP 상태)
+ */
+
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    public readonly code: AuthErrorCode
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+export type AuthErrorCode =
+  | "UNAUTHORIZED"
+  | "UNKNOWN_PROVIDER"
+  | "PROVIDER_NOT_CONFIGURED"
+  | "INVALID_STATE"
+  | "OAUTH_FAILED";
+
+/** 에러 코드 → Route Handler 응답 HTTP 상태 코드 */
+export const AUTH_ERROR_STATUS: Record<AuthErrorCode, number> = {
+  UNAUTHORIZED: 401,
+  UNKNOWN_PROVIDER: 404,
+  PROVIDER_NOT_CONFIGURED: 503,
+  INVALID_STATE: 400,
+  OAUTH_FAILED: 502,
+};
@@ -0,0 +1,61 @@
+/**
+ * mockProvider.ts
+ * 로컬 모의 OAuth 제공자 (AUTH_MOCK_OAUTH=1 전용)
+ * - authorize: 동의 화면 없이 즉시 redirect_uri로 인가 코드 전달 (login_hint로 사용자 지정)
+ * - token    : 인가 코드를 그대로 액세스 토큰으로 발급
+ * - userinfo : 실제 제공자와 같은 모양의 사용자 정보 반환 → providers.ts 변환 로직까지 검증 가능
+ */
+
+import type { AuthProviderId } from "./users";
+
+interface MockIdentity {
+  provider: AuthProviderId;
+  login: string;
+}
+
+function encode(identity: MockIdentity): string {
+  return Buffer.from(JSON.stringify(identity)).toString("base64url");
+}
+
+function decode(value: string): MockIdentity | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    return typeof parsed.login === "string" && typeof parsed.provider === "string" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** 인가 요청 → redirect_uri?code=...&state=... (필수 파라미터 누락 시 null) */
+export function mockAuthorizeRedirect(provider: AuthProviderId, params: URLSearchParams): string | null {
+  const redirectUri = params.get("redirect_uri");
+  const state = params.get("state");
+  if (!redirectUri || !state) return null;
+
+  const login = params.get("login_hint")?.trim() || "tester";
+  const url = new URL(redirectUri);
+  url.searchParams.set("code", encode({ provider, login }));
+  url.searchParams.set("state", state);
+  return url.toString();
+}
+
+/** 인가 코드 → 액세스 토큰 (같은 제공자에서 발급한 코드만 허용) */
+export function mockExchangeCode(provider: AuthProviderId, code: string | null): string | null {
+  const identity = code ? decode(code) : null;
+  return identity?.provider === provider ? code : null;
+}
+
+/** Bearer 토큰 → 제공자 형식의 사용자 정보 */
+export function mockUserInfo(provider: AuthProviderId, authorization: string | null): Record<string, unknown> | null {
+  const identity = decode(authorization?.replace(/^Bearer\s+/i, "") ?? "");
+  if (!identity || identity.provider !== provider) return null;
+
+  const email = `${identity.login}@example.com`;
+  if (provider === "google") {
+    return { sub: `mock-${identity.login}`, name: identity.login, email };
+  }
+  return {
+    id: `mock-${identity.login}`,
+    kakao_account: { email, profile: { nickname: identity.login } },
+  };
+}
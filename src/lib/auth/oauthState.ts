@@ -0,0 +1,52 @@
+/**
+ * oauthState.ts
+ * OAuth state 파라미터 (CSRF 방지) + 로그인 후 돌아갈 경로를 서명 쿠키로 보관
+ */
+
+import { randomBytes } from "node:crypto";
+import type { NextRequest, NextResponse } from "next/server";
+import { signToken, verifyToken } from "./session";
+import type { AuthProviderId } from "./users";
+
+export const OAUTH_STATE_COOKIE = "jd_oauth_state";
+/** 제공자 로그인 화면에 머무를 수 있는 시간: 10분 */
+const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
+interface OAuthState {
+  state: string;
+  provider: AuthProviderId;
+  next: string;
+  exp: number;
+}
+
+/** 새 state 발급: 제공자에 전달할 state 값 + 쿠키에 저장할 서명 토큰 */
+export function createOAuthState(
+  provider: AuthProviderId,
+  next: string
+): { state: string; cookie: string } {
+  const state = randomBytes(16).toString("base64url");
+  const cookie = signToken({ state, provider, next, exp: Date.now() + OAUTH_STATE_TTL_MS } satisfies OAuthState);
+  return { state, cookie };
+}
+
+export function setOAuthStateCookie(res: NextResponse, cookie: string): void {
+  res.cookies.set(OAUTH_STATE_COOKIE, cookie, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/api/auth",
+    maxAge: OAUTH_STATE_TTL_MS / 1000,
+  });
+}
+
+/** 콜백의 state가 쿠키와 일치하면 로그인 후 경로 반환 (불일치·만료 시 null) */
+export function consumeOAuthState(req: NextRequest, provider: AuthProviderId): string | null {
+  const saved = verifyToken<OAuthState>(req.cookies.get(OAUTH_STATE_COOKIE)?.value);
+  const state = req.nextUrl.searchParams.get("state");
+  if (!saved || !state || saved.state !== state || saved.provider !== provider) return null;
+  return saved.next;
+}
+
+export function clearOAuthState(res: NextResponse): void {
+  res.cookies.set(OAUTH_STATE_COOKIE, "", { path: "/api/auth", maxAge: 0 });
+}
@@ -0,0 +1,152 @@
+/**
+ * providers.ts
+ * Google / Kakao OAuth 2.0 인가 코드 흐름
+ * - AUTH_MOCK_OAUTH=1 설정 시 실제 제공자 대신 로컬 모의 제공자(/api/auth/mock/...) 사용
+ * - 제공자별 사용자 정보 응답을 OAuthProfile 공통 형태로 변환
+ */
+
+import { AuthError } from "./errors";
+import type { AuthProviderId, OAuthProfile } from "./users";
+
+// ─── 제공자 설정 ──────────────────────────────────────────────────────────────
+
+interface ProviderEndpoints {
+  authorizeUrl: string;
+  tokenUrl: string;
+  userInfoUrl: string;
+}
+
+interface ProviderConfig extends ProviderEndpoints {
+  id: AuthProviderId;
+  scope: string;
+  clientIdEnv: string;
+  clientSecretEnv: string;
+  /** 사용자 정보 응답 → 공통 프로필 */
+  toProfile(raw: Record<string, unknown>): OAuthProfile;
+}
+
+const PROVIDERS: Record<AuthProviderId, ProviderConfig> = {
+  google: {
+    id: "google",
+    authorizeUrl: "https://accounts.google.com/o/oauth2/v2/auth",
+    tokenUrl: "https://oauth2.googleapis.com/token",
+    userInfoUrl: "https://openidconnect.googleapis.com/v1/userinfo",
+    scope: "openid email profile",
+    clientIdEnv: "GOOGLE_CLIENT_ID",
+    clientSecretEnv: "GOOGLE_CLIENT_SECRET",
+    toProfile: (raw) => ({
+      provider: "google",
+      providerUserId: String(raw.sub),
+      name: String(raw.name ?? raw.email ?? "Google 사용자"),
+      email: typeof raw.email === "string" ? raw.email : null,
+      avatarUrl: typeof raw.picture === "string" ? raw.picture : null,
+    }),
+  },
+  kakao: {
+    id: "kakao",
+    authorizeUrl: "https://kauth.kakao.com/oauth/authorize",
+    tokenUrl: "https://kauth.kakao.com/oauth/token",
+    userInfoUrl: "https://kapi.kakao.com/v2/user/me",
+    scope: "profile_nickname profile_image account_email",
+    clientIdEnv: "KAKAO_CLIENT_ID",
+    clientSecretEnv: "KAKAO_CLIENT_SECRET",
+    toProfile: (raw) => {
+      const account = (raw.kakao_account ?? {}) as {
+        email?: string;
+        profile?: { nickname?: string; profile_image_url?: string };
+      };
+      return {
+        provider: "kakao",
+        providerUserId: String(raw.id),
+        name: account.profile?.nickname ?? "카카오 사용자",
+        email: account.email ?? null,
+        avatarUrl: account.profile?.profile_image_url ?? null,
+      };
+    },
+  },
+};
+
+export function isAuthProvider(id: string): id is AuthProviderId {
+  return Object.hasOwn(PROVIDERS, id);
+}
+
+export function isMockOAuthEnabled(): boolean {
+  return process.env.AUTH_MOCK_OAUTH === "1";
+}
+
+/** 모의 제공자 사용 시 엔드포인트를 현재 서버로 교체 */
+function endpointsFor(provider: ProviderConfig, origin: string): ProviderEndpoints {
+  if (!isMockOAuthEnabled()) return provider;
+  const base = `${origin}/api/auth/mock/${provider.id}`;
+  return {
+    authorizeUrl: `${base}/authorize`,
+    tokenUrl: `${base}/token`,
+    userInfoUrl: `${base}/userinfo`,
+  };
+}
+
+function credentialsFor(provider: ProviderConfig): { clientId: string; clientSecret: string } {
+  if (isMockOAuthEnabled()) return { clientId: "mock-client", clientSecret: "mock-secret" };
+  const clientId = process.env[provider.clientIdEnv];
+  if (!clientId) {
+    throw new AuthError(
+      `${provider.id} 로그인이 설정되지 않았습니다. (${provider.clientIdEnv})`,
+      "PROVIDER_NOT_CONFIGURED"
+    );
+  }
+  return { clientId, clientSecret: process.env[provider.clientSecretEnv] ?? "" };
+}
+
+// ─── 인가 코드 흐름 ───────────────────────────────────────────────────────────
+
+/** 제공자 로그인 화면 URL */
+export function buildAuthorizeUrl(
+  id: AuthProviderId,
+  { origin, redirectUri, state }: { origin: string; redirectUri: string; state: string }
+): string {
+  const provider = PROVIDERS[id];
+  const { clientId } = credentialsFor(provider);
+  const url = new URL(endpointsFor(provider, origin).authorizeUrl);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    scope: provider.scope,
+    state,
+  }).toString();
+  return url.toString();
+}
+
+/** 인가 코드 → 액세스 토큰 → 사용자 정보 */
+export async function fetchOAuthProfile(
+  id: AuthProviderId,
+  { origin, redirectUri, code }: { origin: string; redirectUri: string; code: string }
+): Promise<OAuthProfile> {
+  const provider = PROVIDERS[id];
+  const { clientId, clientSecret } = credentialsFor(provider);
+  const endpoints = endpointsFor(provider, origin);
+
+  const tokenRes = await fetch(endpoints.tokenUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: redirectUri,
+      client_id: clientId,
+      client_secret: clientSecret,
+    }),
+  }).catch(() => null);
+  const token = tokenRes?.ok ? ((await tokenRes.json()) as { access_token?: string }) : null;
+  if (!token?.access_token) {
+    throw new AuthError("로그인 토큰 발급에 실패했습니다.", "OAUTH_FAILED");
+  }
+
+  const userRes = await fetch(endpoints.userInfoUrl, {
+    headers: { Authorization: `Bearer ${token.access_token}` },
+  }).catch(() => null);
+  if (!userRes?.ok) {
+    throw new AuthError("사용자 정보를 가져오지 못했습니다.", "OAUTH_FAILED");
+  }
+  return provider.toProfile((await userRes.json()) as Record<string, unknown>);
+}
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { safeNextPath, safeRedirectUrl, signToken, verifyToken } from "./session";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+});
+
+describe("signToken / verifyToken", () => {
+  it("서명한 payload를 그대로 복원", () => {
+    const token = signToken({ uid: "google:1", exp: Date.now() + 1_000 });
+    expect(verifyToken<{ uid: string; exp: number }>(token)?.uid).toBe("google:1");
+  });
+
+  it("payload 변조·다른 비밀값·만료 시 null", () => {
+    vi.stubEnv("AUTH_SECRET", "secret-a");
+    const token = signToken({ uid: "google:1", exp: Date.now() + 1_000 });
+
+    const [, sig] = token.split(".");
+    const forged = `${Buffer.from(JSON.stringify({ uid: "kakao:9", exp: Date.now() + 1_000 })).toString("base64url")}.${sig}`;
+    expect(verifyToken(forged)).toBeNull();
+
+    vi.stubEnv("AUTH_SECRET", "secret-b");
+    expect(verifyToken(token)).toBeNull();
+
+    vi.stubEnv("AUTH_SECRET", "secret-a");
+    vi.useFakeTimers({ now: Date.now() + 2_000 });
+    expect(verifyToken(token)).toBeNull();
+  });
+
+  it("운영 환경에서 AUTH_SECRET이 없으면 서명 거부", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("AUTH_SECRET", "");
+    expect(() => signToken({ exp: Date.now() + 1_000 })).toThrow("AUTH_SECRET");
+  });
+});
+
+describe("safeNextPath", () => {
+  it.each([
+    ["/analyzer/channel/UC1", "/analyzer/channel/UC1"],
+    [null, "/analyzer"],
+    ["https://evil.example", "/analyzer"],
+    ["//evil.example", "/analyzer"],
+    ["/\\evil.example", "/analyzer"],
+    ["/\t/evil.example", "/analyzer"],
+    ["/\n/evil.example", "/analyzer"],
+    ["/\r\n/evil.example", "/analyzer"],
+    ["/analyzer\\..\\evil", "/analyzer"],
+    ["/ /evil.example", "/analyzer"],
+  ])("%j → %s", (input, expected) => {
+    expect(safeNextPath(input)).toBe(expected);
+  });
+
+  it("리다이렉트 URL은 항상 같은 출처", () => {
+    const origin = "https://app.example";
+    expect(safeRedirectUrl("/analyzer/watchlist?tab=1", origin).href).toBe(
+      "https://app.example/analyzer/watchlist?tab=1"
+    );
+    expect(safeRedirectUrl("/\t/evil.example", origin).href).toBe("https://app.example/analyzer");
+    expect(safeRedirectUrl(null, origin).origin).toBe(origin);
+  });
+});
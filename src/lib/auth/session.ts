@@ -0,0 +1,106 @@
+/**
+ * session.ts
+ * 세션 쿠키 서명 / 검증
+ * - 쿠키 값: base64url(JSON payload) + "." + HMAC-SHA256 서명
+ * - 비밀값: AUTH_SECRET (미설정 시 개발 환경에서만 고정 개발용 값 사용)
+ * - 서버 저장소 조회 없이 proxy.ts에서 바로 검증할 수 있도록 사용자 ID만 담음
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { NextRequest, NextResponse } from "next/server";
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+export const SESSION_COOKIE = "jd_session";
+/** 세션 유지 기간: 14일 */
+export const SESSION_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+const DEV_SECRET = "jjidong-tube-dev-only-auth-secret";
+
+export interface Session {
+  /** 사용자 ID (users.ts) */
+  uid: string;
+  /** 만료 시각 (ms) */
+  exp: number;
+}
+
+// ─── 서명 ─────────────────────────────────────────────────────────────────────
+
+function authSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("AUTH_SECRET이 설정되지 않았습니다.");
+  }
+  return DEV_SECRET;
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", authSecret()).update(data).digest("base64url");
+}
+
+/** 만료 시각(exp)을 포함한 payload를 서명된 토큰으로 변환 */
+export function signToken<T extends { exp: number }>(payload: T): string {
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${data}.${sign(data)}`;
+}
+
+/** 서명·만료 검증 후 payload 반환 (위조·만료·손상 시 null) */
+export function verifyToken<T extends { exp: number }>(token: string | undefined): T | null {
+  if (!token) return null;
+  const [data, signature] = token.split(".");
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, "base64url").toString("utf8")) as T;
+    return typeof payload.exp === "number" && payload.exp > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+// ─── 세션 쿠키 ────────────────────────────────────────────────────────────────
+
+export function readSession(req: NextRequest): Session | null {
+  const session = verifyToken<Session>(req.cookies.get(SESSION_COOKIE)?.value);
+  return session && typeof session.uid === "string" ? session : null;
+}
+
+export function setSessionCookie(res: NextResponse, uid: string): void {
+  const token = signToken({ uid, exp: Date.now() + SESSION_TTL_MS } satisfies Session);
+  res.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_TTL_MS / 1000,
+  });
+}
+
+export function clearSessionCookie(res: NextResponse): void {
+  res.cookies.set(SESSION_COOKIE, "", { path: "/", maxAge: 0 });
+}
+
+const DEFAULT_NEXT_PATH = "/analyzer";
+
+/**
+ * 로그인 후 돌아갈 경로 정리 — 외부 URL(오픈 리다이렉트) 차단
+ * URL 파서가 무시하거나 /로 바꾸는 공백·제어 문자·백슬래시가 있으면 거부 (예: "/\t/evil.com" → //evil.com)
+ */
+export function safeNextPath(next: string | null | undefined): string {
+  if (!next || !next.startsWith("/") || next.startsWith("//") || /[\s\\\u0000-\u001f\u007f]/.test(next)) {
+    return DEFAULT_NEXT_PATH;
+  }
+  return next;
+}
+
+/** 리다이렉트 대상 URL — 정리한 경로가 그래도 다른 출처로 해석되면 기본 경로 */
+export function safeRedirectUrl(next: string | null | undefined, origin: string): URL {
+  const base = new URL(origin);
+  const target = new URL(safeNextPath(next), base);
+  return target.origin === base.origin ? target : new URL(DEFAULT_NEXT_PATH, base);
+}
@@ -0,0 +1,92 @@
+/**
+ * users.ts
+ * 로그인 사용자 모델 및 저장소
+ * - 사용자 ID는 "제공자:제공자 내부 ID" (같은 계정으로 다시 로그인하면 같은 사용자)
+ * - 검색 기록, 요금제 등 사용자별 데이터는 이 ID를 기준으로 저장
+ */
+
+import type { NextRequest } from "next/server";
+import { JsonStore } from "@/lib/store/jsonStore";
+import { readSession } from "./session";
+import type { PlanId } from "@/lib/billing/plans";
+
+export type AuthProviderId = "google" | "kakao";
+
+export interface User {
+  id: string;
+  provider: AuthProviderId;
+  /** 제공자 측 사용자 ID (Google sub, Kakao id) */
+  providerUserId: string;
+  name: string;
+  email: string | null;
+  avatarUrl: string | null;
+  /** 요금제 (미설정 시 무료) */
+  plan?: PlanId;
+  createdAt: string;
+  lastLoginAt: string;
+}
+
+/** 제공자 사용자 정보를 공통 형태로 변환한 값 */
+export interface OAuthProfile {
+  provider: AuthProviderId;
+  providerUserId: string;
+  name: string;
+  email: string | null;
+  avatarUrl: string | null;
+}
+
+/** 클라이언트에 노출하는 사용자 정보 */
+export type PublicUser = Pick<User, "id" | "provider" | "name" | "email" | "avatarUrl" | "plan">;
+
+const store = new JsonStore<Record<string, User>>("users.json", () => ({}));
+
+export function userIdFor(provider: AuthProviderId, providerUserId: string): string {
+  return `${provider}:${providerUserId}`;
+}
+
+/** 로그인 시 사용자 생성 또는 프로필·최근 로그인 시각 갱신 */
+export async function upsertUser(profile: OAuthProfile): Promise<User> {
+  const id = userIdFor(profile.provider, profile.providerUserId);
+  const now = new Date().toISOString();
+  return store.update((users) => {
+    const user: User = {
+      ...profile,
+      id,
+      plan: users[id]?.plan,
+      createdAt: users[id]?.createdAt ?? now,
+      lastLoginAt: now,
+    };
+    users[id] = user;
+    return user;
+  });
+}
+
+/** 요금제 변경 (결제 연동·관리자 작업에서 호출) */
+export async function setUserPlan(id: string, plan: PlanId): Promise<User | null> {
+  return store.update((users) => {
+    if (!users[id]) return null;
+    users[id] = { ...users[id], plan };
+    return users[id];
+  });
+}
+
+export async function getUser(id: string): Promise<User | null> {
+  return (await store.read())[id] ?? null;
+}
+
+/** 요청 쿠키의 세션으로 사용자 조회 (미로그인·삭제된 사용자면 null) */
+export async function getSessionUser(req: NextRequest): Promise<User | null> {
+  const session = readSession(req);
+  return session ? getUser(session.uid) : null;
+}
+
+export function toPublicUser(user: User): PublicUser {
+  return {
+    id: user.id,
+    provider: user.provider,
+    name: user.name,
+    email: user.email,
+    avatarUrl: user.avatarUrl,
+    plan: user.plan ?? "free",
+  };
+}
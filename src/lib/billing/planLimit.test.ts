@@ -0,0 +1,91 @@
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { chargeDailySearch, resolveRequestPlan } from "./planLimit";
+import { PLANS } from "./plans";
+import { getDailyUsage } from "./usage";
+import { getSessionUser, setUserPlan, upsertUser, type User } from "@/lib/auth/users";
+import { SESSION_COOKIE, signToken } from "@/lib/auth/session";
+
+let dataDir: string;
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "yt-plan-limit-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+const profile = { providerUserId: "1", name: "테스터", email: null, avatarUrl: null };
+
+/** uid 세션 쿠키가 있는 요청 (uid가 없으면 세션 없음) */
+function request(uid?: string) {
+  const headers: Record<string, string> = uid
+    ? { cookie: `${SESSION_COOKIE}=${signToken({ uid, exp: Date.now() + 60_000 })}` }
+    : {};
+  return new NextRequest("http://localhost/api/youtube/search", { headers });
+}
+
+describe("chargeDailySearch", () => {
+  it("무료 요금제는 하루 한도를 넘으면 429 PLAN_LIMIT", async () => {
+    const user = await upsertUser({ provider: "google", ...profile });
+
+    for (let i = 0; i < PLANS.free.dailySearches; i++) {
+      expect(await chargeDailySearch(request(user.id), user)).toBeNull();
+    }
+
+    const res = (await chargeDailySearch(request(user.id), user))!;
+    const data = await res.json();
+    expect(res.status).toBe(429);
+    expect(data).toMatchObject({
+      code: "PLAN_LIMIT",
+      plan: "free",
+      limit: PLANS.free.dailySearches,
+      used: PLANS.free.dailySearches,
+      upgradeUrl: "/pricing",
+    });
+    expect(new Date(data.resetAt).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("유료 요금제는 더 높은 한도 적용", async () => {
+    const user = (await setUserPlan((await upsertUser({ provider: "kakao", ...profile })).id, "pro")) as User;
+
+    for (let i = 0; i <= PLANS.free.dailySearches; i++) {
+      expect(await chargeDailySearch(request(user.id), user)).toBeNull();
+    }
+    expect((await getDailyUsage(user.id, PLANS.pro.dailySearches)).used).toBe(PLANS.free.dailySearches + 1);
+  });
+
+  it("알 수 없는 요금제 ID(프로토타입 키 포함)는 무료 한도 적용", async () => {
+    const user = await upsertUser({ provider: "google", ...profile });
+    const forged = { ...user, plan: "constructor" } as unknown as User;
+
+    for (let i = 0; i < PLANS.free.dailySearches; i++) {
+      expect(await chargeDailySearch(request(user.id), forged)).toBeNull();
+    }
+    expect((await chargeDailySearch(request(user.id), forged))?.status).toBe(429);
+  });
+
+  it("세션은 있지만 사용자 기록이 없으면(삭제된 사용자) 세션 ID 기준 무료 한도 적용", async () => {
+    const req = request("google:deleted");
+    const user = await getSessionUser(req);
+    expect(user).toBeNull();
+    expect(resolveRequestPlan(req, user)?.id).toBe("free");
+
+    for (let i = 0; i < PLANS.free.dailySearches; i++) {
+      expect(await chargeDailySearch(req, user)).toBeNull();
+    }
+    expect((await chargeDailySearch(req, user))?.status).toBe(429);
+    expect((await getDailyUsage("google:deleted", PLANS.free.dailySearches)).used).toBe(PLANS.free.dailySearches);
+  });
+
+  it("세션 없는 직접 호출은 차감하지 않음", async () => {
+    expect(resolveRequestPlan(request(), null)).toBeNull();
+    expect(await chargeDailySearch(request(), null)).toBeNull();
+  });
+});
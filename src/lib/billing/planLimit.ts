@@ -0,0 +1,46 @@
+/**
+ * planLimit.ts
+ * 요금제 일일 한도 차감 (Route Handler에서 새 유료 분석을 시작하기 직전에 호출)
+ * - 검색(키워드·시장 비교·키워드 확장) + 채널 분석만 차감
+ * - 스냅샷 재사용, 이어가기(더 보기), 댓글 분석처럼 새 분석을 시작하지 않는 요청은 호출하지 않음
+ * - 세션 쿠키가 있으면 사용자 기록이 없어도(삭제된 사용자) 세션 ID 기준 무료 요금제로 차감
+ * - 세션 없는 직접 호출(내부 작업·테스트)만 차감하지 않음
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { readSession } from "@/lib/auth/session";
+import type { User } from "@/lib/auth/users";
+import { getPlan, PLAN_LIMIT_CODE, type Plan } from "./plans";
+import { consumeDailySearch } from "./usage";
+
+/**
+ * 요청에 적용할 요금제
+ * @returns 세션이 있으면 사용자 요금제(사용자 기록이 없거나 알 수 없는 값이면 무료), 세션이 없으면 null
+ */
+export function resolveRequestPlan(req: NextRequest, user: User | null): Plan | null {
+  return user || readSession(req) ? getPlan(user?.plan) : null;
+}
+
+/**
+ * 세션 사용자의 일일 분석 1회 차감
+ * @returns 한도 초과면 429 PLAN_LIMIT 응답, 차감했거나 세션이 없으면 null
+ */
+export async function chargeDailySearch(req: NextRequest, user: User | null): Promise<NextResponse | null> {
+  const uid = user?.id ?? readSession(req)?.uid;
+  if (!uid) return null;
+  const plan = getPlan(user?.plan);
+  const usage = await consumeDailySearch(uid, plan.dailySearches);
+  if (usage.allowed) return null;
+  return NextResponse.json(
+    {
+      error: `${plan.name} 요금제의 하루 분석 한도(${plan.dailySearches}회)를 모두 사용했습니다.`,
+      code: PLAN_LIMIT_CODE,
+      plan: plan.id,
+      limit: usage.limit,
+      used: usage.used,
+      resetAt: usage.resetAt,
+      upgradeUrl: "/pricing",
+    },
+    { status: 429 }
+  );
+}
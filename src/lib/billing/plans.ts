@@ -0,0 +1,72 @@
+/**
+ * plans.ts
+ * 요금제 정의 (무료 / 프로 / 비즈니스)
+ * - 일일 분석 횟수, 검색 결과 최대 개수, 이어가기 페이지 수, 채널 평균(기여도) 제공 여부, 채널 상세 분석 영상 수
+ * - 브라우저에서도 import 가능 (/pricing 페이지)
+ */
+
+export type PlanId = "free" | "pro" | "business";
+
+export interface Plan {
+  id: PlanId;
+  name: string;
+  /** 월 요금 (원) */
+  monthlyPriceKrw: number;
+  /** 하루(KST) 검색 + 채널 분석 요청 수 */
+  dailySearches: number;
+  /** buildAndFilterResults에 전달하는 결과 최대 개수 */
+  maxResults: number;
+  /** 이어가기(더 보기) 1회에 조회하는 최대 검색 페이지 수 (이어가기는 일일 한도를 차감하지 않음) */
+  continuationPageDepth: number;
+  /** 채널 평균 조회수 기반 기여도 점수 (채널당 2 units 추가 소모) */
+  channelAverages: boolean;
+  /** 채널 상세 분석 시 최대 업로드 수 */
+  channelMaxVideos: number;
+}
+
+export const PLANS: Record<PlanId, Plan> = {
+  free: {
+    id: "free",
+    name: "무료",
+    monthlyPriceKrw: 0,
+    dailySearches: 10,
+    maxResults: 30,
+    continuationPageDepth: 1,
+    channelAverages: false,
+    channelMaxVideos: 50,
+  },
+  pro: {
+    id: "pro",
+    name: "프로",
+    monthlyPriceKrw: 9_900,
+    dailySearches: 200,
+    maxResults: 100,
+    continuationPageDepth: 3,
+    channelAverages: true,
+    channelMaxVideos: 200,
+  },
+  business: {
+    id: "business",
+    name: "비즈니스",
+    monthlyPriceKrw: 29_000,
+    dailySearches: 1_000,
+    maxResults: 100,
+    continuationPageDepth: 5,
+    channelAverages: true,
+    channelMaxVideos: 500,
+  },
+};
+
+export const DEFAULT_PLAN_ID: PlanId = "free";
+
+export function isPlanId(value: unknown): value is PlanId {
+  return typeof value === "string" && Object.hasOwn(PLANS, value);
+}
+
+/** 저장된 요금제 ID → 요금제 (없거나 알 수 없는 값이면 무료) */
+export function getPlan(id: string | null | undefined): Plan {
+  return isPlanId(id) ? PLANS[id] : PLANS[DEFAULT_PLAN_ID];
+}
+
+/** 요금제 제한 초과 시 analyzer 페이지가 업그레이드 안내를 띄우는 에러 코드 */
+export const PLAN_LIMIT_CODE = "PLAN_LIMIT";
@@ -0,0 +1,53 @@
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { consumeDailySearch, getDailyUsage, nextUsageReset } from "./usage";
+
+let dataDir: string;
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "yt-usage-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("nextUsageReset", () => {
+  it("다음 KST 자정 (UTC 15:00)", () => {
+    expect(nextUsageReset(new Date("2025-03-10T10:00:00Z")).toISOString()).toBe("2025-03-10T15:00:00.000Z");
+    // UTC로는 같은 날이지만 KST로는 이미 다음 날
+    expect(nextUsageReset(new Date("2025-03-10T16:00:00Z")).toISOString()).toBe("2025-03-11T15:00:00.000Z");
+    expect(nextUsageReset(new Date("2025-12-31T15:00:00Z")).toISOString()).toBe("2026-01-01T15:00:00.000Z");
+  });
+});
+
+describe("consumeDailySearch", () => {
+  it("한도까지 차감 후 거부, 거부 시 사용량은 그대로", async () => {
+    const now = new Date("2025-03-10T01:00:00Z");
+    expect(await consumeDailySearch("u1", 2, now)).toMatchObject({ allowed: true, used: 1, limit: 2 });
+    expect(await consumeDailySearch("u1", 2, now)).toMatchObject({ allowed: true, used: 2 });
+    expect(await consumeDailySearch("u1", 2, now)).toMatchObject({ allowed: false, used: 2 });
+    expect((await getDailyUsage("u1", 2, now)).used).toBe(2);
+
+    // 다른 사용자는 별도 집계
+    expect((await getDailyUsage("u2", 2, now)).used).toBe(0);
+  });
+
+  it("KST 날짜가 바뀌면 초기화", async () => {
+    await consumeDailySearch("u1", 1, new Date("2025-03-10T14:59:00Z"));
+    expect((await consumeDailySearch("u1", 1, new Date("2025-03-10T14:59:30Z"))).allowed).toBe(false);
+
+    const nextDay = new Date("2025-03-10T15:00:00Z");
+    expect(await getDailyUsage("u1", 1, nextDay)).toMatchObject({ used: 0, resetAt: "2025-03-11T15:00:00.000Z" });
+    expect((await consumeDailySearch("u1", 1, nextDay)).allowed).toBe(true);
+  });
+
+  it("동시 요청도 한도를 넘지 않음", async () => {
+    const results = await Promise.all(Array.from({ length: 5 }, () => consumeDailySearch("u1", 3)));
+    expect(results.filter((r) => r.allowed)).toHaveLength(3);
+  });
+});
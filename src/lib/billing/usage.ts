@@ -0,0 +1,67 @@
+/**
+ * usage.ts
+ * 사용자별 일일 분석 횟수 카운터 (planLimit.ts에서 새 분석 시작 전에 차감)
+ * - 날짜 기준: 한국 시간(KST) 자정 초기화
+ */
+
+import { JsonStore } from "@/lib/store/jsonStore";
+
+const USAGE_TIMEZONE = "Asia/Seoul";
+
+interface DailyCount {
+  /** YYYY-MM-DD (KST) */
+  date: string;
+  count: number;
+}
+
+export interface DailyUsage {
+  used: number;
+  limit: number;
+  /** 다음 초기화 시각 (ISO 8601) */
+  resetAt: string;
+}
+
+const store = new JsonStore<Record<string, DailyCount>>("dailyUsage.json", () => ({}));
+
+function kstDateKey(now: Date): string {
+  return now.toLocaleDateString("en-CA", { timeZone: USAGE_TIMEZONE });
+}
+
+/** 다음 KST 자정 (KST는 서머타임이 없으므로 UTC+9 고정) */
+export function nextUsageReset(now = new Date()): Date {
+  const [y, m, d] = kstDateKey(now).split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + 1) - 9 * 60 * 60 * 1000);
+}
+
+function countFor(entry: DailyCount | undefined, today: string): number {
+  return entry?.date === today ? entry.count : 0;
+}
+
+/** 현재 사용량 조회 (차감 없음) */
+export async function getDailyUsage(userId: string, limit: number, now = new Date()): Promise<DailyUsage> {
+  const used = countFor((await store.read())[userId], kstDateKey(now));
+  return { used, limit, resetAt: nextUsageReset(now).toISOString() };
+}
+
+/**
+ * 한도 안이면 1회 차감
+ * @returns allowed=false면 차감하지 않음
+ */
+export async function consumeDailySearch(
+  userId: string,
+  limit: number,
+  now = new Date()
+): Promise<DailyUsage & { allowed: boolean }> {
+  const today = kstDateKey(now);
+  return store.update((counts) => {
+    const used = countFor(counts[userId], today);
+    const allowed = used < limit;
+    if (allowed) counts[userId] = { date: today, count: used + 1 };
+    return {
+      allowed,
+      used: allowed ? used + 1 : used,
+      limit,
+      resetAt: nextUsageReset(now).toISOString(),
+    };
+  });
+}
@@ -0,0 +1,17 @@
+/**
+ * apiKeyStorage.ts
+ * 브라우저 localStorage에 저장된 YouTube API Key 입력값 공유 (검색 페이지 ↔ 채널 상세 페이지)
+ */
+
+export const API_KEY_STORAGE_KEY = "yt_analyzer_api_key";
+
+/** 입력란의 키 목록 파싱 (쉼표·공백·줄바꿈 구분, 입력 순서가 우선순위) */
+export function parseApiKeys(input: string): string[] {
+  return input.split(/[\s,]+/).filter(Boolean);
+}
+
+/** 저장된 키 목록 (SSR 환경이나 미저장 시 빈 배열) */
+export function loadStoredApiKeys(): string[] {
+  if (typeof window === "undefined") return [];
+  return parseApiKeys(localStorage.getItem(API_KEY_STORAGE_KEY) ?? "");
+}
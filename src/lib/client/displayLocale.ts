@@ -0,0 +1,23 @@
+/**
+ * displayLocale.ts
+ * 화면 숫자 표기에 쓸 브라우저 언어 (한국어가 아니면 Intl 축약 표기 — analysis.ts formatCount)
+ */
+
+import { useSyncExternalStore } from "react";
+
+/** 서버 렌더링·언어 정보가 없을 때의 기본값 */
+export const DEFAULT_DISPLAY_LOCALE = "ko-KR";
+
+function subscribe(onChange: () => void): () => void {
+  window.addEventListener("languagechange", onChange);
+  return () => window.removeEventListener("languagechange", onChange);
+}
+
+/** navigator.language (하이드레이션 전에는 기본값) */
+export function useDisplayLocale(): string {
+  return useSyncExternalStore(
+    subscribe,
+    () => navigator.language || DEFAULT_DISPLAY_LOCALE,
+    () => DEFAULT_DISPLAY_LOCALE
+  );
+}
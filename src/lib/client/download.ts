@@ -0,0 +1,17 @@
+/**
+ * download.ts
+ * 브라우저에서 생성한 파일 저장 (내보내기)
+ */
+
+/** Blob을 임시 링크로 내려받고 URL 해제 */
+export function downloadBlob(data: BlobPart, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // 일부 브라우저는 click 직후 해제하면 저장이 취소됨
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { readNdjson } from "./ndjson";
+
+/** 줄 경계와 무관하게 잘린 청크로 응답 생성 */
+function chunkedResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  return new Response(stream);
+}
+
+describe("readNdjson", () => {
+  it("청크가 줄 중간에서 잘려도 줄 단위로 전달하고 마지막 이벤트 반환", async () => {
+    const events: unknown[] = [];
+    const last = await readNdjson(
+      chunkedResponse(['{"n":1}\n{"n"', ':2}\n\n{"n":3', "}"]),
+      (e) => events.push(e)
+    );
+    expect(events).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+    expect(last).toEqual({ n: 3 });
+  });
+
+  it("빈 스트림이면 null", async () => {
+    expect(await readNdjson(chunkedResponse([]), () => {})).toBeNull();
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * ndjson.ts
+ * fetch 응답의 NDJSON 스트림(한 줄 = JSON 1개)을 줄 단위로 읽기
+ */
+
+/**
+ * 줄이 도착할 때마다 onEvent 호출
+ * @returns 마지막 이벤트 (빈 스트림이면 null)
+ */
+export async function readNdjson<T>(res: Response, onEvent: (event: T) => void): Promise<T | null> {
+  if (!res.body) return null;
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let last: T | null = null;
+
+  const flush = (line: string) => {
+    if (!line.trim()) return;
+    last = JSON.parse(line) as T;
+    onEvent(last);
+  };
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines.forEach(flush);
+  }
+  flush(buffer);
+  return last;
+}
@@ -0,0 +1,207 @@
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  followChannel,
+  getCompetitor,
+  listCompetitors,
+  MAX_FOLLOWED_CHANNELS,
+  refreshCompetitors,
+  summarizeCompetitor,
+  unfollowChannel,
+  type ChannelTrackSeed,
+  type FollowedChannel,
+} from "./competitors";
+import { ApiKeyPool } from "@/lib/youtube/keyPool";
+import { QuotaTracker } from "@/lib/youtube/quota";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 팔로우 시 서버가 조회한 채널 정보 + 최근 업로드 */
+function report(id: string, videoIds: string[] = [], subscriberCount = 1_000): ChannelTrackSeed {
+  return {
+    channel: {
+      id,
+      snippet: { title: `채널 ${id}`, thumbnails: { medium: { url: `https://yt3.ggpht.com/${id}` } } },
+      statistics: {
+        subscriberCount: String(subscriberCount),
+        videoCount: String(videoIds.length),
+        viewCount: "50000",
+      },
+    },
+    uploads: videoIds.map((videoId) => ({
+      videoId,
+      title: `영상 ${videoId}`,
+      publishedAt: "2026-03-01T00:00:00Z",
+      viewCount: 100,
+    })),
+  };
+}
+
+/** 업로드 플레이리스트 ID → 최신순 영상 ID */
+let uploads: Record<string, string[]>;
+
+/** channels / playlistItems / videos 가짜 응답 */
+const fetchMock = vi.fn(async (input: string | URL) => {
+  const url = new URL(input.toString());
+  const endpoint = url.pathname.split("/").at(-1);
+  const ids = url.searchParams.get("id")?.split(",") ?? [];
+  if (endpoint === "channels") {
+    return Response.json({
+      items: ids.map((id) => ({
+        id,
+        contentDetails: { relatedPlaylists: { uploads: `UU${id.slice(2)}` } },
+        statistics: { subscriberCount: "1500", videoCount: "12", viewCount: "90000" },
+      })),
+    });
+  }
+  if (endpoint === "playlistItems") {
+    const videoIds = uploads[url.searchParams.get("playlistId")!] ?? [];
+    return Response.json({
+      items: videoIds.map((videoId) => ({
+        snippet: { resourceId: { videoId }, title: `영상 ${videoId}`, publishedAt: "2026-03-10T00:00:00Z" },
+      })),
+    });
+  }
+  return Response.json({
+    items: ids.map((id) => ({ id, contentDetails: { duration: "PT10M" }, statistics: { viewCount: "3000" } })),
+  });
+});
+
+function refresh(now = new Date(Date.now() + DAY_MS)) {
+  return refreshCompetitors({ keyPool: new ApiKeyPool(["K"]), quota: new QuotaTracker(null), now });
+}
+
+let dataDir: string;
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "yt-competitors-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+  uploads = {};
+  fetchMock.mockClear();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(async () => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("summarizeCompetitor", () => {
+  const channel: FollowedChannel = { channelId: "UCa", title: "A", thumbnail: "", addedAt: "2026-03-01T00:00:00Z" };
+  const snap = (at: string, subscriberCount: number) => ({ at, subscriberCount, videoCount: 0, viewCount: 0 });
+  const upload = (publishedAt: string, viewCount: number, detectedAt: string | null = null) => ({
+    videoId: publishedAt,
+    title: "",
+    publishedAt,
+    viewCount,
+    detectedAt,
+  });
+
+  it("구독자 증가량, 30일 업로드 수, 평균 업로드 간격, 평균 조회수, 최근 감지 업로드", () => {
+    const summary = summarizeCompetitor(
+      channel,
+      {
+        snapshots: [
+          snap("2026-02-01T00:00:00Z", 800),
+          snap("2026-03-01T00:00:00Z", 1_000),
+          snap("2026-03-08T00:00:00Z", 1_300),
+          snap("2026-03-10T00:00:00Z", 1_500),
+        ],
+        uploads: [
+          upload("2026-03-09T00:00:00Z", 3_000, "2026-03-09T06:00:00Z"),
+          upload("2026-03-06T00:00:00Z", 2_000),
+          upload("2026-01-01T00:00:00Z", 1_000),
+        ],
+      },
+      new Date("2026-03-10T00:00:00Z").getTime()
+    );
+
+    expect(summary.latest?.subscriberCount).toBe(1_500);
+    expect(summary.subscriberGrowth).toEqual({ "7d": 500, "30d": 700 });
+    expect(summary.uploadsLast30d).toBe(2);
+    expect(summary.avgUploadGapDays).toBe(33.5);
+    expect(summary.avgRecentViews).toBe(2_000);
+    expect(summary.newUploads7d).toBe(1);
+  });
+
+  it("기록이 없으면 지표 null", () => {
+    expect(summarizeCompetitor(channel, undefined)).toMatchObject({
+      latest: null,
+      subscriberGrowth: { "7d": null, "30d": null },
+      uploadsLast30d: 0,
+      avgUploadGapDays: null,
+      avgRecentViews: null,
+      newUploads7d: 0,
+    });
+  });
+});
+
+describe("경쟁 채널", () => {
+  it("팔로우 시 조회한 값으로 첫 스냅샷·업로드 기록, 중복 팔로우는 기존 항목 반환", async () => {
+    await followChannel("u1", report("UCaaa", ["v1", "v2"], 1_234));
+    await followChannel("u1", report("UCaaa", ["v1"], 9_999));
+
+    const channels = await listCompetitors("u1");
+    expect(channels).toHaveLength(1);
+    expect(channels[0]).toMatchObject({ title: "채널 UCaaa", thumbnail: "https://yt3.ggpht.com/UCaaa" });
+    expect(channels[0].latest?.subscriberCount).toBe(1_234);
+    const detail = await getCompetitor("u1", "UCaaa");
+    expect(detail?.uploads.map((u) => u.videoId)).toEqual(["v1", "v2"]);
+    expect(detail?.uploads.every((u) => u.detectedAt === null)).toBe(true);
+    expect(await getCompetitor("u2", "UCaaa")).toBeNull();
+  });
+
+  it("사용자당 개수 제한", async () => {
+    for (let i = 0; i < MAX_FOLLOWED_CHANNELS; i++) {
+      expect(await followChannel("u1", report(`UC${i}`))).not.toBeNull();
+    }
+    expect(await followChannel("u1", report("UCoverflow"))).toBeNull();
+  });
+
+  it("주기 작업은 채널 스냅샷을 기록하고 업로드 플레이리스트에서 새 업로드를 감지", async () => {
+    await followChannel("u1", report("UCaaa", ["v2", "v1"]));
+    await followChannel("u2", report("UCaaa", ["v2", "v1"]));
+    uploads = { UUaaa: ["v3", "v2", "v1"] };
+
+    const now = new Date(Date.now() + DAY_MS);
+    const quota = new QuotaTracker(null);
+    const result = await refreshCompetitors({ keyPool: new ApiKeyPool(["K"]), quota, now });
+
+    expect(result).toEqual({ followed: 1, refreshed: 1, newUploads: 1 });
+    // channels 1 + playlistItems 1 + videos 1
+    expect(quota.used).toBe(3);
+
+    const detail = await getCompetitor("u2", "UCaaa");
+    expect(detail?.snapshots.at(-1)).toEqual({
+      at: now.toISOString(),
+      subscriberCount: 1_500,
+      videoCount: 12,
+      viewCount: 90_000,
+    });
+    expect(detail?.uploads.map((u) => [u.videoId, u.detectedAt, u.viewCount])).toEqual([
+      ["v3", now.toISOString(), 3_000],
+      ["v2", null, 3_000],
+      ["v1", null, 3_000],
+    ]);
+  });
+
+  it("최근 스냅샷이 있는 채널은 조회하지 않고, 팔로우 해제된 채널의 기록은 삭제", async () => {
+    await followChannel("u1", report("UCrecent"));
+    await followChannel("u1", report("UCremoved", ["old"]));
+    await unfollowChannel("u1", "UCremoved");
+
+    const result = await refresh(new Date());
+    expect(result).toEqual({ followed: 1, refreshed: 0, newUploads: 0 });
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await followChannel("u1", report("UCremoved", ["new"], 777));
+    // 이전 기록이 삭제됐으므로 다시 팔로우하면 새 첫 스냅샷
+    const readded = await getCompetitor("u1", "UCremoved");
+    expect(readded?.snapshots).toHaveLength(1);
+    expect(readded?.summary.latest?.subscriberCount).toBe(777);
+    expect(readded?.uploads.map((u) => u.videoId)).toEqual(["new"]);
+  });
+});
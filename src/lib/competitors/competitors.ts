@@ -0,0 +1,335 @@
+/**
+ * competitors.ts
+ * 경쟁 채널 추적 — 팔로우한 채널의 구독자·영상 수·총 조회수와 최근 업로드를 주기적으로 기록
+ * - 주기 작업(/api/cron/competitors)이 channels.list 스냅샷 + 업로드 플레이리스트로 새 업로드 감지
+ * - 팔로우 목록은 사용자별, 추적 데이터는 채널별로 공유 (여러 명이 팔로우해도 1회 조회)
+ *   공유 데이터이므로 첫 기록도 서버가 조회한 값으로만 시작 (클라이언트가 보낸 리포트는 받지 않음)
+ * - 대시보드 지표: 구독자 증가량, 업로드 주기, 최근 업로드 평균 조회수
+ */
+
+import { JsonStore } from "@/lib/store/jsonStore";
+import {
+  fetchInChunks,
+  getChannelDetails,
+  getPlaylistItems,
+  getVideoDetails,
+  type YouTubeChannelItem,
+} from "@/lib/youtube/client";
+import { CACHE_TTL_MS } from "@/lib/youtube/cache";
+import type { ApiKeyPool } from "@/lib/youtube/keyPool";
+import type { QuotaTracker } from "@/lib/youtube/quota";
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+/** 사용자당 팔로우 가능한 채널 수 */
+export const MAX_FOLLOWED_CHANNELS = 30;
+/** 채널당 보관 스냅샷 수 (12시간 간격 기준 약 1년) */
+export const MAX_CHANNEL_SNAPSHOTS = 730;
+/** 채널당 보관·조회하는 최근 업로드 수 (평균 조회수·업로드 주기 계산 기준) */
+export const RECENT_UPLOADS = 20;
+/** 스냅샷 최소 간격 — channels.list 응답 캐시 TTL보다 짧으면 같은 값이 중복 기록됨 */
+export const MIN_CHANNEL_SNAPSHOT_INTERVAL_MS = CACHE_TTL_MS.channels;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const GROWTH_WINDOWS = { "7d": 7 * DAY_MS, "30d": 30 * DAY_MS } as const;
+/** 업로드 주기 계산 기간 */
+const CADENCE_DAYS = 30;
+
+// ─── 타입 ─────────────────────────────────────────────────────────────────────
+
+export interface FollowedChannel {
+  channelId: string;
+  title: string;
+  thumbnail: string;
+  addedAt: string;
+}
+
+export interface ChannelStatSnapshot {
+  at: string;
+  subscriberCount: number;
+  videoCount: number;
+  viewCount: number;
+}
+
+export interface TrackedUpload {
+  videoId: string;
+  title: string;
+  publishedAt: string;
+  /** 마지막 수집 시점 조회수 */
+  viewCount: number;
+  /** 주기 작업이 새 업로드로 감지한 시각 (팔로우 시점에 이미 있던 업로드는 null) */
+  detectedAt: string | null;
+}
+
+/** 팔로우 시 서버가 조회한 채널 정보 + 최근 업로드 (추적 데이터의 첫 기록) */
+export interface ChannelTrackSeed {
+  channel: YouTubeChannelItem;
+  uploads: Omit<TrackedUpload, "detectedAt">[];
+}
+
+interface ChannelTrack {
+  snapshots: ChannelStatSnapshot[];
+  /** 최신순 */
+  uploads: TrackedUpload[];
+}
+
+export type GrowthWindow = keyof typeof GROWTH_WINDOWS;
+
+export interface CompetitorSummary extends FollowedChannel {
+  latest: ChannelStatSnapshot | null;
+  /** 기간별 구독자 증가량 (해당 기간 이전 스냅샷이 없으면 null) */
+  subscriberGrowth: Record<GrowthWindow, number | null>;
+  /** 최근 30일 업로드 수 */
+  uploadsLast30d: number;
+  /** 최근 업로드 간 평균 간격 (일, 업로드 2개 미만이면 null) */
+  avgUploadGapDays: number | null;
+  /** 최근 업로드 평균 조회수 (업로드가 없으면 null) */
+  avgRecentViews: number | null;
+  /** 최근 7일 안에 감지한 새 업로드 수 */
+  newUploads7d: number;
+}
+
+// ─── 저장소 ───────────────────────────────────────────────────────────────────
+
+const followStore = new JsonStore<Record<string, FollowedChannel[]>>("competitors.json", () => ({}));
+const trackStore = new JsonStore<Record<string, ChannelTrack>>("channelTracks.json", () => ({}));
+
+function appendChannelSnapshot(track: ChannelTrack, snapshot: ChannelStatSnapshot): void {
+  track.snapshots.push(snapshot);
+  if (track.snapshots.length > MAX_CHANNEL_SNAPSHOTS) {
+    track.snapshots.splice(0, track.snapshots.length - MAX_CHANNEL_SNAPSHOTS);
+  }
+}
+
+// ─── 지표 계산 ────────────────────────────────────────────────────────────────
+
+/**
+ * 팔로우 채널 + 추적 데이터 → 대시보드 지표
+ * @param now 업로드 주기·새 업로드 기준 시각
+ */
+export function summarizeCompetitor(
+  channel: FollowedChannel,
+  track: ChannelTrack | undefined,
+  now = Date.now()
+): CompetitorSummary {
+  const snapshots = track?.snapshots ?? [];
+  const uploads = track?.uploads ?? [];
+  const latest = snapshots.at(-1) ?? null;
+
+  const subscriberGrowth: CompetitorSummary["subscriberGrowth"] = { "7d": null, "30d": null };
+  if (latest) {
+    const latestMs = new Date(latest.at).getTime();
+    for (const [window, ms] of Object.entries(GROWTH_WINDOWS) as [GrowthWindow, number][]) {
+      const base = snapshots.findLast((s) => new Date(s.at).getTime() <= latestMs - ms);
+      if (base) subscriberGrowth[window] = latest.subscriberCount - base.subscriberCount;
+    }
+  }
+
+  const publishedMs = uploads.map((u) => new Date(u.publishedAt).getTime()).sort((a, b) => b - a);
+  const gaps = publishedMs.slice(1).map((ms, i) => (publishedMs[i] - ms) / DAY_MS);
+
+  return {
+    ...channel,
+    latest,
+    subscriberGrowth,
+    uploadsLast30d: publishedMs.filter((ms) => now - ms <= CADENCE_DAYS * DAY_MS).length,
+    avgUploadGapDays:
+      gaps.length > 0 ? parseFloat((gaps.reduce((a, b) => a + b, 0) / gaps.length).toFixed(1)) : null,
+    avgRecentViews:
+      uploads.length > 0
+        ? Math.round(uploads.reduce((sum, u) => sum + u.viewCount, 0) / uploads.length)
+        : null,
+    newUploads7d: uploads.filter(
+      (u) => u.detectedAt !== null && now - new Date(u.detectedAt).getTime() <= GROWTH_WINDOWS["7d"]
+    ).length,
+  };
+}
+
+// ─── 공개 API ─────────────────────────────────────────────────────────────────
+
+export async function listCompetitors(userId: string): Promise<CompetitorSummary[]> {
+  const [follows, tracks] = await Promise.all([followStore.read(), trackStore.read()]);
+  return (follows[userId] ?? []).map((c) => summarizeCompetitor(c, tracks[c.channelId]));
+}
+
+export async function getCompetitor(
+  userId: string,
+  channelId: string
+): Promise<{ summary: CompetitorSummary; snapshots: ChannelStatSnapshot[]; uploads: TrackedUpload[] } | null> {
+  const channel = (await followStore.read())[userId]?.find((c) => c.channelId === channelId);
+  if (!channel) return null;
+  const track = (await trackStore.read())[channelId];
+  return {
+    summary: summarizeCompetitor(channel, track),
+    snapshots: track?.snapshots ?? [],
+    uploads: track?.uploads ?? [],
+  };
+}
+
+/** 이미 팔로우했는지와 팔로우 개수 (팔로우 전 조회 비용을 쓸지 판단) */
+export async function followStatus(
+  userId: string,
+  channelId: string
+): Promise<{ followed: FollowedChannel | null; count: number }> {
+  const list = (await followStore.read())[userId] ?? [];
+  return { followed: list.find((c) => c.channelId === channelId) ?? null, count: list.length };
+}
+
+/**
+ * 팔로우할 채널의 통계·최근 업로드 조회 (channels 1 + playlistItems 1 + videos 1 unit)
+ * @returns 없는 채널이면 null
+ */
+export async function fetchChannelTrackSeed(
+  channelId: string,
+  params: { keyPool: ApiKeyPool; quota: QuotaTracker }
+): Promise<ChannelTrackSeed | null> {
+  const [channel] = await getChannelDetails({
+    apiKey: params.keyPool,
+    quota: params.quota,
+    channelIds: [channelId],
+  });
+  return channel ? fetchRecentUploads(channel, params) : null;
+}
+
+/**
+ * 채널 팔로우 — 추적 데이터가 없으면 서버가 조회한 채널 통계와 최근 업로드로 시작
+ * @returns 팔로우한 채널, 이미 팔로우했으면 기존 항목, 개수 초과면 null
+ */
+export async function followChannel(userId: string, seed: ChannelTrackSeed): Promise<FollowedChannel | null> {
+  const { channel, uploads } = seed;
+  const thumbnails = channel.snippet?.thumbnails;
+  const followed = await followStore.update((data) => {
+    const list = (data[userId] ??= []);
+    const existing = list.find((c) => c.channelId === channel.id);
+    if (existing) return existing;
+    if (list.length >= MAX_FOLLOWED_CHANNELS) return null;
+    const entry: FollowedChannel = {
+      channelId: channel.id,
+      title: channel.snippet?.title ?? "",
+      thumbnail: thumbnails?.medium?.url ?? thumbnails?.default?.url ?? "",
+      addedAt: new Date().toISOString(),
+    };
+    list.push(entry);
+    return entry;
+  });
+  if (!followed) return null;
+
+  await trackStore.update((data) => {
+    if (data[channel.id]) return;
+    data[channel.id] = {
+      snapshots: [
+        {
+          at: new Date().toISOString(),
+          subscriberCount: parseInt(channel.statistics.subscriberCount ?? "0"),
+          videoCount: parseInt(channel.statistics.videoCount ?? "0"),
+          viewCount: parseInt(channel.statistics.viewCount ?? "0"),
+        },
+      ],
+      uploads: uploads.slice(0, RECENT_UPLOADS).map((u) => ({ ...u, detectedAt: null })),
+    };
+  });
+  return followed;
+}
+
+export async function unfollowChannel(userId: string, channelId: string): Promise<boolean> {
+  return followStore.update((data) => {
+    const list = data[userId] ?? [];
+    data[userId] = list.filter((c) => c.channelId !== channelId);
+    return data[userId].length < list.length;
+  });
+}
+
+/** 모든 사용자가 팔로우한 채널 ID (중복 제거) */
+export async function followedChannelIds(): Promise<string[]> {
+  const data = await followStore.read();
+  return [...new Set(Object.values(data).flatMap((list) => list.map((c) => c.channelId)))];
+}
+
+/**
+ * 주기 작업: 마지막 스냅샷이 MIN_CHANNEL_SNAPSHOT_INTERVAL_MS 이상 지난 채널만
+ * - channels.list 50개씩 (1 unit) → 통계 스냅샷
+ * - 채널마다 업로드 플레이리스트 최근 RECENT_UPLOADS개 (1 unit) + 조회수 (1 unit) → 새 업로드 감지
+ * 더 이상 팔로우하는 사용자가 없는 채널의 추적 데이터는 삭제
+ */
+export async function refreshCompetitors(params: {
+  keyPool: ApiKeyPool;
+  quota: QuotaTracker;
+  now?: Date;
+}): Promise<{ followed: number; refreshed: number; newUploads: number }> {
+  const { keyPool, quota } = params;
+  const now = params.now ?? new Date();
+  const ids = await followedChannelIds();
+  const tracks = await trackStore.read();
+  const due = ids.filter((id) => {
+    const last = tracks[id]?.snapshots.at(-1);
+    return !last || now.getTime() - new Date(last.at).getTime() >= MIN_CHANNEL_SNAPSHOT_INTERVAL_MS;
+  });
+
+  const channels = await fetchInChunks(due, 50, (chunk) =>
+    getChannelDetails({ apiKey: keyPool, quota, channelIds: chunk })
+  );
+  const fetched = await Promise.all(channels.map((channel) => fetchRecentUploads(channel, params)));
+
+  return trackStore.update(async (data) => {
+    // 조회 중에 새로 팔로우한 채널의 추적 데이터를 지우지 않도록 저장 직전 목록 기준
+    const followed = new Set(await followedChannelIds());
+    for (const id of Object.keys(data)) {
+      if (!followed.has(id)) delete data[id];
+    }
+
+    let newUploads = 0;
+    for (const { channel, uploads } of fetched) {
+      if (!followed.has(channel.id)) continue;
+      // 처음 추적하는 채널은 기존 업로드를 새 업로드로 세지 않음
+      const firstRefresh = !data[channel.id];
+      const track = (data[channel.id] ??= { snapshots: [], uploads: [] });
+      appendChannelSnapshot(track, {
+        at: now.toISOString(),
+        subscriberCount: parseInt(channel.statistics.subscriberCount ?? "0"),
+        videoCount: parseInt(channel.statistics.videoCount ?? "0"),
+        viewCount: parseInt(channel.statistics.viewCount ?? "0"),
+      });
+
+      const known = new Set(track.uploads.map((u) => u.videoId));
+      const previous = new Map(track.uploads.map((u) => [u.videoId, u]));
+      track.uploads = uploads.map((u) => {
+        const isNew = !firstRefresh && !known.has(u.videoId);
+        if (isNew) newUploads += 1;
+        return {
+          ...u,
+          detectedAt: isNew ? now.toISOString() : (previous.get(u.videoId)?.detectedAt ?? null),
+        };
+      });
+    }
+    return { followed: followed.size, refreshed: fetched.length, newUploads };
+  });
+}
+
+/** 업로드 플레이리스트 최근 영상 + 현재 조회수 */
+async function fetchRecentUploads(
+  channel: YouTubeChannelItem,
+  { keyPool, quota }: { keyPool: ApiKeyPool; quota: QuotaTracker }
+): Promise<ChannelTrackSeed> {
+  const uploadsId = channel.contentDetails?.relatedPlaylists?.uploads;
+  if (!uploadsId) return { channel, uploads: [] };
+
+  const items = await getPlaylistItems({
+    apiKey: keyPool,
+    quota,
+    playlistId: uploadsId,
+    maxResults: RECENT_UPLOADS,
+  });
+  const videoIds = items.map((p) => p.snippet.resourceId.videoId);
+  const details = await getVideoDetails({ apiKey: keyPool, quota, videoIds });
+  const views = new Map(details.map((v) => [v.id, parseInt(v.statistics.viewCount ?? "0")]));
+
+  return {
+    channel,
+    uploads: items.map((p) => ({
+      videoId: p.snippet.resourceId.videoId,
+      title: p.snippet.title ?? "",
+      publishedAt: p.snippet.publishedAt ?? "",
+      viewCount: views.get(p.snippet.resourceId.videoId) ?? 0,
+    })),
+  };
+}
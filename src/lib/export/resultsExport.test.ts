@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import type { VideoResult } from "@/lib/youtube/analysis";
+import {
+  EXPORT_COLUMNS,
+  buildCsv,
+  buildSessionJson,
+  exportFileName,
+  parseSessionJson,
+  toTableRows,
+} from "./resultsExport";
+
+function video(overrides: Partial<VideoResult> = {}): VideoResult {
+  return {
+    id: "abc123",
+    title: "캠핑 브이로그",
+    thumbnail: "https://i.ytimg.com/vi/abc123/hqdefault.jpg",
+    channelId: "UC1",
+    channelTitle: "캠핑채널",
+    publishedAt: "2026-09-01T00:00:00Z",
+    viewCount: 120_000,
+    likeCount: null,
+    commentCount: 42,
+    subscriberCount: 10_000,
+    totalVideoCount: 80,
+    viewToSubscriberRatio: 12,
+    likeToSubscriberRatio: null,
+    duration: "PT12M5S",
+    shortsConfidence: 0,
+    performanceScore: { score: 5, label: "Excellent", color: "#f87171" },
+    contributionScore: null,
+    channelAvgViews: null,
+    scoringProfile: { id: "default", name: "기본" },
+    ageDays: 47,
+    viewsPerDay: 2553.19,
+    likesPerDay: null,
+    ageAdjustedRatio: 7.66,
+    ageAdjustedScore: { score: 5, label: "Excellent", color: "#f87171" },
+    ...overrides,
+  };
+}
+
+describe("toTableRows", () => {
+  it("헤더 + 원시 수치·URL·등급 (없는 값은 null)", () => {
+    const [header, row] = toTableRows([video()]);
+    expect(header).toHaveLength(EXPORT_COLUMNS.length);
+    const cell = (name: string) => row[header.indexOf(name)];
+    expect(cell("영상 URL")).toBe("https://www.youtube.com/watch?v=abc123");
+    expect(cell("채널 URL")).toBe("https://www.youtube.com/channel/UC1");
+    expect(cell("길이 (초)")).toBe(725);
+    expect(cell("조회수")).toBe(120_000);
+    expect(cell("좋아요 수")).toBeNull();
+    expect(cell("성과도 등급")).toBe("Excellent");
+    expect(cell("기여도 점수")).toBeNull();
+    expect(cell("점수 기준")).toBe("기본");
+  });
+});
+
+describe("buildCsv", () => {
+  it("UTF-8 BOM, CRLF, 따옴표·쉼표 이스케이프", () => {
+    const csv = buildCsv([video({ title: '캠핑, "겨울" 편' })]);
+    expect(csv.startsWith("\uFEFF영상 ID,제목,")).toBe(true);
+    const lines = csv.slice(1).split("\r\n");
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toBe("");
+    expect(lines[1]).toContain('abc123,"캠핑, ""겨울"" 편",');
+    // 빈 값은 빈 필드
+    expect(lines[1]).toContain(",120000,,42,");
+  });
+
+  it("수식으로 해석될 수 있는 문자열은 작은따옴표로 무력화", () => {
+    const csv = buildCsv([video({ title: "=HYPERLINK(\"x\")" })]);
+    expect(csv).toContain(`"'=HYPERLINK(""x"")"`);
+  });
+});
+
+describe("세션 JSON", () => {
+  it("내보낸 세션을 그대로 복원", () => {
+    const videos = [video(), video({ id: "def456", viewCount: 5 })];
+    const json = buildSessionJson(
+      {
+        keyword: "캠핑",
+        videoType: "longform",
+        scoringProfile: { id: "default", name: "기본" },
+        sort: { key: "viewCount", dir: "asc" },
+        videos,
+      },
+      new Date("2026-10-18T00:00:00Z")
+    );
+    expect(parseSessionJson(json)).toEqual({
+      format: "yt-analyzer-session",
+      version: 1,
+      exportedAt: "2026-10-18T00:00:00.000Z",
+      keyword: "캠핑",
+      videoType: "longform",
+      scoringProfile: { id: "default", name: "기본" },
+      sort: { key: "viewCount", dir: "asc" },
+      videos,
+    });
+  });
+
+  it("형식이 다르거나 영상 항목이 손상되면 null, 잘못된 정렬은 기본값", () => {
+    const base = { format: "yt-analyzer-session", version: 1, keyword: "k", videoType: "shorts", videos: [video()] };
+    expect(parseSessionJson("not json")).toBeNull();
+    expect(parseSessionJson("null")).toBeNull();
+    expect(parseSessionJson(JSON.stringify({ ...base, format: "other" }))).toBeNull();
+    expect(parseSessionJson(JSON.stringify({ ...base, version: 2 }))).toBeNull();
+    expect(parseSessionJson(JSON.stringify({ ...base, videos: [{ id: "x" }] }))).toBeNull();
+
+    const parsed = parseSessionJson(JSON.stringify({ ...base, sort: { key: "title", dir: "up" } }));
+    expect(parsed?.sort).toEqual({ key: "performanceScore", dir: "desc" });
+    expect(parsed?.scoringProfile).toBeNull();
+  });
+});
+
+describe("exportFileName", () => {
+  it("파일 이름에 쓸 수 없는 문자를 바꾸고 시각을 붙임", () => {
+    expect(exportFileName(' 캠핑 / "장비" ', "csv", new Date(2026, 9, 18, 9, 5))).toBe(
+      "캠핑-장비-20261018-0905.csv"
+    );
+    expect(exportFileName("", "json", new Date(2026, 0, 2, 3, 4))).toBe("results-20260102-0304.json");
+  });
+});
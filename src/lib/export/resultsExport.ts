@@ -0,0 +1,183 @@
+/**
+ * resultsExport.ts
+ * 분석 결과 내보내기 · 불러오기
+ * 책임: 현재 화면 순서 그대로 CSV(UTF-8 BOM) · XLSX · 세션 JSON으로 직렬화,
+ *       내보낸 세션 JSON을 검증해 할당량 없이 분석기에 복원
+ */
+
+import type { VideoResult } from "@/lib/youtube/analysis";
+import { parseDurationToSeconds, type VideoType } from "@/lib/youtube/videoType";
+import type { ScoringProfileRef } from "@/lib/scoring/profiles";
+import { DEFAULT_VIDEO_SORT, isVideoSort, type VideoSort } from "@/lib/youtube/resultSort";
+import { buildXlsx, type XlsxCell } from "./xlsx";
+
+// ─── 컬럼 정의 ────────────────────────────────────────────────────────────────
+
+interface ExportColumn {
+  header: string;
+  value: (video: VideoResult) => XlsxCell;
+}
+
+/** 원시 수치는 반올림 없이 그대로 내보냄 (표시용 포맷은 화면에서만) */
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: "영상 ID", value: (v) => v.id },
+  { header: "제목", value: (v) => v.title },
+  { header: "영상 URL", value: (v) => `https://www.youtube.com/watch?v=${v.id}` },
+  { header: "채널 ID", value: (v) => v.channelId },
+  { header: "채널명", value: (v) => v.channelTitle },
+  { header: "채널 URL", value: (v) => `https://www.youtube.com/channel/${v.channelId}` },
+  { header: "게시일", value: (v) => v.publishedAt },
+  { header: "길이 (ISO 8601)", value: (v) => v.duration },
+  { header: "길이 (초)", value: (v) => parseDurationToSeconds(v.duration) },
+  // 이전 버전 스냅샷에는 없을 수 있음
+  { header: "Shorts 확신도", value: (v) => v.shortsConfidence ?? null },
+  { header: "조회수", value: (v) => v.viewCount },
+  { header: "좋아요 수", value: (v) => v.likeCount },
+  { header: "댓글 수", value: (v) => v.commentCount },
+  { header: "구독자 수", value: (v) => v.subscriberCount },
+  { header: "채널 영상 수", value: (v) => v.totalVideoCount },
+  { header: "조회수/구독자 배율", value: (v) => v.viewToSubscriberRatio },
+  { header: "좋아요/구독자 배율", value: (v) => v.likeToSubscriberRatio },
+  { header: "성과도 점수", value: (v) => v.performanceScore.score },
+  { header: "성과도 등급", value: (v) => v.performanceScore.label },
+  { header: "기여도 점수", value: (v) => v.contributionScore?.score ?? null },
+  { header: "기여도 등급", value: (v) => v.contributionScore?.label ?? null },
+  { header: "채널 평균 조회수", value: (v) => v.channelAvgViews },
+  { header: "경과일", value: (v) => v.ageDays ?? null },
+  { header: "일평균 조회수", value: (v) => v.viewsPerDay ?? null },
+  { header: "일평균 좋아요", value: (v) => v.likesPerDay ?? null },
+  { header: "30일 환산 배율", value: (v) => v.ageAdjustedRatio ?? null },
+  { header: "기간 보정 점수", value: (v) => v.ageAdjustedScore?.score ?? null },
+  { header: "기간 보정 등급", value: (v) => v.ageAdjustedScore?.label ?? null },
+  { header: "점수 기준", value: (v) => v.scoringProfile?.name ?? null },
+  { header: "썸네일 URL", value: (v) => v.thumbnail },
+];
+
+/** 헤더 행 + 영상별 행 */
+export function toTableRows(videos: VideoResult[]): XlsxCell[][] {
+  return [
+    EXPORT_COLUMNS.map((c) => c.header),
+    ...videos.map((video) => EXPORT_COLUMNS.map((c) => c.value(video))),
+  ];
+}
+
+// ─── CSV ──────────────────────────────────────────────────────────────────────
+
+/** Excel이 한글을 UTF-8로 인식하도록 붙이는 BOM */
+const UTF8_BOM = "\uFEFF";
+
+function csvField(value: XlsxCell): string {
+  if (value === null) return "";
+  if (typeof value === "number") return Number.isFinite(value) ? String(value) : "";
+  // 스프레드시트 수식으로 실행되지 않도록 (CSV injection)
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 CSV (CRLF, UTF-8 BOM) */
+export function buildCsv(videos: VideoResult[]): string {
+  return UTF8_BOM + toTableRows(videos).map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+// ─── XLSX ─────────────────────────────────────────────────────────────────────
+
+export function buildXlsxExport(videos: VideoResult[], keyword: string): Uint8Array<ArrayBuffer> {
+  return buildXlsx(toTableRows(videos), keyword || "결과");
+}
+
+// ─── 세션 JSON ────────────────────────────────────────────────────────────────
+
+export const SESSION_FORMAT = "yt-analyzer-session";
+export const SESSION_VERSION = 1;
+
+/** 분석기 화면 복원에 필요한 상태 */
+export interface AnalysisSession {
+  format: typeof SESSION_FORMAT;
+  version: typeof SESSION_VERSION;
+  exportedAt: string;
+  keyword: string;
+  videoType: VideoType;
+  scoringProfile: ScoringProfileRef | null;
+  sort: VideoSort;
+  videos: VideoResult[];
+}
+
+export function buildSessionJson(
+  session: Omit<AnalysisSession, "format" | "version" | "exportedAt">,
+  now = new Date()
+): string {
+  const payload: AnalysisSession = {
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    exportedAt: now.toISOString(),
+    ...session,
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+function isVideoResult(value: unknown): value is VideoResult {
+  const v = value as Partial<VideoResult> | null;
+  return (
+    typeof v === "object" &&
+    v !== null &&
+    typeof v.id === "string" &&
+    typeof v.title === "string" &&
+    typeof v.channelId === "string" &&
+    typeof v.publishedAt === "string" &&
+    typeof v.duration === "string" &&
+    typeof v.viewCount === "number" &&
+    typeof v.subscriberCount === "number" &&
+    typeof v.performanceScore?.score === "number"
+  );
+}
+
+/**
+ * 내보낸 세션 JSON 검증
+ * 형식·버전이 다르거나 영상 항목이 손상된 경우 null
+ */
+export function parseSessionJson(text: string): AnalysisSession | null {
+  let data: Partial<AnalysisSession>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (
+    typeof data !== "object" ||
+    data === null ||
+    data.format !== SESSION_FORMAT ||
+    data.version !== SESSION_VERSION ||
+    typeof data.keyword !== "string" ||
+    (data.videoType !== "shorts" && data.videoType !== "longform") ||
+    !Array.isArray(data.videos) ||
+    !data.videos.every(isVideoResult)
+  ) {
+    return null;
+  }
+  return {
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    exportedAt: typeof data.exportedAt === "string" ? data.exportedAt : "",
+    keyword: data.keyword,
+    videoType: data.videoType,
+    scoringProfile: data.scoringProfile ?? null,
+    sort: isVideoSort(data.sort) ? data.sort : DEFAULT_VIDEO_SORT,
+    videos: data.videos,
+  };
+}
+
+// ─── 파일 이름 ────────────────────────────────────────────────────────────────
+
+/** 예: 요리-20261018-0930.csv */
+export function exportFileName(keyword: string, ext: "csv" | "xlsx" | "json", now = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const stamp =
+    `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}` +
+    `-${pad(now.getHours())}${pad(now.getMinutes())}`;
+  const base =
+    keyword
+      .replace(/[\\/:*?"<>|\s]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 40) || "results";
+  return `${base}-${stamp}.${ext}`;
+}
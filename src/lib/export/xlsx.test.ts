@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { buildXlsx, crc32, sanitizeSheetName } from "./xlsx";
+
+/** 무압축 ZIP의 로컬 파일 항목을 이름 → 내용으로 읽음 */
+function readZip(bytes: Uint8Array): Map<string, { text: string; crc: number; data: Uint8Array }> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, { text: string; crc: number; data: Uint8Array }>();
+  let pos = 0;
+  while (view.getUint32(pos, true) === 0x04034b50) {
+    expect(view.getUint16(pos + 8, true)).toBe(0);
+    const crc = view.getUint32(pos + 14, true);
+    const size = view.getUint32(pos + 18, true);
+    const nameLength = view.getUint16(pos + 26, true);
+    const name = decoder.decode(bytes.subarray(pos + 30, pos + 30 + nameLength));
+    const data = bytes.subarray(pos + 30 + nameLength, pos + 30 + nameLength + size);
+    entries.set(name, { text: decoder.decode(data), crc, data });
+    pos += 30 + nameLength + size;
+  }
+  return entries;
+}
+
+describe("crc32", () => {
+  it("표준 검사값", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+});
+
+describe("buildXlsx", () => {
+  const rows = [
+    ["제목", "조회수", "좋아요"],
+    ["A & <B> \u0001", 1200, null],
+    ["둘째", 3.5, 7],
+  ];
+
+  it("통합 문서 구성 파일과 올바른 CRC", () => {
+    const entries = readZip(buildXlsx(rows, "캠핑"));
+    expect([...entries.keys()]).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/styles.xml",
+      "xl/worksheets/sheet1.xml",
+    ]);
+    for (const { data, crc } of entries.values()) expect(crc32(data)).toBe(crc);
+    expect(entries.get("xl/workbook.xml")?.text).toContain('<sheet name="캠핑"');
+  });
+
+  it("헤더 고정·굵게, 숫자는 숫자 셀, 문자열은 이스케이프, null은 생략", () => {
+    const sheet = readZip(buildXlsx(rows, "s")).get("xl/worksheets/sheet1.xml")!.text;
+    expect(sheet).toContain('state="frozen"');
+    expect(sheet).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">제목</t></is></c>');
+    expect(sheet).toContain('<c r="B2"><v>1200</v></c>');
+    expect(sheet).toContain("A &amp; &lt;B&gt; </t>");
+    expect(sheet).not.toContain('r="C2"');
+    expect(sheet).toContain('<c r="C3"><v>7</v></c>');
+  });
+});
+
+describe("sanitizeSheetName", () => {
+  it("금지 문자 제거·31자 제한·빈 이름 대체", () => {
+    expect(sanitizeSheetName("a/b:c")).toBe("a b c");
+    expect(sanitizeSheetName("x".repeat(40))).toHaveLength(31);
+    expect(sanitizeSheetName("[]")).toBe("Sheet1");
+  });
+});
@@ -0,0 +1,95 @@
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  appendSearchLog,
+  deleteSearchLogEntry,
+  findFreshSnapshot,
+  getSearchLogEntry,
+  listSearchLog,
+  MAX_LOG_ENTRIES,
+  SNAPSHOT_FRESH_MS,
+  type SearchFilters,
+} from "./searchLog";
+
+const filters: SearchFilters = {
+  keyword: "캠핑",
+  videoType: "longform",
+  uploadPeriod: "all",
+  minViewCount: null,
+  maxSubscriberCount: null,
+};
+
+function log(userId: string, f = filters, skipped: string[] = [], pageDepth = 2) {
+  return appendSearchLog(userId, { filters: f, pageDepth, total: 0, quotaUsed: 100, skipped, videos: [] });
+}
+
+let dataDir: string;
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "yt-history-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("searchLog", () => {
+  it("사용자별로 분리해 최신순 저장, 목록에는 스냅샷 제외", async () => {
+    const first = await log("google:a");
+    const second = await log("google:a", { ...filters, keyword: "낚시" });
+    await log("kakao:b");
+
+    const list = await listSearchLog("google:a");
+    expect(list.map((e) => e.id)).toEqual([second.id, first.id]);
+    expect(list[0]).not.toHaveProperty("videos");
+    expect(await getSearchLogEntry("kakao:b", first.id)).toBeNull();
+  });
+
+  it("같은 조건의 스냅샷만, 신선한 동안만 재사용", async () => {
+    const entry = await log("google:a");
+
+    expect((await findFreshSnapshot("google:a", filters, 2))?.id).toBe(entry.id);
+    expect(await findFreshSnapshot("google:a", { ...filters, uploadPeriod: "1month" }, 2)).toBeNull();
+    expect(await findFreshSnapshot("google:a", filters, 2, Date.now() + SNAPSHOT_FRESH_MS + 1)).toBeNull();
+  });
+
+  it("예산 부족으로 단계를 생략한 기록과 수정 전 사용자 정의 기준의 기록은 재사용하지 않음", async () => {
+    await log("google:a", filters, ["channelAvg"]);
+    expect(await findFreshSnapshot("google:a", filters, 2)).toBeNull();
+
+    const custom = { ...filters, scoringProfile: "custom-1", scoringProfileUpdatedAt: "2026-06-01T00:00:00.000Z" };
+    const entry = await log("google:a", custom);
+    expect((await findFreshSnapshot("google:a", custom, 2))?.id).toBe(entry.id);
+    expect(
+      await findFreshSnapshot("google:a", { ...custom, scoringProfileUpdatedAt: "2026-06-02T00:00:00.000Z" }, 2)
+    ).toBeNull();
+  });
+
+  it("요청보다 적은 페이지만 조회한 기록은 더 깊은 검색에 재사용하지 않음", async () => {
+    const entry = await log("google:a", filters, [], 2);
+    expect((await findFreshSnapshot("google:a", filters, 1))?.id).toBe(entry.id);
+    expect(await findFreshSnapshot("google:a", filters, 3)).toBeNull();
+
+    // pageDepth가 없는 이전 기록은 1페이지 검색으로 취급
+    const legacy = await appendSearchLog("google:a", { filters, total: 0, quotaUsed: 100, skipped: [], videos: [] });
+    expect((await findFreshSnapshot("google:a", filters, 1))?.id).toBe(legacy.id);
+    expect((await findFreshSnapshot("google:a", filters, 2))?.id).toBe(entry.id);
+  });
+
+  it("보관 개수 초과 시 오래된 기록부터 삭제, 단건 삭제", async () => {
+    const oldest = await log("google:a");
+    for (let i = 0; i < MAX_LOG_ENTRIES; i++) await log("google:a");
+
+    const list = await listSearchLog("google:a");
+    expect(list).toHaveLength(MAX_LOG_ENTRIES);
+    expect(list.some((e) => e.id === oldest.id)).toBe(false);
+
+    expect(await deleteSearchLogEntry("google:a", list[0].id)).toBe(true);
+    expect(await deleteSearchLogEntry("google:a", list[0].id)).toBe(false);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * searchLog.ts
+ * 사용자별 검색 기록 (사용내역)
+ * - 키워드·필터·시각·결과 수·할당량 사용량·결과 스냅샷 저장
+ * - 같은 조건의 스냅샷이 충분히 최신이면 검색 라우트가 할당량 없이 재사용
+ *   (예산 부족으로 단계를 생략한 부분 결과, 요청보다 얕게 조회한 결과는 제외)
+ * - 사용자당 파일 1개 (DATA_DIR/searchLog/<사용자 해시>.json), 최근 MAX_LOG_ENTRIES개 유지
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import { JsonStore } from "@/lib/store/jsonStore";
+import type { VideoResult } from "@/lib/youtube/analysis";
+import { DEFAULT_TYPE_CONFIDENCE, type VideoType } from "@/lib/youtube/videoType";
+import { DEFAULT_REGION_CODE, DEFAULT_RELEVANCE_LANGUAGE } from "@/lib/youtube/markets";
+import { DEFAULT_SCORING_PROFILE_ID } from "@/lib/scoring/profiles";
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+/** 스냅샷 재사용 기준: 1시간 (search 응답 캐시 TTL과 동일) */
+export const SNAPSHOT_FRESH_MS = 60 * 60 * 1000;
+/** 사용자당 보관 기록 수 */
+export const MAX_LOG_ENTRIES = 100;
+
+// ─── 타입 ─────────────────────────────────────────────────────────────────────
+
+export type UploadPeriod = "all" | "1month" | "3months" | "6months" | "1year";
+
+/** 검색 조건 (스냅샷 재사용 판단 기준 — 예산·키는 결과에 영향이 없으므로 제외) */
+export interface SearchFilters {
+  keyword: string;
+  videoType: VideoType;
+  uploadPeriod: UploadPeriod;
+  minViewCount: number | null;
+  maxSubscriberCount: number | null;
+  /** 점수 기준 ID (없으면 기본 기준 — 이전 기록 호환) */
+  scoringProfile?: string;
+  /** 사용자 정의 기준의 저장 시각 (기준을 수정하면 이전 스냅샷을 재사용하지 않음) */
+  scoringProfileUpdatedAt?: string;
+  /** 요청한 유형일 최소 확신도 (없으면 기본값 — 이전 기록 호환) */
+  minTypeConfidence?: number;
+  /** 검색 대상 지역·언어 (없으면 KR·ko — 이전 기록 호환) */
+  regionCode?: string;
+  relevanceLanguage?: string;
+}
+
+export interface SearchLogEntry {
+  id: string;
+  createdAt: string;
+  filters: SearchFilters;
+  /** 요청한 검색 페이지 수 (없으면 1 — 이전 기록 호환) */
+  pageDepth?: number;
+  total: number;
+  quotaUsed: number;
+  /** 이번 검색에서 예산 부족으로 생략한 단계 */
+  skipped: string[];
+  videos: VideoResult[];
+}
+
+/** 목록용 요약 (스냅샷 제외) */
+export type SearchLogSummary = Omit<SearchLogEntry, "videos">;
+
+/**
+ * 업로드 기간 키를 ISO 8601 날짜 문자열로 변환
+ * 시 단위로 내림 — search.list 캐시 키에 들어가므로 호출마다 값이 바뀌면 캐시가 적중하지 않음 (검색 캐시 TTL 1시간)
+ */
+export function calcPublishedAfter(period?: UploadPeriod, at: Date = new Date()): string | undefined {
+  if (!period || period === "all") return undefined;
+  const now = new Date(at);
+  now.setUTCMinutes(0, 0, 0);
+  if (period === "1month") now.setMonth(now.getMonth() - 1);
+  else if (period === "3months") now.setMonth(now.getMonth() - 3);
+  else if (period === "6months") now.setMonth(now.getMonth() - 6);
+  else if (period === "1year") now.setFullYear(now.getFullYear() - 1);
+  else return undefined;
+  return now.toISOString();
+}
+
+// ─── 저장소 ───────────────────────────────────────────────────────────────────
+
+function storeFor(userId: string): JsonStore<SearchLogEntry[]> {
+  const hash = createHash("sha256").update(userId).digest("hex").slice(0, 32);
+  return new JsonStore<SearchLogEntry[]>(`searchLog/${hash}.json`, () => []);
+}
+
+function sameFilters(a: SearchFilters, b: SearchFilters): boolean {
+  return (
+    a.keyword === b.keyword &&
+    a.videoType === b.videoType &&
+    a.uploadPeriod === b.uploadPeriod &&
+    a.minViewCount === b.minViewCount &&
+    a.maxSubscriberCount === b.maxSubscriberCount &&
+    (a.scoringProfile ?? DEFAULT_SCORING_PROFILE_ID) === (b.scoringProfile ?? DEFAULT_SCORING_PROFILE_ID) &&
+    a.scoringProfileUpdatedAt === b.scoringProfileUpdatedAt &&
+    (a.minTypeConfidence ?? DEFAULT_TYPE_CONFIDENCE) === (b.minTypeConfidence ?? DEFAULT_TYPE_CONFIDENCE) &&
+    (a.regionCode ?? DEFAULT_REGION_CODE) === (b.regionCode ?? DEFAULT_REGION_CODE) &&
+    (a.relevanceLanguage ?? DEFAULT_RELEVANCE_LANGUAGE) === (b.relevanceLanguage ?? DEFAULT_RELEVANCE_LANGUAGE)
+  );
+}
+
+export function isSnapshotFresh(entry: Pick<SearchLogEntry, "createdAt">, now = Date.now()): boolean {
+  return now - new Date(entry.createdAt).getTime() < SNAPSHOT_FRESH_MS;
+}
+
+function toSummary(entry: SearchLogEntry): SearchLogSummary {
+  const { id, createdAt, filters, pageDepth, total, quotaUsed, skipped } = entry;
+  return { id, createdAt, filters, pageDepth, total, quotaUsed, skipped };
+}
+
+// ─── 공개 API ─────────────────────────────────────────────────────────────────
+
+/** 검색 결과 기록 (최신순 유지, 오래된 기록부터 삭제) */
+export async function appendSearchLog(
+  userId: string,
+  data: Omit<SearchLogEntry, "id" | "createdAt">
+): Promise<SearchLogEntry> {
+  const entry: SearchLogEntry = { id: randomUUID(), createdAt: new Date().toISOString(), ...data };
+  await storeFor(userId).update((entries) => {
+    entries.unshift(entry);
+    entries.splice(MAX_LOG_ENTRIES);
+  });
+  return entry;
+}
+
+export async function listSearchLog(userId: string): Promise<SearchLogSummary[]> {
+  return (await storeFor(userId).read()).map(toSummary);
+}
+
+export async function getSearchLogEntry(userId: string, id: string): Promise<SearchLogEntry | null> {
+  return (await storeFor(userId).read()).find((e) => e.id === id) ?? null;
+}
+
+/** @returns 삭제 여부 */
+export async function deleteSearchLogEntry(userId: string, id: string): Promise<boolean> {
+  return storeFor(userId).update((entries) => {
+    const index = entries.findIndex((e) => e.id === id);
+    if (index === -1) return false;
+    entries.splice(index, 1);
+    return true;
+  });
+}
+
+/**
+ * 같은 조건의 최신 스냅샷 (SNAPSHOT_FRESH_MS 이내)
+ * - 예산 부족으로 페이지·채널 평균을 생략한 기록은 전체 결과처럼 재생하지 않도록 제외
+ * - 요청보다 적은 페이지만 조회한 기록은 더 깊은 검색 결과로 재생하지 않도록 제외
+ */
+export async function findFreshSnapshot(
+  userId: string,
+  filters: SearchFilters,
+  pageDepth: number,
+  now = Date.now()
+): Promise<SearchLogEntry | null> {
+  const entries = await storeFor(userId).read();
+  return (
+    entries.find(
+      (e) =>
+        e.skipped.length === 0 &&
+        (e.pageDepth ?? 1) >= pageDepth &&
+        sameFilters(e.filters, filters) &&
+        isSnapshotFresh(e, now)
+    ) ?? null
+  );
+}
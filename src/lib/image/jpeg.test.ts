@@ -0,0 +1,52 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { decodeJpegBlocks, JpegError, type BlockImage } from "./jpeg";
+
+const fixture = (name: string) =>
+  new Uint8Array(readFileSync(path.join(process.cwd(), "fixtures", "images", name)));
+
+const pixel = (image: BlockImage, x: number, y: number) => {
+  const i = (y * image.columns + x) * 3;
+  return [...image.rgb.slice(i, i + 3)];
+};
+
+const near = (actual: number[], expected: number[]) =>
+  actual.every((value, i) => Math.abs(value - expected[i]) <= 3);
+
+describe("decodeJpegBlocks", () => {
+  it("4:2:0 YCbCr: MCU 경계가 아닌 크기도 원본 기준 블록 격자로 자름", () => {
+    // 70×50, x < 32는 (220,30,30), 나머지는 (30,60,220)
+    const image = decodeJpegBlocks(fixture("split-420.jpg"));
+    expect(image).toMatchObject({ width: 70, height: 50, columns: 9, rows: 7 });
+    for (let y = 0; y < image.rows; y++) {
+      for (let x = 0; x < image.columns; x++) {
+        expect(near(pixel(image, x, y), x < 4 ? [220, 30, 30] : [30, 60, 220])).toBe(true);
+      }
+    }
+  });
+
+  it("그레이스케일(컴포넌트 1개)", () => {
+    const image = decodeJpegBlocks(fixture("gray.jpg"));
+    expect(image).toMatchObject({ columns: 4, rows: 2 });
+    expect(near(pixel(image, 3, 1), [200, 200, 200])).toBe(true);
+  });
+
+  it("프로그레시브는 UNSUPPORTED, 깨진 데이터는 INVALID", () => {
+    expect(() => decodeJpegBlocks(fixture("split-progressive.jpg"))).toThrow(
+      expect.objectContaining({ code: "UNSUPPORTED" })
+    );
+
+    const valid = fixture("split-420.jpg");
+    for (const broken of [new Uint8Array([0x89, 0x50, 0x4e, 0x47]), valid.slice(0, valid.length / 2)]) {
+      let error: unknown;
+      try {
+        decodeJpegBlocks(broken);
+      } catch (err) {
+        error = err;
+      }
+      expect(error).toBeInstanceOf(JpegError);
+      expect((error as JpegError).code).toBe("INVALID");
+    }
+  });
+});
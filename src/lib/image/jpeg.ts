@@ -0,0 +1,378 @@
+/**
+ * jpeg.ts
+ * 베이스라인 JPEG의 8×8 블록 평균색만 읽는 경량 디코더 (순수 JS, 네이티브 의존성 없음)
+ * - 블록 평균은 DC 계수 × 양자화 값 / 8 이므로 IDCT 없이 1/8 축소 이미지를 얻음
+ * - AC 계수는 허프만 디코딩으로 건너뛰기만 함 (대표색·밝기 분석에는 충분)
+ * - 지원: SOF0·SOF1 허프만, 그레이스케일·YCbCr, 크로마 서브샘플링, 리스타트 마커
+ * - 미지원: 프로그레시브·산술 부호화·무손실 (JpegError UNSUPPORTED)
+ */
+
+// ─── 타입 ─────────────────────────────────────────────────────────────────────
+
+export type JpegErrorCode = "INVALID" | "UNSUPPORTED";
+
+export class JpegError extends Error {
+  constructor(message: string, public readonly code: JpegErrorCode) {
+    super(message);
+    this.name = "JpegError";
+  }
+}
+
+/** 블록 단위 축소 이미지 (원본 1/8, RGB 3바이트씩) */
+export interface BlockImage {
+  /** 원본 픽셀 크기 */
+  width: number;
+  height: number;
+  /** 블록 격자 크기 = ceil(원본 / 8) */
+  columns: number;
+  rows: number;
+  rgb: Uint8ClampedArray;
+}
+
+interface HuffmanTable {
+  /** 코드 길이 → (첫 코드, 첫 심볼 인덱스, 개수) */
+  maxCode: Int32Array;
+  valPtr: Int32Array;
+  minCode: Int32Array;
+  values: Uint8Array;
+}
+
+interface Component {
+  id: number;
+  h: number;
+  v: number;
+  quantId: number;
+  /** 컴포넌트 블록 격자 (MCU 경계까지 채운 크기) */
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  /** 블록별 평균 샘플 값 (0~255 범위로 환산 전 DC × 양자화) */
+  dc: Float32Array;
+  pred: number;
+  dcTable?: HuffmanTable;
+  acTable?: HuffmanTable;
+}
+
+// ─── 허프만 ───────────────────────────────────────────────────────────────────
+
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+  const maxCode = new Int32Array(17).fill(-1);
+  const valPtr = new Int32Array(17);
+  const minCode = new Int32Array(17);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    valPtr[length] = k;
+    minCode[length] = code;
+    code += counts[length - 1];
+    k += counts[length - 1];
+    if (counts[length - 1] > 0) maxCode[length] = code - 1;
+    code <<= 1;
+  }
+  return { maxCode, valPtr, minCode, values };
+}
+
+/** 엔트로피 부호화 구간의 비트 단위 읽기 (0xFF00 바이트 스터핑 처리) */
+class BitReader {
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(private readonly data: Uint8Array, public offset: number) {}
+
+  readBit(): number {
+    if (this.bitCount === 0) {
+      if (this.offset >= this.data.length) throw new JpegError("JPEG 데이터가 잘렸습니다.", "INVALID");
+      let byte = this.data[this.offset++];
+      if (byte === 0xff) {
+        const next = this.data[this.offset];
+        if (next === 0x00) this.offset++;
+        else if (next !== undefined) {
+          // 데이터 중간의 마커: 남은 비트는 1로 채운 것으로 처리
+          this.offset--;
+          byte = 0xff;
+        }
+      }
+      this.bitBuffer = byte;
+      this.bitCount = 8;
+    }
+    this.bitCount--;
+    return (this.bitBuffer >> this.bitCount) & 1;
+  }
+
+  receive(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) value = (value << 1) | this.readBit();
+    return value;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = 0;
+    for (let length = 1; length <= 16; length++) {
+      code = (code << 1) | this.readBit();
+      if (code <= table.maxCode[length]) {
+        return table.values[table.valPtr[length] + code - table.minCode[length]];
+      }
+    }
+    throw new JpegError("허프만 코드를 해석할 수 없습니다.", "INVALID");
+  }
+
+  /** 리스타트 마커 앞에서 바이트 경계로 맞추고 RSTn 마커를 건너뜀 */
+  restart(): void {
+    this.bitCount = 0;
+    while (this.offset + 1 < this.data.length) {
+      if (this.data[this.offset] === 0xff && this.data[this.offset + 1] >= 0xd0 && this.data[this.offset + 1] <= 0xd7) {
+        this.offset += 2;
+        return;
+      }
+      this.offset++;
+    }
+  }
+}
+
+/** 부호 비트 확장 (JPEG F.12) */
+function extend(value: number, length: number): number {
+  return length === 0 ? 0 : value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+}
+
+/** 블록 1개: DC 차분을 누적하고 AC 63개는 건너뜀 */
+function decodeBlock(reader: BitReader, component: Component, blockIndex: number, quant: Uint16Array): void {
+  const size = reader.decode(component.dcTable!);
+  component.pred += extend(reader.receive(size), size);
+  component.dc[blockIndex] = (component.pred * quant[0]) / 8 + 128;
+
+  for (let k = 1; k < 64; ) {
+    const rs = reader.decode(component.acTable!);
+    const run = rs >> 4;
+    const bits = rs & 15;
+    if (bits === 0) {
+      if (run !== 15) break;
+      k += 16;
+      continue;
+    }
+    reader.receive(bits);
+    k += run + 1;
+  }
+}
+
+// ─── 디코딩 ───────────────────────────────────────────────────────────────────
+
+/** JPEG 바이트 → 8×8 블록 평균색 이미지 */
+export function decodeJpegBlocks(data: Uint8Array): BlockImage {
+  if (data[0] !== 0xff || data[1] !== 0xd8) throw new JpegError("JPEG 파일이 아닙니다.", "INVALID");
+
+  const quantTables: Uint16Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let components: Component[] = [];
+  let width = 0;
+  let height = 0;
+  let maxH = 1;
+  let maxV = 1;
+  let mcusPerLine = 0;
+  let mcusPerColumn = 0;
+  let restartInterval = 0;
+  let scanned = false;
+
+  let offset = 2;
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xff) throw new JpegError("마커 위치가 올바르지 않습니다.", "INVALID");
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xd9) break;
+    const length = (data[offset + 2] << 8) | data[offset + 3];
+    const segment = data.subarray(offset + 4, offset + 2 + length);
+    if (segment.length !== length - 2) throw new JpegError("JPEG 데이터가 잘렸습니다.", "INVALID");
+
+    switch (marker) {
+      case 0xdb: {
+        // DQT: 양자화 표 (DC 값은 지그재그 순서에서도 첫 항목)
+        for (let p = 0; p < segment.length; ) {
+          const precision = segment[p] >> 4;
+          const id = segment[p] & 15;
+          const table = new Uint16Array(64);
+          for (let i = 0; i < 64; i++) {
+            table[i] = precision ? (segment[p + 1 + i * 2] << 8) | segment[p + 2 + i * 2] : segment[p + 1 + i];
+          }
+          quantTables[id] = table;
+          p += 1 + 64 * (precision ? 2 : 1);
+        }
+        break;
+      }
+      case 0xc4: {
+        // DHT: 허프만 표
+        for (let p = 0; p < segment.length; ) {
+          const tableClass = segment[p] >> 4;
+          const id = segment[p] & 15;
+          const counts = segment.subarray(p + 1, p + 17);
+          const total = counts.reduce((sum, c) => sum + c, 0);
+          const table = buildHuffmanTable(counts, segment.slice(p + 17, p + 17 + total));
+          (tableClass === 0 ? dcTables : acTables)[id] = table;
+          p += 17 + total;
+        }
+        break;
+      }
+      case 0xc0:
+      case 0xc1: {
+        height = (segment[1] << 8) | segment[2];
+        width = (segment[3] << 8) | segment[4];
+        if (width === 0 || height === 0) throw new JpegError("이미지 크기가 없습니다.", "UNSUPPORTED");
+        components = [];
+        for (let i = 0; i < segment[5]; i++) {
+          const base = 6 + i * 3;
+          components.push({
+            id: segment[base],
+            h: segment[base + 1] >> 4,
+            v: segment[base + 1] & 15,
+            quantId: segment[base + 2],
+            blocksPerLine: 0,
+            blocksPerColumn: 0,
+            dc: new Float32Array(0),
+            pred: 0,
+          });
+        }
+        maxH = Math.max(...components.map((c) => c.h));
+        maxV = Math.max(...components.map((c) => c.v));
+        mcusPerLine = Math.ceil(width / (8 * maxH));
+        mcusPerColumn = Math.ceil(height / (8 * maxV));
+        for (const c of components) {
+          c.blocksPerLine = mcusPerLine * c.h;
+          c.blocksPerColumn = mcusPerColumn * c.v;
+          c.dc = new Float32Array(c.blocksPerLine * c.blocksPerColumn);
+        }
+        break;
+      }
+      case 0xc2:
+      case 0xc3:
+      case 0xc5:
+      case 0xc6:
+      case 0xc7:
+      case 0xc9:
+      case 0xca:
+      case 0xcb:
+      case 0xcd:
+      case 0xce:
+      case 0xcf:
+        throw new JpegError("베이스라인이 아닌 JPEG(프로그레시브 등)는 지원하지 않습니다.", "UNSUPPORTED");
+      case 0xdd:
+        restartInterval = (segment[0] << 8) | segment[1];
+        break;
+      case 0xda: {
+        if (components.length === 0) throw new JpegError("프레임 헤더가 없습니다.", "INVALID");
+        const scanComponents = Array.from({ length: segment[0] }, (_, i) => {
+          const component = components.find((c) => c.id === segment[1 + i * 2]);
+          if (!component) throw new JpegError("알 수 없는 컴포넌트입니다.", "INVALID");
+          component.dcTable = dcTables[segment[2 + i * 2] >> 4];
+          component.acTable = acTables[segment[2 + i * 2] & 15];
+          if (!component.dcTable || !component.acTable || !quantTables[component.quantId]) {
+            throw new JpegError("허프만·양자화 표가 없습니다.", "INVALID");
+          }
+          component.pred = 0;
+          return component;
+        });
+        const reader = new BitReader(data, offset + 2 + length);
+        decodeScan(reader, scanComponents, quantTables, restartInterval, { width, height, maxH, maxV, mcusPerLine, mcusPerColumn });
+        scanned = true;
+        offset = skipEntropyData(data, reader.offset);
+        continue;
+      }
+    }
+    offset += 2 + length;
+  }
+
+  if (!scanned) throw new JpegError("이미지 데이터가 없습니다.", "INVALID");
+  return toBlockImage(components, width, height, maxH, maxV);
+}
+
+interface FrameGeometry {
+  width: number;
+  height: number;
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+}
+
+function decodeScan(
+  reader: BitReader,
+  scanComponents: Component[],
+  quantTables: Uint16Array[],
+  restartInterval: number,
+  frame: FrameGeometry
+): void {
+  // 컴포넌트 1개 스캔은 MCU 대신 그 컴포넌트의 실제 블록 격자 순서 (JPEG A.2.2)
+  const single = scanComponents.length === 1 ? scanComponents[0] : null;
+  const mcusPerLine = single
+    ? Math.ceil(Math.ceil((frame.width * single.h) / frame.maxH) / 8)
+    : frame.mcusPerLine;
+  const mcusPerColumn = single
+    ? Math.ceil(Math.ceil((frame.height * single.v) / frame.maxV) / 8)
+    : frame.mcusPerColumn;
+  const total = mcusPerLine * mcusPerColumn;
+
+  for (let mcu = 0; mcu < total; mcu++) {
+    if (restartInterval > 0 && mcu > 0 && mcu % restartInterval === 0) {
+      reader.restart();
+      for (const c of scanComponents) c.pred = 0;
+    }
+    const mcuRow = Math.floor(mcu / mcusPerLine);
+    const mcuCol = mcu % mcusPerLine;
+    if (single) {
+      decodeBlock(reader, single, mcuRow * single.blocksPerLine + mcuCol, quantTables[single.quantId]);
+      continue;
+    }
+    for (const c of scanComponents) {
+      for (let v = 0; v < c.v; v++) {
+        for (let h = 0; h < c.h; h++) {
+          const index = (mcuRow * c.v + v) * c.blocksPerLine + mcuCol * c.h + h;
+          decodeBlock(reader, c, index, quantTables[c.quantId]);
+        }
+      }
+    }
+  }
+}
+
+/** 스캔 뒤 다음 마커까지 이동 (스터핑 0xFF00과 RSTn은 데이터로 취급) */
+function skipEntropyData(data: Uint8Array, offset: number): number {
+  while (offset + 1 < data.length) {
+    if (data[offset] === 0xff) {
+      const next = data[offset + 1];
+      if (next !== 0x00 && next !== 0xff && (next < 0xd0 || next > 0xd7)) return offset;
+    }
+    offset++;
+  }
+  return data.length;
+}
+
+/** 컴포넌트별 블록 평균 → 원본 크기 기준 블록 격자 RGB */
+function toBlockImage(
+  components: Component[],
+  width: number,
+  height: number,
+  maxH: number,
+  maxV: number
+): BlockImage {
+  const columns = Math.ceil(width / 8);
+  const rows = Math.ceil(height / 8);
+  const rgb = new Uint8ClampedArray(columns * rows * 3);
+  const sample = (c: Component, x: number, y: number) =>
+    c.dc[Math.floor((y * c.v) / maxV) * c.blocksPerLine + Math.floor((x * c.h) / maxH)];
+
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < columns; x++) {
+      const i = (y * columns + x) * 3;
+      const luma = sample(components[0], x, y);
+      if (components.length < 3) {
+        rgb[i] = rgb[i + 1] = rgb[i + 2] = luma;
+        continue;
+      }
+      const cb = sample(components[1], x, y) - 128;
+      const cr = sample(components[2], x, y) - 128;
+      rgb[i] = luma + 1.402 * cr;
+      rgb[i + 1] = luma - 0.344136 * cb - 0.714136 * cr;
+      rgb[i + 2] = luma + 1.772 * cb;
+    }
+  }
+  return { width, height, columns, rows, rgb };
+}
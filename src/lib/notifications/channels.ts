@@ -0,0 +1,232 @@
+/**
+ * channels.ts
+ * 알림 채널 — 일반 JSON 웹훅, Slack·Discord 호환 웹훅, SMTP 이메일
+ * - 채널 종류별 대상(URL·이메일 주소) 검증과 메시지 본문 생성만 담당 (전송은 delivery.ts)
+ * - 웹훅 URL은 그 자체로 비밀 값이므로 목록 응답에는 가린 값만 내려줌
+ * - 웹훅은 https만, 로컬·사설망·클라우드 메타데이터 주소는 거부 (서버가 내부망으로 요청을 보내지 않도록)
+ */
+
+import { METRIC_LABELS, type NotificationEvent, type RuleMetric } from "./rules";
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+export const CHANNEL_KINDS = ["webhook", "slack", "discord", "email"] as const;
+
+/** Slack 블록·Discord 임베드 최대 개수 — 나머지는 요약 문구에 개수만 표시 */
+export const MAX_MESSAGE_ITEMS = 10;
+
+const EMAIL_PATTERN = /^[^\s@<>,;"]+@[^\s@<>,;"]+\.[^\s@<>,;"]+$/;
+
+/** 웹훅으로 허용하지 않는 호스트 이름 (메타데이터 서버 포함) */
+const BLOCKED_HOSTNAMES = ["localhost", "metadata", "metadata.google.internal"];
+const BLOCKED_HOST_SUFFIXES = [".localhost", ".local", ".internal"];
+
+// ─── 타입 ─────────────────────────────────────────────────────────────────────
+
+export type NotificationChannelKind = (typeof CHANNEL_KINDS)[number];
+
+export interface NotificationChannel {
+  id: string;
+  createdAt: string;
+  kind: NotificationChannelKind;
+  name: string;
+  /** 웹훅 URL 또는 받는 사람 이메일 주소 */
+  target: string;
+}
+
+/** 한 번에 보내는 알림 — 같은 채널로 가는 이벤트를 규칙 이름과 함께 묶음 */
+export interface NotificationAlert {
+  ruleName: string;
+  event: NotificationEvent;
+}
+
+export interface EmailMessage {
+  subject: string;
+  text: string;
+}
+
+// ─── 검증 ─────────────────────────────────────────────────────────────────────
+
+export function isChannelKind(value: unknown): value is NotificationChannelKind {
+  return CHANNEL_KINDS.includes(value as NotificationChannelKind);
+}
+
+function parseIPv4(host: string): number[] | null {
+  const parts = host.split(".");
+  if (parts.length !== 4 || !parts.every((p) => /^\d{1,3}$/.test(p) && Number(p) <= 255)) return null;
+  return parts.map(Number);
+}
+
+/** 0/8, 10/8, 100.64/10, 127/8, 169.254/16(메타데이터), 172.16/12, 192.168/16, 198.18/15, 멀티캐스트·예약 */
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19))
+  );
+}
+
+/** URL 파서가 정규화한 IPv6 주소 → 16비트 그룹 8개 */
+function parseIPv6(host: string): number[] | null {
+  if (!host.includes(":")) return null;
+  const halves = host.split("::");
+  if (halves.length > 2) return null;
+  const groups = (part: string) => (part ? part.split(":").map((g) => parseInt(g, 16)) : []);
+  const head = groups(halves[0]);
+  const tail = halves.length === 2 ? groups(halves[1]) : [];
+  const fill = 8 - head.length - tail.length;
+  if (halves.length === 2 ? fill < 0 : fill !== 0) return null;
+  const all = [...head, ...Array<number>(fill).fill(0), ...tail];
+  return all.every((g) => Number.isInteger(g) && g >= 0 && g <= 0xffff) ? all : null;
+}
+
+/** ::, ::1, IPv4 매핑 주소(::ffff:a.b.c.d), fc00::/7(ULA·AWS 메타데이터), fe80::/10, 멀티캐스트 */
+function isPrivateIPv6(groups: number[]): boolean {
+  if (groups.slice(0, 7).every((g) => g === 0)) return groups[7] <= 1;
+  if (groups.slice(0, 5).every((g) => g === 0) && groups[5] === 0xffff) {
+    return isPrivateIPv4([groups[6] >> 8, groups[6] & 0xff]);
+  }
+  return (groups[0] & 0xfe00) === 0xfc00 || (groups[0] & 0xffc0) === 0xfe80 || (groups[0] & 0xff00) === 0xff00;
+}
+
+/** 로컬·사설망·메타데이터 호스트 여부 (URL.hostname 기준 — IP 표기는 URL 파서가 정규화) */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  if (BLOCKED_HOSTNAMES.includes(host) || BLOCKED_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix))) {
+    return true;
+  }
+  const ipv4 = parseIPv4(host);
+  if (ipv4) return isPrivateIPv4(ipv4);
+  const ipv6 = parseIPv6(host);
+  return ipv6 ? isPrivateIPv6(ipv6) : false;
+}
+
+/**
+ * 채널 대상 검증
+ * - webhook·slack·discord: https URL, 로컬·사설망·메타데이터 호스트 거부
+ * @returns 오류 메시지, 올바르면 null
+ */
+export function validateChannelTarget(kind: NotificationChannelKind, target: string): string | null {
+  if (kind === "email") {
+    return EMAIL_PATTERN.test(target) ? null : "올바른 이메일 주소를 입력해 주세요.";
+  }
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    return "올바른 웹훅 URL을 입력해 주세요.";
+  }
+  if (url.protocol !== "https:") return "웹훅 URL은 https:로 시작해야 합니다.";
+  if (isPrivateHost(url.hostname)) return "로컬·내부망 주소로는 웹훅을 보낼 수 없습니다.";
+  return null;
+}
+
+/** 목록 표시용 — URL은 호스트와 끝 4자리만, 이메일은 그대로 */
+export function maskChannelTarget(channel: Pick<NotificationChannel, "kind" | "target">): string {
+  if (channel.kind === "email") return channel.target;
+  try {
+    const url = new URL(channel.target);
+    return `${url.origin}/…${channel.target.slice(-4)}`;
+  } catch {
+    return "…";
+  }
+}
+
+// ─── 메시지 ───────────────────────────────────────────────────────────────────
+
+export function videoUrl(videoId: string): string {
+  return `https://www.youtube.com/watch?v=${videoId}`;
+}
+
+function describeEvent(event: NotificationEvent): string {
+  if (event.source === "watchlist") return "워치리스트";
+  return `저장된 검색 "${event.keyword}" · ${event.kind === "new" ? "새 영상" : "성과도 상승"}`;
+}
+
+function formatMetrics(metrics: NotificationEvent["metrics"]): string {
+  return (Object.entries(metrics) as [RuleMetric, number | null][])
+    .filter(([, value]) => value !== null)
+    .map(([metric, value]) => `${METRIC_LABELS[metric]} ${value!.toLocaleString("en-US")}`)
+    .join(" · ");
+}
+
+export function summarizeAlerts(alerts: NotificationAlert[]): string {
+  const first = alerts[0]?.event.video.title ?? "";
+  return alerts.length > 1 ? `알림 ${alerts.length}건: ${first} 외 ${alerts.length - 1}건` : `알림: ${first}`;
+}
+
+/** 일반 JSON 웹훅 본문 */
+export function buildWebhookPayload(alerts: NotificationAlert[], now = new Date()) {
+  return {
+    type: "alerts",
+    sentAt: now.toISOString(),
+    alerts: alerts.map(({ ruleName, event }) => ({
+      rule: ruleName,
+      source: event.source,
+      kind: event.kind,
+      keyword: event.keyword,
+      video: { ...event.video, url: videoUrl(event.video.id) },
+      metrics: event.metrics,
+    })),
+  };
+}
+
+/** Slack mrkdwn 특수 문자 */
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/** Slack Incoming Webhook 본문 (text는 알림 미리보기, blocks는 영상별 섹션) */
+export function buildSlackPayload(alerts: NotificationAlert[]) {
+  return {
+    text: escapeSlack(summarizeAlerts(alerts)),
+    blocks: alerts.slice(0, MAX_MESSAGE_ITEMS).map(({ ruleName, event }) => ({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: [
+          `*<${videoUrl(event.video.id)}|${escapeSlack(event.video.title)}>*`,
+          `${escapeSlack(event.video.channelTitle)} · ${escapeSlack(describeEvent(event))}`,
+          `${escapeSlack(formatMetrics(event.metrics))} · 규칙: ${escapeSlack(ruleName)}`,
+        ].join("\n"),
+      },
+      accessory: { type: "image", image_url: event.video.thumbnail, alt_text: "thumbnail" },
+    })),
+  };
+}
+
+/** Discord 웹훅 본문 (content 2000자, 임베드 제목 256자 제한) */
+export function buildDiscordPayload(alerts: NotificationAlert[]) {
+  return {
+    content: summarizeAlerts(alerts).slice(0, 2000),
+    embeds: alerts.slice(0, MAX_MESSAGE_ITEMS).map(({ ruleName, event }) => ({
+      title: event.video.title.slice(0, 256),
+      url: videoUrl(event.video.id),
+      description: `${event.video.channelTitle} · ${describeEvent(event)}\n${formatMetrics(event.metrics)}`,
+      thumbnail: { url: event.video.thumbnail },
+      footer: { text: `규칙: ${ruleName}` },
+    })),
+  };
+}
+
+/** 이메일 제목·본문 (일반 텍스트) */
+export function buildEmailMessage(alerts: NotificationAlert[]): EmailMessage {
+  const text = alerts
+    .map(({ ruleName, event }) =>
+      [
+        event.video.title,
+        `${event.video.channelTitle} · ${describeEvent(event)}`,
+        formatMetrics(event.metrics),
+        `규칙: ${ruleName}`,
+        videoUrl(event.video.id),
+      ].join("\n")
+    )
+    .join("\n\n");
+  return { subject: `[찌동튜브] ${summarizeAlerts(alerts)}`, text };
+}
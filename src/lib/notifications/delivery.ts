@@ -0,0 +1,129 @@
+/**
+ * delivery.ts
+ * 알림 채널로 전송 — 실패하면 지수 백오프로 재시도
+ * - 웹훅: 연결 오류·시간 초과·429·5xx는 재시도, 그 외 4xx는 설정 오류로 보고 바로 실패
+ * - 429·503의 Retry-After(초)가 있으면 그만큼 기다림 (MAX_RETRY_DELAY_MS까지)
+ * - 이메일: SMTP 4xx·연결 오류는 재시도, 5xx는 바로 실패
+ */
+
+import {
+  buildDiscordPayload,
+  buildEmailMessage,
+  buildSlackPayload,
+  buildWebhookPayload,
+  type NotificationAlert,
+  type NotificationChannel,
+} from "./channels";
+import { SmtpError, sendMail, smtpConfigFromEnv } from "./smtp";
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+/** 첫 시도 포함 최대 시도 횟수 */
+export const DELIVERY_ATTEMPTS = 3;
+/** 재시도 대기: 2초 → 4초 → … */
+export const RETRY_BASE_DELAY_MS = 2_000;
+export const MAX_RETRY_DELAY_MS = 30_000;
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// ─── 타입 ─────────────────────────────────────────────────────────────────────
+
+export type Sleep = (ms: number) => Promise<void>;
+
+export interface DeliveryResult {
+  ok: boolean;
+  attempts: number;
+  /** 마지막 실패 사유 */
+  error: string | null;
+}
+
+type AttemptResult = { ok: true } | { ok: false; retryable: boolean; error: string; retryAfterMs?: number };
+
+export const defaultSleep: Sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// ─── 재시도 ───────────────────────────────────────────────────────────────────
+
+/**
+ * n번째 시도 실패 후 대기 시간
+ * @param retryAfterMs 서버가 알려준 대기 시간 (있으면 우선)
+ */
+export function retryDelay(attempt: number, retryAfterMs?: number): number {
+  const delay = retryAfterMs ?? RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header || !/^\d+$/.test(header.trim())) return undefined;
+  return parseInt(header) * 1000;
+}
+
+// ─── 채널별 전송 ──────────────────────────────────────────────────────────────
+
+async function postJson(url: string, body: unknown): Promise<AttemptResult> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+  } catch (err) {
+    const message = err instanceof Error && err.name === "TimeoutError" ? "응답 시간 초과" : "연결 실패";
+    return { ok: false, retryable: true, error: `웹훅 ${message}` };
+  }
+  // 응답 본문은 쓰지 않지만 연결을 정리하기 위해 소비
+  await res.body?.cancel().catch(() => undefined);
+  if (res.ok) return { ok: true };
+  return {
+    ok: false,
+    retryable: res.status === 429 || res.status >= 500,
+    error: `웹훅 응답 ${res.status}`,
+    retryAfterMs: parseRetryAfter(res.headers.get("retry-after")),
+  };
+}
+
+async function sendEmail(to: string, alerts: NotificationAlert[], now: Date): Promise<AttemptResult> {
+  const config = smtpConfigFromEnv();
+  if (!config) return { ok: false, retryable: false, error: "SMTP 서버가 설정되지 않았습니다. (SMTP_HOST)" };
+  try {
+    await sendMail(config, { to, ...buildEmailMessage(alerts) }, now);
+    return { ok: true };
+  } catch (err) {
+    if (!(err instanceof SmtpError)) throw err;
+    return { ok: false, retryable: err.retryable, error: err.message };
+  }
+}
+
+function attempt(channel: NotificationChannel, alerts: NotificationAlert[], now: Date): Promise<AttemptResult> {
+  switch (channel.kind) {
+    case "webhook":
+      return postJson(channel.target, buildWebhookPayload(alerts, now));
+    case "slack":
+      return postJson(channel.target, buildSlackPayload(alerts));
+    case "discord":
+      return postJson(channel.target, buildDiscordPayload(alerts));
+    case "email":
+      return sendEmail(channel.target, alerts, now);
+  }
+}
+
+// ─── 공개 API ─────────────────────────────────────────────────────────────────
+
+/** 채널 1곳에 알림 묶음 전송 (재시도 포함) */
+export async function deliver(
+  channel: NotificationChannel,
+  alerts: NotificationAlert[],
+  options: { now?: Date; sleep?: Sleep } = {}
+): Promise<DeliveryResult> {
+  const now = options.now ?? new Date();
+  const sleep = options.sleep ?? defaultSleep;
+  let error: string | null = null;
+  for (let n = 1; n <= DELIVERY_ATTEMPTS; n++) {
+    const result = await attempt(channel, alerts, now);
+    if (result.ok) return { ok: true, attempts: n, error: null };
+    error = result.error;
+    if (!result.retryable || n === DELIVERY_ATTEMPTS) return { ok: false, attempts: n, error };
+    await sleep(retryDelay(n, result.retryAfterMs));
+  }
+  return { ok: false, attempts: DELIVERY_ATTEMPTS, error };
+}
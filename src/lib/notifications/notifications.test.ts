@@ -0,0 +1,316 @@
+import os from "node:os";
+import path from "node:path";
+import http from "node:http";
+import net from "node:net";
+import type { AddressInfo } from "node:net";
+import { promises as fs } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createChannel,
+  createRule,
+  deleteChannel,
+  dispatchNotifications,
+  getNotificationSettings,
+  sendTestNotification,
+} from "./notifications";
+import { parseRuleExpression, type NotificationEvent, type RuleCondition } from "./rules";
+import { retryDelay } from "./delivery";
+import { validateChannelTarget } from "./channels";
+
+// ─── 로컬 수신 서버 ───────────────────────────────────────────────────────────
+
+interface HttpSink {
+  url: string;
+  requests: { path: string; body: unknown }[];
+  /** 요청마다 돌려줄 상태 코드 (다 쓰면 200) */
+  statuses: number[];
+  close: () => Promise<void>;
+}
+
+async function startHttpSink(): Promise<HttpSink> {
+  const sink = { requests: [], statuses: [] } as unknown as HttpSink;
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      sink.requests.push({ path: req.url ?? "", body: JSON.parse(raw) });
+      res.writeHead(sink.statuses.shift() ?? 200).end("ok");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  sink.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  sink.close = () => new Promise((resolve) => server.close(() => resolve()));
+  return sink;
+}
+
+/** 받은 명령과 DATA 본문을 기록하는 SMTP 서버 (rcptCode로 수신자 거부 흉내) */
+async function startSmtpSink(rcptCode = 250) {
+  const received: { commands: string[]; data: string }[] = [];
+  const server = net.createServer((socket) => {
+    const session = { commands: [] as string[], data: "" };
+    received.push(session);
+    let buffer = "";
+    let inData = false;
+    socket.write("220 sink ESMTP\r\n");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      let index: number;
+      while ((index = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            socket.write("250 queued\r\n");
+          } else {
+            session.data += `${line}\n`;
+          }
+          continue;
+        }
+        session.commands.push(line);
+        if (line.startsWith("EHLO")) socket.write("250-sink\r\n250 AUTH PLAIN\r\n");
+        else if (line.startsWith("RCPT")) socket.write(`${rcptCode} rcpt\r\n`);
+        else if (line === "DATA") {
+          inData = true;
+          socket.write("354 go\r\n");
+        } else if (line === "QUIT") socket.end("221 bye\r\n");
+        else if (line.startsWith("AUTH")) socket.write("235 ok\r\n");
+        else socket.write("250 ok\r\n");
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return {
+    port: (server.address() as AddressInfo).port,
+    received,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+// ─── 헬퍼 ─────────────────────────────────────────────────────────────────────
+
+function conditions(expression: string): RuleCondition[] {
+  const parsed = parseRuleExpression(expression);
+  if ("error" in parsed) throw new Error(parsed.error);
+  return parsed.conditions;
+}
+
+function event(id: string, performanceScore: number, viewsPerDay: number): NotificationEvent {
+  return {
+    source: "savedSearch",
+    kind: "new",
+    keyword: "캠핑",
+    video: {
+      id,
+      title: `영상 ${id}`,
+      thumbnail: `https://i.ytimg.com/vi/${id}/hqdefault.jpg`,
+      channelId: "c1",
+      channelTitle: "채널",
+      publishedAt: "2026-10-01T00:00:00Z",
+    },
+    metrics: { performanceScore, views: viewsPerDay * 10, viewsPerDay, subscribers: 1_000, ratio: 50 },
+  };
+}
+
+const noSleep = vi.fn(async () => {});
+let dataDir: string;
+let sink: HttpSink;
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "yt-notify-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+  noSleep.mockClear();
+  sink = await startHttpSink();
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await sink.close();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+// ─── 테스트 ───────────────────────────────────────────────────────────────────
+
+describe("retryDelay", () => {
+  it("지수 백오프, Retry-After 우선, 상한 30초", () => {
+    expect([1, 2, 3].map((n) => retryDelay(n))).toEqual([2_000, 4_000, 8_000]);
+    expect(retryDelay(1, 5_000)).toBe(5_000);
+    expect(retryDelay(10)).toBe(30_000);
+  });
+});
+
+describe("dispatchNotifications", () => {
+  it("규칙에 맞는 영상만 채널별로 묶어 전송, 같은 알림은 다시 보내지 않음", async () => {
+    const hook = await createChannel("u1", { kind: "webhook", name: "수신", target: `${sink.url}/hook` });
+    const slack = await createChannel("u1", { kind: "slack", name: "팀", target: `${sink.url}/slack` });
+    await createRule("u1", {
+      name: "Excellent",
+      conditions: conditions("performanceScore >= 4 and views/day > 10k"),
+      source: "any",
+      channelIds: [hook!.id],
+    });
+    await createRule("u1", {
+      name: "최고",
+      conditions: conditions("performanceScore >= 5"),
+      source: "savedSearch",
+      channelIds: [hook!.id, slack!.id],
+    });
+
+    const events = [event("a", 5, 20_000), event("b", 4, 5_000), event("c", 3, 50_000)];
+    const result = await dispatchNotifications("u1", events, { sleep: noSleep });
+    expect(result).toEqual({ sent: 2, failed: 0 });
+
+    const hookBody = sink.requests.find((r) => r.path === "/hook")!.body as { alerts: { video: { id: string; url: string } }[] };
+    expect(hookBody.alerts.map((a) => a.video.id)).toEqual(["a"]);
+    expect(hookBody.alerts[0].video.url).toBe("https://www.youtube.com/watch?v=a");
+    const slackBody = sink.requests.find((r) => r.path === "/slack")!.body as { text: string; blocks: unknown[] };
+    expect(slackBody.text).toContain("영상 a");
+    expect(slackBody.blocks).toHaveLength(1);
+
+    // 재알림 간격 안에는 다시 보내지 않음
+    expect(await dispatchNotifications("u1", events, { sleep: noSleep })).toEqual({ sent: 0, failed: 0 });
+    expect(sink.requests).toHaveLength(2);
+
+    const { log, channels } = await getNotificationSettings("u1");
+    expect(log.map((l) => [l.channelName, l.status, l.attempts])).toEqual(
+      expect.arrayContaining([
+        ["수신", "sent", 1],
+        ["팀", "sent", 1],
+      ])
+    );
+    expect(channels[0].target).toBe(`${sink.url}/…hook`);
+  });
+
+  it("5xx는 백오프 후 재시도, 4xx는 바로 실패하고 기록", async () => {
+    const hook = await createChannel("u1", { kind: "discord", name: "디스코드", target: `${sink.url}/discord` });
+    await createRule("u1", {
+      name: "전체",
+      conditions: conditions("views > 0"),
+      source: "any",
+      channelIds: [hook!.id],
+    });
+
+    sink.statuses.push(503, 500);
+    expect(await dispatchNotifications("u1", [event("a", 5, 1)], { sleep: noSleep })).toEqual({ sent: 1, failed: 0 });
+    expect(sink.requests).toHaveLength(3);
+    expect(noSleep.mock.calls).toEqual([[2_000], [4_000]]);
+    expect((sink.requests[2].body as { embeds: { url: string }[] }).embeds[0].url).toContain("v=a");
+
+    sink.statuses.push(404);
+    expect(await dispatchNotifications("u1", [event("b", 5, 1)], { sleep: noSleep })).toEqual({ sent: 0, failed: 1 });
+    expect(sink.requests).toHaveLength(4);
+
+    const [failed, sent] = (await getNotificationSettings("u1")).log;
+    expect(failed).toMatchObject({ status: "failed", attempts: 1, error: "웹훅 응답 404" });
+    expect(sent).toMatchObject({ status: "sent", attempts: 3, alerts: 1 });
+
+    // 실패한 알림은 다음 실행에서 다시 시도
+    expect(await dispatchNotifications("u1", [event("b", 5, 1)], { sleep: noSleep })).toEqual({ sent: 1, failed: 0 });
+  });
+
+  it("채널을 삭제하면 규칙의 대상에서도 빠짐", async () => {
+    const hook = await createChannel("u1", { kind: "webhook", name: "수신", target: sink.url });
+    await createRule("u1", { name: "r", conditions: conditions("views > 0"), source: "any", channelIds: [hook!.id] });
+    expect(await deleteChannel("u1", hook!.id)).toBe(true);
+    expect((await getNotificationSettings("u1")).rules[0].channelIds).toEqual([]);
+    expect(await dispatchNotifications("u1", [event("a", 5, 1)])).toEqual({ sent: 0, failed: 0 });
+  });
+});
+
+describe("이메일 채널", () => {
+  it("SMTP 서버로 UTF-8 제목·본문 전송", async () => {
+    const smtp = await startSmtpSink();
+    vi.stubEnv("SMTP_HOST", "127.0.0.1");
+    vi.stubEnv("SMTP_PORT", String(smtp.port));
+    vi.stubEnv("SMTP_FROM", "alerts@example.com");
+    try {
+      const mail = await createChannel("u1", { kind: "email", name: "메일", target: "me@example.com" });
+      const entry = await sendTestNotification("u1", mail!.id, { sleep: noSleep });
+      expect(entry).toMatchObject({ status: "sent", attempts: 1, test: true });
+
+      const [session] = smtp.received;
+      expect(session.commands).toEqual([
+        "EHLO localhost",
+        "MAIL FROM:<alerts@example.com>",
+        "RCPT TO:<me@example.com>",
+        "DATA",
+        "QUIT",
+      ]);
+      const [headers, body] = session.data.split("\n\n");
+      const subject = /^Subject: =\?UTF-8\?B\?(.+)\?=$/m.exec(headers)![1];
+      expect(Buffer.from(subject, "base64").toString("utf8")).toBe("[찌동튜브] 알림: 테스트 알림입니다");
+      expect(Buffer.from(body.replace(/\n/g, ""), "base64").toString("utf8")).toContain(
+        "https://www.youtube.com/watch?v=test"
+      );
+    } finally {
+      await smtp.close();
+    }
+  });
+
+  it("TLS 없는 연결에서는 인증 정보를 보내지 않고 바로 실패", async () => {
+    const smtp = await startSmtpSink();
+    vi.stubEnv("SMTP_HOST", "127.0.0.1");
+    vi.stubEnv("SMTP_PORT", String(smtp.port));
+    vi.stubEnv("SMTP_FROM", "alerts@example.com");
+    vi.stubEnv("SMTP_USER", "user");
+    vi.stubEnv("SMTP_PASS", "pass");
+    try {
+      const mail = await createChannel("u1", { kind: "email", name: "메일", target: "me@example.com" });
+      const entry = await sendTestNotification("u1", mail!.id, { sleep: noSleep });
+      expect(entry).toMatchObject({ status: "failed", attempts: 1 });
+      expect(entry?.error).toContain("TLS");
+      expect(smtp.received.flatMap((session) => session.commands)).toEqual(["EHLO localhost"]);
+    } finally {
+      await smtp.close();
+    }
+  });
+
+  it("수신자 영구 거부(5xx)는 재시도하지 않음", async () => {
+    const smtp = await startSmtpSink(550);
+    vi.stubEnv("SMTP_HOST", "127.0.0.1");
+    vi.stubEnv("SMTP_PORT", String(smtp.port));
+    vi.stubEnv("SMTP_FROM", "alerts@example.com");
+    try {
+      const mail = await createChannel("u1", { kind: "email", name: "메일", target: "nobody@example.com" });
+      const entry = await sendTestNotification("u1", mail!.id, { sleep: noSleep });
+      expect(entry).toMatchObject({ status: "failed", attempts: 1 });
+      expect(entry?.error).toContain("550");
+      expect(smtp.received).toHaveLength(1);
+    } finally {
+      await smtp.close();
+    }
+  });
+});
+
+describe("validateChannelTarget", () => {
+  it.each([
+    ["webhook", "https://example.com/hooks/youtube"],
+    ["slack", "https://hooks.slack.com/services/T/B/X"],
+    ["discord", "https://discord.com/api/webhooks/1/abc"],
+    ["webhook", "https://8.8.8.8/hook"],
+    ["email", "me@example.com"],
+  ] as const)("%s %s 허용", (kind, target) => {
+    expect(validateChannelTarget(kind, target)).toBeNull();
+  });
+
+  it.each([
+    "http://example.com/hook",
+    "https://localhost/hook",
+    "https://api.localhost/hook",
+    "https://127.0.0.1/hook",
+    "https://2130706433/hook",
+    "https://0x7f.1/hook",
+    "https://10.0.0.5/hook",
+    "https://172.16.3.4/hook",
+    "https://192.168.0.10/hook",
+    "https://169.254.169.254/latest/meta-data",
+    "https://metadata.google.internal/computeMetadata/v1",
+    "https://printer.local/hook",
+    "https://[::1]/hook",
+    "https://[::ffff:127.0.0.1]/hook",
+    "https://[fd00:ec2::254]/hook",
+    "https://[fe80::1]/hook",
+  ])("웹훅 %s 거부", (target) => {
+    expect(validateChannelTarget("webhook", target)).not.toBeNull();
+  });
+});
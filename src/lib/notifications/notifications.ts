@@ -0,0 +1,395 @@
+/**
+ * notifications.ts
+ * 사용자별 알림 설정(채널·규칙)과 전송 기록
+ * - 저장된 검색 주기 실행·워치리스트 스냅샷 수집이 만든 이벤트를 규칙에 맞춰 채널별로 묶어 전송
+ * - 같은 규칙으로 같은 영상(같은 성과도)을 NOTIFY_COOLDOWN_MS 안에 다시 보내지 않음
+ *   (워치리스트는 매시간 수집하므로 조건을 계속 만족하는 동안 반복 알림이 가기 때문)
+ * - 전송 결과는 성공·실패 모두 기록 (최근 MAX_DELIVERY_LOG개)
+ */
+
+import { randomUUID } from "node:crypto";
+import { JsonStore } from "@/lib/store/jsonStore";
+import type { VideoResult } from "@/lib/youtube/analysis";
+import { listWatchlist, watchlistUserIds, type WatchlistItem } from "@/lib/watchlist/watchlist";
+import {
+  maskChannelTarget,
+  type NotificationAlert,
+  type NotificationChannel,
+  type NotificationChannelKind,
+} from "./channels";
+import { deliver, type Sleep } from "./delivery";
+import {
+  formatRuleConditions,
+  isRuleSource,
+  matchesRule,
+  parseRuleExpression,
+  type NotificationEvent,
+  type NotificationRule,
+} from "./rules";
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+/** 사용자당 채널 수 */
+export const MAX_CHANNELS = 10;
+/** 사용자당 규칙 수 */
+export const MAX_RULES = 20;
+/** 사용자당 보관 전송 기록 수 */
+export const MAX_DELIVERY_LOG = 100;
+/** 같은 규칙·영상 재알림 간격 */
+export const NOTIFY_COOLDOWN_MS = 7 * 24 * 60 * 60 * 1000;
+
+// ─── 타입 ─────────────────────────────────────────────────────────────────────
+
+/** 목록 응답용 — 웹훅 URL은 가림 */
+export type NotificationChannelSummary = NotificationChannel;
+
+export interface DeliveryLogEntry {
+  id: string;
+  at: string;
+  channelId: string;
+  channelKind: NotificationChannelKind;
+  channelName: string;
+  /** 전송한 알림을 만든 규칙 (테스트 전송은 빈 배열) */
+  ruleIds: string[];
+  alerts: number;
+  status: "sent" | "failed";
+  attempts: number;
+  error: string | null;
+  test: boolean;
+}
+
+export type NewNotificationRule = Pick<NotificationRule, "name" | "conditions" | "source" | "channelIds">;
+
+export interface DispatchOptions {
+  now?: Date;
+  /** 재시도 대기 (테스트에서 교체) */
+  sleep?: Sleep;
+}
+
+interface NotificationSettings {
+  channels: NotificationChannel[];
+  rules: NotificationRule[];
+}
+
+// ─── 저장소 ───────────────────────────────────────────────────────────────────
+
+const settingsStore = new JsonStore<Record<string, NotificationSettings>>("notifications.json", () => ({}));
+const logStore = new JsonStore<Record<string, DeliveryLogEntry[]>>("notificationLog.json", () => ({}));
+/** 사용자 → "규칙:영상:성과도" → 마지막 전송 시각 */
+const sentStore = new JsonStore<Record<string, Record<string, string>>>("notificationSent.json", () => ({}));
+
+function toSummary(channel: NotificationChannel): NotificationChannelSummary {
+  return { ...channel, target: maskChannelTarget(channel) };
+}
+
+function sentKey(rule: NotificationRule, event: NotificationEvent): string {
+  return `${rule.id}:${event.video.id}:${event.metrics.performanceScore ?? "-"}`;
+}
+
+async function appendLog(userId: string, entry: Omit<DeliveryLogEntry, "id">): Promise<DeliveryLogEntry> {
+  const created = { ...entry, id: randomUUID() };
+  await logStore.update((data) => {
+    const list = (data[userId] ??= []);
+    list.unshift(created);
+    list.splice(MAX_DELIVERY_LOG);
+  });
+  return created;
+}
+
+// ─── 이벤트 ───────────────────────────────────────────────────────────────────
+
+/** 저장된 검색 알림(새 영상·성과도 상승) → 알림 이벤트 */
+export function savedSearchEvent(
+  keyword: string,
+  kind: "new" | "upgraded",
+  video: VideoResult
+): NotificationEvent {
+  const { id, title, thumbnail, channelId, channelTitle, publishedAt } = video;
+  return {
+    source: "savedSearch",
+    kind,
+    keyword,
+    video: { id, title, thumbnail, channelId, channelTitle, publishedAt },
+    metrics: {
+      performanceScore: video.performanceScore.score,
+      views: video.viewCount,
+      viewsPerDay: video.viewsPerDay,
+      subscribers: video.subscriberCount,
+      ratio: video.viewToSubscriberRatio,
+    },
+  };
+}
+
+/**
+ * 워치리스트 영상 → 알림 이벤트
+ * views/day는 최근 24시간 실제 증가량 (24시간 이전 스냅샷이 없으면 null), 성과도·구독자는 모름
+ */
+export function watchlistEvent(item: WatchlistItem): NotificationEvent {
+  const { videoId: id, title, thumbnail, channelId, channelTitle, publishedAt } = item;
+  return {
+    source: "watchlist",
+    kind: "growth",
+    keyword: null,
+    video: { id, title, thumbnail, channelId, channelTitle, publishedAt },
+    metrics: {
+      performanceScore: null,
+      views: item.latest?.viewCount ?? null,
+      viewsPerDay: item.deltas["24h"]?.views ?? null,
+      subscribers: null,
+      ratio: null,
+    },
+  };
+}
+
+// ─── 설정 ─────────────────────────────────────────────────────────────────────
+
+export async function getNotificationSettings(userId: string): Promise<{
+  channels: NotificationChannelSummary[];
+  rules: NotificationRule[];
+  log: DeliveryLogEntry[];
+}> {
+  const [settings, log] = await Promise.all([settingsStore.read(), logStore.read()]);
+  const { channels = [], rules = [] } = settings[userId] ?? {};
+  return { channels: channels.map(toSummary), rules, log: log[userId] ?? [] };
+}
+
+/** @returns 추가한 채널, 개수 초과면 null */
+export async function createChannel(
+  userId: string,
+  input: Pick<NotificationChannel, "kind" | "name" | "target">
+): Promise<NotificationChannelSummary | null> {
+  const created = await settingsStore.update((data) => {
+    const settings = (data[userId] ??= { channels: [], rules: [] });
+    if (settings.channels.length >= MAX_CHANNELS) return null;
+    const channel: NotificationChannel = { ...input, id: randomUUID(), createdAt: new Date().toISOString() };
+    settings.channels.push(channel);
+    return channel;
+  });
+  return created && toSummary(created);
+}
+
+/** 채널 삭제 — 규칙의 대상 목록에서도 제거 */
+export async function deleteChannel(userId: string, channelId: string): Promise<boolean> {
+  return settingsStore.update((data) => {
+    const settings = data[userId];
+    if (!settings?.channels.some((c) => c.id === channelId)) return false;
+    settings.channels = settings.channels.filter((c) => c.id !== channelId);
+    for (const rule of settings.rules) {
+      rule.channelIds = rule.channelIds.filter((id) => id !== channelId);
+    }
+    return true;
+  });
+}
+
+/**
+ * 규칙 요청 본문 검증 — { name?, expression, source?, channelIds, enabled? }
+ * @param partial true면 보낸 필드만 검증 (수정)
+ */
+export async function parseRuleInput(
+  userId: string,
+  body: Record<string, unknown>,
+  partial: boolean
+): Promise<{ input: Partial<NewNotificationRule & Pick<NotificationRule, "enabled">> } | { error: string }> {
+  const input: Partial<NewNotificationRule & Pick<NotificationRule, "enabled">> = {};
+
+  if (!partial || body.expression !== undefined) {
+    const parsed = parseRuleExpression(typeof body.expression === "string" ? body.expression : "");
+    if ("error" in parsed) return parsed;
+    input.conditions = parsed.conditions;
+  }
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === "string" ? body.name.trim().slice(0, 50) : "";
+    input.name = name || formatRuleConditions(input.conditions ?? []);
+    if (!input.name) return { error: "규칙 이름을 입력해 주세요." };
+  }
+  if (body.source !== undefined || !partial) {
+    const source = body.source ?? "any";
+    if (!isRuleSource(source)) return { error: "알 수 없는 알림 대상입니다." };
+    input.source = source;
+  }
+  if (body.channelIds !== undefined || !partial) {
+    const { channelIds } = body;
+    const channels = (await settingsStore.read())[userId]?.channels ?? [];
+    if (
+      !Array.isArray(channelIds) ||
+      channelIds.length === 0 ||
+      !channelIds.every((id) => channels.some((c) => c.id === id))
+    ) {
+      return { error: "알림을 보낼 채널을 1개 이상 선택해 주세요." };
+    }
+    input.channelIds = [...new Set(channelIds as string[])];
+  }
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== "boolean") return { error: "enabled는 true 또는 false여야 합니다." };
+    input.enabled = body.enabled;
+  }
+  return { input };
+}
+
+/** @returns 추가한 규칙, 개수 초과면 null */
+export async function createRule(userId: string, input: NewNotificationRule): Promise<NotificationRule | null> {
+  return settingsStore.update((data) => {
+    const settings = (data[userId] ??= { channels: [], rules: [] });
+    if (settings.rules.length >= MAX_RULES) return null;
+    const rule: NotificationRule = {
+      ...input,
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+      enabled: true,
+    };
+    settings.rules.push(rule);
+    return rule;
+  });
+}
+
+export async function updateRule(
+  userId: string,
+  ruleId: string,
+  patch: Partial<NewNotificationRule & Pick<NotificationRule, "enabled">>
+): Promise<NotificationRule | null> {
+  return settingsStore.update((data) => {
+    const rule = data[userId]?.rules.find((r) => r.id === ruleId);
+    if (!rule) return null;
+    Object.assign(rule, patch);
+    return rule;
+  });
+}
+
+export async function deleteRule(userId: string, ruleId: string): Promise<boolean> {
+  return settingsStore.update((data) => {
+    const settings = data[userId];
+    if (!settings?.rules.some((r) => r.id === ruleId)) return false;
+    settings.rules = settings.rules.filter((r) => r.id !== ruleId);
+    return true;
+  });
+}
+
+// ─── 전송 ─────────────────────────────────────────────────────────────────────
+
+/**
+ * 이벤트를 규칙에 맞춰 채널별로 묶어 전송
+ * 여러 규칙이 같은 채널로 같은 영상을 보내면 한 번만 포함
+ */
+export async function dispatchNotifications(
+  userId: string,
+  events: NotificationEvent[],
+  options: DispatchOptions = {}
+): Promise<{ sent: number; failed: number }> {
+  const result = { sent: 0, failed: 0 };
+  const settings = (await settingsStore.read())[userId];
+  if (!settings || events.length === 0) return result;
+
+  const now = options.now ?? new Date();
+  const sent = (await sentStore.read())[userId] ?? {};
+  const isCoolingDown = (key: string) =>
+    sent[key] !== undefined && now.getTime() - new Date(sent[key]).getTime() < NOTIFY_COOLDOWN_MS;
+
+  const batches = new Map<string, { alerts: NotificationAlert[]; ruleIds: Set<string>; keys: string[] }>();
+  for (const rule of settings.rules) {
+    for (const event of events) {
+      const key = sentKey(rule, event);
+      if (!matchesRule(rule, event) || isCoolingDown(key)) continue;
+      for (const channelId of rule.channelIds) {
+        let batch = batches.get(channelId);
+        if (!batch) batches.set(channelId, (batch = { alerts: [], ruleIds: new Set(), keys: [] }));
+        batch.keys.push(key);
+        batch.ruleIds.add(rule.id);
+        if (!batch.alerts.some((a) => a.event.video.id === event.video.id)) {
+          batch.alerts.push({ ruleName: rule.name, event });
+        }
+      }
+    }
+  }
+
+  const delivered = new Set<string>();
+  for (const [channelId, batch] of batches) {
+    const channel = settings.channels.find((c) => c.id === channelId);
+    if (!channel) continue;
+    const outcome = await deliver(channel, batch.alerts, options);
+    await appendLog(userId, {
+      at: now.toISOString(),
+      channelId,
+      channelKind: channel.kind,
+      channelName: channel.name,
+      ruleIds: [...batch.ruleIds],
+      alerts: batch.alerts.length,
+      status: outcome.ok ? "sent" : "failed",
+      attempts: outcome.attempts,
+      error: outcome.error,
+      test: false,
+    });
+    if (outcome.ok) {
+      result.sent += 1;
+      batch.keys.forEach((key) => delivered.add(key));
+    } else {
+      result.failed += 1;
+    }
+  }
+
+  if (delivered.size > 0) {
+    await sentStore.update((data) => {
+      const list = (data[userId] ??= {});
+      for (const [key, at] of Object.entries(list)) {
+        if (now.getTime() - new Date(at).getTime() >= NOTIFY_COOLDOWN_MS) delete list[key];
+      }
+      for (const key of delivered) list[key] = now.toISOString();
+    });
+  }
+  return result;
+}
+
+/** 채널 설정 확인용 예시 알림 1건 전송 */
+export async function sendTestNotification(
+  userId: string,
+  channelId: string,
+  options: DispatchOptions = {}
+): Promise<DeliveryLogEntry | null> {
+  const channel = (await settingsStore.read())[userId]?.channels.find((c) => c.id === channelId);
+  if (!channel) return null;
+
+  const now = options.now ?? new Date();
+  const event: NotificationEvent = {
+    source: "savedSearch",
+    kind: "new",
+    keyword: "테스트",
+    video: {
+      id: "test",
+      title: "테스트 알림입니다",
+      thumbnail: "https://i.ytimg.com/vi/test/hqdefault.jpg",
+      channelId: "test",
+      channelTitle: "찌동튜브",
+      publishedAt: now.toISOString(),
+    },
+    metrics: { performanceScore: 5, views: 120_000, viewsPerDay: 12_000, subscribers: 8_000, ratio: 15 },
+  };
+  const outcome = await deliver(channel, [{ ruleName: "테스트", event }], options);
+  return appendLog(userId, {
+    at: now.toISOString(),
+    channelId,
+    channelKind: channel.kind,
+    channelName: channel.name,
+    ruleIds: [],
+    alerts: 1,
+    status: outcome.ok ? "sent" : "failed",
+    attempts: outcome.attempts,
+    error: outcome.error,
+    test: true,
+  });
+}
+
+/** 주기 작업: 워치리스트 영상을 사용자별 규칙에 맞춰 전송 (스냅샷 수집 직후 호출) */
+export async function notifyWatchlist(
+  options: DispatchOptions = {}
+): Promise<{ sent: number; failed: number }> {
+  const settings = await settingsStore.read();
+  const total = { sent: 0, failed: 0 };
+  for (const userId of await watchlistUserIds()) {
+    const rules = settings[userId]?.rules ?? [];
+    if (!rules.some((r) => r.enabled && r.source !== "savedSearch")) continue;
+    const events = (await listWatchlist(userId)).map(watchlistEvent);
+    const result = await dispatchNotifications(userId, events, options);
+    total.sent += result.sent;
+    total.failed += result.failed;
+  }
+  return total;
+}
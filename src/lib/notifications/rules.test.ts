@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatRuleConditions,
+  matchesRule,
+  parseRuleExpression,
+  type NotificationEvent,
+  type NotificationRule,
+} from "./rules";
+
+function event(
+  metrics: Partial<NotificationEvent["metrics"]>,
+  source: NotificationEvent["source"] = "savedSearch"
+): NotificationEvent {
+  return {
+    source,
+    kind: "new",
+    keyword: "캠핑",
+    video: {
+      id: "v1",
+      title: "영상",
+      thumbnail: "",
+      channelId: "c1",
+      channelTitle: "채널",
+      publishedAt: "2026-10-01T00:00:00Z",
+    },
+    metrics: { performanceScore: null, views: null, viewsPerDay: null, subscribers: null, ratio: null, ...metrics },
+  };
+}
+
+function rule(expression: string, overrides: Partial<NotificationRule> = {}): NotificationRule {
+  const parsed = parseRuleExpression(expression);
+  if ("error" in parsed) throw new Error(parsed.error);
+  return {
+    id: "r1",
+    createdAt: "2026-10-01T00:00:00Z",
+    name: "규칙",
+    conditions: parsed.conditions,
+    source: "any",
+    channelIds: ["ch"],
+    enabled: true,
+    ...overrides,
+  };
+}
+
+describe("parseRuleExpression", () => {
+  it("and로 연결한 조건, 단위·쉼표 해석", () => {
+    expect(parseRuleExpression("performanceScore >= 4 and views/day > 10k")).toEqual({
+      conditions: [
+        { metric: "performanceScore", op: ">=", value: 4 },
+        { metric: "viewsPerDay", op: ">", value: 10_000 },
+      ],
+    });
+    expect(parseRuleExpression("score>=5 && views >= 1.5m && subscribers < 3만 && ratio > 1,000")).toEqual({
+      conditions: [
+        { metric: "performanceScore", op: ">=", value: 5 },
+        { metric: "views", op: ">=", value: 1_500_000 },
+        { metric: "subscribers", op: "<", value: 30_000 },
+        { metric: "ratio", op: ">", value: 1_000 },
+      ],
+    });
+  });
+
+  it("알 수 없는 지표·형식은 오류", () => {
+    expect(parseRuleExpression("")).toHaveProperty("error");
+    expect(parseRuleExpression("likes > 10")).toMatchObject({ error: expect.stringContaining("likes") });
+    expect(parseRuleExpression("views >> 10")).toHaveProperty("error");
+    expect(parseRuleExpression("views > 1 or score > 3")).toHaveProperty("error");
+  });
+
+  it("정규화한 조건식으로 다시 표시", () => {
+    const parsed = parseRuleExpression("Score >= 4 and views/day > 10000 and views > 2000000");
+    expect("conditions" in parsed && formatRuleConditions(parsed.conditions)).toBe(
+      "performanceScore >= 4 and views/day > 10k and views > 2m"
+    );
+  });
+});
+
+describe("matchesRule", () => {
+  it("모든 조건을 만족해야 하고 값이 없는 지표는 불일치", () => {
+    const r = rule("performanceScore >= 4 and views/day > 10k");
+    expect(matchesRule(r, event({ performanceScore: 5, viewsPerDay: 12_000 }))).toBe(true);
+    expect(matchesRule(r, event({ performanceScore: 3, viewsPerDay: 12_000 }))).toBe(false);
+    expect(matchesRule(r, event({ performanceScore: null, viewsPerDay: 12_000 }, "watchlist"))).toBe(false);
+  });
+
+  it("출처·사용 여부", () => {
+    const growth = event({ viewsPerDay: 20_000 }, "watchlist");
+    expect(matchesRule(rule("views/day > 10k", { source: "watchlist" }), growth)).toBe(true);
+    expect(matchesRule(rule("views/day > 10k", { source: "savedSearch" }), growth)).toBe(false);
+    expect(matchesRule(rule("views/day > 10k", { enabled: false }), growth)).toBe(false);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * rules.ts
+ * 알림 규칙 — "performanceScore >= 4 and views/day > 10k" 형식의 조건식과 알림 이벤트 매칭
+ * - 조건은 and로만 연결 (모든 조건을 만족해야 알림)
+ * - 값이 없는 지표(예: 워치리스트 영상의 성과도)를 쓰는 조건은 만족하지 않은 것으로 봄
+ */
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+/** 조건식에서 쓰는 지표 이름 → 이벤트 지표 키 */
+const METRIC_NAMES = {
+  performancescore: "performanceScore",
+  score: "performanceScore",
+  views: "views",
+  "views/day": "viewsPerDay",
+  subscribers: "subscribers",
+  ratio: "ratio",
+} as const;
+
+/** 지표 키 → 조건식 표기 */
+export const METRIC_LABELS: Record<RuleMetric, string> = {
+  performanceScore: "performanceScore",
+  views: "views",
+  viewsPerDay: "views/day",
+  subscribers: "subscribers",
+  ratio: "ratio",
+};
+
+const SUFFIX_MULTIPLIERS: Record<string, number> = { "": 1, k: 1_000, m: 1_000_000, 천: 1_000, 만: 10_000 };
+
+/** 규칙당 조건 수 */
+export const MAX_RULE_CONDITIONS = 5;
+
+// ─── 타입 ─────────────────────────────────────────────────────────────────────
+
+export type RuleMetric = (typeof METRIC_NAMES)[keyof typeof METRIC_NAMES];
+export type RuleOperator = ">=" | "<=" | ">" | "<" | "=";
+
+export interface RuleCondition {
+  metric: RuleMetric;
+  op: RuleOperator;
+  value: number;
+}
+
+/** 알림을 만드는 곳 — 저장된 검색 주기 실행 / 워치리스트 스냅샷 수집 */
+export type NotificationSource = "savedSearch" | "watchlist";
+
+export interface NotificationEvent {
+  source: NotificationSource;
+  /** new·upgraded: 저장된 검색 알림 종류, growth: 워치리스트 조회수 증가 */
+  kind: "new" | "upgraded" | "growth";
+  /** 저장된 검색 키워드 (워치리스트는 null) */
+  keyword: string | null;
+  video: {
+    id: string;
+    title: string;
+    thumbnail: string;
+    channelId: string;
+    channelTitle: string;
+    publishedAt: string;
+  };
+  /** 알 수 없는 지표는 null */
+  metrics: Record<RuleMetric, number | null>;
+}
+
+export interface NotificationRule {
+  id: string;
+  createdAt: string;
+  name: string;
+  conditions: RuleCondition[];
+  /** any: 모든 출처 */
+  source: NotificationSource | "any";
+  /** 알림을 보낼 채널 ID */
+  channelIds: string[];
+  enabled: boolean;
+}
+
+// ─── 조건식 ───────────────────────────────────────────────────────────────────
+
+const CLAUSE_PATTERN = /^([a-z/]+)\s*(>=|<=|>|<|=)\s*(\d[\d,]*(?:\.\d+)?)\s*([km천만]?)$/i;
+
+/**
+ * 조건식 파싱 — "performanceScore >= 4 and views/day > 10k"
+ * 숫자에는 천 단위 쉼표와 k·m·천·만 단위를 쓸 수 있음
+ */
+export function parseRuleExpression(
+  expression: string
+): { conditions: RuleCondition[] } | { error: string } {
+  const clauses = expression
+    .trim()
+    .split(/\s+and\s+|\s*&&\s*/i)
+    .filter((c) => c.trim() !== "");
+  if (clauses.length === 0) return { error: "조건을 입력해 주세요." };
+  if (clauses.length > MAX_RULE_CONDITIONS) {
+    return { error: `조건은 최대 ${MAX_RULE_CONDITIONS}개까지 쓸 수 있습니다.` };
+  }
+
+  const conditions: RuleCondition[] = [];
+  for (const clause of clauses) {
+    const match = CLAUSE_PATTERN.exec(clause.trim());
+    if (!match) return { error: `조건을 해석할 수 없습니다: ${clause.trim()}` };
+    const [, name, op, number, suffix] = match;
+    const metric = METRIC_NAMES[name.toLowerCase() as keyof typeof METRIC_NAMES];
+    if (!metric) {
+      return {
+        error: `알 수 없는 지표입니다: ${name} (${Object.values(METRIC_LABELS).join(", ")})`,
+      };
+    }
+    const value = parseFloat(number.replace(/,/g, "")) * SUFFIX_MULTIPLIERS[suffix.toLowerCase()];
+    conditions.push({ metric, op: op as RuleOperator, value });
+  }
+  return { conditions };
+}
+
+/** 조건 → 정규화한 조건식 (10000 → 10k) */
+export function formatRuleConditions(conditions: RuleCondition[]): string {
+  const formatValue = (value: number) =>
+    value >= 1_000_000 && value % 1_000_000 === 0
+      ? `${value / 1_000_000}m`
+      : value >= 1_000 && value % 1_000 === 0
+      ? `${value / 1_000}k`
+      : String(value);
+  return conditions
+    .map((c) => `${METRIC_LABELS[c.metric]} ${c.op} ${formatValue(c.value)}`)
+    .join(" and ");
+}
+
+// ─── 매칭 ─────────────────────────────────────────────────────────────────────
+
+function compare(actual: number, op: RuleOperator, expected: number): boolean {
+  switch (op) {
+    case ">=":
+      return actual >= expected;
+    case "<=":
+      return actual <= expected;
+    case ">":
+      return actual > expected;
+    case "<":
+      return actual < expected;
+    case "=":
+      return actual === expected;
+  }
+}
+
+export function matchesRule(rule: NotificationRule, event: NotificationEvent): boolean {
+  if (!rule.enabled) return false;
+  if (rule.source !== "any" && rule.source !== event.source) return false;
+  return rule.conditions.every((c) => {
+    const actual = event.metrics[c.metric];
+    return actual !== null && compare(actual, c.op, c.value);
+  });
+}
+
+export function isRuleSource(value: unknown): value is NotificationRule["source"] {
+  return value === "any" || value === "savedSearch" || value === "watchlist";
+}
@@ -0,0 +1,243 @@
+/**
+ * smtp.ts
+ * 최소 SMTP 클라이언트 — 알림 메일 1통 전송 (EHLO → STARTTLS → AUTH PLAIN → MAIL/RCPT/DATA)
+ * - 서버 설정은 환경 변수: SMTP_HOST, SMTP_PORT, SMTP_SECURE(465 등 암시적 TLS), SMTP_USER, SMTP_PASS, SMTP_FROM
+ * - 서버가 STARTTLS를 지원하면 평문 연결을 TLS로 올린 뒤 인증
+ * - 인증 정보(SMTP_USER·SMTP_PASS)는 TLS 연결에서만 보냄 — TLS 없이 인증이 필요하면 보내기 전에 영구 실패(530)
+ * - 4xx 응답·연결 오류는 재시도 가능, 5xx 응답은 영구 실패 (SmtpError.retryable)
+ */
+
+import net from "node:net";
+import tls from "node:tls";
+import { randomUUID } from "node:crypto";
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+/** 응답 대기 제한 시간 */
+export const SMTP_TIMEOUT_MS = 15_000;
+
+// ─── 타입 ─────────────────────────────────────────────────────────────────────
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** 연결부터 TLS (보통 465) */
+  secure: boolean;
+  user: string | null;
+  pass: string | null;
+  from: string;
+}
+
+export interface MailOptions {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpError extends Error {
+  /** SMTP 응답 코드 (연결·시간 초과 오류면 null) */
+  readonly code: number | null;
+
+  constructor(message: string, code: number | null = null) {
+    super(message);
+    this.name = "SmtpError";
+    this.code = code;
+  }
+
+  get retryable(): boolean {
+    return this.code === null || (this.code >= 400 && this.code < 500);
+  }
+}
+
+// ─── 설정 ─────────────────────────────────────────────────────────────────────
+
+/** SMTP_HOST·SMTP_FROM이 없으면 이메일 채널 비활성 (null) */
+export function smtpConfigFromEnv(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.SMTP_FROM;
+  if (!host || !from) return null;
+  const secure = process.env.SMTP_SECURE === "true";
+  return {
+    host,
+    port: parseInt(process.env.SMTP_PORT ?? "") || (secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER || null,
+    pass: process.env.SMTP_PASS || null,
+    from,
+  };
+}
+
+// ─── 메시지 ───────────────────────────────────────────────────────────────────
+
+/** 헤더용 RFC 2047 인코딩 (ASCII만 있으면 그대로) */
+function encodeHeader(value: string): string {
+  const clean = value.replace(/[\r\n]+/g, " ");
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean).toString("base64")}?=`;
+}
+
+/** RFC 5322 메시지 (본문은 base64, 76자 줄바꿈) */
+export function buildMailMessage(from: string, mail: MailOptions, now = new Date()): string {
+  const body = (Buffer.from(mail.text).toString("base64").match(/.{1,76}/g) ?? []).join("\r\n");
+  const domain = from.split("@")[1] ?? "localhost";
+  return [
+    `From: ${from}`,
+    `To: ${mail.to}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${now.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+// ─── 연결 ─────────────────────────────────────────────────────────────────────
+
+/** 소켓에서 SMTP 응답(여러 줄 응답 포함)을 하나씩 읽는 세션 */
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = "";
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter: { resolve: (r: SmtpReply) => void; reject: (e: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding("utf8");
+    socket.setTimeout(SMTP_TIMEOUT_MS);
+    socket.on("data", (chunk: string) => this.onData(chunk));
+    socket.on("timeout", () => this.fail(new SmtpError("SMTP 서버 응답 시간이 초과되었습니다.")));
+    socket.on("error", (err) => this.fail(new SmtpError(`SMTP 연결 오류: ${err.message}`)));
+    socket.on("close", () => this.fail(new SmtpError("SMTP 연결이 끊어졌습니다.")));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf("\n")) >= 0) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(index + 1);
+      const match = /^(\d{3})([ -]?)(.*)$/.exec(line);
+      if (!match) continue;
+      this.lines.push(match[3]);
+      if (match[2] === "-") continue;
+      const reply = { code: parseInt(match[1]), lines: this.lines };
+      this.lines = [];
+      if (this.waiter) {
+        this.waiter.resolve(reply);
+        this.waiter = null;
+      } else {
+        this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(err: Error): void {
+    this.failure ??= err;
+    this.waiter?.reject(this.failure);
+    this.waiter = null;
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  async expect(codes: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`SMTP 서버 응답 ${reply.code}: ${reply.lines.join(" ")}`, reply.code);
+    }
+    return reply;
+  }
+
+  command(line: string, codes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes);
+  }
+
+  /** STARTTLS 이후 같은 연결을 TLS 소켓으로 교체 */
+  async upgrade(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners("data");
+    plain.removeAllListeners("timeout");
+    plain.removeAllListeners("close");
+    const secure = tls.connect({ socket: plain, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secure.once("secureConnect", resolve);
+      secure.once("error", reject);
+    });
+    this.socket = secure;
+    this.attach(secure);
+  }
+
+  close(): void {
+    this.socket.removeAllListeners("close");
+    this.socket.end();
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port });
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => {
+      socket.destroy();
+      reject(new SmtpError("SMTP 서버 연결 시간이 초과되었습니다."));
+    });
+    socket.once(config.secure ? "secureConnect" : "connect", () => resolve(socket));
+    socket.once("error", (err) => reject(new SmtpError(`SMTP 연결 오류: ${err.message}`)));
+  });
+}
+
+// ─── 공개 API ─────────────────────────────────────────────────────────────────
+
+/** 메일 1통 전송, 실패하면 SmtpError */
+export async function sendMail(config: SmtpConfig, mail: MailOptions, now = new Date()): Promise<void> {
+  const session = new SmtpSession(await connect(config));
+  try {
+    await session.expect([220]);
+    const ehlo = await session.command("EHLO localhost", [250]);
+    let encrypted = config.secure;
+    if (!encrypted && ehlo.lines.some((l) => /^STARTTLS\b/i.test(l))) {
+      await session.command("STARTTLS", [220]);
+      await session.upgrade(config.host);
+      await session.command("EHLO localhost", [250]);
+      encrypted = true;
+    }
+    if (config.user && config.pass) {
+      // 평문 연결로 비밀번호를 보내지 않음 (530: Must issue a STARTTLS command first)
+      if (!encrypted) {
+        throw new SmtpError("SMTP 서버가 TLS(SMTP_SECURE 또는 STARTTLS)를 지원하지 않아 인증 정보를 보낼 수 없습니다.", 530);
+      }
+      const token = Buffer.from(`\0${config.user}\0${config.pass}`).toString("base64");
+      await session.command(`AUTH PLAIN ${token}`, [235]);
+    }
+    await session.command(`MAIL FROM:<${config.from}>`, [250]);
+    await session.command(`RCPT TO:<${mail.to}>`, [250, 251]);
+    await session.command("DATA", [354]);
+    // 줄 첫머리 "."은 한 번 더 (dot-stuffing)
+    const data = buildMailMessage(config.from, mail, now).replace(/^\./gm, "..");
+    await session.command(`${data}\r\n.`, [250]);
+    await session.command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * inbox.ts
+ * 앱 내 알림함 — 저장된 검색 주기 실행에서 새로 필터를 통과했거나 성과도가 오른 영상
+ * - 사용자별 최신순, 최근 MAX_INBOX_ITEMS개 유지
+ */
+
+import { randomUUID } from "node:crypto";
+import { JsonStore } from "@/lib/store/jsonStore";
+import type { ScoreInfo, VideoResult } from "@/lib/youtube/analysis";
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+/** 사용자당 보관 알림 수 */
+export const MAX_INBOX_ITEMS = 200;
+
+// ─── 타입 ─────────────────────────────────────────────────────────────────────
+
+/** new: 이번 실행에서 처음 필터 통과, upgraded: 이전 실행보다 성과도 상승 */
+export type InboxAlertKind = "new" | "upgraded";
+
+export type InboxVideo = Pick<
+  VideoResult,
+  "id" | "title" | "thumbnail" | "channelId" | "channelTitle" | "publishedAt" | "viewCount" | "subscriberCount"
+>;
+
+export interface InboxItem {
+  id: string;
+  createdAt: string;
+  savedSearchId: string;
+  keyword: string;
+  kind: InboxAlertKind;
+  video: InboxVideo;
+  score: ScoreInfo;
+  /** upgraded일 때 이전 실행의 성과도 점수 */
+  previousScore: number | null;
+  read: boolean;
+}
+
+export type NewInboxItem = Omit<InboxItem, "id" | "createdAt" | "read">;
+
+// ─── 저장소 ───────────────────────────────────────────────────────────────────
+
+const inboxStore = new JsonStore<Record<string, InboxItem[]>>("inbox.json", () => ({}));
+
+export function toInboxVideo(video: VideoResult): InboxVideo {
+  const { id, title, thumbnail, channelId, channelTitle, publishedAt, viewCount, subscriberCount } = video;
+  return { id, title, thumbnail, channelId, channelTitle, publishedAt, viewCount, subscriberCount };
+}
+
+// ─── 공개 API ─────────────────────────────────────────────────────────────────
+
+/** 알림 추가 (최신순 유지, 오래된 알림부터 삭제) */
+export async function pushInboxItems(
+  userId: string,
+  items: NewInboxItem[],
+  now = new Date()
+): Promise<InboxItem[]> {
+  if (items.length === 0) return [];
+  const created = items.map((item) => ({
+    ...item,
+    id: randomUUID(),
+    createdAt: now.toISOString(),
+    read: false,
+  }));
+  await inboxStore.update((data) => {
+    const list = (data[userId] ??= []);
+    list.unshift(...created);
+    list.splice(MAX_INBOX_ITEMS);
+  });
+  return created;
+}
+
+export async function listInbox(userId: string): Promise<{ items: InboxItem[]; unread: number }> {
+  const items = (await inboxStore.read())[userId] ?? [];
+  return { items, unread: items.filter((i) => !i.read).length };
+}
+
+/**
+ * 읽음 처리 (ids 미지정 시 전체)
+ * @returns 새로 읽음 처리한 개수
+ */
+export async function markInboxRead(userId: string, ids?: string[]): Promise<number> {
+  return inboxStore.update((data) => {
+    let changed = 0;
+    for (const item of data[userId] ?? []) {
+      if (!item.read && (!ids || ids.includes(item.id))) {
+        item.read = true;
+        changed += 1;
+      }
+    }
+    return changed;
+  });
+}
+
+/** 저장된 검색을 삭제하면 해당 알림도 정리 */
+export async function removeInboxItemsFor(userId: string, savedSearchId: string): Promise<void> {
+  await inboxStore.update((data) => {
+    if (data[userId]) data[userId] = data[userId].filter((i) => i.savedSearchId !== savedSearchId);
+  });
+}
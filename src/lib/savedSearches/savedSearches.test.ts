@@ -0,0 +1,233 @@
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  BASELINE_TTL_MS,
+  MAX_SAVED_SEARCHES,
+  SCHEDULE_INTERVALS_MS,
+  createSavedSearch,
+  deleteSavedSearch,
+  diffSavedSearchResults,
+  isSavedSearchDue,
+  isSavedSearchSchedule,
+  listSavedSearches,
+  mergeSavedSearchBaseline,
+  runDueSavedSearches,
+  updateSavedSearchSchedule,
+  type SavedSearch,
+  type SavedSearchBaselineEntry,
+  type SavedSearchFilters,
+} from "./savedSearches";
+import { listInbox, markInboxRead } from "./inbox";
+import type { VideoResult } from "@/lib/youtube/analysis";
+import { setDataSource } from "@/lib/youtube/client";
+import { FixtureDataSource } from "@/lib/youtube/fixtureSource";
+import { ApiKeyPool } from "@/lib/youtube/keyPool";
+import { QuotaTracker } from "@/lib/youtube/quota";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const filters: SavedSearchFilters = {
+  keyword: "캠핑",
+  videoType: "longform",
+  uploadPeriod: "all",
+  minViewCount: null,
+  maxSubscriberCount: null,
+  scoringProfile: "default",
+};
+
+function video(id: string, score: 1 | 2 | 3 | 4 | 5): VideoResult {
+  return { id, performanceScore: { score, label: "Good", color: "#fff" } } as VideoResult;
+}
+
+function run(now: Date, budget: number | null = null) {
+  return runDueSavedSearches({ keyPool: new ApiKeyPool(["K"]), quota: new QuotaTracker(budget), now });
+}
+
+let dataDir: string;
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "yt-saved-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+  vi.stubGlobal("fetch", vi.fn());
+  setDataSource(new FixtureDataSource(path.join(process.cwd(), "fixtures", "youtube")));
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  setDataSource(null);
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("diffSavedSearchResults", () => {
+  const now = new Date("2026-10-18T07:00:00Z");
+  const seen = (score: number, seenAt = "2026-10-17T07:00:00Z"): SavedSearchBaselineEntry => ({ score, seenAt });
+
+  it("첫 실행(기준선 없음)은 알림 없음", () => {
+    expect(diffSavedSearchResults(null, [video("a", 5)], now)).toEqual([]);
+  });
+
+  it("새로 통과한 영상과 성과도가 오른 영상만", () => {
+    const changes = diffSavedSearchResults(
+      { a: seen(3), b: seen(4), c: seen(2) },
+      [video("a", 5), video("b", 3), video("d", 2)],
+      now
+    );
+    expect(changes.map(({ kind, previousScore, video }) => [kind, previousScore, video.id])).toEqual([
+      ["upgraded", 3, "a"],
+      ["new", null, "d"],
+    ]);
+  });
+
+  it("TTL이 지난 기준선 항목은 없던 영상으로 취급", () => {
+    const expired = new Date(now.getTime() - BASELINE_TTL_MS).toISOString();
+    const changes = diffSavedSearchResults({ a: seen(3, expired) }, [video("a", 3)], now);
+    expect(changes.map((c) => c.kind)).toEqual(["new"]);
+  });
+});
+
+describe("mergeSavedSearchBaseline", () => {
+  it("빠진 영상은 TTL까지 유지하고, 다시 통과하면 최고 점수를 유지한 채 new로 잡지 않음", () => {
+    const day1 = new Date("2026-10-01T07:00:00Z");
+    const day2 = new Date("2026-10-02T07:00:00Z");
+    const day3 = new Date("2026-10-03T07:00:00Z");
+
+    const first = mergeSavedSearchBaseline(null, [video("a", 4), video("b", 3)], day1);
+    // a가 한 번 빠졌다가 더 낮은 점수로 돌아와도 알림 없음
+    const second = mergeSavedSearchBaseline(first, [video("b", 3)], day2);
+    expect(second.a).toEqual({ score: 4, seenAt: day1.toISOString() });
+    expect(diffSavedSearchResults(second, [video("a", 3), video("b", 3)], day3)).toEqual([]);
+    expect(mergeSavedSearchBaseline(second, [video("a", 3)], day3).a).toEqual({
+      score: 4,
+      seenAt: day3.toISOString(),
+    });
+
+    const later = new Date(day2.getTime() + BASELINE_TTL_MS);
+    expect(Object.keys(mergeSavedSearchBaseline(second, [], later))).toEqual([]);
+  });
+});
+
+describe("isSavedSearchDue", () => {
+  const base: SavedSearch = {
+    id: "s",
+    createdAt: "2026-10-01T07:00:00Z",
+    filters,
+    schedule: "daily",
+    lastRun: null,
+    lastSuccessAt: null,
+    baseline: null,
+  };
+  const at = (iso: string) => new Date(iso).getTime();
+
+  it("한 번도 성공하지 않았으면 바로, 이후엔 주기(여유 1시간) 뒤", () => {
+    expect(isSavedSearchDue(base, at("2026-10-01T07:00:00Z"))).toBe(true);
+    const ran = { ...base, lastSuccessAt: "2026-10-01T07:05:00Z" };
+    expect(isSavedSearchDue(ran, at("2026-10-02T05:00:00Z"))).toBe(false);
+    expect(isSavedSearchDue(ran, at("2026-10-02T07:00:00Z"))).toBe(true);
+    expect(isSavedSearchDue({ ...ran, schedule: "weekly" }, at("2026-10-02T07:00:00Z"))).toBe(false);
+    expect(isSavedSearchDue({ ...base, schedule: "paused" }, at("2026-12-01T00:00:00Z"))).toBe(false);
+  });
+});
+
+describe("isSavedSearchSchedule", () => {
+  it("주기 키와 일시 중지만, 프로토타입 키는 거부", () => {
+    expect(["12h", "daily", "weekly", "paused"].every(isSavedSearchSchedule)).toBe(true);
+    expect(["constructor", "toString", "hourly", 24].some(isSavedSearchSchedule)).toBe(false);
+  });
+});
+
+describe("저장된 검색 관리", () => {
+  it("같은 조건은 기존 항목, 개수 제한, 주기 변경·삭제", async () => {
+    const first = await createSavedSearch("u1", filters);
+    expect((await createSavedSearch("u1", { ...filters }))?.id).toBe(first?.id);
+    // 시장 기본값(KR·ko)을 명시해도 같은 조건, 다른 시장은 별도 항목
+    expect((await createSavedSearch("u1", { ...filters, regionCode: "KR", relevanceLanguage: "ko" }))?.id).toBe(
+      first?.id
+    );
+    const us = await createSavedSearch("u1", { ...filters, regionCode: "US", relevanceLanguage: "en" });
+    expect(us?.id).not.toBe(first?.id);
+    await deleteSavedSearch("u1", us!.id);
+    expect(first).not.toHaveProperty("baseline");
+
+    for (let i = 1; i < MAX_SAVED_SEARCHES; i++) {
+      await createSavedSearch("u1", { ...filters, keyword: `키워드${i}` });
+    }
+    expect(await createSavedSearch("u1", { ...filters, keyword: "초과" })).toBeNull();
+    expect(await listSavedSearches("u2")).toEqual([]);
+
+    expect((await updateSavedSearchSchedule("u1", first!.id, "paused"))?.nextRunAt).toBeNull();
+    expect(await updateSavedSearchSchedule("u2", first!.id, "weekly")).toBeNull();
+    expect(await deleteSavedSearch("u2", first!.id)).toBe(false);
+    expect(await deleteSavedSearch("u1", first!.id)).toBe(true);
+    expect(await listSavedSearches("u1")).toHaveLength(MAX_SAVED_SEARCHES - 1);
+  });
+});
+
+describe("runDueSavedSearches", () => {
+  it("첫 실행은 기준선만, 다음 주기에 새 영상·성과도 상승을 알림함에 추가", async () => {
+    const saved = await createSavedSearch("u1", filters);
+    const start = new Date("2026-10-18T07:00:00Z");
+
+    const first = await run(start);
+    expect(first).toMatchObject({ due: 1, ran: 1, failed: 0, alerts: 0 });
+    const [summary] = await listSavedSearches("u1");
+    expect(summary.lastRun?.total).toBeGreaterThan(0);
+    expect(summary.lastRun?.quotaUsed).toBeGreaterThan(0);
+    expect(summary.nextRunAt).toBe(new Date(start.getTime() + SCHEDULE_INTERVALS_MS.daily).toISOString());
+
+    // 주기 전에는 실행하지 않음
+    expect((await run(new Date(start.getTime() + HOUR_MS))).due).toBe(0);
+
+    // 기준선에서 한 영상을 빼고 다른 영상의 점수를 낮춰 다음 실행과 비교
+    const file = path.join(dataDir, "savedSearches.json");
+    const data = JSON.parse(await fs.readFile(file, "utf8"));
+    const baseline: Record<string, SavedSearchBaselineEntry> = data.u1[0].baseline;
+    const [removed, lowered] = Object.keys(baseline);
+    delete baseline[removed];
+    const loweredScore = baseline[lowered].score;
+    baseline[lowered].score = 0;
+    await fs.writeFile(file, JSON.stringify(data));
+
+    const second = await run(new Date(start.getTime() + SCHEDULE_INTERVALS_MS.daily));
+    expect(second).toMatchObject({ due: 1, ran: 1, alerts: 2 });
+
+    const inbox = await listInbox("u1");
+    expect(inbox.unread).toBe(2);
+    expect(inbox.items.map((i) => [i.kind, i.video.id, i.previousScore, i.savedSearchId])).toEqual(
+      expect.arrayContaining([
+        ["new", removed, null, saved!.id],
+        ["upgraded", lowered, 0, saved!.id],
+      ])
+    );
+    expect(inbox.items.find((i) => i.kind === "upgraded")?.score.score).toBe(loweredScore);
+    expect(fetch).not.toHaveBeenCalled();
+
+    expect(await markInboxRead("u1", [inbox.items[0].id])).toBe(1);
+    expect(await markInboxRead("u1")).toBe(1);
+    expect((await listInbox("u1")).unread).toBe(0);
+  });
+
+  it("저장한 검색 시장·유형 확신도로 다시 실행", async () => {
+    await createSavedSearch("u1", { ...filters, regionCode: "US", relevanceLanguage: "en", minTypeConfidence: 0.9 });
+    const request = vi.spyOn(FixtureDataSource.prototype, "request");
+
+    expect((await run(new Date())).ran).toBe(1);
+    const searches = request.mock.calls.filter(([endpoint]) => endpoint === "search");
+    expect(searches.length).toBeGreaterThan(0);
+    for (const [, params] of searches) {
+      expect(params).toMatchObject({ regionCode: "US", relevanceLanguage: "en" });
+    }
+    request.mockRestore();
+  });
+
+  it("예산이 부족하면 생략하고 다음 주기 작업에서 다시 시도", async () => {
+    const saved = await createSavedSearch("u1", filters);
+    const quota = new QuotaTracker(50);
+    const result = await runDueSavedSearches({ keyPool: new ApiKeyPool(["K"]), quota, now: new Date() });
+    expect(result).toMatchObject({ due: 1, ran: 0 });
+    expect(quota.toJSON().skipped).toEqual([`savedSearch:${saved!.id}`]);
+    expect((await listSavedSearches("u1"))[0].lastRun).toBeNull();
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * savedSearches.ts
+ * 저장된 검색 — 자주 보는 키워드·필터를 저장해 주기 작업(/api/cron/saved-searches)이 다시 실행
+ * - 실행마다 필터 통과 영상과 성과도 점수를 기준선에 합치고, 다음 실행 결과와 비교
+ *   (한동안 빠졌다 돌아온 영상이 다시 new로 잡히지 않도록 BASELINE_TTL_MS 동안 영상별 최고 점수 유지)
+ * - 새로 필터를 통과했거나 성과도가 오른 영상은 알림함(inbox.ts)에 추가 (첫 실행은 기준선만 기록)
+ *   같은 영상은 사용자 알림 규칙에 맞으면 외부 채널(notifications.ts)로도 전송
+ * - 비용을 줄이기 위해 검색 1페이지, 채널 평균(기여도) 단계 생략 — 성과도만 비교
+ */
+
+import { randomUUID } from "node:crypto";
+import { JsonStore } from "@/lib/store/jsonStore";
+import type { VideoResult } from "@/lib/youtube/analysis";
+import { YouTubeAPIError } from "@/lib/youtube/errors";
+import { DEFAULT_TYPE_CONFIDENCE, getVideoTypeSearchParams } from "@/lib/youtube/videoType";
+import { DEFAULT_REGION_CODE, DEFAULT_RELEVANCE_LANGUAGE } from "@/lib/youtube/markets";
+import { searchDetailReserve, searchPageCost, type QuotaTracker } from "@/lib/youtube/quota";
+import type { ApiKeyPool } from "@/lib/youtube/keyPool";
+import { runKeywordSearch } from "@/lib/youtube/searchPipeline";
+import { calcPublishedAfter, type SearchFilters } from "@/lib/history/searchLog";
+import { resolveScoringProfile } from "@/lib/scoring/profileStore";
+import { DEFAULT_SCORING_PROFILE } from "@/lib/scoring/profiles";
+import { getUser } from "@/lib/auth/users";
+import { getPlan } from "@/lib/billing/plans";
+import { dispatchNotifications, savedSearchEvent } from "@/lib/notifications/notifications";
+import { pushInboxItems, toInboxVideo, type NewInboxItem } from "./inbox";
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+/** 사용자당 저장 가능한 검색 수 */
+export const MAX_SAVED_SEARCHES = 20;
+
+const HOUR_MS = 60 * 60 * 1000;
+export const SCHEDULE_INTERVALS_MS = {
+  "12h": 12 * HOUR_MS,
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS,
+} as const;
+/** cron 호출 시각이 조금씩 밀려도 매일 같은 시각 실행이 하루 건너뛰지 않도록 두는 여유 */
+export const SCHEDULE_SLACK_MS = HOUR_MS;
+/** 기준선에서 마지막으로 필터를 통과한 뒤 이 기간이 지난 영상은 삭제 (다시 통과하면 new) */
+export const BASELINE_TTL_MS = 30 * 24 * HOUR_MS;
+
+// ─── 타입 ─────────────────────────────────────────────────────────────────────
+
+export type SavedSearchSchedule = keyof typeof SCHEDULE_INTERVALS_MS | "paused";
+
+/** 저장하는 검색 조건 (점수 기준은 저장 시점의 선택, 시장·확신도가 없으면 기본값 — 이전 기록 호환) */
+export type SavedSearchFilters = Pick<
+  SearchFilters,
+  | "keyword"
+  | "videoType"
+  | "uploadPeriod"
+  | "minViewCount"
+  | "maxSubscriberCount"
+  | "minTypeConfidence"
+  | "regionCode"
+  | "relevanceLanguage"
+> & { scoringProfile: string };
+
+export interface SavedSearchRun {
+  at: string;
+  /** 필터 통과 영상 수 */
+  total: number;
+  quotaUsed: number;
+  /** 이번 실행에서 추가한 알림 수 */
+  alerts: number;
+  /** 실패한 경우 오류 메시지 (다음 주기 작업에서 다시 시도) */
+  error: string | null;
+}
+
+/** 기준선 항목 */
+export interface SavedSearchBaselineEntry {
+  /** 지금까지 기록한 최고 성과도 점수 */
+  score: number;
+  /** 마지막으로 필터를 통과한 실행 시각 */
+  seenAt: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  createdAt: string;
+  filters: SavedSearchFilters;
+  schedule: SavedSearchSchedule;
+  lastRun: SavedSearchRun | null;
+  /** 마지막 성공 실행 시각 (다음 실행 시점 기준) */
+  lastSuccessAt: string | null;
+  /** 최근 BASELINE_TTL_MS 동안 필터를 통과한 영상 ID → 기준선 항목 (다음 실행 비교 기준) */
+  baseline: Record<string, SavedSearchBaselineEntry> | null;
+}
+
+/** 이전 실행 대비 변화 (알림 대상) */
+export type SavedSearchChange = Pick<NewInboxItem, "kind" | "previousScore"> & { video: VideoResult };
+
+/** 목록용 (기준선 제외) */
+export type SavedSearchSummary = Omit<SavedSearch, "baseline"> & {
+  /** 다음 실행 예정 시각 (일시 중지면 null, 첫 실행 전이면 다음 주기 작업) */
+  nextRunAt: string | null;
+};
+
+export function isSavedSearchSchedule(value: unknown): value is SavedSearchSchedule {
+  return value === "paused" || (typeof value === "string" && Object.hasOwn(SCHEDULE_INTERVALS_MS, value));
+}
+
+// ─── 저장소 ───────────────────────────────────────────────────────────────────
+
+const store = new JsonStore<Record<string, SavedSearch[]>>("savedSearches.json", () => ({}));
+
+function sameSavedFilters(a: SavedSearchFilters, b: SavedSearchFilters): boolean {
+  return (
+    a.keyword === b.keyword &&
+    a.videoType === b.videoType &&
+    a.uploadPeriod === b.uploadPeriod &&
+    a.minViewCount === b.minViewCount &&
+    a.maxSubscriberCount === b.maxSubscriberCount &&
+    a.scoringProfile === b.scoringProfile &&
+    (a.minTypeConfidence ?? DEFAULT_TYPE_CONFIDENCE) === (b.minTypeConfidence ?? DEFAULT_TYPE_CONFIDENCE) &&
+    (a.regionCode ?? DEFAULT_REGION_CODE) === (b.regionCode ?? DEFAULT_REGION_CODE) &&
+    (a.relevanceLanguage ?? DEFAULT_RELEVANCE_LANGUAGE) === (b.relevanceLanguage ?? DEFAULT_RELEVANCE_LANGUAGE)
+  );
+}
+
+function nextRunAt(search: SavedSearch): string | null {
+  if (search.schedule === "paused") return null;
+  if (!search.lastSuccessAt) return search.createdAt;
+  return new Date(
+    new Date(search.lastSuccessAt).getTime() + SCHEDULE_INTERVALS_MS[search.schedule]
+  ).toISOString();
+}
+
+function toSummary(search: SavedSearch): SavedSearchSummary {
+  const { id, createdAt, filters, schedule, lastRun, lastSuccessAt } = search;
+  return { id, createdAt, filters, schedule, lastRun, lastSuccessAt, nextRunAt: nextRunAt(search) };
+}
+
+export function isSavedSearchDue(search: SavedSearch, now = Date.now()): boolean {
+  if (search.schedule === "paused") return false;
+  if (!search.lastSuccessAt) return true;
+  const elapsed = now - new Date(search.lastSuccessAt).getTime();
+  return elapsed >= SCHEDULE_INTERVALS_MS[search.schedule] - SCHEDULE_SLACK_MS;
+}
+
+// ─── 결과 비교 ────────────────────────────────────────────────────────────────
+
+function isBaselineEntryFresh(entry: SavedSearchBaselineEntry, now: Date): boolean {
+  return now.getTime() - new Date(entry.seenAt).getTime() < BASELINE_TTL_MS;
+}
+
+/**
+ * 이전 실행 기준선 대비 알림 대상
+ * - new: 기준선에 없던(또는 TTL이 지난) 영상 (새로 필터 통과)
+ * - upgraded: 지금까지의 최고 성과도 점수보다 올라간 영상
+ * 기준선이 없으면(첫 실행) 알림 없음
+ */
+export function diffSavedSearchResults(
+  baseline: Record<string, SavedSearchBaselineEntry> | null,
+  videos: VideoResult[],
+  now = new Date()
+): SavedSearchChange[] {
+  if (!baseline) return [];
+  return videos.flatMap<SavedSearchChange>((video) => {
+    const previous = baseline[video.id];
+    if (!previous || !isBaselineEntryFresh(previous, now)) {
+      return [{ kind: "new", previousScore: null, video }];
+    }
+    if (video.performanceScore.score > previous.score) {
+      return [{ kind: "upgraded", previousScore: previous.score, video }];
+    }
+    return [];
+  });
+}
+
+/**
+ * 이번 실행 결과를 기준선에 합침 — 통과한 영상은 최고 점수·시각 갱신, 빠진 영상은 TTL까지 유지
+ */
+export function mergeSavedSearchBaseline(
+  baseline: Record<string, SavedSearchBaselineEntry> | null,
+  videos: VideoResult[],
+  now = new Date()
+): Record<string, SavedSearchBaselineEntry> {
+  const merged = Object.fromEntries(
+    Object.entries(baseline ?? {}).filter(([, entry]) => isBaselineEntryFresh(entry, now))
+  );
+  for (const video of videos) {
+    merged[video.id] = {
+      score: Math.max(merged[video.id]?.score ?? 0, video.performanceScore.score),
+      seenAt: now.toISOString(),
+    };
+  }
+  return merged;
+}
+
+// ─── 공개 API ─────────────────────────────────────────────────────────────────
+
+export async function listSavedSearches(userId: string): Promise<SavedSearchSummary[]> {
+  return ((await store.read())[userId] ?? []).map(toSummary);
+}
+
+/**
+ * 검색 저장 — 같은 조건이 이미 있으면 기존 항목
+ * @returns 저장된 검색, 개수 초과면 null
+ */
+export async function createSavedSearch(
+  userId: string,
+  filters: SavedSearchFilters,
+  schedule: SavedSearchSchedule = "daily"
+): Promise<SavedSearchSummary | null> {
+  const saved = await store.update((data) => {
+    const list = (data[userId] ??= []);
+    const existing = list.find((s) => sameSavedFilters(s.filters, filters));
+    if (existing) return existing;
+    if (list.length >= MAX_SAVED_SEARCHES) return null;
+    const entry: SavedSearch = {
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+      filters,
+      schedule,
+      lastRun: null,
+      lastSuccessAt: null,
+      baseline: null,
+    };
+    list.push(entry);
+    return entry;
+  });
+  return saved && toSummary(saved);
+}
+
+/** @returns 변경된 검색, 없는 ID면 null */
+export async function updateSavedSearchSchedule(
+  userId: string,
+  id: string,
+  schedule: SavedSearchSchedule
+): Promise<SavedSearchSummary | null> {
+  const updated = await store.update((data) => {
+    const search = data[userId]?.find((s) => s.id === id);
+    if (search) search.schedule = schedule;
+    return search ?? null;
+  });
+  return updated && toSummary(updated);
+}
+
+/** @returns 삭제 여부 */
+export async function deleteSavedSearch(userId: string, id: string): Promise<boolean> {
+  return store.update((data) => {
+    const list = data[userId] ?? [];
+    data[userId] = list.filter((s) => s.id !== id);
+    return data[userId].length < list.length;
+  });
+}
+
+/** 저장된 검색 1회 실행 (필터 통과 영상, 성과도 순) */
+async function executeSavedSearch(
+  userId: string,
+  filters: SavedSearchFilters,
+  { keyPool, quota }: { keyPool: ApiKeyPool; quota: QuotaTracker }
+): Promise<VideoResult[]> {
+  // 저장 후 삭제된 사용자 정의 점수 기준이면 현재 선택한 기준 사용
+  const profile =
+    (await resolveScoringProfile(userId, filters.scoringProfile)) ??
+    (await resolveScoringProfile(userId)) ??
+    DEFAULT_SCORING_PROFILE;
+  const plan = getPlan((await getUser(userId))?.plan);
+  const { videoDurations } = getVideoTypeSearchParams(filters.videoType);
+
+  const { videos } = await runKeywordSearch({
+    keyPool,
+    quota,
+    keyword: filters.keyword,
+    videoType: filters.videoType,
+    publishedAfter: calcPublishedAfter(filters.uploadPeriod),
+    regionCode: filters.regionCode ?? DEFAULT_REGION_CODE,
+    relevanceLanguage: filters.relevanceLanguage ?? DEFAULT_RELEVANCE_LANGUAGE,
+    pageDepth: 1,
+    cursors: videoDurations.map((duration) => ({ duration })),
+    pagesBefore: 0,
+    seenVideoIds: new Set(),
+    filters: {
+      minViewCount: filters.minViewCount ?? undefined,
+      maxSubscriberCount: filters.maxSubscriberCount ?? undefined,
+      minTypeConfidence: filters.minTypeConfidence,
+    },
+    maxResults: plan.maxResults,
+    profile,
+    channelAverages: false,
+  });
+  return videos;
+}
+
+/**
+ * 주기 작업: 실행 시점이 된 저장된 검색을 마지막 성공이 오래된 순으로 실행
+ * - 검색 1페이지 + 영상·채널 상세 비용이 예산에 남지 않으면 생략 (skipped: "savedSearch:<id>")
+ * - YouTube API 오류는 해당 검색에만 기록하고 다음 검색 계속
+ */
+export async function runDueSavedSearches(params: {
+  keyPool: ApiKeyPool;
+  quota: QuotaTracker;
+  now?: Date;
+}): Promise<{ due: number; ran: number; failed: number; alerts: number; notified: number }> {
+  const { quota } = params;
+  const now = params.now ?? new Date();
+  const data = await store.read();
+  const jobs = Object.entries(data)
+    .flatMap(([userId, list]) =>
+      list.filter((s) => isSavedSearchDue(s, now.getTime())).map((search) => ({ userId, search }))
+    )
+    .sort((a, b) => (a.search.lastSuccessAt ?? "").localeCompare(b.search.lastSuccessAt ?? ""));
+
+  let ran = 0;
+  let failed = 0;
+  let alerts = 0;
+  let notified = 0;
+  for (const { userId, search } of jobs) {
+    const durations = getVideoTypeSearchParams(search.filters.videoType).videoDurations.length;
+    if (!quota.canAfford(searchPageCost(durations) + searchDetailReserve(durations * 50))) {
+      quota.markSkipped(`savedSearch:${search.id}`);
+      continue;
+    }
+
+    const usedBefore = quota.used;
+    let videos: VideoResult[] | null = null;
+    let error: string | null = null;
+    try {
+      videos = await executeSavedSearch(userId, search.filters, params);
+    } catch (err) {
+      if (!(err instanceof YouTubeAPIError)) throw err;
+      error = err.message;
+    }
+
+    const changes = videos ? diffSavedSearchResults(search.baseline, videos, now) : [];
+    // 실행 중에 삭제된 검색이면 결과를 버림
+    const stillSaved = await store.update((latest) => {
+      const target = latest[userId]?.find((s) => s.id === search.id);
+      if (!target) return false;
+      target.lastRun = {
+        at: now.toISOString(),
+        total: videos?.length ?? 0,
+        quotaUsed: quota.used - usedBefore,
+        alerts: changes.length,
+        error,
+      };
+      if (videos) {
+        target.lastSuccessAt = now.toISOString();
+        target.baseline = mergeSavedSearchBaseline(target.baseline, videos, now);
+      }
+      return true;
+    });
+    if (!stillSaved) continue;
+
+    if (videos) {
+      ran += 1;
+      const items = await pushInboxItems(
+        userId,
+        changes.map(({ kind, previousScore, video }) => ({
+          savedSearchId: search.id,
+          keyword: search.filters.keyword,
+          kind,
+          previousScore,
+          video: toInboxVideo(video),
+          score: video.performanceScore,
+        })),
+        now
+      );
+      alerts += items.length;
+      const delivery = await dispatchNotifications(
+        userId,
+        changes.map(({ kind, video }) => savedSearchEvent(search.filters.keyword, kind, video)),
+        { now }
+      );
+      notified += delivery.sent;
+    } else {
+      failed += 1;
+    }
+  }
+  return { due: jobs.length, ran, failed, alerts, notified };
+}
@@ -0,0 +1,99 @@
+/**
+ * profileStore.ts
+ * 사용자별 점수 기준 설정 저장 (선택한 프로필 + 사용자 정의 프로필 목록)
+ * - 검색·채널 분석 요청에 프로필을 지정하지 않으면 저장된 선택을 사용
+ */
+
+import { randomBytes } from "node:crypto";
+import { JsonStore } from "@/lib/store/jsonStore";
+import {
+  DEFAULT_SCORING_PROFILE,
+  DEFAULT_SCORING_PROFILE_ID,
+  SCORING_PRESETS,
+  isScoringPresetId,
+  type ScoringProfile,
+} from "./profiles";
+
+/** 사용자당 사용자 정의 프로필 최대 개수 */
+export const MAX_CUSTOM_PROFILES = 10;
+
+export interface ScoringSettings {
+  /** 선택한 프로필 ID (프리셋 또는 사용자 정의) */
+  selected: string;
+  custom: ScoringProfile[];
+}
+
+const store = new JsonStore<Record<string, ScoringSettings>>("scoringProfiles.json", () => ({}));
+
+function emptySettings(): ScoringSettings {
+  return { selected: DEFAULT_SCORING_PROFILE_ID, custom: [] };
+}
+
+export async function getScoringSettings(userId: string): Promise<ScoringSettings> {
+  return (await store.read())[userId] ?? emptySettings();
+}
+
+/**
+ * 프로필 ID → 프로필 (프리셋 → 사용자 정의 순)
+ * id가 없으면 사용자가 저장한 선택, 비로그인이면 기본 프리셋
+ * @returns 알 수 없는 ID면 null
+ */
+export async function resolveScoringProfile(
+  userId: string | null,
+  id?: string | null
+): Promise<ScoringProfile | null> {
+  const settings = userId ? await getScoringSettings(userId) : emptySettings();
+  const target = id ?? settings.selected;
+  if (isScoringPresetId(target)) return SCORING_PRESETS[target];
+  const custom = settings.custom.find((p) => p.id === target);
+  if (custom) return custom;
+  // 저장된 선택이 삭제된 프로필이면 기본값으로 (요청에서 지정한 ID는 오류)
+  return id ? null : DEFAULT_SCORING_PROFILE;
+}
+
+/**
+ * 사용자 정의 프로필 저장 (id가 있으면 해당 프로필 수정)
+ * @returns 저장된 프로필, 개수 초과·없는 ID면 null
+ */
+export async function saveCustomProfile(
+  userId: string,
+  profile: Omit<ScoringProfile, "id" | "updatedAt">,
+  id?: string
+): Promise<ScoringProfile | null> {
+  const updatedAt = new Date().toISOString();
+  return store.update((data) => {
+    const settings = (data[userId] ??= emptySettings());
+    if (id) {
+      const index = settings.custom.findIndex((p) => p.id === id);
+      if (index < 0) return null;
+      settings.custom[index] = { ...profile, id, updatedAt };
+      return settings.custom[index];
+    }
+    if (settings.custom.length >= MAX_CUSTOM_PROFILES) return null;
+    const created = { ...profile, id: `custom-${randomBytes(6).toString("hex")}`, updatedAt };
+    settings.custom.push(created);
+    return created;
+  });
+}
+
+/** 사용자 정의 프로필 삭제 (선택 중이었으면 기본 프리셋으로) */
+export async function deleteCustomProfile(userId: string, id: string): Promise<boolean> {
+  return store.update((data) => {
+    const settings = data[userId];
+    if (!settings) return false;
+    const before = settings.custom.length;
+    settings.custom = settings.custom.filter((p) => p.id !== id);
+    if (settings.selected === id) settings.selected = DEFAULT_SCORING_PROFILE_ID;
+    return settings.custom.length < before;
+  });
+}
+
+/** 선택 프로필 저장 (알 수 없는 ID면 false) */
+export async function selectScoringProfile(userId: string, id: string): Promise<boolean> {
+  return store.update((data) => {
+    const settings = (data[userId] ??= emptySettings());
+    if (!isScoringPresetId(id) && !settings.custom.some((p) => p.id === id)) return false;
+    settings.selected = id;
+    return true;
+  });
+}
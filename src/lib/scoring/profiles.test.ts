@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { isScoringPresetId, parseCustomProfile, SCORING_PRESETS } from "./profiles";
+
+const valid = {
+  name: "  게임 채널  ",
+  performance: [3, 2, 1, 0.5],
+  contribution: [10, 5, 1, 0.5],
+  minViewToSubscriberRatio: 0.5,
+};
+
+describe("parseCustomProfile", () => {
+  it("유효한 입력은 이름을 다듬어 반환", () => {
+    expect(parseCustomProfile(valid)).toEqual({ ...valid, name: "게임 채널" });
+  });
+
+  it("핵심 필터 null(사용 안 함) 허용", () => {
+    const parsed = parseCustomProfile({ ...valid, minViewToSubscriberRatio: null });
+    expect(typeof parsed).toBe("object");
+  });
+
+  it.each([
+    ["이름 없음", { ...valid, name: " " }],
+    ["이름 30자 초과", { ...valid, name: "가".repeat(31) }],
+    ["경계값 개수 부족", { ...valid, performance: [3, 2, 1] }],
+    ["오름차순", { ...valid, performance: [0.5, 1, 2, 3] }],
+    ["같은 값", { ...valid, contribution: [5, 5, 1, 0.5] }],
+    ["0 이하", { ...valid, contribution: [5, 3, 1, 0] }],
+    ["숫자 아님", { ...valid, performance: ["3", 2, 1, 0.5] }],
+    ["음수 배수", { ...valid, minViewToSubscriberRatio: -1 }],
+    ["배수 누락", { ...valid, minViewToSubscriberRatio: undefined }],
+  ])("%s → 오류 메시지", (_, input) => {
+    expect(typeof parseCustomProfile(input)).toBe("string");
+  });
+});
+
+describe("SCORING_PRESETS", () => {
+  it("모든 프리셋의 경계값이 내림차순이고 id가 키와 같음", () => {
+    for (const [key, preset] of Object.entries(SCORING_PRESETS)) {
+      expect(preset.id).toBe(key);
+      expect(typeof parseCustomProfile(preset)).toBe("object");
+    }
+  });
+
+  it("프로토타입 속성은 프리셋 ID가 아님", () => {
+    expect(isScoringPresetId("discovery")).toBe(true);
+    expect(isScoringPresetId("toString")).toBe(false);
+  });
+});
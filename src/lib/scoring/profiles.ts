@@ -0,0 +1,114 @@
+/**
+ * profiles.ts
+ * 점수 기준(스코어링 프로필) — 성과도·기여도 5단계 경계값과 핵심 필터(조회수 >= 구독자 수 × 배수)
+ * - 이름 있는 프리셋 + 사용자 정의 프로필 (저장은 profileStore.ts)
+ * - 브라우저에서도 import 가능 (프리셋 목록·입력 검증)
+ */
+
+// ─── 타입 ─────────────────────────────────────────────────────────────────────
+
+/** 점수 5·4·3·2의 최소 비율 (내림차순, 마지막 값 미만은 1점) */
+export type ScoreThresholds = [number, number, number, number];
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  /** 성과도: 조회수 / 구독자 수 */
+  performance: ScoreThresholds;
+  /** 기여도: 조회수 / 채널 평균 조회수 */
+  contribution: ScoreThresholds;
+  /** 핵심 필터: 조회수 >= 구독자 수 × 이 값 (null이면 필터 없음) */
+  minViewToSubscriberRatio: number | null;
+  /** 사용자 정의 프로필의 마지막 저장 시각 (프리셋은 없음) */
+  updatedAt?: string;
+}
+
+/** 결과에 기록하는 프로필 식별 정보 */
+export type ScoringProfileRef = Pick<ScoringProfile, "id" | "name">;
+
+export type ScoringPresetId = "default" | "largeChannel" | "smallChannel" | "discovery";
+
+// ─── 프리셋 ───────────────────────────────────────────────────────────────────
+
+export const SCORING_PRESETS: Record<ScoringPresetId, ScoringProfile & { description: string }> = {
+  default: {
+    id: "default",
+    name: "기본",
+    description: "구독자 이상 조회된 영상만, 성과도 500/300/100/50%",
+    performance: [5, 3, 1, 0.5],
+    contribution: [10, 5, 1, 0.5],
+    minViewToSubscriberRatio: 1,
+  },
+  largeChannel: {
+    id: "largeChannel",
+    name: "대형 채널",
+    description: "구독자 대비 30%만 넘어도 포함, 100%면 Excellent",
+    performance: [1, 0.6, 0.3, 0.15],
+    contribution: [5, 3, 1, 0.5],
+    minViewToSubscriberRatio: 0.3,
+  },
+  smallChannel: {
+    id: "smallChannel",
+    name: "소형 채널",
+    description: "구독자 10배 이상이어야 Excellent",
+    performance: [10, 5, 2, 1],
+    contribution: [10, 5, 1, 0.5],
+    minViewToSubscriberRatio: 1,
+  },
+  discovery: {
+    id: "discovery",
+    name: "전체 보기",
+    description: "핵심 필터 없이 모든 영상 표시 (기본 점수 기준)",
+    performance: [5, 3, 1, 0.5],
+    contribution: [10, 5, 1, 0.5],
+    minViewToSubscriberRatio: null,
+  },
+};
+
+export const DEFAULT_SCORING_PROFILE_ID: ScoringPresetId = "default";
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = SCORING_PRESETS.default;
+
+export function isScoringPresetId(id: unknown): id is ScoringPresetId {
+  return typeof id === "string" && Object.hasOwn(SCORING_PRESETS, id);
+}
+
+export function toProfileRef(profile: ScoringProfile): ScoringProfileRef {
+  return { id: profile.id, name: profile.name };
+}
+
+// ─── 사용자 정의 프로필 검증 ──────────────────────────────────────────────────
+
+const MAX_PROFILE_NAME_LENGTH = 30;
+
+function parseThresholds(value: unknown): ScoreThresholds | null {
+  if (!Array.isArray(value) || value.length !== 4) return null;
+  if (!value.every((n) => typeof n === "number" && Number.isFinite(n) && n > 0)) return null;
+  // 내림차순(엄격)이어야 5단계가 모두 의미를 가짐
+  if (!value.every((n, i) => i === 0 || n < value[i - 1])) return null;
+  return value as ScoreThresholds;
+}
+
+/**
+ * 입력값 → 사용자 정의 프로필 (id 제외)
+ * @returns 오류 메시지 문자열 또는 프로필
+ */
+export function parseCustomProfile(input: unknown): Omit<ScoringProfile, "id"> | string {
+  const raw = (input ?? {}) as Record<string, unknown>;
+  const name = typeof raw.name === "string" ? raw.name.trim() : "";
+  if (!name || name.length > MAX_PROFILE_NAME_LENGTH) {
+    return `이름은 1~${MAX_PROFILE_NAME_LENGTH}자로 입력해 주세요.`;
+  }
+
+  const performance = parseThresholds(raw.performance);
+  const contribution = parseThresholds(raw.contribution);
+  if (!performance || !contribution) {
+    return "점수 경계값은 0보다 큰 숫자 4개를 큰 값부터 차례로 입력해 주세요.";
+  }
+
+  const ratio = raw.minViewToSubscriberRatio;
+  if (ratio !== null && (typeof ratio !== "number" || !Number.isFinite(ratio) || ratio < 0)) {
+    return "핵심 필터 배수는 0 이상의 숫자이거나 사용 안 함이어야 합니다.";
+  }
+
+  return { name, performance, contribution, minViewToSubscriberRatio: ratio };
+}
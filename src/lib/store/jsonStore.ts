@@ -0,0 +1,64 @@
+/**
+ * jsonStore.ts
+ * 서버 측 영속 데이터용 JSON 파일 저장소
+ * - 저장 경로: DATA_DIR 환경 변수 (기본 .data)
+ * - 같은 파일에 대한 갱신은 프로세스 내에서 순서대로 실행 (읽기-수정-쓰기 경합 방지)
+ * - 쓰기는 임시 파일 + rename으로 원자적으로 수행
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+/** 데이터 디렉터리 (요청 시점에 읽어 테스트에서 바꿀 수 있도록 함) */
+export function getDataDir(): string {
+  return process.env.DATA_DIR ?? path.join(process.cwd(), ".data");
+}
+
+/** 파일 경로별 갱신 대기열 */
+const writeQueues = new Map<string, Promise<unknown>>();
+
+export class JsonStore<T> {
+  /**
+   * @param name    데이터 디렉터리 내 파일 이름 (예: "keyVault.json")
+   * @param initial 파일이 없거나 손상되었을 때 사용할 초기값
+   */
+  constructor(
+    private readonly name: string,
+    private readonly initial: () => T
+  ) {}
+
+  private get file(): string {
+    return path.join(getDataDir(), this.name);
+  }
+
+  async read(): Promise<T> {
+    try {
+      return JSON.parse(await fs.readFile(this.file, "utf8")) as T;
+    } catch {
+      return this.initial();
+    }
+  }
+
+  /**
+   * 현재 값을 읽어 fn으로 변경한 뒤 저장, fn의 반환값을 돌려줌
+   * fn 안에서 data를 직접 수정하면 됨
+   */
+  update<R>(fn: (data: T) => R | Promise<R>): Promise<R> {
+    const file = this.file;
+    const run = async () => {
+      const data = await this.read();
+      const result = await fn(data);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(data));
+      await fs.rename(tmp, file);
+      return result;
+    };
+
+    const prev = writeQueues.get(file) ?? Promise.resolve();
+    const next = prev.then(run, run);
+    // 실패해도 다음 갱신은 계속 진행
+    writeQueues.set(file, next.catch(() => {}));
+    return next;
+  }
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { ngrams, tokenizeKorean, topTerms } from "./korean";
+
+describe("tokenizeKorean", () => {
+  it("조사 제거, 불용어·자모·숫자·URL 제외", () => {
+    expect(tokenizeKorean("캠핑장에서 텐트를 쳤어요 ㅋㅋㅋ 진짜 2024 https://youtu.be/x 최고!!")).toEqual([
+      "캠핑장",
+      "텐트",
+      "쳤어",
+      "최고",
+    ]);
+  });
+
+  it("2글자 토큰과 영어는 그대로, 대소문자 통일", () => {
+    expect(tokenizeKorean("영상미 GoPro 장비 the Vlog")).toEqual(["영상미", "gopro", "장비", "vlog"]);
+  });
+});
+
+describe("ngrams / topTerms", () => {
+  it("연속 토큰 n-gram", () => {
+    expect(ngrams(["a1", "b2", "c3"], 2)).toEqual(["a1 b2", "b2 c3"]);
+    expect(ngrams(["a1"], 2)).toEqual([]);
+  });
+
+  it("문서 빈도 기준, 한 문서 안 반복은 1회", () => {
+    const docs = [["텐트", "텐트", "텐트"], ["텐트", "의자"], ["의자"], ["버너"]];
+    expect(topTerms(docs)).toEqual([
+      { term: "의자", count: 2 },
+      { term: "텐트", count: 2 },
+    ]);
+    expect(topTerms(docs, { minCount: 1, limit: 1 })).toEqual([{ term: "의자", count: 2 }]);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * korean.ts
+ * 한국어 텍스트 경량 토큰화 (형태소 분석기 없이 규칙 기반)
+ * - 유니코드 문자·숫자 단위 분리 → 흔한 조사·어미 제거 → 불용어·자모(ㅋㅋ, ㅠㅠ)·숫자 제외
+ * - 댓글·제목 키워드 집계용이므로 정밀도보다 속도와 예측 가능성을 우선
+ * 브라우저 번들에서도 사용할 수 있도록 서버 전용 의존성 없음
+ */
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+/** 한글 토큰 끝에서 떼어내는 조사·어미 (긴 것부터 검사) */
+const PARTICLES = [
+  "에서는", "에게서", "으로는", "이라고", "이에요", "입니다", "습니다",
+  "에서", "에게", "한테", "으로", "이랑", "까지", "부터", "처럼", "보다", "라고", "이나", "네요", "어요", "아요", "해요",
+  "은", "는", "이", "가", "을", "를", "에", "의", "도", "로", "와", "과", "랑", "만", "요",
+].sort((a, b) => b.length - a.length);
+
+const STOPWORDS = new Set([
+  // 한국어
+  "진짜", "정말", "너무", "그냥", "이거", "저거", "그거", "이건", "그건", "이런", "저런", "그런",
+  "하는", "있는", "없는", "같은", "하고", "해서", "근데", "그리고", "그래서", "이제", "제가", "저는",
+  "나는", "우리", "여기", "거기", "영상", "보고", "봤는데", "합니다", "있습니다", "입니다", "같아요",
+  // 영어
+  "the", "a", "an", "and", "or", "is", "are", "to", "of", "in", "on", "for", "it", "this", "that",
+  "i", "you", "my", "so", "be", "with",
+]);
+
+const URL_PATTERN = /https?:\/\/\S+/g;
+const HANGUL_ONLY = /^[가-힣]+$/;
+/** 자모만으로 된 토큰 (ㅋㅋㅋ, ㅠㅠ, ㄷㄷ) */
+const JAMO_ONLY = /^[ㄱ-ㆎ]+$/;
+
+// ─── 토큰화 ───────────────────────────────────────────────────────────────────
+
+/** 3글자 이상 한글 토큰의 조사·어미 제거 (남는 글자가 2자 이상일 때만) */
+function stripParticle(token: string): string {
+  if (token.length < 3 || !HANGUL_ONLY.test(token)) return token;
+  const particle = PARTICLES.find((p) => token.endsWith(p) && token.length - p.length >= 2);
+  return particle ? token.slice(0, -particle.length) : token;
+}
+
+/** 텍스트 → 키워드 토큰 (소문자, 조사 제거, 불용어·1글자·숫자·자모 제외) */
+export function tokenizeKorean(text: string): string[] {
+  const words = text.toLowerCase().replace(URL_PATTERN, " ").match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words
+    .map(stripParticle)
+    .filter(
+      (w) => w.length >= 2 && !STOPWORDS.has(w) && !JAMO_ONLY.test(w) && !/^\p{N}+$/u.test(w)
+    );
+}
+
+/** 연속 토큰 n개를 공백으로 이은 n-gram */
+export function ngrams(tokens: string[], n: number): string[] {
+  const grams: string[] = [];
+  for (let i = 0; i + n <= tokens.length; i++) grams.push(tokens.slice(i, i + n).join(" "));
+  return grams;
+}
+
+// ─── 빈도 집계 ────────────────────────────────────────────────────────────────
+
+export interface TermCount {
+  term: string;
+  /** 해당 표현이 등장한 문서 수 (한 문서 안의 반복은 1회) */
+  count: number;
+}
+
+/**
+ * 문서(토큰 배열) 목록에서 n-gram 문서 빈도 상위 limit개
+ * 같은 문장을 반복하는 댓글 도배가 순위를 독식하지 않도록 문서 빈도 사용
+ */
+export function topTerms(
+  documents: string[][],
+  { n = 1, limit = 20, minCount = 2 }: { n?: number; limit?: number; minCount?: number } = {}
+): TermCount[] {
+  const counts = new Map<string, number>();
+  for (const tokens of documents) {
+    for (const term of new Set(ngrams(tokens, n))) counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  return [...counts]
+    .filter(([, count]) => count >= minCount)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([term, count]) => ({ term, count }));
+}
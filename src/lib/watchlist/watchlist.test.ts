@@ -0,0 +1,151 @@
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  addToWatchlist,
+  calcDeltas,
+  getWatchedVideo,
+  listWatchlist,
+  MAX_WATCHED_VIDEOS,
+  refreshWatchlistSnapshots,
+  removeFromWatchlist,
+  type VideoStatSnapshot,
+} from "./watchlist";
+import { ApiKeyPool } from "@/lib/youtube/keyPool";
+import { QuotaTracker } from "@/lib/youtube/quota";
+import type { YouTubeVideoItem } from "@/lib/youtube/client";
+
+/** 고정 시 서버가 조회한 videos.list(part=snippet 포함) 항목 */
+function video(id: string, viewCount = 1_000): YouTubeVideoItem {
+  return {
+    id,
+    contentDetails: { duration: "PT10M" },
+    statistics: { viewCount: String(viewCount), likeCount: "10" },
+    snippet: {
+      title: `영상 ${id}`,
+      channelId: "UCtest",
+      channelTitle: "채널",
+      publishedAt: "2026-01-01T00:00:00Z",
+      thumbnails: { high: { url: `https://i.ytimg.com/vi/${id}/hqdefault.jpg` } },
+    },
+  };
+}
+
+function snapshot(at: string, viewCount: number, likeCount: number | null = null): VideoStatSnapshot {
+  return { at, viewCount, likeCount, commentCount: null };
+}
+
+/** videos.list 가짜 응답 (요청한 ID마다 같은 통계) */
+const fetchMock = vi.fn(async (input: string | URL) => {
+  const ids = new URL(input.toString()).searchParams.get("id")!.split(",");
+  return new Response(
+    JSON.stringify({
+      items: ids.map((id) => ({
+        id,
+        contentDetails: { duration: "PT10M" },
+        statistics: { viewCount: "5000", likeCount: "50", commentCount: "7" },
+      })),
+    }),
+    { status: 200 }
+  );
+});
+
+let dataDir: string;
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "yt-watchlist-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+  fetchMock.mockClear();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(async () => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("calcDeltas", () => {
+  it("기간 시작 시점 이전의 마지막 스냅샷과 비교", () => {
+    const deltas = calcDeltas([
+      snapshot("2026-03-01T00:00:00Z", 100, 1),
+      snapshot("2026-03-07T00:00:00Z", 700, 7),
+      snapshot("2026-03-08T00:00:00Z", 1_000, 10),
+      snapshot("2026-03-08T12:00:00Z", 1_500, 12),
+    ]);
+    expect(deltas["24h"]).toEqual({ views: 800, likes: 5 });
+    expect(deltas["7d"]).toEqual({ views: 1_400, likes: 11 });
+  });
+
+  it("기록이 기간보다 짧으면 null, 좋아요 비공개면 likes null", () => {
+    const deltas = calcDeltas([snapshot("2026-03-07T00:00:00Z", 100), snapshot("2026-03-08T00:00:00Z", 300)]);
+    expect(deltas["24h"]).toEqual({ views: 200, likes: null });
+    expect(deltas["7d"]).toBeNull();
+    expect(calcDeltas([])).toEqual({ "24h": null, "7d": null });
+  });
+});
+
+describe("워치리스트", () => {
+  it("고정 시 조회한 값으로 메타데이터·첫 스냅샷 기록, 중복 고정은 기존 항목 반환", async () => {
+    await addToWatchlist("u1", video("vid-aaaaaa", 1_234));
+    await addToWatchlist("u1", video("vid-aaaaaa", 9_999));
+
+    const items = await listWatchlist("u1");
+    expect(items).toHaveLength(1);
+    expect(items[0].title).toBe("영상 vid-aaaaaa");
+    expect(items[0].thumbnail).toBe("https://i.ytimg.com/vi/vid-aaaaaa/hqdefault.jpg");
+    expect(items[0].latest).toMatchObject({ viewCount: 1_234, likeCount: 10, commentCount: null });
+    expect((await getWatchedVideo("u1", "vid-aaaaaa"))?.snapshots).toHaveLength(1);
+    expect(await getWatchedVideo("u2", "vid-aaaaaa")).toBeNull();
+  });
+
+  it("사용자당 개수 제한", async () => {
+    for (let i = 0; i < MAX_WATCHED_VIDEOS; i++) {
+      expect(await addToWatchlist("u1", video(`vid-${String(i).padStart(6, "0")}`))).not.toBeNull();
+    }
+    expect(await addToWatchlist("u1", video("vid-overflow"))).toBeNull();
+  });
+
+  it("주기 작업은 모든 사용자의 영상을 중복 없이 50개씩 조회해 기록", async () => {
+    for (let i = 0; i < 40; i++) await addToWatchlist("u1", video(`vid-a${i}`));
+    for (let i = 0; i < 40; i++) await addToWatchlist("u2", video(`vid-b${i}`));
+    await addToWatchlist("u2", video("vid-a0"));
+
+    const now = new Date(Date.now() + 60 * 60 * 1000);
+    const quota = new QuotaTracker(null);
+    const result = await refreshWatchlistSnapshots({ keyPool: new ApiKeyPool(["K"]), quota, now });
+
+    expect(result).toEqual({ watched: 80, recorded: 80 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(quota.used).toBe(2);
+
+    const watched = await getWatchedVideo("u2", "vid-a0");
+    expect(watched?.snapshots).toHaveLength(2);
+    expect(watched?.item.latest).toEqual({
+      at: now.toISOString(),
+      viewCount: 5_000,
+      likeCount: 50,
+      commentCount: 7,
+    });
+  });
+
+  it("최근 스냅샷이 있는 영상은 조회하지 않고, 고정 해제된 영상의 스냅샷은 삭제", async () => {
+    await addToWatchlist("u1", video("vid-recent"));
+    await addToWatchlist("u1", video("vid-removed"));
+    await removeFromWatchlist("u1", "vid-removed");
+
+    const result = await refreshWatchlistSnapshots({
+      keyPool: new ApiKeyPool(["K"]),
+      quota: new QuotaTracker(null),
+    });
+    expect(result).toEqual({ watched: 1, recorded: 0 });
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await addToWatchlist("u1", video("vid-removed", 777));
+    // 이전 스냅샷이 삭제됐으므로 다시 고정하면 새 첫 스냅샷
+    const readded = await getWatchedVideo("u1", "vid-removed");
+    expect(readded?.snapshots).toHaveLength(1);
+    expect(readded?.item.latest?.viewCount).toBe(777);
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * watchlist.ts
+ * 워치리스트 — 고정한 영상의 조회수·좋아요·댓글 수를 시간별로 기록
+ * - YouTube API는 현재 값만 제공하므로 주기 작업(/api/cron/watchlist)이 스냅샷을 누적
+ * - 고정 목록은 사용자별, 스냅샷은 영상별로 공유 (같은 영상을 여러 명이 고정해도 1회 조회)
+ */
+
+import { JsonStore } from "@/lib/store/jsonStore";
+import { fetchInChunks, getVideoDetails, type YouTubeVideoItem } from "@/lib/youtube/client";
+import type { ApiKeyPool } from "@/lib/youtube/keyPool";
+import type { QuotaTracker } from "@/lib/youtube/quota";
+import { CACHE_TTL_MS } from "@/lib/youtube/cache";
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+/** 사용자당 고정 가능한 영상 수 */
+export const MAX_WATCHED_VIDEOS = 50;
+/** 영상당 보관 스냅샷 수 (1시간 간격 기준 약 60일) */
+export const MAX_SNAPSHOTS_PER_VIDEO = 1_440;
+
+/** 스냅샷 최소 간격 — videos.list 응답 캐시 TTL보다 짧으면 같은 값이 중복 기록됨 */
+export const MIN_SNAPSHOT_INTERVAL_MS = CACHE_TTL_MS.videos;
+
+const HOUR_MS = 60 * 60 * 1000;
+export const DELTA_WINDOWS = { "24h": 24 * HOUR_MS, "7d": 7 * 24 * HOUR_MS } as const;
+
+// ─── 타입 ─────────────────────────────────────────────────────────────────────
+
+export interface WatchedVideo {
+  videoId: string;
+  title: string;
+  thumbnail: string;
+  channelId: string;
+  channelTitle: string;
+  publishedAt: string;
+  addedAt: string;
+}
+
+export interface VideoStatSnapshot {
+  at: string;
+  viewCount: number;
+  /** 비공개면 null */
+  likeCount: number | null;
+  /** 댓글 사용 중지 또는 댓글 수가 없던 이전 검색 결과에서 고정했으면 null */
+  commentCount: number | null;
+}
+
+export type DeltaWindow = keyof typeof DELTA_WINDOWS;
+
+/** 기간별 증가량 (해당 기간 이전 스냅샷이 없으면 null) */
+export type StatDeltas = Record<DeltaWindow, { views: number; likes: number | null } | null>;
+
+export interface WatchlistItem extends WatchedVideo {
+  latest: VideoStatSnapshot | null;
+  deltas: StatDeltas;
+}
+
+// ─── 저장소 ───────────────────────────────────────────────────────────────────
+
+const watchStore = new JsonStore<Record<string, WatchedVideo[]>>("watchlist.json", () => ({}));
+const snapshotStore = new JsonStore<Record<string, VideoStatSnapshot[]>>(
+  "videoSnapshots.json",
+  () => ({})
+);
+
+function parseCount(value: string | undefined): number | null {
+  return value !== undefined ? parseInt(value) : null;
+}
+
+function appendSnapshot(
+  data: Record<string, VideoStatSnapshot[]>,
+  videoId: string,
+  snapshot: VideoStatSnapshot
+): void {
+  const list = (data[videoId] ??= []);
+  list.push(snapshot);
+  if (list.length > MAX_SNAPSHOTS_PER_VIDEO) list.splice(0, list.length - MAX_SNAPSHOTS_PER_VIDEO);
+}
+
+// ─── 증가량 계산 ──────────────────────────────────────────────────────────────
+
+/**
+ * 최신 스냅샷과 기간 시작 시점(최신 - 기간) 이전의 마지막 스냅샷 비교
+ * @param snapshots 오래된 순
+ */
+export function calcDeltas(snapshots: VideoStatSnapshot[]): StatDeltas {
+  const deltas: StatDeltas = { "24h": null, "7d": null };
+  const latest = snapshots.at(-1);
+  if (!latest) return deltas;
+
+  const latestMs = new Date(latest.at).getTime();
+  for (const [window, ms] of Object.entries(DELTA_WINDOWS) as [DeltaWindow, number][]) {
+    const base = snapshots.findLast((s) => new Date(s.at).getTime() <= latestMs - ms);
+    if (!base) continue;
+    deltas[window] = {
+      views: latest.viewCount - base.viewCount,
+      likes:
+        latest.likeCount !== null && base.likeCount !== null
+          ? latest.likeCount - base.likeCount
+          : null,
+    };
+  }
+  return deltas;
+}
+
+// ─── 공개 API ─────────────────────────────────────────────────────────────────
+
+export async function listWatchlist(userId: string): Promise<WatchlistItem[]> {
+  const [watched, snapshots] = await Promise.all([watchStore.read(), snapshotStore.read()]);
+  return (watched[userId] ?? []).map((video) => {
+    const list = snapshots[video.videoId] ?? [];
+    return { ...video, latest: list.at(-1) ?? null, deltas: calcDeltas(list) };
+  });
+}
+
+export async function getWatchedVideo(
+  userId: string,
+  videoId: string
+): Promise<{ item: WatchlistItem; snapshots: VideoStatSnapshot[] } | null> {
+  const video = (await watchStore.read())[userId]?.find((v) => v.videoId === videoId);
+  if (!video) return null;
+  const snapshots = (await snapshotStore.read())[videoId] ?? [];
+  return {
+    item: { ...video, latest: snapshots.at(-1) ?? null, deltas: calcDeltas(snapshots) },
+    snapshots,
+  };
+}
+
+/**
+ * 영상 고정 — 스냅샷이 없으면 서버에서 조회한 현재 값을 첫 스냅샷으로 기록
+ * 스냅샷은 모든 사용자가 공유하므로 클라이언트가 보낸 값은 쓰지 않음 (videos.list part=snippet 응답만)
+ * @returns 고정한 영상, 이미 고정했으면 기존 항목, 개수 초과면 null
+ */
+export async function addToWatchlist(userId: string, item: YouTubeVideoItem): Promise<WatchedVideo | null> {
+  const added = await watchStore.update((data) => {
+    const list = (data[userId] ??= []);
+    const existing = list.find((v) => v.videoId === item.id);
+    if (existing) return existing;
+    if (list.length >= MAX_WATCHED_VIDEOS) return null;
+    const entry: WatchedVideo = {
+      videoId: item.id,
+      title: item.snippet?.title ?? "",
+      thumbnail: item.snippet?.thumbnails?.high?.url ?? item.snippet?.thumbnails?.medium?.url ?? "",
+      channelId: item.snippet?.channelId ?? "",
+      channelTitle: item.snippet?.channelTitle ?? "",
+      publishedAt: item.snippet?.publishedAt ?? "",
+      addedAt: new Date().toISOString(),
+    };
+    list.push(entry);
+    return entry;
+  });
+  if (!added) return null;
+
+  await snapshotStore.update((data) => {
+    if (data[item.id]?.length) return;
+    appendSnapshot(data, item.id, {
+      at: new Date().toISOString(),
+      viewCount: parseCount(item.statistics.viewCount) ?? 0,
+      likeCount: parseCount(item.statistics.likeCount),
+      commentCount: parseCount(item.statistics.commentCount),
+    });
+  });
+  return added;
+}
+
+/** 이미 고정했는지와 고정 개수 (고정 전 조회 비용을 쓸지 판단) */
+export async function watchlistStatus(
+  userId: string,
+  videoId: string
+): Promise<{ watched: WatchedVideo | null; count: number }> {
+  const list = (await watchStore.read())[userId] ?? [];
+  return { watched: list.find((v) => v.videoId === videoId) ?? null, count: list.length };
+}
+
+export async function removeFromWatchlist(userId: string, videoId: string): Promise<boolean> {
+  return watchStore.update((data) => {
+    const list = data[userId] ?? [];
+    data[userId] = list.filter((v) => v.videoId !== videoId);
+    return data[userId].length < list.length;
+  });
+}
+
+/** 모든 사용자가 고정한 영상 ID (중복 제거) */
+export async function watchedVideoIds(): Promise<string[]> {
+  const data = await watchStore.read();
+  return [...new Set(Object.values(data).flatMap((list) => list.map((v) => v.videoId)))];
+}
+
+/** 고정한 영상이 있는 사용자 ID */
+export async function watchlistUserIds(): Promise<string[]> {
+  const data = await watchStore.read();
+  return Object.keys(data).filter((userId) => data[userId].length > 0);
+}
+
+/** videos.list 결과를 같은 시각의 스냅샷으로 기록, 더 이상 고정한 사용자가 없는 영상은 스냅샷 삭제 */
+export async function recordSnapshots(items: YouTubeVideoItem[], at = new Date()): Promise<number> {
+  return snapshotStore.update(async (data) => {
+    // 조회 중에 새로 고정된 영상의 첫 스냅샷을 지우지 않도록 저장 직전 목록 기준
+    const watched = new Set(await watchedVideoIds());
+    for (const id of Object.keys(data)) {
+      if (!watched.has(id)) delete data[id];
+    }
+    let recorded = 0;
+    for (const item of items) {
+      if (!watched.has(item.id)) continue;
+      appendSnapshot(data, item.id, {
+        at: at.toISOString(),
+        viewCount: parseCount(item.statistics.viewCount) ?? 0,
+        likeCount: parseCount(item.statistics.likeCount),
+        commentCount: parseCount(item.statistics.commentCount),
+      });
+      recorded += 1;
+    }
+    return recorded;
+  });
+}
+
+/**
+ * 주기 작업: 고정된 영상 중 마지막 스냅샷이 MIN_SNAPSHOT_INTERVAL_MS 이상 지난 영상을
+ * 50개씩 videos.list로 조회해 스냅샷 기록 (영상 50개당 1 unit)
+ */
+export async function refreshWatchlistSnapshots(params: {
+  keyPool: ApiKeyPool;
+  quota: QuotaTracker;
+  now?: Date;
+}): Promise<{ watched: number; recorded: number }> {
+  const now = params.now ?? new Date();
+  const ids = await watchedVideoIds();
+  const snapshots = await snapshotStore.read();
+  const due = ids.filter((id) => {
+    const last = snapshots[id]?.at(-1);
+    return !last || now.getTime() - new Date(last.at).getTime() >= MIN_SNAPSHOT_INTERVAL_MS;
+  });
+  const items = await fetchInChunks(due, 50, (chunk) =>
+    getVideoDetails({ apiKey: params.keyPool, quota: params.quota, videoIds: chunk })
+  );
+  const recorded = await recordSnapshots(items, now);
+  return { watched: ids.length, recorded };
+}
@@ -0,0 +1,361 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  buildAndFilterResults,
+  calcChannelAvgViews,
+  calcContributionScore,
+  calcPerformanceScore,
+  calcVelocityMetrics,
+  formatCount,
+  formatKoreanNumber,
+  formatRatio,
+} from "./analysis";
+import type {
+  YouTubeChannelItem,
+  YouTubeSearchItem,
+  YouTubeVideoItem,
+} from "./client";
+import { SCORING_PRESETS, type ScoringProfile } from "@/lib/scoring/profiles";
+
+// ─── 테스트 데이터 빌더 ───────────────────────────────────────────────────────
+
+function searchItem(videoId: string, channelId: string): YouTubeSearchItem {
+  return {
+    id: { videoId },
+    snippet: {
+      publishedAt: "2026-01-01T00:00:00Z",
+      channelId,
+      title: `영상 ${videoId}`,
+      thumbnails: { high: { url: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`, width: 480, height: 360 } },
+      channelTitle: `채널 ${channelId}`,
+    },
+  };
+}
+
+function videoItem(
+  id: string,
+  viewCount: number,
+  duration = "PT10M",
+  likeCount?: number,
+  commentCount?: number
+): YouTubeVideoItem {
+  return {
+    id,
+    contentDetails: { duration },
+    statistics: {
+      viewCount: String(viewCount),
+      likeCount: likeCount === undefined ? undefined : String(likeCount),
+      commentCount: commentCount === undefined ? undefined : String(commentCount),
+    },
+  };
+}
+
+function channelItem(id: string, subscriberCount: number, videoCount = 100): YouTubeChannelItem {
+  return {
+    id,
+    statistics: { subscriberCount: String(subscriberCount), videoCount: String(videoCount) },
+  };
+}
+
+// ─── 점수 경계값 ──────────────────────────────────────────────────────────────
+
+describe("calcPerformanceScore", () => {
+  it.each([
+    [5, 5, "Excellent"],
+    [4.99, 4, "Great"],
+    [3, 4, "Great"],
+    [2.99, 3, "Good"],
+    [1, 3, "Good"],
+    [0.99, 2, "Normal"],
+    [0.5, 2, "Normal"],
+    [0.49, 1, "Bad"],
+    [0, 1, "Bad"],
+  ])("ratio %s → %s점 %s", (ratio, score, label) => {
+    const info = calcPerformanceScore(ratio);
+    expect(info.score).toBe(score);
+    expect(info.label).toBe(label);
+  });
+});
+
+describe("calcContributionScore", () => {
+  it.each([
+    [1000, 5, "Excellent"],
+    [999, 4, "Great"],
+    [500, 4, "Great"],
+    [499, 3, "Good"],
+    [100, 3, "Good"],
+    [99, 2, "Normal"],
+    [50, 2, "Normal"],
+    [49, 1, "Bad"],
+  ])("views %s / avg 100 → %s점 %s", (views, score, label) => {
+    const info = calcContributionScore(views, 100);
+    expect(info?.score).toBe(score);
+    expect(info?.label).toBe(label);
+  });
+
+  it("채널 평균이 0 이하이면 null", () => {
+    expect(calcContributionScore(100, 0)).toBeNull();
+    expect(calcContributionScore(100, -1)).toBeNull();
+  });
+});
+
+describe("calcChannelAvgViews", () => {
+  const samples = [
+    videoItem("a", 1000, "PT10M"),
+    videoItem("b", 3000, "PT20M"),
+    videoItem("c", 90000, "PT50S"),
+  ];
+
+  it("videoType에 맞는 영상만 평균에 포함", () => {
+    expect(calcChannelAvgViews(samples, "longform")).toBe(2000);
+    expect(calcChannelAvgViews(samples, "shorts")).toBe(90000);
+  });
+
+  it("해당 타입 영상이 없으면 0", () => {
+    expect(calcChannelAvgViews([videoItem("a", 1000, "PT10M")], "shorts")).toBe(0);
+  });
+});
+
+// ─── 속도 지표 ────────────────────────────────────────────────────────────────
+
+describe("calcVelocityMetrics", () => {
+  const now = new Date("2026-03-01T00:00:00Z").getTime();
+
+  it("경과일로 나눈 일평균 조회수·좋아요와 30일 환산 성과도", () => {
+    const metrics = calcVelocityMetrics(10_000, 300, 1_000, "2026-02-19T00:00:00Z", undefined, now);
+    expect(metrics).toMatchObject({ ageDays: 10, viewsPerDay: 1_000, likesPerDay: 30, ageAdjustedRatio: 30 });
+    expect(metrics?.ageAdjustedScore.label).toBe("Excellent");
+  });
+
+  it("오래된 영상은 누적 비율이 높아도 기간 보정 점수가 낮음", () => {
+    const old = calcVelocityMetrics(5_000, null, 1_000, "2021-03-01T00:00:00Z", undefined, now);
+    expect(old?.likesPerDay).toBeNull();
+    expect(old?.ageAdjustedScore.label).toBe("Bad");
+  });
+
+  it("하루 미만은 1일로 계산, 게시일을 해석할 수 없으면 null", () => {
+    expect(calcVelocityMetrics(500, null, 1_000, "2026-02-28T20:00:00Z", undefined, now)?.ageDays).toBe(1);
+    expect(calcVelocityMetrics(500, null, 1_000, "not a date", undefined, now)).toBeNull();
+  });
+});
+
+// ─── 병합 및 필터링 ───────────────────────────────────────────────────────────
+
+describe("buildAndFilterResults", () => {
+  it("조회수 >= 구독자 수인 영상만 남김 (경계값 포함)", () => {
+    const results = buildAndFilterResults(
+      [searchItem("eq", "ch"), searchItem("below", "ch"), searchItem("above", "ch")],
+      [videoItem("eq", 1000), videoItem("below", 999), videoItem("above", 5000)],
+      [channelItem("ch", 1000)],
+      "longform",
+      new Map()
+    );
+    expect(results.map((r) => r.id)).toEqual(["above", "eq"]);
+  });
+
+  it("상세 정보가 없거나 구독자 수가 0인 채널의 영상은 제외", () => {
+    const results = buildAndFilterResults(
+      [searchItem("noVideo", "ch"), searchItem("noChannel", "missing"), searchItem("zero", "zeroCh")],
+      [videoItem("noChannel", 100), videoItem("zero", 100)],
+      [channelItem("ch", 10), channelItem("zeroCh", 0)],
+      "longform",
+      new Map()
+    );
+    expect(results).toEqual([]);
+  });
+
+  it("duration이 videoType과 맞지 않으면 제외", () => {
+    const results = buildAndFilterResults(
+      [searchItem("short", "ch"), searchItem("long", "ch")],
+      [videoItem("short", 500, "PT50S"), videoItem("long", 500, "PT10M")],
+      [channelItem("ch", 100)],
+      "shorts",
+      new Map()
+    );
+    expect(results.map((r) => r.id)).toEqual(["short"]);
+  });
+
+  it("3분 이하 가로 영상은 롱폼으로, /shorts/ URL 확인 결과가 있으면 그대로 분류", () => {
+    const horizontal = { ...videoItem("wide", 500, "PT2M"), player: { embedWidth: 720, embedHeight: 405 } };
+    const vertical = { ...videoItem("tall", 500, "PT2M"), player: { embedWidth: 405, embedHeight: 720 } };
+    const build = (videoType: "shorts" | "longform", probes?: Map<string, boolean>) =>
+      buildAndFilterResults(
+        [searchItem("wide", "ch"), searchItem("tall", "ch"), searchItem("plain", "ch")],
+        [horizontal, vertical, videoItem("plain", 500, "PT50S")],
+        [channelItem("ch", 100)],
+        videoType,
+        new Map(),
+        {},
+        30,
+        undefined,
+        probes
+      );
+
+    const shorts = build("shorts");
+    expect(shorts.map((r) => [r.id, r.shortsConfidence])).toEqual([
+      ["tall", 0.9],
+      ["plain", 0.6],
+    ]);
+    expect(build("longform").map((r) => r.id)).toEqual(["wide"]);
+    expect(build("shorts", new Map([["wide", true], ["plain", false]])).map((r) => r.id)).toEqual([
+      "wide",
+      "tall",
+    ]);
+  });
+
+  it("유형 확신도 기준을 높이면 길이만으로 판단한 영상은 제외", () => {
+    const results = buildAndFilterResults(
+      [searchItem("plain", "ch"), searchItem("tagged", "ch")],
+      [videoItem("plain", 500, "PT50S"), { ...videoItem("tagged", 500, "PT50S"), player: { embedWidth: 405, embedHeight: 720 } }],
+      [channelItem("ch", 100)],
+      "shorts",
+      new Map(),
+      { minTypeConfidence: 0.8 }
+    );
+    expect(results.map((r) => r.id)).toEqual(["tagged"]);
+  });
+
+  it("최소 조회수와 구독자 상한 필터 적용", () => {
+    const search = [searchItem("small", "smallCh"), searchItem("big", "bigCh"), searchItem("low", "smallCh")];
+    const videos = [videoItem("small", 50_000), videoItem("big", 5_000_000), videoItem("low", 2_000)];
+    const channels = [channelItem("smallCh", 1_000), channelItem("bigCh", 1_000_000)];
+
+    const results = buildAndFilterResults(search, videos, channels, "longform", new Map(), {
+      minViewCount: 10_000,
+      maxSubscriberCount: 100_000,
+    });
+    expect(results.map((r) => r.id)).toEqual(["small"]);
+  });
+
+  it("비율·점수 계산 및 성과도 → 비율 순 정렬", () => {
+    const results = buildAndFilterResults(
+      [searchItem("x2", "a"), searchItem("x6", "a"), searchItem("x7", "b")],
+      [videoItem("x2", 2000, "PT10M", 50, 12), videoItem("x6", 6000), videoItem("x7", 7000)],
+      [channelItem("a", 1000), channelItem("b", 1000)],
+      "longform",
+      new Map([["a", 1000]])
+    );
+
+    expect(results.map((r) => r.id)).toEqual(["x7", "x6", "x2"]);
+    const x2 = results.find((r) => r.id === "x2")!;
+    expect(x2.viewToSubscriberRatio).toBe(2);
+    expect(x2.likeToSubscriberRatio).toBe(0.05);
+    expect(x2.commentCount).toBe(12);
+    expect(x2.performanceScore.label).toBe("Good");
+    expect(x2.contributionScore?.label).toBe("Good");
+    expect(x2.channelAvgViews).toBe(1000);
+
+    const x7 = results.find((r) => r.id === "x7")!;
+    expect(x7.likeToSubscriberRatio).toBeNull();
+    expect(x7.commentCount).toBeNull();
+    expect(x7.contributionScore).toBeNull();
+    expect(x7.channelAvgViews).toBeNull();
+  });
+
+  it("게시일 기준 속도 지표 포함", () => {
+    vi.useFakeTimers({ now: new Date("2026-01-11T00:00:00Z") });
+    try {
+      const [result] = buildAndFilterResults(
+        [searchItem("v", "ch")],
+        [videoItem("v", 2_000, "PT10M", 100)],
+        [channelItem("ch", 1_000)],
+        "longform",
+        new Map()
+      );
+      expect(result).toMatchObject({ ageDays: 10, viewsPerDay: 200, likesPerDay: 10, ageAdjustedRatio: 6 });
+      expect(result.ageAdjustedScore?.label).toBe("Excellent");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("maxResults 개수까지만 반환", () => {
+    const ids = ["a", "b", "c", "d"];
+    const results = buildAndFilterResults(
+      ids.map((id) => searchItem(id, "ch")),
+      ids.map((id) => videoItem(id, 1000)),
+      [channelItem("ch", 10)],
+      "longform",
+      new Map(),
+      {},
+      2
+    );
+    expect(results).toHaveLength(2);
+  });
+});
+
+// ─── 점수 기준 ────────────────────────────────────────────────────────────────
+
+describe("점수 기준 적용", () => {
+  const custom: ScoringProfile = {
+    id: "custom-test",
+    name: "테스트",
+    performance: [2, 1, 0.5, 0.2],
+    contribution: [3, 2, 1, 0.5],
+    minViewToSubscriberRatio: 0.5,
+  };
+
+  it("경계값을 지정하면 해당 기준으로 점수 계산", () => {
+    expect(calcPerformanceScore(2, custom.performance).score).toBe(5);
+    expect(calcPerformanceScore(0.3, custom.performance).score).toBe(2);
+    expect(calcContributionScore(300, 100, custom.contribution)?.score).toBe(5);
+  });
+
+  it("핵심 필터 배수 적용, 결과에 점수 기준 기록", () => {
+    const results = buildAndFilterResults(
+      [searchItem("half", "ch"), searchItem("below", "ch")],
+      [videoItem("half", 500), videoItem("below", 499)],
+      [channelItem("ch", 1000)],
+      "longform",
+      new Map(),
+      {},
+      30,
+      custom
+    );
+    expect(results.map((r) => r.id)).toEqual(["half"]);
+    expect(results[0].performanceScore.score).toBe(3);
+    expect(results[0].scoringProfile).toEqual({ id: "custom-test", name: "테스트" });
+  });
+
+  it("핵심 필터가 null이면 구독자보다 적게 조회된 영상도 포함", () => {
+    const results = buildAndFilterResults(
+      [searchItem("low", "ch")],
+      [videoItem("low", 10)],
+      [channelItem("ch", 1000)],
+      "longform",
+      new Map(),
+      {},
+      30,
+      SCORING_PRESETS.discovery
+    );
+    expect(results.map((r) => r.id)).toEqual(["low"]);
+    expect(results[0].scoringProfile.id).toBe("discovery");
+  });
+});
+
+// ─── 포맷 ─────────────────────────────────────────────────────────────────────
+
+describe("formatKoreanNumber / formatRatio", () => {
+  it("한국어 단위로 축약", () => {
+    expect(formatKoreanNumber(999)).toBe("999");
+    expect(formatKoreanNumber(1_500)).toBe("1.5천");
+    expect(formatKoreanNumber(1_234_567)).toBe("123.5만");
+    expect(formatKoreanNumber(250_000_000)).toBe("2.5억");
+  });
+
+  it("비율을 퍼센트로 변환", () => {
+    expect(formatRatio(1.23)).toBe("123%");
+  });
+});
+
+describe("formatCount", () => {
+  it("한국어는 기존 단위, 그 외 언어는 Intl 축약 표기", () => {
+    expect(formatCount(1_234_567)).toBe("123.5만");
+    expect(formatCount(1_234_567, "ko")).toBe("123.5만");
+    expect(formatCount(1_234_567, "en-US")).toBe("1.2M");
+    expect(formatCount(12_000, "ja-JP")).toBe("1.2万");
+  });
+
+  it("잘못된 로케일이면 한국어 단위로 대체", () => {
+    expect(formatCount(1_500, "not a locale!")).toBe("1.5천");
+  });
+});
@@ -1,7 +1,8 @@
 /**
  * analysis.ts
  * 조회수 >= 구독자 수 필터링, 비율 계산, 결과 데이터 포맷 통일
- * 성과도 / 기여도 점수 계산
+ * 성과도 / 기여도 점수 계산 (경계값·핵심 필터는 점수 기준 프로필로 조정 — lib/scoring/profiles.ts)
+ * 업로드 후 경과일 기준 속도 지표 (일평균 조회수·좋아요, 기간 보정 성과도)
  */
 
 import type {
@@ -9,7 +10,19 @@ import type {
   YouTubeVideoItem,
   YouTubeChannelItem,
 } from "./client";
-import { matchesVideoType, type VideoType } from "./videoType";
+import {
+  classifyShorts,
+  extractShortsSignals,
+  matchesTypeConfidence,
+  type VideoType,
+} from "./videoType";
+import {
+  DEFAULT_SCORING_PROFILE,
+  toProfileRef,
+  type ScoreThresholds,
+  type ScoringProfile,
+  type ScoringProfileRef,
+} from "@/lib/scoring/profiles";
 
 // ─── 점수 타입 ────────────────────────────────────────────────────────────────
 
@@ -36,32 +49,40 @@ const SCORE_PALETTE: Record<1 | 2 | 3 | 4 | 5, string> = {
   1: "#64748b",
 };
 
+/** 비율을 경계값(점수 5·4·3·2의 최소 비율)으로 5단계 평가 */
+function scoreByThresholds(ratio: number, [excellent, great, good, normal]: ScoreThresholds): ScoreInfo {
+  if (ratio >= excellent)
+    return { score: 5, label: "Excellent", color: SCORE_PALETTE[5] };
+  if (ratio >= great)
+    return { score: 4, label: "Great", color: SCORE_PALETTE[4] };
+  if (ratio >= good)
+    return { score: 3, label: "Good", color: SCORE_PALETTE[3] };
+  if (ratio >= normal)
+    return { score: 2, label: "Normal", color: SCORE_PALETTE[2] };
+  return { score: 1, label: "Bad", color: SCORE_PALETTE[1] };
+}
+
 // ─── 성과도 계산 (구독자 대비 조회수) ────────────────────────────────────────
 
 /**
- * 성과도: 조회수 / 구독자 수 비율로 5단계 평가
+ * 성과도: 조회수 / 구독자 수 비율로 5단계 평가 (기본 경계값)
  * - 5 Excellent : 500% 이상 (ratio >= 5)
  * - 4 Great     : 300% 이상 (ratio >= 3)
  * - 3 Good      : 100% 이상 (ratio >= 1)
  * - 2 Normal    : 50%  이상 (ratio >= 0.5)
  * - 1 Bad       : 50%  미만 (ratio < 0.5)
  */
-export function calcPerformanceScore(viewToSubscriberRatio: number): ScoreInfo {
-  if (viewToSubscriberRatio >= 5)
-    return { score: 5, label: "Excellent", color: SCORE_PALETTE[5] };
-  if (viewToSubscriberRatio >= 3)
-    return { score: 4, label: "Great", color: SCORE_PALETTE[4] };
-  if (viewToSubscriberRatio >= 1)
-    return { score: 3, label: "Good", color: SCORE_PALETTE[3] };
-  if (viewToSubscriberRatio >= 0.5)
-    return { score: 2, label: "Normal", color: SCORE_PALETTE[2] };
-  return { score: 1, label: "Bad", color: SCORE_PALETTE[1] };
+export function calcPerformanceScore(
+  viewToSubscriberRatio: number,
+  thresholds: ScoreThresholds = DEFAULT_SCORING_PROFILE.performance
+): ScoreInfo {
+  return scoreByThresholds(viewToSubscriberRatio, thresholds);
 }
 
 // ─── 기여도 계산 (채널 평균 대비 조회수) ─────────────────────────────────────
 
 /**
- * 기여도: 해당 영상 조회수 / 채널 평균 조회수 비율로 5단계 평가
+ * 기여도: 해당 영상 조회수 / 채널 평균 조회수 비율로 5단계 평가 (기본 경계값)
  * - 5 Excellent : 1000% 이상 (ratio >= 10)
  * - 4 Great     : 500%  이상 (ratio >= 5)
  * - 3 Good      : 100%  이상 (ratio >= 1)
@@ -72,25 +93,66 @@ export function calcPerformanceScore(viewToSubscriberRatio: number): ScoreInfo {
  */
 export function calcContributionScore(
   viewCount: number,
-  channelAvgViews: number
+  channelAvgViews: number,
+  thresholds: ScoreThresholds = DEFAULT_SCORING_PROFILE.contribution
 ): ScoreInfo | null {
   if (channelAvgViews <= 0) return null;
-  const ratio = viewCount / channelAvgViews;
-  if (ratio >= 10)
-    return { score: 5, label: "Excellent", color: SCORE_PALETTE[5] };
-  if (ratio >= 5)
-    return { score: 4, label: "Great", color: SCORE_PALETTE[4] };
-  if (ratio >= 1)
-    return { score: 3, label: "Good", color: SCORE_PALETTE[3] };
-  if (ratio >= 0.5)
-    return { score: 2, label: "Normal", color: SCORE_PALETTE[2] };
-  return { score: 1, label: "Bad", color: SCORE_PALETTE[1] };
+  return scoreByThresholds(viewCount / channelAvgViews, thresholds);
+}
+
+// ─── 속도 지표 (업로드 후 경과일 기준) ────────────────────────────────────────
+
+/** 기간 보정 성과도의 기준 기간: 30일 동안의 조회수로 환산해 성과도 경계값과 비교 */
+export const VELOCITY_REFERENCE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface VelocityMetrics {
+  /** 업로드 후 경과일 (하루 미만은 1일로 계산) */
+  ageDays: number;
+  viewsPerDay: number;
+  /** likeCount가 없으면 null */
+  likesPerDay: number | null;
+  /** 30일 환산 조회수 / 구독자 수 */
+  ageAdjustedRatio: number;
+  /** 30일 환산 비율을 성과도 경계값으로 평가 — 오래된 스테디셀러보다 지금 뜨는 영상이 높음 */
+  ageAdjustedScore: ScoreInfo;
+}
+
+/**
+ * 업로드일 기준 속도 지표 계산
+ * - 5년 전 영상의 구독자 5배 조회수와 어제 올린 영상의 구독자 50% 조회수를 같은 기준으로 비교
+ *
+ * @returns null - publishedAt을 해석할 수 없는 경우
+ */
+export function calcVelocityMetrics(
+  viewCount: number,
+  likeCount: number | null,
+  subscriberCount: number,
+  publishedAt: string,
+  thresholds: ScoreThresholds = DEFAULT_SCORING_PROFILE.performance,
+  now = Date.now()
+): VelocityMetrics | null {
+  const publishedMs = new Date(publishedAt).getTime();
+  if (Number.isNaN(publishedMs) || subscriberCount <= 0) return null;
+
+  const ageDays = Math.max(1, Math.floor((now - publishedMs) / DAY_MS));
+  const ageAdjustedRatio = parseFloat(
+    ((viewCount / ageDays) * VELOCITY_REFERENCE_DAYS / subscriberCount).toFixed(2)
+  );
+  return {
+    ageDays,
+    viewsPerDay: Math.round(viewCount / ageDays),
+    likesPerDay: likeCount !== null ? parseFloat((likeCount / ageDays).toFixed(1)) : null,
+    ageAdjustedRatio,
+    ageAdjustedScore: scoreByThresholds(ageAdjustedRatio, thresholds),
+  };
 }
 
 /**
  * 채널 영상 샘플에서 videoType에 맞는 평균 조회수 계산
- * - longform: 60초 초과 영상만 포함
- * - shorts  : 60초 이하 영상만 포함
+ * - 영상마다 classifyShorts로 Shorts 확신도를 구해 matchesTypeConfidence(기본 기준)를 만족하는 영상만 포함
+ *   (shorts: 확신도, longform: 1 - 확신도 / 3분 초과는 항상 longform)
+ * - 길이 정보가 없는 영상은 제외
  *
  * @returns 0 - 해당 타입의 영상이 없는 경우
  */
@@ -98,9 +160,10 @@ export function calcChannelAvgViews(
   videoSamples: YouTubeVideoItem[],
   videoType: VideoType
 ): number {
-  const filtered = videoSamples.filter((v) =>
-    matchesVideoType(v.contentDetails.duration, videoType)
-  );
+  const filtered = videoSamples.filter((v) => {
+    const signals = extractShortsSignals(v);
+    return signals.durationSeconds > 0 && matchesTypeConfidence(classifyShorts(signals), videoType);
+  });
   if (filtered.length === 0) return 0;
   const totalViews = filtered.reduce(
     (sum, v) => sum + parseInt(v.statistics.viewCount ?? "0"),
@@ -121,6 +184,8 @@ export interface VideoResult {
   viewCount: number;
   /** YouTube 통계에서 비공개 처리된 경우 null */
   likeCount: number | null;
+  /** 댓글 사용 중지된 경우 null */
+  commentCount: number | null;
   subscriberCount: number;
   totalVideoCount: number;
   /** 조회수 / 구독자 수 */
@@ -129,12 +194,26 @@ export interface VideoResult {
   likeToSubscriberRatio: number | null;
   /** 영상 길이 (ISO 8601) */
   duration: string;
+  /** Shorts일 확신도 (0~1, 길이·화면 비율·#shorts·/shorts/ URL 확인 결합) */
+  shortsConfidence: number;
   /** 성과도: 구독자 대비 조회수 5단계 평가 */
   performanceScore: ScoreInfo;
   /** 기여도: 채널 평균 대비 조회수 5단계 평가 (채널 데이터 없으면 null) */
   contributionScore: ScoreInfo | null;
   /** 기여도 계산에 사용된 채널 평균 조회수 */
   channelAvgViews: number | null;
+  /** 점수와 핵심 필터를 결정한 점수 기준 */
+  scoringProfile: ScoringProfileRef;
+  /** 업로드 후 경과일 (게시일을 알 수 없으면 null, 이하 속도 지표 동일) */
+  ageDays: number | null;
+  /** 일평균 조회수 */
+  viewsPerDay: number | null;
+  /** 일평균 좋아요 (likeCount가 없어도 null) */
+  likesPerDay: number | null;
+  /** 30일 환산 조회수 / 구독자 수 */
+  ageAdjustedRatio: number | null;
+  /** 기간 보정 성과도: 30일 환산 조회수 / 구독자 수를 성과도 경계값으로 평가 */
+  ageAdjustedScore: ScoreInfo | null;
 }
 
 // ─── 데이터 병합 및 필터링 ────────────────────────────────────────────────────
@@ -145,11 +224,13 @@ export interface BuildFilterOptions {
   minViewCount?: number;
   /** 채널 구독자 수 상한 (미설정 시 제한 없음) */
   maxSubscriberCount?: number | null;
+  /** 요청한 유형(Shorts/롱폼)일 최소 확신도 (기본 0.5) */
+  minTypeConfidence?: number;
 }
 
 /**
  * search, video details, channel details 데이터를 병합하여
- * 필터 조건(조회수 >= 구독자 수)을 만족하는 영상 목록 반환
+ * 필터 조건(조회수 >= 구독자 수 × 프로필 배수)을 만족하는 영상 목록 반환
  *
  * @param searchItems    search.list 결과
  * @param videoItems     videos.list 결과
@@ -158,6 +239,8 @@ export interface BuildFilterOptions {
  * @param channelAvgMap  채널ID → 채널 평균 조회수 (기여도 계산용)
  * @param filters        추가 필터 옵션 (최소 조회수, 구독자 상한)
  * @param maxResults     최대 반환 수 (기본 30)
+ * @param profile        점수 경계값·핵심 필터 (기본 프리셋)
+ * @param shortsProbes   영상ID → /shorts/ URL 확인 결과 (Shorts 확신도 보정용)
  */
 export function buildAndFilterResults(
   searchItems: YouTubeSearchItem[],
@@ -166,8 +249,11 @@ export function buildAndFilterResults(
   videoType: VideoType,
   channelAvgMap: Map<string, number>,
   filters: BuildFilterOptions = {},
-  maxResults = 30
+  maxResults = 30,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  shortsProbes: Map<string, boolean> = new Map()
 ): VideoResult[] {
+  const scoringProfile = toProfileRef(profile);
   const videoMap = new Map(videoItems.map((v) => [v.id, v]));
   const channelMap = new Map(channelItems.map((c) => [c.id, c]));
 
@@ -183,15 +269,25 @@ export function buildAndFilterResults(
     const channelDetail = channelMap.get(channelId);
     if (!videoDetail || !channelDetail) continue;
 
-    // duration 재검증
+    // ── 유형 재검증: 길이 + 화면 비율 + #shorts + URL 확인 결과 ─────────
     const duration = videoDetail.contentDetails.duration;
-    if (!matchesVideoType(duration, videoType)) continue;
+    const signals = extractShortsSignals(videoDetail, {
+      title: searchItem.snippet.title,
+      probe: shortsProbes.get(videoId) ?? null,
+    });
+    if (signals.durationSeconds <= 0) continue;
+    const shortsConfidence = classifyShorts(signals);
+    if (!matchesTypeConfidence(shortsConfidence, videoType, filters.minTypeConfidence)) continue;
 
     const viewCount = parseInt(videoDetail.statistics.viewCount ?? "0");
     const likeCount =
       videoDetail.statistics.likeCount !== undefined
         ? parseInt(videoDetail.statistics.likeCount)
         : null;
+    const commentCount =
+      videoDetail.statistics.commentCount !== undefined
+        ? parseInt(videoDetail.statistics.commentCount)
+        : null;
 
     const subscriberCount = parseInt(
       channelDetail.statistics.subscriberCount ?? "0"
@@ -209,8 +305,12 @@ export function buildAndFilterResults(
     )
       continue;
 
-    // ── 핵심 필터: 조회수 >= 구독자 수 ──────────────────────────────────
-    if (viewCount < subscriberCount) continue;
+    // ── 핵심 필터: 조회수 >= 구독자 수 × 배수 (프로필에서 끌 수 있음) ──────
+    if (
+      profile.minViewToSubscriberRatio !== null &&
+      viewCount < subscriberCount * profile.minViewToSubscriberRatio
+    )
+      continue;
 
     // ── 최소 조회수 필터 ──────────────────────────────────────────────
     if (filters.minViewCount != null && viewCount < filters.minViewCount) continue;
@@ -229,14 +329,22 @@ export function buildAndFilterResults(
       "";
 
     // ── 점수 계산 ────────────────────────────────────────────────────────
-    const performanceScore = calcPerformanceScore(viewToSubscriberRatio);
+    const performanceScore = calcPerformanceScore(viewToSubscriberRatio, profile.performance);
 
     const channelAvgViews = channelAvgMap.get(channelId) ?? null;
     const contributionScore =
       channelAvgViews !== null && channelAvgViews > 0
-        ? calcContributionScore(viewCount, channelAvgViews)
+        ? calcContributionScore(viewCount, channelAvgViews, profile.contribution)
         : null;
 
+    const velocity = calcVelocityMetrics(
+      viewCount,
+      likeCount,
+      subscriberCount,
+      searchItem.snippet.publishedAt,
+      profile.performance
+    );
+
     results.push({
       id: videoId,
       title: searchItem.snippet.title,
@@ -246,14 +354,22 @@ export function buildAndFilterResults(
       publishedAt: searchItem.snippet.publishedAt,
       viewCount,
       likeCount,
+      commentCount,
       subscriberCount,
       totalVideoCount,
       viewToSubscriberRatio,
       likeToSubscriberRatio,
       duration,
+      shortsConfidence,
       performanceScore,
       contributionScore,
       channelAvgViews,
+      scoringProfile,
+      ageDays: velocity?.ageDays ?? null,
+      viewsPerDay: velocity?.viewsPerDay ?? null,
+      likesPerDay: velocity?.likesPerDay ?? null,
+      ageAdjustedRatio: velocity?.ageAdjustedRatio ?? null,
+      ageAdjustedScore: velocity?.ageAdjustedScore ?? null,
     });
   }
 
@@ -277,6 +393,19 @@ export function formatKoreanNumber(n: number): string {
   return String(n);
 }
 
+/**
+ * 표시 언어에 맞춘 축약 숫자 (예: ko "1.2만", en "12K", ja "1.2万")
+ * 한국어는 기존 formatKoreanNumber 표기를 그대로 사용
+ */
+export function formatCount(n: number, locale = "ko-KR"): string {
+  if (locale.toLowerCase().startsWith("ko")) return formatKoreanNumber(n);
+  try {
+    return new Intl.NumberFormat(locale, { notation: "compact", maximumFractionDigits: 1 }).format(n);
+  } catch {
+    return formatKoreanNumber(n);
+  }
+}
+
 /** ISO 8601 날짜를 "YYYY.MM.DD" 형식으로 변환 */
 export function formatDate(iso: string): string {
   const d = new Date(iso);
@@ -0,0 +1,57 @@
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { buildCacheKey, FileCache, MemoryLRUCache } from "./cache";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("buildCacheKey", () => {
+  it("파라미터 순서와 무관하고 API Key는 포함하지 않음", () => {
+    const a = buildCacheKey("videos", { id: "x", part: "statistics", key: "SECRET-1" });
+    const b = buildCacheKey("videos", { part: "statistics", key: "SECRET-2", id: "x" });
+    expect(a).toBe(b);
+    expect(a).not.toContain("SECRET");
+  });
+});
+
+describe("MemoryLRUCache", () => {
+  it("용량 초과 시 가장 오래 사용하지 않은 항목부터 제거", async () => {
+    const cache = new MemoryLRUCache(2);
+    await cache.set("a", 1, 60_000);
+    await cache.set("b", 2, 60_000);
+    await cache.get("a"); // a를 최근 사용으로 갱신
+    await cache.set("c", 3, 60_000);
+
+    expect(await cache.get("a")).toBe(1);
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("c")).toBe(3);
+  });
+
+  it("TTL이 지나면 미스", async () => {
+    vi.useFakeTimers();
+    const cache = new MemoryLRUCache();
+    await cache.set("a", 1, 1_000);
+    vi.advanceTimersByTime(1_001);
+    expect(await cache.get("a")).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+});
+
+describe("FileCache", () => {
+  it("파일에 저장한 값을 새 인스턴스에서도 읽고, 만료 후에는 삭제", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "yt-cache-"));
+    try {
+      await new FileCache(dir).set("k", { items: [1] }, 1_000);
+      expect(await new FileCache(dir).get("k")).toEqual({ items: [1] });
+
+      vi.useFakeTimers({ now: Date.now() + 2_000 });
+      expect(await new FileCache(dir).get("k")).toBeUndefined();
+      expect(await fs.readdir(dir)).toEqual([]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * cache.ts
+ * YouTube API 응답 서버 캐시 (엔드포인트별 TTL)
+ * - 기본: 프로세스 메모리 LRU
+ * - YOUTUBE_CACHE=file 설정 시 파일 기반 어댑터 (서버 재시작 후에도 유지)
+ * - 캐시 키는 엔드포인트 + 파라미터로만 구성 (API Key는 절대 포함하지 않음)
+ */
+
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { YouTubeEndpoint } from "./quota";
+
+// ─── 캐시 종류 및 TTL ─────────────────────────────────────────────────────────
+
+/** 캐시 대상: API 엔드포인트 5종 + 파생값(채널 평균 조회수, /shorts/ URL 확인 결과, 썸네일 색상) */
+export type CacheKind = YouTubeEndpoint | "channelAvg" | "shortsProbe" | "thumbnailColor";
+
+/**
+ * 종류별 TTL (ms)
+ * - search        : 1시간   (검색 순위는 자주 바뀌지 않음)
+ * - videos        : 30분    (조회수/좋아요 통계)
+ * - channels      : 12시간  (구독자 수는 천천히 변함)
+ * - playlistItems : 6시간   (업로드 목록)
+ * - commentThreads: 1시간   (인기 댓글 순위·새 댓글)
+ * - channelAvg    : 12시간  (여러 검색에 반복 등장하는 대형 채널의 기여도 기준값)
+ * - shortsProbe   : 7일     (업로드 후 Shorts 여부는 바뀌지 않음)
+ * - thumbnailColor: 7일     (썸네일 교체는 드묾)
+ */
+export const CACHE_TTL_MS: Record<CacheKind, number> = {
+  search: 60 * 60 * 1000,
+  videos: 30 * 60 * 1000,
+  channels: 12 * 60 * 60 * 1000,
+  playlistItems: 6 * 60 * 60 * 1000,
+  commentThreads: 60 * 60 * 1000,
+  channelAvg: 12 * 60 * 60 * 1000,
+  shortsProbe: 7 * 24 * 60 * 60 * 1000,
+  thumbnailColor: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * 캐시 키 생성: 종류 + 정렬된 파라미터
+ * 보안: key 파라미터는 무조건 제외
+ */
+export function buildCacheKey(kind: CacheKind, params: Record<string, string>): string {
+  const query = Object.keys(params)
+    .filter((k) => k !== "key")
+    .sort()
+    .map((k) => `${k}=${params[k]}`)
+    .join("&");
+  return `${kind}?${query}`;
+}
+
+// ─── 어댑터 인터페이스 ────────────────────────────────────────────────────────
+
+export interface ResponseCache {
+  /** 만료되지 않은 값 반환, 없으면 undefined */
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  clear(): Promise<void>;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+// ─── 메모리 LRU ───────────────────────────────────────────────────────────────
+
+/** Map 삽입 순서를 이용한 LRU (조회 시 맨 뒤로 이동, 초과 시 맨 앞부터 제거) */
+export class MemoryLRUCache implements ResponseCache {
+  private readonly entries = new Map<string, CacheEntry<unknown>>();
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+// ─── 파일 기반 어댑터 ─────────────────────────────────────────────────────────
+
+/** 키의 SHA-256 해시를 파일명으로 사용하여 JSON으로 저장 */
+export class FileCache implements ResponseCache {
+  constructor(private readonly dir: string) {}
+
+  private fileFor(key: string): string {
+    const hash = createHash("sha256").update(key).digest("hex");
+    return path.join(this.dir, `${hash}.json`);
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const file = this.fileFor(key);
+    try {
+      const entry = JSON.parse(await fs.readFile(file, "utf8")) as CacheEntry<T>;
+      if (entry.expiresAt <= Date.now()) {
+        await fs.rm(file, { force: true });
+        return undefined;
+      }
+      return entry.value;
+    } catch {
+      // 파일 없음 / 손상 → 미스 처리
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    const entry: CacheEntry<T> = { value, expiresAt: Date.now() + ttlMs };
+    const file = this.fileFor(key);
+    await fs.mkdir(this.dir, { recursive: true });
+    // 동시 쓰기로 파일이 깨지지 않도록 임시 파일에 쓴 뒤 rename
+    const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(entry));
+    await fs.rename(tmp, file);
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.dir, { recursive: true, force: true });
+  }
+}
+
+// ─── 기본 인스턴스 ────────────────────────────────────────────────────────────
+
+/** 캐시 비활성화 (YOUTUBE_CACHE=off) */
+class NoopCache implements ResponseCache {
+  async get<T>(): Promise<T | undefined> {
+    return undefined;
+  }
+  async set(): Promise<void> {}
+  async clear(): Promise<void> {}
+}
+
+let defaultCache: ResponseCache | null = null;
+
+/**
+ * 환경 변수에 따라 캐시 어댑터 선택 (프로세스당 1개)
+ * - YOUTUBE_CACHE=memory (기본) | file | off
+ * - YOUTUBE_CACHE_DIR: file 어댑터 저장 경로 (기본 .cache/youtube)
+ */
+export function getResponseCache(): ResponseCache {
+  if (defaultCache) return defaultCache;
+  const mode = process.env.YOUTUBE_CACHE ?? "memory";
+  if (mode === "off") defaultCache = new NoopCache();
+  else if (mode === "file")
+    defaultCache = new FileCache(
+      process.env.YOUTUBE_CACHE_DIR ?? path.join(process.cwd(), ".cache", "youtube")
+    );
+  else defaultCache = new MemoryLRUCache();
+  return defaultCache;
+}
+
+/** 기본 캐시 교체 (테스트 및 커스텀 어댑터 주입용) */
+export function setResponseCache(cache: ResponseCache | null): void {
+  defaultCache = cache;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { buildChannelReport } from "./channelAnalysis";
+import type {
+  YouTubeChannelItem,
+  YouTubePlaylistItem,
+  YouTubeVideoItem,
+} from "./client";
+
+// ─── 테스트 데이터 빌더 ───────────────────────────────────────────────────────
+
+const channel: YouTubeChannelItem = {
+  id: "UCtest",
+  snippet: { title: "테스트 채널" },
+  statistics: { subscriberCount: "1000", videoCount: "9", viewCount: "50000" },
+};
+
+function playlistItem(videoId: string, publishedAt: string): YouTubePlaylistItem {
+  return {
+    snippet: { resourceId: { videoId }, title: `영상 ${videoId}` },
+    contentDetails: { videoPublishedAt: publishedAt },
+  };
+}
+
+function videoItem(id: string, viewCount: number, duration: string): YouTubeVideoItem {
+  return { id, contentDetails: { duration }, statistics: { viewCount: String(viewCount) } };
+}
+
+// 롱폼 l1~l6 (100회) + 히트 l7 (10,000회), Shorts s1·s2, 예정 라이브 live
+const playlist = [
+  playlistItem("l1", "2026-01-05T00:00:00Z"),
+  playlistItem("l2", "2026-01-20T00:00:00Z"),
+  playlistItem("l3", "2026-03-02T00:00:00Z"),
+  playlistItem("l4", "2026-03-10T00:00:00Z"),
+  playlistItem("l5", "2026-03-15T00:00:00Z"),
+  playlistItem("l6", "2026-03-20T00:00:00Z"),
+  playlistItem("l7", "2026-03-25T00:00:00Z"),
+  playlistItem("s1", "2026-01-10T00:00:00Z"),
+  playlistItem("s2", "2026-03-12T00:00:00Z"),
+  playlistItem("live", "2026-03-30T00:00:00Z"),
+];
+
+const details = [
+  ...["l1", "l2", "l3", "l4", "l5", "l6"].map((id) => videoItem(id, 100, "PT10M")),
+  videoItem("l7", 10_000, "PT12M"),
+  videoItem("s1", 300, "PT30S"),
+  videoItem("s2", 500, "PT45S"),
+  videoItem("live", 0, "P0D"),
+];
+
+describe("buildChannelReport", () => {
+  const report = buildChannelReport(channel, playlist, details);
+
+  it("길이 0 영상을 제외하고 최신순 정렬", () => {
+    expect(report.videos.map((v) => v.id)).toEqual([
+      "l7", "l6", "l5", "s2", "l4", "l3", "l2", "s1", "l1",
+    ]);
+  });
+
+  it("Shorts·롱폼을 분리해 유형별 평균으로 기여도 계산", () => {
+    expect(report.summary.longform).toEqual({ count: 7, avgViews: 1514, outlierCount: 1 });
+    expect(report.summary.shorts).toEqual({ count: 2, avgViews: 400, outlierCount: 0 });
+
+    const s2 = report.videos.find((v) => v.id === "s2")!;
+    expect(s2.videoType).toBe("shorts");
+    expect(s2.contributionScore?.label).toBe("Good");
+    // 성과도는 구독자 대비 (10,000 / 1,000 = 10배)
+    expect(report.videos[0].performanceScore.label).toBe("Excellent");
+  });
+
+  it("기여도 Great 이상만 아웃라이어로 분류", () => {
+    expect(report.outliers.map((v) => v.id)).toEqual(["l7"]);
+  });
+
+  it("월별 추이는 빈 달을 포함해 오래된 순", () => {
+    expect(report.timeline).toEqual([
+      { month: "2026-01", uploads: 3, outliers: 0, avgViews: 167 },
+      { month: "2026-02", uploads: 0, outliers: 0, avgViews: 0 },
+      { month: "2026-03", uploads: 6, outliers: 1, avgViews: 1817 },
+    ]);
+  });
+
+  it("채널 정보는 snippet이 없으면 ID로 대체", () => {
+    const bare = buildChannelReport({ ...channel, snippet: undefined }, [], []);
+    expect(bare.channel.title).toBe("UCtest");
+    expect(bare.videos).toEqual([]);
+    expect(bare.timeline).toEqual([]);
+  });
+});
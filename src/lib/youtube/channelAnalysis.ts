@@ -0,0 +1,214 @@
+/**
+ * channelAnalysis.ts
+ * 채널 상세 분석: 업로드 영상별 성과도/기여도, Shorts·롱폼 분리, 월별 아웃라이어 추이
+ * 점수 계산은 analysis.ts의 함수를 그대로 사용
+ */
+
+import type {
+  YouTubeChannelItem,
+  YouTubePlaylistItem,
+  YouTubeVideoItem,
+} from "./client";
+import {
+  calcChannelAvgViews,
+  calcContributionScore,
+  calcPerformanceScore,
+  type ScoreInfo,
+} from "./analysis";
+import {
+  classifyShorts,
+  extractShortsSignals,
+  matchesTypeConfidence,
+  type VideoType,
+} from "./videoType";
+import {
+  DEFAULT_SCORING_PROFILE,
+  toProfileRef,
+  type ScoringProfile,
+  type ScoringProfileRef,
+} from "@/lib/scoring/profiles";
+
+// ─── 결과 타입 ────────────────────────────────────────────────────────────────
+
+/** 기여도 점수가 이 값 이상이면 아웃라이어(채널 평균 대비 히트)로 분류 — 4 Great 이상 */
+export const OUTLIER_MIN_SCORE = 4;
+
+export interface ChannelVideo {
+  id: string;
+  title: string;
+  thumbnail: string;
+  publishedAt: string;
+  duration: string;
+  videoType: VideoType;
+  viewCount: number;
+  likeCount: number | null;
+  /** 조회수 / 채널 구독자 수 */
+  viewToSubscriberRatio: number;
+  performanceScore: ScoreInfo;
+  /** 같은 유형(Shorts/롱폼) 채널 평균 대비 기여도 */
+  contributionScore: ScoreInfo | null;
+}
+
+export interface ChannelTypeSummary {
+  count: number;
+  avgViews: number;
+  outlierCount: number;
+}
+
+export interface ChannelTimelineBucket {
+  /** "YYYY-MM" */
+  month: string;
+  uploads: number;
+  outliers: number;
+  avgViews: number;
+}
+
+export interface ChannelReport {
+  channel: {
+    id: string;
+    title: string;
+    thumbnail: string;
+    subscriberCount: number;
+    videoCount: number;
+    viewCount: number;
+  };
+  /** 분석한 업로드 (최신순) */
+  videos: ChannelVideo[];
+  summary: Record<VideoType, ChannelTypeSummary>;
+  /** 기여도 아웃라이어 (오래된 순 — 시간에 따른 히트 흐름) */
+  outliers: ChannelVideo[];
+  /** 월별 업로드·아웃라이어 추이 (오래된 순) */
+  timeline: ChannelTimelineBucket[];
+  /** 점수를 계산한 점수 기준 */
+  scoringProfile: ScoringProfileRef;
+}
+
+// ─── 리포트 생성 ──────────────────────────────────────────────────────────────
+
+/**
+ * 채널 정보 + 업로드 플레이리스트 + 영상 상세를 병합하여 채널 리포트 생성
+ * - 길이가 0인 영상(예정된 라이브 등)은 제외
+ * - 기여도는 같은 유형의 채널 평균 조회수를 기준으로 계산
+ * - 점수 경계값은 profile을 따름 (핵심 필터는 채널 분석에 적용하지 않음)
+ */
+export function buildChannelReport(
+  channel: YouTubeChannelItem,
+  playlistItems: YouTubePlaylistItem[],
+  videoItems: YouTubeVideoItem[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): ChannelReport {
+  const subscriberCount = parseInt(channel.statistics.subscriberCount ?? "0");
+  const videoMap = new Map(videoItems.map((v) => [v.id, v]));
+
+  const avgByType: Record<VideoType, number> = {
+    shorts: calcChannelAvgViews(videoItems, "shorts"),
+    longform: calcChannelAvgViews(videoItems, "longform"),
+  };
+
+  const videos: ChannelVideo[] = [];
+  for (const item of playlistItems) {
+    const id = item.snippet.resourceId.videoId;
+    const detail = videoMap.get(id);
+    if (!detail) continue;
+
+    const duration = detail.contentDetails.duration;
+    const signals = extractShortsSignals(detail, { title: item.snippet.title });
+    if (signals.durationSeconds <= 0) continue;
+    const videoType: VideoType = matchesTypeConfidence(classifyShorts(signals), "shorts")
+      ? "shorts"
+      : "longform";
+
+    const viewCount = parseInt(detail.statistics.viewCount ?? "0");
+    const likeCount =
+      detail.statistics.likeCount !== undefined
+        ? parseInt(detail.statistics.likeCount)
+        : null;
+    const viewToSubscriberRatio =
+      subscriberCount > 0 ? parseFloat((viewCount / subscriberCount).toFixed(2)) : 0;
+
+    videos.push({
+      id,
+      title: item.snippet.title ?? "",
+      thumbnail:
+        item.snippet.thumbnails?.high?.url ?? item.snippet.thumbnails?.medium?.url ?? "",
+      publishedAt: item.contentDetails?.videoPublishedAt ?? item.snippet.publishedAt ?? "",
+      duration,
+      videoType,
+      viewCount,
+      likeCount,
+      viewToSubscriberRatio,
+      performanceScore: calcPerformanceScore(viewToSubscriberRatio, profile.performance),
+      contributionScore: calcContributionScore(viewCount, avgByType[videoType], profile.contribution),
+    });
+  }
+
+  videos.sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
+
+  const isOutlier = (v: ChannelVideo) =>
+    (v.contributionScore?.score ?? 0) >= OUTLIER_MIN_SCORE;
+
+  const summarize = (type: VideoType): ChannelTypeSummary => {
+    const ofType = videos.filter((v) => v.videoType === type);
+    return {
+      count: ofType.length,
+      avgViews: avgByType[type],
+      outlierCount: ofType.filter(isOutlier).length,
+    };
+  };
+
+  return {
+    channel: {
+      id: channel.id,
+      title: channel.snippet?.title ?? channel.id,
+      thumbnail:
+        channel.snippet?.thumbnails?.high?.url ??
+        channel.snippet?.thumbnails?.medium?.url ??
+        channel.snippet?.thumbnails?.default?.url ??
+        "",
+      subscriberCount,
+      videoCount: parseInt(channel.statistics.videoCount ?? "0"),
+      viewCount: parseInt(channel.statistics.viewCount ?? "0"),
+    },
+    videos,
+    summary: { shorts: summarize("shorts"), longform: summarize("longform") },
+    outliers: videos.filter(isOutlier).reverse(),
+    timeline: buildTimeline(videos, isOutlier),
+    scoringProfile: toProfileRef(profile),
+  };
+}
+
+/** 게시 월별로 업로드 수, 아웃라이어 수, 평균 조회수 집계 (빈 달 포함) */
+function buildTimeline(
+  videos: ChannelVideo[],
+  isOutlier: (v: ChannelVideo) => boolean
+): ChannelTimelineBucket[] {
+  const dated = videos.filter((v) => v.publishedAt);
+  if (dated.length === 0) return [];
+
+  const byMonth = new Map<string, ChannelVideo[]>();
+  for (const v of dated) {
+    const month = v.publishedAt.slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), v]);
+  }
+
+  const months = [...byMonth.keys()].sort();
+  const buckets: ChannelTimelineBucket[] = [];
+  for (let month = months[0]; month <= months[months.length - 1]; month = nextMonth(month)) {
+    const inMonth = byMonth.get(month) ?? [];
+    buckets.push({
+      month,
+      uploads: inMonth.length,
+      outliers: inMonth.filter(isOutlier).length,
+      avgViews:
+        inMonth.length > 0
+          ? Math.round(inMonth.reduce((sum, v) => sum + v.viewCount, 0) / inMonth.length)
+          : 0,
+    });
+  }
+  return buckets;
+}
+
+function nextMonth(month: string): string {
+  const [y, m] = month.split("-").map(Number);
+  return m === 12 ? `${y + 1}-01` : `${y}-${String(m + 1).padStart(2, "0")}`;
+}
@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  fetchInChunks,
+  getCommentThreads,
+  getVideoDetails,
+  LiveDataSource,
+  searchVideos,
+  setDataSource,
+  YouTubeAPIError,
+  YOUTUBE_ERROR_STATUS,
+} from "./client";
+import { MemoryLRUCache, setResponseCache } from "./cache";
+import { QuotaTracker } from "./quota";
+import { calcPublishedAfter } from "@/lib/history/searchLog";
+import type { YouTubeDataSource } from "./dataSource";
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function errorBody(reason: string, message = "error") {
+  return { error: { message, errors: [{ reason }] } };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  setDataSource(null);
+  setResponseCache(null);
+});
+
+// ─── 청크 분할 ────────────────────────────────────────────────────────────────
+
+describe("fetchInChunks", () => {
+  it("chunkSize 단위로 나누어 호출하고 순서대로 병합", async () => {
+    const ids = Array.from({ length: 120 }, (_, i) => `v${i}`);
+    const fetcher = vi.fn(async (chunk: string[]) => chunk.map((id) => id.toUpperCase()));
+
+    const result = await fetchInChunks(ids, 50, fetcher);
+
+    expect(fetcher).toHaveBeenCalledTimes(3);
+    expect(fetcher.mock.calls.map(([chunk]) => chunk.length)).toEqual([50, 50, 20]);
+    expect(result).toEqual(ids.map((id) => id.toUpperCase()));
+  });
+
+  it("빈 목록이면 호출하지 않음", async () => {
+    const fetcher = vi.fn(async () => []);
+    expect(await fetchInChunks([], 50, fetcher)).toEqual([]);
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+});
+
+// ─── 에러 매핑 ────────────────────────────────────────────────────────────────
+
+describe("LiveDataSource 에러 매핑", () => {
+  const source = new LiveDataSource("https://example.test/youtube/v3");
+
+  it.each([
+    [400, "badRequest", "BAD_REQUEST"],
+    [400, "invalidPageToken", "BAD_REQUEST"],
+    [403, "keyInvalid", "INVALID_API_KEY"],
+    [403, "quotaExceeded", "QUOTA_EXCEEDED"],
+    [403, "dailyLimitExceeded", "QUOTA_EXCEEDED"],
+    [403, "forbidden", "FORBIDDEN"],
+    [403, "commentsDisabled", "COMMENTS_DISABLED"],
+    [404, "notFound", "NOT_FOUND"],
+    [500, "backendError", "UNKNOWN"],
+  ])("HTTP %s (%s) → %s", async (status, reason, code) => {
+    vi.stubGlobal("fetch", vi.fn(async () => jsonResponse(status, errorBody(reason))));
+
+    const err = await source.request("videos", {}, "KEY").catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(YouTubeAPIError);
+    expect((err as YouTubeAPIError).code).toBe(code);
+  });
+
+  it("무효 키의 400 badRequest는 ErrorInfo reason으로 구분", async () => {
+    const body = {
+      error: {
+        message: "API key not valid. Please pass a valid API key.",
+        errors: [{ reason: "badRequest" }],
+        details: [{ "@type": "type.googleapis.com/google.rpc.ErrorInfo", reason: "API_KEY_INVALID" }],
+      },
+    };
+    vi.stubGlobal("fetch", vi.fn(async () => jsonResponse(400, body)));
+    await expect(source.request("videos", {}, "KEY")).rejects.toMatchObject({
+      code: "INVALID_API_KEY",
+    });
+  });
+
+  it("fetch 자체가 실패하면 NETWORK_ERROR", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => Promise.reject(new TypeError("fetch failed"))));
+    await expect(source.request("videos", {}, "KEY")).rejects.toMatchObject({
+      code: "NETWORK_ERROR",
+    });
+  });
+
+  it("API Key는 요청 URL 파라미터로만 전달", async () => {
+    const fetchMock = vi.fn<(url: string) => Promise<Response>>(async () =>
+      jsonResponse(200, { items: [] })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    await source.request("videos", { id: "a" }, "SECRET");
+    const url = new URL(fetchMock.mock.calls[0][0]);
+    expect(url.pathname).toBe("/youtube/v3/videos");
+    expect(url.searchParams.get("key")).toBe("SECRET");
+  });
+});
+
+describe("YOUTUBE_ERROR_STATUS", () => {
+  it("에러 코드별 HTTP 상태", () => {
+    expect(YOUTUBE_ERROR_STATUS).toEqual({
+      INVALID_API_KEY: 401,
+      BAD_REQUEST: 400,
+      QUOTA_EXCEEDED: 429,
+      FORBIDDEN: 403,
+      COMMENTS_DISABLED: 403,
+      NOT_FOUND: 404,
+      NETWORK_ERROR: 503,
+      BUDGET_EXCEEDED: 429,
+      UNKNOWN: 500,
+    });
+  });
+});
+
+// ─── 할당량 + 캐시 ────────────────────────────────────────────────────────────
+
+describe("youtubeFetch 할당량·캐시", () => {
+  const request = vi.fn(async () => ({ items: [{ id: "a" }] }));
+
+  beforeEach(() => {
+    request.mockClear();
+    setDataSource({ name: "stub", request } as unknown as YouTubeDataSource);
+  });
+
+  it("호출마다 엔드포인트 비용을 차감", async () => {
+    const quota = new QuotaTracker();
+    await getVideoDetails({ apiKey: "KEY", quota, videoIds: ["a"] });
+    await getVideoDetails({ apiKey: "KEY", quota, videoIds: ["b"] });
+
+    expect(quota.toJSON().byEndpoint.videos).toEqual({ calls: 2, units: 2 });
+  });
+
+  it("예산을 넘기는 호출은 실행 전에 BUDGET_EXCEEDED", async () => {
+    const quota = new QuotaTracker(1);
+    await getVideoDetails({ apiKey: "KEY", quota, videoIds: ["a"] });
+    await expect(
+      getVideoDetails({ apiKey: "KEY", quota, videoIds: ["b"] })
+    ).rejects.toMatchObject({ code: "BUDGET_EXCEEDED" });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("캐시 적중 시 API Key가 달라도 재사용하고 할당량을 소모하지 않음", async () => {
+    setResponseCache(new MemoryLRUCache());
+    const quota = new QuotaTracker();
+
+    await getVideoDetails({ apiKey: "KEY-1", quota, videoIds: ["a"] });
+    const items = await getVideoDetails({ apiKey: "KEY-2", quota, videoIds: ["a"] });
+
+    expect(items).toEqual([{ id: "a" }]);
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(quota.used).toBe(1);
+    expect(quota.toJSON().cacheHits.byKind.videos).toBe(1);
+  });
+  it("업로드 기간 검색은 몇 초 간격이면 같은 search.list 캐시를 사용", async () => {
+    setResponseCache(new MemoryLRUCache());
+    const quota = new QuotaTracker();
+    const search = (at: string) =>
+      searchVideos({
+        apiKey: "KEY",
+        quota,
+        keyword: "캠핑",
+        videoDuration: "medium",
+        publishedAfter: calcPublishedAfter("1month", new Date(at)),
+      });
+
+    await search("2026-07-01T12:00:03.120Z");
+    await search("2026-07-01T12:00:09.870Z");
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(request.mock.calls[0]).toEqual([
+      "search",
+      expect.objectContaining({ publishedAfter: "2026-06-01T12:00:00.000Z" }),
+      "KEY",
+    ]);
+    expect(quota.toJSON().cacheHits.byKind.search).toBe(1);
+  });
+});
+
+// ─── 댓글 ─────────────────────────────────────────────────────────────────────
+
+describe("getCommentThreads", () => {
+  it("nextPageToken을 따라 maxComments개까지 수집 (페이지당 1 unit)", async () => {
+    const request = vi.fn(async (_endpoint: string, params: Record<string, string>) => {
+      const offset = params.pageToken ? parseInt(params.pageToken) : 0;
+      const size = parseInt(params.maxResults);
+      return {
+        items: Array.from({ length: size }, (_, i) => ({ id: `c${offset + i}` })),
+        nextPageToken: String(offset + size),
+      };
+    });
+    setDataSource({ name: "stub", request } as unknown as YouTubeDataSource);
+    const quota = new QuotaTracker();
+
+    const items = await getCommentThreads({ apiKey: "KEY", quota, videoId: "vid", maxComments: 150 });
+
+    expect(items).toHaveLength(150);
+    expect(request.mock.calls.map(([, params]) => params.maxResults)).toEqual(["100", "50"]);
+    expect(request.mock.calls[0][1]).toMatchObject({ videoId: "vid", order: "relevance", textFormat: "plainText" });
+    expect(quota.toJSON().byEndpoint.commentThreads).toEqual({ calls: 2, units: 2 });
+  });
+});
@@ -2,30 +2,27 @@
  * client.ts
  * YouTube Data API v3 fetch 공통 함수 및 에러 처리
  * 모든 API 호출은 이 파일을 통해서만 수행
+ * 실제 데이터 조회는 YouTubeDataSource(live / fixture)에 위임
  */
 
+import path from "node:path";
+import type { QuotaTracker, YouTubeEndpoint } from "./quota";
+import { YouTubeAPIError } from "./errors";
+import { buildCacheKey, CACHE_TTL_MS, getResponseCache } from "./cache";
+import type { YouTubeDataSource } from "./dataSource";
+import { FixtureDataSource, RecordingDataSource } from "./fixtureSource";
+import { ApiKeyPool, type ApiKeySource } from "./keyPool";
+import { DEFAULT_REGION_CODE, DEFAULT_RELEVANCE_LANGUAGE } from "./markets";
+
 const YOUTUBE_API_BASE = "https://www.googleapis.com/youtube/v3";
 
 // ─── 에러 타입 ────────────────────────────────────────────────────────────────
 
-export class YouTubeAPIError extends Error {
-  constructor(
-    message: string,
-    public readonly code: YouTubeErrorCode,
-    public readonly status?: number
-  ) {
-    super(message);
-    this.name = "YouTubeAPIError";
-  }
-}
-
-export type YouTubeErrorCode =
-  | "INVALID_API_KEY"
-  | "QUOTA_EXCEEDED"
-  | "FORBIDDEN"
-  | "NOT_FOUND"
-  | "NETWORK_ERROR"
-  | "UNKNOWN";
+export {
+  YouTubeAPIError,
+  YOUTUBE_ERROR_STATUS,
+  type YouTubeErrorCode,
+} from "./errors";
 
 // ─── YouTube API 응답 타입 ────────────────────────────────────────────────────
 
@@ -51,10 +48,40 @@ export interface YouTubeVideoItem {
     likeCount?: string;
     commentCount?: string;
   };
+  /** 아래 필드는 shortsSignals(Shorts 판별용)·snippet 요청 시 포함 */
+  snippet?: {
+    title: string;
+    description?: string;
+    tags?: string[];
+    publishedAt?: string;
+    channelId?: string;
+    channelTitle?: string;
+    thumbnails?: {
+      medium?: { url: string };
+      high?: { url: string };
+    };
+  };
+  /** maxWidth 지정 시 화면 비율이 반영된 임베드 크기 */
+  player?: {
+    embedWidth?: number | string;
+    embedHeight?: number | string;
+  };
 }
 
 export interface YouTubeChannelItem {
   id: string;
+  /** 채널명·프로필 이미지 (채널 상세 페이지용) */
+  snippet?: {
+    title: string;
+    description?: string;
+    customUrl?: string;
+    publishedAt?: string;
+    thumbnails?: {
+      default?: { url: string };
+      medium?: { url: string };
+      high?: { url: string };
+    };
+  };
   /** 업로드 플레이리스트 ID 포함 (기여도 계산용) */
   contentDetails?: {
     relatedPlaylists: {
@@ -74,80 +101,196 @@ export interface YouTubePlaylistItem {
     resourceId: {
       videoId: string;
     };
+    /** 아래 필드는 part=snippet 응답에 포함 (샘플 수집 시에는 사용하지 않음) */
+    title?: string;
+    publishedAt?: string;
+    thumbnails?: {
+      medium?: { url: string; width: number; height: number };
+      high?: { url: string; width: number; height: number };
+    };
+  };
+  /** part=contentDetails 요청 시: 실제 영상 게시 시각 */
+  contentDetails?: {
+    videoPublishedAt?: string;
   };
 }
 
-// ─── 공통 fetch 래퍼 ──────────────────────────────────────────────────────────
+/** 영상의 최상위 댓글 스레드 (commentThreads.list, part=snippet) */
+export interface YouTubeCommentThreadItem {
+  id: string;
+  snippet: {
+    topLevelComment: {
+      id: string;
+      snippet: {
+        authorDisplayName: string;
+        /** textFormat=plainText 요청 시 일반 텍스트 */
+        textDisplay: string;
+        likeCount: number;
+        publishedAt: string;
+      };
+    };
+    totalReplyCount: number;
+  };
+}
 
-async function youtubeFetch<T>(
-  endpoint: string,
-  params: Record<string, string>,
-  apiKey: string
-): Promise<T> {
-  // 보안: API Key는 서버에서만 파라미터에 포함
-  const url = new URL(`${YOUTUBE_API_BASE}/${endpoint}`);
-  Object.entries({ ...params, key: apiKey }).forEach(([k, v]) =>
-    url.searchParams.set(k, v)
+// ─── 데이터 소스 ──────────────────────────────────────────────────────────────
+
+/**
+ * 키 자체가 무효인 오류인지 판별
+ * 무효 키는 HTTP 400 reason=badRequest로 오고 details의 ErrorInfo reason(API_KEY_INVALID)으로만 구분됨
+ */
+function isInvalidKeyError(reason: string, errorBody: unknown): boolean {
+  if (reason === "keyInvalid") return true;
+  const details = (errorBody as { error?: { details?: { reason?: unknown }[] } })?.error?.details;
+  return (
+    Array.isArray(details) &&
+    details.some((d) => typeof d?.reason === "string" && /^API_KEY_(INVALID|EXPIRED)$/.test(d.reason))
   );
+}
 
-  let res: Response;
-  try {
-    res = await fetch(url.toString(), {
-      next: { revalidate: 0 }, // 캐싱 비활성화 (실시간 데이터)
-    });
-  } catch {
-    throw new YouTubeAPIError(
-      "YouTube API 네트워크 오류가 발생했습니다.",
-      "NETWORK_ERROR"
-    );
-  }
+/** 실제 YouTube Data API v3 호출 (googleapis.com) */
+export class LiveDataSource implements YouTubeDataSource {
+  readonly name = "live";
+
+  constructor(private readonly baseUrl = YOUTUBE_API_BASE) {}
 
-  if (!res.ok) {
-    const errorBody = await res.json().catch(() => ({}));
-    const reason: string =
-      errorBody?.error?.errors?.[0]?.reason ?? "unknown";
-    const message: string =
-      errorBody?.error?.message ?? "YouTube API 오류가 발생했습니다.";
+  async request<T>(
+    endpoint: YouTubeEndpoint,
+    params: Record<string, string>,
+    apiKey: string
+  ): Promise<T> {
+    // 보안: API Key는 서버에서만 파라미터에 포함
+    const url = new URL(`${this.baseUrl}/${endpoint}`);
+    Object.entries({ ...params, key: apiKey }).forEach(([k, v]) =>
+      url.searchParams.set(k, v)
+    );
 
-    if (res.status === 400 || reason === "keyInvalid" || reason === "badRequest") {
+    let res: Response;
+    try {
+      res = await fetch(url.toString(), {
+        next: { revalidate: 0 }, // Next fetch 캐시 대신 cache.ts의 엔드포인트별 TTL 사용
+      });
+    } catch {
       throw new YouTubeAPIError(
-        "유효하지 않은 API Key입니다. 키를 확인해 주세요.",
-        "INVALID_API_KEY",
-        res.status
+        "YouTube API 네트워크 오류가 발생했습니다.",
+        "NETWORK_ERROR"
       );
     }
-    if (res.status === 403) {
-      if (reason === "quotaExceeded" || reason === "dailyLimitExceeded") {
+
+    if (!res.ok) {
+      const errorBody = await res.json().catch(() => ({}));
+      const reason: string =
+        errorBody?.error?.errors?.[0]?.reason ?? "unknown";
+      const message: string =
+        errorBody?.error?.message ?? "YouTube API 오류가 발생했습니다.";
+
+      if (isInvalidKeyError(reason, errorBody)) {
         throw new YouTubeAPIError(
-          "YouTube API 일일 할당량이 초과되었습니다. 내일 다시 시도하거나 다른 API Key를 사용하세요.",
-          "QUOTA_EXCEEDED",
+          "유효하지 않은 API Key입니다. 키를 확인해 주세요.",
+          "INVALID_API_KEY",
           res.status
         );
       }
-      throw new YouTubeAPIError(
-        `접근 권한이 없습니다: ${message}`,
-        "FORBIDDEN",
-        res.status
-      );
-    }
-    if (res.status === 404) {
-      throw new YouTubeAPIError("리소스를 찾을 수 없습니다.", "NOT_FOUND", res.status);
+      // 잘못된 파라미터(publishedAfter·pageToken 등)는 키와 무관하므로 키 전환 대상이 아님
+      if (res.status === 400) {
+        throw new YouTubeAPIError(`잘못된 요청입니다: ${message}`, "BAD_REQUEST", res.status);
+      }
+      if (res.status === 403) {
+        if (reason === "quotaExceeded" || reason === "dailyLimitExceeded") {
+          throw new YouTubeAPIError(
+            "YouTube API 일일 할당량이 초과되었습니다. 내일 다시 시도하거나 다른 API Key를 사용하세요.",
+            "QUOTA_EXCEEDED",
+            res.status
+          );
+        }
+        if (reason === "commentsDisabled") {
+          throw new YouTubeAPIError(
+            "댓글이 사용 중지된 영상입니다.",
+            "COMMENTS_DISABLED",
+            res.status
+          );
+        }
+        throw new YouTubeAPIError(
+          `접근 권한이 없습니다: ${message}`,
+          "FORBIDDEN",
+          res.status
+        );
+      }
+      if (res.status === 404) {
+        throw new YouTubeAPIError("리소스를 찾을 수 없습니다.", "NOT_FOUND", res.status);
+      }
+
+      throw new YouTubeAPIError(message, "UNKNOWN", res.status);
     }
 
-    throw new YouTubeAPIError(message, "UNKNOWN", res.status);
+    return res.json() as Promise<T>;
   }
+}
+
+let dataSource: YouTubeDataSource | null = null;
 
-  return res.json() as Promise<T>;
+/**
+ * 환경 변수에 따라 데이터 소스 선택 (프로세스당 1개)
+ * - YOUTUBE_DATA_SOURCE=live (기본) | fixture | record
+ *   - fixture: 녹화된 JSON을 재생 (API Key·네트워크 불필요)
+ *   - record : live 응답을 그대로 반환하면서 fixture 파일에 누적 저장
+ * - YOUTUBE_FIXTURE_DIR: fixture 경로 (기본 fixtures/youtube)
+ */
+export function getDataSource(): YouTubeDataSource {
+  if (dataSource) return dataSource;
+  const mode = process.env.YOUTUBE_DATA_SOURCE ?? "live";
+  const fixtureDir =
+    process.env.YOUTUBE_FIXTURE_DIR ?? path.join(process.cwd(), "fixtures", "youtube");
+  if (mode === "fixture") dataSource = new FixtureDataSource(fixtureDir);
+  else if (mode === "record")
+    dataSource = new RecordingDataSource(new LiveDataSource(), fixtureDir);
+  else dataSource = new LiveDataSource();
+  return dataSource;
+}
+
+/** 데이터 소스 교체 (테스트 및 데모용) */
+export function setDataSource(source: YouTubeDataSource | null): void {
+  dataSource = source;
+}
+
+// ─── 공통 fetch 래퍼 ──────────────────────────────────────────────────────────
+
+async function youtubeFetch<T>(
+  endpoint: YouTubeEndpoint,
+  params: Record<string, string>,
+  apiKey: ApiKeySource,
+  quota?: QuotaTracker
+): Promise<T> {
+  // 캐시 적중 시 API 호출 없이 반환 (할당량 소모 0)
+  const cache = getResponseCache();
+  const cacheKey = buildCacheKey(endpoint, params);
+  const cached = await cache.get<T>(cacheKey);
+  if (cached !== undefined) {
+    quota?.recordCacheHit(endpoint);
+    return cached;
+  }
+
+  // 할당량 차감 (예산 초과 시 호출 전에 중단)
+  quota?.charge(endpoint);
+
+  // 키 풀이면 quotaExceeded / keyInvalid 시 다음 키로 자동 전환
+  const source = getDataSource();
+  const data = await ApiKeyPool.from(apiKey).run((key) =>
+    source.request<T>(endpoint, params, key)
+  );
+  await cache.set(cacheKey, data, CACHE_TTL_MS[endpoint]);
+  return data;
 }
 
 // ─── YouTube API 함수들 ───────────────────────────────────────────────────────
 
 /**
- * 키워드로 한국 영상 검색 (search.list)
- * regionCode=KR, relevanceLanguage=ko 고정
+ * 키워드로 영상 검색 (search.list)
+ * regionCode·relevanceLanguage 미지정 시 한국(KR)·한국어(ko)
  */
 export async function searchVideos(params: {
-  apiKey: string;
+  apiKey: ApiKeySource;
+  quota?: QuotaTracker;
   keyword: string;
   videoDuration: "short" | "medium" | "long" | "any";
   maxResults?: number;
@@ -155,13 +298,17 @@ export async function searchVideos(params: {
   publishedAfter?: string;
   /** 다음 페이지 토큰 (페이지네이션) */
   pageToken?: string;
+  /** 검색 대상 지역 (ISO 3166-1 alpha-2) */
+  regionCode?: string;
+  /** 결과 언어 우선순위 (ISO 639-1) */
+  relevanceLanguage?: string;
 }): Promise<{ items: YouTubeSearchItem[]; nextPageToken?: string }> {
   const searchParams: Record<string, string> = {
     part: "snippet",
     q: params.keyword,
     type: "video",
-    regionCode: "KR",
-    relevanceLanguage: "ko",
+    regionCode: params.regionCode ?? DEFAULT_REGION_CODE,
+    relevanceLanguage: params.relevanceLanguage ?? DEFAULT_RELEVANCE_LANGUAGE,
     videoDuration: params.videoDuration,
     maxResults: String(params.maxResults ?? 50),
     videoEmbeddable: "true",
@@ -175,28 +322,41 @@ export async function searchVideos(params: {
   const data = await youtubeFetch<{
     items?: YouTubeSearchItem[];
     nextPageToken?: string;
-  }>("search", searchParams, params.apiKey);
+  }>("search", searchParams, params.apiKey, params.quota);
   return { items: data.items ?? [], nextPageToken: data.nextPageToken };
 }
 
 /**
  * 영상 상세 정보 조회 (videos.list) - 조회수, 좋아요, 영상 길이
  * 최대 50개 ID 한 번에 조회 가능
+ * shortsSignals: 제목·설명·태그(snippet) + 화면 비율(player 임베드 크기)도 요청 (part 추가는 비용 동일)
  */
 export async function getVideoDetails(params: {
-  apiKey: string;
+  apiKey: ApiKeySource;
+  quota?: QuotaTracker;
   videoIds: string[];
+  shortsSignals?: boolean;
+  /** 제목·채널·썸네일 등 메타데이터 포함 (비용 동일) */
+  snippet?: boolean;
 }): Promise<YouTubeVideoItem[]> {
   if (params.videoIds.length === 0) return [];
 
+  const requestParams: Record<string, string> = {
+    part: params.snippet ? "contentDetails,statistics,snippet" : "contentDetails,statistics",
+    id: params.videoIds.join(","),
+    maxResults: "50",
+  };
+  if (params.shortsSignals) {
+    requestParams.part = "contentDetails,statistics,snippet,player";
+    // 임베드 크기는 maxWidth/maxHeight를 지정해야 화면 비율대로 반환됨
+    requestParams.maxWidth = "720";
+  }
+
   const data = await youtubeFetch<{ items?: YouTubeVideoItem[] }>(
     "videos",
-    {
-      part: "contentDetails,statistics",
-      id: params.videoIds.join(","),
-      maxResults: "50",
-    },
-    params.apiKey
+    requestParams,
+    params.apiKey,
+    params.quota
   );
   return data.items ?? [];
 }
@@ -206,7 +366,8 @@ export async function getVideoDetails(params: {
  * 최대 50개 ID 한 번에 조회 가능
  */
 export async function getChannelDetails(params: {
-  apiKey: string;
+  apiKey: ApiKeySource;
+  quota?: QuotaTracker;
   channelIds: string[];
 }): Promise<YouTubeChannelItem[]> {
   if (params.channelIds.length === 0) return [];
@@ -218,11 +379,13 @@ export async function getChannelDetails(params: {
     "channels",
     {
       // contentDetails: 업로드 플레이리스트 ID (기여도 계산에 필요)
-      part: "statistics,contentDetails",
+      // snippet: 채널명·프로필 이미지 (part 추가는 할당량 비용에 영향 없음)
+      part: "snippet,statistics,contentDetails",
       id: uniqueIds.join(","),
       maxResults: "50",
     },
-    params.apiKey
+    params.apiKey,
+    params.quota
   );
   return data.items ?? [];
 }
@@ -233,7 +396,8 @@ export async function getChannelDetails(params: {
  * 최신순 정렬 (YouTube 기본값)
  */
 export async function getPlaylistItems(params: {
-  apiKey: string;
+  apiKey: ApiKeySource;
+  quota?: QuotaTracker;
   playlistId: string;
   maxResults?: number;
 }): Promise<YouTubePlaylistItem[]> {
@@ -244,9 +408,100 @@ export async function getPlaylistItems(params: {
       playlistId: params.playlistId,
       maxResults: String(params.maxResults ?? 50),
     },
-    params.apiKey
+    params.apiKey,
+    params.quota
   );
   return data.items ?? [];
 }
 
-// TODO: 추후 채널 플레이리스트, 댓글 분석 등 추가 API 함수 확장 예정
+/**
+ * 업로드 플레이리스트 전체 페이지 순회 (playlistItems.list, 페이지당 1 unit)
+ * 채널 상세 분석용 — 최신순으로 maxItems개까지 수집
+ */
+export async function getAllPlaylistItems(params: {
+  apiKey: ApiKeySource;
+  quota?: QuotaTracker;
+  playlistId: string;
+  /** 최대 수집 개수 (기본 200) */
+  maxItems?: number;
+}): Promise<YouTubePlaylistItem[]> {
+  const maxItems = params.maxItems ?? 200;
+  const collected: YouTubePlaylistItem[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const pageParams: Record<string, string> = {
+      part: "snippet,contentDetails",
+      playlistId: params.playlistId,
+      maxResults: String(Math.min(50, maxItems - collected.length)),
+    };
+    if (pageToken) pageParams.pageToken = pageToken;
+
+    const data = await youtubeFetch<{
+      items?: YouTubePlaylistItem[];
+      nextPageToken?: string;
+    }>("playlistItems", pageParams, params.apiKey, params.quota);
+
+    collected.push(...(data.items ?? []));
+    pageToken = data.nextPageToken;
+  } while (pageToken && collected.length < maxItems);
+
+  return collected;
+}
+
+/**
+ * 영상의 최상위 댓글 페이지 순회 (commentThreads.list, 페이지당 1 unit·최대 100개)
+ * 댓글 분석용 — order=relevance(인기순, 기본) 또는 time(최신순)으로 maxComments개까지 수집
+ */
+export async function getCommentThreads(params: {
+  apiKey: ApiKeySource;
+  quota?: QuotaTracker;
+  videoId: string;
+  /** 최대 수집 개수 (기본 100) */
+  maxComments?: number;
+  order?: "relevance" | "time";
+}): Promise<YouTubeCommentThreadItem[]> {
+  const maxComments = params.maxComments ?? 100;
+  const collected: YouTubeCommentThreadItem[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const pageParams: Record<string, string> = {
+      part: "snippet",
+      videoId: params.videoId,
+      order: params.order ?? "relevance",
+      textFormat: "plainText",
+      maxResults: String(Math.min(100, maxComments - collected.length)),
+    };
+    if (pageToken) pageParams.pageToken = pageToken;
+
+    const data = await youtubeFetch<{
+      items?: YouTubeCommentThreadItem[];
+      nextPageToken?: string;
+    }>("commentThreads", pageParams, params.apiKey, params.quota);
+
+    collected.push(...(data.items ?? []));
+    pageToken = data.nextPageToken;
+  } while (pageToken && collected.length < maxComments);
+
+  return collected;
+}
+
+// ─── 청크 분할 유틸리티 ───────────────────────────────────────────────────────
+
+/**
+ * ID 목록을 chunkSize개씩 나누어 병렬 조회 후 결과를 순서대로 병합
+ * videos.list / channels.list는 한 번에 최대 50개 ID만 허용
+ */
+export async function fetchInChunks<T>(
+  ids: string[],
+  chunkSize: number,
+  fetcher: (chunk: string[]) => Promise<T[]>
+): Promise<T[]> {
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += chunkSize) {
+    chunks.push(ids.slice(i, i + chunkSize));
+  }
+  const results = await Promise.all(chunks.map(fetcher));
+  return results.flat();
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { analyzeComments, extractTimestamps, formatTimestamp } from "./commentAnalysis";
+import type { YouTubeCommentThreadItem, YouTubeVideoItem } from "./client";
+
+function thread(id: string, text: string, likeCount = 0): YouTubeCommentThreadItem {
+  return {
+    id,
+    snippet: {
+      topLevelComment: {
+        id,
+        snippet: { authorDisplayName: `작성자 ${id}`, textDisplay: text, likeCount, publishedAt: "2026-03-01T00:00:00Z" },
+      },
+      totalReplyCount: 0,
+    },
+  };
+}
+
+const video: YouTubeVideoItem = {
+  id: "vid",
+  contentDetails: { duration: "PT20M" },
+  statistics: { viewCount: "10000", commentCount: "50" },
+};
+
+describe("extractTimestamps", () => {
+  it("m:ss·h:mm:ss 인식, 비율 표기·잘못된 초·영상보다 긴 위치 제외", () => {
+    expect(extractTimestamps("3:15 그리고 1:02:03, 화면비 16:9, 3:15 반복")).toEqual([195, 3723]);
+    expect(extractTimestamps("2:75 / 12:30:99")).toEqual([]);
+    expect(extractTimestamps("3:15 그리고 25:00", 20 * 60)).toEqual([195]);
+  });
+
+  it("초 → 표시 문자열", () => {
+    expect(formatTimestamp(195)).toBe("3:15");
+    expect(formatTimestamp(3723)).toBe("1:02:03");
+  });
+});
+
+describe("analyzeComments", () => {
+  it("댓글 비율, 좋아요 순, 키워드, 타임스탬프 언급 수와 대표 댓글", () => {
+    const analysis = analyzeComments(
+      "vid",
+      [
+        thread("c1", "3:15 텐트 정보 궁금해요", 5),
+        thread("c2", "3:15 여기 텐트 어디 제품인가요", 30),
+        thread("c3", "텐트 정보 부탁드려요", 1),
+        thread("c4", "25:00 영상 끝나고 나오는 장면?", 2),
+      ],
+      video,
+      20 * 60
+    );
+
+    expect(analysis.commentToViewPercent).toBe(0.5);
+    expect(analysis.sampled).toBe(4);
+    expect(analysis.topLiked.map((c) => c.id)).toEqual(["c2", "c1", "c4", "c3"]);
+    expect(analysis.keywords[0]).toEqual({ term: "텐트", count: 3 });
+    expect(analysis.bigrams).toEqual([{ term: "텐트 정보", count: 2 }]);
+    expect(analysis.timestamps).toEqual([
+      { seconds: 195, label: "3:15", count: 2, sample: "3:15 여기 텐트 어디 제품인가요" },
+    ]);
+  });
+
+  it("통계가 없으면 비율 null", () => {
+    const analysis = analyzeComments("vid", [], undefined);
+    expect(analysis).toMatchObject({ commentCount: null, viewCount: null, commentToViewPercent: null, sampled: 0 });
+  });
+});
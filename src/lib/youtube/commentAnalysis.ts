@@ -0,0 +1,143 @@
+/**
+ * commentAnalysis.ts
+ * 벤치마크 영상 댓글 분석 (commentThreads 최상위 댓글 → 오프라인 지표)
+ * - 댓글 비율: 영상 통계의 commentCount ÷ viewCount
+ * - 좋아요 많은 댓글, 자주 나온 키워드·2-gram, "3:15" 같은 타임스탬프 언급 구간
+ * 순수 함수만 포함 (API 호출은 /api/youtube/comments Route Handler)
+ */
+
+import type { YouTubeCommentThreadItem, YouTubeVideoItem } from "./client";
+import { tokenizeKorean, topTerms, type TermCount } from "@/lib/text/korean";
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+const TOP_LIKED_LIMIT = 5;
+const KEYWORD_LIMIT = 20;
+const BIGRAM_LIMIT = 10;
+const TIMESTAMP_LIMIT = 10;
+
+/** h:mm:ss 또는 m:ss — 초는 2자리만 허용해 "16:9" 같은 비율 표기는 제외 */
+const TIMESTAMP_PATTERN = /(?<![\d:])(?:(\d{1,2}):)?(\d{1,2}):(\d{2})(?![\d:])/g;
+
+// ─── 타입 ─────────────────────────────────────────────────────────────────────
+
+export interface CommentSummary {
+  id: string;
+  author: string;
+  text: string;
+  likeCount: number;
+  replyCount: number;
+  publishedAt: string;
+}
+
+export interface TimestampMention {
+  /** 영상 내 위치 (초) */
+  seconds: number;
+  /** 표시용 (m:ss / h:mm:ss) */
+  label: string;
+  /** 이 구간을 언급한 댓글 수 */
+  count: number;
+  /** 언급 댓글 중 좋아요가 가장 많은 댓글 */
+  sample: string;
+}
+
+export interface CommentAnalysis {
+  videoId: string;
+  /** 영상 통계의 전체 댓글 수 (비공개·사용 중지면 null) */
+  commentCount: number | null;
+  viewCount: number | null;
+  /** 조회수 대비 댓글 비율 (%) — 둘 중 하나라도 없으면 null */
+  commentToViewPercent: number | null;
+  /** 분석에 사용한 최상위 댓글 수 */
+  sampled: number;
+  topLiked: CommentSummary[];
+  keywords: TermCount[];
+  bigrams: TermCount[];
+  timestamps: TimestampMention[];
+}
+
+// ─── 타임스탬프 ───────────────────────────────────────────────────────────────
+
+/** 초 → m:ss / h:mm:ss */
+export function formatTimestamp(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+/**
+ * 댓글 본문의 타임스탬프 → 초 (중복 제거)
+ * @param maxSeconds 영상 길이 — 지정 시 영상보다 긴 위치는 제외
+ */
+export function extractTimestamps(text: string, maxSeconds?: number): number[] {
+  const found = new Set<number>();
+  for (const [, h, m, s] of text.matchAll(TIMESTAMP_PATTERN)) {
+    const [hours, minutes, secs] = [Number(h ?? 0), Number(m), Number(s)];
+    if (secs >= 60 || (h !== undefined && minutes >= 60)) continue;
+    const total = hours * 3600 + minutes * 60 + secs;
+    if (maxSeconds === undefined || total <= maxSeconds) found.add(total);
+  }
+  return [...found];
+}
+
+// ─── 분석 ─────────────────────────────────────────────────────────────────────
+
+export function toCommentSummary(item: YouTubeCommentThreadItem): CommentSummary {
+  const { topLevelComment, totalReplyCount } = item.snippet;
+  return {
+    id: topLevelComment.id,
+    author: topLevelComment.snippet.authorDisplayName,
+    text: topLevelComment.snippet.textDisplay,
+    likeCount: topLevelComment.snippet.likeCount,
+    replyCount: totalReplyCount,
+    publishedAt: topLevelComment.snippet.publishedAt,
+  };
+}
+
+/**
+ * 최상위 댓글 + 영상 통계 → 댓글 분석
+ * @param durationSeconds 영상 길이 (타임스탬프 오탐 제거용)
+ */
+export function analyzeComments(
+  videoId: string,
+  items: YouTubeCommentThreadItem[],
+  video: YouTubeVideoItem | undefined,
+  durationSeconds?: number
+): CommentAnalysis {
+  const comments = items.map(toCommentSummary);
+  const stats = video?.statistics;
+  const commentCount = stats?.commentCount !== undefined ? parseInt(stats.commentCount) : null;
+  const viewCount = stats?.viewCount !== undefined ? parseInt(stats.viewCount) : null;
+
+  const documents = comments.map((c) => tokenizeKorean(c.text));
+
+  const mentions = new Map<number, CommentSummary[]>();
+  for (const comment of comments) {
+    for (const seconds of extractTimestamps(comment.text, durationSeconds)) {
+      mentions.set(seconds, [...(mentions.get(seconds) ?? []), comment]);
+    }
+  }
+  const timestamps = [...mentions]
+    .map(([seconds, list]) => ({
+      seconds,
+      label: formatTimestamp(seconds),
+      count: list.length,
+      sample: list.reduce((best, c) => (c.likeCount > best.likeCount ? c : best)).text,
+    }))
+    .sort((a, b) => b.count - a.count || a.seconds - b.seconds)
+    .slice(0, TIMESTAMP_LIMIT);
+
+  return {
+    videoId,
+    commentCount,
+    viewCount,
+    commentToViewPercent:
+      commentCount !== null && viewCount ? parseFloat(((commentCount / viewCount) * 100).toFixed(3)) : null,
+    sampled: comments.length,
+    topLiked: [...comments].sort((a, b) => b.likeCount - a.likeCount).slice(0, TOP_LIKED_LIMIT),
+    keywords: topTerms(documents, { limit: KEYWORD_LIMIT }),
+    bigrams: topTerms(documents, { n: 2, limit: BIGRAM_LIMIT }),
+    timestamps,
+  };
+}
@@ -0,0 +1,22 @@
+/**
+ * dataSource.ts
+ * YouTube 데이터 소스 인터페이스
+ * - LiveDataSource    (client.ts)        : googleapis.com 실제 호출
+ * - FixtureDataSource (fixtureSource.ts) : 녹화된 JSON 재생 (오프라인 테스트·데모)
+ */
+
+import type { YouTubeEndpoint } from "./quota";
+
+export interface YouTubeDataSource {
+  /** 로그 및 디버깅용 이름 ("live", "fixture" 등) */
+  readonly name: string;
+  /**
+   * 엔드포인트 + 파라미터로 YouTube Data API v3와 동일한 형태의 응답 반환
+   * 실패 시 YouTubeAPIError를 던져야 함
+   */
+  request<T>(
+    endpoint: YouTubeEndpoint,
+    params: Record<string, string>,
+    apiKey: string
+  ): Promise<T>;
+}
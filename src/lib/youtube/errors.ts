@@ -0,0 +1,40 @@
+/**
+ * errors.ts
+ * YouTube API 에러 타입 (client.ts에서 재노출)
+ * 브라우저 번들에서도 안전하게 import 할 수 있도록 서버 전용 의존성 없이 분리
+ */
+
+export class YouTubeAPIError extends Error {
+  constructor(
+    message: string,
+    public readonly code: YouTubeErrorCode,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "YouTubeAPIError";
+  }
+}
+
+export type YouTubeErrorCode =
+  | "INVALID_API_KEY"
+  | "BAD_REQUEST"
+  | "QUOTA_EXCEEDED"
+  | "FORBIDDEN"
+  | "COMMENTS_DISABLED"
+  | "NOT_FOUND"
+  | "NETWORK_ERROR"
+  | "BUDGET_EXCEEDED"
+  | "UNKNOWN";
+
+/** 에러 코드 → Route Handler 응답 HTTP 상태 코드 */
+export const YOUTUBE_ERROR_STATUS: Record<YouTubeErrorCode, number> = {
+  INVALID_API_KEY: 401,
+  BAD_REQUEST: 400,
+  QUOTA_EXCEEDED: 429,
+  FORBIDDEN: 403,
+  COMMENTS_DISABLED: 403,
+  NOT_FOUND: 404,
+  NETWORK_ERROR: 503,
+  BUDGET_EXCEEDED: 429,
+  UNKNOWN: 500,
+};
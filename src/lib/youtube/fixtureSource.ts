@@ -0,0 +1,210 @@
+/**
+ * fixtureSource.ts
+ * 녹화된 YouTube API 응답(JSON)을 재생하는 데이터 소스
+ * API Key·네트워크 없이 /api/youtube/search 전체 흐름을 실행하기 위한 용도
+ *
+ * fixture 디렉터리 구성
+ * - search.json        : { items: YouTubeSearchItem[] }  (모든 키워드에 같은 풀을 사용)
+ * - videos.json        : { items: YouTubeVideoItem[] }
+ * - channels.json      : { items: YouTubeChannelItem[] }
+ * - playlistItems.json : { [playlistId]: YouTubePlaylistItem[] }
+ * - commentThreads.json: { [videoId]: YouTubeCommentThreadItem[] }
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { YouTubeDataSource } from "./dataSource";
+import type {
+  YouTubeSearchItem,
+  YouTubeVideoItem,
+  YouTubeChannelItem,
+  YouTubePlaylistItem,
+  YouTubeCommentThreadItem,
+} from "./client";
+import type { YouTubeEndpoint } from "./quota";
+import { parseDurationToSeconds } from "./videoType";
+
+interface FixtureSet {
+  search: YouTubeSearchItem[];
+  videos: YouTubeVideoItem[];
+  channels: YouTubeChannelItem[];
+  playlistItems: Record<string, YouTubePlaylistItem[]>;
+  commentThreads: Record<string, YouTubeCommentThreadItem[]>;
+}
+
+const FIXTURE_FILES: Record<YouTubeEndpoint, string> = {
+  search: "search.json",
+  videos: "videos.json",
+  channels: "channels.json",
+  playlistItems: "playlistItems.json",
+  commentThreads: "commentThreads.json",
+};
+
+async function readJson<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+async function loadFixtureSet(dir: string): Promise<FixtureSet> {
+  const [search, videos, channels, playlistItems, commentThreads] = await Promise.all([
+    readJson<{ items?: YouTubeSearchItem[] }>(path.join(dir, FIXTURE_FILES.search), {}),
+    readJson<{ items?: YouTubeVideoItem[] }>(path.join(dir, FIXTURE_FILES.videos), {}),
+    readJson<{ items?: YouTubeChannelItem[] }>(path.join(dir, FIXTURE_FILES.channels), {}),
+    readJson<Record<string, YouTubePlaylistItem[]>>(
+      path.join(dir, FIXTURE_FILES.playlistItems),
+      {}
+    ),
+    readJson<Record<string, YouTubeCommentThreadItem[]>>(
+      path.join(dir, FIXTURE_FILES.commentThreads),
+      {}
+    ),
+  ]);
+  return {
+    search: search.items ?? [],
+    videos: videos.items ?? [],
+    channels: channels.items ?? [],
+    playlistItems,
+    commentThreads,
+  };
+}
+
+// ─── 페이지네이션 ─────────────────────────────────────────────────────────────
+
+/** pageToken은 "page:<offset>" 형식으로 발급 */
+function paginate<T>(
+  items: T[],
+  params: Record<string, string>
+): { items: T[]; nextPageToken?: string } {
+  const offset = parseInt(params.pageToken?.replace(/^page:/, "") ?? "0") || 0;
+  const size = parseInt(params.maxResults ?? "5") || 5;
+  const page = items.slice(offset, offset + size);
+  const next = offset + size;
+  return next < items.length
+    ? { items: page, nextPageToken: `page:${next}` }
+    : { items: page };
+}
+
+/** search.list videoDuration 규칙: short < 4분, medium 4~20분, long > 20분 */
+function matchesDurationParam(durationISO: string | undefined, param?: string): boolean {
+  if (!param || param === "any") return true;
+  if (!durationISO) return false;
+  const seconds = parseDurationToSeconds(durationISO);
+  if (param === "short") return seconds < 240;
+  if (param === "medium") return seconds >= 240 && seconds <= 1200;
+  if (param === "long") return seconds > 1200;
+  return true;
+}
+
+// ─── 재생 소스 ────────────────────────────────────────────────────────────────
+
+export class FixtureDataSource implements YouTubeDataSource {
+  readonly name = "fixture";
+  private fixtures: Promise<FixtureSet> | null = null;
+
+  constructor(private readonly dir: string) {}
+
+  private load(): Promise<FixtureSet> {
+    this.fixtures ??= loadFixtureSet(this.dir);
+    return this.fixtures;
+  }
+
+  async request<T>(
+    endpoint: YouTubeEndpoint,
+    params: Record<string, string>
+  ): Promise<T> {
+    const set = await this.load();
+    const ids = params.id ? params.id.split(",") : [];
+
+    switch (endpoint) {
+      case "search": {
+        const durations = new Map(set.videos.map((v) => [v.id, v.contentDetails.duration]));
+        const publishedAfter = params.publishedAfter
+          ? new Date(params.publishedAfter).getTime()
+          : null;
+        const matched = set.search.filter(
+          (item) =>
+            matchesDurationParam(durations.get(item.id.videoId), params.videoDuration) &&
+            (publishedAfter === null ||
+              new Date(item.snippet.publishedAt).getTime() >= publishedAfter)
+        );
+        return paginate(matched, params) as T;
+      }
+      case "videos":
+        return { items: set.videos.filter((v) => ids.includes(v.id)) } as T;
+      case "channels":
+        return { items: set.channels.filter((c) => ids.includes(c.id)) } as T;
+      case "playlistItems":
+        return paginate(set.playlistItems[params.playlistId] ?? [], params) as T;
+      case "commentThreads":
+        return paginate(set.commentThreads[params.videoId] ?? [], params) as T;
+    }
+  }
+}
+
+// ─── 녹화 소스 ────────────────────────────────────────────────────────────────
+
+/**
+ * 다른 소스(보통 live)의 응답을 그대로 반환하면서 fixture 파일에 누적 저장
+ * 같은 ID의 항목은 최신 응답으로 덮어씀
+ */
+export class RecordingDataSource implements YouTubeDataSource {
+  readonly name: string;
+  /** 동시 요청이 같은 파일을 덮어쓰지 않도록 쓰기를 직렬화 */
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly inner: YouTubeDataSource,
+    private readonly dir: string
+  ) {
+    this.name = `record(${inner.name})`;
+  }
+
+  async request<T>(
+    endpoint: YouTubeEndpoint,
+    params: Record<string, string>,
+    apiKey: string
+  ): Promise<T> {
+    const data = await this.inner.request<T>(endpoint, params, apiKey);
+    this.writeQueue = this.writeQueue
+      .then(() => this.record(endpoint, params, data as { items?: unknown[] }))
+      .catch((err) => console.error("[YouTube Fixture] 녹화 실패:", err));
+    await this.writeQueue;
+    return data;
+  }
+
+  private async record(
+    endpoint: YouTubeEndpoint,
+    params: Record<string, string>,
+    data: { items?: unknown[] }
+  ): Promise<void> {
+    const file = path.join(this.dir, FIXTURE_FILES[endpoint]);
+    const items = data.items ?? [];
+    await fs.mkdir(this.dir, { recursive: true });
+
+    if (endpoint === "playlistItems" || endpoint === "commentThreads") {
+      const groupKey = endpoint === "playlistItems" ? params.playlistId : params.videoId;
+      const existing = await readJson<Record<string, unknown[]>>(file, {});
+      const merged = [...(existing[groupKey] ?? []), ...items];
+      existing[groupKey] = dedupeBy(merged, endpoint === "playlistItems" ? playlistItemId : plainId);
+      await fs.writeFile(file, JSON.stringify(existing, null, 2));
+      return;
+    }
+
+    const existing = await readJson<{ items?: unknown[] }>(file, {});
+    const idOf = endpoint === "search" ? searchItemId : plainId;
+    const merged = dedupeBy([...(existing.items ?? []), ...items], idOf);
+    await fs.writeFile(file, JSON.stringify({ items: merged }, null, 2));
+  }
+}
+
+function dedupeBy(items: unknown[], idOf: (item: unknown) => string): unknown[] {
+  return [...new Map(items.map((item) => [idOf(item), item])).values()];
+}
+
+const plainId = (item: unknown) => (item as { id: string }).id;
+const searchItemId = (item: unknown) => (item as YouTubeSearchItem).id.videoId;
+const playlistItemId = (item: unknown) =>
+  (item as YouTubePlaylistItem).snippet.resourceId.videoId;
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { analyzeTitles, brightnessInsights, titleLength } from "./insights";
+import type { VideoResult } from "./analysis";
+
+function video(id: string, title: string, viewToSubscriberRatio: number): VideoResult {
+  return { id, title, viewToSubscriberRatio } as unknown as VideoResult;
+}
+
+const videos = [
+  video("a", "캠핑 장비 추천 TOP 5 [2024]", 8),
+  video("b", "겨울 캠핑 이렇게 하면 망합니다?!", 6),
+  video("c", "솔캠 브이로그 🔥", 1),
+  video("d", "캠핑 요리 레시피 모음", 2),
+  video("e", "초보 캠핑 장비 총정리 | 이것만 사면 끝 (가성비 위주로 골라서 정리해 봤습니다)", 4),
+];
+
+describe("analyzeTitles", () => {
+  it("패턴 사용·미사용 영상의 배율 중앙값과 차이", () => {
+    const { overall, patterns } = analyzeTitles(videos);
+    expect(overall).toEqual({ count: 5, medianRatio: 4 });
+
+    const byId = Object.fromEntries(patterns.map((p) => [p.id, p]));
+    expect(byId.number).toMatchObject({ share: 0.2, with: { count: 1, medianRatio: 8 }, lift: 2.67 });
+    expect(byId.bracket).toMatchObject({ with: { count: 2, medianRatio: 6 }, without: { medianRatio: 2 }, lift: 3 });
+    expect(byId.question.with.medianRatio).toBe(6);
+    expect(byId.exclamation.share).toBe(0.2);
+    expect(byId.emoji).toMatchObject({ with: { count: 1, medianRatio: 1 }, lift: 0.2 });
+    // 차이가 큰 순
+    expect(patterns[0].id).toBe("bracket");
+  });
+
+  it("길이 구간과 자주 쓰인 단어", () => {
+    const { lengths, terms, averageLength } = analyzeTitles(videos);
+    expect(lengths.map((b) => b.count)).toEqual([3, 1, 1, 0]);
+    expect(lengths[3].medianRatio).toBeNull();
+    expect(averageLength).toBe(Math.round(videos.reduce((s, v) => s + titleLength(v.title), 0) / 5));
+
+    expect(terms[0]).toEqual({ term: "캠핑", count: 4, medianRatio: 5, lift: 1.25 });
+    expect(terms.find((t) => t.term === "장비")).toEqual({ term: "장비", count: 2, medianRatio: 6, lift: 1.5 });
+  });
+
+  it("결과가 없으면 빈 집계", () => {
+    const empty = analyzeTitles([]);
+    expect(empty.overall.medianRatio).toBeNull();
+    expect(empty.patterns.every((p) => p.share === 0 && p.lift === null)).toBe(true);
+    expect(empty.terms).toEqual([]);
+  });
+});
+
+describe("brightnessInsights", () => {
+  it("밝기 구간별 배율 (분석하지 않은 영상 제외)", () => {
+    const buckets = brightnessInsights(videos, new Map([["a", 20], ["b", 35], ["c", 50], ["d", 90]]));
+    expect(buckets).toEqual([
+      { id: "dark", label: "어두움", count: 2, medianRatio: 7 },
+      { id: "medium", label: "보통", count: 1, medianRatio: 1 },
+      { id: "bright", label: "밝음", count: 1, medianRatio: 2 },
+    ]);
+  });
+});
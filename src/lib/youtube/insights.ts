@@ -0,0 +1,167 @@
+/**
+ * insights.ts
+ * 검색 결과의 제목·썸네일 패턴 분석 (인사이트 탭)
+ * - 제목: 길이 분포, 숫자·괄호·물음표·느낌표·이모지 사용, 자주 쓰인 한국어 토큰
+ * - 패턴마다 사용한 영상과 안 쓴 영상의 조회수/구독자 배율 중앙값을 비교 (배율은 치우친 분포라 평균 대신 중앙값)
+ * - 썸네일 밝기 구간별 배율 비교 (밝기·대표색 추출은 서버 thumbnailColors.ts)
+ * 브라우저 번들에서도 사용할 수 있도록 서버 전용 의존성 없음
+ */
+
+import type { VideoResult } from "./analysis";
+import { tokenizeKorean, topTerms } from "@/lib/text/korean";
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+/** 제목 길이 구간 (글자 수 상한, 마지막 구간은 상한 없음) */
+export const TITLE_LENGTH_BUCKETS = [
+  { id: "short", label: "~20자", max: 20 },
+  { id: "medium", label: "21~40자", max: 40 },
+  { id: "long", label: "41~60자", max: 60 },
+  { id: "veryLong", label: "61자~", max: Infinity },
+] as const;
+
+/** 제목 표기 패턴 */
+export const TITLE_PATTERNS = [
+  { id: "number", label: "숫자", pattern: /\p{N}/u },
+  { id: "bracket", label: "괄호", pattern: /[[\](){}【】「」『』<>〈〉《》]/ },
+  { id: "question", label: "물음표", pattern: /[?？]/ },
+  { id: "exclamation", label: "느낌표", pattern: /[!！]/ },
+  { id: "emoji", label: "이모지", pattern: /\p{Extended_Pictographic}/u },
+] as const;
+
+/** 썸네일 밝기 구간 (0~100 상한) */
+export const BRIGHTNESS_BUCKETS = [
+  { id: "dark", label: "어두움", max: 35 },
+  { id: "medium", label: "보통", max: 65 },
+  { id: "bright", label: "밝음", max: Infinity },
+] as const;
+
+/** 자주 쓰인 토큰 표시 개수 */
+export const TITLE_TERM_LIMIT = 15;
+
+// ─── 타입 ─────────────────────────────────────────────────────────────────────
+
+export type TitlePatternId = (typeof TITLE_PATTERNS)[number]["id"];
+
+export interface RatioGroup {
+  count: number;
+  /** 조회수 / 구독자 수 중앙값 (영상이 없으면 null) */
+  medianRatio: number | null;
+}
+
+export interface BucketInsight extends RatioGroup {
+  id: string;
+  label: string;
+}
+
+export interface PatternInsight {
+  id: TitlePatternId;
+  label: string;
+  /** 패턴을 쓴 영상 비율 (0~1) */
+  share: number;
+  with: RatioGroup;
+  without: RatioGroup;
+  /** 사용 영상 중앙값 / 미사용 영상 중앙값 (어느 한쪽이 없으면 null) */
+  lift: number | null;
+}
+
+export interface TermInsight extends RatioGroup {
+  term: string;
+  /** 전체 중앙값 대비 배수 */
+  lift: number | null;
+}
+
+export interface TitleInsights {
+  overall: RatioGroup;
+  /** 평균 제목 길이 (글자) */
+  averageLength: number;
+  lengths: BucketInsight[];
+  /** 배율 차이(lift)가 큰 순 */
+  patterns: PatternInsight[];
+  /** 등장 영상 수 순 */
+  terms: TermInsight[];
+}
+
+// ─── 집계 ─────────────────────────────────────────────────────────────────────
+
+function ratioGroup(videos: VideoResult[]): RatioGroup {
+  const ratios = videos.map((v) => v.viewToSubscriberRatio).sort((a, b) => a - b);
+  const mid = Math.floor(ratios.length / 2);
+  const medianRatio =
+    ratios.length === 0
+      ? null
+      : ratios.length % 2 === 1
+      ? ratios[mid]
+      : parseFloat(((ratios[mid - 1] + ratios[mid]) / 2).toFixed(2));
+  return { count: videos.length, medianRatio };
+}
+
+function liftOf(value: number | null, base: number | null): number | null {
+  if (value === null || base === null || base === 0) return null;
+  return parseFloat((value / base).toFixed(2));
+}
+
+/** 조합 문자(이모지 등)를 1자로 세는 제목 길이 */
+export function titleLength(title: string): number {
+  return [...title].length;
+}
+
+/** 값 → 구간별 영상 수·배율 중앙값 (값이 없는 영상은 제외) */
+function bucketize(
+  videos: VideoResult[],
+  buckets: readonly { id: string; label: string; max: number }[],
+  valueOf: (video: VideoResult) => number | null
+): BucketInsight[] {
+  return buckets.map((bucket, i) => {
+    const min = i === 0 ? -Infinity : buckets[i - 1].max;
+    const members = videos.filter((v) => {
+      const value = valueOf(v);
+      return value !== null && value > min && value <= bucket.max;
+    });
+    return { id: bucket.id, label: bucket.label, ...ratioGroup(members) };
+  });
+}
+
+export function analyzeTitles(videos: VideoResult[], termLimit = TITLE_TERM_LIMIT): TitleInsights {
+  const overall = ratioGroup(videos);
+
+  const patterns = TITLE_PATTERNS.map(({ id, label, pattern }) => {
+    const matched = videos.filter((v) => pattern.test(v.title));
+    const others = videos.filter((v) => !pattern.test(v.title));
+    const withGroup = ratioGroup(matched);
+    const withoutGroup = ratioGroup(others);
+    return {
+      id,
+      label,
+      share: videos.length > 0 ? matched.length / videos.length : 0,
+      with: withGroup,
+      without: withoutGroup,
+      lift: liftOf(withGroup.medianRatio, withoutGroup.medianRatio),
+    };
+  }).sort((a, b) => (b.lift ?? -1) - (a.lift ?? -1));
+
+  const documents = videos.map((v) => tokenizeKorean(v.title));
+  const terms = topTerms(documents, { limit: termLimit }).map(({ term }) => {
+    const group = ratioGroup(videos.filter((_, i) => documents[i].includes(term)));
+    return { term, ...group, lift: liftOf(group.medianRatio, overall.medianRatio) };
+  });
+
+  return {
+    overall,
+    averageLength:
+      videos.length > 0
+        ? Math.round(videos.reduce((sum, v) => sum + titleLength(v.title), 0) / videos.length)
+        : 0,
+    lengths: bucketize(videos, TITLE_LENGTH_BUCKETS, (v) => titleLength(v.title)),
+    patterns,
+    terms,
+  };
+}
+
+/** 썸네일 밝기(영상 ID → 0~100) 구간별 배율 비교 */
+export function brightnessInsights(
+  videos: VideoResult[],
+  brightnessById: Map<string, number>
+): BucketInsight[] {
+  return bucketize(videos, BRIGHTNESS_BUCKETS, (v) => brightnessById.get(v.id) ?? null);
+}
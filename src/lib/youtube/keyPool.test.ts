@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ApiKeyPool, collectRequestKeys, nextQuotaReset, resetExhaustedKeys } from "./keyPool";
+import { YouTubeAPIError } from "./errors";
+
+afterEach(() => {
+  resetExhaustedKeys();
+  vi.restoreAllMocks();
+});
+
+describe("nextQuotaReset", () => {
+  it.each([
+    // PDT (UTC-7): 다음 PT 자정 = 07:00 UTC
+    ["2026-07-01T12:00:00Z", "2026-07-02T07:00:00.000Z"],
+    ["2026-07-01T06:59:59Z", "2026-07-01T07:00:00.000Z"],
+    // PST (UTC-8): 다음 PT 자정 = 08:00 UTC
+    ["2026-01-15T20:30:00Z", "2026-01-16T08:00:00.000Z"],
+    // 서머타임 시작일(3/8) 오후 → 다음 자정은 PDT 기준
+    ["2026-03-08T20:00:00Z", "2026-03-09T07:00:00.000Z"],
+  ])("%s → %s", (now, expected) => {
+    expect(nextQuotaReset(new Date(now)).toISOString()).toBe(expected);
+  });
+});
+
+describe("ApiKeyPool", () => {
+  const quotaError = () => new YouTubeAPIError("quota", "QUOTA_EXCEEDED", 403);
+  const invalidError = () => new YouTubeAPIError("invalid", "INVALID_API_KEY", 400);
+
+  it("실패 사유가 할당량/무효 키일 때만 다음 키로 전환", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const pool = new ApiKeyPool(["A", "B", "C"]);
+    const fn = vi.fn(async (key: string) => {
+      if (key === "A") throw quotaError();
+      if (key === "B") throw invalidError();
+      return key;
+    });
+
+    expect(await pool.run(fn)).toBe("C");
+    expect(pool.report().map((r) => r.status)).toEqual(["exhausted", "invalid", "active"]);
+    expect(pool.report()[2].calls).toBe(1);
+  });
+
+  it("그 외 에러는 전환 없이 그대로 던짐", async () => {
+    const pool = new ApiKeyPool(["A", "B"]);
+    const fn = vi.fn(async () => {
+      throw new YouTubeAPIError("forbidden", "FORBIDDEN", 403);
+    });
+    await expect(pool.run(fn)).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("잘못된 요청(BAD_REQUEST)은 키를 무효 처리하거나 전환하지 않음", async () => {
+    const pool = new ApiKeyPool(["A", "B"]);
+    const fn = vi.fn(async () => {
+      throw new YouTubeAPIError("bad request", "BAD_REQUEST", 400);
+    });
+    await expect(pool.run(fn)).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(pool.report().map((r) => r.status)).toEqual(["active", "active"]);
+
+    const next = vi.fn(async (key: string) => key);
+    expect(await new ApiKeyPool(["A", "B"]).run(next)).toBe("A");
+  });
+
+  it("소진 기록은 리셋 시각까지 다른 풀에서도 유지", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    await new ApiKeyPool(["A"]).run(async () => {
+      throw quotaError();
+    }).catch(() => {});
+
+    const fn = vi.fn(async (key: string) => key);
+    expect(await new ApiKeyPool(["A", "B"]).run(fn)).toBe("B");
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("보고서에는 키 값이 없고 라벨·지문만 포함", () => {
+    const report = new ApiKeyPool(["AIza-secret", " AIza-secret ", ""]).report();
+    expect(report).toHaveLength(1);
+    expect(JSON.stringify(report)).not.toContain("secret");
+    expect(report[0]).toMatchObject({ label: "key#1", fingerprint: expect.stringMatching(/^[0-9a-f]{8}$/) });
+  });
+});
+
+describe("collectRequestKeys", () => {
+  it("apiKey 다음 apiKeys 순서, 문자열만 수집", () => {
+    expect(collectRequestKeys({ apiKey: "A", apiKeys: ["B", 3, " ", "C"] })).toEqual(["A", "B", "C"]);
+    expect(collectRequestKeys({ apiKeys: "A" })).toEqual([]);
+  });
+});
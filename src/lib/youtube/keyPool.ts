@@ -0,0 +1,188 @@
+/**
+ * keyPool.ts
+ * 여러 API Key를 순서대로 사용하다 quotaExceeded / keyInvalid 시 다음 키로 자동 전환
+ * - 할당량 소진 키는 태평양 시간(PT) 자정 리셋까지 프로세스 전체에서 건너뜀
+ * - 잘못된 파라미터(BAD_REQUEST) 등 키와 무관한 오류는 전환하지 않고 그대로 던짐
+ * - 보안: 키 값은 보고·로그에 절대 노출하지 않고 라벨(key#1)과 해시 지문만 사용
+ */
+
+import { createHash } from "node:crypto";
+import { YouTubeAPIError } from "./errors";
+
+/** 단일 키 문자열 또는 키 풀 (client.ts API 함수 공통 입력) */
+export type ApiKeySource = string | ApiKeyPool;
+
+export type KeyStatus = "active" | "exhausted" | "invalid";
+
+/** 응답용 키 사용 보고 (키 값 미포함) */
+export interface KeyUsageReport {
+  /** 입력 순서 기준 라벨 (예: "key#1") */
+  label: string;
+  /** SHA-256 앞 8자리 — 같은 키인지 구분용 */
+  fingerprint: string;
+  /** 이 요청에서 해당 키로 성공한 호출 수 */
+  calls: number;
+  status: KeyStatus;
+  /** 할당량 소진 시 다음 리셋 시각 (ISO 8601) */
+  exhaustedUntil?: string;
+}
+
+// ─── 할당량 리셋 시각 ─────────────────────────────────────────────────────────
+
+const QUOTA_RESET_TIMEZONE = "America/Los_Angeles";
+
+/** 다음 태평양 시간 자정 (YouTube Data API 일일 할당량 리셋 시각) */
+export function nextQuotaReset(now = new Date()): Date {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: QUOTA_RESET_TIMEZONE,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(now)
+      .map((p) => [p.type, p.value])
+  );
+  const y = Number(parts.year);
+  const m = Number(parts.month);
+  const d = Number(parts.day);
+  // PT 벽시계 시각을 UTC로 간주한 값과 실제 시각의 차이 = PT의 UTC 오프셋
+  const wallClockAsUTC = Date.UTC(y, m - 1, d, Number(parts.hour), Number(parts.minute), Number(parts.second));
+  const offset = wallClockAsUTC - Math.floor(now.getTime() / 1000) * 1000;
+  return new Date(Date.UTC(y, m - 1, d + 1) - offset);
+}
+
+// ─── 프로세스 전역 소진 기록 ──────────────────────────────────────────────────
+
+/** 전체 해시 → 리셋 시각(ms). 요청이 바뀌어도 소진 키를 다시 시도하지 않기 위함 */
+const exhaustedKeys = new Map<string, number>();
+
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function exhaustedUntil(hash: string, now = Date.now()): number | null {
+  const until = exhaustedKeys.get(hash);
+  if (until === undefined) return null;
+  if (until <= now) {
+    exhaustedKeys.delete(hash);
+    return null;
+  }
+  return until;
+}
+
+/** 소진 기록 초기화 (테스트용) */
+export function resetExhaustedKeys(): void {
+  exhaustedKeys.clear();
+}
+
+// ─── 키 풀 ───────────────────────────────────────────────────────────────────
+
+interface PoolEntry {
+  key: string;
+  hash: string;
+  label: string;
+  calls: number;
+  invalid: boolean;
+}
+
+export class ApiKeyPool {
+  private readonly entries: PoolEntry[];
+
+  /** @param keys 우선순위 순서의 키 목록 (공백·중복은 제거) */
+  constructor(keys: string[]) {
+    const unique = [...new Set(keys.map((k) => k.trim()).filter(Boolean))];
+    this.entries = unique.map((key, i) => ({
+      key,
+      hash: hashKey(key),
+      label: `key#${i + 1}`,
+      calls: 0,
+      invalid: false,
+    }));
+  }
+
+  static from(source: ApiKeySource): ApiKeyPool {
+    return typeof source === "string" ? new ApiKeyPool([source]) : source;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  private usable(): PoolEntry | undefined {
+    return this.entries.find((e) => !e.invalid && exhaustedUntil(e.hash) === null);
+  }
+
+  /**
+   * 사용 가능한 첫 키로 fn 실행, QUOTA_EXCEEDED / INVALID_API_KEY면 다음 키로 재시도
+   * 모든 키가 실패하면 마지막 원인에 맞는 YouTubeAPIError를 던짐
+   */
+  async run<T>(fn: (apiKey: string) => Promise<T>): Promise<T> {
+    let lastError: YouTubeAPIError | null = null;
+
+    for (let entry = this.usable(); entry; entry = this.usable()) {
+      try {
+        const result = await fn(entry.key);
+        entry.calls += 1;
+        return result;
+      } catch (err) {
+        if (!(err instanceof YouTubeAPIError)) throw err;
+        if (err.code === "QUOTA_EXCEEDED") {
+          // 다른 요청이 먼저 기록했더라도 같은 리셋 시각으로 덮어씀
+          exhaustedKeys.set(entry.hash, nextQuotaReset().getTime());
+        } else if (err.code === "INVALID_API_KEY") {
+          entry.invalid = true;
+        } else {
+          throw err;
+        }
+        lastError = err;
+        console.warn(`[YouTube KeyPool] ${entry.label} 전환 사유=${err.code}`);
+      }
+    }
+
+    if (this.entries.some((e) => exhaustedUntil(e.hash) !== null)) {
+      throw new YouTubeAPIError(
+        "등록된 모든 API Key의 일일 할당량이 소진되었습니다. 태평양 시간 자정 이후 다시 시도하거나 다른 API Key를 추가하세요.",
+        "QUOTA_EXCEEDED",
+        lastError?.status
+      );
+    }
+    throw (
+      lastError ??
+      new YouTubeAPIError("사용 가능한 API Key가 없습니다.", "INVALID_API_KEY")
+    );
+  }
+
+  report(): KeyUsageReport[] {
+    return this.entries.map((e) => {
+      const until = exhaustedUntil(e.hash);
+      const status: KeyStatus = e.invalid ? "invalid" : until !== null ? "exhausted" : "active";
+      return {
+        label: e.label,
+        fingerprint: e.hash.slice(0, 8),
+        calls: e.calls,
+        status,
+        ...(until !== null ? { exhaustedUntil: new Date(until).toISOString() } : {}),
+      };
+    });
+  }
+}
+
+/** 요청 본문의 apiKey(단일) + apiKeys(목록)를 순서대로 수집 (문자열 외 값은 무시) */
+export function collectRequestKeys(body: { apiKey?: unknown; apiKeys?: unknown }): string[] {
+  const keys: unknown[] = [body.apiKey, ...(Array.isArray(body.apiKeys) ? body.apiKeys : [])];
+  return keys.filter((k): k is string => typeof k === "string" && k.trim() !== "");
+}
+
+/**
+ * 요청 본문의 키와 서버 환경 변수(YOUTUBE_API_KEYS, 쉼표 구분)를 합쳐 풀 생성
+ * 사용자 키를 먼저 시도하고 서버 키는 예비로 사용
+ */
+export function buildKeyPool(requestKeys: string[]): ApiKeyPool {
+  const serverKeys = (process.env.YOUTUBE_API_KEYS ?? "").split(",");
+  return new ApiKeyPool([...requestKeys, ...serverKeys]);
+}
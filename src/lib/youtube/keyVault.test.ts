@@ -0,0 +1,68 @@
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  deleteVaultKeys,
+  getVaultKeyInfo,
+  isKeyVaultEnabled,
+  registerKeys,
+  resolveVaultKeys,
+} from "./keyVault";
+
+const SECRET = "test-secret-0123456789abcdefghijklmnop";
+let dataDir: string;
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "yt-vault-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+  vi.stubEnv("KEY_VAULT_SECRET", SECRET);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("keyVault", () => {
+  it("비밀값이 없거나 짧으면 비활성", () => {
+    vi.stubEnv("KEY_VAULT_SECRET", "short");
+    expect(isKeyVaultEnabled()).toBe(false);
+  });
+
+  it("등록한 키를 참조값으로 복호화하고, 저장 파일에는 키·참조값이 평문으로 남지 않음", async () => {
+    const { ref, keys } = await registerKeys(["AIza-KEY-A", " AIza-KEY-B ", "AIza-KEY-A"]);
+
+    expect(keys.map((k) => k.label)).toEqual(["key#1", "key#2"]);
+    expect(await resolveVaultKeys(ref)).toEqual(["AIza-KEY-A", "AIza-KEY-B"]);
+
+    const raw = await fs.readFile(path.join(dataDir, "keyVault.json"), "utf8");
+    expect(raw).not.toContain("AIza-KEY");
+    expect(raw).not.toContain(ref);
+  });
+
+  it("다른 비밀값으로는 복호화할 수 없음", async () => {
+    const { ref } = await registerKeys(["AIza-KEY-A"]);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubEnv("KEY_VAULT_SECRET", `${SECRET}-rotated`);
+    expect(await resolveVaultKeys(ref)).toEqual([]);
+  });
+
+  it("재등록 시 이전 참조는 폐기, 삭제 후에는 조회되지 않음", async () => {
+    const first = await registerKeys(["AIza-KEY-A"]);
+    const second = await registerKeys(["AIza-KEY-B"], first.ref);
+
+    expect(await getVaultKeyInfo(first.ref)).toBeNull();
+    expect(await resolveVaultKeys(second.ref)).toEqual(["AIza-KEY-B"]);
+
+    await deleteVaultKeys(second.ref);
+    expect(await getVaultKeyInfo(second.ref)).toBeNull();
+  });
+
+  it("30일이 지나면 만료", async () => {
+    const { ref } = await registerKeys(["AIza-KEY-A"]);
+    vi.useFakeTimers({ now: Date.now() + 31 * 24 * 60 * 60 * 1000 });
+    expect(await resolveVaultKeys(ref)).toEqual([]);
+  });
+});
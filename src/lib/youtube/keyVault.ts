@@ -0,0 +1,168 @@
+/**
+ * keyVault.ts
+ * 서버 보관 API Key 저장소
+ * - 키는 서버 비밀값(KEY_VAULT_SECRET)으로 AES-256-GCM 암호화하여 파일에 저장
+ * - 브라우저는 불투명한 참조값(ref)만 httpOnly 쿠키로 보관 → XSS·공용 PC에서 키 유출 방지
+ * - 저장소에는 ref의 해시만 기록 (저장 파일이 유출되어도 ref를 역산할 수 없음)
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+  scryptSync,
+} from "node:crypto";
+import type { NextRequest } from "next/server";
+import { JsonStore } from "@/lib/store/jsonStore";
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+/** 참조값을 담는 httpOnly 쿠키 이름 */
+export const KEY_REF_COOKIE = "yt_key_ref";
+/** 등록 유지 기간: 30일 (쿠키 만료와 동일) */
+export const KEY_REF_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+/** 한 참조에 등록할 수 있는 최대 키 수 */
+export const MAX_VAULT_KEYS = 10;
+
+const MIN_SECRET_LENGTH = 32;
+
+// ─── 저장 형식 ────────────────────────────────────────────────────────────────
+
+interface EncryptedKey {
+  /** base64: iv(12) + authTag(16) + ciphertext */
+  data: string;
+  /** SHA-256 앞 8자리 (keyPool 보고와 동일한 지문) */
+  fingerprint: string;
+}
+
+interface VaultEntry {
+  keys: EncryptedKey[];
+  createdAt: string;
+  expiresAt: number;
+}
+
+type VaultData = Record<string, VaultEntry>;
+
+/** 응답용 등록 키 정보 (키 값 미포함) */
+export interface VaultKeyInfo {
+  label: string;
+  fingerprint: string;
+}
+
+const store = new JsonStore<VaultData>("keyVault.json", () => ({}));
+
+// ─── 암호화 ───────────────────────────────────────────────────────────────────
+
+let cachedSecret: { secret: string; key: Buffer } | null = null;
+
+/** KEY_VAULT_SECRET이 없거나 너무 짧으면 서버 보관 모드 비활성 */
+export function isKeyVaultEnabled(): boolean {
+  return (process.env.KEY_VAULT_SECRET ?? "").length >= MIN_SECRET_LENGTH;
+}
+
+function encryptionKey(): Buffer {
+  const secret = process.env.KEY_VAULT_SECRET ?? "";
+  if (secret.length < MIN_SECRET_LENGTH) {
+    throw new Error("KEY_VAULT_SECRET이 설정되지 않았습니다.");
+  }
+  if (cachedSecret?.secret !== secret) {
+    cachedSecret = { secret, key: scryptSync(secret, "jjidong-tube/key-vault", 32) };
+  }
+  return cachedSecret.key;
+}
+
+function encrypt(plain: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+function decrypt(data: string): string {
+  const buf = Buffer.from(data, "base64");
+  const decipher = createDecipheriv("aes-256-gcm", encryptionKey(), buf.subarray(0, 12));
+  decipher.setAuthTag(buf.subarray(12, 28));
+  return Buffer.concat([decipher.update(buf.subarray(28)), decipher.final()]).toString("utf8");
+}
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+function toInfo(entry: VaultEntry): VaultKeyInfo[] {
+  return entry.keys.map((k, i) => ({ label: `key#${i + 1}`, fingerprint: k.fingerprint }));
+}
+
+/** 만료 항목 정리 (갱신 시마다 실행) */
+function pruneExpired(data: VaultData, now = Date.now()): void {
+  for (const [id, entry] of Object.entries(data)) {
+    if (entry.expiresAt <= now) delete data[id];
+  }
+}
+
+// ─── 공개 API ─────────────────────────────────────────────────────────────────
+
+/**
+ * 키 목록을 암호화하여 등록하고 새 참조값 반환
+ * 기존 참조(previousRef)가 있으면 폐기하고 새로 발급 (참조 재사용 방지)
+ */
+export async function registerKeys(
+  keys: string[],
+  previousRef?: string
+): Promise<{ ref: string; keys: VaultKeyInfo[] }> {
+  const unique = [...new Set(keys.map((k) => k.trim()).filter(Boolean))].slice(0, MAX_VAULT_KEYS);
+  const ref = randomBytes(32).toString("base64url");
+  const entry: VaultEntry = {
+    keys: unique.map((k) => ({ data: encrypt(k), fingerprint: sha256(k).slice(0, 8) })),
+    createdAt: new Date().toISOString(),
+    expiresAt: Date.now() + KEY_REF_TTL_MS,
+  };
+
+  await store.update((data) => {
+    pruneExpired(data);
+    if (previousRef) delete data[sha256(previousRef)];
+    data[sha256(ref)] = entry;
+  });
+  return { ref, keys: toInfo(entry) };
+}
+
+/** 참조값으로 등록된 키 정보 조회 (없거나 만료 시 null) */
+export async function getVaultKeyInfo(ref: string): Promise<VaultKeyInfo[] | null> {
+  const entry = (await store.read())[sha256(ref)];
+  if (!entry || entry.expiresAt <= Date.now()) return null;
+  return toInfo(entry);
+}
+
+/**
+ * 참조값으로 복호화된 키 목록 반환
+ * 비밀값이 바뀌어 복호화할 수 없는 키는 건너뜀
+ */
+export async function resolveVaultKeys(ref: string): Promise<string[]> {
+  if (!isKeyVaultEnabled()) return [];
+  const entry = (await store.read())[sha256(ref)];
+  if (!entry || entry.expiresAt <= Date.now()) return [];
+
+  const keys: string[] = [];
+  for (const k of entry.keys) {
+    try {
+      keys.push(decrypt(k.data));
+    } catch {
+      console.warn(`[KeyVault] 복호화 실패 fingerprint=${k.fingerprint}`);
+    }
+  }
+  return keys;
+}
+
+export async function deleteVaultKeys(ref: string): Promise<void> {
+  await store.update((data) => {
+    pruneExpired(data);
+    delete data[sha256(ref)];
+  });
+}
+
+/** 요청 쿠키의 참조값으로 서버 보관 키 조회 (쿠키가 없으면 빈 배열) */
+export async function resolveRequestVaultKeys(req: NextRequest): Promise<string[]> {
+  const ref = req.cookies.get(KEY_REF_COOKIE)?.value;
+  return ref ? resolveVaultKeys(ref) : [];
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  KEYWORD_PREFIXES,
+  KEYWORD_SUFFIXES,
+  channelSizeBucket,
+  expandKeyword,
+  rankCandidates,
+  scoreOpportunity,
+  type KeywordCandidateResult,
+} from "./keywordResearch";
+import type { VideoResult } from "./analysis";
+
+function video(viewCount: number, subscriberCount: number, score: 1 | 2 | 3 | 4 | 5): VideoResult {
+  return {
+    id: `v${viewCount}-${subscriberCount}`,
+    viewCount,
+    subscriberCount,
+    performanceScore: { score, label: "", color: "" },
+  } as unknown as VideoResult;
+}
+
+describe("expandKeyword", () => {
+  it("태그·제목 n-gram 후보를 근거 순으로, 패턴 후보는 뒤에", () => {
+    const candidates = expandKeyword("캠핑", {
+      titles: [
+        "초보 캠핑 장비 총정리",
+        "겨울 캠핑 장비 추천",
+        "솔캠 브이로그 | 겨울 캠핑",
+        "캠핑 요리 레시피",
+      ],
+      tags: [["캠핑", "솔캠", "Camping"], ["솔캠", "camping", "솔캠"], ["차박"]],
+    });
+    const byKeyword = new Map(candidates.map((c) => [c.keyword, c]));
+
+    expect(byKeyword.get("camping")).toMatchObject({ sources: ["tag"], evidence: 2 });
+    expect(byKeyword.get("솔캠")).toMatchObject({ sources: ["tag"], evidence: 2 });
+    expect(byKeyword.has("차박")).toBe(false);
+    expect(byKeyword.get("캠핑 장비")).toMatchObject({ sources: ["title", "pattern"], evidence: 2 });
+    expect(byKeyword.get("겨울 캠핑")).toMatchObject({ sources: ["title"], evidence: 2 });
+    expect(byKeyword.has("캠핑")).toBe(false);
+
+    const patternOnly = candidates.filter((c) => c.evidence === 0);
+    expect(patternOnly.length).toBe(KEYWORD_SUFFIXES.length + KEYWORD_PREFIXES.length - 1);
+    expect(candidates.indexOf(patternOnly[0])).toBe(candidates.length - patternOnly.length);
+  });
+
+  it("근거가 없으면 패턴 후보만", () => {
+    const candidates = expandKeyword("홈 카페", { titles: [], tags: [] });
+    expect(candidates.map((c) => c.keyword)).toEqual([
+      ...KEYWORD_SUFFIXES.map((s) => `홈 카페 ${s}`),
+      ...KEYWORD_PREFIXES.map((p) => `${p} 홈 카페`),
+    ]);
+  });
+});
+
+describe("scoreOpportunity", () => {
+  it("필터 통과 비율·평균 성과도·작은 채널 비율 가중 합", () => {
+    const result = scoreOpportunity(
+      "캠핑",
+      [video(50_000, 5_000, 5), video(20_000, 50_000, 2), video(300_000, 2_000_000, 1), video(9_000, 3_000, 4)],
+      1
+    );
+    expect(result).toMatchObject({
+      sampled: 4,
+      passing: 2,
+      passShare: 0.5,
+      avgPerformance: 3,
+      channelMix: { under10k: 2, under100k: 1, under1m: 0, over1m: 1 },
+    });
+    // 100 × (0.5 × 0.5 + 0.3 × 0.5 + 0.2 × 0.75)
+    expect(result.score).toBe(55);
+  });
+
+  it("프로필 배수를 통과 기준으로, 표본이 없으면 점수 null", () => {
+    expect(scoreOpportunity("a", [video(15_000, 10_000, 3)], 2).passing).toBe(0);
+    expect(scoreOpportunity("a", [], 1)).toMatchObject({ sampled: 0, score: null, topVideo: null });
+  });
+
+  it("채널 규모 구간 경계", () => {
+    expect([9_999, 10_000, 999_999, 1_000_000].map(channelSizeBucket)).toEqual([
+      "under10k",
+      "under100k",
+      "under1m",
+      "over1m",
+    ]);
+  });
+});
+
+describe("rankCandidates", () => {
+  it("점수 내림차순, 점수 없는 후보는 뒤로", () => {
+    const result = (keyword: string, score: number | null) =>
+      ({ keyword, opportunity: score === null ? null : { score } }) as KeywordCandidateResult;
+    expect(rankCandidates([result("a", 10), result("b", null), result("c", 70)]).map((r) => r.keyword)).toEqual([
+      "c",
+      "a",
+      "b",
+    ]);
+  });
+});
@@ -0,0 +1,325 @@
+/**
+ * keywordResearch.ts
+ * 키워드 확장 — 시드 키워드에서 관련 키워드 후보를 만들고, 후보마다 표본 검색으로 "기회 점수" 산정
+ * - 후보: 접두·접미 패턴 + 시드 상위 결과의 태그 + 제목 n-gram(lib/text/korean.ts)
+ * - 표본 검색: 검색 1페이지(SAMPLE_SIZE개) + 영상·채널 상세 1회씩, 채널 평균·/shorts/ 확인 생략
+ * - 핵심 필터를 끈 채로 점수를 매겨 "필터 통과 비율"까지 계산 (본 검색 전에 주제를 고르는 용도)
+ * - 다음 후보의 표본 비용이 예산에 남지 않으면 그 후보부터 생략 (skipped: "keyword:<후보>")
+ */
+
+import { getVideoTypeSearchParams, type VideoType } from "./videoType";
+import { buildAndFilterResults, type VideoResult } from "./analysis";
+import { getChannelDetails, getVideoDetails, searchVideos } from "./client";
+import { QUOTA_COSTS, searchPageCost, type QuotaTracker } from "./quota";
+import type { ApiKeyPool } from "./keyPool";
+import type { ScoringProfile } from "@/lib/scoring/profiles";
+import { tokenizeKorean, topTerms } from "@/lib/text/korean";
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+/** 후보 표본 검색의 videoDuration별 결과 수 (search.list 비용은 결과 수와 무관하게 100) */
+export const SAMPLE_SIZE = 25;
+/** 한 번에 표본 검색할 수 있는 후보 수 */
+export const MAX_SAMPLED_CANDIDATES = 10;
+/** 확장 결과로 돌려주는 후보 수 */
+export const MAX_CANDIDATES = 30;
+/** 확장 후 기본으로 표본 검색할 상위 후보 수 */
+export const DEFAULT_SAMPLE_COUNT = 5;
+
+/** 시드 뒤에 붙이는 패턴 (캠핑 → 캠핑 추천) */
+export const KEYWORD_SUFFIXES = ["추천", "꿀팁", "브이로그", "후기", "방법", "초보", "장비", "루틴"];
+/** 시드 앞에 붙이는 패턴 (캠핑 → 초보 캠핑) */
+export const KEYWORD_PREFIXES = ["초보", "혼자", "가성비"];
+
+/** 채널 규모 구간 — 구독자 수 상한 (마지막 구간은 상한 없음) */
+export const CHANNEL_SIZE_BUCKETS = [
+  { id: "under10k", max: 10_000 },
+  { id: "under100k", max: 100_000 },
+  { id: "under1m", max: 1_000_000 },
+  { id: "over1m", max: Infinity },
+] as const;
+
+/** 기회 점수 가중치: 필터 통과 비율 · 평균 성과도 · 10만 미만 채널 비율 */
+export const OPPORTUNITY_WEIGHTS = { passShare: 0.5, performance: 0.3, smallChannels: 0.2 } as const;
+
+// ─── 타입 ─────────────────────────────────────────────────────────────────────
+
+export type CandidateSource = "pattern" | "tag" | "title";
+export type ChannelSizeBucket = (typeof CHANNEL_SIZE_BUCKETS)[number]["id"];
+
+export interface KeywordCandidate {
+  keyword: string;
+  sources: CandidateSource[];
+  /** 태그·제목에서 나온 경우 등장한 시드 결과 영상 수 (패턴만이면 0) */
+  evidence: number;
+}
+
+export interface KeywordOpportunity {
+  keyword: string;
+  /** 유형(Shorts/롱폼)이 맞는 표본 영상 수 */
+  sampled: number;
+  /** 조회수 >= 구독자 수 × 프로필 배수를 만족한 영상 수 */
+  passing: number;
+  /** passing / sampled (0~1) */
+  passShare: number;
+  /** 표본 전체의 평균 성과도 (1~5) */
+  avgPerformance: number | null;
+  /** 채널 규모 구간별 영상 수 */
+  channelMix: Record<ChannelSizeBucket, number>;
+  /** 0~100, 표본이 없으면 null */
+  score: number | null;
+  /** 표본 중 성과도 최상위 영상 */
+  topVideo: VideoResult | null;
+}
+
+export interface KeywordCandidateResult extends KeywordCandidate {
+  /** 표본 검색을 하지 않았거나 예산 부족으로 생략하면 null */
+  opportunity: KeywordOpportunity | null;
+}
+
+/** 시드 표본에서 후보 추출에 쓰는 텍스트 */
+export interface SeedCorpus {
+  titles: string[];
+  /** 영상별 태그 */
+  tags: string[][];
+}
+
+// ─── 후보 생성 ────────────────────────────────────────────────────────────────
+
+/** 비교용 정규화 — 소문자, 공백 하나로 */
+export function normalizeKeyword(keyword: string): string {
+  return keyword.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * 시드 키워드 → 관련 키워드 후보
+ * - 태그: 시드 결과 2개 이상 영상에 붙은 태그 그대로
+ * - 제목: 2개 이상 제목에 함께 나온 단어는 "시드 + 단어", 시드 단어를 포함한 2-gram은 그대로
+ * - 패턴: 접두·접미 조합 (근거가 없으므로 태그·제목 후보 뒤에 배치)
+ */
+export function expandKeyword(seed: string, corpus: SeedCorpus): KeywordCandidate[] {
+  const seedNorm = normalizeKeyword(seed);
+  const seedTokens = new Set(tokenizeKorean(seed));
+  const candidates = new Map<string, KeywordCandidate>();
+
+  const add = (keyword: string, source: CandidateSource, evidence: number) => {
+    const key = normalizeKeyword(keyword);
+    if (!key || key === seedNorm) return;
+    const existing = candidates.get(key);
+    if (existing) {
+      if (!existing.sources.includes(source)) existing.sources.push(source);
+      existing.evidence = Math.max(existing.evidence, evidence);
+    } else {
+      candidates.set(key, { keyword: key, sources: [source], evidence });
+    }
+  };
+
+  // 태그 (영상 하나에 같은 태그가 여러 번 있어도 1회)
+  const tagCounts = new Map<string, number>();
+  for (const tags of corpus.tags) {
+    for (const tag of new Set(tags.map(normalizeKeyword))) {
+      tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+    }
+  }
+  for (const [tag, count] of tagCounts) {
+    if (count >= 2 && tag.length >= 2) add(tag, "tag", count);
+  }
+
+  // 제목 n-gram
+  const documents = corpus.titles.map(tokenizeKorean);
+  for (const { term, count } of topTerms(documents, { n: 1, limit: MAX_CANDIDATES })) {
+    if (!seedTokens.has(term)) add(`${seed} ${term}`, "title", count);
+  }
+  for (const { term, count } of topTerms(documents, { n: 2, limit: MAX_CANDIDATES })) {
+    const parts = term.split(" ");
+    if (parts.some((p) => seedTokens.has(p)) && !parts.every((p) => seedTokens.has(p))) {
+      add(term, "title", count);
+    }
+  }
+
+  for (const suffix of KEYWORD_SUFFIXES) add(`${seed} ${suffix}`, "pattern", 0);
+  for (const prefix of KEYWORD_PREFIXES) add(`${prefix} ${seed}`, "pattern", 0);
+
+  return [...candidates.values()]
+    .sort((a, b) => b.evidence - a.evidence || b.sources.length - a.sources.length)
+    .slice(0, MAX_CANDIDATES);
+}
+
+// ─── 기회 점수 ────────────────────────────────────────────────────────────────
+
+export function channelSizeBucket(subscriberCount: number): ChannelSizeBucket {
+  return CHANNEL_SIZE_BUCKETS.find((b) => subscriberCount < b.max)!.id;
+}
+
+/**
+ * 표본(핵심 필터를 끄고 점수를 매긴 영상) → 기회 점수
+ * 구독자보다 조회수가 많은 영상이 흔하고, 성과도가 높고, 작은 채널도 상위에 보일수록 높음
+ */
+export function scoreOpportunity(
+  keyword: string,
+  videos: VideoResult[],
+  minViewToSubscriberRatio: number | null
+): KeywordOpportunity {
+  const ratio = minViewToSubscriberRatio ?? 1;
+  const channelMix = Object.fromEntries(CHANNEL_SIZE_BUCKETS.map((b) => [b.id, 0])) as Record<
+    ChannelSizeBucket,
+    number
+  >;
+  for (const v of videos) channelMix[channelSizeBucket(v.subscriberCount)] += 1;
+
+  const sampled = videos.length;
+  const passing = videos.filter((v) => v.viewCount >= v.subscriberCount * ratio).length;
+  if (sampled === 0) {
+    return {
+      keyword,
+      sampled,
+      passing,
+      passShare: 0,
+      avgPerformance: null,
+      channelMix,
+      score: null,
+      topVideo: null,
+    };
+  }
+
+  const passShare = passing / sampled;
+  const avgPerformance = videos.reduce((sum, v) => sum + v.performanceScore.score, 0) / sampled;
+  const smallShare = (channelMix.under10k + channelMix.under100k) / sampled;
+  const score =
+    100 *
+    (OPPORTUNITY_WEIGHTS.passShare * passShare +
+      OPPORTUNITY_WEIGHTS.performance * ((avgPerformance - 1) / 4) +
+      OPPORTUNITY_WEIGHTS.smallChannels * smallShare);
+
+  return {
+    keyword,
+    sampled,
+    passing,
+    passShare: parseFloat(passShare.toFixed(2)),
+    avgPerformance: parseFloat(avgPerformance.toFixed(2)),
+    channelMix,
+    score: Math.round(score),
+    // buildAndFilterResults가 성과도 순으로 정렬해 돌려줌
+    topVideo: videos[0],
+  };
+}
+
+// ─── 실행 ─────────────────────────────────────────────────────────────────────
+
+export interface KeywordResearchParams {
+  keyPool: ApiKeyPool;
+  quota: QuotaTracker;
+  keyword: string;
+  videoType: VideoType;
+  publishedAfter?: string;
+  profile: ScoringProfile;
+}
+
+/** 후보 1개 표본 비용: 검색 1페이지 + 영상·채널 상세 1회씩 */
+export function sampleCost(videoType: VideoType): number {
+  const { videoDurations } = getVideoTypeSearchParams(videoType);
+  return searchPageCost(videoDurations.length) + QUOTA_COSTS.videos + QUOTA_COSTS.channels;
+}
+
+/** 키워드 1개 표본 검색 → 기회 점수 + 후보 추출용 제목·태그 */
+async function sampleKeyword(
+  params: KeywordResearchParams,
+  keyword: string
+): Promise<{ opportunity: KeywordOpportunity; corpus: SeedCorpus }> {
+  const { keyPool, quota, videoType } = params;
+  const { videoDurations } = getVideoTypeSearchParams(videoType);
+  const pages = await Promise.all(
+    videoDurations.map((videoDuration) =>
+      searchVideos({
+        apiKey: keyPool,
+        quota,
+        keyword,
+        videoDuration,
+        maxResults: SAMPLE_SIZE,
+        publishedAfter: params.publishedAfter,
+      })
+    )
+  );
+  const searchItems = [
+    ...new Map(pages.flatMap((p) => p.items).map((item) => [item.id.videoId, item])).values(),
+  ];
+  // 표본은 ID 50개 이하이므로 상세 조회는 1회씩
+  const [videoItems, channelItems] = await Promise.all([
+    getVideoDetails({
+      apiKey: keyPool,
+      quota,
+      videoIds: searchItems.map((item) => item.id.videoId).slice(0, 50),
+      shortsSignals: true,
+    }),
+    getChannelDetails({
+      apiKey: keyPool,
+      quota,
+      channelIds: [...new Set(searchItems.map((item) => item.snippet.channelId))].slice(0, 50),
+    }),
+  ]);
+
+  const videos = buildAndFilterResults(
+    searchItems,
+    videoItems,
+    channelItems,
+    videoType,
+    new Map(),
+    {},
+    searchItems.length,
+    { ...params.profile, minViewToSubscriberRatio: null }
+  );
+  return {
+    opportunity: scoreOpportunity(keyword, videos, params.profile.minViewToSubscriberRatio),
+    corpus: {
+      titles: searchItems.map((item) => item.snippet.title),
+      tags: videoItems.map((item) => item.snippet?.tags ?? []),
+    },
+  };
+}
+
+/** 후보를 순서대로 표본 검색 (예산이 모자라면 생략하고 opportunity null) */
+export async function sampleCandidates(
+  params: KeywordResearchParams,
+  candidates: KeywordCandidate[]
+): Promise<KeywordCandidateResult[]> {
+  const cost = sampleCost(params.videoType);
+  const results: KeywordCandidateResult[] = [];
+  for (const candidate of candidates) {
+    if (!params.quota.canAfford(cost)) {
+      params.quota.markSkipped(`keyword:${candidate.keyword}`);
+      results.push({ ...candidate, opportunity: null });
+      continue;
+    }
+    const { opportunity } = await sampleKeyword(params, candidate.keyword);
+    results.push({ ...candidate, opportunity });
+  }
+  return results;
+}
+
+/**
+ * 시드 표본 검색 → 후보 확장 → 상위 sampleCount개 표본 검색
+ * 표본 검색한 후보는 기회 점수 순, 나머지는 확장 순서대로 뒤에 배치
+ * 시드 표본 비용도 예산에 없으면 패턴 후보만 돌려줌 (seed null)
+ */
+export async function researchKeyword(
+  params: KeywordResearchParams & { sampleCount: number }
+): Promise<{ seed: KeywordOpportunity | null; candidates: KeywordCandidateResult[] }> {
+  let seed: KeywordOpportunity | null = null;
+  let corpus: SeedCorpus = { titles: [], tags: [] };
+  if (params.quota.canAfford(sampleCost(params.videoType))) {
+    ({ opportunity: seed, corpus } = await sampleKeyword(params, params.keyword));
+  } else {
+    params.quota.markSkipped(`keyword:${normalizeKeyword(params.keyword)}`);
+  }
+  const candidates = expandKeyword(params.keyword, corpus);
+  const sampled = await sampleCandidates(params, candidates.slice(0, params.sampleCount));
+  const rest = candidates.slice(params.sampleCount).map((c) => ({ ...c, opportunity: null }));
+  return { seed, candidates: [...rankCandidates(sampled), ...rest] };
+}
+
+/** 기회 점수 내림차순 (점수 없는 후보는 뒤로, 원본 유지) */
+export function rankCandidates(results: KeywordCandidateResult[]): KeywordCandidateResult[] {
+  return [...results].sort(
+    (a, b) => (b.opportunity?.score ?? -1) - (a.opportunity?.score ?? -1)
+  );
+}
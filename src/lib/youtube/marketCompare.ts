@@ -0,0 +1,114 @@
+/**
+ * marketCompare.ts
+ * 같은 키워드를 여러 시장(지역·언어)에서 검색해 아웃라이어가 많은 시장 순으로 비교
+ * - 시장마다 키워드 검색 파이프라인(searchPipeline.ts)을 1페이지만 실행
+ * - 채널 평균(기여도) 단계는 건너뛰고 성과도(구독자 대비 조회수)로만 비교 — 시장 수만큼 비용이 늘기 때문
+ * - 다음 시장의 검색·상세 조회 비용이 예산에 남지 않으면 그 시장부터 생략 (skipped: "market:JP")
+ */
+
+import { getVideoTypeSearchParams, type VideoType } from "./videoType";
+import type { BuildFilterOptions, VideoResult } from "./analysis";
+import { OUTLIER_MIN_SCORE } from "./channelAnalysis";
+import { searchDetailReserve, searchPageCost, type QuotaTracker } from "./quota";
+import type { ApiKeyPool } from "./keyPool";
+import { runKeywordSearch } from "./searchPipeline";
+import type { ScoringProfile } from "@/lib/scoring/profiles";
+
+// ─── 타입 ─────────────────────────────────────────────────────────────────────
+
+export interface MarketTarget {
+  regionCode: string;
+  relevanceLanguage: string;
+}
+
+export interface MarketSummary extends MarketTarget {
+  /** 필터 통과 영상 수 */
+  total: number;
+  /** 성과도 OUTLIER_MIN_SCORE(Great) 이상 영상 수 */
+  outliers: number;
+  /** 조회수 / 구독자 수 중앙값 (영상이 없으면 null) */
+  medianRatio: number | null;
+  /** 성과도 상위 영상 */
+  topVideos: VideoResult[];
+}
+
+/** 시장별 상위 영상 표시 개수 */
+export const MARKET_TOP_VIDEOS = 3;
+
+// ─── 집계 ─────────────────────────────────────────────────────────────────────
+
+/** 검색 결과(성과도 순) → 시장 요약 */
+export function summarizeMarket(target: MarketTarget, videos: VideoResult[]): MarketSummary {
+  const ratios = videos.map((v) => v.viewToSubscriberRatio).sort((a, b) => a - b);
+  const mid = Math.floor(ratios.length / 2);
+  const medianRatio =
+    ratios.length === 0
+      ? null
+      : ratios.length % 2 === 1
+      ? ratios[mid]
+      : parseFloat(((ratios[mid - 1] + ratios[mid]) / 2).toFixed(2));
+  return {
+    ...target,
+    total: videos.length,
+    outliers: videos.filter((v) => v.performanceScore.score >= OUTLIER_MIN_SCORE).length,
+    medianRatio,
+    topVideos: videos.slice(0, MARKET_TOP_VIDEOS),
+  };
+}
+
+/** 아웃라이어 수 → 중앙값 배율 순으로 정렬 (원본 유지) */
+export function rankMarkets(markets: MarketSummary[]): MarketSummary[] {
+  return [...markets].sort(
+    (a, b) => b.outliers - a.outliers || (b.medianRatio ?? 0) - (a.medianRatio ?? 0)
+  );
+}
+
+// ─── 실행 ─────────────────────────────────────────────────────────────────────
+
+export interface CompareMarketsParams {
+  keyPool: ApiKeyPool;
+  quota: QuotaTracker;
+  keyword: string;
+  videoType: VideoType;
+  publishedAfter?: string;
+  markets: MarketTarget[];
+  filters: BuildFilterOptions;
+  maxResults: number;
+  profile: ScoringProfile;
+}
+
+/** 시장을 순서대로 검색해 요약 (예산 부족으로 생략한 시장은 결과에서 빠짐) */
+export async function compareMarkets(params: CompareMarketsParams): Promise<MarketSummary[]> {
+  const { quota } = params;
+  const { videoDurations } = getVideoTypeSearchParams(params.videoType);
+  // 검색 1페이지 + 최악의 경우 결과 수만큼의 영상·채널 상세 조회
+  const marketCost =
+    searchPageCost(videoDurations.length) + searchDetailReserve(videoDurations.length * 50);
+
+  const summaries: MarketSummary[] = [];
+  for (const market of params.markets) {
+    if (!quota.canAfford(marketCost)) {
+      quota.markSkipped(`market:${market.regionCode}`);
+      continue;
+    }
+    const { videos } = await runKeywordSearch({
+      keyPool: params.keyPool,
+      quota,
+      keyword: params.keyword,
+      videoType: params.videoType,
+      publishedAfter: params.publishedAfter,
+      regionCode: market.regionCode,
+      relevanceLanguage: market.relevanceLanguage,
+      pageDepth: 1,
+      cursors: videoDurations.map((duration) => ({ duration })),
+      pagesBefore: 0,
+      seenVideoIds: new Set(),
+      filters: params.filters,
+      maxResults: params.maxResults,
+      profile: params.profile,
+      channelAverages: false,
+    });
+    summaries.push(summarizeMarket(market, videos));
+  }
+  return rankMarkets(summaries);
+}
@@ -0,0 +1,77 @@
+/**
+ * markets.ts
+ * 검색 대상 지역(regionCode)·언어(relevanceLanguage) 목록과 검증
+ * - 서버(검색 Route Handler)와 클라이언트(필터 패널·시장 비교)가 함께 사용하므로 순수 값만 둠
+ */
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+export const DEFAULT_REGION_CODE = "KR";
+export const DEFAULT_RELEVANCE_LANGUAGE = "ko";
+/** 시장 비교 1회에 돌릴 수 있는 최대 지역 수 (지역마다 검색 비용이 그대로 듦) */
+export const MAX_COMPARE_MARKETS = 5;
+
+export interface SearchRegion {
+  /** ISO 3166-1 alpha-2 */
+  code: string;
+  label: string;
+  /** 이 지역을 고르면 함께 선택할 기본 언어 */
+  language: string;
+}
+
+export const SEARCH_REGIONS: SearchRegion[] = [
+  { code: "KR", label: "한국", language: "ko" },
+  { code: "JP", label: "일본", language: "ja" },
+  { code: "US", label: "미국", language: "en" },
+  { code: "GB", label: "영국", language: "en" },
+  { code: "IN", label: "인도", language: "en" },
+  { code: "TW", label: "대만", language: "zh-Hant" },
+  { code: "VN", label: "베트남", language: "vi" },
+  { code: "TH", label: "태국", language: "th" },
+  { code: "ID", label: "인도네시아", language: "id" },
+  { code: "BR", label: "브라질", language: "pt" },
+  { code: "MX", label: "멕시코", language: "es" },
+  { code: "DE", label: "독일", language: "de" },
+  { code: "FR", label: "프랑스", language: "fr" },
+];
+
+/** relevanceLanguage 값 (ISO 639-1, 중국어는 번체·간체 구분) */
+export const SEARCH_LANGUAGES: { code: string; label: string }[] = [
+  { code: "ko", label: "한국어" },
+  { code: "ja", label: "일본어" },
+  { code: "en", label: "영어" },
+  { code: "zh-Hant", label: "중국어(번체)" },
+  { code: "zh-Hans", label: "중국어(간체)" },
+  { code: "vi", label: "베트남어" },
+  { code: "th", label: "태국어" },
+  { code: "id", label: "인도네시아어" },
+  { code: "pt", label: "포르투갈어" },
+  { code: "es", label: "스페인어" },
+  { code: "de", label: "독일어" },
+  { code: "fr", label: "프랑스어" },
+];
+
+// ─── 검증 ─────────────────────────────────────────────────────────────────────
+
+export function isRegionCode(value: unknown): value is string {
+  return typeof value === "string" && SEARCH_REGIONS.some((r) => r.code === value);
+}
+
+export function isRelevanceLanguage(value: unknown): value is string {
+  return typeof value === "string" && SEARCH_LANGUAGES.some((l) => l.code === value);
+}
+
+/** 지역의 기본 언어 (목록에 없으면 기본 언어) */
+export function defaultLanguageFor(regionCode: string): string {
+  return SEARCH_REGIONS.find((r) => r.code === regionCode)?.language ?? DEFAULT_RELEVANCE_LANGUAGE;
+}
+
+/** 화면 표시용 지역 이름 */
+export function regionLabel(regionCode: string): string {
+  return SEARCH_REGIONS.find((r) => r.code === regionCode)?.label ?? regionCode;
+}
+
+/** 화면 표시용 언어 이름 */
+export function languageLabel(language: string): string {
+  return SEARCH_LANGUAGES.find((l) => l.code === language)?.label ?? language;
+}
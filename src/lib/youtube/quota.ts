@@ -0,0 +1,164 @@
+/**
+ * quota.ts
+ * YouTube Data API 할당량(unit) 비용 집계 및 예산 가드
+ * 요청 1건 단위로 QuotaTracker를 생성하여 client.ts 호출마다 비용을 누적
+ */
+
+import { YouTubeAPIError } from "./errors";
+import type { CacheKind } from "./cache";
+
+// ─── 엔드포인트별 비용 ────────────────────────────────────────────────────────
+
+export type YouTubeEndpoint = "search" | "videos" | "channels" | "playlistItems" | "commentThreads";
+
+/**
+ * 엔드포인트별 호출 1회당 소모 unit (YouTube Data API v3 공식 비용표)
+ * - search.list        : 100 units
+ * - videos/channels/playlistItems.list : 1 unit
+ * - commentThreads.list : 1 unit (페이지당 최대 100개)
+ */
+export const QUOTA_COSTS: Record<YouTubeEndpoint, number> = {
+  search: 100,
+  videos: 1,
+  channels: 1,
+  playlistItems: 1,
+  commentThreads: 1,
+};
+
+/** 프로젝트당 일일 기본 할당량 */
+export const DAILY_QUOTA_LIMIT = 10_000;
+
+// ─── 사용량 요약 타입 (API 응답 및 UI 공통 사용) ──────────────────────────────
+
+export interface EndpointUsage {
+  calls: number;
+  units: number;
+}
+
+export interface QuotaUsage {
+  /** 이번 요청에서 소모한 총 unit */
+  used: number;
+  /** 호출자가 지정한 예산 (미지정 시 null) */
+  budget: number | null;
+  byEndpoint: Record<YouTubeEndpoint, EndpointUsage>;
+  /** 예산 부족으로 생략된 단계 (예: "channelAvg", "searchPage2") */
+  skipped: string[];
+  /** 서버 캐시 적중으로 할당량 없이 처리된 호출 수 */
+  cacheHits: {
+    total: number;
+    byKind: Record<CacheKind, number>;
+  };
+}
+
+// ─── 트래커 ──────────────────────────────────────────────────────────────────
+
+export class QuotaTracker {
+  private readonly usage: Record<YouTubeEndpoint, EndpointUsage> = {
+    search: { calls: 0, units: 0 },
+    videos: { calls: 0, units: 0 },
+    channels: { calls: 0, units: 0 },
+    playlistItems: { calls: 0, units: 0 },
+    commentThreads: { calls: 0, units: 0 },
+  };
+  private readonly skipped: string[] = [];
+  private readonly cacheHits: Record<CacheKind, number> = {
+    search: 0,
+    videos: 0,
+    channels: 0,
+    playlistItems: 0,
+    commentThreads: 0,
+    channelAvg: 0,
+    shortsProbe: 0,
+    thumbnailColor: 0,
+  };
+
+  /** @param budget 요청당 최대 허용 unit (null이면 무제한) */
+  constructor(public readonly budget: number | null = null) {}
+
+  get used(): number {
+    return Object.values(this.usage).reduce((sum, u) => sum + u.units, 0);
+  }
+
+  /** 남은 예산 (무제한이면 Infinity) */
+  get remaining(): number {
+    return this.budget === null ? Infinity : this.budget - this.used;
+  }
+
+  /** 지정한 unit을 예산 내에서 지출할 수 있는지 */
+  canAfford(units: number): boolean {
+    return units <= this.remaining;
+  }
+
+  /**
+   * API 호출 직전에 비용을 차감
+   * 예산을 넘기는 호출은 실행 전에 BUDGET_EXCEEDED로 거부
+   */
+  charge(endpoint: YouTubeEndpoint): void {
+    const cost = QUOTA_COSTS[endpoint];
+    if (!this.canAfford(cost)) {
+      throw new YouTubeAPIError(
+        `요청 예산(${this.budget} units)을 초과하여 ${endpoint} 호출을 중단했습니다.`,
+        "BUDGET_EXCEEDED"
+      );
+    }
+    this.usage[endpoint].calls += 1;
+    this.usage[endpoint].units += cost;
+  }
+
+  /** 예산 부족으로 생략한 단계 기록 */
+  markSkipped(step: string): void {
+    if (!this.skipped.includes(step)) this.skipped.push(step);
+  }
+
+  /** 캐시 적중 기록 (할당량 차감 없음) */
+  recordCacheHit(kind: CacheKind): void {
+    this.cacheHits[kind] += 1;
+  }
+
+  toJSON(): QuotaUsage {
+    return {
+      used: this.used,
+      budget: this.budget,
+      byEndpoint: {
+        search: { ...this.usage.search },
+        videos: { ...this.usage.videos },
+        channels: { ...this.usage.channels },
+        playlistItems: { ...this.usage.playlistItems },
+        commentThreads: { ...this.usage.commentThreads },
+      },
+      skipped: [...this.skipped],
+      cacheHits: {
+        total: Object.values(this.cacheHits).reduce((sum, n) => sum + n, 0),
+        byKind: { ...this.cacheHits },
+      },
+    };
+  }
+}
+
+// ─── 비용 추정 ────────────────────────────────────────────────────────────────
+
+/** ID 목록을 50개씩 조회할 때 필요한 호출 횟수 */
+export function chunkCallCount(idCount: number, chunkSize = 50): number {
+  return Math.ceil(idCount / chunkSize);
+}
+
+/** 검색 1회당 videoDuration별 기본 페이지 수 */
+export const DEFAULT_PAGE_DEPTH = 2;
+/** 검색 1회당 최대 페이지 수 (브라우저에서 예상 비용 표시에도 사용) */
+export const MAX_PAGE_DEPTH = 5;
+
+/**
+ * 검색 페이지 1단계 비용 (videoDuration별로 search.list 1회씩)
+ * - shorts: 100 units, longform(medium + long): 200 units
+ */
+export function searchPageCost(durationCount: number): number {
+  return durationCount * QUOTA_COSTS.search;
+}
+
+/**
+ * 검색 결과 상세 조회 예약 비용 (영상 상세 + 채널 정보, 최악의 경우 ID 수만큼 채널 존재)
+ * 검색 페이지를 받기 전에 남겨 두어야 검색 비용만 쓰고 상세 조회에서 중단되지 않음
+ */
+export function searchDetailReserve(idCount: number): number {
+  return chunkCallCount(idCount) * (QUOTA_COSTS.videos + QUOTA_COSTS.channels);
+}
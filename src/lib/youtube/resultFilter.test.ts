@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import type { ScoreInfo, VideoResult } from "./analysis";
+import {
+  EMPTY_RESULT_FILTER,
+  SLIDER_STEPS,
+  buildFacets,
+  countActiveFilters,
+  filterVideos,
+  sliderToValue,
+  valueToSlider,
+  type ResultFilter,
+} from "./resultFilter";
+
+const LABELS = ["Bad", "Normal", "Good", "Great", "Excellent"] as const;
+
+function video(id: string, overrides: Partial<VideoResult> & { score?: ScoreInfo["score"] } = {}): VideoResult {
+  const { score = 3, ...rest } = overrides;
+  return {
+    id,
+    title: `영상 ${id}`,
+    thumbnail: "",
+    channelId: "UC-a",
+    channelTitle: "채널A",
+    publishedAt: "2026-09-15T10:00:00Z",
+    viewCount: 10_000,
+    likeCount: 100,
+    commentCount: 10,
+    subscriberCount: 1_000,
+    totalVideoCount: 50,
+    viewToSubscriberRatio: 10,
+    likeToSubscriberRatio: 0.1,
+    duration: "PT10M",
+    shortsConfidence: 0,
+    performanceScore: { score, label: LABELS[score - 1], color: "#fff" },
+    contributionScore: null,
+    channelAvgViews: null,
+    scoringProfile: { id: "default", name: "기본" },
+    ageDays: 30,
+    viewsPerDay: 333,
+    likesPerDay: 3,
+    ageAdjustedRatio: 10,
+    ageAdjustedScore: null,
+    ...rest,
+  };
+}
+
+const videos = [
+  video("1", { title: "겨울 캠핑 장비", viewCount: 500_000, score: 5 }),
+  video("2", { title: "캠핑 요리", viewCount: 2_000, viewToSubscriberRatio: 2, score: 2, duration: "PT3M30S" }),
+  video("3", { channelId: "UC-b", channelTitle: "채널B", publishedAt: "2026-08-01T00:00:00Z", score: 5 }),
+  video("4", { channelId: "UC-b", channelTitle: "채널B", subscriberCount: 200_000, score: 4 }),
+];
+
+const ids = (filter: Partial<ResultFilter>) => filterVideos(videos, { ...EMPTY_RESULT_FILTER, ...filter }).map((v) => v.id);
+
+describe("filterVideos", () => {
+  it("기본 필터는 전체 통과", () => {
+    expect(ids({})).toEqual(["1", "2", "3", "4"]);
+    expect(countActiveFilters(EMPTY_RESULT_FILTER)).toBe(0);
+  });
+
+  it("범위는 양 끝 포함, null은 제한 없음", () => {
+    const ranges = { ...EMPTY_RESULT_FILTER.ranges, views: { min: 10_000, max: null } };
+    expect(ids({ ranges })).toEqual(["1", "3", "4"]);
+    expect(ids({ ranges: { ...EMPTY_RESULT_FILTER.ranges, durationSeconds: { min: null, max: 210 } } })).toEqual(["2"]);
+    expect(ids({ ranges: { ...EMPTY_RESULT_FILTER.ranges, ratio: { min: 5, max: 10 } } })).toEqual(["1", "3", "4"]);
+  });
+
+  it("점수·게시일·채널 포함/제외·제목 검색", () => {
+    expect(ids({ scores: [5] })).toEqual(["1", "3"]);
+    expect(ids({ publishedFrom: "2026-09-01", publishedTo: "2026-09-15" })).toEqual(["1", "2", "4"]);
+    expect(ids({ channelIds: ["UC-b"] })).toEqual(["3", "4"]);
+    expect(ids({ channelIds: ["UC-b"], channelMode: "exclude" })).toEqual(["1", "2"]);
+    expect(ids({ text: "  캠핑  겨울 " })).toEqual(["1"]);
+    expect(ids({ text: "채널b" })).toEqual(["3", "4"]);
+  });
+
+  it("활성 조건 개수", () => {
+    expect(
+      countActiveFilters({
+        ...EMPTY_RESULT_FILTER,
+        ranges: { ...EMPTY_RESULT_FILTER.ranges, views: { min: 1, max: null } },
+        scores: [5, 4],
+        text: " ",
+      })
+    ).toBe(2);
+  });
+});
+
+describe("buildFacets", () => {
+  it("점수 개수는 점수 조건을 빼고, 채널 개수는 채널 조건을 빼고 계산", () => {
+    const facets = buildFacets(videos, { ...EMPTY_RESULT_FILTER, scores: [5], channelIds: ["UC-b"] });
+    // 채널B 영상 기준 점수 분포
+    expect(facets.scoreCounts).toEqual({ 1: 0, 2: 0, 3: 0, 4: 1, 5: 1 });
+    // 5점 영상 기준 채널 분포
+    expect(facets.channels).toEqual([
+      { id: "UC-a", title: "채널A", count: 1 },
+      { id: "UC-b", title: "채널B", count: 1 },
+    ]);
+    expect(facets.bounds.views).toEqual({ min: 2_000, max: 500_000 });
+    expect(facets.bounds.durationSeconds).toEqual({ min: 210, max: 600 });
+  });
+
+  it("선택한 채널은 다른 조건에 걸려도 0개로 남음", () => {
+    const facets = buildFacets(videos, { ...EMPTY_RESULT_FILTER, text: "요리", channelIds: ["UC-b"] });
+    expect(facets.channels).toEqual([
+      { id: "UC-a", title: "채널A", count: 1 },
+      { id: "UC-b", title: "채널B", count: 0 },
+    ]);
+  });
+
+  it("결과가 없으면 범위 0", () => {
+    expect(buildFacets([], EMPTY_RESULT_FILTER).bounds.ratio).toEqual({ min: 0, max: 0 });
+  });
+});
+
+describe("슬라이더 로그 눈금", () => {
+  const bounds = { min: 0, max: 999_999 };
+
+  it("양 끝은 경계값, 중간은 자릿수 기준", () => {
+    expect(sliderToValue(0, bounds)).toBe(0);
+    expect(sliderToValue(SLIDER_STEPS, bounds)).toBe(999_999);
+    expect(sliderToValue(SLIDER_STEPS / 2, bounds)).toBe(999);
+    expect(sliderToValue(SLIDER_STEPS / 2, { min: 0, max: 99 }, 2)).toBe(9);
+  });
+
+  it("값 → 위치 왕복", () => {
+    expect(valueToSlider(999, bounds)).toBe(SLIDER_STEPS / 2);
+    expect(valueToSlider(-5, bounds)).toBe(0);
+    expect(valueToSlider(5, { min: 5, max: 5 })).toBe(0);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * resultFilter.ts
+ * 검색 결과 후처리 필터 (네트워크 호출 없이 이미 받은 결과만 걸러냄)
+ * 책임: 범위·점수·게시일·채널·제목 조건 적용, 필터 패널 패싯 개수와 슬라이더 범위 계산
+ */
+
+import type { VideoResult } from "./analysis";
+import { parseDurationToSeconds } from "./videoType";
+
+// ─── 타입 ─────────────────────────────────────────────────────────────────────
+
+/** 양 끝 포함 범위 (null은 제한 없음) */
+export interface NumberRange {
+  min: number | null;
+  max: number | null;
+}
+
+export type RangeField = "views" | "subscribers" | "ratio" | "durationSeconds";
+
+export interface ResultFilter {
+  ranges: Record<RangeField, NumberRange>;
+  /** 표시할 성과도 점수 (비어 있으면 전체) */
+  scores: number[];
+  /** 게시일 범위 (YYYY-MM-DD, UTC 기준, 양 끝 포함) */
+  publishedFrom: string | null;
+  publishedTo: string | null;
+  /** include: 선택한 채널만, exclude: 선택한 채널 제외 */
+  channelMode: "include" | "exclude";
+  channelIds: string[];
+  /** 제목·채널명 검색어 (공백으로 나눈 단어 모두 포함) */
+  text: string;
+}
+
+export interface ResultFacets {
+  /** 점수 조건을 뺀 나머지 조건 기준 성과도 점수별 개수 */
+  scoreCounts: Record<1 | 2 | 3 | 4 | 5, number>;
+  /** 채널 조건을 뺀 나머지 조건 기준 채널별 개수 (많은 순) */
+  channels: { id: string; title: string; count: number }[];
+  /** 전체 결과의 최솟값·최댓값 (슬라이더 범위) */
+  bounds: Record<RangeField, { min: number; max: number }>;
+}
+
+const EMPTY_RANGE: NumberRange = { min: null, max: null };
+
+export const EMPTY_RESULT_FILTER: ResultFilter = {
+  ranges: {
+    views: EMPTY_RANGE,
+    subscribers: EMPTY_RANGE,
+    ratio: EMPTY_RANGE,
+    durationSeconds: EMPTY_RANGE,
+  },
+  scores: [],
+  publishedFrom: null,
+  publishedTo: null,
+  channelMode: "include",
+  channelIds: [],
+  text: "",
+};
+
+export const RANGE_FIELDS: RangeField[] = ["views", "subscribers", "ratio", "durationSeconds"];
+
+export function getRangeValue(video: VideoResult, field: RangeField): number {
+  switch (field) {
+    case "views":           return video.viewCount;
+    case "subscribers":     return video.subscriberCount;
+    case "ratio":           return video.viewToSubscriberRatio;
+    case "durationSeconds": return parseDurationToSeconds(video.duration);
+  }
+}
+
+// ─── 필터 적용 ────────────────────────────────────────────────────────────────
+
+type FilterPart = "ranges" | "scores" | "published" | "channels" | "text";
+
+function inRange(value: number, range: NumberRange): boolean {
+  return (range.min === null || value >= range.min) && (range.max === null || value <= range.max);
+}
+
+/** skip에 지정한 조건은 건너뜀 (패싯 개수 계산용) */
+function matches(video: VideoResult, filter: ResultFilter, skip?: FilterPart): boolean {
+  if (skip !== "ranges" && !RANGE_FIELDS.every((f) => inRange(getRangeValue(video, f), filter.ranges[f]))) {
+    return false;
+  }
+  if (skip !== "scores" && filter.scores.length > 0 && !filter.scores.includes(video.performanceScore.score)) {
+    return false;
+  }
+  if (skip !== "published") {
+    const day = video.publishedAt.slice(0, 10);
+    if (filter.publishedFrom && day < filter.publishedFrom) return false;
+    if (filter.publishedTo && day > filter.publishedTo) return false;
+  }
+  if (skip !== "channels" && filter.channelIds.length > 0) {
+    const selected = filter.channelIds.includes(video.channelId);
+    if (filter.channelMode === "include" ? !selected : selected) return false;
+  }
+  if (skip !== "text") {
+    const haystack = `${video.title} ${video.channelTitle}`.toLocaleLowerCase();
+    const terms = filter.text.toLocaleLowerCase().split(/\s+/).filter(Boolean);
+    if (!terms.every((term) => haystack.includes(term))) return false;
+  }
+  return true;
+}
+
+export function filterVideos(videos: VideoResult[], filter: ResultFilter): VideoResult[] {
+  return videos.filter((video) => matches(video, filter));
+}
+
+/** 기본값이 아닌 조건 개수 (배지용) */
+export function countActiveFilters(filter: ResultFilter): number {
+  return [
+    ...RANGE_FIELDS.map((f) => filter.ranges[f].min !== null || filter.ranges[f].max !== null),
+    filter.scores.length > 0,
+    filter.publishedFrom !== null || filter.publishedTo !== null,
+    filter.channelIds.length > 0,
+    filter.text.trim() !== "",
+  ].filter(Boolean).length;
+}
+
+// ─── 패싯 ─────────────────────────────────────────────────────────────────────
+
+export function buildFacets(videos: VideoResult[], filter: ResultFilter): ResultFacets {
+  const scoreCounts = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  const channels = new Map<string, { id: string; title: string; count: number }>();
+
+  for (const video of videos) {
+    if (matches(video, filter, "scores")) scoreCounts[video.performanceScore.score]++;
+    if (matches(video, filter, "channels")) {
+      const entry = channels.get(video.channelId) ?? { id: video.channelId, title: video.channelTitle, count: 0 };
+      entry.count++;
+      channels.set(video.channelId, entry);
+    }
+  }
+  // 선택한 채널은 다른 조건에 걸려 0개여도 목록에 남김 (해제할 수 있도록)
+  for (const id of filter.channelIds) {
+    if (channels.has(id)) continue;
+    const title = videos.find((v) => v.channelId === id)?.channelTitle ?? id;
+    channels.set(id, { id, title, count: 0 });
+  }
+
+  const bounds = Object.fromEntries(
+    RANGE_FIELDS.map((field) => {
+      const values = videos.map((v) => getRangeValue(v, field));
+      return [field, values.length ? { min: Math.min(...values), max: Math.max(...values) } : { min: 0, max: 0 }];
+    })
+  ) as ResultFacets["bounds"];
+
+  return {
+    scoreCounts,
+    channels: [...channels.values()].sort((a, b) => b.count - a.count || a.title.localeCompare(b.title)),
+    bounds,
+  };
+}
+
+// ─── 슬라이더 (로그 눈금) ─────────────────────────────────────────────────────
+
+/** 슬라이더 칸 수 */
+export const SLIDER_STEPS = 100;
+
+/**
+ * 슬라이더 위치(0~SLIDER_STEPS) → 값
+ * 조회수·구독자처럼 수십~수백만으로 퍼진 값을 고르게 고를 수 있도록 log(1+x) 눈금 사용
+ */
+export function sliderToValue(position: number, bounds: { min: number; max: number }, digits = 0): number {
+  if (position <= 0) return bounds.min;
+  if (position >= SLIDER_STEPS) return bounds.max;
+  const lo = Math.log10(bounds.min + 1);
+  const hi = Math.log10(bounds.max + 1);
+  const value = 10 ** (lo + ((hi - lo) * position) / SLIDER_STEPS) - 1;
+  const scale = 10 ** digits;
+  return Math.min(bounds.max, Math.max(bounds.min, Math.round(value * scale) / scale));
+}
+
+/** 값 → 가장 가까운 슬라이더 위치 */
+export function valueToSlider(value: number, bounds: { min: number; max: number }): number {
+  const lo = Math.log10(bounds.min + 1);
+  const hi = Math.log10(bounds.max + 1);
+  if (hi <= lo) return 0;
+  const position = ((Math.log10(Math.max(value, bounds.min) + 1) - lo) / (hi - lo)) * SLIDER_STEPS;
+  return Math.min(SLIDER_STEPS, Math.max(0, Math.round(position)));
+}
@@ -0,0 +1,78 @@
+/**
+ * resultSort.ts
+ * 검색 결과 정렬 기준 (테이블 컬럼 정렬 · 카드 뷰 · 내보내기가 같은 순서를 공유)
+ */
+
+import type { VideoResult } from "./analysis";
+
+export type VideoSortKey =
+  | "viewCount"
+  | "subscriberCount"
+  | "totalVideoCount"
+  | "contributionScore"
+  | "performanceScore"
+  | "viewsPerDay"
+  | "likesPerDay"
+  | "ageAdjustedScore"
+  | "publishedAt";
+export type SortDir = "asc" | "desc";
+
+export interface VideoSort {
+  key: VideoSortKey;
+  dir: SortDir;
+}
+
+/** 기본 정렬: 성과도 내림차순 (서버 정렬과 동일) */
+export const DEFAULT_VIDEO_SORT: VideoSort = { key: "performanceScore", dir: "desc" };
+
+const SORT_KEYS: VideoSortKey[] = [
+  "viewCount",
+  "subscriberCount",
+  "totalVideoCount",
+  "contributionScore",
+  "performanceScore",
+  "viewsPerDay",
+  "likesPerDay",
+  "ageAdjustedScore",
+  "publishedAt",
+];
+
+export function isVideoSort(value: unknown): value is VideoSort {
+  const sort = value as Partial<VideoSort> | null;
+  return (
+    typeof sort === "object" &&
+    sort !== null &&
+    SORT_KEYS.includes(sort.key as VideoSortKey) &&
+    (sort.dir === "asc" || sort.dir === "desc")
+  );
+}
+
+function getSortValue(video: VideoResult, key: VideoSortKey): number {
+  switch (key) {
+    case "viewCount":        return video.viewCount;
+    case "subscriberCount":  return video.subscriberCount;
+    case "totalVideoCount":  return video.totalVideoCount;
+    case "contributionScore":return video.contributionScore?.score ?? -1;
+    case "performanceScore": return video.performanceScore.score;
+    case "viewsPerDay":      return video.viewsPerDay ?? -1;
+    case "likesPerDay":      return video.likesPerDay ?? -1;
+    // 같은 점수 안에서도 순서가 갈리도록 30일 환산 비율로 정렬
+    case "ageAdjustedScore": return video.ageAdjustedRatio ?? -1;
+    case "publishedAt":      return new Date(video.publishedAt).getTime();
+  }
+}
+
+/** 정렬된 새 배열 (같은 값이면 원래 순서 유지) */
+export function sortVideos(videos: VideoResult[], sort: VideoSort): VideoResult[] {
+  return [...videos].sort((a, b) => {
+    const av = getSortValue(a, sort.key);
+    const bv = getSortValue(b, sort.key);
+    return sort.dir === "desc" ? bv - av : av - bv;
+  });
+}
+
+/** 컬럼 클릭: 같은 컬럼이면 방향 전환, 다른 컬럼이면 내림차순부터 */
+export function toggleSort(current: VideoSort, key: VideoSortKey): VideoSort {
+  if (current.key === key) return { key, dir: current.dir === "desc" ? "asc" : "desc" };
+  return { key, dir: "desc" };
+}
@@ -0,0 +1,105 @@
+/**
+ * searchContinuation.ts
+ * 키워드 검색 이어가기 — search.list nextPageToken을 서버에 보관하고 불투명 ID만 클라이언트에 전달
+ * - "더 보기" 요청은 저장된 토큰부터 재개, 이미 받은 영상 ID는 제외 (앞 페이지 재조회 없음)
+ * - 실행 직전에 ID를 선점(저장소 갱신 안에서 확인 후 삭제)하고 새 ID 발급
+ *   (동시에 같은 ID로 요청해도 한 요청만 진행 — 같은 페이지 중복 과금 방지, 실행이 실패하면 되돌림)
+ * - 발급한 사용자(비로그인은 null)만 사용 가능
+ */
+
+import { randomBytes } from "node:crypto";
+import { JsonStore } from "@/lib/store/jsonStore";
+import type { SearchFilters } from "@/lib/history/searchLog";
+import type { VideoTypeSearchParams } from "./videoType";
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+/** 이어가기 유효 시간 — 페이지 토큰은 같은 조건의 검색 결과에만 유효하므로 짧게 유지 */
+export const CONTINUATION_TTL_MS = 60 * 60 * 1000;
+/** 보관 최대 개수 (초과 시 오래된 것부터 삭제) */
+const MAX_CONTINUATIONS = 500;
+
+// ─── 타입 ─────────────────────────────────────────────────────────────────────
+
+export type SearchDuration = VideoTypeSearchParams["videoDurations"][number];
+
+/** 아직 다음 페이지가 남은 videoDuration별 토큰 */
+export interface SearchCursor {
+  duration: SearchDuration;
+  pageToken: string;
+}
+
+export interface SearchContinuation {
+  ownerId: string | null;
+  filters: SearchFilters;
+  /** 최초 검색 시점에 계산한 업로드 기간 시작일 (재개 시 기준이 바뀌지 않도록 고정) */
+  publishedAfter?: string;
+  cursors: SearchCursor[];
+  /** 지금까지 받은 영상 ID (중복 제외용) */
+  seenVideoIds: string[];
+  /** 지금까지 조회한 페이지 단계 수 */
+  pagesFetched: number;
+  expiresAt: number;
+}
+
+type ContinuationData = Record<string, SearchContinuation>;
+
+const store = new JsonStore<ContinuationData>("searchContinuations.json", () => ({}));
+
+function prune(data: ContinuationData, now = Date.now()): void {
+  for (const [id, entry] of Object.entries(data)) {
+    if (entry.expiresAt <= now) delete data[id];
+  }
+  const alive = Object.entries(data).sort((a, b) => a[1].expiresAt - b[1].expiresAt);
+  for (const [id] of alive.slice(0, Math.max(0, alive.length - MAX_CONTINUATIONS))) {
+    delete data[id];
+  }
+}
+
+// ─── 공개 API ─────────────────────────────────────────────────────────────────
+
+/** 이어가기 상태 저장 후 새 ID 반환 */
+export async function saveContinuation(state: Omit<SearchContinuation, "expiresAt">): Promise<string> {
+  const id = randomBytes(18).toString("base64url");
+  await store.update((data) => {
+    prune(data);
+    data[id] = { ...state, expiresAt: Date.now() + CONTINUATION_TTL_MS };
+  });
+  return id;
+}
+
+function isUsable(entry: SearchContinuation | undefined, ownerId: string | null): entry is SearchContinuation {
+  return !!entry && entry.expiresAt > Date.now() && entry.ownerId === ownerId;
+}
+
+/** ID로 이어가기 상태 조회 (없음·만료·다른 사용자면 null) — 선점하지 않음 */
+export async function loadContinuation(
+  id: string,
+  ownerId: string | null
+): Promise<SearchContinuation | null> {
+  const entry = (await store.read())[id];
+  return isUsable(entry, ownerId) ? entry : null;
+}
+
+/**
+ * 이어가기 ID 선점 — 확인과 삭제를 한 번의 저장소 갱신에서 처리
+ * @returns 선점한 상태, 이미 다른 요청이 사용했거나 없음·만료·다른 사용자면 null
+ */
+export async function claimContinuation(
+  id: string,
+  ownerId: string | null
+): Promise<SearchContinuation | null> {
+  return store.update((data) => {
+    const entry = data[id];
+    if (!isUsable(entry, ownerId)) return null;
+    delete data[id];
+    return entry;
+  });
+}
+
+/** 선점 후 실행이 실패한 이어가기를 같은 ID로 되돌림 (만료 시각 유지) */
+export async function releaseContinuation(id: string, entry: SearchContinuation): Promise<void> {
+  await store.update((data) => {
+    if (entry.expiresAt > Date.now()) data[id] = entry;
+  });
+}
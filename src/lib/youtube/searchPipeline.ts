@@ -0,0 +1,313 @@
+/**
+ * searchPipeline.ts
+ * 키워드 검색 파이프라인 (검색 → 영상·채널 상세 → 채널 평균 → 필터링)
+ * - search Route Handler의 JSON 응답과 NDJSON 스트리밍 응답이 공유
+ * - onEvent 지정 시 단계별 진행률, 필터 통과 영상(성과도), 채널별 기여도를 즉시 전달
+ * - Shorts 확신도가 애매한 영상은 /shorts/ URL 확인으로 보정 (shortsProbe.ts)
+ * - signal이 중단되면(스트리밍 클라이언트 연결 종료 등) 다음 유료 호출 전에 멈춤
+ */
+
+import {
+  searchVideos,
+  getVideoDetails,
+  getChannelDetails,
+  getPlaylistItems,
+  fetchInChunks,
+  type YouTubeSearchItem,
+} from "./client";
+import {
+  AMBIGUOUS_SHORTS_CONFIDENCE,
+  classifyShorts,
+  extractShortsSignals,
+  type VideoType,
+} from "./videoType";
+import { probeShorts } from "./shortsProbe";
+import {
+  buildAndFilterResults,
+  calcChannelAvgViews,
+  calcContributionScore,
+  type BuildFilterOptions,
+  type VideoResult,
+} from "./analysis";
+import { QUOTA_COSTS, searchDetailReserve, searchPageCost, type QuotaTracker } from "./quota";
+import { YouTubeAPIError } from "./errors";
+import { buildCacheKey, CACHE_TTL_MS, getResponseCache } from "./cache";
+import type { ApiKeyPool } from "./keyPool";
+import type { SearchCursor, SearchDuration } from "./searchContinuation";
+import type { ScoringProfile } from "@/lib/scoring/profiles";
+
+// ─── 스트리밍 이벤트 (NDJSON 한 줄 = 이벤트 1개) ──────────────────────────────
+
+export type SearchStage = "search" | "details" | "channelAvg";
+
+/** 기여도 갱신 대상 영상 필드 */
+export type ContributionUpdate = Pick<VideoResult, "id" | "contributionScore" | "channelAvgViews">;
+
+export type SearchPipelineEvent =
+  /** 단계별 진행률 */
+  | { type: "progress"; stage: SearchStage; done: number; total: number }
+  /** 필터 통과 영상 (성과도 확정, 기여도는 캐시된 채널만) */
+  | { type: "videos"; videos: VideoResult[] }
+  /** 채널 평균이 확정된 채널의 영상 기여도 */
+  | { type: "contribution"; channelId: string; videos: ContributionUpdate[] };
+
+export const NDJSON_CONTENT_TYPE = "application/x-ndjson";
+
+/** 스트리밍 응답 전체 이벤트 — 마지막 줄은 done(JSON 응답과 같은 본문) 또는 error */
+export type SearchStreamEvent<TDone = Record<string, unknown>> =
+  | SearchPipelineEvent
+  | ({ type: "done" } & TDone)
+  | { type: "error"; status: number; error: string; code?: string };
+
+// ─── 입력/출력 ────────────────────────────────────────────────────────────────
+
+export interface KeywordSearchParams {
+  keyPool: ApiKeyPool;
+  quota: QuotaTracker;
+  keyword: string;
+  videoType: VideoType;
+  publishedAfter?: string;
+  /** 검색 대상 지역·언어 (미지정 시 KR·ko) */
+  regionCode?: string;
+  relevanceLanguage?: string;
+  pageDepth: number;
+  /** 시작 커서 (처음 검색이면 videoDuration별 첫 페이지) */
+  cursors: Array<{ duration: SearchDuration; pageToken?: string }>;
+  /** 이어가기 전까지 조회한 페이지 단계 수 */
+  pagesBefore: number;
+  /** 이미 받은 영상 ID — 제외 후 이번에 받은 ID를 추가 */
+  seenVideoIds: Set<string>;
+  filters: BuildFilterOptions;
+  maxResults: number;
+  /** 점수 경계값·핵심 필터 */
+  profile: ScoringProfile;
+  /** false면 채널 평균(기여도) 단계 전체를 건너뜀 */
+  channelAverages: boolean;
+  onEvent?: (event: SearchPipelineEvent) => void;
+  /** 중단 시 다음 API 호출 전에 signal.reason을 던짐 */
+  signal?: AbortSignal;
+}
+
+export interface KeywordSearchOutcome {
+  videos: VideoResult[];
+  /** 다음 페이지가 남은 videoDuration별 토큰 */
+  cursors: SearchCursor[];
+  pagesFetched: number;
+}
+
+// ─── 파이프라인 ───────────────────────────────────────────────────────────────
+
+export async function runKeywordSearch(params: KeywordSearchParams): Promise<KeywordSearchOutcome> {
+  const { keyPool, quota, videoType, pageDepth, seenVideoIds, onEvent, signal } = params;
+  const emit = (event: SearchPipelineEvent) => onEvent?.(event);
+
+  // ── 1단계: 영상 검색 (videoDuration별 병렬 호출, pageDepth 페이지까지) ──
+  let cursors = params.cursors;
+  const searchItems: YouTubeSearchItem[] = [];
+  let pagesFetched = params.pagesBefore;
+
+  for (let round = 0; round < pageDepth && cursors.length > 0; round++) {
+    signal?.throwIfAborted();
+    // 상세 조회 비용까지 예산에 남을 때만 다음 페이지 진행 (첫 페이지도 못 받으면 호출 전에 거부)
+    const roundCost =
+      searchPageCost(cursors.length) + searchDetailReserve(searchItems.length + cursors.length * 50);
+    if (!quota.canAfford(roundCost)) {
+      if (round === 0) {
+        throw new YouTubeAPIError(
+          `예산이 부족합니다. 이 검색에는 최소 ${roundCost} units가 필요합니다.`,
+          "BUDGET_EXCEEDED"
+        );
+      }
+      quota.markSkipped(`searchPage${pagesFetched + 1}`);
+      break;
+    }
+
+    const pages = await Promise.all(
+      cursors.map(({ duration, pageToken }) =>
+        searchVideos({
+          apiKey: keyPool,
+          quota,
+          keyword: params.keyword,
+          videoDuration: duration,
+          maxResults: 50,
+          publishedAfter: params.publishedAfter,
+          pageToken,
+          regionCode: params.regionCode,
+          relevanceLanguage: params.relevanceLanguage,
+        })
+      )
+    );
+    searchItems.push(...pages.flatMap((page) => page.items));
+    cursors = cursors
+      .map(({ duration }, i) => ({ duration, pageToken: pages[i].nextPageToken }))
+      .filter((c) => Boolean(c.pageToken));
+    pagesFetched += 1;
+    emit({ type: "progress", stage: "search", done: round + 1, total: pageDepth });
+  }
+  const nextCursors = cursors.filter((c): c is SearchCursor => Boolean(c.pageToken));
+
+  // 중복 제거를 위해 videoId 기준으로 병합 (이어가기면 이전에 받은 영상도 제외)
+  const searchItemMap = new Map(
+    searchItems
+      .filter((item) => !seenVideoIds.has(item.id.videoId))
+      .map((item) => [item.id.videoId, item])
+  );
+  const allSearchItems = [...searchItemMap.values()];
+  for (const id of searchItemMap.keys()) seenVideoIds.add(id);
+
+  if (allSearchItems.length === 0) {
+    emit({ type: "videos", videos: [] });
+    return { videos: [], cursors: nextCursors, pagesFetched };
+  }
+
+  const videoIds = allSearchItems.map((item) => item.id.videoId);
+  const channelIds = [...new Set(allSearchItems.map((item) => item.snippet.channelId))];
+
+  // ── 2단계: 영상 상세 + 채널 정보 병렬 조회 ──────────────────────────
+  // YouTube API는 한 번에 최대 50개 → 50개 초과 시 청크 분할
+  signal?.throwIfAborted();
+  const [videoItems, channelItems] = await Promise.all([
+    fetchInChunks(videoIds, 50, (chunk) =>
+      getVideoDetails({ apiKey: keyPool, quota, videoIds: chunk, shortsSignals: true })
+    ),
+    fetchInChunks(channelIds, 50, (chunk) =>
+      getChannelDetails({ apiKey: keyPool, quota, channelIds: chunk })
+    ),
+  ]);
+
+  // 길이·화면 비율·해시태그만으로 애매한 영상은 /shorts/ URL로 확인 (할당량 미사용)
+  signal?.throwIfAborted();
+  const titleMap = new Map(allSearchItems.map((item) => [item.id.videoId, item.snippet.title]));
+  const shortsProbes = await probeShorts(
+    videoItems
+      .filter((item) => {
+        const confidence = classifyShorts(
+          extractShortsSignals(item, { title: titleMap.get(item.id) })
+        );
+        return (
+          confidence >= AMBIGUOUS_SHORTS_CONFIDENCE.min &&
+          confidence <= AMBIGUOUS_SHORTS_CONFIDENCE.max
+        );
+      })
+      .map((item) => item.id),
+    quota
+  );
+  emit({ type: "progress", stage: "details", done: 1, total: 1 });
+
+  // ── 3단계: 채널 평균 조회수 계산 (기여도 점수용) ─────────────────────
+  // 각 채널의 업로드 플레이리스트에서 샘플 영상을 수집하여 평균 산정
+  // playlistItems.list(1 unit) + videos.list(1 unit) per channel
+  // 캐시된 채널 평균은 재사용하고, 예산이 모자라면 나머지 단계를 생략 (기여도 null)
+  // 채널 평균을 제공하지 않는 요금제는 단계 전체를 건너뜀
+  const cache = getResponseCache();
+  const channelAvgMap = new Map<string, number>();
+  const avgTargets: typeof channelItems = [];
+  await Promise.all(
+    channelItems
+      .filter((c) => params.channelAverages && c.contentDetails?.relatedPlaylists?.uploads)
+      .map(async (channel) => {
+        const cachedAvg = await cache.get<number>(channelAvgCacheKey(channel.id, videoType));
+        if (cachedAvg === undefined) {
+          avgTargets.push(channel);
+          return;
+        }
+        quota.recordCacheHit("channelAvg");
+        if (cachedAvg > 0) channelAvgMap.set(channel.id, cachedAvg);
+      })
+  );
+
+  // 필터 통과 영상은 채널 평균을 기다리지 않고 먼저 전달 (성과도만 확정)
+  const build = () =>
+    buildAndFilterResults(
+      allSearchItems,
+      videoItems,
+      channelItems,
+      videoType,
+      channelAvgMap,
+      params.filters,
+      params.maxResults,
+      params.profile,
+      shortsProbes
+    );
+  const preliminary = build();
+  emit({ type: "videos", videos: preliminary });
+
+  const avgCost =
+    avgTargets.length * (QUOTA_COSTS.playlistItems + QUOTA_COSTS.videos);
+  // 진행률은 평균을 새로 조회하는 채널 수 기준 (캐시 적중 채널은 이미 반영됨)
+  let avgDone = 0;
+  const reportAvg = (channelId: string, avg: number) => {
+    avgDone += 1;
+    emit({ type: "progress", stage: "channelAvg", done: avgDone, total: avgTargets.length });
+    const updates = preliminary
+      .filter((v) => v.channelId === channelId)
+      .map((v) => ({
+        id: v.id,
+        channelAvgViews: avg > 0 ? avg : null,
+        contributionScore:
+          avg > 0 ? calcContributionScore(v.viewCount, avg, params.profile.contribution) : null,
+      }));
+    if (updates.length > 0) emit({ type: "contribution", channelId, videos: updates });
+  };
+
+  signal?.throwIfAborted();
+  if (!quota.canAfford(avgCost)) {
+    quota.markSkipped("channelAvg");
+  } else {
+    await Promise.all(
+      avgTargets.map(async (channel) => {
+        let avg = 0;
+        try {
+          signal?.throwIfAborted();
+          // 최신 50개 영상 ID 수집
+          const playlistItems = await getPlaylistItems({
+            apiKey: keyPool,
+            quota,
+            playlistId: channel.contentDetails!.relatedPlaylists.uploads,
+            maxResults: 50,
+          });
+
+          const sampleIds = playlistItems
+            .map((p) => p.snippet?.resourceId?.videoId)
+            .filter((id): id is string => Boolean(id));
+
+          // 샘플 영상의 길이 + 조회수 조회
+          signal?.throwIfAborted();
+          const sampleVideos =
+            sampleIds.length > 0
+              ? await getVideoDetails({ apiKey: keyPool, quota, videoIds: sampleIds, shortsSignals: true })
+              : [];
+
+          // videoType에 맞는 영상만 필터링하여 평균 계산 (0도 캐시하여 재조회 방지)
+          avg = calcChannelAvgViews(sampleVideos, videoType);
+          await cache.set(
+            channelAvgCacheKey(channel.id, videoType),
+            avg,
+            CACHE_TTL_MS.channelAvg
+          );
+          if (avg > 0) channelAvgMap.set(channel.id, avg);
+        } catch {
+          // 채널 평균 조회 실패 시 해당 채널의 기여도는 null 처리
+        }
+        if (!signal?.aborted) reportAvg(channel.id, avg);
+      })
+    );
+    signal?.throwIfAborted();
+  }
+
+  // ── 4단계: 필터링 및 결과 구성 ──────────────────────────────────────
+  const results = build();
+
+  console.log(
+    `[YouTube Search] found=${allSearchItems.length} filtered=${results.length} channelsWithAvg=${channelAvgMap.size} quotaUsed=${quota.used} cacheHits=${quota.toJSON().cacheHits.total}`
+  );
+
+  return { videos: results, cursors: nextCursors, pagesFetched };
+}
+
+// ─── 캐시 키 ──────────────────────────────────────────────────────────────────
+
+/** 채널 평균 조회수 캐시 키 (videoType별로 평균이 다름) */
+function channelAvgCacheKey(channelId: string, videoType: VideoType): string {
+  return buildCacheKey("channelAvg", { channelId, videoType });
+}
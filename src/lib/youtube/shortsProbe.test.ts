@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  getShortsProbe,
+  headShortsProbe,
+  MAX_PROBES_PER_REQUEST,
+  probeShorts,
+  setShortsProbe,
+} from "./shortsProbe";
+import { QuotaTracker } from "./quota";
+
+const fetchMock = vi.fn();
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  setShortsProbe(undefined);
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("headShortsProbe", () => {
+  it("200은 Shorts, 리다이렉트는 일반 영상, 그 외·네트워크 오류는 미확인", async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 200 }));
+    expect(await headShortsProbe("vid-short")).toBe(true);
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://www.youtube.com/shorts/vid-short",
+      expect.objectContaining({ method: "HEAD", redirect: "manual" })
+    );
+
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 303 }));
+    expect(await headShortsProbe("vid-long")).toBe(false);
+
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 429 }));
+    expect(await headShortsProbe("vid-limited")).toBeNull();
+
+    fetchMock.mockRejectedValueOnce(new TypeError("fetch failed"));
+    expect(await headShortsProbe("vid-offline")).toBeNull();
+  });
+});
+
+describe("getShortsProbe", () => {
+  it("live 데이터 소스가 아니거나 환경변수로 끄면 사용 안 함", () => {
+    expect(getShortsProbe()).toBe(headShortsProbe);
+    vi.stubEnv("YOUTUBE_SHORTS_PROBE", "off");
+    expect(getShortsProbe()).toBeNull();
+
+    const stub = vi.fn(async () => true);
+    setShortsProbe(stub);
+    expect(getShortsProbe()).toBe(stub);
+  });
+});
+
+describe("probeShorts", () => {
+  it("확인된 영상만 반환하고 요청당 개수를 제한", async () => {
+    const probe = vi.fn(async (videoId: string) =>
+      videoId.endsWith("0") ? true : videoId.endsWith("1") ? false : null
+    );
+    setShortsProbe(probe);
+
+    const ids = Array.from({ length: MAX_PROBES_PER_REQUEST + 5 }, (_, i) => `vid-${i}`);
+    const results = await probeShorts(ids, new QuotaTracker(null));
+
+    expect(probe).toHaveBeenCalledTimes(MAX_PROBES_PER_REQUEST);
+    expect(results.get("vid-10")).toBe(true);
+    expect(results.get("vid-11")).toBe(false);
+    expect(results.has("vid-12")).toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("확인 함수가 없으면 빈 결과", async () => {
+    setShortsProbe(null);
+    expect((await probeShorts(["vid-1"])).size).toBe(0);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * shortsProbe.ts
+ * /shorts/<videoId> URL 확인으로 Shorts 여부 보정 (Data API에는 Shorts 여부 필드가 없음)
+ * - Shorts면 200, 일반 영상이면 /watch로 리다이렉트 (HEAD, 리다이렉트 미추적)
+ * - 할당량을 쓰지 않지만 YouTube 웹 요청이므로 애매한 영상만, 요청당 개수·동시 실행 제한
+ * - live 데이터 소스에서만 기본 사용 (fixture 재생·테스트는 setShortsProbe로 대체)
+ */
+
+import { buildCacheKey, CACHE_TTL_MS, getResponseCache } from "./cache";
+import { getDataSource } from "./client";
+import type { QuotaTracker } from "./quota";
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+const SHORTS_URL_BASE = "https://www.youtube.com/shorts/";
+/** 요청 1건에서 확인할 최대 영상 수 */
+export const MAX_PROBES_PER_REQUEST = 30;
+const PROBE_CONCURRENCY = 6;
+const PROBE_TIMEOUT_MS = 3_000;
+
+/** 영상 ID → Shorts 여부 (확인 실패 시 null) */
+export type ShortsProbe = (videoId: string) => Promise<boolean | null>;
+
+// ─── 기본 구현 ────────────────────────────────────────────────────────────────
+
+export const headShortsProbe: ShortsProbe = async (videoId) => {
+  try {
+    const res = await fetch(`${SHORTS_URL_BASE}${encodeURIComponent(videoId)}`, {
+      method: "HEAD",
+      redirect: "manual",
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+    if (res.status === 200) return true;
+    if (res.status >= 300 && res.status < 400) return false;
+    return null;
+  } catch {
+    return null;
+  }
+};
+
+/** undefined: 환경에 따른 기본값, null: 사용 안 함 */
+let override: ShortsProbe | null | undefined;
+
+/** 확인 함수 교체 (테스트 및 로컬 스텁용, undefined로 기본값 복원) */
+export function setShortsProbe(probe: ShortsProbe | null | undefined): void {
+  override = probe;
+}
+
+/**
+ * 현재 확인 함수
+ * - YOUTUBE_SHORTS_PROBE=off 이면 사용 안 함
+ * - 실제 API를 호출하는 데이터 소스(live, record)에서만 HEAD 요청
+ */
+export function getShortsProbe(): ShortsProbe | null {
+  if (override !== undefined) return override;
+  if (process.env.YOUTUBE_SHORTS_PROBE === "off") return null;
+  return ["live", "record(live)"].includes(getDataSource().name) ? headShortsProbe : null;
+}
+
+// ─── 일괄 확인 ────────────────────────────────────────────────────────────────
+
+/**
+ * 영상 ID 목록을 캐시 → 확인 함수 순으로 판별 (앞에서부터 MAX_PROBES_PER_REQUEST개)
+ * @returns 확인된 영상만 담은 Map (실패·미확인은 제외)
+ */
+export async function probeShorts(
+  videoIds: string[],
+  quota?: QuotaTracker
+): Promise<Map<string, boolean>> {
+  const results = new Map<string, boolean>();
+  const probe = getShortsProbe();
+  if (!probe || videoIds.length === 0) return results;
+
+  const cache = getResponseCache();
+  const pending: string[] = [];
+  for (const videoId of videoIds.slice(0, MAX_PROBES_PER_REQUEST)) {
+    const cached = await cache.get<boolean>(buildCacheKey("shortsProbe", { videoId }));
+    if (cached === undefined) {
+      pending.push(videoId);
+      continue;
+    }
+    quota?.recordCacheHit("shortsProbe");
+    results.set(videoId, cached);
+  }
+
+  for (let i = 0; i < pending.length; i += PROBE_CONCURRENCY) {
+    await Promise.all(
+      pending.slice(i, i + PROBE_CONCURRENCY).map(async (videoId) => {
+        const isShorts = await probe(videoId);
+        if (isShorts === null) return;
+        results.set(videoId, isShorts);
+        await cache.set(buildCacheKey("shortsProbe", { videoId }), isShorts, CACHE_TTL_MS.shortsProbe);
+      })
+    );
+  }
+  return results;
+}
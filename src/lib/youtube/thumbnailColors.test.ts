@@ -0,0 +1,75 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  analyzeThumbnails,
+  extractColors,
+  fetchThumbnail,
+  getThumbnailFetcher,
+  MAX_THUMBNAILS_PER_REQUEST,
+  setThumbnailFetcher,
+} from "./thumbnailColors";
+import { MemoryLRUCache, setResponseCache } from "./cache";
+import { setDataSource } from "./client";
+import { FixtureDataSource } from "./fixtureSource";
+import { decodeJpegBlocks } from "@/lib/image/jpeg";
+
+const split = new Uint8Array(readFileSync(path.join(process.cwd(), "fixtures", "images", "split-420.jpg")));
+
+beforeEach(() => {
+  setResponseCache(new MemoryLRUCache());
+});
+
+afterEach(() => {
+  setThumbnailFetcher(undefined);
+  setResponseCache(null);
+  setDataSource(null);
+});
+
+describe("extractColors", () => {
+  it("면적 순 대표색과 평균 밝기", () => {
+    // 9열 중 빨강 4열, 파랑 5열
+    const { palette, brightness } = extractColors(decodeJpegBlocks(split));
+    expect(palette.map((p) => p.share)).toEqual([0.56, 0.44]);
+    expect(palette[0].hex).toMatch(/^#1[d-f]3[a-e]d[a-e]$/);
+    expect(palette[1].hex).toMatch(/^#d[a-e]1[d-f]1[d-f]$/);
+    // 휘도: 빨강 ≈ 87, 파랑 ≈ 69 → (4 × 87 + 5 × 69) / 9 / 255
+    expect(brightness).toBe(30);
+  });
+});
+
+describe("analyzeThumbnails", () => {
+  it("live 데이터 소스에서만 기본 가져오기 함수 사용", async () => {
+    expect(getThumbnailFetcher()).toBe(fetchThumbnail);
+
+    setDataSource(new FixtureDataSource(path.join(process.cwd(), "fixtures", "youtube")));
+    expect(getThumbnailFetcher()).toBeNull();
+    expect(await analyzeThumbnails(["vid-aaaaaa"])).toBeNull();
+  });
+
+  it("가져오기·디코딩 실패는 failed, 성공은 캐시해 다시 요청하지 않음", async () => {
+    const fetcher = vi.fn(async (videoId: string) =>
+      videoId === "vid-missing" ? null : videoId === "vid-broken" ? new Uint8Array([1, 2, 3]) : split
+    );
+    setThumbnailFetcher(fetcher);
+
+    const first = await analyzeThumbnails(["vid-aaaaaa", "vid-missing", "vid-broken", "vid-aaaaaa"]);
+    expect(first?.thumbnails.map((t) => t.videoId)).toEqual(["vid-aaaaaa"]);
+    expect(first?.failed.sort()).toEqual(["vid-broken", "vid-missing"]);
+    expect(fetcher).toHaveBeenCalledTimes(3);
+
+    fetcher.mockClear();
+    const second = await analyzeThumbnails(["vid-aaaaaa"]);
+    expect(second?.thumbnails).toEqual(first?.thumbnails);
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it("요청당 MAX_THUMBNAILS_PER_REQUEST개까지만", async () => {
+    const fetcher = vi.fn(async () => split);
+    setThumbnailFetcher(fetcher);
+    const ids = Array.from({ length: MAX_THUMBNAILS_PER_REQUEST + 5 }, (_, i) => `vid-${String(i).padStart(4, "0")}`);
+    const result = await analyzeThumbnails(ids);
+    expect(result?.thumbnails).toHaveLength(MAX_THUMBNAILS_PER_REQUEST);
+    expect(fetcher).toHaveBeenCalledTimes(MAX_THUMBNAILS_PER_REQUEST);
+  });
+});
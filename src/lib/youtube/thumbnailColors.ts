@@ -0,0 +1,149 @@
+/**
+ * thumbnailColors.ts
+ * 썸네일 대표색·밝기 추출 (서버 전용, 순수 JS JPEG 디코더 lib/image/jpeg.ts 사용)
+ * - 레터박스 없는 16:9 mqdefault(320×180)를 받아 8×8 블록 평균색 격자로 분석
+ * - 할당량을 쓰지 않지만 YouTube 이미지 요청이므로 요청당 개수·동시 실행 제한, 결과는 캐시
+ * - 요청 URL은 영상 ID로만 만들어 임의 주소를 받지 않음
+ * - live 데이터 소스에서만 기본 사용 (fixture 재생·테스트는 setThumbnailFetcher로 대체)
+ */
+
+import { buildCacheKey, CACHE_TTL_MS, getResponseCache } from "./cache";
+import { getDataSource } from "./client";
+import { decodeJpegBlocks, type BlockImage } from "@/lib/image/jpeg";
+
+// ─── 상수 ─────────────────────────────────────────────────────────────────────
+
+/** 요청 1건에서 분석할 최대 영상 수 */
+export const MAX_THUMBNAILS_PER_REQUEST = 50;
+const FETCH_CONCURRENCY = 6;
+const FETCH_TIMEOUT_MS = 5_000;
+/** mqdefault는 보통 20KB 안팎 */
+const MAX_THUMBNAIL_BYTES = 512 * 1024;
+/** 대표색 개수 */
+export const PALETTE_SIZE = 3;
+/** 색 묶음 단위: 채널당 상위 3비트 (8단계) */
+const QUANT_SHIFT = 5;
+
+// ─── 타입 ─────────────────────────────────────────────────────────────────────
+
+export interface PaletteColor {
+  /** #rrggbb */
+  hex: string;
+  /** 썸네일에서 차지하는 비율 (0~1) */
+  share: number;
+}
+
+export interface ThumbnailColors {
+  videoId: string;
+  /** 면적 순 대표색 (첫 항목이 주조색) */
+  palette: PaletteColor[];
+  /** 평균 밝기 (Rec.601 휘도, 0~100) */
+  brightness: number;
+}
+
+/** 영상 ID → 썸네일 JPEG 바이트 (실패 시 null) */
+export type ThumbnailFetcher = (videoId: string) => Promise<Uint8Array | null>;
+
+// ─── 색 추출 ──────────────────────────────────────────────────────────────────
+
+const toHex = (value: number) => Math.round(value).toString(16).padStart(2, "0");
+
+/** 블록 격자 → 대표색(비슷한 색끼리 묶어 면적 순)·평균 밝기 */
+export function extractColors(image: BlockImage): Omit<ThumbnailColors, "videoId"> {
+  const total = image.columns * image.rows;
+  const groups = new Map<number, { count: number; r: number; g: number; b: number }>();
+  let luma = 0;
+  for (let i = 0; i < image.rgb.length; i += 3) {
+    const r = image.rgb[i];
+    const g = image.rgb[i + 1];
+    const b = image.rgb[i + 2];
+    luma += 0.299 * r + 0.587 * g + 0.114 * b;
+    const key = ((r >> QUANT_SHIFT) << 6) | ((g >> QUANT_SHIFT) << 3) | (b >> QUANT_SHIFT);
+    const group = groups.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    group.count++;
+    group.r += r;
+    group.g += g;
+    group.b += b;
+    groups.set(key, group);
+  }
+
+  const palette = [...groups.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, PALETTE_SIZE)
+    .map((g) => ({
+      hex: `#${toHex(g.r / g.count)}${toHex(g.g / g.count)}${toHex(g.b / g.count)}`,
+      share: parseFloat((g.count / total).toFixed(2)),
+    }));
+  return { palette, brightness: total > 0 ? Math.round((luma / total / 255) * 100) : 0 };
+}
+
+// ─── 가져오기 ─────────────────────────────────────────────────────────────────
+
+export const fetchThumbnail: ThumbnailFetcher = async (videoId) => {
+  try {
+    const res = await fetch(`https://i.ytimg.com/vi/${encodeURIComponent(videoId)}/mqdefault.jpg`, {
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (!res.ok) return null;
+    const bytes = new Uint8Array(await res.arrayBuffer());
+    return bytes.length <= MAX_THUMBNAIL_BYTES ? bytes : null;
+  } catch {
+    return null;
+  }
+};
+
+/** undefined: 환경에 따른 기본값, null: 사용 안 함 */
+let override: ThumbnailFetcher | null | undefined;
+
+/** 가져오기 함수 교체 (테스트 및 로컬 스텁용, undefined로 기본값 복원) */
+export function setThumbnailFetcher(fetcher: ThumbnailFetcher | null | undefined): void {
+  override = fetcher;
+}
+
+/** 현재 가져오기 함수 — 실제 API를 호출하는 데이터 소스(live, record)에서만 기본 사용 */
+export function getThumbnailFetcher(): ThumbnailFetcher | null {
+  if (override !== undefined) return override;
+  return ["live", "record(live)"].includes(getDataSource().name) ? fetchThumbnail : null;
+}
+
+// ─── 일괄 분석 ────────────────────────────────────────────────────────────────
+
+/**
+ * 영상 ID 목록의 썸네일을 캐시 → 가져오기·디코딩 순으로 분석 (앞에서부터 MAX_THUMBNAILS_PER_REQUEST개)
+ * @returns 분석한 썸네일과 가져오기·디코딩에 실패한 영상 ID (가져오기 함수가 없으면 null)
+ */
+export async function analyzeThumbnails(
+  videoIds: string[]
+): Promise<{ thumbnails: ThumbnailColors[]; failed: string[] } | null> {
+  const fetcher = getThumbnailFetcher();
+  if (!fetcher) return null;
+
+  const cache = getResponseCache();
+  const thumbnails: ThumbnailColors[] = [];
+  const failed: string[] = [];
+  const pending: string[] = [];
+  for (const videoId of [...new Set(videoIds)].slice(0, MAX_THUMBNAILS_PER_REQUEST)) {
+    const cached = await cache.get<ThumbnailColors>(buildCacheKey("thumbnailColor", { videoId }));
+    if (cached) thumbnails.push(cached);
+    else pending.push(videoId);
+  }
+
+  for (let i = 0; i < pending.length; i += FETCH_CONCURRENCY) {
+    await Promise.all(
+      pending.slice(i, i + FETCH_CONCURRENCY).map(async (videoId) => {
+        const bytes = await fetcher(videoId);
+        let colors: ThumbnailColors;
+        try {
+          if (!bytes) throw new Error("empty");
+          colors = { videoId, ...extractColors(decodeJpegBlocks(bytes)) };
+        } catch {
+          failed.push(videoId);
+          return;
+        }
+        thumbnails.push(colors);
+        await cache.set(buildCacheKey("thumbnailColor", { videoId }), colors, CACHE_TTL_MS.thumbnailColor);
+      })
+    );
+  }
+  return { thumbnails, failed };
+}
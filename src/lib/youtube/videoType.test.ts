@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  classifyShorts,
+  extractShortsSignals,
+  getVideoTypeSearchParams,
+  matchesTypeConfidence,
+  formatTypeConfidence,
+  parseDurationToSeconds,
+  type ShortsSignals,
+} from "./videoType";
+
+describe("parseDurationToSeconds", () => {
+  it.each([
+    ["PT1M30S", 90],
+    ["PT45S", 45],
+    ["PT10M", 600],
+    ["PT1H2M3S", 3723],
+    ["PT2H", 7200],
+    ["P0D", 0],
+    ["invalid", 0],
+  ])("%s → %s초", (iso, seconds) => {
+    expect(parseDurationToSeconds(iso)).toBe(seconds);
+  });
+});
+
+describe("getVideoTypeSearchParams", () => {
+  it("videoType별 search.list videoDuration 값", () => {
+    expect(getVideoTypeSearchParams("shorts").videoDurations).toEqual(["short"]);
+    expect(getVideoTypeSearchParams("longform").videoDurations).toEqual(["medium", "long"]);
+  });
+});
+
+describe("extractShortsSignals", () => {
+  it("임베드 크기로 화면 비율, 제목·설명·태그에서 #shorts 추출", () => {
+    const signals = extractShortsSignals({
+      id: "v",
+      contentDetails: { duration: "PT45S" },
+      statistics: {},
+      snippet: { title: "오늘의 레시피", description: "", tags: ["Shorts"] },
+      player: { embedWidth: "405", embedHeight: "720" },
+    });
+    expect(signals).toEqual({ durationSeconds: 45, aspectRatio: 405 / 720, hashtag: true, probe: null });
+  });
+
+  it("snippet이 없으면 검색 결과 제목 사용, 임베드 크기가 없으면 비율 null", () => {
+    const item = { id: "v", contentDetails: { duration: "PT1M" }, statistics: {} };
+    expect(extractShortsSignals(item, { title: "짧은 팁 #short" })).toMatchObject({
+      aspectRatio: null,
+      hashtag: true,
+    });
+    expect(extractShortsSignals(item, { title: "#shortstory 모음" }).hashtag).toBe(false);
+  });
+});
+
+describe("classifyShorts", () => {
+  const signals = (overrides: Partial<ShortsSignals>): ShortsSignals => ({
+    durationSeconds: 120,
+    aspectRatio: null,
+    hashtag: false,
+    probe: null,
+    ...overrides,
+  });
+
+  it("3분 초과·길이 0은 Shorts 아님", () => {
+    expect(classifyShorts(signals({ durationSeconds: 181, hashtag: true }))).toBe(0);
+    expect(classifyShorts(signals({ durationSeconds: 0 }))).toBe(0);
+  });
+
+  it("세로 영상·#shorts는 확신도를 높이고, 3분 이하 가로 영상은 롱폼으로 분류", () => {
+    expect(classifyShorts(signals({}))).toBe(0.6);
+    expect(classifyShorts(signals({ aspectRatio: 9 / 16 }))).toBe(0.9);
+    expect(classifyShorts(signals({ aspectRatio: 9 / 16, hashtag: true }))).toBe(0.98);
+    expect(classifyShorts(signals({ aspectRatio: 1 }))).toBe(0.7);
+
+    const horizontal = classifyShorts(signals({ aspectRatio: 16 / 9 }));
+    expect(horizontal).toBe(0.15);
+    expect(matchesTypeConfidence(horizontal, "shorts")).toBe(false);
+    expect(matchesTypeConfidence(horizontal, "longform")).toBe(true);
+  });
+
+  it("/shorts/ URL 확인 결과가 있으면 다른 신호보다 우선", () => {
+    expect(classifyShorts(signals({ aspectRatio: 16 / 9, probe: true }))).toBe(0.98);
+    expect(classifyShorts(signals({ aspectRatio: 9 / 16, hashtag: true, probe: false }))).toBe(0.02);
+  });
+});
+
+describe("matchesTypeConfidence", () => {
+  it("기준을 높이면 애매한 영상은 양쪽 모두에서 제외", () => {
+    expect(matchesTypeConfidence(0.6, "shorts")).toBe(true);
+    expect(matchesTypeConfidence(0.6, "shorts", 0.8)).toBe(false);
+    expect(matchesTypeConfidence(0.6, "longform", 0.8)).toBe(false);
+    expect(matchesTypeConfidence(0, "longform", 0.95)).toBe(true);
+  });
+});
+
+describe("formatTypeConfidence", () => {
+  it("3분 이하 영상만 유형과 확신도 표시", () => {
+    expect(formatTypeConfidence(0.9)).toBe("Shorts 90%");
+    expect(formatTypeConfidence(0.15)).toBe("롱폼 85%");
+    expect(formatTypeConfidence(0)).toBeNull();
+    expect(formatTypeConfidence(undefined)).toBeNull();
+  });
+});
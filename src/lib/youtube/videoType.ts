@@ -1,8 +1,12 @@
 /**
  * videoType.ts
  * Shorts / Long-form 구분 로직 및 검색 파라미터 변환 담당
+ * - 길이만으로는 3분 이하 가로 영상을 Shorts로 오분류하므로
+ *   화면 비율(player 임베드 크기), #shorts 해시태그, /shorts/ URL 확인 결과를 합쳐 확신도(0~1) 산출
  */
 
+import type { YouTubeVideoItem } from "./client";
+
 export type VideoType = "shorts" | "longform";
 
 export interface VideoTypeSearchParams {
@@ -12,7 +16,7 @@ export interface VideoTypeSearchParams {
 
 /**
  * VideoType에 따른 YouTube search.list videoDuration 파라미터 반환
- * - shorts: 'short' (4분 미만) → 코드에서 60초 이하로 추가 필터링
+ * - shorts: 'short' (4분 미만) → 코드에서 Shorts 확신도(classifyShorts)로 추가 필터링
  * - longform: 'medium'(4-20분) + 'long'(20분 초과) → 두 번 호출 후 병합
  */
 export function getVideoTypeSearchParams(
@@ -37,21 +41,91 @@ export function parseDurationToSeconds(iso8601: string): number {
   return hours * 3600 + minutes * 60 + seconds;
 }
 
+// ─── Shorts 판별 (여러 신호 결합) ─────────────────────────────────────────────
+
+/** YouTube Shorts 최대 길이 (초) */
+export const SHORTS_MAX_SECONDS = 180;
+/** 기본 판별 기준: 요청한 유형일 확신도가 이 값 이상이면 통과 */
+export const DEFAULT_TYPE_CONFIDENCE = 0.5;
+/** 요청에서 지정할 수 있는 판별 기준 범위 (0.5 미만이면 두 유형 모두 통과) */
+export const MIN_TYPE_CONFIDENCE = 0.5;
+export const MAX_TYPE_CONFIDENCE = 0.95;
+/** 이 범위의 확신도는 /shorts/ URL 확인으로 보정할 가치가 있음 */
+export const AMBIGUOUS_SHORTS_CONFIDENCE = { min: 0.2, max: 0.85 } as const;
+
+export interface ShortsSignals {
+  durationSeconds: number;
+  /** 가로 ÷ 세로 (player 임베드 크기, 알 수 없으면 null) */
+  aspectRatio: number | null;
+  /** 제목·설명·태그에 #shorts 포함 */
+  hashtag: boolean;
+  /** /shorts/ URL 확인 결과 (true: Shorts 페이지, false: 일반 영상으로 이동, null: 미확인) */
+  probe: boolean | null;
+}
+
+const SHORTS_HASHTAG = /#shorts?\b/i;
+
 /**
- * duration이 VideoType에 해당하는지 검증
- * - shorts: 180초(3분) 이하 — 2024.10부터 YouTube Shorts 최대 길이 3분으로 확장
- * - longform: 180초 초과
+ * videos.list 응답에서 판별 신호 추출
+ * @param title 검색 결과 제목 (videos.list에 snippet이 없을 때 대신 사용)
  */
-export function matchesVideoType(
-  durationISO: string,
-  videoType: VideoType
-): boolean {
-  const totalSeconds = parseDurationToSeconds(durationISO);
-  if (videoType === "shorts") {
-    return totalSeconds > 0 && totalSeconds <= 180;
+export function extractShortsSignals(
+  item: YouTubeVideoItem,
+  { title, probe = null }: { title?: string; probe?: boolean | null } = {}
+): ShortsSignals {
+  const width = Number(item.player?.embedWidth);
+  const height = Number(item.player?.embedHeight);
+  const text = [
+    item.snippet?.title ?? title ?? "",
+    item.snippet?.description ?? "",
+    ...(item.snippet?.tags ?? []).map((tag) => `#${tag}`),
+  ].join(" ");
+  return {
+    durationSeconds: parseDurationToSeconds(item.contentDetails.duration),
+    aspectRatio: width > 0 && height > 0 ? width / height : null,
+    hashtag: SHORTS_HASHTAG.test(text),
+    probe,
+  };
+}
+
+/**
+ * 신호 → Shorts일 확신도 (0~1, 소수 둘째 자리)
+ * - 3분 초과 또는 길이 0: Shorts가 될 수 없음
+ * - /shorts/ URL 확인 결과가 있으면 그대로 따름
+ * - 그 외: 길이 기준 0.6에서 세로(+0.3)·정사각(+0.1)·가로(-0.45)·#shorts(+0.2) 가감
+ */
+export function classifyShorts(signals: ShortsSignals): number {
+  const { durationSeconds, aspectRatio, hashtag, probe } = signals;
+  if (durationSeconds <= 0 || durationSeconds > SHORTS_MAX_SECONDS) return 0;
+  if (probe !== null) return probe ? 0.98 : 0.02;
+
+  let confidence = 0.6;
+  if (aspectRatio !== null) {
+    if (aspectRatio < 0.9) confidence += 0.3;
+    else if (aspectRatio <= 1.1) confidence += 0.1;
+    else confidence -= 0.45;
   }
-  return totalSeconds > 180;
+  if (hashtag) confidence += 0.2;
+  return parseFloat(Math.min(Math.max(confidence, 0.02), 0.98).toFixed(2));
+}
+
+/** Shorts 확신도가 요청한 유형 기준을 만족하는지 (longform은 1 - 확신도로 판단) */
+export function matchesTypeConfidence(
+  shortsConfidence: number,
+  videoType: VideoType,
+  minConfidence = DEFAULT_TYPE_CONFIDENCE
+): boolean {
+  const typeConfidence = videoType === "shorts" ? shortsConfidence : 1 - shortsConfidence;
+  return typeConfidence >= minConfidence;
 }
 
-// TODO: 추후 YouTube Reels API 또는 Shorts 전용 엔드포인트 지원 시
-//       isOfficialShorts(videoId) 함수 추가 예정
+/**
+ * 화면 표시용 판별 결과 (예: "Shorts 90%", "롱폼 85%")
+ * 3분 초과 영상은 판별할 필요가 없으므로 null (이전 기록처럼 확신도가 없어도 null)
+ */
+export function formatTypeConfidence(shortsConfidence: number | undefined): string | null {
+  if (shortsConfidence === undefined || shortsConfidence <= 0) return null;
+  return shortsConfidence >= 0.5
+    ? `Shorts ${Math.round(shortsConfidence * 100)}%`
+    : `롱폼 ${Math.round((1 - shortsConfidence) * 100)}%`;
+}
@@ -0,0 +1,72 @@
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { proxy } from "./proxy";
+import { SESSION_COOKIE, signToken } from "@/lib/auth/session";
+import { upsertUser } from "@/lib/auth/users";
+import { PLANS } from "@/lib/billing/plans";
+import { getDailyUsage } from "@/lib/billing/usage";
+
+function request(pathname: string, session?: string, method = "GET") {
+  return new NextRequest(`http://localhost${pathname}`, {
+    method,
+    headers: session ? { cookie: `${SESSION_COOKIE}=${session}` } : undefined,
+  });
+}
+
+const sessionFor = (uid: string) => signToken({ uid, exp: Date.now() + 60_000 });
+
+let dataDir: string;
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "yt-proxy-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("proxy 로그인 보호", () => {
+  it("미로그인 페이지 접근 → /login?next=원래 경로", async () => {
+    const res = await proxy(request("/analyzer/channel/UC1?tab=shorts"));
+    const location = new URL(res.headers.get("location")!);
+    expect(location.pathname).toBe("/login");
+    expect(location.searchParams.get("next")).toBe("/analyzer/channel/UC1?tab=shorts");
+  });
+
+  it("미로그인 API 호출 → 401", async () => {
+    const res = await proxy(request("/api/youtube/search"));
+    expect(res.status).toBe(401);
+    expect((await res.json()).code).toBe("UNAUTHORIZED");
+  });
+
+  it("유효한 세션은 통과, 만료 세션은 차단", async () => {
+    const valid = sessionFor("google:1");
+    expect((await proxy(request("/api/youtube/search", valid))).headers.get("x-middleware-next")).toBe("1");
+
+    const expired = signToken({ uid: "google:1", exp: Date.now() - 1 });
+    expect((await proxy(request("/api/youtube/search", expired))).status).toBe(401);
+  });
+});
+
+describe("proxy 요금제 일일 한도", () => {
+  it("한도 차감은 Route Handler에서 하므로 POST도 통과만 시키고 사용량을 바꾸지 않음", async () => {
+    const user = await upsertUser({
+      provider: "google",
+      providerUserId: "1",
+      name: "테스터",
+      email: null,
+      avatarUrl: null,
+    });
+    const session = sessionFor(user.id);
+
+    for (let i = 0; i <= PLANS.free.dailySearches; i++) {
+      expect((await proxy(request("/api/youtube/search", session, "POST"))).status).toBe(200);
+    }
+    expect((await getDailyUsage(user.id, PLANS.free.dailySearches)).used).toBe(0);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * proxy.ts
+ * 로그인 보호
+ * - /analyzer/*      : 미로그인 시 /login?next=<원래 경로>로 리다이렉트
+ * - /api/youtube/*, /api/history/*, /api/scoring-profiles/*, /api/watchlist/*, /api/competitors/*, /api/insights/* : 미로그인 시 401 JSON
+ * - 요금제 일일 한도는 스냅샷·이어가기 여부를 아는 각 Route Handler에서 차감 (lib/billing/planLimit.ts chargeDailySearch)
+ *   차감하는 라우트: /api/youtube/search(새 검색만), /api/youtube/markets, /api/youtube/keywords, /api/youtube/channel/[channelId]
+ *   새 유료 분석 라우트를 추가하면 chargeDailySearch 호출도 함께 추가해야 함 (여기서는 로그인 여부만 확인)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { readSession } from "@/lib/auth/session";
+
+export async function proxy(req: NextRequest) {
+  const session = readSession(req);
+  const { pathname, search } = req.nextUrl;
+
+  if (!session) {
+    if (pathname.startsWith("/api/")) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다.", code: "UNAUTHORIZED" },
+        { status: 401 }
+      );
+    }
+    const login = new URL("/login", req.url);
+    login.searchParams.set("next", `${pathname}${search}`);
+    return NextResponse.redirect(login);
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: [
+    "/analyzer/:path*",
+    "/api/youtube/:path*",
+    "/api/history/:path*",
+    "/api/scoring-profiles/:path*",
+    "/api/watchlist/:path*",
+    "/api/competitors/:path*",
+    "/api/insights/:path*",
+  ],
+};